@@ -0,0 +1,158 @@
+/**
+ * AST Primitive Extractor Tests - Compiler-driven agentic primitive extraction
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  AgenticGrammarExtractor,
+  AstPrimitiveExtractor,
+  createDefaultAgenticGrammarConfig
+} from '../../agentic-grammar/index.js';
+import type { AgenticPrimitive } from '../../agentic-grammar/index.js';
+
+const sensorSource = `
+export function readSensor(channel: number, scale = 2): number {
+  return channel * scale;
+}
+`;
+
+const agentSource = `
+import { readSensor } from './sensor.js';
+
+let tick = 0;
+
+export class Agent {
+  private memory: number[] = [];
+
+  constructor(private threshold: number) {}
+
+  step(): void {
+    tick++;
+    const value = readSensor(1);
+    if (this.shouldAct(value)) {
+      this.storeObservation(value);
+    }
+  }
+
+  shouldAct(value: number): boolean {
+    return value > this.threshold && tick % 2 === 0;
+  }
+
+  storeObservation(value: number): void {
+    this.memory.push(value);
+  }
+}
+
+export function runAgent(): Agent {
+  const agent = new Agent(1);
+  agent.step();
+  return agent;
+}
+
+export const isEven = (n: number): boolean => n === 0 || isOdd(n - 1);
+export const isOdd = (n: number): boolean => n !== 0 && isEven(n - 1);
+`;
+
+describe('AstPrimitiveExtractor', () => {
+  let directory: string;
+  let files: string[];
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'ast-extractor-'));
+    files = [join(directory, 'sensor.ts'), join(directory, 'agent.ts')];
+    writeFileSync(files[0], sensorSource);
+    writeFileSync(files[1], agentSource);
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const byName = (primitives: AgenticPrimitive[], qualifiedName: string): AgenticPrimitive => {
+    const primitive = primitives.find(p => p.metadata.qualifiedName === qualifiedName);
+    expect(primitive).toBeDefined();
+    return primitive!;
+  };
+
+  test('should extract declarations, not every call site', () => {
+    const primitives = new AstPrimitiveExtractor().extract(files);
+
+    expect(primitives.map(p => p.metadata.qualifiedName).sort()).toEqual([
+      'Agent.constructor',
+      'Agent.memory',
+      'Agent.shouldAct',
+      'Agent.step',
+      'Agent.storeObservation',
+      'Agent.threshold',
+      'isEven',
+      'isOdd',
+      'readSensor',
+      'runAgent',
+      'tick'
+    ]);
+
+    const readSensor = byName(primitives, 'readSensor');
+    expect(readSensor.type).toBe('percept');
+    expect(readSensor.parameters).toEqual([
+      { name: 'channel', type: 'number' },
+      { name: 'scale', type: 'number', defaultValue: '2' }
+    ]);
+    expect(byName(primitives, 'Agent.shouldAct').type).toBe('decision');
+    expect(byName(primitives, 'Agent.storeObservation').type).toBe('memory');
+    expect(byName(primitives, 'Agent.step').type).toBe('action');
+    expect(byName(primitives, 'tick').type).toBe('memory');
+  });
+
+  test('should resolve calls and state access across files into dependencies', () => {
+    const primitives = new AstPrimitiveExtractor().extract(files);
+    const id = (qualifiedName: string) => byName(primitives, qualifiedName).id;
+
+    const step = byName(primitives, 'Agent.step');
+    expect(step.metadata.calls.sort()).toEqual([id('Agent.shouldAct'), id('Agent.storeObservation'), id('readSensor')].sort());
+    expect(step.metadata.writes).toEqual([id('tick')]);
+    expect(step.dependencies.sort()).toEqual([...step.metadata.calls, id('tick')].sort());
+
+    const shouldAct = byName(primitives, 'Agent.shouldAct');
+    expect(shouldAct.metadata.reads.sort()).toEqual([id('Agent.threshold'), id('tick')].sort());
+    expect(shouldAct.metadata.writes).toEqual([]);
+    expect(shouldAct.metadata.cyclomaticComplexity).toBe(2);
+
+    expect(byName(primitives, 'runAgent').metadata.calls.sort())
+      .toEqual([id('Agent.constructor'), id('Agent.step')].sort());
+    expect(byName(primitives, 'readSensor').dependencies).toEqual([]);
+  });
+
+  test('should measure functional depth as the longest call chain', () => {
+    const primitives = new AstPrimitiveExtractor().extract(files);
+    const depth = (qualifiedName: string) => byName(primitives, qualifiedName).functionalDepth;
+
+    expect(depth('readSensor')).toBe(1);
+    expect(depth('Agent.shouldAct')).toBe(1);
+    expect(depth('Agent.step')).toBe(2);
+    expect(depth('runAgent')).toBe(3);
+    // Mutual recursion forms one component rather than an infinite chain
+    expect(depth('isEven')).toBe(1);
+    expect(depth('isOdd')).toBe(1);
+  });
+
+  test('should produce stable IDs across runs and unrelated edits', () => {
+    const ids = new AstPrimitiveExtractor().extract(files).map(p => p.id);
+    expect(new Set(ids).size).toBe(ids.length);
+
+    writeFileSync(files[1], `// leading comment\n\n${agentSource}`);
+    expect(new AstPrimitiveExtractor().extract(files).map(p => p.id)).toEqual(ids);
+  });
+
+  test('should be selected by the extractor in ast mode', async () => {
+    const config = createDefaultAgenticGrammarConfig();
+    config.extraction.sourceDirectories = [directory];
+    config.extraction.mode = 'ast';
+
+    const primitives = await new AgenticGrammarExtractor(config).extractAgenticPrimitives();
+
+    expect(primitives.size).toBe(11);
+    expect([...primitives.values()].every(p => p.metadata.extractor === 'ast')).toBe(true);
+  }, 20000);
+});
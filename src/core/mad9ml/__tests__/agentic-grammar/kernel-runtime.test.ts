@@ -0,0 +1,178 @@
+/**
+ * Kernel Runtime Tests - In-process execution of GGML kernel graphs
+ */
+
+import {
+  CognitiveKernelRegistry,
+  KernelRuntime,
+  compileKernel,
+  dependencyEdges
+} from '../../agentic-grammar/index.js';
+import type { AgenticPrimitive, AgenticPrimitiveType, GgmlKernel, TensorMessage } from '../../agentic-grammar/index.js';
+import { SeededRandom, encodeKernelWeights, decodeKernelWeights } from '../../index.js';
+import { makeTensor, matmul, randomTensor, relu } from '../../tensor/operations.js';
+import type { Tensor } from '../../types.js';
+
+const primitive = (id: string, type: AgenticPrimitiveType, dependencies: string[] = []): AgenticPrimitive => ({
+  id,
+  type,
+  name: id,
+  sourceLocation: { filePath: 'agent.ts', startLine: 1, endLine: 1, startColumn: 0, endColumn: 10 },
+  parameters: [],
+  semanticComplexity: 1,
+  functionalDepth: 1,
+  dependencies,
+  metadata: {}
+});
+
+const input = (seed: number): Tensor => randomTensor([8, 8], 1, new SeededRandom(seed));
+
+const message = (kernel: GgmlKernel, tensor: Tensor): TensorMessage => ({
+  id: `message_${kernel.id}`,
+  sourceKernelId: kernel.id,
+  targetKernelId: kernel.id,
+  sourcePort: 'main_output',
+  targetPort: 'main_input',
+  tensor,
+  routingInfo: { priority: 1, ttl: 5, path: [] },
+  timestamp: Date.now()
+});
+
+describe('compileKernel', () => {
+  let registry: CognitiveKernelRegistry;
+
+  beforeEach(() => {
+    registry = new CognitiveKernelRegistry();
+  });
+
+  test('should compute the primitive operation over port tensors', () => {
+    const kernel = registry.createKernelFromPrimitive(primitive('act', 'action'));
+    const compute = compileKernel(kernel, new SeededRandom(1));
+
+    expect(kernel.weights!.shape).toEqual([8, 8]);
+    const { main_output } = compute({ main_input: input(2) });
+    expect(Array.from(main_output.data)).toEqual(Array.from(relu(matmul(input(2), kernel.weights!)).data));
+
+    const same = registry.createKernelFromPrimitive(primitive('act_again', 'action'));
+    compileKernel(same, new SeededRandom(1));
+    expect(Array.from(same.weights!.data)).toEqual(Array.from(kernel.weights!.data));
+  });
+
+  test('should reject inputs that do not match the kernel ports', () => {
+    const compute = compileKernel(registry.createKernelFromPrimitive(primitive('act', 'action')));
+
+    expect(() => compute({})).toThrow('is missing input main_input');
+    expect(() => compute({ main_input: makeTensor([4, 4]) })).toThrow('port main_input expects shape [8,8], got [4,4]');
+    expect(() => compute({ main_input: input(1), other: input(1) })).toThrow('has no input port other');
+  });
+
+  test('should keep memory state between calls and binarize decisions', () => {
+    const memory = compileKernel(registry.createKernelFromPrimitive(primitive('mem', 'memory')), new SeededRandom(3));
+    const first = memory({ main_input: input(4) }).main_output;
+    const second = memory({ main_input: input(4) }).main_output;
+    expect(Array.from(second.data)).not.toEqual(Array.from(first.data));
+
+    const decide = compileKernel(registry.createKernelFromPrimitive(primitive('dec', 'decision')), new SeededRandom(3));
+    const decision = decide({ main_input: input(5) }).main_output;
+    expect(Array.from(decision.data).every(value => value === 0 || value === 1)).toBe(true);
+  });
+
+  test('should reuse persisted weights', () => {
+    const kernel = registry.createKernelFromPrimitive(primitive('percept', 'percept'));
+    const before = compileKernel(kernel, new SeededRandom(6))({ main_input: input(7) }).main_output;
+
+    const restored = registry.createKernelFromPrimitive(primitive('percept_restored', 'percept'));
+    restored.weights = decodeKernelWeights(encodeKernelWeights([kernel]))[kernel.id];
+    const after = compileKernel(restored, new SeededRandom(99))({ main_input: input(7) }).main_output;
+
+    expect(Array.from(after.data)).toEqual(Array.from(before.data));
+  });
+});
+
+describe('KernelRuntime', () => {
+  let registry: CognitiveKernelRegistry;
+  let sense: GgmlKernel;
+  let act: GgmlKernel;
+  let decide: GgmlKernel;
+
+  beforeEach(() => {
+    registry = new CognitiveKernelRegistry();
+    sense = registry.createKernelFromPrimitive(primitive('sense', 'percept'));
+    act = registry.createKernelFromPrimitive(primitive('act', 'action', ['sense']));
+    decide = registry.createKernelFromPrimitive(primitive('decide', 'decision', ['sense', 'act']));
+  });
+
+  test('should execute the dependency graph in topological order', () => {
+    expect(dependencyEdges(registry.getAllKernels())).toHaveLength(3);
+
+    const runtime = new KernelRuntime(registry, new SeededRandom(1));
+    const report = runtime.execute([message(sense, input(2))]);
+
+    expect(report.results.map(result => result.kernelId)).toEqual([sense.id, act.id, decide.id]);
+    expect(report.results.every(result => !result.error && result.latency >= 0)).toBe(true);
+    expect(report.skipped).toEqual([]);
+
+    // decide receives the sum of sense and act outputs
+    const [senseOut, actOut, decideOut] = report.results.map(result => result.outputs.main_output);
+    const expected = compileKernel(decide)({
+      main_input: makeTensor([8, 8], senseOut.data.map((value, i) => value + actOut.data[i]))
+    });
+    expect(Array.from(decideOut.data)).toEqual(Array.from(expected.main_output.data));
+
+    expect(registry.getKernel(act.id)!.metadata.usageFrequency).toBe(1);
+    expect(report.totalLatency).toBeCloseTo(report.results.reduce((sum, result) => sum + result.latency, 0), 10);
+  });
+
+  test('should report failing kernels and skip what depends on them', () => {
+    const runtime = new KernelRuntime(registry, new SeededRandom(1));
+    act.weights = makeTensor([2, 2]);
+
+    const report = runtime.execute([message(sense, input(2))], [
+      { sourceKernelId: sense.id, sourcePort: 'main_output', targetKernelId: act.id, targetPort: 'main_input' },
+      { sourceKernelId: act.id, sourcePort: 'main_output', targetKernelId: decide.id, targetPort: 'main_input' }
+    ]);
+
+    expect(report.results.map(result => result.kernelId)).toEqual([sense.id, act.id]);
+    expect(report.results[1].error).toContain('weights have shape [2,2], expected [8,8]');
+    expect(report.skipped).toEqual([decide.id]);
+  });
+
+  test('should report kernels on a cycle and still run the rest of the batch', () => {
+    const isEven = registry.createKernelFromPrimitive(primitive('isEven', 'decision', ['isOdd', 'sense']));
+    const isOdd = registry.createKernelFromPrimitive(primitive('isOdd', 'decision', ['isEven']));
+    const report = new KernelRuntime(registry, new SeededRandom(1)).execute([message(sense, input(2))]);
+
+    expect(report.results.map(result => result.kernelId)).toEqual([sense.id, act.id, decide.id, isEven.id, isOdd.id]);
+    expect(report.results.slice(0, 3).every(result => !result.error)).toBe(true);
+    expect(report.results[3].error).toBe(`Kernel graph has a cycle through ${isEven.id}, ${isOdd.id}`);
+    expect(report.results[4].outputs).toEqual({});
+    expect(report.skipped).toEqual([]);
+  });
+
+  test('should skip kernels fed by a cycle and reject unknown kernels', () => {
+    const runtime = new KernelRuntime(registry);
+    const cycle = [
+      { sourceKernelId: act.id, sourcePort: 'main_output', targetKernelId: decide.id, targetPort: 'main_input' },
+      { sourceKernelId: decide.id, sourcePort: 'main_output', targetKernelId: act.id, targetPort: 'main_input' },
+      { sourceKernelId: decide.id, sourcePort: 'main_output', targetKernelId: sense.id, targetPort: 'main_input' }
+    ];
+
+    const report = runtime.execute([message(act, input(1))], cycle);
+    expect(report.results.map(result => [result.kernelId, result.error])).toEqual([
+      [act.id, `Kernel graph has a cycle through ${act.id}, ${decide.id}`],
+      [decide.id, `Kernel graph has a cycle through ${act.id}, ${decide.id}`]
+    ]);
+    expect(report.skipped).toEqual([sense.id]);
+    expect(() => runtime.execute([{ ...message(act, input(1)), targetKernelId: 'missing' }])).toThrow('Unknown kernel missing');
+  });
+
+  test('should execute messages routed through the registry queue', () => {
+    const runtime = new KernelRuntime(registry, new SeededRandom(1));
+    registry.routeTensorMessage(message(sense, input(2)));
+
+    const report = runtime.processMessageQueue([]);
+
+    expect(report.results.map(result => result.kernelId)).toEqual([sense.id]);
+    expect(registry.getRegistryStatistics().messageQueueSize).toBe(0);
+  });
+});
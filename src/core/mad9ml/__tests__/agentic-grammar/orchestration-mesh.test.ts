@@ -0,0 +1,225 @@
+/**
+ * Orchestration Mesh Tests - Networked mesh nodes, failure detection and migration
+ */
+
+import { MessageChannel, MessagePort } from 'worker_threads';
+import {
+  CognitiveKernelRegistry,
+  DistributedOrchestrationMesh,
+  RemoteMeshNode,
+  compileKernel,
+  createDefaultAgenticGrammarConfig,
+  serveMeshNode,
+  spawnWorkerMeshNode
+} from '../../agentic-grammar/index.js';
+import type { GgmlKernel, MeshNodeLink, MeshNodeSpawner, TensorMessage } from '../../agentic-grammar/index.js';
+import { SeededRandom } from '../../index.js';
+import { randomTensor } from '../../tensor/operations.js';
+import type { Tensor } from '../../types.js';
+
+/**
+ * Serves each mesh node over a MessageChannel, as a worker thread would, and
+ * can kill a node: it stops answering and sending heartbeats at once
+ */
+class LocalMeshHarness {
+  private nodes: Map<string, { stop: () => void; port: MessagePort }> = new Map();
+
+  spawn: MeshNodeSpawner = init => {
+    const { port1, port2 } = new MessageChannel();
+    this.nodes.set(init.nodeId, { stop: serveMeshNode(port2, init), port: port2 });
+    return new RemoteMeshNode(init.nodeId, port1, () => {
+      this.kill(init.nodeId);
+      port1.close();
+    });
+  };
+
+  kill(nodeId: string): void {
+    const node = this.nodes.get(nodeId);
+    node?.stop();
+    node?.port.close();
+  }
+}
+
+const input = (seed: number): Tensor => randomTensor([8, 8], 1, new SeededRandom(seed));
+
+const message = (kernel: GgmlKernel, tensor: Tensor): TensorMessage => ({
+  id: `message_${kernel.id}`,
+  sourceKernelId: kernel.id,
+  targetKernelId: kernel.id,
+  sourcePort: 'main_output',
+  targetPort: 'main_input',
+  tensor,
+  routingInfo: { priority: 1, ttl: 5, path: [] },
+  timestamp: Date.now()
+});
+
+const waitFor = async (condition: () => boolean, timeout: number = 2000): Promise<void> => {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+/**
+ * What the kernel computes next if it continues from its current weights and state
+ */
+const continueLocally = (kernel: GgmlKernel, tensor: Tensor): number[] =>
+  Array.from(compileKernel(structuredClone(kernel))({ main_input: tensor }).main_output.data);
+
+describe('Networked orchestration mesh', () => {
+  let harness: LocalMeshHarness;
+  let registry: CognitiveKernelRegistry;
+  let mesh: DistributedOrchestrationMesh;
+  let memory: GgmlKernel;
+
+  beforeEach(() => {
+    harness = new LocalMeshHarness();
+    registry = new CognitiveKernelRegistry();
+    mesh = new DistributedOrchestrationMesh(registry, createDefaultAgenticGrammarConfig(), {
+      spawn: harness.spawn,
+      heartbeatInterval: 20,
+      heartbeatTimeout: 100,
+      seed: 5
+    });
+    memory = registry.createKernelFromPrimitive({
+      id: 'recall',
+      type: 'memory',
+      name: 'recall',
+      sourceLocation: { filePath: 'agent.ts', startLine: 1, endLine: 1, startColumn: 0, endColumn: 10 },
+      parameters: [],
+      semanticComplexity: 1,
+      functionalDepth: 1,
+      dependencies: [],
+      metadata: {}
+    });
+  });
+
+  afterEach(async () => {
+    await mesh.shutdown();
+  });
+
+  test('should execute routed messages on the hosting node', async () => {
+    const sense = registry.createKernelFromPrimitive({ ...memory.agenticFunction, id: 'sense', type: 'percept', name: 'sense' });
+    expect(await mesh.deployKernel(memory, 'memory')).toBe('node_memory');
+    expect(await mesh.deployKernel(sense, 'core')).toBe('node_core');
+
+    expect(await mesh.routeMessage({ ...message(memory, input(1)), sourceKernelId: sense.id })).toBe(true);
+    const result = await mesh.executeMessage(message(memory, input(2)));
+
+    expect(result.error).toBeUndefined();
+    expect(result.outputs.main_output.shape).toEqual([8, 8]);
+    expect(memory.weights!.shape).toEqual([8, 8]);
+    // The registry's copy follows the node's memory state
+    expect(Array.from(memory.state!.data)).toEqual(Array.from(result.outputs.main_output.data));
+    expect(mesh.getNode('node_memory')!.performance.throughput).toBe(2);
+    expect(mesh.getMeshStatistics().messageReliability).toBe(1);
+  });
+
+  test('should detect a killed node by its missing heartbeats and redistribute its kernels', async () => {
+    await mesh.deployKernel(memory, 'memory');
+    await mesh.executeMessage(message(memory, input(1)));
+    await mesh.executeMessage(message(memory, input(2)));
+    const expected = continueLocally(memory, input(3));
+
+    harness.kill('node_memory');
+    await waitFor(() => mesh.getNode('node_memory')!.status === 'failed');
+
+    const failedNode = mesh.getNode('node_memory')!;
+    expect(failedNode.kernels).toEqual([]);
+    expect(failedNode.link).toBeUndefined();
+    const newHome = mesh.getAllNodes().find(node => node.kernels.includes(memory.id))!;
+    expect(newHome.id).not.toBe('node_memory');
+
+    // The kernel resumes from the state it had on the failed node
+    const result = await mesh.executeMessage(message(memory, input(3)));
+    expect(result.error).toBeUndefined();
+    expect(Array.from(result.outputs.main_output.data)).toEqual(expected);
+
+    // Live nodes keep heartbeating and stay up
+    await new Promise(resolve => setTimeout(resolve, 150));
+    expect(mesh.getMeshStatistics().failedNodes).toBe(1);
+  });
+
+  test('should wait for a worker thread to start and fail over once it ends', async () => {
+    const channels = new LocalMeshHarness();
+    let worker: MeshNodeLink | undefined;
+    const workerMesh = new DistributedOrchestrationMesh(registry, createDefaultAgenticGrammarConfig(), {
+      spawn: init => {
+        if (init.nodeId !== 'node_memory') return channels.spawn(init);
+        worker = spawnWorkerMeshNode(init, new URL('../fixtures/mesh-worker.mjs', import.meta.url));
+        return worker;
+      },
+      heartbeatInterval: 20,
+      heartbeatTimeout: 100
+    });
+
+    try {
+      // Loading the worker takes far longer than the heartbeat timeout
+      expect(workerMesh.getNode('node_memory')!.lastHeartbeat).toBeNull();
+      expect(await workerMesh.deployKernel(memory, 'memory')).toBe('node_memory');
+      expect(workerMesh.getNode('node_memory')!.status).toBe('active');
+      expect(workerMesh.getNode('node_memory')!.lastHeartbeat).not.toBeNull();
+
+      await workerMesh.executeMessage(message(memory, input(1)));
+      const expected = continueLocally(memory, input(2));
+
+      // Closing the link terminates the worker thread
+      await worker!.close();
+      await waitFor(() => workerMesh.getNode('node_memory')!.status === 'failed');
+
+      const newHome = workerMesh.getAllNodes().find(node => node.kernels.includes(memory.id))!;
+      expect(newHome.id).not.toBe('node_memory');
+      const result = await workerMesh.executeMessage(message(memory, input(2)));
+      expect(result.error).toBeUndefined();
+      expect(Array.from(result.outputs.main_output.data)).toEqual(expected);
+    } finally {
+      await workerMesh.shutdown();
+    }
+  }, 30000);
+
+  test('should roll back a deployment the node rejects', async () => {
+    const link = mesh.getNode('node_memory')!.link!;
+    link.fail(new Error('Mesh node node_memory is unreachable'));
+
+    await expect(mesh.deployKernel(memory, 'memory')).rejects.toThrow('is unreachable');
+    expect(mesh.getNode('node_memory')!.kernels).toEqual([]);
+    expect(mesh.getNode('node_memory')!.load).toBe(0);
+  });
+
+  test('should migrate a kernel with its live state', async () => {
+    await mesh.deployKernel(memory, 'core');
+    await mesh.executeMessage(message(memory, input(1)));
+    const expected = continueLocally(memory, input(2));
+
+    await mesh.migrateKernel(memory.id, 'node_reasoning');
+
+    expect(mesh.getNode('node_core')!.kernels).not.toContain(memory.id);
+    expect(mesh.getNode('node_reasoning')!.kernels).toContain(memory.id);
+    const result = await mesh.executeMessage(message(memory, input(2)));
+    expect(Array.from(result.outputs.main_output.data)).toEqual(expected);
+    expect(mesh.getNode('node_reasoning')!.performance.throughput).toBe(1);
+  });
+
+  test('should keep a kernel on its node when the target rejects the move', async () => {
+    await mesh.deployKernel(memory, 'core');
+    await mesh.executeMessage(message(memory, input(1)));
+    const expected = continueLocally(memory, input(2));
+
+    mesh.getNode('node_reasoning')!.link!.fail(new Error('Mesh node node_reasoning is unreachable'));
+    await expect(mesh.migrateKernel(memory.id, 'node_reasoning')).rejects.toThrow('is unreachable');
+
+    expect(mesh.getNode('node_core')!.kernels).toContain(memory.id);
+    expect(mesh.getNode('node_reasoning')!.kernels).not.toContain(memory.id);
+    const result = await mesh.executeMessage(message(memory, input(2)));
+    expect(result.error).toBeUndefined();
+    expect(Array.from(result.outputs.main_output.data)).toEqual(expected);
+  });
+
+  test('should reject kernels that are not deployed', async () => {
+    await expect(mesh.executeMessage(message(memory, input(1)))).rejects.toThrow('is not deployed on a networked node');
+    await expect(mesh.migrateKernel(memory.id, 'node_core')).rejects.toThrow('is not deployed');
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Channel RPC Tests - Typed calls over structured-clone channels
+ */
+
+import { MessageChannel } from 'worker_threads';
+import { ChannelClient, serveChannel } from '../channel/channel-rpc.js';
+
+interface CalculatorMethods {
+  add: { args: [a: number, b: number]; result: number };
+  divide: { args: [a: number, b: number]; result: number };
+  wait: { args: []; result: void };
+}
+
+describe('Channel RPC', () => {
+  let channel: MessageChannel;
+
+  beforeEach(() => {
+    channel = new MessageChannel();
+  });
+
+  afterEach(() => {
+    channel.port1.close();
+    channel.port2.close();
+  });
+
+  const serveCalculator = () => serveChannel<CalculatorMethods>(channel.port2, request => {
+    switch (request.method) {
+      case 'add': return request.args[0] + request.args[1];
+      case 'divide':
+        if (request.args[1] === 0) throw new Error('Division by zero');
+        return request.args[0] / request.args[1];
+      case 'wait': return new Promise<void>(() => {});
+    }
+  });
+
+  test('should answer calls and report handler errors', async () => {
+    serveCalculator();
+    const client = new ChannelClient<CalculatorMethods>(channel.port1);
+
+    await expect(Promise.all([client.call('add', 1, 2), client.call('divide', 9, 3)])).resolves.toEqual([3, 3]);
+    await expect(client.call('divide', 1, 0)).rejects.toThrow('Division by zero');
+    client.detach();
+  });
+
+  test('should pass other frames on and share the channel with them', async () => {
+    serveCalculator();
+    const frames: unknown[] = [];
+    const client = new ChannelClient<CalculatorMethods>(channel.port1, { onMessage: value => frames.push(value) });
+
+    channel.port2.postMessage({ type: 'heartbeat', beat: 1 });
+    expect(await client.call('add', 2, 2)).toBe(4);
+
+    expect(frames).toEqual([{ type: 'heartbeat', beat: 1 }]);
+    client.detach();
+  });
+
+  test('should reject calls on timeout, failure and after stopping', async () => {
+    const stop = serveCalculator();
+    const client = new ChannelClient<CalculatorMethods>(channel.port1, { timeoutMs: 50 });
+
+    await expect(client.call('wait')).rejects.toThrow('wait timed out after 50 ms');
+
+    stop();
+    const unanswered = client.call('add', 1, 1);
+    client.fail(new Error('Worker exited'));
+    await expect(unanswered).rejects.toThrow('Worker exited');
+    await expect(client.call('add', 1, 1)).rejects.toThrow('Worker exited');
+    expect(client.getFailure()?.message).toBe('Worker exited');
+    client.detach();
+  });
+});
@@ -0,0 +1,7 @@
+/**
+ * Test worker entry point running grammar-evolution/island-worker.ts
+ */
+
+import './register-ts.mjs';
+
+await import('../../grammar-evolution/island-worker.ts');
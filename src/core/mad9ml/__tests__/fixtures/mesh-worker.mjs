@@ -0,0 +1,7 @@
+/**
+ * Test worker entry point running agentic-grammar/mesh-worker.ts
+ */
+
+import './register-ts.mjs';
+
+await import('../../agentic-grammar/mesh-worker.ts');
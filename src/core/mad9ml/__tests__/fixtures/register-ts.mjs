@@ -0,0 +1,9 @@
+/**
+ * Registers ts-node so worker threads started by tests can load TypeScript
+ * modules; import it before dynamically importing the worker module.
+ */
+
+import { register } from 'node:module';
+
+process.env.TS_NODE_TRANSPILE_ONLY = 'true';
+register('ts-node/esm', import.meta.url);
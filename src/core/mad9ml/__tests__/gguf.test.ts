@@ -0,0 +1,184 @@
+/**
+ * GGUF Tests - ggml-compatible tensor file reading and writing
+ */
+
+import {
+  Mad9mlSystem,
+  createDefaultConfig,
+  makeTensor,
+  randomTensor,
+  SeededRandom,
+  GGUFValueType,
+  GgmlType,
+  encodeGGUF,
+  decodeGGUF,
+  encodeCognitiveState,
+  decodeCognitiveState,
+  encodeKernelWeights,
+  decodeKernelWeights
+} from '../index.js';
+import type { GgmlKernel } from '../index.js';
+
+/**
+ * Builds a GGUF v3 file by hand, as llama.cpp's gguf writer lays it out
+ */
+const handBuiltGGUF = (tensorType: number = GgmlType.F32): Buffer => {
+  const u32 = (value: number) => { const b = Buffer.alloc(4); b.writeUInt32LE(value); return b; };
+  const u64 = (value: number) => { const b = Buffer.alloc(8); b.writeBigUInt64LE(BigInt(value)); return b; };
+  const str = (value: string) => Buffer.concat([u64(Buffer.byteLength(value)), Buffer.from(value)]);
+
+  const header = Buffer.concat([
+    Buffer.from('GGUF'), u32(3), u64(1), u64(2),
+    str('general.name'), u32(GGUFValueType.STRING), str('hand built'),
+    str('demo.scale'), u32(GGUFValueType.FLOAT32), Buffer.from(new Float32Array([0.5]).buffer),
+    // Tensor "w" with ggml dims ne = [3, 2]: two rows of three
+    str('w'), u32(2), u64(3), u64(2), u32(tensorType), u64(0)
+  ]);
+  const padding = Buffer.alloc((32 - (header.length % 32)) % 32);
+  const data = Buffer.alloc(24);
+  [1, 2, 3, 4, 5, 6].forEach((value, i) => data.writeFloatLE(value, i * 4));
+
+  return Buffer.concat([header, padding, data]);
+};
+
+describe('GGUF format', () => {
+  test('should read a GGUF file laid out by ggml tooling', () => {
+    const file = decodeGGUF(handBuiltGGUF());
+
+    expect(file.version).toBe(3);
+    expect(file.metadata['general.name']).toBe('hand built');
+    expect(file.metadata['demo.scale']).toBe(0.5);
+    expect(file.tensors.w.shape).toEqual([2, 3]);
+    expect(Array.from(file.tensors.w.data)).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  test('should round-trip f32, f16 and i32 tensors with aligned data', () => {
+    const random = new SeededRandom(17);
+    const tensors = {
+      'weights.f32': randomTensor([3, 5], 1, random),
+      'weights.f16': makeTensor([2, 2, 3], Array.from({ length: 12 }, (_, i) => i / 3), 'f16'),
+      'counts.i32': makeTensor([7], [1, -2, 3, -4, 5, 2147483647, -2147483648], 'i32')
+    };
+
+    const encoded = encodeGGUF(tensors, {}, 64);
+    const file = decodeGGUF(encoded);
+
+    expect(encoded.toString('ascii', 0, 4)).toBe('GGUF');
+    expect(encoded.readUInt32LE(4)).toBe(3);
+    expect(file.alignment).toBe(64);
+    expect(file.metadata['general.alignment']).toBe(64);
+    expect(Object.keys(file.tensors)).toEqual(Object.keys(tensors));
+    for (const [name, tensor] of Object.entries(tensors)) {
+      expect(file.tensors[name].shape).toEqual(tensor.shape);
+      expect(file.tensors[name].type).toBe(tensor.type);
+      expect(Array.from(file.tensors[name].data)).toEqual(Array.from(tensor.data));
+    }
+  });
+
+  test('should round-trip typed metadata', () => {
+    const metadata = {
+      'general.architecture': 'mad9ml',
+      'demo.enabled': true,
+      'demo.count': 42,
+      'demo.offset': -7,
+      'demo.ratio': 0.1,
+      'demo.big': BigInt('18446744073709551615'),
+      'demo.labels': ['alpha', 'beta'],
+      'demo.values': [1, -2, 3.5],
+      'demo.half': { type: GGUFValueType.FLOAT32, value: 0.25 },
+      'demo.bytes': { type: GGUFValueType.ARRAY, elementType: GGUFValueType.UINT8, value: [1, 255] }
+    };
+
+    const file = decodeGGUF(encodeGGUF({}, metadata));
+
+    expect(file.metadata).toEqual({
+      'general.architecture': 'mad9ml',
+      'demo.enabled': true,
+      'demo.count': 42,
+      'demo.offset': -7,
+      'demo.ratio': 0.1,
+      'demo.big': BigInt('18446744073709551615'),
+      'demo.labels': ['alpha', 'beta'],
+      'demo.values': [1, -2, 3.5],
+      'demo.half': 0.25,
+      'demo.bytes': [1, 255]
+    });
+  });
+
+  test('should reject foreign, unsupported and truncated files', () => {
+    const file = handBuiltGGUF();
+    const version1 = Buffer.from(file);
+    version1.writeUInt32LE(1, 4);
+
+    expect(() => decodeGGUF(Buffer.from('not a gguf file'))).toThrow('Not a GGUF file');
+    expect(() => decodeGGUF(version1)).toThrow('Unsupported GGUF version 1');
+    expect(() => decodeGGUF(handBuiltGGUF(2))).toThrow('Unsupported ggml tensor type 2 for tensor w');
+    expect(() => decodeGGUF(file.subarray(0, file.length - 4))).toThrow('Truncated GGUF tensor data');
+    expect(() => decodeGGUF(file.subarray(0, 30))).toThrow('Truncated GGUF file');
+    expect(() => encodeGGUF({ ['x'.repeat(64)]: makeTensor([1]) })).toThrow("exceeds ggml's 63-byte limit");
+    expect(() => encodeGGUF({ deep: makeTensor([1, 1, 1, 1, 1]) })).toThrow('ggml supports at most 4');
+  });
+});
+
+describe('GGUF persistence', () => {
+  const createSystem = async (seed: number): Promise<Mad9mlSystem> => {
+    const config = createDefaultConfig();
+    config.memoryCapacity = 100;
+    config.seed = seed;
+
+    const system = new Mad9mlSystem(config);
+    await system.initialize();
+    return system;
+  };
+
+  test('should export and import cognitive state tensors', async () => {
+    const source = await createSystem(1);
+    await source.cognitiveCycle();
+    const target = await createSystem(2);
+
+    const gguf = source.exportGGUF();
+    target.importGGUF(gguf);
+
+    const expected = source.createSnapshot().cognitiveState;
+    const actual = target.createSnapshot().cognitiveState;
+    expect(Array.from(actual.persona.traits.data)).toEqual(Array.from(expected.persona.traits.data));
+    expect(Array.from(actual.memory.working.data)).toEqual(Array.from(expected.memory.working.data));
+    expect(decodeGGUF(gguf).metadata['mad9ml.cycle_count']).toBe(1);
+
+    const groups = decodeCognitiveState(gguf);
+    expect(groups.task.attention.shape).toEqual(expected.task.attention.shape);
+  });
+
+  test('should reject incomplete or mismatched cognitive state files', async () => {
+    const system = await createSystem(3);
+    const state = decodeCognitiveState(system.exportGGUF());
+
+    const partial = encodeGGUF({ 'memory.episodic': state.memory.episodic });
+    expect(() => decodeCognitiveState(partial)).toThrow('missing cognitive tensor memory.semantic');
+
+    const resized = encodeCognitiveState({
+      ...state,
+      memory: { ...state.memory, working: makeTensor([2, 2]) }
+    });
+    expect(() => system.importGGUF(resized)).toThrow('GGUF tensor memory.working has shape [2,2]');
+  });
+
+  test('should persist kernel weights keyed by kernel ID', () => {
+    const kernel = (id: string, weights?: ReturnType<typeof makeTensor>): GgmlKernel => ({
+      id,
+      name: `${id}_name`,
+      tensorShape: weights ? weights.shape : [2],
+      weights
+    } as GgmlKernel);
+
+    const longId = `kernel_${'very_long_primitive_identifier_'.repeat(3)}`;
+    const weights = randomTensor([2, 3, 4], 0.5, new SeededRandom(9));
+    const encoded = encodeKernelWeights([kernel(longId, weights), kernel('unweighted')]);
+
+    const decoded = decodeKernelWeights(encoded);
+    expect(Object.keys(decoded)).toEqual([longId]);
+    expect(decoded[longId].shape).toEqual([2, 3, 4]);
+    expect(Array.from(decoded[longId].data)).toEqual(Array.from(weights.data));
+    expect(decodeGGUF(encoded).metadata['mad9ml.kernel.0.name']).toBe(`${longId}_name`);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Grammar Parser Tests - Executable grammar genomes and parse-based fitness
+ */
+
+import { GrammarParser, GrammarFitnessEvaluator } from '../grammar-evolution/index.js';
+import type { GrammarGenome, GrammarTestCase } from '../grammar-evolution/index.js';
+import type { AgenticPrimitiveType } from '../agentic-grammar/types.js';
+import { randomTensor, SeededRandom } from '../index.js';
+
+const random = new SeededRandom(21);
+
+const createGenome = (
+  nodes: Array<[string, AgenticPrimitiveType]>,
+  edges: Array<[string, string, number]>,
+  patterns: Array<{ id: string; nodes: string[]; recursionDepth: number; applicability: number }> = []
+): GrammarGenome => ({
+  id: 'genome_test',
+  primitives: [],
+  structure: {
+    nodes: nodes.map(([id, type]) => ({
+      id,
+      type,
+      activation: randomTensor([4], 0.5, random),
+      complexity: 0.5,
+      connections: []
+    })),
+    edges: edges.map(([source, target, weight], i) => ({
+      id: `edge_${i}`,
+      source,
+      target,
+      weight,
+      type: 'causal' as const
+    })),
+    patterns: patterns.map(pattern => ({ ...pattern, name: 'sequential' }))
+  },
+  parameters: {
+    complexity: randomTensor([8], 0.3, random),
+    expressiveness: randomTensor([6], 0.4, random),
+    efficiency: randomTensor([4], 0.5, random),
+    adaptability: randomTensor([5], 0.3, random)
+  },
+  fitness: 0,
+  generation: 0,
+  lineage: []
+});
+
+const pipelineGenome = (): GrammarGenome => createGenome(
+  [['sense', 'percept'], ['recall', 'memory'], ['act', 'action']],
+  [['sense', 'recall', 0.8], ['recall', 'act', 0.5]]
+);
+
+describe('GrammarParser', () => {
+  test('should accept sequences licensed by edges', () => {
+    const parser = new GrammarParser(pipelineGenome());
+
+    const result = parser.parse(['percept', 'memory', 'action']);
+    expect(result.accepted).toBe(true);
+    expect(result.path).toEqual(['sense', 'recall', 'act']);
+    expect(result.confidence).toBeCloseTo(Math.sqrt(0.8 * 0.5), 5);
+    expect(result.steps).toBeGreaterThan(0);
+
+    const rejected = parser.parse(['percept', 'action']);
+    expect(rejected.accepted).toBe(false);
+    expect(rejected.consumed).toBe(1);
+    expect(rejected.path).toEqual(['sense']);
+  });
+
+  test('should apply recursive patterns up to their recursion depth', () => {
+    const genome = createGenome(
+      [['decide', 'decision'], ['plan', 'planning'], ['sense', 'percept']],
+      [['sense', 'decide', 0.9]],
+      [{ id: 'deliberate', nodes: ['decide', 'plan'], recursionDepth: 3, applicability: 0.6 }]
+    );
+    const parser = new GrammarParser(genome);
+    const deliberation = (rounds: number): AgenticPrimitiveType[] =>
+      Array.from({ length: rounds }, () => ['decision', 'planning'] as AgenticPrimitiveType[]).flat();
+
+    const result = parser.parse(['percept', ...deliberation(3)]);
+    expect(result.accepted).toBe(true);
+    expect(result.patternsApplied).toEqual(['deliberate']);
+    expect(result.path).toEqual(['sense', 'decide', 'plan', 'decide', 'plan', 'decide', 'plan']);
+
+    const tooDeep = parser.parse(['percept', ...deliberation(4)]);
+    expect(tooDeep.accepted).toBe(false);
+    expect(tooDeep.consumed).toBe(7);
+  });
+
+  test('should ignore inactive edges and structure referring to missing nodes', () => {
+    const genome = createGenome(
+      [['sense', 'percept'], ['act', 'action']],
+      [['sense', 'act', 0], ['sense', 'ghost', 0.9]],
+      [{ id: 'broken', nodes: ['sense', 'ghost'], recursionDepth: 2, applicability: 0.9 }]
+    );
+    const parser = new GrammarParser(genome);
+
+    expect(parser.parse(['percept', 'action']).accepted).toBe(false);
+    expect(new GrammarParser(genome, { edgeThreshold: -1 }).parse(['percept', 'action']).accepted).toBe(true);
+    expect(parser.parse([]).accepted).toBe(false);
+  });
+
+  test('should reject sequences that exceed the step budget', () => {
+    const parser = new GrammarParser(pipelineGenome(), { maxSteps: 2 });
+    expect(parser.parse(['percept', 'memory', 'action']).accepted).toBe(false);
+  });
+});
+
+describe('Parse-based grammar fitness', () => {
+  const corpus: GrammarTestCase[] = [
+    { sequence: ['percept', 'memory', 'action'] },
+    { sequence: ['percept', 'memory'] },
+    { sequence: ['action', 'percept'], valid: false },
+    { sequence: ['memory', 'percept', 'action'], valid: false }
+  ];
+
+  test('should score performance from parse outcomes on a user corpus', async () => {
+    const evaluator = new GrammarFitnessEvaluator(undefined, undefined, new SeededRandom(1));
+    evaluator.setTestCorpus(corpus);
+
+    const fitted = await evaluator.evaluateFitness(pipelineGenome());
+    expect(fitted.performance.accuracy).toBe(1);
+    expect(fitted.performance.completeness).toBe(1);
+    expect(fitted.performance.precision).toBeGreaterThan(0.6);
+
+    const unconnected = createGenome([['sense', 'percept'], ['recall', 'memory'], ['act', 'action']], []);
+    const sparse = await evaluator.evaluateFitness(unconnected);
+    expect(sparse.performance.accuracy).toBe(0.5);
+    expect(sparse.performance.completeness).toBeCloseTo((1 / 3 + 1 / 2) / 2, 5);
+    expect(sparse.performance.precision).toBe(0);
+  });
+
+  test('should produce identical performance metrics for repeated evaluations', async () => {
+    const evaluator = new GrammarFitnessEvaluator(undefined, undefined, new SeededRandom(2));
+    evaluator.setTestCorpus(corpus);
+
+    const first = await evaluator.evaluateFitness(pipelineGenome());
+    const second = await evaluator.evaluateFitness(pipelineGenome());
+    expect(second.performance).toEqual(first.performance);
+  });
+});
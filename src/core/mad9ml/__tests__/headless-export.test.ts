@@ -0,0 +1,217 @@
+/**
+ * Headless Export Tests - Vector rendering and graph formats without a browser
+ */
+
+import { ExportManager } from '../visualization/export-manager.js';
+import { HeadlessRenderer } from '../visualization/headless-renderer.js';
+import { sceneToDOT, sceneToGEXF, sceneToGraphML } from '../visualization/graph-formats.js';
+import type {
+  ExportOptions,
+  MembraneVisualization,
+  VisualizationEdge,
+  VisualizationNode,
+  VisualizationScene
+} from '../visualization/types.js';
+
+const node = (id: string, x: number, y: number, type: VisualizationNode['type'] = 'memory'): VisualizationNode => ({
+  id,
+  type,
+  position: { x, y, z: 0 },
+  size: 12,
+  color: '',
+  label: id,
+  metadata: {},
+  state: { shape: [1], data: [0.5], visualization: 'vector', summary: { mean: 0.5, std: 0, min: 0.5, max: 0.5 } },
+  activation: 0.5,
+  lastUpdated: '2025-01-01T00:00:00.000Z'
+});
+
+const edge = (id: string, source: string, target: string, type: VisualizationEdge['type'], flow: number = 0): VisualizationEdge => ({
+  id,
+  source,
+  target,
+  type,
+  weight: 0.5,
+  color: 'rgba(100, 181, 246, 0.5)',
+  label: `${source}->${target}`,
+  metadata: {},
+  flow,
+  strength: 0.7,
+  lastActive: '2025-01-01T00:00:00.000Z'
+});
+
+const membrane = (id: string, x: number, contents: VisualizationNode[], nested: MembraneVisualization[] = []): MembraneVisualization => ({
+  id,
+  type: 'cognitive',
+  boundary: {
+    thickness: 2,
+    permeability: 0.2,
+    activeRegions: [{ position: { x: 0.5, y: 0, z: 0 }, size: 1, activity: 1, type: 'input' }],
+    pattern: 'dashed',
+    color: '#546E7A'
+  },
+  ports: [],
+  contents,
+  nestedMembranes: nested,
+  position: { x, y: 0, z: 0 },
+  size: { x: 200, y: 150, z: 0 },
+  opacity: 0.8,
+  color: '#37474F',
+  activity: 0.42,
+  messageCount: 7,
+  lastActivity: '2025-01-01T00:00:00.000Z'
+});
+
+const scene = (): VisualizationScene => ({
+  title: 'Kernels & "membranes"',
+  nodes: [node('recall', 50, 300), node('plan', 250, 320, 'agent'), node('goal', 150, 420, 'concept')],
+  edges: [
+    edge('e1', 'recall', 'plan', 'causal', 0.3),
+    edge('e2', 'plan', 'goal', 'hierarchical'),
+    edge('e3', 'plan', 'inner', 'semantic'),
+    edge('e4', 'recall', 'missing', 'semantic')
+  ],
+  membranes: [
+    membrane('outer', 0, [node('percept', 40, 60, 'kernel')], [membrane('nested', 60, [node('inner', 120, 80)])])
+  ]
+});
+
+const options = (format: ExportOptions['format']): ExportOptions => ({
+  format,
+  quality: 1,
+  includeData: true,
+  includeMetadata: true,
+  compression: false
+});
+
+describe('HeadlessRenderer', () => {
+  const renderer = new HeadlessRenderer({ theme: 'light' });
+
+  test('should render vector SVG shapes instead of an embedded bitmap', () => {
+    const svg = renderer.renderSVG(scene());
+
+    expect(svg.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+    expect(svg).not.toContain('<image');
+    expect(svg).toContain('<title>Kernels &amp; &quot;membranes&quot;</title>');
+    expect(svg.match(/<g class="node" data-id="/g)).toHaveLength(3);
+    expect(svg.match(/<g class="membrane" data-id="/g)).toHaveLength(2);
+    // The edge to an unknown node is skipped
+    expect(svg.match(/<g class="edge" data-id="/g)).toHaveLength(2);
+    expect(svg).toMatch(/<circle cx="50" cy="300" r="12" fill="#4CAF50" stroke="#cccccc" stroke-width="1"\/>/);
+    expect(svg).toMatch(/<path d="M 250 320 Q [-\d. ]+ 150 420"/);
+    expect(svg).toContain('stroke-dasharray="10 10"');
+    expect(svg).toContain('>Activity: 42%</text>');
+    expect(svg).toContain('>recall-&gt;plan</text>');
+  });
+
+  test('should write a PDF with a valid cross-reference table', () => {
+    const pdf = renderer.renderPDF(scene());
+
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf.endsWith('%%EOF\n')).toBe(true);
+    expect(/^[\x0a\x20-\x7e]*$/.test(pdf)).toBe(true);
+
+    const startxref = Number(pdf.match(/startxref\n(\d+)\n/)![1]);
+    expect(pdf.slice(startxref, startxref + 5)).toBe('xref\n');
+
+    const [, first, count] = pdf.slice(startxref).match(/^xref\n(\d+) (\d+)\n/)!.map(Number);
+    expect(first).toBe(0);
+    const entries = pdf.slice(startxref).split('\n').slice(3, 2 + count);
+    entries.forEach((entry, index) => {
+      const offset = Number(entry.slice(0, 10));
+      expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj\n`)).toBe(true);
+    });
+    expect(pdf).toContain(`/Size ${count}`);
+
+    const length = Number(pdf.match(/<< \/Length (\d+) >>\nstream\n/)![1]);
+    const streamStart = pdf.indexOf('stream\n') + 'stream\n'.length;
+    expect(pdf.slice(streamStart + length, streamStart + length + 10)).toBe('\nendstream');
+
+    expect(pdf).toContain('/BaseFont /Helvetica');
+    expect(pdf).toContain('(recall->plan) Tj');
+    expect(pdf).toContain('/Title (Kernels & "membranes")');
+    // Semi-transparent colors use graphics states
+    expect(pdf).toMatch(/<< \/Type \/ExtGState \/ca [\d.]+ \/CA [\d.]+ >>/);
+    expect(pdf).toMatch(/ c\n/);
+  });
+
+  test('should size the page to the scene', () => {
+    const empty = renderer.renderSVG({ nodes: [], edges: [], membranes: [] });
+    expect(empty).toContain('width="80" height="80"');
+
+    const svg = renderer.renderSVG({ nodes: [node('far', 1000, -500)], edges: [], membranes: [] });
+    const [, width, height] = svg.match(/width="(\d+)" height="(\d+)"/)!.map(Number);
+    expect(width).toBeGreaterThanOrEqual(24 + 80);
+    expect(height).toBeGreaterThanOrEqual(24 + 20 + 80);
+    expect(svg).toContain('<g transform="translate(');
+  });
+});
+
+describe('Graph formats', () => {
+  test('should nest membrane contents in GraphML', () => {
+    const graphml = sceneToGraphML(scene());
+
+    expect(graphml).toContain('<key id="n_activation" for="node" attr.name="activation" attr.type="double"/>');
+    const outer = graphml.indexOf('<node id="outer">');
+    const nested = graphml.indexOf('<node id="nested">');
+    const inner = graphml.indexOf('<node id="inner">');
+    expect(outer).toBeGreaterThan(-1);
+    expect(nested).toBeGreaterThan(outer);
+    expect(inner).toBeGreaterThan(nested);
+    expect(graphml).toContain('<graph id="nested:" edgedefault="directed">');
+    expect(graphml).toContain('<edge id="e3" source="plan" target="inner">');
+    expect(graphml).not.toContain('e4');
+    expect(graphml).toContain('<data key="e_label">recall-&gt;plan</data>');
+  });
+
+  test('should write GEXF with parent ids and viz attributes', () => {
+    const gexf = sceneToGEXF(scene());
+
+    expect(gexf).toContain('<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">');
+    expect(gexf).toContain('<node id="nested" label="cognitive" pid="outer">');
+    expect(gexf).toContain('<node id="inner" label="inner" pid="nested">');
+    expect(gexf).toContain('<node id="recall" label="recall">');
+    expect(gexf).toContain('<viz:color r="100" g="181" b="246" a="0.5"/>');
+    expect(gexf).toContain('<viz:position x="50" y="300" z="0"/>');
+    expect(gexf.match(/<edge /g)).toHaveLength(3);
+  });
+
+  test('should write DOT clusters for membranes', () => {
+    const dot = sceneToDOT(scene());
+
+    expect(dot.startsWith('digraph "Kernels & \\"membranes\\"" {')).toBe(true);
+    expect(dot).toMatch(/subgraph "cluster_outer" \{\n\s+label="cognitive";\n\s+color="#546e7a";\n\s+"percept"[^\n]+\n\s+subgraph "cluster_nested" \{/);
+    expect(dot).toContain('"recall" [label="recall", pos="50,-300!", width=0.333];');
+    expect(dot).toContain('"recall" -> "plan" [penwidth=1.5, color="#64b5f680", label="recall->plan", style=dashed];');
+    expect(dot).not.toContain('"missing"');
+  });
+});
+
+describe('ExportManager scene export', () => {
+  const manager = new ExportManager();
+
+  test.each([
+    ['svg', 'image/svg+xml', '<svg'],
+    ['pdf', 'application/pdf', '%PDF-1.4'],
+    ['json', 'application/json', '"membranes"'],
+    ['graphml', 'application/graphml+xml', '<graphml'],
+    ['gexf', 'application/gexf+xml', '<gexf'],
+    ['dot', 'text/vnd.graphviz', 'digraph']
+  ] as const)('should export %s', async (format, mimeType, marker) => {
+    const result = await manager.exportScene(scene(), options(format));
+
+    expect(result.success).toBe(true);
+    expect(result.mimeType).toBe(mimeType);
+    expect(result.filename.endsWith(`.${format}`)).toBe(true);
+    expect(result.data).toContain(marker);
+    expect(result.size).toBe(Buffer.byteLength(result.data as string));
+    expect(result.metadata).toMatchObject({ nodes: 3, edges: 4, membranes: 1 });
+  });
+
+  test('should report unsupported scene formats', async () => {
+    const result = await manager.exportScene(scene(), options('png'));
+
+    expect(result.success).toBe(false);
+    expect(result.metadata.error).toBe('Unsupported scene export format: png');
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * History Log Tests - On-disk recording and replay of time-travel sessions
+ */
+
+import { appendFileSync, mkdtempSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { HistoryLog, diffSnapshots } from '../visualization/history-log.js';
+import { TimeTravelEngine } from '../visualization/time-travel-engine.js';
+import type { SystemStateSnapshot, TimelineEvent, VisualizationNode } from '../visualization/types.js';
+
+const START = Date.parse('2025-01-01T00:00:00.000Z');
+
+const at = (second: number): string => new Date(START + second * 1000).toISOString();
+
+const snapshot = (second: number): SystemStateSnapshot => ({
+  timestamp: at(second),
+  id: `snapshot_${second}`,
+  memoryUsage: {
+    totalItems: 100 + second * 3,
+    subsystemBreakdown: { declarative: 10, episodic: second, procedural: 5, semantic: 20 },
+    accessPatterns: second % 4 === 0
+      ? [{ subsystem: 'episodic', frequency: second, recentAccess: at(second), pattern: 'sequential' }]
+      : [],
+    efficiency: 0.9,
+    remainingCapacity: '1GB'
+  },
+  taskExecution: {
+    scheduledTasks: 4,
+    completedTasks: second * 2,
+    failedTasks: 0,
+    averageExecutionTime: 12,
+    throughput: 1.5,
+    priorityDistribution: { 1: second }
+  },
+  aiActivity: { availableModels: ['local'], tokenUsage: second * 50, averageResponseTime: 200, successRate: 1, activeContexts: 1 },
+  autonomyStatus: {
+    selfImprovementActive: second % 2 === 0,
+    improvementsImplemented: 0,
+    lastImprovement: at(0),
+    detectedPatterns: 0,
+    optimizationCycles: second
+  },
+  metaCognitive: { reflectionDepth: 2, awarenessLevel: 0.5, selfMonitoringActive: true, cognitiveLoad: 0.3, adaptationRate: 0.1 },
+  health: {
+    overall: 'healthy',
+    components: {
+      memory: { status: 'healthy', details: 'ok', metrics: second > 5 ? { pressure: second } : {} },
+      tasks: { status: 'healthy', details: 'ok', metrics: {} },
+      ai: { status: 'healthy', details: 'ok', metrics: {} },
+      autonomy: { status: 'healthy', details: 'ok', metrics: {} }
+    }
+  }
+});
+
+const node = (id: string, activation: number, second: number): VisualizationNode => ({
+  id,
+  type: 'kernel',
+  position: { x: 0, y: 0, z: 0 },
+  size: 1,
+  color: '#fff',
+  label: id,
+  metadata: {},
+  state: { shape: [1], data: [activation], visualization: 'vector', summary: { mean: activation, std: 0, min: activation, max: activation } },
+  activation,
+  lastUpdated: at(second)
+});
+
+const event = (second: number): TimelineEvent => ({
+  timestamp: at(second),
+  type: 'system_event',
+  description: `event at ${second}s`,
+  affected: [],
+  data: {},
+  importance: 0.5
+});
+
+describe('HistoryLog', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'history-log-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should rebuild every snapshot from keyframes and deltas after reopening', () => {
+    const filePath = join(directory, 'session', 'history.log');
+    const log = HistoryLog.create(filePath, { keyframeInterval: 4 });
+    for (let second = 0; second < 10; second++) {
+      log.appendSnapshot(snapshot(second));
+    }
+    log.close();
+
+    const reopened = HistoryLog.open(filePath);
+    expect(reopened.getStatistics()).toMatchObject({ snapshots: 10, keyframes: 3 });
+    expect(Array.from(reopened.snapshotsBetween())).toEqual(Array.from({ length: 10 }, (_, second) => snapshot(second)));
+    expect(reopened.getSnapshotNear(at(6.4))).toEqual(snapshot(6));
+    expect(reopened.getSnapshotNear(at(6.5))).toEqual(snapshot(6));
+    expect(reopened.getSnapshotNear(at(99))).toEqual(snapshot(9));
+    expect(Array.from(reopened.snapshotsBetween(at(2.5), at(5)), s => s.id)).toEqual(['snapshot_3', 'snapshot_4', 'snapshot_5']);
+
+    // Recording continues the delta chain of the reopened file
+    reopened.appendSnapshot(snapshot(10));
+    expect(reopened.getSnapshotNear(at(10))).toEqual(snapshot(10));
+    reopened.close();
+  });
+
+  test('should store deltas more compactly than full snapshots', () => {
+    const compact = HistoryLog.create(join(directory, 'compact.log'));
+    const full = HistoryLog.create(join(directory, 'full.log'), { keyframeInterval: 1 });
+    for (let second = 0; second < 30; second++) {
+      compact.appendSnapshot(snapshot(second));
+      full.appendSnapshot(snapshot(second));
+    }
+
+    expect(compact.getStatistics().bytes).toBeLessThan(full.getStatistics().bytes / 2);
+    compact.close();
+    full.close();
+  });
+
+  test('should keep a bounded number of snapshots in memory', () => {
+    const log = HistoryLog.create(join(directory, 'history.log'), { keyframeInterval: 8, cacheSize: 2 });
+    for (let second = 0; second < 40; second++) {
+      log.appendSnapshot(snapshot(second));
+    }
+
+    let count = 0;
+    for (const _ of log.snapshotsBetween()) {
+      count++;
+      expect(log.getStatistics().cachedSnapshots).toBeLessThanOrEqual(2);
+    }
+    expect(count).toBe(40);
+    log.close();
+  });
+
+  test('should read events in time order from disk', () => {
+    const filePath = join(directory, 'history.log');
+    const log = HistoryLog.create(filePath);
+    [3, 1, 4, 1.5, 9, 2].forEach(second => log.appendEvent(event(second)));
+    log.appendSnapshot(snapshot(0));
+    log.close();
+
+    const reopened = HistoryLog.open(filePath);
+    const descriptions = (events: Iterable<TimelineEvent>) => Array.from(events, e => e.description);
+    expect(reopened.getEventCount()).toBe(6);
+    expect(descriptions(reopened.eventsBetween())).toEqual([1, 1.5, 2, 3, 4, 9].map(second => `event at ${second}s`));
+    expect(descriptions(reopened.eventsBetween(at(1.5), at(4)))).toEqual(['event at 1.5s', 'event at 2s', 'event at 3s', 'event at 4s']);
+    expect(descriptions(reopened.eventsBetween(undefined, at(2), true))).toEqual(['event at 2s', 'event at 1.5s', 'event at 1s']);
+    expect(reopened.getTimeRange()).toEqual({ start: START, end: Date.parse(at(9)) });
+    reopened.close();
+  });
+
+  test('should drop a record cut off mid-write and reject foreign files', () => {
+    const filePath = join(directory, 'history.log');
+    const log = HistoryLog.create(filePath);
+    log.appendSnapshot(snapshot(0));
+    log.close();
+    const intact = statSync(filePath).size;
+    appendFileSync(filePath, 'delta\t2025-01-01T00:00:01.000Z\t{"memoryUs');
+
+    const reopened = HistoryLog.open(filePath);
+    expect(statSync(filePath).size).toBe(intact);
+    reopened.appendSnapshot(snapshot(1));
+    expect(reopened.getSnapshotNear(at(1))).toEqual(snapshot(1));
+    reopened.close();
+
+    const foreign = join(directory, 'foreign.log');
+    writeFileSync(foreign, '{"format":"moses-checkpoint"}\n');
+    expect(() => HistoryLog.open(foreign)).toThrow('Not a history log');
+  });
+
+  test('should diff snapshots by path', () => {
+    const changes = diffSnapshots(snapshot(4), snapshot(6));
+
+    expect(changes).toContainEqual({ path: 'memoryUsage.totalItems', before: 112, after: 118 });
+    expect(changes).toContainEqual({ path: 'health.components.memory.metrics.pressure', before: undefined, after: 6 });
+    expect(changes.find(change => change.path === 'memoryUsage.accessPatterns')!.after).toEqual([]);
+    expect(changes.some(change => change.path === 'timestamp' || change.path.startsWith('metaCognitive'))).toBe(false);
+  });
+});
+
+describe('TimeTravelEngine with a history log', () => {
+  let directory: string;
+  let engine: TimeTravelEngine;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'time-travel-'));
+    engine = new TimeTravelEngine();
+  });
+
+  afterEach(() => {
+    engine.destroy();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should record a session that can be replayed later', () => {
+    const filePath = join(directory, 'history.log');
+    engine.addSnapshot(snapshot(0));
+    engine.attachLog(HistoryLog.create(filePath, { keyframeInterval: 5 }));
+    for (let second = 1; second < 12; second++) {
+      engine.addSnapshot(snapshot(second));
+      engine.addNodeHistory(at(second), [node('kernel_a', second / 10, second)]);
+    }
+    engine.addEdgeHistory(at(3), []);
+    engine.destroy();
+
+    engine = new TimeTravelEngine();
+    engine.attachLog(HistoryLog.open(filePath));
+
+    const state = engine.getState();
+    expect(state.availableSnapshots).toEqual(Array.from({ length: 12 }, (_, second) => at(second)));
+    expect(state.timeRange).toEqual({ start: at(0), end: at(11) });
+    expect(engine.getEventsInRange(at(0), at(11))).toHaveLength(12);
+
+    expect(engine.getSnapshotAtTime(at(7.2))).toEqual(snapshot(7));
+    expect(engine.getNodesAtTime(at(4))[0].activation).toBe(0.4);
+    expect(engine.getSnapshotsInRange(at(9), at(20)).map(s => s.id)).toEqual(['snapshot_9', 'snapshot_10', 'snapshot_11']);
+
+    engine.seekTo(at(5));
+    engine.stepForward();
+    expect(engine.getState().currentTime).toBe(at(6));
+
+    const diff = engine.compareSnapshots(at(2), at(10))!;
+    expect(diff.from).toBe(at(2));
+    expect(diff.to).toBe(at(10));
+    expect(diff.changes).toContainEqual({ path: 'aiActivity.tokenUsage', before: 100, after: 500 });
+
+    expect(engine.exportTemporalData().nodeHistory[at(4)].kernel_a.activation).toBe(0.4);
+    expect(engine.analyzeTemporalPatterns().trends.memory.trend).toBe('increasing');
+  });
+
+  test('should keep events and timestamps in time order as they are added', () => {
+    const record = (target: TimeTravelEngine) => {
+      [2, 0, 5].forEach(second => target.addSnapshot(snapshot(second)));
+      target.addEvent(event(7));
+      target.addEvent(event(1));
+    };
+    const check = (target: TimeTravelEngine) => {
+      expect(target.getState().availableSnapshots).toEqual([at(0), at(2), at(5)]);
+      expect(target.getState().timeRange).toEqual({ start: at(0), end: at(7) });
+      expect(target.getEventsInRange(at(0), at(7)).map(e => e.timestamp)).toEqual([0, 1, 2, 5, 7].map(at));
+
+      target.seekTo(at(5));
+      target.stepBackward();
+      expect(target.getState().currentTime).toBe(at(2));
+    };
+
+    record(engine);
+    check(engine);
+
+    const logged = new TimeTravelEngine();
+    logged.attachLog(HistoryLog.create(join(directory, 'history.log')));
+    record(logged);
+    check(logged);
+    expect(logged.getLog()!.getStatistics().events).toBe(5);
+    logged.destroy();
+  });
+
+  test('should refuse imports while recording', () => {
+    engine.attachLog(HistoryLog.create(join(directory, 'history.log')));
+    expect(() => engine.importTemporalData({ events: [] })).toThrow('while recording to a history log');
+  });
+});
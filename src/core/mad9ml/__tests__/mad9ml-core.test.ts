@@ -2,7 +2,17 @@
  * Mad9ml Core Tests - Validation of ggml-based cognitive encoding
  */
 
-import { Mad9mlSystem, createDefaultConfig, makeTensor, randomTensor } from '../index.js';
+import {
+  Mad9mlSystem,
+  createDefaultConfig,
+  makeTensor,
+  randomTensor,
+  encodeSnapshot,
+  decodeSnapshot,
+  SNAPSHOT_FORMAT_VERSION,
+  ModificationJournal
+} from '../index.js';
+import type { SelfModification } from '../index.js';
 
 describe('Mad9ml Core System', () => {
   let mad9ml: Mad9mlSystem;
@@ -79,6 +89,197 @@ describe('Mad9ml Core System', () => {
   });
 });
 
+describe('System Snapshots', () => {
+  let mad9ml: Mad9mlSystem;
+
+  beforeEach(async () => {
+    const config = createDefaultConfig();
+    config.memoryCapacity = 100;
+
+    mad9ml = new Mad9mlSystem(config);
+    await mad9ml.initialize();
+    mad9ml.addMemory('episodic', 'Checkpointed memory');
+    for (let i = 0; i < 3; i++) {
+      await mad9ml.cognitiveCycle();
+    }
+  });
+
+  test('should round-trip the complete state through binary snapshots', () => {
+    const original = mad9ml.createSnapshot();
+    const restored = Mad9mlSystem.fromSnapshot(mad9ml.saveSnapshot()).createSnapshot();
+
+    expect(restored.version).toBe(SNAPSHOT_FORMAT_VERSION);
+    expect(restored.cycleCount).toBe(3);
+    expect(restored.config).toEqual(original.config);
+    expect(Array.from(restored.cognitiveState.memory.episodic.data))
+      .toEqual(Array.from(original.cognitiveState.memory.episodic.data));
+    expect(Array.from(restored.cognitiveState.persona.traits.data))
+      .toEqual(Array.from(original.cognitiveState.persona.traits.data));
+    expect(restored.cognitiveState.task.attention.shape).toEqual([32]);
+    expect(restored.hypergraph.nodes).toHaveLength(original.hypergraph.nodes.length);
+    expect(restored.personaEvolution).toEqual(original.personaEvolution);
+    expect(restored.metaCognitive.performanceHistory).toEqual(original.metaCognitive.performanceHistory);
+    expect(restored.attentionState!.resourceBudget).toBe(original.attentionState!.resourceBudget);
+  });
+
+  test('should store tensors as binary data rather than JSON arrays', () => {
+    const snapshot = mad9ml.createSnapshot();
+    const encoded = encodeSnapshot(snapshot);
+    const memoryFloats = Object.values(snapshot.cognitiveState.memory)
+      .reduce((sum, tensor) => sum + tensor.data.length, 0);
+
+    expect(encoded.toString('ascii', 0, 4)).toBe('MAD9');
+    expect(encoded.length).toBeGreaterThan(memoryFloats * 4);
+    expect(encoded.toString('utf8')).not.toContain('"episodic":{"shape":[100,10,5],"data":[');
+    expect(decodeSnapshot(encoded).cognitiveState.memory.semantic.data.constructor.name).toBe('Float32Array');
+  });
+
+  test('should resume cognitive cycles after restoring', async () => {
+    const resumed = new Mad9mlSystem(createDefaultConfig());
+    resumed.importState(mad9ml.saveSnapshot());
+
+    await resumed.cognitiveCycle();
+
+    const stats = resumed.getSystemStatistics();
+    expect(stats.cycleCount).toBe(4);
+    expect(stats.subsystemStats.metaCognitive.performanceHistorySize)
+      .toBe(mad9ml.getSystemStatistics().subsystemStats.metaCognitive.performanceHistorySize + 1);
+  });
+
+  test('should reject foreign data and newer format versions', () => {
+    const encoded = mad9ml.saveSnapshot();
+    const newer = Buffer.from(encoded);
+    newer.writeUInt32LE(SNAPSHOT_FORMAT_VERSION + 1, 4);
+
+    expect(() => decodeSnapshot(Buffer.from('not a snapshot'))).toThrow('Not a mad9ml snapshot');
+    expect(() => decodeSnapshot(newer)).toThrow('Unsupported snapshot version');
+    expect(() => mad9ml.importState({ ...mad9ml.createSnapshot(), version: SNAPSHOT_FORMAT_VERSION + 1 }))
+      .toThrow('Unsupported snapshot version');
+  });
+});
+
+describe('Self-Modification', () => {
+  let mad9ml: Mad9mlSystem;
+
+  const modification = (
+    type: SelfModification['type'],
+    target: string,
+    change: any
+  ): SelfModification => ({
+    type,
+    target,
+    modification: change,
+    justification: 'test',
+    priority: 0.5,
+    riskLevel: 0.5
+  });
+
+  beforeEach(async () => {
+    const config = createDefaultConfig();
+    config.memoryCapacity = 100;
+
+    mad9ml = new Mad9mlSystem(config);
+    await mad9ml.initialize();
+  });
+
+  test('should tune parameters and roll them back', async () => {
+    const before = mad9ml.getSystemStatistics().subsystemStats.evolution.currentMutationRate;
+
+    const entry = await mad9ml.applyModification(
+      modification('parameter_adjustment', 'persona.mutationRate', { increase: 0.5 }),
+      0.7
+    );
+
+    expect(entry?.status).toBe('pending');
+    expect(mad9ml.getSystemStatistics().subsystemStats.evolution.currentMutationRate).toBeCloseTo(before * 1.5);
+
+    expect(mad9ml.rollbackModifications()).toHaveLength(1);
+    expect(mad9ml.getSystemStatistics().subsystemStats.evolution.currentMutationRate).toBe(before);
+    expect(mad9ml.getModificationJournal('rolled_back')).toHaveLength(1);
+  });
+
+  test('should prune and consolidate memories reversibly', async () => {
+    mad9ml.addMemory('episodic', 'first');
+    mad9ml.addMemory('semantic', 'second');
+    mad9ml.addMemory('procedural', 'third');
+    const before = mad9ml.getSystemStatistics().subsystemStats.hypergraph;
+
+    await mad9ml.applyModification(
+      modification('structure_change', 'memory.consolidation', { enhanceConsolidation: true }),
+      0.7
+    );
+    expect(mad9ml.getSystemStatistics().subsystemStats.hypergraph.clusterCount).toBe(before.clusterCount + 1);
+
+    await mad9ml.applyModification(
+      modification('structure_change', 'memory.consolidation', { pruneBelow: Infinity }),
+      0.7
+    );
+    const pruned = mad9ml.getSystemStatistics().subsystemStats.hypergraph;
+    expect(pruned.nodeCount).toBe(before.nodeCount - 3);
+    expect(pruned.clusterCount).toBe(before.clusterCount);
+
+    mad9ml.rollbackModifications();
+    const restored = mad9ml.getSystemStatistics().subsystemStats.hypergraph;
+    expect(restored.nodeCount).toBe(before.nodeCount);
+    expect(restored.edgeCount).toBe(before.edgeCount);
+    expect(restored.clusterCount).toBe(before.clusterCount);
+  });
+
+  test('should switch attention strategies', async () => {
+    await mad9ml.applyModification(
+      modification('strategy_change', 'attention.strategy', { strategy: 'long_term' }),
+      0.7
+    );
+    expect(mad9ml.createSnapshot().attentionState.strategy).toBe('long_term');
+
+    expect(await mad9ml.applyModification(
+      modification('strategy_change', 'attention.strategy', { strategy: 'chaotic' }),
+      0.7
+    )).toBeNull();
+
+    mad9ml.rollbackModifications();
+    expect(mad9ml.createSnapshot().attentionState.strategy).toBe('balanced');
+  });
+
+  test('should re-weight task goals in the task tensor', async () => {
+    mad9ml.addTask('Important scheme', 0.9);
+    mad9ml.addTask('Minor scheme', 0.5);
+    const loadBefore = mad9ml.getSystemStatistics().cognitiveState.taskLoad;
+    expect(loadBefore).toBeGreaterThan(0);
+
+    await mad9ml.applyModification(
+      modification('goal_modification', 'task.goals', { weights: [1, 0] }),
+      0.7
+    );
+    expect(mad9ml.getSystemStatistics().cognitiveState.taskLoad).toBeCloseTo(loadBefore / 2);
+
+    mad9ml.rollbackModifications();
+    expect(mad9ml.getSystemStatistics().cognitiveState.taskLoad).toBe(loadBefore);
+  });
+
+  test('should roll back modifications when the next reflection scores worse', () => {
+    const undone: string[] = [];
+    const journal = new ModificationJournal(entry => undone.push(entry.description));
+
+    journal.record(1, modification('parameter_adjustment', 'persona.mutationRate', {}), 'a', 0.8,
+      { type: 'parameter_adjustment', group: 'persona', key: 'mutationRate', previous: 0.1 });
+    journal.record(1, modification('strategy_change', 'attention.strategy', {}), 'b', 0.8,
+      { type: 'strategy_change', previous: 'balanced' });
+    const first = journal.evaluatePending(0.6);
+
+    expect(first.rolledBack.map(entry => entry.description)).toEqual(['b', 'a']);
+    expect(undone).toEqual(['b', 'a']);
+
+    journal.record(2, modification('goal_modification', 'task.goals', {}), 'c', 0.6,
+      { type: 'goal_modification', previous: new Float32Array(2) });
+    const second = journal.evaluatePending(0.65);
+
+    expect(second.committed.map(entry => entry.description)).toEqual(['c']);
+    expect(journal.getPendingCount()).toBe(0);
+    expect(undone).toEqual(['b', 'a']);
+  });
+});
+
 describe('Tensor Operations', () => {
   test('should create tensors with correct shapes', () => {
     const tensor = makeTensor([3, 4, 5]);
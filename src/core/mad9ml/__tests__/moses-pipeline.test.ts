@@ -0,0 +1,224 @@
+/**
+ * MOSES Pipeline Tests - Checkpoints, resume and the island model
+ */
+
+import { mkdtempSync, rmSync, readdirSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MessageChannel } from 'worker_threads';
+import {
+  MOSESPipeline,
+  IslandModel,
+  RemoteIsland,
+  serveIsland,
+  spawnWorkerIsland,
+  readCheckpoint,
+  decodeCheckpoint,
+  encodeCheckpoint
+} from '../grammar-evolution/index.js';
+import type { GrammarEvolutionParams, MOSESConfig, IslandSpawner, EvolutionaryResult } from '../grammar-evolution/index.js';
+import type { AgenticPrimitive, AgenticPrimitiveType } from '../agentic-grammar/types.js';
+import { SeededRandom } from '../index.js';
+
+const types: AgenticPrimitiveType[] = ['action', 'percept', 'memory', 'decision', 'planning'];
+const primitives: AgenticPrimitive[] = types.map((type, index) => ({
+  id: `primitive_${index}`,
+  type,
+  name: `${type}_primitive`,
+  sourceLocation: { filePath: `${type}.ts`, startLine: 1, endLine: 5, startColumn: 0, endColumn: 10 },
+  parameters: [],
+  semanticComplexity: 0.5,
+  functionalDepth: 2,
+  dependencies: [],
+  metadata: {}
+}));
+
+const createParams = (maxGenerations: number = 4): GrammarEvolutionParams => ({
+  population: { size: 6, eliteRatio: 0.2, diversityThreshold: 0.95 },
+  mutation: { structuralRate: 0.3, parametricRate: 0.3, adaptiveScaling: true },
+  crossover: { rate: 0.6, method: 'uniform' },
+  selection: { method: 'pareto', pressure: 0.7, paretoFronts: true },
+  termination: { maxGenerations, fitnessThreshold: 2, stagnationLimit: 100, timeLimit: 60000 },
+  constraints: { maxComplexity: 0.7, maxNodes: 12, maxDepth: 6, minPerformance: 0 }
+});
+
+const createConfig = (overrides: Partial<MOSESConfig> = {}): Partial<MOSESConfig> => ({
+  metaOptimization: false,
+  transparency: { logLevel: 'minimal', trackLineage: true, saveIntermediates: false, reportInterval: 10 },
+  seed: 3,
+  ...overrides
+});
+
+const summarize = (result: EvolutionaryResult) => ({
+  best: [result.bestGenome.id, result.bestGenome.fitness],
+  population: result.artifacts.finalPopulation.map(genome => [genome.id, genome.fitness]),
+  front: (result.paretoFront ?? []).map(genome => genome.id)
+});
+
+describe('MOSES pipeline', () => {
+  test('should not write its defaults into the caller\'s evolution params', () => {
+    const params = createParams();
+    new MOSESPipeline(params, createConfig());
+
+    expect(params).toStrictEqual(createParams());
+  });
+});
+
+describe('MOSES checkpoints', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'moses-checkpoint-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should write periodic checkpoints and keep only the most recent', async () => {
+    const pipeline = new MOSESPipeline(createParams(6), createConfig({
+      checkpoint: { directory, interval: 2, keep: 2 }
+    }));
+    await pipeline.run(primitives);
+
+    expect(readdirSync(directory)).toEqual(['checkpoint-000004.json', 'checkpoint-000006.json']);
+
+    const checkpoint = await readCheckpoint(directory);
+    expect(checkpoint.generation).toBe(6);
+    expect(checkpoint.islands).toHaveLength(1);
+    expect(checkpoint.islands[0].population).toHaveLength(6);
+    expect(checkpoint.islands[0].population[0].parameters.complexity.data).toBeInstanceOf(Float32Array);
+  });
+
+  test('should resume an interrupted run exactly where it stopped', async () => {
+    const uninterrupted = await new MOSESPipeline(createParams(), createConfig()).run(primitives);
+
+    await new MOSESPipeline(createParams(2), createConfig({
+      checkpoint: { directory, interval: 2 }
+    })).run(primitives);
+    const checkpoint = await readCheckpoint(join(directory, 'checkpoint-000002.json'));
+    checkpoint.evolutionParams.termination.maxGenerations = 4;
+    checkpoint.islands[0].params.termination.maxGenerations = 4;
+    writeFileSync(join(directory, 'checkpoint-000002.json'), encodeCheckpoint(checkpoint));
+
+    const resumed = await new MOSESPipeline(createParams(), createConfig()).resume(directory);
+
+    expect(resumed.finalStats.generation).toBe(4);
+    expect(summarize(resumed)).toEqual(summarize(uninterrupted));
+  });
+
+  test('should reject foreign and newer checkpoint documents', async () => {
+    expect(() => decodeCheckpoint('{"hello": "world"}')).toThrow('Not a MOSES checkpoint');
+    expect(() => decodeCheckpoint('not json')).toThrow('Not a MOSES checkpoint');
+    expect(() => decodeCheckpoint('{"format": "moses-checkpoint", "version": 99}'))
+      .toThrow('Unsupported checkpoint version 99');
+    await expect(readCheckpoint(directory)).rejects.toThrow('No MOSES checkpoints found');
+  });
+});
+
+describe('Island model', () => {
+  const islands = { count: 3, migrationInterval: 2, migrationSize: 1 };
+
+  /**
+   * Serves each island over a MessageChannel, as a worker thread would
+   */
+  const channelSpawner: IslandSpawner = init => {
+    const { port1, port2 } = new MessageChannel();
+    serveIsland(port2, init);
+    return new RemoteIsland(port1, () => {
+      port1.close();
+      port2.close();
+    });
+  };
+
+  test('should evolve islands with globally unique genome IDs and a merged front', async () => {
+    const result = await new MOSESPipeline(createParams(), createConfig({ islands })).run(primitives);
+
+    const ids = result.artifacts.finalPopulation.map(genome => genome.id);
+    expect(ids.length).toBeGreaterThan(6);
+    expect(ids.length).toBeLessThanOrEqual(18);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(new Set(ids.map(id => id.split('_')[0]))).toEqual(new Set(['island0', 'island1', 'island2']));
+    expect(result.paretoFront!.length).toBeGreaterThan(0);
+    expect(result.finalStats.generation).toBe(4);
+  });
+
+  test('should give the same result in-process and across message channels', async () => {
+    const run = async (spawn?: IslandSpawner) => {
+      const model = new IslandModel(
+        { ...islands, topology: 'ring', spawn },
+        createParams(),
+        null,
+        new SeededRandom(8)
+      );
+      await model.initialize(primitives);
+      await model.evolve();
+      const state = await model.mergedState();
+      await model.close();
+      return state.population.map(genome => [genome.id, genome.fitness]);
+    };
+
+    expect(await run(channelSpawner)).toEqual(await run());
+  });
+
+  test('should evolve islands in worker threads', async () => {
+    const workerUrl = new URL('./fixtures/island-worker.mjs', import.meta.url);
+    const run = async (spawn?: IslandSpawner) => {
+      const model = new IslandModel(
+        { count: 2, migrationInterval: 1, migrationSize: 1, topology: 'ring', spawn },
+        createParams(2),
+        null,
+        new SeededRandom(5)
+      );
+      await model.initialize(primitives);
+      await model.evolve();
+      const state = await model.mergedState();
+      await model.close();
+      return state.population.map(genome => [genome.id, genome.fitness]);
+    };
+
+    expect(await run(init => spawnWorkerIsland(init, workerUrl))).toEqual(await run());
+  }, 60000);
+
+  test('should migrate copies of the best genomes to neighbouring islands', async () => {
+    const model = new IslandModel(
+      { count: 2, migrationInterval: 1, migrationSize: 2, topology: 'fully_connected' },
+      createParams(1),
+      null,
+      new SeededRandom(4)
+    );
+    await model.initialize(primitives);
+
+    const [before] = await model.exportStates();
+    await model.migrate();
+    const [after, other] = await model.exportStates();
+
+    const immigrants = after.population.filter(genome => genome.id.startsWith('island1_'));
+    expect(immigrants).toHaveLength(2);
+    expect(after.population).toHaveLength(before.population.length);
+    expect(other.population.filter(genome => genome.id.startsWith('island0_'))).toHaveLength(2);
+    await model.close();
+  });
+
+  test('should resume island runs from a checkpoint', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'moses-islands-'));
+    try {
+      const uninterrupted = await new MOSESPipeline(createParams(), createConfig({ islands })).run(primitives);
+
+      await new MOSESPipeline(createParams(2), createConfig({
+        islands,
+        checkpoint: { directory, interval: 2 }
+      })).run(primitives);
+      const checkpoint = await readCheckpoint(directory);
+      expect(checkpoint.islands).toHaveLength(3);
+      checkpoint.evolutionParams.termination.maxGenerations = 4;
+      checkpoint.islands.forEach(state => { state.params.termination.maxGenerations = 4; });
+      writeFileSync(join(directory, 'checkpoint-000002.json'), encodeCheckpoint(checkpoint));
+
+      const resumed = await new MOSESPipeline(createParams(), createConfig()).resume(directory);
+      expect(summarize(resumed)).toEqual(summarize(uninterrupted));
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * NSGA-II Tests - Multi-objective selection for grammar evolution
+ */
+
+import {
+  GrammarEvolutionEngine,
+  ParetoArchive,
+  dominates,
+  fastNonDominatedSort,
+  crowdingDistance,
+  selectByNonDomination
+} from '../grammar-evolution/index.js';
+import type { GrammarEvolutionParams, GrammarGenome, GrammarObjectives } from '../grammar-evolution/index.js';
+import type { AgenticPrimitive, AgenticPrimitiveType } from '../agentic-grammar/types.js';
+
+const genome = (id: string, objectives: Partial<GrammarObjectives>): GrammarGenome => ({
+  id,
+  primitives: [],
+  structure: { nodes: [], edges: [], patterns: [] },
+  parameters: {} as GrammarGenome['parameters'],
+  fitness: 0,
+  objectives: { performance: 0.5, complexity: 0.5, expressiveness: 0.5, novelty: 0.5, ...objectives },
+  generation: 0,
+  lineage: []
+});
+
+describe('Non-dominated sorting', () => {
+  test('should compare objective vectors by Pareto dominance', () => {
+    expect(dominates([1, 2], [1, 1])).toBe(true);
+    expect(dominates([1, 1], [1, 1])).toBe(false);
+    expect(dominates([2, 0], [1, 1])).toBe(false);
+  });
+
+  test('should sort points into successive fronts', () => {
+    const points = [[1, 5], [2, 4], [1, 4], [3, 3], [0, 0], [2, 2]];
+
+    expect(fastNonDominatedSort(points)).toEqual([[0, 1, 3], [2, 5], [4]]);
+    expect(fastNonDominatedSort([])).toEqual([]);
+  });
+
+  test('should give boundary points infinite crowding distance', () => {
+    const distances = crowdingDistance([[0, 4], [1, 3], [3, 1], [4, 0]]);
+
+    expect(distances[0]).toBe(Infinity);
+    expect(distances[3]).toBe(Infinity);
+    expect(distances[1]).toBeCloseTo(3 / 4 + 3 / 4, 10);
+    expect(distances[2]).toBeCloseTo(3 / 4 + 3 / 4, 10);
+    expect(crowdingDistance([[1, 1], [2, 2]])).toEqual([Infinity, Infinity]);
+  });
+
+  test('should select whole fronts and truncate the last by crowding', () => {
+    const genomes = [
+      genome('fast', { performance: 0.9, complexity: 0.8 }),
+      genome('simple', { performance: 0.2, complexity: 0.1 }),
+      genome('balanced', { performance: 0.55, complexity: 0.45 }),
+      genome('near_balanced', { performance: 0.56, complexity: 0.46 }),
+      genome('dominated', { performance: 0.1, complexity: 0.9 })
+    ];
+
+    const selected = selectByNonDomination(genomes, 3);
+
+    expect(selected.map(g => g.id).sort()).toEqual(['balanced', 'fast', 'simple']);
+    expect(genomes.find(g => g.id === 'dominated')!.paretoRank).toBe(1);
+    expect(selected.every(g => g.paretoRank === 0)).toBe(true);
+  });
+});
+
+describe('ParetoArchive', () => {
+  test('should keep only non-dominated genomes seen so far', () => {
+    const archive = new ParetoArchive(10);
+
+    archive.update([genome('a', { performance: 0.5 }), genome('b', { performance: 0.1, novelty: 0.9 })]);
+    archive.update([genome('a_copy', { performance: 0.5 }), genome('c', { performance: 0.6 })]);
+    archive.update([genome('d', { performance: 0.4 })]);
+
+    expect(archive.getFront().map(g => g.id)).toEqual(['b', 'c']);
+  });
+
+  test('should drop the most crowded members when over capacity', () => {
+    const archive = new ParetoArchive(3);
+    const front = [0, 0.1, 0.5, 0.9, 1].map(x => genome(`x${x}`, { performance: x, novelty: 1 - x }));
+
+    archive.update(front);
+
+    expect(archive.size).toBe(3);
+    expect(archive.getFront().map(g => g.id)).toEqual(['x0', 'x0.5', 'x1']);
+    expect(() => new ParetoArchive(0)).toThrow('Pareto archive capacity must be a positive integer');
+  });
+});
+
+describe('Multi-objective grammar evolution', () => {
+  const types: AgenticPrimitiveType[] = ['action', 'percept', 'memory', 'decision', 'planning'];
+  const primitives: AgenticPrimitive[] = types.map((type, index) => ({
+    id: `primitive_${index}`,
+    type,
+    name: `${type}_primitive`,
+    sourceLocation: { filePath: `${type}.ts`, startLine: 1, endLine: 5, startColumn: 0, endColumn: 10 },
+    parameters: [],
+    semanticComplexity: 0.5,
+    functionalDepth: 2,
+    dependencies: [],
+    metadata: {}
+  }));
+  const params = (): GrammarEvolutionParams => ({
+    population: { size: 8, eliteRatio: 0.2, diversityThreshold: 0.95 },
+    mutation: { structuralRate: 0.3, parametricRate: 0.3, adaptiveScaling: true },
+    crossover: { rate: 0.6, method: 'uniform' },
+    selection: { method: 'pareto', pressure: 0.7, paretoFronts: true, archiveSize: 20 },
+    termination: { maxGenerations: 3, fitnessThreshold: 2, stagnationLimit: 10, timeLimit: 60000 },
+    constraints: { maxComplexity: 0.7, maxNodes: 12, maxDepth: 6, minPerformance: 0 },
+    seed: 11
+  });
+
+  test('should evolve a reproducible archive of mutually non-dominated genomes', async () => {
+    const run = async () => {
+      const engine = new GrammarEvolutionEngine(params());
+      await engine.initialize(primitives);
+      await engine.evolve();
+      return engine;
+    };
+
+    const engine = await run();
+    const front = engine.getParetoFront();
+    const vectors = front.map(g => [
+      g.objectives!.performance,
+      -g.objectives!.complexity,
+      g.objectives!.expressiveness,
+      g.objectives!.novelty
+    ]);
+
+    expect(front.length).toBeGreaterThan(0);
+    expect(front.length).toBeLessThanOrEqual(20);
+    expect(vectors.every(a => vectors.every(b => !dominates(a, b)))).toBe(true);
+    expect(engine.getCurrentPopulation()).toHaveLength(8);
+    expect(engine.getCurrentPopulation().every(g => g.paretoRank !== undefined)).toBe(true);
+
+    const again = await run();
+    expect(again.getParetoFront().map(g => g.id)).toEqual(front.map(g => g.id));
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Seeded Random Tests - Reproducibility of mad9ml experiments
+ */
+
+import {
+  Mad9mlSystem,
+  createDefaultConfig,
+  randomTensor,
+  SeededRandom
+} from '../index.js';
+import { GrammarEvolutionEngine } from '../grammar-evolution/index.js';
+import type { GrammarEvolutionParams } from '../grammar-evolution/index.js';
+import type { AgenticPrimitive, AgenticPrimitiveType } from '../agentic-grammar/types.js';
+
+describe('SeededRandom', () => {
+  test('should replay the same sequence for the same seed', () => {
+    const a = new SeededRandom(1234);
+    const b = new SeededRandom(1234);
+    const other = new SeededRandom(4321);
+
+    const sequence = Array.from({ length: 10 }, () => a.next());
+
+    expect(Array.from({ length: 10 }, () => b.next())).toEqual(sequence);
+    expect(Array.from({ length: 10 }, () => other.next())).not.toEqual(sequence);
+    sequence.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  test('should resume from a captured state', () => {
+    const random = new SeededRandom(7);
+    random.next();
+    const state = random.getState();
+    const expected = [random.next(), random.nextGaussian(), random.nextInt(100)];
+
+    const resumed = new SeededRandom();
+    resumed.setState(state);
+
+    expect([resumed.next(), resumed.nextGaussian(), resumed.nextInt(100)]).toEqual(expected);
+    expect(() => resumed.setState([0, 0, 0, 0])).toThrow('Invalid random generator state');
+  });
+
+  test('should produce identical random tensors from the same seed', () => {
+    const first = randomTensor([4, 3], 0.5, new SeededRandom(99));
+    const second = randomTensor([4, 3], 0.5, new SeededRandom(99));
+
+    expect(Array.from(second.data)).toEqual(Array.from(first.data));
+  });
+});
+
+describe('Reproducible experiments', () => {
+  const createSystem = async (seed: number): Promise<Mad9mlSystem> => {
+    const config = createDefaultConfig();
+    config.memoryCapacity = 100;
+    config.seed = seed;
+
+    const system = new Mad9mlSystem(config);
+    await system.initialize();
+    return system;
+  };
+
+  test('should replay cognitive cycles bit-for-bit from a seed', async () => {
+    const runs = await Promise.all([createSystem(2024), createSystem(2024)]);
+    for (const system of runs) {
+      for (let i = 0; i < 3; i++) {
+        await system.cognitiveCycle();
+      }
+    }
+
+    const [first, second] = runs.map(system => system.createSnapshot());
+    expect(Array.from(second.cognitiveState.persona.traits.data))
+      .toEqual(Array.from(first.cognitiveState.persona.traits.data));
+    expect(Array.from(second.cognitiveState.task.attention.data))
+      .toEqual(Array.from(first.cognitiveState.task.attention.data));
+    expect(second.personaEvolution.fitnessHistory).toEqual(first.personaEvolution.fitnessHistory);
+  });
+
+  test('should continue the same sequence after restoring a snapshot', async () => {
+    const continuous = await createSystem(77);
+    const checkpointed = await createSystem(77);
+
+    for (let i = 0; i < 4; i++) {
+      await continuous.cognitiveCycle();
+    }
+    for (let i = 0; i < 2; i++) {
+      await checkpointed.cognitiveCycle();
+    }
+    const resumed = Mad9mlSystem.fromSnapshot(checkpointed.saveSnapshot());
+    for (let i = 0; i < 2; i++) {
+      await resumed.cognitiveCycle();
+    }
+
+    expect(Array.from(resumed.createSnapshot().cognitiveState.persona.traits.data))
+      .toEqual(Array.from(continuous.createSnapshot().cognitiveState.persona.traits.data));
+  });
+
+  test('should evolve identical grammars from the same seed', async () => {
+    const types: AgenticPrimitiveType[] = ['action', 'percept', 'memory', 'decision', 'planning'];
+    const primitives: AgenticPrimitive[] = types.map((type, index) => ({
+      id: `primitive_${index}`,
+      type,
+      name: `${type}_primitive`,
+      sourceLocation: { filePath: `${type}.ts`, startLine: 1, endLine: 5, startColumn: 0, endColumn: 10 },
+      parameters: [],
+      semanticComplexity: 0.5,
+      functionalDepth: 2,
+      dependencies: [],
+      metadata: {}
+    }));
+    const params: GrammarEvolutionParams = {
+      population: { size: 6, eliteRatio: 0.2, diversityThreshold: 0.4 },
+      mutation: { structuralRate: 0.3, parametricRate: 0.3, adaptiveScaling: true },
+      crossover: { rate: 0.6, method: 'uniform' },
+      selection: { method: 'rank', pressure: 0.7, paretoFronts: false },
+      termination: { maxGenerations: 3, fitnessThreshold: 2, stagnationLimit: 10, timeLimit: 60000 },
+      constraints: { maxComplexity: 0.7, maxNodes: 12, maxDepth: 6, minPerformance: 0 },
+      seed: 5
+    };
+
+    const evolveOnce = async () => {
+      const engine = new GrammarEvolutionEngine(JSON.parse(JSON.stringify(params)));
+      await engine.initialize(primitives);
+      await engine.evolve();
+      return engine.getCurrentPopulation().map(genome => [genome.id, genome.fitness]);
+    };
+
+    expect(await evolveOnce()).toEqual(await evolveOnce());
+  });
+});
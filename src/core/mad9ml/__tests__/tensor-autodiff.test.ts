@@ -0,0 +1,256 @@
+/**
+ * Tensor Core Tests - Broadcasting, reductions, shape ops, element types and autodiff
+ */
+
+import {
+  makeTensor,
+  randomTensor,
+  addTensors,
+  multiplyTensors,
+  divideTensors,
+  batchMatmul,
+  broadcastShapes,
+  reduceSum,
+  reduceMean,
+  reduceMax,
+  permute,
+  transpose,
+  slice,
+  concat,
+  castTensor,
+  float32ToFloat16Bits,
+  float16BitsToFloat32,
+  toFloat16Array,
+  fromFloat16Array,
+  GradientTape,
+  SGDOptimizer,
+  AdamOptimizer,
+  minimize,
+  PersonaEvolution,
+  ECANAttentionAllocator,
+  SeededRandom
+} from '../index.js';
+import type { Tensor, Variable } from '../index.js';
+
+const values = (tensor: Tensor): number[] => Array.from(tensor.data);
+
+/**
+ * Central-difference gradient of a scalar function of one tensor
+ */
+const numericGradient = (input: Tensor, fn: (tensor: Tensor) => number, epsilon = 1e-2): number[] =>
+  values(input).map((_, i) => {
+    const plus = makeTensor(input.shape, new Float32Array(input.data));
+    const minus = makeTensor(input.shape, new Float32Array(input.data));
+    (plus.data as Float32Array)[i] += epsilon;
+    (minus.data as Float32Array)[i] -= epsilon;
+    return (fn(plus) - fn(minus)) / (2 * epsilon);
+  });
+
+const expectClose = (actual: number[], expected: number[], digits = 2): void => {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], digits));
+};
+
+describe('Tensor Core', () => {
+  test('should broadcast element-wise operations', () => {
+    const matrix = makeTensor([2, 3], [1, 2, 3, 4, 5, 6]);
+    const row = makeTensor([3], [10, 20, 30]);
+    const column = makeTensor([2, 1], [100, 200]);
+
+    expect(broadcastShapes([2, 1, 3], [4, 1])).toEqual([2, 4, 3]);
+    expect(values(addTensors(matrix, row))).toEqual([11, 22, 33, 14, 25, 36]);
+    expect(values(multiplyTensors(column, row))).toEqual([1000, 2000, 3000, 2000, 4000, 6000]);
+    expect(addTensors(column, row).shape).toEqual([2, 3]);
+    expect(() => addTensors(matrix, makeTensor([2], [1, 2]))).toThrow('Cannot broadcast shapes');
+  });
+
+  test('should reduce over an axis or all elements', () => {
+    const tensor = makeTensor([2, 3], [1, 5, 3, 4, 2, 6]);
+
+    expect(values(reduceSum(tensor, 0))).toEqual([5, 7, 9]);
+    expect(values(reduceMean(tensor, 1))).toEqual([3, 4]);
+    expect(values(reduceMax(tensor, -1))).toEqual([5, 6]);
+    expect(reduceSum(tensor, 1, true).shape).toEqual([2, 1]);
+    expect(reduceSum(tensor).shape).toEqual([]);
+    expect(values(reduceSum(tensor))).toEqual([21]);
+    expect(() => reduceSum(tensor, 2)).toThrow('Axis 2 out of range');
+  });
+
+  test('should permute, transpose, slice and concatenate', () => {
+    const tensor = makeTensor([2, 3, 2], Array.from({ length: 12 }, (_, i) => i));
+
+    const permuted = permute(tensor, [2, 0, 1]);
+    expect(permuted.shape).toEqual([2, 2, 3]);
+    expect(values(permuted)).toEqual([0, 2, 4, 6, 8, 10, 1, 3, 5, 7, 9, 11]);
+
+    const matrix = makeTensor([2, 3], [1, 2, 3, 4, 5, 6]);
+    expect(values(transpose(matrix))).toEqual([1, 4, 2, 5, 3, 6]);
+
+    const block = slice(tensor, [1, 1, 0], [1, 2, -1]);
+    expect(block.shape).toEqual([1, 2, 2]);
+    expect(values(block)).toEqual([8, 9, 10, 11]);
+    expect(() => slice(matrix, [1, 2], [2, 1])).toThrow('exceeds tensor shape');
+
+    const joined = concat([matrix, makeTensor([2, 1], [7, 8])], 1);
+    expect(joined.shape).toEqual([2, 4]);
+    expect(values(joined)).toEqual([1, 2, 3, 7, 4, 5, 6, 8]);
+  });
+
+  test('should multiply batched matrices with broadcast batch dimensions', () => {
+    const a = makeTensor([2, 2, 2], [1, 0, 0, 1, 2, 0, 0, 2]);
+    const b = makeTensor([2, 3], [1, 2, 3, 4, 5, 6]);
+
+    const product = batchMatmul(a, b);
+    expect(product.shape).toEqual([2, 2, 3]);
+    expect(values(product)).toEqual([1, 2, 3, 4, 5, 6, 2, 4, 6, 8, 10, 12]);
+    expect(() => batchMatmul(a, makeTensor([3, 3]))).toThrow('Cannot multiply matrices');
+  });
+
+  test('should honour f16 and i32 element types', () => {
+    expect(float32ToFloat16Bits(1)).toBe(0x3c00);
+    expect(float32ToFloat16Bits(-2)).toBe(0xc000);
+    expect(float32ToFloat16Bits(65520)).toBe(0x7c00);
+    expect(float16BitsToFloat32(0x3555)).toBeCloseTo(0.33325, 5);
+    expect(float16BitsToFloat32(0x0001)).toBe(2 ** -24);
+
+    const half = castTensor(makeTensor([3], [0.1, 1000.3, 1e-9]), 'f16');
+    expect(half.type).toBe('f16');
+    expect(values(half)).toEqual([float16BitsToFloat32(0x2e66), 1000.5, 0]);
+    expect(values(fromFloat16Array([3], toFloat16Array(half)))).toEqual(values(half));
+
+    const ints = makeTensor([3], [1.7, -2.7, 3], 'i32');
+    expect(values(ints)).toEqual([1, -2, 3]);
+    expect(addTensors(ints, ints).type).toBe('i32');
+    expect(divideTensors(ints, makeTensor([1], [2], 'i32')).type).toBe('f32');
+    expect(addTensors(ints, half).type).toBe('f32');
+  });
+});
+
+describe('Autodiff', () => {
+  const random = new SeededRandom(11);
+
+  test('should match numeric gradients through broadcasting and reductions', () => {
+    const x = randomTensor([2, 3], 1, random);
+    const w = randomTensor([3], 1, random);
+
+    const forward = (tape: GradientTape, xVar: Variable, wVar: Variable): Variable =>
+      tape.mean(tape.tanh(tape.add(tape.mul(xVar, wVar), tape.max(xVar, 1, true))));
+
+    const tape = new GradientTape();
+    const xVar = tape.variable(x);
+    const wVar = tape.variable(w);
+    tape.backward(forward(tape, xVar, wVar));
+
+    const evaluate = (xValue: Tensor, wValue: Tensor): number => {
+      const scratch = new GradientTape();
+      return forward(scratch, scratch.variable(xValue), scratch.constant(wValue)).value.data[0];
+    };
+
+    expectClose(values(tape.gradient(xVar)), numericGradient(x, value => evaluate(value, w)));
+    expectClose(values(tape.gradient(wVar)), numericGradient(w, value => evaluate(x, value)));
+  });
+
+  test('should match numeric gradients through batched matmul and softmax', () => {
+    const a = randomTensor([2, 2, 3], 0.5, random);
+    const b = randomTensor([3, 2], 0.5, random);
+    const target = makeTensor([2, 2, 2], [1, 0, 0, 1, 0.5, 0.5, 1, 0]);
+
+    const loss = (aValue: Tensor, bValue: Tensor, tape = new GradientTape()) => {
+      const aVar = tape.variable(aValue);
+      const bVar = tape.variable(bValue);
+      return { tape, aVar, bVar, output: tape.mse(tape.softmax(tape.matmul(aVar, bVar)), tape.constant(target)) };
+    };
+
+    const { tape, aVar, bVar, output } = loss(a, b);
+    tape.backward(output);
+
+    expectClose(values(tape.gradient(aVar)), numericGradient(a, value => loss(value, b).output.value.data[0]), 3);
+    expectClose(values(tape.gradient(bVar)), numericGradient(b, value => loss(a, value).output.value.data[0]), 3);
+  });
+
+  test('should not propagate gradients into constants', () => {
+    const tape = new GradientTape();
+    const constant = tape.constant(makeTensor([2], [1, 2]));
+
+    expect(() => tape.backward(tape.square(constant))).toThrow('does not depend on any trainable variable');
+    expect(values(tape.gradient(constant))).toEqual([0, 0]);
+  });
+
+  test('should fit a linear model by gradient descent', () => {
+    const inputs = makeTensor([4, 2], [0, 0, 1, 0, 0, 1, 1, 1]);
+    const targets = makeTensor([4, 1], [1, 3, -1, 1]); // y = 2a - 2b + 1
+    const weights = makeTensor([2, 1]);
+    const bias = makeTensor([1]);
+
+    const history = minimize(
+      [weights, bias],
+      (tape, [w, b]) => tape.mse(tape.add(tape.matmul(tape.constant(inputs), w), b), tape.constant(targets)),
+      new AdamOptimizer(0.1),
+      300
+    );
+
+    expect(history[history.length - 1]).toBeLessThan(1e-3);
+    expectClose(values(weights), [2, -2], 1);
+    expectClose(values(bias), [1], 1);
+  });
+
+  test('should train persona traits toward a target profile', () => {
+    const evolution = new PersonaEvolution({
+      mutationRate: 0.1,
+      driftFactor: 0.05,
+      fitnessThreshold: 0.8,
+      adaptationSpeed: 0.1,
+      constraints: { minValue: -2, maxValue: 2, preserveCore: true }
+    }, new SeededRandom(3));
+    const persona = evolution.createInitialPersona(4, 3, 2);
+    const profile = makeTensor([4], [0.9, -0.5, 0.3, 0.7]);
+
+    const { persona: trained, lossHistory } = evolution.trainPersona(
+      persona,
+      (tape, traits) => tape.mse(traits, tape.constant(profile)),
+      new SGDOptimizer(0.5, 0.5),
+      40
+    );
+
+    expect(lossHistory[lossHistory.length - 1]).toBeLessThan(lossHistory[0] * 0.01);
+    expectClose(values(trained.traits), values(profile), 1);
+    expect(values(trained.parameters)).toEqual(values(persona.parameters));
+    expect(trained.traits).not.toBe(persona.traits);
+  });
+
+  test('should train attention importance weights toward a target allocation', () => {
+    const allocator = new ECANAttentionAllocator({
+      totalResources: 100,
+      decayRate: 0.1,
+      spreadingFactor: 0.5,
+      thresholds: { activation: 0.5, selection: 0.3, forgetting: 0.1 }
+    });
+    allocator.importState({
+      shortTermImportance: { shape: [3], data: [2, 0, 0] },
+      longTermImportance: { shape: [3], data: [0, 2, 0] },
+      urgency: { shape: [3], data: [0, 0, 2] },
+      currentAllocation: { shape: [3], data: [1 / 3, 1 / 3, 1 / 3] },
+      resourceBudget: 100,
+      strategy: 'balanced',
+      allocationStep: 0,
+      performanceMetrics: [],
+      allocationHistory: []
+    });
+    const before = values(allocator.getImportanceWeights());
+    const target = makeTensor([3], [0.1, 0.2, 0.7]);
+
+    const lossHistory = allocator.trainImportanceWeights(
+      (tape, allocation) => tape.mse(allocation, tape.constant(target)),
+      new SGDOptimizer(5),
+      60
+    );
+
+    const after = values(allocator.getImportanceWeights());
+    expect(lossHistory[lossHistory.length - 1]).toBeLessThan(lossHistory[0] * 0.1);
+    expect(after[2]).toBeGreaterThan(before[2]);
+    expect(allocator.exportState()?.importanceWeights).toEqual(after);
+
+    allocator.setStrategy('urgency');
+    expectClose(values(allocator.getImportanceWeights()), [0.3, 0.2, 0.5]);
+  });
+});
@@ -0,0 +1,404 @@
+/**
+ * AST Primitive Extractor - Extracts agentic primitives with the TypeScript compiler API
+ *
+ * Builds a program over the source files and uses its type checker to resolve
+ * symbols. Every function, method and constructor becomes one primitive, and
+ * every class field or mutable module variable becomes a memory primitive.
+ * Dependencies come from resolved calls and from reads and writes of memory
+ * primitives. Functional depth is the longest call chain below a primitive.
+ * IDs are built from the file path and qualified name, not from positions,
+ * so they stay the same across runs and across edits elsewhere in a file.
+ */
+
+import ts from 'typescript';
+import { AgenticPrimitive, AgenticPrimitiveType } from './types.js';
+
+/**
+ * Leading verbs that classify a function, checked in order
+ */
+const VERB_TYPES: Array<[AgenticPrimitiveType, string[]]> = [
+  ['percept', ['read', 'get', 'fetch', 'receive', 'load', 'sense', 'detect', 'observe', 'parse', 'query']],
+  ['memory', ['store', 'save', 'cache', 'persist', 'remember', 'recall', 'set', 'put', 'record']],
+  ['decision', ['decide', 'choose', 'select', 'determine', 'evaluate', 'classify', 'compare', 'is', 'has', 'can', 'should']],
+  ['planning', ['plan', 'schedule', 'sequence', 'iterate', 'orchestrate', 'coordinate']],
+  ['communication', ['emit', 'send', 'publish', 'broadcast', 'notify', 'dispatch', 'post', 'subscribe', 'on']],
+  ['adaptation', ['learn', 'adapt', 'evolve', 'mutate', 'optimize', 'adjust', 'update', 'train', 'fit', 'tune']],
+  ['attention', ['focus', 'attend', 'prioritize', 'allocate', 'distribute', 'rank']],
+  ['goal', ['achieve', 'accomplish', 'complete', 'finish', 'pursue']],
+  ['constraint', ['validate', 'limit', 'bound', 'restrict', 'constrain', 'check', 'verify', 'ensure', 'assert']]
+];
+
+type FunctionNode = ts.FunctionLikeDeclaration & { body: ts.Node };
+
+interface Declaration {
+  primitive: AgenticPrimitive;
+  /** Function body to scan for calls and state access, absent for memory primitives */
+  body?: ts.Node;
+}
+
+export class AstPrimitiveExtractor {
+  private compilerOptions: ts.CompilerOptions;
+
+  constructor(compilerOptions: ts.CompilerOptions = {}) {
+    this.compilerOptions = {
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.NodeNext,
+      moduleResolution: ts.ModuleResolutionKind.NodeNext,
+      allowJs: true,
+      noEmit: true,
+      skipLibCheck: true,
+      types: [],
+      ...compilerOptions
+    };
+  }
+
+  /**
+   * Extracts primitives from the given files; calls into other files resolve
+   * only when those files are part of the same extraction
+   */
+  extract(filePaths: string[]): AgenticPrimitive[] {
+    const program = ts.createProgram(filePaths, this.compilerOptions);
+    const checker = program.getTypeChecker();
+
+    const declarations = new Map<ts.Node, Declaration>();
+    const usedIds = new Set<string>();
+
+    for (const filePath of filePaths) {
+      const sourceFile = program.getSourceFile(filePath);
+      if (!sourceFile) {
+        console.warn(`Warning: Could not parse ${filePath}`);
+        continue;
+      }
+      this.collectDeclarations(sourceFile, filePath, checker, declarations, usedIds);
+    }
+
+    for (const declaration of declarations.values()) {
+      if (declaration.body) {
+        this.resolveDependencies(declaration, checker, declarations);
+      }
+    }
+
+    this.assignFunctionalDepth([...declarations.values()].map(declaration => declaration.primitive));
+
+    return [...declarations.values()].map(declaration => declaration.primitive);
+  }
+
+  /**
+   * Registers a primitive for every function-like and state declaration in a file
+   */
+  private collectDeclarations(
+    sourceFile: ts.SourceFile,
+    filePath: string,
+    checker: ts.TypeChecker,
+    declarations: Map<ts.Node, Declaration>,
+    usedIds: Set<string>
+  ): void {
+    const register = (node: ts.Node, scope: string[], name: string, body?: FunctionNode): void => {
+      const qualifiedName = [...scope, name].join('.');
+      const type = body ? this.classifyFunction(name) : 'memory';
+      const baseId = `${type}_${filePath}_${qualifiedName}`.replace(/[^a-zA-Z0-9_]/g, '_');
+
+      let id = baseId;
+      for (let suffix = 2; usedIds.has(id); suffix++) {
+        id = `${baseId}_${suffix}`;
+      }
+      usedIds.add(id);
+
+      const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+      const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+      const cyclomaticComplexity = body ? this.cyclomaticComplexity(body.body) : 1;
+
+      declarations.set(node, {
+        body: body?.body,
+        primitive: {
+          id,
+          type,
+          name,
+          sourceLocation: {
+            filePath,
+            startLine: start.line + 1,
+            endLine: end.line + 1,
+            startColumn: start.character,
+            endColumn: end.character
+          },
+          parameters: body ? body.parameters.map(parameter => ({
+            name: parameter.name.getText(sourceFile),
+            type: checker.typeToString(checker.getTypeAtLocation(parameter)),
+            ...(parameter.initializer ? { defaultValue: parameter.initializer.getText(sourceFile) } : {})
+          })) : [],
+          semanticComplexity: Math.min(1 + (cyclomaticComplexity - 1) * 0.2, 3.0),
+          functionalDepth: 1,
+          dependencies: [],
+          metadata: {
+            extracted: Date.now(),
+            extractorVersion: '2.0.0',
+            extractor: 'ast',
+            qualifiedName,
+            cyclomaticComplexity,
+            calls: [],
+            reads: [],
+            writes: []
+          }
+        }
+      });
+    };
+
+    const visit = (node: ts.Node, scope: string[]): void => {
+      if (ts.isClassDeclaration(node) || ts.isClassExpression(node)) {
+        const className = node.name?.text ?? 'default';
+        for (const member of node.members) {
+          const memberName = member.name && (ts.isIdentifier(member.name) || ts.isPrivateIdentifier(member.name)) ? member.name.text : undefined;
+          if (ts.isConstructorDeclaration(member) && member.body) {
+            register(member, [...scope, className], 'constructor', member as FunctionNode);
+            visit(member.body, [...scope, className, 'constructor']);
+            // Parameter properties are class state too
+            for (const parameter of member.parameters) {
+              if (ts.isParameterPropertyDeclaration(parameter, member) && ts.isIdentifier(parameter.name)) {
+                register(parameter, [...scope, className], parameter.name.text);
+              }
+            }
+          } else if ((ts.isMethodDeclaration(member) || ts.isGetAccessor(member) || ts.isSetAccessor(member)) && member.body && memberName) {
+            register(member, [...scope, className], memberName, member as FunctionNode);
+            visit(member.body, [...scope, className, memberName]);
+          } else if (ts.isPropertyDeclaration(member) && memberName) {
+            const initializer = member.initializer;
+            if (initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))) {
+              register(member, [...scope, className], memberName, initializer as FunctionNode);
+              visit(initializer.body, [...scope, className, memberName]);
+            } else {
+              register(member, [...scope, className], memberName);
+            }
+          }
+        }
+        return;
+      }
+
+      if (ts.isFunctionDeclaration(node) && node.body) {
+        const name = node.name?.text ?? 'default';
+        register(node, scope, name, node as FunctionNode);
+        visit(node.body, [...scope, name]);
+        return;
+      }
+
+      if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name)) {
+        const name = node.name.text;
+        const initializer = node.initializer;
+        if (initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))) {
+          register(node, scope, name, initializer as FunctionNode);
+          visit(initializer.body, [...scope, name]);
+          return;
+        }
+        // Mutable module variables hold state; locals and constants do not
+        const isModuleLevel = scope.length === 0;
+        const isMutable = !(ts.getCombinedNodeFlags(node) & ts.NodeFlags.Const);
+        if (isModuleLevel && isMutable) {
+          register(node, scope, name);
+        }
+      }
+
+      ts.forEachChild(node, child => visit(child, scope));
+    };
+
+    visit(sourceFile, []);
+  }
+
+  /**
+   * Resolves the calls, reads and writes in a primitive's body to other primitives
+   */
+  private resolveDependencies(declaration: Declaration, checker: ts.TypeChecker, declarations: Map<ts.Node, Declaration>): void {
+    const calls = new Set<string>();
+    const reads = new Set<string>();
+    const writes = new Set<string>();
+    const self = declaration.primitive.id;
+
+    const resolve = (node: ts.Node): Declaration | undefined => {
+      const symbol = this.resolveSymbol(node, checker);
+      for (const target of symbol?.declarations ?? []) {
+        const resolved = declarations.get(target);
+        if (resolved) return resolved;
+      }
+      return undefined;
+    };
+
+    const visit = (node: ts.Node): void => {
+      // Named nested functions own their calls
+      if (declarations.has(node)) return;
+
+      if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+        const callee = ts.isPropertyAccessExpression(node.expression) ? node.expression.name : node.expression;
+        const target = resolve(callee);
+        if (target?.body) {
+          calls.add(target.primitive.id);
+        } else if (ts.isNewExpression(node)) {
+          // new Foo() calls Foo's constructor
+          const classTarget = this.resolveConstructor(callee, checker, declarations);
+          if (classTarget) calls.add(classTarget.id);
+        }
+      }
+
+      if (ts.isIdentifier(node) || ts.isPrivateIdentifier(node)) {
+        const target = resolve(node);
+        if (target && !target.body) {
+          (this.isWrite(node) ? writes : reads).add(target.primitive.id);
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    visit(declaration.body!);
+
+    calls.delete(self);
+    const metadata = declaration.primitive.metadata;
+    metadata.calls = [...calls];
+    metadata.reads = [...reads];
+    metadata.writes = [...writes];
+    declaration.primitive.dependencies = [...new Set([...calls, ...reads, ...writes])];
+  }
+
+  /**
+   * Finds the constructor primitive of the class a `new` expression instantiates
+   */
+  private resolveConstructor(callee: ts.Node, checker: ts.TypeChecker, declarations: Map<ts.Node, Declaration>): AgenticPrimitive | undefined {
+    const classDeclaration = this.resolveSymbol(callee, checker)?.declarations?.find(ts.isClassLike);
+    const constructor = classDeclaration?.members.find(ts.isConstructorDeclaration);
+    return constructor ? declarations.get(constructor)?.primitive : undefined;
+  }
+
+  /**
+   * The symbol a node refers to, looking through import aliases
+   */
+  private resolveSymbol(node: ts.Node, checker: ts.TypeChecker): ts.Symbol | undefined {
+    const symbol = checker.getSymbolAtLocation(node);
+    return symbol && symbol.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(symbol) : symbol;
+  }
+
+  /**
+   * Whether an identifier is the target of an assignment or increment
+   */
+  private isWrite(node: ts.Node): boolean {
+    let target: ts.Node = node;
+    if (ts.isPropertyAccessExpression(node.parent) && node.parent.name === node) {
+      target = node.parent;
+    }
+    const parent = target.parent;
+
+    if (ts.isBinaryExpression(parent) && parent.left === target) {
+      return parent.operatorToken.kind >= ts.SyntaxKind.FirstAssignment &&
+        parent.operatorToken.kind <= ts.SyntaxKind.LastAssignment;
+    }
+    if (ts.isPrefixUnaryExpression(parent) || ts.isPostfixUnaryExpression(parent)) {
+      return parent.operator === ts.SyntaxKind.PlusPlusToken || parent.operator === ts.SyntaxKind.MinusMinusToken;
+    }
+    return false;
+  }
+
+  /**
+   * Sets functionalDepth to the longest call chain below each primitive.
+   * Mutually recursive primitives share a depth.
+   */
+  private assignFunctionalDepth(primitives: AgenticPrimitive[]): void {
+    const byId = new Map(primitives.map(primitive => [primitive.id, primitive]));
+    const callees = (primitive: AgenticPrimitive): AgenticPrimitive[] =>
+      ((primitive.metadata.calls ?? []) as string[]).map(id => byId.get(id)!);
+
+    // Tarjan's algorithm emits components callees first, so depths are ready when needed
+    const index = new Map<AgenticPrimitive, number>();
+    const lowLink = new Map<AgenticPrimitive, number>();
+    const stack: AgenticPrimitive[] = [];
+    const onStack = new Set<AgenticPrimitive>();
+    let counter = 0;
+
+    const connect = (primitive: AgenticPrimitive): void => {
+      index.set(primitive, counter);
+      lowLink.set(primitive, counter);
+      counter++;
+      stack.push(primitive);
+      onStack.add(primitive);
+
+      for (const callee of callees(primitive)) {
+        if (!index.has(callee)) {
+          connect(callee);
+          lowLink.set(primitive, Math.min(lowLink.get(primitive)!, lowLink.get(callee)!));
+        } else if (onStack.has(callee)) {
+          lowLink.set(primitive, Math.min(lowLink.get(primitive)!, index.get(callee)!));
+        }
+      }
+
+      if (lowLink.get(primitive) !== index.get(primitive)) return;
+
+      const component: AgenticPrimitive[] = [];
+      let member: AgenticPrimitive;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== primitive);
+
+      const members = new Set(component);
+      let deepestCallee = 0;
+      for (const caller of component) {
+        for (const callee of callees(caller)) {
+          if (!members.has(callee)) deepestCallee = Math.max(deepestCallee, callee.functionalDepth);
+        }
+      }
+      for (const caller of component) {
+        caller.functionalDepth = deepestCallee + 1;
+      }
+    };
+
+    for (const primitive of primitives) {
+      if (!index.has(primitive)) connect(primitive);
+    }
+  }
+
+  /**
+   * Classifies a function by the leading verb of its name
+   */
+  private classifyFunction(name: string): AgenticPrimitiveType {
+    const verb = name.replace(/^[_#]+/, '').split(/(?=[A-Z])|_/)[0].toLowerCase();
+    for (const [type, verbs] of VERB_TYPES) {
+      if (verbs.includes(verb)) return type;
+    }
+    return 'action';
+  }
+
+  /**
+   * McCabe complexity: one plus the number of branch points, excluding nested functions
+   */
+  private cyclomaticComplexity(body: ts.Node): number {
+    let complexity = 1;
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isFunctionLike(node) && node !== body) return;
+
+      switch (node.kind) {
+        case ts.SyntaxKind.IfStatement:
+        case ts.SyntaxKind.ConditionalExpression:
+        case ts.SyntaxKind.CaseClause:
+        case ts.SyntaxKind.CatchClause:
+        case ts.SyntaxKind.ForStatement:
+        case ts.SyntaxKind.ForInStatement:
+        case ts.SyntaxKind.ForOfStatement:
+        case ts.SyntaxKind.WhileStatement:
+        case ts.SyntaxKind.DoStatement:
+          complexity++;
+          break;
+        case ts.SyntaxKind.BinaryExpression: {
+          const operator = (node as ts.BinaryExpression).operatorToken.kind;
+          if (operator === ts.SyntaxKind.AmpersandAmpersandToken ||
+              operator === ts.SyntaxKind.BarBarToken ||
+              operator === ts.SyntaxKind.QuestionQuestionToken) {
+            complexity++;
+          }
+          break;
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    visit(body);
+    return complexity;
+  }
+}
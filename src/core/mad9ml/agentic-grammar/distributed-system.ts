@@ -222,7 +222,7 @@ export class DistributedAgenticGrammarSystem {
     const allKernels = this.kernelRegistry.getAllKernels();
     for (const kernel of allKernels) {
       try {
-        const nodeId = this.orchestrationMesh.deployKernel(kernel);
+        const nodeId = await this.orchestrationMesh.deployKernel(kernel);
         console.log(`🚀 Deployed ${kernel.name} to node ${nodeId}`);
       } catch (error) {
         console.warn(`⚠️ Failed to deploy kernel ${kernel.name}:`, error);
@@ -493,7 +493,7 @@ export class DistributedAgenticGrammarSystem {
    */
   async performLoadBalancing(): Promise<void> {
     console.log('⚖️ Performing distributed load balancing...');
-    this.orchestrationMesh.balanceLoad();
+    await this.orchestrationMesh.balanceLoad();
     this.kernelRegistry.processMessageQueue();
     this.updateSystemState();
   }
@@ -638,7 +638,8 @@ export function createDefaultAgenticGrammarConfig(): AgenticGrammarConfig {
         '.test.',
         '.spec.'
       ],
-      maxFileSize: 1024 * 1024 // 1MB
+      maxFileSize: 1024 * 1024, // 1MB
+      mode: 'regex'
     },
     tensorization: {
       defaultPrecision: 'f32',
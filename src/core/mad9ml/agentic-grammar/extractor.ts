@@ -7,6 +7,7 @@
 
 import { readFileSync, readdirSync, statSync } from 'fs';
 import { join, extname } from 'path';
+import { AstPrimitiveExtractor } from './ast-extractor.js';
 import { 
   AgenticPrimitive, 
   AgenticPrimitiveType, 
@@ -31,8 +32,17 @@ export class AgenticGrammarExtractor {
     
     this.extractedPrimitives.clear();
     
+    const files: string[] = [];
     for (const sourceDir of this.config.extraction.sourceDirectories) {
-      await this.extractFromDirectory(sourceDir);
+      this.collectSourceFiles(sourceDir, files);
+    }
+
+    if (this.config.extraction.mode === 'ast') {
+      this.extractWithCompiler(files);
+    } else {
+      for (const file of files) {
+        await this.extractFromFile(file);
+      }
     }
     
     console.log(`✨ Extracted ${this.extractedPrimitives.size} agentic primitives`);
@@ -40,9 +50,9 @@ export class AgenticGrammarExtractor {
   }
 
   /**
-   * Extracts primitives from a directory recursively
+   * Collects source files from a directory recursively
    */
-  private async extractFromDirectory(dirPath: string): Promise<void> {
+  private collectSourceFiles(dirPath: string, files: string[]): void {
     try {
       const entries = readdirSync(dirPath);
       
@@ -52,10 +62,10 @@ export class AgenticGrammarExtractor {
         
         if (stat.isDirectory()) {
           if (!this.isExcluded(fullPath)) {
-            await this.extractFromDirectory(fullPath);
+            this.collectSourceFiles(fullPath, files);
           }
         } else if (stat.isFile() && this.isValidSourceFile(fullPath)) {
-          await this.extractFromFile(fullPath);
+          files.push(fullPath);
         }
       }
     } catch (error) {
@@ -63,6 +73,24 @@ export class AgenticGrammarExtractor {
     }
   }
 
+  /**
+   * Extracts primitives from all files at once with the TypeScript compiler,
+   * so calls between files resolve to real dependencies
+   */
+  private extractWithCompiler(files: string[]): void {
+    const withinLimit = files.filter(file => {
+      if (statSync(file).size > this.config.extraction.maxFileSize) {
+        console.warn(`Skipping large file: ${file}`);
+        return false;
+      }
+      return true;
+    });
+
+    for (const primitive of new AstPrimitiveExtractor().extract(withinLimit)) {
+      this.extractedPrimitives.set(primitive.id, primitive);
+    }
+  }
+
   /**
    * Extracts agentic primitives from a single file
    */
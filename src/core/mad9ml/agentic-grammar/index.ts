@@ -7,12 +7,17 @@ export { DistributedAgenticGrammarSystem, createDefaultAgenticGrammarConfig } fr
 
 // Grammar extraction
 export { AgenticGrammarExtractor } from './extractor.js';
+export { AstPrimitiveExtractor } from './ast-extractor.js';
 
 // Kernel management
 export { CognitiveKernelRegistry } from './kernel-registry.js';
+export { KernelRuntime, compileKernel, dependencyEdges } from './kernel-runtime.js';
 
 // Distributed orchestration
 export { DistributedOrchestrationMesh } from './orchestration-mesh.js';
+export type { MeshNetworkOptions } from './orchestration-mesh.js';
+export { MeshNodeHost, RemoteMeshNode, serveMeshNode, spawnWorkerMeshNode } from './mesh-node.js';
+export type { MeshNodeInit, MeshHeartbeat, MeshExecution, MeshNodeLink, MeshNodeSpawner } from './mesh-node.js';
 
 // Types
 export type {
@@ -22,6 +27,10 @@ export type {
   GgmlKernel,
   KernelPort,
   KernelRegistryEntry,
+  KernelComputeFunction,
+  KernelEdge,
+  KernelExecutionResult,
+  KernelExecutionReport,
   TensorMessage,
   KernelCluster,
   DistributedAttentionState,
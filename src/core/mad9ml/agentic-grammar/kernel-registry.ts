@@ -22,6 +22,7 @@ export class CognitiveKernelRegistry {
   private messageQueue: TensorMessage[] = [];
   private attentionState: DistributedAttentionState;
   private primeFactorizationCache: Map<string, number[]> = new Map();
+  private executionCounts: Map<string, number> = new Map();
 
   constructor() {
     this.attentionState = {
@@ -404,15 +405,50 @@ function execute_${primitive.name}(inputs, outputs, params) {
    * Processes queued tensor messages
    */
   processMessageQueue(): void {
+    this.drainMessageQueue();
+  }
+
+  /**
+   * Delivers all queued messages and returns the valid ones, for a
+   * KernelRuntime to execute
+   */
+  drainMessageQueue(): TensorMessage[] {
+    const delivered: TensorMessage[] = [];
+
     while (this.messageQueue.length > 0) {
       const message = this.messageQueue.shift()!;
       
       if (this.isMessageValid(message)) {
         this.deliverMessage(message);
+        delivered.push(message);
       } else {
         console.warn(`⚠️ Invalid message dropped: ${message.id}`);
       }
     }
+
+    return delivered;
+  }
+
+  /**
+   * Records one execution of a kernel in its performance statistics
+   */
+  recordExecution(kernelId: string, latency: number, succeeded: boolean): void {
+    const entry = this.kernels.get(kernelId);
+    if (!entry) return;
+
+    // Exponential moving averages, seeded by the first execution
+    const alpha = 0.1;
+    const performance = entry.performance;
+    const executions = (this.executionCounts.get(kernelId) ?? 0) + 1;
+    this.executionCounts.set(kernelId, executions);
+    const first = executions === 1;
+    performance.averageExecutionTime = first ? latency : alpha * latency + (1 - alpha) * performance.averageExecutionTime;
+    performance.errorRate = first
+      ? (succeeded ? 0 : 1)
+      : alpha * (succeeded ? 0 : 1) + (1 - alpha) * performance.errorRate;
+
+    entry.kernel.metadata.usageFrequency++;
+    entry.kernel.metadata.lastUsed = Date.now();
   }
 
   /**
@@ -0,0 +1,368 @@
+/**
+ * Kernel Runtime - Executes GGML kernels in-process
+ *
+ * Compiles each kernel into a compute function over its port tensors and
+ * schedules kernel graphs: tensor messages supply the inputs, edges carry
+ * outputs to downstream kernels, and every kernel runs once all of its
+ * upstream kernels have. The operation of a compiled kernel follows its
+ * primitive type, as described by its generated kernelCode.
+ */
+
+import {
+  GgmlKernel,
+  KernelComputeFunction,
+  KernelEdge,
+  KernelExecutionReport,
+  KernelExecutionResult,
+  TensorMessage
+} from './types.js';
+import { Tensor } from '../types.js';
+import {
+  addTensors,
+  cloneTensor,
+  mapTensor,
+  matmul,
+  randomTensor,
+  relu,
+  softmax,
+  tanh,
+  zeroTensor
+} from '../tensor/operations.js';
+import { SeededRandom, defaultRandom } from '../random/seeded-random.js';
+import { CognitiveKernelRegistry } from './kernel-registry.js';
+
+/**
+ * Primitive types whose kernels transform their input with a weight matrix;
+ * all other kernels pass their input through unchanged
+ */
+const WEIGHTED_TYPES = ['action', 'percept', 'memory', 'decision', 'planning'];
+
+/**
+ * Compiles a kernel into a compute function over its port tensors.
+ *
+ * The first input and output ports are the main ports and must be matrices.
+ * Weighted kernels compute `input x weights`; missing weights are
+ * initialized from `random` and stored on the kernel so they can be
+ * persisted. Each supplied parameter port adds its mean as a bias. Memory
+ * kernels keep their state in `kernel.state` between calls.
+ */
+export function compileKernel(kernel: GgmlKernel, random: SeededRandom = defaultRandom): KernelComputeFunction {
+  const mainInput = kernel.inputPorts[0];
+  const mainOutput = kernel.outputPorts[0];
+  if (!mainInput || !mainOutput) {
+    throw new Error(`Kernel ${kernel.id} needs an input and an output port`);
+  }
+  if (mainInput.tensorShape.length !== 2 || mainOutput.tensorShape.length !== 2) {
+    throw new Error(`Kernel ${kernel.id} main ports must be matrices`);
+  }
+
+  const [rows, inputColumns] = mainInput.tensorShape;
+  const [outputRows, outputColumns] = mainOutput.tensorShape;
+  if (rows !== outputRows) {
+    throw new Error(`Kernel ${kernel.id} main ports must have the same number of rows`);
+  }
+
+  const type = kernel.agenticFunction.type;
+  const weighted = WEIGHTED_TYPES.includes(type);
+  if (!weighted && inputColumns !== outputColumns) {
+    throw new Error(`Kernel ${kernel.id} passes its input through, so its main ports must have the same shape`);
+  }
+  if (type === 'planning' && inputColumns !== outputColumns) {
+    throw new Error(`Planning kernel ${kernel.id} needs square weights`);
+  }
+
+  if (weighted) {
+    const weightShape = [inputColumns, outputColumns];
+    if (!kernel.weights) {
+      kernel.weights = randomTensor(weightShape, 1 / Math.sqrt(inputColumns), random);
+    } else if (!sameShape(kernel.weights.shape, weightShape)) {
+      throw new Error(`Kernel ${kernel.id} weights have shape [${kernel.weights.shape}], expected [${weightShape}]`);
+    }
+  }
+
+  return (inputs: Record<string, Tensor>): Record<string, Tensor> => {
+    for (const [name, tensor] of Object.entries(inputs)) {
+      const port = kernel.inputPorts.find(candidate => candidate.name === name);
+      if (!port) {
+        throw new Error(`Kernel ${kernel.id} has no input port ${name}`);
+      }
+      if (!sameShape(tensor.shape, port.tensorShape)) {
+        throw new Error(`Kernel ${kernel.id} port ${name} expects shape [${port.tensorShape}], got [${tensor.shape}]`);
+      }
+    }
+
+    const input = inputs[mainInput.name];
+    if (!input) {
+      throw new Error(`Kernel ${kernel.id} is missing input ${mainInput.name}`);
+    }
+
+    if (!weighted) {
+      return { [mainOutput.name]: cloneTensor(input) };
+    }
+
+    const weights = kernel.weights!;
+    const bias = kernel.inputPorts
+      .filter(port => port !== mainInput && inputs[port.name])
+      .reduce((sum, port) => sum + mean(inputs[port.name]), 0);
+    const transform = (tensor: Tensor): Tensor => {
+      const product = matmul(tensor, weights);
+      return bias === 0 ? product : mapTensor(product, value => value + bias);
+    };
+
+    let output: Tensor;
+    switch (type) {
+      case 'action':
+        output = relu(transform(input));
+        break;
+      case 'percept':
+        output = softmax(transform(input));
+        break;
+      case 'memory':
+        kernel.state = tanh(addTensors(kernel.state ?? zeroTensor(mainOutput.tensorShape), transform(input)));
+        output = cloneTensor(kernel.state);
+        break;
+      case 'decision':
+        output = mapTensor(transform(input), value => 1 / (1 + Math.exp(-value)) >= 0.5 ? 1 : 0);
+        break;
+      default: {
+        // Planning unrolls one step per level of functional depth
+        output = input;
+        const steps = Math.max(1, kernel.agenticFunction.functionalDepth);
+        for (let step = 0; step < steps; step++) {
+          output = tanh(transform(output));
+        }
+      }
+    }
+
+    return { [mainOutput.name]: output };
+  };
+}
+
+/**
+ * Edges that feed each kernel's main output into the main input of the
+ * kernels whose primitives depend on it
+ */
+export function dependencyEdges(kernels: GgmlKernel[]): KernelEdge[] {
+  const byPrimitive = new Map(kernels.map(kernel => [kernel.agenticFunction.id, kernel]));
+  const edges: KernelEdge[] = [];
+
+  for (const kernel of kernels) {
+    for (const dependency of kernel.agenticFunction.dependencies) {
+      const source = byPrimitive.get(dependency);
+      if (!source || source === kernel || !source.outputPorts[0] || !kernel.inputPorts[0]) continue;
+      edges.push({
+        sourceKernelId: source.id,
+        sourcePort: source.outputPorts[0].name,
+        targetKernelId: kernel.id,
+        targetPort: kernel.inputPorts[0].name
+      });
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * Executes graphs of registered kernels on tensor messages
+ */
+export class KernelRuntime {
+  private registry: CognitiveKernelRegistry;
+  private random: SeededRandom;
+  private compiled: Map<string, KernelComputeFunction> = new Map();
+
+  constructor(registry: CognitiveKernelRegistry, random: SeededRandom = defaultRandom) {
+    this.registry = registry;
+    this.random = random;
+  }
+
+  /**
+   * Compute function of a registered kernel, compiled on first use
+   */
+  compile(kernelId: string): KernelComputeFunction {
+    let compute = this.compiled.get(kernelId);
+    if (!compute) {
+      compute = compileKernel(this.getKernel(kernelId), this.random);
+      this.compiled.set(kernelId, compute);
+    }
+    return compute;
+  }
+
+  /**
+   * Discards compiled kernels and their memory state; weights are kept
+   */
+  reset(): void {
+    for (const kernelId of this.compiled.keys()) {
+      const kernel = this.registry.getKernel(kernelId);
+      if (kernel) delete kernel.state;
+    }
+    this.compiled.clear();
+  }
+
+  /**
+   * Executes the kernels reachable from the message targets along `edges`,
+   * by default the primitive dependency graph of all registered kernels.
+   * Tensors arriving at the same port are summed. A failing kernel is
+   * reported with its error, and kernels left without input are skipped.
+   * Kernels on a dependency cycle (such as mutually recursive primitives)
+   * cannot be ordered, so they fail and the kernels they feed are skipped.
+   */
+  execute(messages: TensorMessage[], edges: KernelEdge[] = dependencyEdges(this.registry.getAllKernels())): KernelExecutionReport {
+    const inbox = new Map<string, Record<string, Tensor>>();
+    const deliver = (kernelId: string, port: string, tensor: Tensor): void => {
+      const ports = inbox.get(kernelId) ?? {};
+      ports[port] = ports[port] ? addTensors(ports[port], tensor) : tensor;
+      inbox.set(kernelId, ports);
+    };
+
+    for (const message of messages) {
+      const kernel = this.getKernel(message.targetKernelId);
+      const port = kernel.inputPorts.find(candidate =>
+        candidate.name === message.targetPort || candidate.id === message.targetPort
+      );
+      if (!port) {
+        throw new Error(`Kernel ${kernel.id} has no input port ${message.targetPort}`);
+      }
+      deliver(kernel.id, port.name, message.tensor);
+    }
+
+    const { order, cyclic, blocked } = this.schedule(messages.map(message => message.targetKernelId), edges);
+    const outgoing = new Map<string, KernelEdge[]>();
+    for (const edge of edges) {
+      outgoing.set(edge.sourceKernelId, [...(outgoing.get(edge.sourceKernelId) ?? []), edge]);
+    }
+
+    const results: KernelExecutionResult[] = [];
+    const skipped: string[] = [];
+    let totalLatency = 0;
+
+    for (const kernelId of order) {
+      const inputs = inbox.get(kernelId);
+      if (!inputs) {
+        skipped.push(kernelId);
+        continue;
+      }
+
+      const start = performance.now();
+      let result: KernelExecutionResult;
+      try {
+        const outputs = this.compile(kernelId)(inputs);
+        result = { kernelId, outputs, latency: performance.now() - start };
+        for (const edge of outgoing.get(kernelId) ?? []) {
+          const output = outputs[edge.sourcePort];
+          if (!output) {
+            throw new Error(`Kernel ${kernelId} has no output port ${edge.sourcePort}`);
+          }
+          deliver(edge.targetKernelId, edge.targetPort, output);
+        }
+      } catch (error) {
+        result = {
+          kernelId,
+          outputs: {},
+          latency: performance.now() - start,
+          error: error instanceof Error ? error.message : String(error)
+        };
+      }
+
+      this.registry.recordExecution(kernelId, result.latency, !result.error);
+      results.push(result);
+      totalLatency += result.latency;
+    }
+
+    for (const kernelId of cyclic) {
+      this.registry.recordExecution(kernelId, 0, false);
+      results.push({ kernelId, outputs: {}, latency: 0, error: `Kernel graph has a cycle through ${cyclic.join(', ')}` });
+    }
+    skipped.push(...blocked);
+
+    return { results, skipped, totalLatency };
+  }
+
+  /**
+   * Drains the registry's message queue and executes the delivered messages
+   */
+  processMessageQueue(edges?: KernelEdge[]): KernelExecutionReport {
+    return this.execute(this.registry.drainMessageQueue(), edges);
+  }
+
+  /**
+   * Topological order of the kernels reachable from the sources, followed by
+   * the kernels that cannot be ordered: those on a cycle and those blocked
+   * only because they are downstream of one
+   */
+  private schedule(sources: string[], edges: KernelEdge[]): { order: string[]; cyclic: string[]; blocked: string[] } {
+    const successors = new Map<string, string[]>();
+    for (const edge of edges) {
+      successors.set(edge.sourceKernelId, [...(successors.get(edge.sourceKernelId) ?? []), edge.targetKernelId]);
+    }
+
+    const reachable: string[] = [];
+    const seen = new Set<string>();
+    const frontier = [...sources];
+    while (frontier.length > 0) {
+      const kernelId = frontier.shift()!;
+      if (seen.has(kernelId)) continue;
+      seen.add(kernelId);
+      reachable.push(kernelId);
+      frontier.push(...(successors.get(kernelId) ?? []));
+    }
+
+    const indegree = new Map(reachable.map(kernelId => [kernelId, 0]));
+    for (const edge of edges) {
+      if (seen.has(edge.sourceKernelId)) {
+        indegree.set(edge.targetKernelId, indegree.get(edge.targetKernelId)! + 1);
+      }
+    }
+
+    const order: string[] = [];
+    const ready = reachable.filter(kernelId => indegree.get(kernelId) === 0);
+    while (ready.length > 0) {
+      const kernelId = ready.shift()!;
+      order.push(kernelId);
+      for (const successor of successors.get(kernelId) ?? []) {
+        indegree.set(successor, indegree.get(successor)! - 1);
+        if (indegree.get(successor) === 0) ready.push(successor);
+      }
+    }
+
+    // Peel the unordered kernels that feed no other unordered kernel; what
+    // remains lies on a cycle or on a path between cycles
+    const ordered = new Set(order);
+    const blocked: string[] = [];
+    const cyclic = new Set(reachable.filter(kernelId => !ordered.has(kernelId)));
+    const feedsCycle = (kernelId: string) =>
+      (successors.get(kernelId) ?? []).some(successor => cyclic.has(successor));
+    let peeled = true;
+    while (peeled) {
+      peeled = false;
+      for (const kernelId of cyclic) {
+        if (!feedsCycle(kernelId)) {
+          cyclic.delete(kernelId);
+          blocked.unshift(kernelId);
+          peeled = true;
+        }
+      }
+    }
+
+    return { order, cyclic: Array.from(cyclic), blocked };
+  }
+
+  private getKernel(kernelId: string): GgmlKernel {
+    const kernel = this.registry.getKernel(kernelId);
+    if (!kernel) {
+      throw new Error(`Unknown kernel ${kernelId}`);
+    }
+    return kernel;
+  }
+}
+
+function sameShape(a: readonly number[], b: readonly number[]): boolean {
+  return a.length === b.length && a.every((dim, i) => dim === b[i]);
+}
+
+function mean(tensor: Tensor): number {
+  let sum = 0;
+  for (let i = 0; i < tensor.size; i++) {
+    sum += tensor.data[i];
+  }
+  return tensor.size > 0 ? sum / tensor.size : 0;
+}
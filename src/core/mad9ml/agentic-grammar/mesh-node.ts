@@ -0,0 +1,249 @@
+/**
+ * Mesh Node - A node of the distributed orchestration mesh in its own thread
+ *
+ * A mesh node hosts deployed kernels and executes tensor messages on them.
+ * The coordinating DistributedOrchestrationMesh talks to it with requests
+ * and responses over a structured-clone channel (a Worker, `parentPort` or
+ * a MessagePort), and the node sends heartbeats over the same channel so
+ * the coordinator can detect when it dies. Kernels travel with their
+ * weights and memory state, so a kernel moved to another node keeps its state.
+ */
+
+import { Worker } from 'worker_threads';
+import { GgmlKernel, KernelComputeFunction } from './types.js';
+import { Tensor } from '../types.js';
+import { compileKernel } from './kernel-runtime.js';
+import { SeededRandom } from '../random/seeded-random.js';
+import {
+  ChannelClient,
+  ChannelRequest,
+  ChannelResult,
+  StructuredCloneChannel,
+  serveChannel
+} from '../channel/channel-rpc.js';
+
+/**
+ * Everything a mesh node needs to start; sent to worker threads as workerData
+ */
+export interface MeshNodeInit {
+  nodeId: string;
+  /** Milliseconds between heartbeats */
+  heartbeatInterval: number;
+  /** Seed for initializing the weights of kernels deployed without them */
+  seed?: number;
+}
+
+/**
+ * Liveness report a node sends every heartbeat interval
+ */
+export interface MeshHeartbeat {
+  nodeId: string;
+  kernels: string[];
+  timestamp: number;
+}
+
+/**
+ * Result of executing a kernel on a node; latency is the node's compute time in milliseconds
+ */
+export interface MeshExecution {
+  kernelId: string;
+  outputs: Record<string, Tensor>;
+  state?: Tensor;
+  latency: number;
+}
+
+/**
+ * Coordinator's handle on a mesh node
+ */
+export interface MeshNodeLink {
+  readonly nodeId: string;
+  /** Deploys a kernel; resolves its weights, initialized on the node if it had none */
+  deploy(kernel: GgmlKernel): Promise<Tensor | undefined>;
+  /** Removes a kernel; resolves it with its current weights and state */
+  undeploy(kernelId: string): Promise<GgmlKernel>;
+  execute(kernelId: string, inputs: Record<string, Tensor>): Promise<MeshExecution>;
+  onHeartbeat(listener: (heartbeat: MeshHeartbeat) => void): void;
+  close(): Promise<void>;
+  /** Rejects pending and future calls, e.g. once the node is declared failed */
+  fail(error: Error): void;
+}
+
+/**
+ * Starts a mesh node and returns the coordinator's handle on it
+ */
+export type MeshNodeSpawner = (init: MeshNodeInit) => MeshNodeLink;
+
+/**
+ * Arguments and result of each request a node serves
+ */
+interface MeshNodeMethods {
+  deploy: { args: [kernel: GgmlKernel]; result: Tensor | undefined };
+  undeploy: { args: [kernelId: string]; result: GgmlKernel };
+  execute: { args: [kernelId: string, inputs: Record<string, Tensor>]; result: MeshExecution };
+  close: { args: []; result: void };
+}
+
+interface MeshHeartbeatFrame {
+  type: 'heartbeat';
+  heartbeat: MeshHeartbeat;
+}
+
+/**
+ * Kernels hosted by one mesh node
+ */
+export class MeshNodeHost {
+  private nodeId: string;
+  private random: SeededRandom;
+  private kernels: Map<string, { kernel: GgmlKernel; compute: KernelComputeFunction }> = new Map();
+
+  constructor(nodeId: string, random: SeededRandom = new SeededRandom()) {
+    this.nodeId = nodeId;
+    this.random = random;
+  }
+
+  deploy(kernel: GgmlKernel): Tensor | undefined {
+    this.kernels.set(kernel.id, { kernel, compute: compileKernel(kernel, this.random) });
+    return kernel.weights;
+  }
+
+  undeploy(kernelId: string): GgmlKernel {
+    const kernel = this.getDeployed(kernelId).kernel;
+    this.kernels.delete(kernelId);
+    return kernel;
+  }
+
+  execute(kernelId: string, inputs: Record<string, Tensor>): MeshExecution {
+    const { kernel, compute } = this.getDeployed(kernelId);
+    const start = performance.now();
+    const outputs = compute(inputs);
+    return { kernelId, outputs, state: kernel.state, latency: performance.now() - start };
+  }
+
+  heartbeat(): MeshHeartbeat {
+    return { nodeId: this.nodeId, kernels: Array.from(this.kernels.keys()), timestamp: Date.now() };
+  }
+
+  private getDeployed(kernelId: string): { kernel: GgmlKernel; compute: KernelComputeFunction } {
+    const deployed = this.kernels.get(kernelId);
+    if (!deployed) {
+      throw new Error(`Kernel ${kernelId} is not deployed on node ${this.nodeId}`);
+    }
+    return deployed;
+  }
+}
+
+/**
+ * Coordinator side of a node reached over a channel
+ */
+export class RemoteMeshNode implements MeshNodeLink {
+  readonly nodeId: string;
+  private client: ChannelClient<MeshNodeMethods>;
+  private release: () => void | Promise<unknown>;
+  private heartbeatListeners: Array<(heartbeat: MeshHeartbeat) => void> = [];
+
+  /**
+   * @param release Frees the channel (e.g. terminates the worker) after close()
+   */
+  constructor(nodeId: string, channel: StructuredCloneChannel, release: () => void | Promise<unknown> = () => {}) {
+    this.nodeId = nodeId;
+    this.client = new ChannelClient(channel, { onMessage: value => this.handleHeartbeat(value) });
+    this.release = release;
+  }
+
+  deploy(kernel: GgmlKernel): Promise<Tensor | undefined> {
+    return this.client.call('deploy', kernel);
+  }
+
+  undeploy(kernelId: string): Promise<GgmlKernel> {
+    return this.client.call('undeploy', kernelId);
+  }
+
+  execute(kernelId: string, inputs: Record<string, Tensor>): Promise<MeshExecution> {
+    return this.client.call('execute', kernelId, inputs);
+  }
+
+  onHeartbeat(listener: (heartbeat: MeshHeartbeat) => void): void {
+    this.heartbeatListeners.push(listener);
+  }
+
+  async close(): Promise<void> {
+    if (!this.client.getFailure()) {
+      await this.client.call('close');
+      this.fail(new Error(`Mesh node ${this.nodeId} is closed`));
+    }
+    this.client.detach();
+    await this.release();
+  }
+
+  fail(error: Error): void {
+    this.client.fail(error);
+  }
+
+  // Private methods
+
+  private handleHeartbeat(value: unknown): void {
+    const frame = value as MeshHeartbeatFrame;
+    if (frame?.type === 'heartbeat' && !this.client.getFailure()) {
+      this.heartbeatListeners.forEach(listener => listener(frame.heartbeat));
+    }
+  }
+}
+
+/**
+ * Serves a mesh node over a channel, sending heartbeats until closed.
+ * Returns a function that stops serving at once, as if the node had died.
+ */
+export function serveMeshNode(channel: StructuredCloneChannel, init: MeshNodeInit): () => void {
+  const host = new MeshNodeHost(init.nodeId, new SeededRandom(init.seed));
+
+  const stopServing = serveChannel<MeshNodeMethods>(channel, request => {
+    if (request.method === 'close') {
+      stop();
+    }
+    return dispatchMeshNodeRequest(host, request);
+  });
+
+  const stop = () => {
+    clearInterval(timer);
+    stopServing();
+  };
+
+  const beat = () => {
+    const frame: MeshHeartbeatFrame = { type: 'heartbeat', heartbeat: host.heartbeat() };
+    channel.postMessage(frame);
+  };
+  const timer = setInterval(beat, init.heartbeatInterval);
+
+  beat();
+  return stop;
+}
+
+/**
+ * Runs the host method named by a request; closing is handled by serveMeshNode
+ */
+function dispatchMeshNodeRequest(
+  host: MeshNodeHost,
+  request: ChannelRequest<MeshNodeMethods>
+): ChannelResult<MeshNodeMethods> {
+  switch (request.method) {
+    case 'deploy': return host.deploy(...request.args);
+    case 'undeploy': return host.undeploy(...request.args);
+    case 'execute': return host.execute(...request.args);
+    case 'close': return undefined;
+  }
+}
+
+/**
+ * Starts a mesh node in a worker thread
+ *
+ * @param workerUrl Worker entry point; defaults to the compiled mesh-worker.js
+ */
+export function spawnWorkerMeshNode(init: MeshNodeInit, workerUrl?: URL | string): RemoteMeshNode {
+  const worker = new Worker(workerUrl ?? new URL('./mesh-worker.js', import.meta.url), { workerData: init });
+  const node = new RemoteMeshNode(init.nodeId, worker, () => worker.terminate());
+
+  worker.on('error', error => node.fail(error));
+  worker.on('exit', code => node.fail(new Error(`Mesh node ${init.nodeId} worker exited with code ${code}`)));
+
+  return node;
+}
@@ -0,0 +1,14 @@
+/**
+ * Mesh Worker - Worker thread entry point hosting one mesh node
+ *
+ * Started by spawnWorkerMeshNode with a MeshNodeInit as workerData.
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { serveMeshNode, MeshNodeInit } from './mesh-node.js';
+
+if (!parentPort) {
+  throw new Error('mesh-worker must run in a worker thread');
+}
+
+serveMeshNode(parentPort, workerData as MeshNodeInit);
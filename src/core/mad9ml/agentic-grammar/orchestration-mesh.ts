@@ -3,6 +3,11 @@
  * 
  * Provides load balancing, fault tolerance, and coordination for distributed
  * GGML tensor kernels in the agentic cognitive grammar network.
+ *
+ * Without network options the mesh simulates its nodes and their latency in
+ * this process. With them, every node is a real mesh node (a worker thread
+ * by default) that hosts and executes its kernels, heartbeats detect failed
+ * nodes, and migration moves kernel weights and state between nodes.
  */
 
 import { 
@@ -10,11 +15,29 @@ import {
   GgmlKernel, 
   TensorMessage, 
   DistributedAttentionState,
-  AgenticGrammarConfig 
+  AgenticGrammarConfig,
+  KernelExecutionResult
 } from './types.js';
 import { CognitiveKernelRegistry } from './kernel-registry.js';
 import { Tensor } from '../types.js';
 import { makeTensor, randomTensor } from '../tensor/operations.js';
+import { MeshNodeLink, MeshNodeSpawner, MeshHeartbeat, spawnWorkerMeshNode } from './mesh-node.js';
+
+/**
+ * Options for backing mesh nodes with real node processes
+ */
+export interface MeshNetworkOptions {
+  /** Starts a node; defaults to a worker thread per node */
+  spawn: MeshNodeSpawner;
+  /** Milliseconds between node heartbeats */
+  heartbeatInterval: number;
+  /** Milliseconds without a heartbeat after which a node is declared failed */
+  heartbeatTimeout: number;
+  /** Milliseconds a starting node may take to send its first heartbeat */
+  startupTimeout: number;
+  /** Base seed for the weights nodes initialize; node i uses seed + i */
+  seed?: number;
+}
 
 /**
  * Node in the distributed mesh
@@ -25,7 +48,10 @@ interface MeshNode {
   load: number;
   capacity: number;
   kernels: string[];
-  lastHeartbeat: number;
+  /** When the node was started */
+  startedAt: number;
+  /** When the node last sent a heartbeat; null until a networked node sends its first */
+  lastHeartbeat: number | null;
   location: {
     cluster: string;
     region: string;
@@ -35,6 +61,8 @@ interface MeshNode {
     throughput: number;
     errorRate: number;
   };
+  /** Connection to the node process, when the mesh is networked */
+  link?: MeshNodeLink;
 }
 
 /**
@@ -56,12 +84,27 @@ export class DistributedOrchestrationMesh {
   private messageReliability: MessageReliabilityManager;
   private healthMonitor: HealthMonitor;
   private config: AgenticGrammarConfig;
+  private network: MeshNetworkOptions | null;
 
-  constructor(kernelRegistry: CognitiveKernelRegistry, config: AgenticGrammarConfig) {
+  constructor(kernelRegistry: CognitiveKernelRegistry, config: AgenticGrammarConfig, network?: Partial<MeshNetworkOptions>) {
     this.kernelRegistry = kernelRegistry;
     this.config = config;
+    this.network = network ? {
+      spawn: spawnWorkerMeshNode,
+      heartbeatInterval: 1000,
+      heartbeatTimeout: 5000,
+      startupTimeout: 30000,
+      ...network
+    } : null;
     this.messageReliability = new MessageReliabilityManager();
-    this.healthMonitor = new HealthMonitor();
+    this.healthMonitor = this.network
+      ? new HealthMonitor(
+          this.network.heartbeatInterval,
+          this.network.heartbeatTimeout,
+          this.network.startupTimeout,
+          nodeId => this.handleNodeFailure(nodeId)
+        )
+      : new HealthMonitor();
     
     console.log('🌐 Initializing Distributed Orchestration Mesh...');
     this.initializeMesh();
@@ -95,14 +138,15 @@ export class DistributedOrchestrationMesh {
       { id: 'node_action', cluster: 'action', region: 'edge', capacity: 70 }
     ];
 
-    for (const config of nodeConfigs) {
+    nodeConfigs.forEach((config, index) => {
       const node: MeshNode = {
         id: config.id,
         status: 'active',
         load: 0,
         capacity: config.capacity,
         kernels: [],
-        lastHeartbeat: Date.now(),
+        startedAt: Date.now(),
+        lastHeartbeat: this.network ? null : Date.now(),
         location: {
           cluster: config.cluster,
           region: config.region
@@ -114,8 +158,27 @@ export class DistributedOrchestrationMesh {
         }
       };
 
+      if (this.network) {
+        node.link = this.network.spawn({
+          nodeId: config.id,
+          heartbeatInterval: this.network.heartbeatInterval,
+          seed: this.network.seed === undefined ? undefined : this.network.seed + index
+        });
+        node.link.onHeartbeat(heartbeat => this.recordHeartbeat(heartbeat));
+      }
+
       this.nodes.set(config.id, node);
       this.loadBalancers.set(config.id, new LoadBalancer(config.id, this.config.distribution.loadBalancingStrategy));
+    });
+  }
+
+  /**
+   * Marks a node alive on receipt of its heartbeat
+   */
+  private recordHeartbeat(heartbeat: MeshHeartbeat): void {
+    const node = this.nodes.get(heartbeat.nodeId);
+    if (node && node.status !== 'failed') {
+      node.lastHeartbeat = Date.now();
     }
   }
 
@@ -143,16 +206,17 @@ export class DistributedOrchestrationMesh {
   }
 
   /**
-   * Deploys a kernel to the mesh
+   * Deploys a kernel to the mesh, resolving the hosting node's ID once the
+   * node has the kernel
    */
-  deployKernel(kernel: GgmlKernel, targetCluster?: string): string {
+  async deployKernel(kernel: GgmlKernel, targetCluster?: string): Promise<string> {
     const bestNode = this.selectOptimalNode(kernel, targetCluster);
     
     if (!bestNode) {
       throw new Error('No suitable node found for kernel deployment');
     }
 
-    // Deploy kernel to node
+    // Book the kernel before shipping it, so concurrent deployments see the load
     bestNode.kernels.push(kernel.id);
     bestNode.load += kernel.metadata.resourceCost;
     
@@ -162,6 +226,20 @@ export class DistributedOrchestrationMesh {
       loadBalancer.addKernel(kernel.id, kernel.metadata.resourceCost);
     }
 
+    // Ship the kernel to the node; the registry keeps the weights it initializes
+    if (bestNode.link) {
+      try {
+        const weights = await bestNode.link.deploy(kernel);
+        kernel.weights = kernel.weights ?? weights;
+      } catch (error) {
+        // Release the booking, unless a node failure already handed the kernel on
+        if (bestNode.kernels.includes(kernel.id)) {
+          this.releaseKernel(bestNode, kernel);
+        }
+        throw error;
+      }
+    }
+
     console.log(`🚀 Deployed kernel ${kernel.name} to node ${bestNode.id}`);
     return bestNode.id;
   }
@@ -258,10 +336,30 @@ export class DistributedOrchestrationMesh {
     return null;
   }
 
+  /**
+   * Executes a message on the node hosting its target kernel (networked mesh only)
+   */
+  async executeMessage(message: TensorMessage): Promise<KernelExecutionResult> {
+    const node = this.findNodeByKernel(message.targetKernelId);
+    if (!node?.link) {
+      throw new Error(`Kernel ${message.targetKernelId} is not deployed on a networked node`);
+    }
+    return await this.executeOnNode(node, message);
+  }
+
   /**
    * Delivers message along path
    */
   private async deliverMessage(message: TensorMessage, path: string[]): Promise<void> {
+    const targetNode = this.nodes.get(path[path.length - 1]);
+    if (targetNode?.link) {
+      const result = await this.executeOnNode(targetNode, message);
+      if (result.error) {
+        throw new Error(result.error);
+      }
+      return;
+    }
+
     for (let i = 0; i < path.length - 1; i++) {
       const currentNode = path[i];
       const nextNode = path[i + 1];
@@ -277,6 +375,44 @@ export class DistributedOrchestrationMesh {
     this.kernelRegistry.routeTensorMessage(message);
   }
 
+  /**
+   * Runs a message's target kernel on a node and records the measured latency.
+   * The registry's copy of the kernel takes the state the node returns, so
+   * the kernel can be restored elsewhere if the node fails.
+   */
+  private async executeOnNode(node: MeshNode, message: TensorMessage): Promise<KernelExecutionResult> {
+    const kernel = this.kernelRegistry.getKernel(message.targetKernelId);
+    const port = kernel?.inputPorts.find(candidate =>
+      candidate.name === message.targetPort || candidate.id === message.targetPort
+    );
+    const alpha = 0.1;
+    const start = performance.now();
+
+    try {
+      const execution = await node.link!.execute(message.targetKernelId, { [port?.name ?? message.targetPort]: message.tensor });
+      const latency = performance.now() - start;
+      if (kernel) {
+        kernel.state = execution.state;
+      }
+
+      node.performance.throughput++;
+      node.performance.latency = alpha * latency + (1 - alpha) * node.performance.latency;
+      node.performance.errorRate = (1 - alpha) * node.performance.errorRate;
+      this.kernelRegistry.recordExecution(message.targetKernelId, execution.latency, true);
+      return { kernelId: message.targetKernelId, outputs: execution.outputs, latency };
+    } catch (error) {
+      const latency = performance.now() - start;
+      node.performance.errorRate = alpha + (1 - alpha) * node.performance.errorRate;
+      this.kernelRegistry.recordExecution(message.targetKernelId, latency, false);
+      return {
+        kernelId: message.targetKernelId,
+        outputs: {},
+        latency,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
   /**
    * Simulates network latency between nodes
    */
@@ -322,15 +458,23 @@ export class DistributedOrchestrationMesh {
   /**
    * Handles node failure
    */
-  handleNodeFailure(nodeId: string): void {
+  async handleNodeFailure(nodeId: string): Promise<void> {
     const node = this.nodes.get(nodeId);
     if (!node) return;
 
     console.log(`🚨 Node failure detected: ${nodeId}`);
     node.status = 'failed';
 
+    // Cut off the node; its kernels are restored from the registry's copies
+    if (node.link) {
+      const link = node.link;
+      node.link = undefined;
+      link.fail(new Error(`Mesh node ${nodeId} failed`));
+      link.close().catch(error => console.error(`❌ Failed to release node ${nodeId}:`, error));
+    }
+
     // Redistribute kernels
-    this.redistributeKernels(node);
+    await this.redistributeKernels(node);
 
     // Update routing table
     this.updateRoutingForFailedNode(nodeId);
@@ -339,20 +483,27 @@ export class DistributedOrchestrationMesh {
   /**
    * Redistributes kernels from failed node
    */
-  private redistributeKernels(failedNode: MeshNode): void {
+  private async redistributeKernels(failedNode: MeshNode): Promise<void> {
     const kernelsToRedistribute = [...failedNode.kernels];
     failedNode.kernels = [];
     failedNode.load = 0;
 
     for (const kernelId of kernelsToRedistribute) {
-      const kernel = this.kernelRegistry.getKernel(kernelId);
-      if (kernel) {
-        try {
-          this.deployKernel(kernel);
-          console.log(`♻️ Redistributed kernel ${kernelId}`);
-        } catch (error) {
-          console.error(`❌ Failed to redistribute kernel ${kernelId}:`, error);
-        }
+      await this.redeployKernel(kernelId);
+    }
+  }
+
+  /**
+   * Deploys a kernel that lost its node on any node that takes it
+   */
+  private async redeployKernel(kernelId: string): Promise<void> {
+    const kernel = this.kernelRegistry.getKernel(kernelId);
+    if (kernel) {
+      try {
+        await this.deployKernel(kernel);
+        console.log(`♻️ Redistributed kernel ${kernelId}`);
+      } catch (error) {
+        console.error(`❌ Failed to redistribute kernel ${kernelId}:`, error);
       }
     }
   }
@@ -381,7 +532,7 @@ export class DistributedOrchestrationMesh {
   /**
    * Performs load balancing across nodes
    */
-  balanceLoad(): void {
+  async balanceLoad(): Promise<void> {
     console.log('⚖️ Performing load balancing...');
     
     const activeNodes = Array.from(this.nodes.values())
@@ -401,31 +552,102 @@ export class DistributedOrchestrationMesh {
       );
       
       if (underloadedNode) {
-        this.migrateKernels(overloadedNode, underloadedNode, Math.floor(overloadedNode.kernels.length * 0.2));
+        await this.migrateKernels(overloadedNode, underloadedNode, Math.floor(overloadedNode.kernels.length * 0.2));
       }
     }
   }
 
+  /**
+   * Moves one kernel, with its weights and state, to another node
+   */
+  async migrateKernel(kernelId: string, targetNodeId: string): Promise<void> {
+    const sourceNode = this.findNodeByKernel(kernelId);
+    const targetNode = this.nodes.get(targetNodeId);
+    if (!sourceNode) {
+      throw new Error(`Kernel ${kernelId} is not deployed`);
+    }
+    if (!targetNode || targetNode.status === 'failed') {
+      throw new Error(`Node ${targetNodeId} is not available`);
+    }
+    if (sourceNode !== targetNode && !(await this.moveKernel(kernelId, sourceNode, targetNode))) {
+      throw new Error(`Node ${targetNodeId} lacks capacity for kernel ${kernelId}`);
+    }
+  }
+
   /**
    * Migrates kernels between nodes
    */
-  private migrateKernels(sourceNode: MeshNode, targetNode: MeshNode, count: number): void {
+  private async migrateKernels(sourceNode: MeshNode, targetNode: MeshNode, count: number): Promise<void> {
     const kernelsToMigrate = sourceNode.kernels.slice(0, count);
     
     for (const kernelId of kernelsToMigrate) {
-      const kernel = this.kernelRegistry.getKernel(kernelId);
-      if (kernel && targetNode.capacity - targetNode.load >= kernel.metadata.resourceCost) {
-        // Remove from source
-        sourceNode.kernels = sourceNode.kernels.filter(id => id !== kernelId);
-        sourceNode.load -= kernel.metadata.resourceCost;
-        
-        // Add to target
-        targetNode.kernels.push(kernelId);
-        targetNode.load += kernel.metadata.resourceCost;
-        
-        console.log(`🔄 Migrated kernel ${kernelId} from ${sourceNode.id} to ${targetNode.id}`);
+      await this.moveKernel(kernelId, sourceNode, targetNode);
+    }
+  }
+
+  /**
+   * Moves a kernel between nodes if the target has capacity for it
+   */
+  private async moveKernel(kernelId: string, sourceNode: MeshNode, targetNode: MeshNode): Promise<boolean> {
+    const kernel = this.kernelRegistry.getKernel(kernelId);
+    if (!kernel || targetNode.capacity - targetNode.load < kernel.metadata.resourceCost) {
+      return false;
+    }
+
+    // Move the live kernel so its current weights and state go with it
+    if (sourceNode.link && targetNode.link) {
+      const moved = await sourceNode.link.undeploy(kernelId);
+      kernel.weights = moved.weights;
+      kernel.state = moved.state;
+      try {
+        await targetNode.link.deploy(kernel);
+      } catch (error) {
+        await this.returnKernel(kernel, sourceNode);
+        throw error;
       }
     }
+
+    // Remove from source
+    this.releaseKernel(sourceNode, kernel);
+    
+    // Add to target
+    targetNode.kernels.push(kernelId);
+    targetNode.load += kernel.metadata.resourceCost;
+    this.loadBalancers.get(targetNode.id)?.addKernel(kernelId, kernel.metadata.resourceCost);
+    
+    console.log(`🔄 Migrated kernel ${kernelId} from ${sourceNode.id} to ${targetNode.id}`);
+    return true;
+  }
+
+  /**
+   * Redeploys a kernel whose move failed on its source node, or on any node
+   * that takes it when the source cannot
+   */
+  private async returnKernel(kernel: GgmlKernel, sourceNode: MeshNode): Promise<void> {
+    // A failure of the source node has already handed the kernel on
+    if (!sourceNode.kernels.includes(kernel.id)) return;
+
+    try {
+      if (!sourceNode.link) {
+        throw new Error(`Node ${sourceNode.id} is not connected`);
+      }
+      await sourceNode.link.deploy(kernel);
+    } catch (error) {
+      console.error(`❌ Failed to return kernel ${kernel.id} to node ${sourceNode.id}:`, error);
+      if (sourceNode.kernels.includes(kernel.id)) {
+        this.releaseKernel(sourceNode, kernel);
+        await this.redeployKernel(kernel.id);
+      }
+    }
+  }
+
+  /**
+   * Removes a kernel from a node's bookkeeping
+   */
+  private releaseKernel(node: MeshNode, kernel: GgmlKernel): void {
+    node.kernels = node.kernels.filter(id => id !== kernel.id);
+    node.load -= kernel.metadata.resourceCost;
+    this.loadBalancers.get(node.id)?.removeKernel(kernel.id);
   }
 
   /**
@@ -479,6 +701,19 @@ export class DistributedOrchestrationMesh {
   getRoutingTable(): Map<string, RoutingEntry> {
     return new Map(this.routingTable);
   }
+
+  /**
+   * Stops health monitoring and closes all node processes
+   */
+  async shutdown(): Promise<void> {
+    this.healthMonitor.stopMonitoring();
+
+    const links = Array.from(this.nodes.values())
+      .map(node => node.link)
+      .filter((link): link is MeshNodeLink => !!link);
+    this.nodes.forEach(node => { node.link = undefined; });
+    await Promise.all(links.map(link => link.close()));
+  }
 }
 
 /**
@@ -561,11 +796,31 @@ class MessageReliabilityManager {
 class HealthMonitor {
   private monitoringInterval: NodeJS.Timeout | null = null;
   private healthThreshold: number = 0.8;
+  private checkInterval: number;
+  private heartbeatTimeout: number;
+  private startupTimeout: number;
+  private onFailure?: (nodeId: string) => void;
+
+  /**
+   * @param startupTimeout Time allowed for a node's first heartbeat
+   * @param onFailure Handles nodes whose heartbeat expired; they are only marked failed otherwise
+   */
+  constructor(
+    checkInterval: number = 5000,
+    heartbeatTimeout: number = 30000,
+    startupTimeout: number = heartbeatTimeout,
+    onFailure?: (nodeId: string) => void
+  ) {
+    this.checkInterval = checkInterval;
+    this.heartbeatTimeout = heartbeatTimeout;
+    this.startupTimeout = startupTimeout;
+    this.onFailure = onFailure;
+  }
 
   startMonitoring(nodes: Map<string, MeshNode>): void {
     this.monitoringInterval = setInterval(() => {
       this.checkNodeHealth(nodes);
-    }, 5000); // Check every 5 seconds
+    }, this.checkInterval);
   }
 
   stopMonitoring(): void {
@@ -579,18 +834,22 @@ class HealthMonitor {
     const now = Date.now();
     
     for (const [nodeId, node] of nodes.entries()) {
-      if (node.status === 'active') {
-        // Check heartbeat
-        const timeSinceHeartbeat = now - node.lastHeartbeat;
-        if (timeSinceHeartbeat > 30000) { // 30 seconds
-          node.status = 'failed';
+      if (node.status !== 'failed') {
+        // Check heartbeat, allowing a starting node time to load
+        const silentFor = now - (node.lastHeartbeat ?? node.startedAt);
+        if (silentFor > (node.lastHeartbeat === null ? this.startupTimeout : this.heartbeatTimeout)) {
           console.log(`💔 Node ${nodeId} failed heartbeat check`);
+          if (this.onFailure) {
+            this.onFailure(nodeId);
+          } else {
+            node.status = 'failed';
+          }
           continue;
         }
 
         // Check performance
         const healthScore = this.calculateHealthScore(node);
-        if (healthScore < this.healthThreshold) {
+        if (node.status === 'active' && healthScore < this.healthThreshold) {
           node.status = 'degraded';
           console.log(`⚠️ Node ${nodeId} performance degraded (score: ${healthScore.toFixed(2)})`);
         }
@@ -75,6 +75,10 @@ export interface GgmlKernel {
   kernelCode: string;
   inputPorts: KernelPort[];
   outputPorts: KernelPort[];
+  /** Trained weights, persisted with encodeKernelWeights() */
+  weights?: Tensor;
+  /** State a memory kernel carries between executions */
+  state?: Tensor;
   metadata: {
     complexity: number;
     resourceCost: number;
@@ -131,6 +135,41 @@ export interface TensorMessage {
   timestamp: number;
 }
 
+/**
+ * Compiled compute function of a kernel; tensors are keyed by port name
+ */
+export type KernelComputeFunction = (inputs: Record<string, Tensor>) => Record<string, Tensor>;
+
+/**
+ * Connection from an output port of one kernel to an input port of another
+ */
+export interface KernelEdge {
+  sourceKernelId: string;
+  sourcePort: string;
+  targetKernelId: string;
+  targetPort: string;
+}
+
+/**
+ * Outcome of one kernel execution; latency is in milliseconds
+ */
+export interface KernelExecutionResult {
+  kernelId: string;
+  outputs: Record<string, Tensor>;
+  latency: number;
+  error?: string;
+}
+
+/**
+ * Outcome of executing a kernel graph
+ */
+export interface KernelExecutionReport {
+  results: KernelExecutionResult[];
+  /** Kernels that received no input because an upstream kernel failed or is on a cycle */
+  skipped: string[];
+  totalLatency: number;
+}
+
 /**
  * Cognitive kernel cluster for distributed processing
  */
@@ -176,6 +215,11 @@ export interface AgenticGrammarConfig {
     fileExtensions: string[];
     excludePatterns: string[];
     maxFileSize: number;
+    /**
+     * 'regex' scans lines for keywords; 'ast' resolves symbols, calls and
+     * state access with the TypeScript compiler. Defaults to 'regex'.
+     */
+    mode?: 'regex' | 'ast';
   };
   tensorization: {
     defaultPrecision: 'f32' | 'f16' | 'i32';
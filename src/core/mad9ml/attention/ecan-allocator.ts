@@ -6,7 +6,7 @@
  * cognitive resources efficiently.
  */
 
-import { AttentionParams, TaskTensor, Tensor, CognitiveHypergraph } from '../types.js';
+import { AttentionParams, TaskTensor, Tensor, TensorState, CognitiveHypergraph } from '../types.js';
 import { 
   makeTensor, 
   addTensors, 
@@ -16,6 +16,7 @@ import {
   cloneTensor,
   norm
 } from '../tensor/operations.js';
+import { GradientTape, Variable, Optimizer, SGDOptimizer, minimize } from '../tensor/autodiff.js';
 
 /**
  * Attention allocation state for cognitive resources
@@ -28,6 +29,38 @@ export interface AttentionState {
   resourceBudget: number;       // Total available attention resources
 }
 
+/**
+ * Attention allocation strategies, each weighting the importance measures differently
+ */
+export type AttentionStrategy = 'balanced' | 'short_term' | 'long_term' | 'urgency';
+
+/**
+ * Persistable allocator state, as produced by ECANAttentionAllocator.exportState()
+ */
+export interface AttentionAllocatorState {
+  shortTermImportance: TensorState;
+  longTermImportance: TensorState;
+  urgency: TensorState;
+  currentAllocation: TensorState;
+  resourceBudget: number;
+  strategy: AttentionStrategy;
+  /** Trained STI / LTI / urgency weights; the strategy's weights when absent */
+  importanceWeights?: number[];
+  allocationStep: number;
+  performanceMetrics: Array<[number, number]>;
+  allocationHistory: TensorState[];
+}
+
+/**
+ * STI / LTI / urgency weights per strategy
+ */
+const STRATEGY_WEIGHTS: Record<AttentionStrategy, { sti: number; lti: number; urgency: number }> = {
+  balanced: { sti: 0.5, lti: 0.3, urgency: 0.2 },
+  short_term: { sti: 0.7, lti: 0.2, urgency: 0.1 },
+  long_term: { sti: 0.3, lti: 0.55, urgency: 0.15 },
+  urgency: { sti: 0.3, lti: 0.2, urgency: 0.5 }
+};
+
 /**
  * ECAN-inspired attention allocation system
  */
@@ -36,6 +69,9 @@ export class ECANAttentionAllocator {
   private attentionState: AttentionState | null = null;
   private allocationHistory: Tensor[] = [];
   private performanceMetrics: Map<number, number> = new Map(); // task_id -> performance
+  private strategy: AttentionStrategy = 'balanced';
+  private importanceWeights: Tensor = strategyWeights('balanced');
+  private allocationStep: number = 0;
 
   constructor(params: AttentionParams) {
     this.params = params;
@@ -56,6 +92,53 @@ export class ECANAttentionAllocator {
     return this.attentionState;
   }
 
+  /**
+   * Switches the attention allocation strategy, replacing any trained weights
+   */
+  setStrategy(strategy: AttentionStrategy): void {
+    if (!(strategy in STRATEGY_WEIGHTS)) {
+      throw new Error(`Unknown attention strategy: ${strategy}`);
+    }
+    this.strategy = strategy;
+    this.importanceWeights = strategyWeights(strategy);
+  }
+
+  /**
+   * Gets the current attention allocation strategy
+   */
+  getStrategy(): AttentionStrategy {
+    return this.strategy;
+  }
+
+  /**
+   * Gets the STI / LTI / urgency weights the allocation combines importance with
+   */
+  getImportanceWeights(): Tensor {
+    return cloneTensor(this.importanceWeights);
+  }
+
+  /**
+   * Trains the STI / LTI / urgency weights by gradient descent. The loss is
+   * built with the tape from the allocation the weights produce for the
+   * current importance values; returns the loss before each step.
+   */
+  trainImportanceWeights(
+    loss: (tape: GradientTape, allocation: Variable, weights: Variable) => Variable,
+    optimizer: Optimizer = new SGDOptimizer(0.1),
+    steps: number = 1
+  ): number[] {
+    if (!this.attentionState) {
+      throw new Error('Attention state not initialized');
+    }
+
+    return minimize(
+      [this.importanceWeights],
+      (tape, [weights]) => loss(tape, this.recordAllocation(tape, weights), weights),
+      optimizer,
+      steps
+    );
+  }
+
   /**
    * Updates attention allocation based on task dynamics and performance
    */
@@ -68,6 +151,8 @@ export class ECANAttentionAllocator {
       throw new Error('Attention state not initialized');
     }
 
+    this.allocationStep++;
+
     // Update performance metrics
     performanceFeedback.forEach((perf, idx) => {
       this.performanceMetrics.set(idx, perf);
@@ -162,8 +247,8 @@ export class ECANAttentionAllocator {
       // Urgency increases with attention demands and time pressure
       const attentionDemand = attentionData[i % attentionData.length];
       
-      // Simulate time pressure (could be enhanced with actual deadlines)
-      const timePressure = Math.sin(Date.now() / 10000 + i) * 0.5 + 0.5;
+      // Simulate time pressure over allocation steps (could be enhanced with actual deadlines)
+      const timePressure = Math.sin(this.allocationStep / 10 + i) * 0.5 + 0.5;
       
       urgencyData[i] = attentionDemand * 0.7 + timePressure * 0.3;
     }
@@ -181,13 +266,14 @@ export class ECANAttentionAllocator {
     const stiData = state.shortTermImportance.data as Float32Array;
     const ltiData = state.longTermImportance.data as Float32Array;
     const urgencyData = state.urgency.data as Float32Array;
+    const [stiWeight, ltiWeight, urgencyWeight] = Array.from(this.importanceWeights.data);
     
     for (let i = 0; i < numTasks; i++) {
       // Weighted combination of importance factors
       combinedImportance[i] = 
-        stiData[i] * 0.5 +           // Short-term importance
-        ltiData[i] * 0.3 +           // Long-term importance  
-        urgencyData[i] * 0.2;        // Urgency
+        stiData[i] * stiWeight +             // Short-term importance
+        ltiData[i] * ltiWeight +             // Long-term importance  
+        urgencyData[i] * urgencyWeight;      // Urgency
       
       // Apply threshold - tasks below threshold get minimal attention
       if (combinedImportance[i] < this.params.thresholds.selection) {
@@ -235,6 +321,49 @@ export class ECANAttentionAllocator {
     return makeTensor(allocation.shape, spread);
   }
 
+  /**
+   * Records calculateAttentionAllocation() followed by spreadAttention() on
+   * the tape. The selection threshold and the neighbour spreading enter as
+   * constants, so gradients flow to the weights only.
+   */
+  private recordAllocation(tape: GradientTape, weights: Variable): Variable {
+    const state = this.attentionState!;
+    const numTasks = state.shortTermImportance.size;
+    const stiData = state.shortTermImportance.data;
+    const ltiData = state.longTermImportance.data;
+    const urgencyData = state.urgency.data;
+
+    // One row of [STI, LTI, urgency] per task
+    const importance = new Float32Array(numTasks * 3);
+    for (let i = 0; i < numTasks; i++) {
+      importance.set([stiData[i], ltiData[i], urgencyData[i]], i * 3);
+    }
+    const combined = tape.reshape(
+      tape.matmul(tape.constant(makeTensor([numTasks, 3], importance)), tape.reshape(weights, [3, 1])),
+      [numTasks]
+    );
+
+    const thresholdScale = Float32Array.from(combined.value.data, value =>
+      value < this.params.thresholds.selection ? 0.1 : 1
+    );
+    const allocation = tape.softmax(tape.mul(combined, tape.constant(makeTensor([numTasks], thresholdScale))));
+
+    // Spreading is linear: each task keeps what it does not pass to its two neighbours
+    const share = this.params.spreadingFactor * 0.1;
+    const spreading = new Float32Array(numTasks * numTasks);
+    for (let i = 0; i < numTasks; i++) {
+      spreading[i * numTasks + i] += 1 - 2 * share;
+      spreading[((i - 1 + numTasks) % numTasks) * numTasks + i] += share;
+      spreading[((i + 1) % numTasks) * numTasks + i] += share;
+    }
+    const spread = tape.reshape(
+      tape.matmul(tape.constant(makeTensor([numTasks, numTasks], spreading)), tape.reshape(allocation, [numTasks, 1])),
+      [numTasks]
+    );
+
+    return tape.div(spread, tape.sum(spread));
+  }
+
   /**
    * Applies decay to attention values over time
    */
@@ -380,7 +509,7 @@ export class ECANAttentionAllocator {
   /**
    * Exports attention state for persistence
    */
-  exportState(): any {
+  exportState(): AttentionAllocatorState | null {
     if (!this.attentionState) return null;
     
     const state = this.attentionState;
@@ -403,6 +532,9 @@ export class ECANAttentionAllocator {
         data: Array.from(state.currentAllocation.data)
       },
       resourceBudget: state.resourceBudget,
+      strategy: this.strategy,
+      importanceWeights: Array.from(this.importanceWeights.data),
+      allocationStep: this.allocationStep,
       performanceMetrics: Array.from(this.performanceMetrics.entries()),
       allocationHistory: this.allocationHistory.map(tensor => ({
         shape: tensor.shape,
@@ -414,7 +546,7 @@ export class ECANAttentionAllocator {
   /**
    * Imports attention state from persistence
    */
-  importState(data: any): void {
+  importState(data: AttentionAllocatorState): void {
     this.attentionState = {
       shortTermImportance: makeTensor(data.shortTermImportance.shape, new Float32Array(data.shortTermImportance.data)),
       longTermImportance: makeTensor(data.longTermImportance.shape, new Float32Array(data.longTermImportance.data)),
@@ -423,10 +555,22 @@ export class ECANAttentionAllocator {
       resourceBudget: data.resourceBudget
     };
     
+    this.strategy = data.strategy || 'balanced';
+    this.importanceWeights = data.importanceWeights
+      ? makeTensor([3], new Float32Array(data.importanceWeights))
+      : strategyWeights(this.strategy);
+    this.allocationStep = data.allocationStep || 0;
     this.performanceMetrics = new Map(data.performanceMetrics);
     
-    this.allocationHistory = data.allocationHistory.map((tensorData: any) =>
+    this.allocationHistory = data.allocationHistory.map(tensorData =>
       makeTensor(tensorData.shape, new Float32Array(tensorData.data))
     );
   }
-}
\ No newline at end of file
+}
+/**
+ * A strategy's weights as a trainable [STI, LTI, urgency] tensor
+ */
+function strategyWeights(strategy: AttentionStrategy): Tensor {
+  const weights = STRATEGY_WEIGHTS[strategy];
+  return makeTensor([3], [weights.sti, weights.lti, weights.urgency]);
+}
@@ -0,0 +1,217 @@
+/**
+ * Channel RPC - Typed method calls over structured-clone channels
+ *
+ * A ChannelClient calls methods by name on the other side of a channel and
+ * serveChannel answers them. Requests and responses are tagged frames, so a
+ * channel can carry other traffic (heartbeats, handshakes) alongside them and
+ * each side may be a client and a server at once. Methods are described by a
+ * map from method name to its argument tuple and result, which types both the
+ * calls and the requests a server receives.
+ */
+
+/**
+ * Structured-clone channel such as a Worker, `parentPort` or a MessagePort
+ */
+export interface StructuredCloneChannel {
+  postMessage(value: unknown): void;
+  on(event: 'message', listener: (value: unknown) => void): unknown;
+  off(event: 'message', listener: (value: unknown) => void): unknown;
+}
+
+/**
+ * Argument tuple and result of each method served over a channel
+ */
+export type ChannelMethods<T> = {
+  [M in keyof T]: { args: unknown[]; result: unknown };
+};
+
+/**
+ * Call of one method with that method's arguments
+ */
+export type ChannelRequest<T extends ChannelMethods<T>> = {
+  [M in keyof T & string]: { type: 'request'; requestId: number; method: M; args: T[M]['args'] };
+}[keyof T & string];
+
+/**
+ * Result of any method of a method map
+ */
+export type ChannelResult<T extends ChannelMethods<T>> = T[keyof T]['result'];
+
+interface ChannelResponse {
+  type: 'response';
+  requestId: number;
+  result?: unknown;
+  error?: string;
+}
+
+interface PendingChannelCall {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Channel client options
+ */
+export interface ChannelClientOptions {
+  /** Receives every frame that is not a response to this client */
+  onMessage?: (value: unknown) => void;
+  /** Rejects calls not answered within this many milliseconds */
+  timeoutMs?: number;
+}
+
+/**
+ * Calls methods served on the other side of a channel (see serveChannel)
+ */
+export class ChannelClient<T extends ChannelMethods<T>> {
+  private channel: StructuredCloneChannel;
+  private options: ChannelClientOptions;
+  private pending: Map<number, PendingChannelCall> = new Map();
+  private nextRequestId: number = 1;
+  private failure: Error | null = null;
+  private listener: (value: unknown) => void;
+
+  constructor(channel: StructuredCloneChannel, options: ChannelClientOptions = {}) {
+    this.channel = channel;
+    this.options = options;
+    this.listener = value => {
+      if (isResponse(value)) {
+        this.settle(value);
+      } else {
+        this.options.onMessage?.(value);
+      }
+    };
+    this.channel.on('message', this.listener);
+  }
+
+  /**
+   * Calls a method; rejects with the error the server reports, on timeout,
+   * when the request cannot be posted or once the client has failed
+   */
+  call<M extends keyof T & string>(method: M, ...args: T[M]['args']): Promise<T[M]['result']> {
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    const requestId = this.nextRequestId++;
+    return new Promise<T[M]['result']>((resolve, reject) => {
+      const call: PendingChannelCall = { resolve, reject };
+      if (this.options.timeoutMs !== undefined) {
+        call.timer = setTimeout(
+          () => this.reject(requestId, new Error(`${method} timed out after ${this.options.timeoutMs} ms`)),
+          this.options.timeoutMs
+        );
+      }
+      this.pending.set(requestId, call);
+
+      try {
+        this.channel.postMessage({ type: 'request', requestId, method, args });
+      } catch (error) {
+        this.reject(requestId, error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  /**
+   * Rejects pending and future calls, e.g. when the worker crashes
+   */
+  fail(error: Error): void {
+    this.failure = error;
+    for (const requestId of Array.from(this.pending.keys())) {
+      this.reject(requestId, error);
+    }
+  }
+
+  /**
+   * Error the client failed with, or null
+   */
+  getFailure(): Error | null {
+    return this.failure;
+  }
+
+  /**
+   * Stops listening to the channel
+   */
+  detach(): void {
+    this.channel.off('message', this.listener);
+  }
+
+  // Private methods
+
+  private settle(response: ChannelResponse): void {
+    if (response.error !== undefined) {
+      this.reject(response.requestId, new Error(response.error));
+      return;
+    }
+
+    const call = this.take(response.requestId);
+    call?.resolve(response.result);
+  }
+
+  private reject(requestId: number, error: Error): void {
+    this.take(requestId)?.reject(error);
+  }
+
+  private take(requestId: number): PendingChannelCall | undefined {
+    const call = this.pending.get(requestId);
+    if (call) {
+      clearTimeout(call.timer);
+      this.pending.delete(requestId);
+    }
+    return call;
+  }
+}
+
+/**
+ * Channel server options
+ */
+export interface ServeChannelOptions {
+  /** Handle requests one at a time in arrival order instead of as they arrive */
+  sequential?: boolean;
+}
+
+/**
+ * Answers requests arriving on a channel with the handler's results; a thrown
+ * error is sent back as the call's rejection. Returns a function that stops
+ * serving; requests already being handled are still answered.
+ */
+export function serveChannel<T extends ChannelMethods<T>>(
+  channel: StructuredCloneChannel,
+  handle: (request: ChannelRequest<T>) => ChannelResult<T> | Promise<ChannelResult<T>>,
+  options: ServeChannelOptions = {}
+): () => void {
+  let queue: Promise<void> = Promise.resolve();
+
+  const answer = async (request: ChannelRequest<T>) => {
+    let response: ChannelResponse;
+    try {
+      response = { type: 'response', requestId: request.requestId, result: await handle(request) };
+    } catch (error) {
+      response = { type: 'response', requestId: request.requestId, error: error instanceof Error ? error.message : String(error) };
+    }
+    channel.postMessage(response);
+  };
+
+  const listener = (value: unknown) => {
+    if (!isRequest<T>(value)) return;
+
+    if (options.sequential) {
+      queue = queue.then(() => answer(value));
+    } else {
+      void answer(value);
+    }
+  };
+
+  channel.on('message', listener);
+  return () => {
+    channel.off('message', listener);
+  };
+}
+
+function isRequest<T extends ChannelMethods<T>>(value: unknown): value is ChannelRequest<T> {
+  return !!value && typeof value === 'object' && (value as { type?: unknown }).type === 'request';
+}
+
+function isResponse(value: unknown): value is ChannelResponse {
+  return !!value && typeof value === 'object' && (value as { type?: unknown }).type === 'response';
+}
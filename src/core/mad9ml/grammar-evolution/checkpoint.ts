@@ -0,0 +1,118 @@
+/**
+ * MOSES Checkpoints - On-disk snapshots of running grammar evolutions
+ *
+ * A checkpoint is a JSON document holding every island's engine state, the
+ * pipeline configuration and the random generator state, so a resumed run
+ * continues exactly where the checkpointed one stopped. Tensor data is stored
+ * as number arrays; float32 values round-trip through JSON exactly. Non-finite
+ * numbers (e.g. boundary crowding distances) are tagged, as JSON has no
+ * literal for them.
+ *
+ * Checkpoints are written to `<directory>/checkpoint-<generation>.json` via a
+ * temporary file and a rename, so an interrupted write never replaces the
+ * previous checkpoint.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { MOSESCheckpoint } from './types.js';
+import { packTensorData } from '../persistence/snapshot.js';
+
+/**
+ * Current checkpoint format version
+ */
+export const CHECKPOINT_FORMAT_VERSION = 1;
+
+const CHECKPOINT_FILE = /^checkpoint-(\d+)\.json$/;
+
+/**
+ * Serializes a checkpoint to JSON
+ */
+export function encodeCheckpoint(checkpoint: MOSESCheckpoint): string {
+  return JSON.stringify({ format: 'moses-checkpoint', ...checkpoint }, (_key, value) => {
+    // isView rather than instanceof: arrays from structuredClone may come from another realm
+    if (ArrayBuffer.isView(value)) return Array.from(value as Float32Array);
+    if (typeof value === 'number' && !Number.isFinite(value)) return { $number: String(value) };
+    return value;
+  });
+}
+
+/**
+ * Parses a checkpoint, rejecting foreign documents and unsupported versions
+ */
+export function decodeCheckpoint(json: string): MOSESCheckpoint {
+  let document: unknown;
+  try {
+    document = JSON.parse(json, (_key, value: unknown) =>
+      isTaggedNumber(value) ? Number(value.$number) : value
+    );
+  } catch {
+    throw new Error('Not a MOSES checkpoint');
+  }
+
+  if (!isCheckpointDocument(document)) {
+    throw new Error('Not a MOSES checkpoint');
+  }
+  if (document.version > CHECKPOINT_FORMAT_VERSION) {
+    throw new Error(`Unsupported checkpoint version ${document.version} (latest supported is ${CHECKPOINT_FORMAT_VERSION})`);
+  }
+
+  const { format, ...checkpoint } = document;
+  return packTensorData(checkpoint);
+}
+
+/**
+ * Writes a checkpoint and prunes all but the `keep` most recent; resolves the file path
+ */
+export async function writeCheckpoint(directory: string, checkpoint: MOSESCheckpoint, keep: number = 3): Promise<string> {
+  await fs.promises.mkdir(directory, { recursive: true });
+
+  const filePath = path.join(directory, `checkpoint-${String(checkpoint.generation).padStart(6, '0')}.json`);
+  const tempPath = `${filePath}.tmp`;
+  await fs.promises.writeFile(tempPath, encodeCheckpoint(checkpoint), 'utf8');
+  await fs.promises.rename(tempPath, filePath);
+
+  const stale = (await listCheckpoints(directory)).slice(0, -Math.max(1, keep));
+  await Promise.all(stale.map(file => fs.promises.rm(file, { force: true })));
+
+  return filePath;
+}
+
+/**
+ * Reads a checkpoint file, or the most recent checkpoint in a directory
+ */
+export async function readCheckpoint(checkpointPath: string): Promise<MOSESCheckpoint> {
+  let filePath = checkpointPath;
+
+  if ((await fs.promises.stat(checkpointPath)).isDirectory()) {
+    const checkpoints = await listCheckpoints(checkpointPath);
+    if (checkpoints.length === 0) {
+      throw new Error(`No MOSES checkpoints found in ${checkpointPath}`);
+    }
+    filePath = checkpoints[checkpoints.length - 1];
+  }
+
+  return decodeCheckpoint(await fs.promises.readFile(filePath, 'utf8'));
+}
+
+/**
+ * Checkpoint files in a directory, oldest first
+ */
+export async function listCheckpoints(directory: string): Promise<string[]> {
+  const entries = await fs.promises.readdir(directory);
+
+  return entries
+    .filter(name => CHECKPOINT_FILE.test(name))
+    .sort((a, b) => Number(CHECKPOINT_FILE.exec(a)![1]) - Number(CHECKPOINT_FILE.exec(b)![1]))
+    .map(name => path.join(directory, name));
+}
+
+function isTaggedNumber(value: unknown): value is { $number: string } {
+  return !!value && typeof value === 'object' && typeof (value as { $number?: unknown }).$number === 'string';
+}
+
+function isCheckpointDocument(value: unknown): value is MOSESCheckpoint & { format: 'moses-checkpoint' } {
+  return !!value && typeof value === 'object' &&
+    (value as { format?: unknown }).format === 'moses-checkpoint' &&
+    typeof (value as { version?: unknown }).version === 'number';
+}
@@ -10,12 +10,15 @@ import {
   GrammarEvolutionParams, 
   GrammarFitnessMetrics,
   EvolutionStats,
+  EvolutionEngineState,
   GrammarMutation,
   GrammarCrossover
 } from './types.js';
 import { GrammarFitnessEvaluator } from './fitness-evaluator.js';
+import { ParetoArchive, crowdedCompare, selectByNonDomination } from './nsga2.js';
 import { AgenticPrimitive, AgenticPrimitiveType } from '../agentic-grammar/types.js';
 import { makeTensor, randomTensor, addTensors, scaleTensor, cloneTensor } from '../tensor/operations.js';
+import { SeededRandom } from '../random/seeded-random.js';
 
 /**
  * Core evolution engine implementing MOSES algorithm for grammar evolution
@@ -27,13 +30,25 @@ export class GrammarEvolutionEngine {
   private evolutionHistory: EvolutionStats[] = [];
   private bestGenome?: GrammarGenome;
   private paretoFront: GrammarGenome[] = [];
+  private archive: ParetoArchive;
   private mutationEffectiveness: Map<string, number> = new Map();
+  private random: SeededRandom;
+  private idCounter: number = 0;
+  private idPrefix: string;
 
+  /**
+   * @param idPrefix Prepended to genome IDs, keeping them unique across islands
+   */
   constructor(
     private params: GrammarEvolutionParams,
-    fitnessEvaluator?: GrammarFitnessEvaluator
+    fitnessEvaluator?: GrammarFitnessEvaluator,
+    random?: SeededRandom,
+    idPrefix: string = ''
   ) {
-    this.fitnessEvaluator = fitnessEvaluator || new GrammarFitnessEvaluator();
+    this.idPrefix = idPrefix;
+    this.random = random || new SeededRandom(params.seed);
+    this.fitnessEvaluator = fitnessEvaluator || new GrammarFitnessEvaluator(undefined, undefined, this.random);
+    this.archive = new ParetoArchive(params.selection.archiveSize);
   }
 
   /**
@@ -45,31 +60,35 @@ export class GrammarEvolutionEngine {
     this.evolutionHistory = [];
     this.bestGenome = undefined;
     this.paretoFront = [];
+    this.archive = new ParetoArchive(this.params.selection.archiveSize);
 
     // Generate initial population
     for (let i = 0; i < this.params.population.size; i++) {
       const genome = this.createRandomGenome(seedPrimitives, i);
-      const metrics = await this.fitnessEvaluator.evaluateFitness(genome);
-      genome.fitness = this.fitnessEvaluator.calculateAggregatedFitness(metrics);
+      await this.evaluateGenome(genome);
       this.population.push(genome);
     }
 
-    // Sort by fitness
-    this.population.sort((a, b) => b.fitness - a.fitness);
-    this.bestGenome = this.population[0];
+    this.population = this.rankedPopulation();
+    this.updateBest();
     
     // Initialize Pareto front
-    this.updateParetoFront();
+    this.updateParetoFront(this.population);
 
-    console.log(`Initialized population of ${this.population.size} genomes`);
-    console.log(`Best initial fitness: ${this.bestGenome.fitness.toFixed(4)}`);
+    console.log(`Initialized population of ${this.population.length} genomes`);
+    console.log(`Best initial fitness: ${this.bestGenome!.fitness.toFixed(4)}`);
   }
 
   /**
    * Runs the evolutionary algorithm for specified generations
+   *
+   * @param onGeneration Awaited after each generation, e.g. to write checkpoints
    */
-  async evolve(maxGenerations?: number): Promise<GrammarGenome> {
-    const generations = maxGenerations || this.params.termination.maxGenerations;
+  async evolve(
+    maxGenerations?: number,
+    onGeneration?: (stats: EvolutionStats) => void | Promise<void>
+  ): Promise<GrammarGenome> {
+    const generations = maxGenerations ?? this.params.termination.maxGenerations;
     const startTime = Date.now();
 
     for (let gen = 0; gen < generations; gen++) {
@@ -97,11 +116,16 @@ export class GrammarEvolutionEngine {
       if (this.generation % this.params.transparency?.reportInterval || 25 === 0) {
         this.reportProgress(stats);
       }
+
+      await onGeneration?.(stats);
     }
 
     const totalTime = Date.now() - startTime;
     console.log(`Evolution completed in ${totalTime}ms over ${this.generation} generations`);
     console.log(`Best fitness achieved: ${this.bestGenome?.fitness.toFixed(4)}`);
+    if (this.isMultiObjective()) {
+      console.log(`Pareto front: ${this.paretoFront.length} non-dominated genomes`);
+    }
 
     return this.bestGenome!;
   }
@@ -124,8 +148,7 @@ export class GrammarEvolutionEngine {
     // Evaluate fitness for new individuals
     for (const genome of offspring) {
       if (genome.fitness === 0) {
-        const metrics = await this.fitnessEvaluator.evaluateFitness(genome);
-        genome.fitness = this.fitnessEvaluator.calculateAggregatedFitness(metrics);
+        await this.evaluateGenome(genome);
       }
     }
     
@@ -134,7 +157,7 @@ export class GrammarEvolutionEngine {
     
     // Update best genome and Pareto front
     this.updateBest();
-    this.updateParetoFront();
+    this.updateParetoFront(combinedPop);
     
     // Maintain diversity
     if (this.generation % 5 === 0) {
@@ -180,10 +203,10 @@ export class GrammarEvolutionEngine {
     const offspring: GrammarGenome[] = [];
     
     while (offspring.length < this.params.population.size) {
-      if (Math.random() < this.params.crossover.rate && parents.length >= 2) {
+      if (this.random.next() < this.params.crossover.rate && parents.length >= 2) {
         // Crossover
-        const parentA = parents[Math.floor(Math.random() * parents.length)];
-        const parentB = parents[Math.floor(Math.random() * parents.length)];
+        const parentA = parents[this.random.nextInt(parents.length)];
+        const parentB = parents[this.random.nextInt(parents.length)];
         
         if (parentA.id !== parentB.id) {
           const crossoverOffspring = this.crossover(parentA, parentB);
@@ -191,7 +214,7 @@ export class GrammarEvolutionEngine {
         }
       } else {
         // Mutation only
-        const parent = parents[Math.floor(Math.random() * parents.length)];
+        const parent = parents[this.random.nextInt(parents.length)];
         const mutated = this.mutate(parent);
         offspring.push(mutated);
       }
@@ -208,7 +231,7 @@ export class GrammarEvolutionEngine {
     
     for (let i = 0; i < 2; i++) {
       const child: GrammarGenome = {
-        id: `gen${this.generation}_cross_${Date.now()}_${i}`,
+        id: `${this.idPrefix}gen${this.generation}_cross_${this.nextId()}`,
         primitives: this.crossoverPrimitives(parentA.primitives, parentB.primitives),
         structure: this.crossoverStructure(parentA.structure, parentB.structure),
         parameters: this.crossoverParameters(parentA.parameters, parentB.parameters),
@@ -218,7 +241,7 @@ export class GrammarEvolutionEngine {
       };
       
       // Apply mutation with some probability
-      if (Math.random() < this.params.mutation.structuralRate) {
+      if (this.random.next() < this.params.mutation.structuralRate) {
         offspring.push(this.mutate(child));
       } else {
         offspring.push(child);
@@ -233,7 +256,7 @@ export class GrammarEvolutionEngine {
    */
   private mutate(genome: GrammarGenome): GrammarGenome {
     const mutated: GrammarGenome = {
-      id: `gen${this.generation}_mut_${Date.now()}`,
+      id: `${this.idPrefix}gen${this.generation}_mut_${this.nextId()}`,
       primitives: [...genome.primitives],
       structure: JSON.parse(JSON.stringify(genome.structure)), // Deep clone
       parameters: this.cloneParameters(genome.parameters),
@@ -243,11 +266,11 @@ export class GrammarEvolutionEngine {
     };
 
     // Apply different types of mutations
-    if (Math.random() < this.params.mutation.structuralRate) {
+    if (this.random.next() < this.params.mutation.structuralRate) {
       this.applyStructuralMutation(mutated);
     }
     
-    if (Math.random() < this.params.mutation.parametricRate) {
+    if (this.random.next() < this.params.mutation.parametricRate) {
       this.applyParametricMutation(mutated);
     }
     
@@ -258,25 +281,25 @@ export class GrammarEvolutionEngine {
    * Applies structural mutations (nodes, edges, patterns)
    */
   private applyStructuralMutation(genome: GrammarGenome): void {
-    const mutationType = Math.random();
+    const mutationType = this.random.next();
     
     if (mutationType < 0.3) {
       // Add/remove nodes
-      if (Math.random() < 0.5 && genome.structure.nodes.length < this.params.constraints.maxNodes) {
+      if (this.random.next() < 0.5 && genome.structure.nodes.length < this.params.constraints.maxNodes) {
         this.addRandomNode(genome);
       } else if (genome.structure.nodes.length > 1) {
         this.removeRandomNode(genome);
       }
     } else if (mutationType < 0.6) {
       // Modify edges
-      if (Math.random() < 0.5) {
+      if (this.random.next() < 0.5) {
         this.addRandomEdge(genome);
       } else if (genome.structure.edges.length > 0) {
         this.modifyRandomEdge(genome);
       }
     } else {
       // Modify patterns
-      if (Math.random() < 0.5) {
+      if (this.random.next() < 0.5) {
         this.addRandomPattern(genome);
       } else if (genome.structure.patterns.length > 0) {
         this.modifyRandomPattern(genome);
@@ -302,13 +325,13 @@ export class GrammarEvolutionEngine {
    */
   private tournamentSelection(count: number): GrammarGenome[] {
     const selected: GrammarGenome[] = [];
-    const tournamentSize = Math.max(2, Math.floor(this.population.size * 0.1));
+    const tournamentSize = Math.max(2, Math.floor(this.population.length * 0.1));
     
     for (let i = 0; i < count; i++) {
       const tournament: GrammarGenome[] = [];
       
       for (let j = 0; j < tournamentSize; j++) {
-        const candidate = this.population[Math.floor(Math.random() * this.population.length)];
+        const candidate = this.population[this.random.nextInt(this.population.length)];
         tournament.push(candidate);
       }
       
@@ -327,7 +350,7 @@ export class GrammarEvolutionEngine {
     const totalFitness = this.population.reduce((sum, genome) => sum + Math.max(0, genome.fitness), 0);
     
     for (let i = 0; i < count; i++) {
-      let spin = Math.random() * totalFitness;
+      let spin = this.random.next() * totalFitness;
       
       for (const genome of this.population) {
         spin -= Math.max(0, genome.fitness);
@@ -350,7 +373,7 @@ export class GrammarEvolutionEngine {
     
     for (let i = 0; i < count; i++) {
       // Linear ranking: higher rank = higher probability
-      const rank = Math.floor(Math.random() * sortedPop.length);
+      const rank = this.random.nextInt(sortedPop.length);
       const index = Math.floor(rank * rank / sortedPop.length); // Quadratic bias toward better ranks
       selected.push(sortedPop[index]);
     }
@@ -359,23 +382,29 @@ export class GrammarEvolutionEngine {
   }
 
   /**
-   * Pareto-based selection for multi-objective optimization
+   * NSGA-II binary tournament on non-domination rank, then crowding distance
    */
   private paretoSelection(count: number): GrammarGenome[] {
-    // Use Pareto front if available, otherwise fall back to tournament
-    if (this.paretoFront.length >= count) {
-      return this.paretoFront.slice(0, count);
-    } else {
-      const fromPareto = [...this.paretoFront];
-      const remaining = count - fromPareto.length;
-      return [...fromPareto, ...this.tournamentSelection(remaining)];
+    const selected: GrammarGenome[] = [];
+    
+    for (let i = 0; i < count; i++) {
+      const a = this.population[this.random.nextInt(this.population.length)];
+      const b = this.population[this.random.nextInt(this.population.length)];
+      selected.push(crowdedCompare(a, b) <= 0 ? a : b);
     }
+    
+    return selected;
   }
 
   /**
    * Environmental selection (choosing survivors)
    */
   private selectSurvivors(combinedPop: GrammarGenome[]): GrammarGenome[] {
+    // NSGA-II: fill by fronts, truncating the last by crowding distance
+    if (this.isMultiObjective()) {
+      return selectByNonDomination(combinedPop, this.params.population.size);
+    }
+
     // Sort by fitness
     combinedPop.sort((a, b) => b.fitness - a.fitness);
     
@@ -413,19 +442,19 @@ export class GrammarEvolutionEngine {
    */
   private addRandomNode(genome: GrammarGenome): void {
     const types: AgenticPrimitiveType[] = ['action', 'percept', 'memory', 'decision', 'planning'];
-    const nodeId = `node_${Date.now()}_${Math.random()}`;
+    const nodeId = `node_${this.nextId()}`;
     
     genome.structure.nodes.push({
       id: nodeId,
-      type: types[Math.floor(Math.random() * types.length)],
-      activation: randomTensor([4], 0.5),
-      complexity: Math.random(),
+      type: types[this.random.nextInt(types.length)],
+      activation: randomTensor([4], 0.5, this.random),
+      complexity: this.random.next(),
       connections: []
     });
   }
 
   private removeRandomNode(genome: GrammarGenome): void {
-    const nodeIndex = Math.floor(Math.random() * genome.structure.nodes.length);
+    const nodeIndex = this.random.nextInt(genome.structure.nodes.length);
     const removedNode = genome.structure.nodes.splice(nodeIndex, 1)[0];
     
     // Remove associated edges
@@ -437,43 +466,43 @@ export class GrammarEvolutionEngine {
   private addRandomEdge(genome: GrammarGenome): void {
     if (genome.structure.nodes.length < 2) return;
     
-    const sourceNode = genome.structure.nodes[Math.floor(Math.random() * genome.structure.nodes.length)];
-    const targetNode = genome.structure.nodes[Math.floor(Math.random() * genome.structure.nodes.length)];
+    const sourceNode = genome.structure.nodes[this.random.nextInt(genome.structure.nodes.length)];
+    const targetNode = genome.structure.nodes[this.random.nextInt(genome.structure.nodes.length)];
     
     if (sourceNode.id !== targetNode.id) {
       const edgeTypes = ['semantic', 'syntactic', 'causal', 'temporal'];
       
       genome.structure.edges.push({
-        id: `edge_${Date.now()}_${Math.random()}`,
+        id: `edge_${this.nextId()}`,
         source: sourceNode.id,
         target: targetNode.id,
-        weight: Math.random(),
-        type: edgeTypes[Math.floor(Math.random() * edgeTypes.length)] as any
+        weight: this.random.next(),
+        type: edgeTypes[this.random.nextInt(edgeTypes.length)] as any
       });
     }
   }
 
   private modifyRandomEdge(genome: GrammarGenome): void {
-    const edge = genome.structure.edges[Math.floor(Math.random() * genome.structure.edges.length)];
-    edge.weight = Math.max(0, Math.min(1, edge.weight + (Math.random() - 0.5) * 0.2));
+    const edge = genome.structure.edges[this.random.nextInt(genome.structure.edges.length)];
+    edge.weight = Math.max(0, Math.min(1, edge.weight + (this.random.next() - 0.5) * 0.2));
   }
 
   private addRandomPattern(genome: GrammarGenome): void {
     const patternNames = ['recursive', 'hierarchical', 'sequential', 'parallel', 'conditional'];
     
     genome.structure.patterns.push({
-      id: `pattern_${Date.now()}_${Math.random()}`,
-      name: patternNames[Math.floor(Math.random() * patternNames.length)],
+      id: `pattern_${this.nextId()}`,
+      name: patternNames[this.random.nextInt(patternNames.length)],
       nodes: genome.structure.nodes.slice(0, Math.min(3, genome.structure.nodes.length)).map(n => n.id),
-      recursionDepth: Math.floor(Math.random() * 4) + 1,
-      applicability: Math.random()
+      recursionDepth: this.random.nextInt(4) + 1,
+      applicability: this.random.next()
     });
   }
 
   private modifyRandomPattern(genome: GrammarGenome): void {
-    const pattern = genome.structure.patterns[Math.floor(Math.random() * genome.structure.patterns.length)];
-    pattern.recursionDepth = Math.max(1, pattern.recursionDepth + Math.floor((Math.random() - 0.5) * 2));
-    pattern.applicability = Math.max(0, Math.min(1, pattern.applicability + (Math.random() - 0.5) * 0.2));
+    const pattern = genome.structure.patterns[this.random.nextInt(genome.structure.patterns.length)];
+    pattern.recursionDepth = Math.max(1, pattern.recursionDepth + Math.floor((this.random.next() - 0.5) * 2));
+    pattern.applicability = Math.max(0, Math.min(1, pattern.applicability + (this.random.next() - 0.5) * 0.2));
   }
 
   /**
@@ -485,7 +514,7 @@ export class GrammarEvolutionEngine {
     const maxLength = Math.max(primitivesA.length, primitivesB.length);
     
     for (let i = 0; i < maxLength; i++) {
-      if (i < primitivesA.length && (i >= primitivesB.length || Math.random() < 0.5)) {
+      if (i < primitivesA.length && (i >= primitivesB.length || this.random.next() < 0.5)) {
         result.push(primitivesA[i]);
       } else if (i < primitivesB.length) {
         result.push(primitivesB[i]);
@@ -497,9 +526,9 @@ export class GrammarEvolutionEngine {
 
   private crossoverStructure(structA: any, structB: any): any {
     return {
-      nodes: Math.random() < 0.5 ? [...structA.nodes] : [...structB.nodes],
-      edges: Math.random() < 0.5 ? [...structA.edges] : [...structB.edges],
-      patterns: Math.random() < 0.5 ? [...structA.patterns] : [...structB.patterns]
+      nodes: this.random.next() < 0.5 ? [...structA.nodes] : [...structB.nodes],
+      edges: this.random.next() < 0.5 ? [...structA.edges] : [...structB.edges],
+      patterns: this.random.next() < 0.5 ? [...structA.patterns] : [...structB.patterns]
     };
   }
 
@@ -516,21 +545,21 @@ export class GrammarEvolutionEngine {
    * Utility methods
    */
   private createRandomGenome(seedPrimitives: AgenticPrimitive[], index: number): GrammarGenome {
-    const nodeCount = Math.floor(Math.random() * 8) + 3; // 3-10 nodes
+    const nodeCount = this.random.nextInt(8) + 3; // 3-10 nodes
     const nodes = [];
     
     for (let i = 0; i < nodeCount; i++) {
       nodes.push({
         id: `node_${index}_${i}`,
         type: seedPrimitives[i % seedPrimitives.length]?.type || 'action',
-        activation: randomTensor([4], 0.5),
-        complexity: Math.random(),
+        activation: randomTensor([4], 0.5, this.random),
+        complexity: this.random.next(),
         connections: []
       });
     }
     
     return {
-      id: `genome_${index}_${Date.now()}`,
+      id: `${this.idPrefix}genome_${index}_${this.nextId()}`,
       primitives: seedPrimitives.slice(0, Math.min(5, seedPrimitives.length)),
       structure: {
         nodes,
@@ -538,10 +567,10 @@ export class GrammarEvolutionEngine {
         patterns: []
       },
       parameters: {
-        complexity: randomTensor([8], 0.3),
-        expressiveness: randomTensor([6], 0.4),
-        efficiency: randomTensor([4], 0.5),
-        adaptability: randomTensor([5], 0.3)
+        complexity: randomTensor([8], 0.3, this.random),
+        expressiveness: randomTensor([6], 0.4, this.random),
+        efficiency: randomTensor([4], 0.5, this.random),
+        adaptability: randomTensor([5], 0.3, this.random)
       },
       fitness: 0,
       generation: 0,
@@ -549,6 +578,13 @@ export class GrammarEvolutionEngine {
     };
   }
 
+  /**
+   * Sequential identifier, so ids do not depend on wall-clock time
+   */
+  private nextId(): number {
+    return this.idCounter++;
+  }
+
   private cloneParameters(params: any): any {
     return {
       complexity: cloneTensor(params.complexity),
@@ -559,7 +595,7 @@ export class GrammarEvolutionEngine {
   }
 
   private mutateTensor(tensor: any, strength: number): any {
-    const mutation = randomTensor(tensor.shape, strength);
+    const mutation = randomTensor(tensor.shape, strength, this.random);
     return addTensors(tensor, mutation);
   }
 
@@ -637,16 +673,41 @@ export class GrammarEvolutionEngine {
     };
   }
 
+  /**
+   * Scores a genome, setting both its aggregated fitness and its objectives
+   */
+  private async evaluateGenome(genome: GrammarGenome): Promise<void> {
+    const metrics = await this.fitnessEvaluator.evaluateFitness(genome);
+    genome.fitness = this.fitnessEvaluator.calculateAggregatedFitness(metrics);
+    genome.objectives = this.fitnessEvaluator.calculateObjectives(metrics);
+  }
+
+  /**
+   * Population ordered best first: by non-domination in multi-objective runs,
+   * otherwise by fitness
+   */
+  private rankedPopulation(): GrammarGenome[] {
+    if (this.isMultiObjective()) {
+      return selectByNonDomination(this.population, this.population.length);
+    }
+    return [...this.population].sort((a, b) => b.fitness - a.fitness);
+  }
+
+  private isMultiObjective(): boolean {
+    return this.params.selection.paretoFronts || this.params.selection.method === 'pareto';
+  }
+
   private updateBest(): void {
-    const currentBest = this.population[0];
+    // Multi-objective populations are ordered by rank, not fitness
+    const currentBest = this.population.reduce((best, genome) => (genome.fitness > best.fitness ? genome : best));
     if (!this.bestGenome || currentBest.fitness > this.bestGenome.fitness) {
       this.bestGenome = currentBest;
     }
   }
 
-  private updateParetoFront(): void {
-    // Simplified Pareto front calculation
-    this.paretoFront = this.population.slice(0, Math.min(10, Math.floor(this.population.length * 0.1)));
+  private updateParetoFront(candidates: GrammarGenome[]): void {
+    this.archive.update(candidates);
+    this.paretoFront = this.archive.getFront();
   }
 
   private maintainDiversity(): void {
@@ -883,6 +944,79 @@ export class GrammarEvolutionEngine {
     return behaviors;
   }
 
+  /**
+   * Whether a termination condition (generations, fitness, stagnation) is met
+   */
+  isTerminated(): boolean {
+    return this.shouldTerminate();
+  }
+
+  /**
+   * Copies of the best genomes, to send to another island
+   */
+  selectEmigrants(count: number): GrammarGenome[] {
+    return this.rankedPopulation()
+      .slice(0, count)
+      .map(genome => structuredClone(genome));
+  }
+
+  /**
+   * Replaces the worst genomes with migrants from another island; genomes
+   * already in the population are ignored
+   */
+  acceptImmigrants(immigrants: GrammarGenome[]): void {
+    const known = new Set(this.population.map(genome => genome.id));
+    const arrivals = immigrants.filter(genome => !known.has(genome.id));
+    if (arrivals.length === 0) return;
+
+    const kept = this.rankedPopulation().slice(0, Math.max(0, this.population.length - arrivals.length));
+    this.population = [...kept, ...arrivals];
+    this.population = this.rankedPopulation();
+
+    this.updateBest();
+    this.updateParetoFront(arrivals);
+  }
+
+  /**
+   * Captures everything needed to continue this run later
+   */
+  exportState(): EvolutionEngineState {
+    return {
+      generation: this.generation,
+      params: this.params,
+      population: this.population,
+      bestGenome: this.bestGenome,
+      paretoFront: this.paretoFront,
+      evolutionHistory: this.evolutionHistory,
+      mutationEffectiveness: Object.fromEntries(this.mutationEffectiveness),
+      idCounter: this.idCounter,
+      randomState: this.random.getState(),
+      evaluator: this.fitnessEvaluator.exportState()
+    };
+  }
+
+  /**
+   * Restores state captured with exportState(); evolution continues from the
+   * same generation and random sequence
+   */
+  importState(state: EvolutionEngineState): void {
+    const restored = structuredClone(state);
+
+    // Keep the params object shared with the owning pipeline
+    Object.assign(this.params, restored.params);
+    this.generation = restored.generation;
+    this.population = restored.population;
+    this.bestGenome = restored.bestGenome;
+    this.evolutionHistory = restored.evolutionHistory;
+    this.mutationEffectiveness = new Map(Object.entries(restored.mutationEffectiveness));
+    this.idCounter = restored.idCounter;
+    this.random.setState(restored.randomState);
+    this.fitnessEvaluator.importState(restored.evaluator);
+
+    this.archive = new ParetoArchive(this.params.selection.archiveSize);
+    this.updateParetoFront(restored.paretoFront);
+  }
+
   /**
    * Public getters for monitoring
    */
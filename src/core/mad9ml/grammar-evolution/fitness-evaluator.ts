@@ -3,11 +3,27 @@
  * 
  * Implements comprehensive fitness metrics for evaluating grammar quality across
  * performance, complexity, expressiveness, adaptability, and emergent properties.
+ * Performance metrics come from parsing a test corpus of primitive sequences
+ * with each genome (see GrammarParser).
  */
 
-import { GrammarGenome, GrammarFitnessMetrics, GrammarParameters } from './types.js';
+import {
+  GrammarGenome,
+  GrammarFitnessMetrics,
+  GrammarObjectives,
+  FitnessEvaluatorState,
+  GrammarParameters,
+  GrammarTestCase
+} from './types.js';
 import { AgenticPrimitive } from '../agentic-grammar/types.js';
 import { norm, dotProduct } from '../tensor/operations.js';
+import { SeededRandom, defaultRandom } from '../random/seeded-random.js';
+import { GrammarParser } from './grammar-parser.js';
+
+/**
+ * Parse cost (transitions examined per primitive) that scores 0.5 latency
+ */
+const HALF_LATENCY_STEPS_PER_TOKEN = 25;
 
 /**
  * Core fitness evaluator for grammar genomes
@@ -16,11 +32,15 @@ export class GrammarFitnessEvaluator {
   private evaluationHistory: Map<string, GrammarFitnessMetrics> = new Map();
   private performanceBaseline: GrammarFitnessMetrics;
   private weights: Record<keyof GrammarFitnessMetrics, number>;
+  private random: SeededRandom;
+  private testCorpus: GrammarTestCase[] | null = null;
 
   constructor(
     baseline?: GrammarFitnessMetrics,
-    customWeights?: Partial<Record<keyof GrammarFitnessMetrics, number>>
+    customWeights?: Partial<Record<keyof GrammarFitnessMetrics, number>>,
+    random: SeededRandom = defaultRandom
   ) {
+    this.random = random;
     this.performanceBaseline = baseline || this.createDefaultBaseline();
     this.weights = {
       performance: 0.35,
@@ -32,6 +52,14 @@ export class GrammarFitnessEvaluator {
     };
   }
 
+  /**
+   * Sets the corpus genomes are parsed against; without one, each genome is
+   * tested on its own seed primitives
+   */
+  setTestCorpus(corpus: GrammarTestCase[] | null): void {
+    this.testCorpus = corpus && corpus.length > 0 ? [...corpus] : null;
+  }
+
   /**
    * Evaluates comprehensive fitness of a grammar genome
    */
@@ -51,31 +79,46 @@ export class GrammarFitnessEvaluator {
   }
 
   /**
-   * Evaluates performance metrics
+   * Evaluates performance metrics by parsing the test corpus:
+   * accuracy - share of sequences accepted or rejected correctly
+   * completeness - average share of each valid sequence the best parse covers
+   * precision - confidence-weighted share of accepted sequences that are valid
+   * efficiency - parse cost per primitive, balanced against structural complexity
    */
   private async evaluatePerformance(genome: GrammarGenome): Promise<GrammarFitnessMetrics['performance']> {
-    // Simulate parsing accuracy tests
-    const testCases = this.generateTestCases(genome.primitives);
-    let correctParses = 0;
-    let totalTests = testCases.length;
-    let totalLatency = 0;
-
-    for (const testCase of testCases) {
-      const result = await this.simulateGrammarParsing(genome, testCase);
-      if (result.correct) correctParses++;
-      totalLatency += result.latency;
+    const corpus = this.testCorpus ?? this.createDefaultCorpus(genome.primitives);
+    const parser = new GrammarParser(genome);
+
+    let correct = 0;
+    let accepted = 0;
+    let acceptedConfidence = 0;
+    let validCases = 0;
+    let coverage = 0;
+    let totalSteps = 0;
+    let totalTokens = 0;
+
+    for (const testCase of corpus) {
+      const result = parser.parse(testCase.sequence);
+      const valid = testCase.valid !== false;
+
+      if (result.accepted === valid) correct++;
+      if (result.accepted) {
+        accepted++;
+        if (valid) acceptedConfidence += result.confidence;
+      }
+      if (valid && result.length > 0) {
+        validCases++;
+        coverage += result.consumed / result.length;
+      }
+      totalSteps += result.steps;
+      totalTokens += result.length;
     }
 
-    const accuracy = totalTests > 0 ? correctParses / totalTests : 0;
-    const efficiency = this.calculateEfficiency(genome, totalLatency);
-    const completeness = this.calculateCompleteness(genome);
-    const precision = this.calculatePrecision(genome, testCases);
-
     return {
-      accuracy,
-      completeness,
-      precision,
-      efficiency
+      accuracy: corpus.length > 0 ? correct / corpus.length : 0,
+      completeness: validCases > 0 ? coverage / validCases : 0,
+      precision: accepted > 0 ? acceptedConfidence / accepted : 0,
+      efficiency: this.calculateEfficiency(genome, totalTokens > 0 ? totalSteps / totalTokens : 0)
     };
   }
 
@@ -231,6 +274,7 @@ export class GrammarFitnessEvaluator {
    */
   private calculateCompositionalAbility(genome: GrammarGenome): number {
     const { patterns } = genome.structure;
+    if (patterns.length === 0) return 0;
     
     // Measure pattern reusability
     const reusabilityScore = patterns.reduce((sum, p) => sum + p.applicability, 0) / patterns.length;
@@ -358,50 +402,24 @@ export class GrammarFitnessEvaluator {
   /**
    * Helper methods
    */
-  private generateTestCases(primitives: AgenticPrimitive[]): any[] {
-    // Generate test cases based on available primitives
-    return primitives.map(p => ({
-      type: p.type,
-      complexity: p.semanticComplexity,
-      dependencies: p.dependencies
-    }));
-  }
-
-  private async simulateGrammarParsing(genome: GrammarGenome, testCase: any): Promise<{correct: boolean, latency: number}> {
-    // Simulate parsing operation
-    const startTime = Date.now();
-    
-    // Simple simulation based on structure complexity
-    const complexity = genome.structure.nodes.length + genome.structure.edges.length;
-    const success = Math.random() > (complexity / 100); // Higher complexity = higher chance of failure
-    
-    const latency = Date.now() - startTime + Math.random() * 10; // Add some realistic latency
-    
-    return { correct: success, latency };
+  private createDefaultCorpus(primitives: AgenticPrimitive[]): GrammarTestCase[] {
+    // Each seed primitive alone, plus the seed primitives in source order
+    const corpus: GrammarTestCase[] = primitives.map(p => ({ id: p.id, sequence: [p] }));
+    if (primitives.length > 1) {
+      corpus.push({ id: 'seed_sequence', sequence: primitives });
+    }
+    return corpus;
   }
 
-  private calculateEfficiency(genome: GrammarGenome, totalLatency: number): number {
-    // Efficiency is inverse of latency and complexity
+  private calculateEfficiency(genome: GrammarGenome, stepsPerToken: number): number {
+    // Efficiency is inverse of parse cost and complexity
     const complexity = this.calculateStructuralComplexity(genome);
-    const latencyScore = Math.max(0, 1 - totalLatency / 1000); // Normalize latency
+    const latencyScore = 1 / (1 + stepsPerToken / HALF_LATENCY_STEPS_PER_TOKEN);
     const complexityScore = 1 - complexity;
     
     return (latencyScore + complexityScore) / 2;
   }
 
-  private calculateCompleteness(genome: GrammarGenome): number {
-    // Based on coverage of primitive types
-    const availableTypes = new Set(['action', 'percept', 'memory', 'decision', 'planning', 'communication', 'adaptation', 'attention', 'goal', 'constraint']);
-    const coveredTypes = new Set(genome.primitives.map(p => p.type));
-    
-    return coveredTypes.size / availableTypes.size;
-  }
-
-  private calculatePrecision(genome: GrammarGenome, testCases: any[]): number {
-    // Simulate precision based on pattern matching accuracy
-    return Math.random() * 0.3 + 0.7; // Placeholder: 70-100% precision
-  }
-
   private calculateCyclomaticComplexity(genome: GrammarGenome): number {
     // Simplified cyclomatic complexity calculation
     const { edges, nodes } = genome.structure;
@@ -418,7 +436,7 @@ export class GrammarFitnessEvaluator {
   private calculateStructuralSimilarity(genome: GrammarGenome, compareId: string): number {
     // Placeholder for structural similarity calculation
     // In practice, would compare graph structures, patterns, etc.
-    return Math.random() * 0.5 + 0.25; // 25-75% similarity
+    return this.random.next() * 0.5 + 0.25; // 25-75% similarity
   }
 
   private createDefaultBaseline(): GrammarFitnessMetrics {
@@ -475,6 +493,45 @@ export class GrammarFitnessEvaluator {
     );
   }
 
+  /**
+   * Reduces metrics to the objectives traded off by multi-objective selection
+   */
+  calculateObjectives(metrics: GrammarFitnessMetrics): GrammarObjectives {
+    return {
+      performance: (
+        metrics.performance.accuracy +
+        metrics.performance.completeness +
+        metrics.performance.precision +
+        metrics.performance.efficiency
+      ) / 4,
+      complexity: (
+        metrics.complexity.structural +
+        metrics.complexity.parametric +
+        metrics.complexity.computational
+      ) / 3,
+      expressiveness: (
+        metrics.expressiveness.semantic +
+        metrics.expressiveness.syntactic +
+        metrics.expressiveness.compositional
+      ) / 3,
+      novelty: metrics.emergent.novelty
+    };
+  }
+
+  /**
+   * Captures the evaluation history that novelty scoring depends on
+   */
+  exportState(): FitnessEvaluatorState {
+    return { evaluationHistory: Array.from(this.evaluationHistory.entries()) };
+  }
+
+  /**
+   * Restores state captured with exportState()
+   */
+  importState(state: FitnessEvaluatorState): void {
+    this.evaluationHistory = new Map(state.evaluationHistory);
+  }
+
   /**
    * Gets evaluation statistics
    */
@@ -0,0 +1,268 @@
+/**
+ * Grammar Parser - Executable semantics for evolved grammar genomes
+ *
+ * A genome is read as a weighted automaton over agentic primitive types.
+ * Each node matches one primitive of its type. An active edge (weight above the
+ * threshold) lets the target's primitive follow the source's. Each pattern is
+ * a chunk rule: it matches its nodes' type sequence, repeated up to
+ * recursionDepth times, with no edges needed inside the chunk. A parse can
+ * start at any node or pattern that matches the first primitive. It succeeds
+ * when it covers the whole sequence.
+ *
+ * Parsing is a chart search over (position, node) states. When parses compete,
+ * the one with the highest product of edge weights and pattern applicabilities
+ * wins. Work is counted in examined transitions rather than wall-clock time, so
+ * fitness stays reproducible.
+ */
+
+import { GrammarGenome, GrammarNode, GrammarParseResult, GrammarTestCase } from './types.js';
+import { AgenticPrimitiveType } from '../agentic-grammar/types.js';
+
+/**
+ * Parser tuning
+ */
+export interface GrammarParserOptions {
+  /** Edges at or below this weight are inactive (default 0) */
+  edgeThreshold?: number;
+  /** Transition budget per parse; a parse that exceeds it is rejected (default 100000) */
+  maxSteps?: number;
+}
+
+/**
+ * Best parse reaching a chart cell
+ */
+interface ChartEntry {
+  /** Sum of log weights along the parse */
+  score: number;
+  /** Weighted transitions taken */
+  transitions: number;
+  previous: { position: number; nodeId: string } | null;
+  /** Node IDs covered by the step into this cell */
+  nodes: string[];
+  patternId?: string;
+}
+
+interface CompiledPattern {
+  id: string;
+  nodeIds: string[];
+  types: AgenticPrimitiveType[];
+  maxRepeats: number;
+  logWeight: number;
+}
+
+interface PatternMatch {
+  pattern: CompiledPattern;
+  end: number;
+  repeats: number;
+}
+
+/**
+ * Parses primitive sequences with a grammar genome
+ */
+export class GrammarParser {
+  private nodes: Map<string, GrammarNode> = new Map();
+  private successors: Map<string, Map<string, number>> = new Map();
+  private patterns: CompiledPattern[] = [];
+  private edgeThreshold: number;
+  private maxSteps: number;
+
+  constructor(genome: GrammarGenome, options: GrammarParserOptions = {}) {
+    this.edgeThreshold = options.edgeThreshold ?? 0;
+    this.maxSteps = options.maxSteps ?? 100000;
+    this.compile(genome);
+  }
+
+  /**
+   * Parses a sequence of primitives (or primitive types)
+   */
+  parse(sequence: GrammarTestCase['sequence']): GrammarParseResult {
+    const tokens = sequence.map(item => (typeof item === 'string' ? item : item.type));
+    const length = tokens.length;
+    const chart: Array<Map<string, ChartEntry>> = Array.from({ length: length + 1 }, () => new Map());
+    let steps = 0;
+
+    const propose = (position: number, nodeId: string, entry: ChartEntry): void => {
+      const existing = chart[position].get(nodeId);
+      if (!existing || entry.score > existing.score) {
+        chart[position].set(nodeId, entry);
+      }
+    };
+
+    const matchesAt = (position: number): PatternMatch[] => {
+      const { matches, work } = this.matchPatterns(tokens, position);
+      steps += work;
+      return matches;
+    };
+
+    if (length > 0) {
+      // Entry: any node or pattern matching the first primitive
+      for (const node of this.nodes.values()) {
+        steps++;
+        if (node.type === tokens[0]) {
+          propose(1, node.id, { score: 0, transitions: 0, previous: null, nodes: [node.id] });
+        }
+      }
+      for (const match of matchesAt(0)) {
+        propose(match.end, lastOf(match.pattern.nodeIds), {
+          score: match.pattern.logWeight,
+          transitions: 1,
+          previous: null,
+          nodes: repeat(match.pattern.nodeIds, match.repeats),
+          patternId: match.pattern.id
+        });
+      }
+    }
+
+    for (let position = 1; position < length && steps <= this.maxSteps; position++) {
+      if (chart[position].size === 0) continue;
+      const patternMatches = matchesAt(position);
+
+      for (const [nodeId, state] of chart[position]) {
+        const targets = this.successors.get(nodeId);
+        if (!targets) continue;
+        const previous = { position, nodeId };
+
+        for (const [targetId, logWeight] of targets) {
+          steps++;
+          if (this.nodes.get(targetId)!.type === tokens[position]) {
+            propose(position + 1, targetId, {
+              score: state.score + logWeight,
+              transitions: state.transitions + 1,
+              previous,
+              nodes: [targetId]
+            });
+          }
+        }
+
+        // Patterns are entered through an edge into their first node
+        for (const match of patternMatches) {
+          steps++;
+          const logWeight = targets.get(match.pattern.nodeIds[0]);
+          if (logWeight === undefined) continue;
+          propose(match.end, lastOf(match.pattern.nodeIds), {
+            score: state.score + logWeight + match.pattern.logWeight,
+            transitions: state.transitions + 2,
+            previous,
+            nodes: repeat(match.pattern.nodeIds, match.repeats),
+            patternId: match.pattern.id
+          });
+        }
+      }
+    }
+
+    return this.buildResult(chart, length, steps);
+  }
+
+  // Private methods
+
+  /**
+   * Indexes nodes, active edges and well-formed patterns; edges and patterns
+   * referring to missing nodes (e.g. after crossover) are ignored
+   */
+  private compile(genome: GrammarGenome): void {
+    for (const node of genome.structure.nodes) {
+      if (!this.nodes.has(node.id)) {
+        this.nodes.set(node.id, node);
+      }
+    }
+
+    for (const edge of genome.structure.edges) {
+      if (edge.weight <= this.edgeThreshold || !this.nodes.has(edge.source) || !this.nodes.has(edge.target)) {
+        continue;
+      }
+      const targets = this.successors.get(edge.source) ?? new Map<string, number>();
+      const logWeight = Math.log(edge.weight);
+      if (!targets.has(edge.target) || logWeight > targets.get(edge.target)!) {
+        targets.set(edge.target, logWeight);
+      }
+      this.successors.set(edge.source, targets);
+    }
+
+    for (const pattern of genome.structure.patterns) {
+      const nodes = pattern.nodes.map(id => this.nodes.get(id));
+      if (nodes.length === 0 || pattern.applicability <= 0 || nodes.some(node => !node)) {
+        continue;
+      }
+      this.patterns.push({
+        id: pattern.id,
+        nodeIds: [...pattern.nodes],
+        types: nodes.map(node => node!.type),
+        maxRepeats: Math.max(1, Math.floor(pattern.recursionDepth)),
+        logWeight: Math.log(pattern.applicability)
+      });
+    }
+  }
+
+  /**
+   * Finds every pattern application (each repetition count) starting at a position
+   */
+  private matchPatterns(tokens: string[], position: number): { matches: PatternMatch[]; work: number } {
+    const matches: PatternMatch[] = [];
+    let work = 0;
+
+    for (const pattern of this.patterns) {
+      let end = position;
+      for (let repeats = 1; repeats <= pattern.maxRepeats; repeats++) {
+        if (end + pattern.types.length > tokens.length) break;
+        work += pattern.types.length;
+        if (!pattern.types.every((type, i) => tokens[end + i] === type)) break;
+        end += pattern.types.length;
+        matches.push({ pattern, end, repeats });
+      }
+    }
+
+    return { matches, work };
+  }
+
+  /**
+   * Reads the best complete parse, or the longest partial one, off the chart
+   */
+  private buildResult(chart: Array<Map<string, ChartEntry>>, length: number, steps: number): GrammarParseResult {
+    let consumed = length;
+    while (consumed > 0 && chart[consumed].size === 0) {
+      consumed--;
+    }
+
+    const withinBudget = steps <= this.maxSteps;
+    if (consumed === 0) {
+      return { accepted: false, consumed: 0, length, path: [], patternsApplied: [], confidence: 0, steps };
+    }
+
+    let bestId = '';
+    let best: ChartEntry | null = null;
+    for (const [nodeId, entry] of chart[consumed]) {
+      if (!best || entry.score > best.score) {
+        best = entry;
+        bestId = nodeId;
+      }
+    }
+
+    const path: string[] = [];
+    const patternsApplied: string[] = [];
+    let cursor: { position: number; nodeId: string } | null = { position: consumed, nodeId: bestId };
+    while (cursor) {
+      const entry: ChartEntry = chart[cursor.position].get(cursor.nodeId)!;
+      path.unshift(...entry.nodes);
+      if (entry.patternId) patternsApplied.unshift(entry.patternId);
+      cursor = entry.previous;
+    }
+
+    return {
+      accepted: withinBudget && consumed === length,
+      consumed,
+      length,
+      path,
+      patternsApplied,
+      confidence: best!.transitions > 0 ? Math.exp(best!.score / best!.transitions) : 1,
+      steps
+    };
+  }
+}
+
+function lastOf<T>(items: T[]): T {
+  return items[items.length - 1];
+}
+
+function repeat<T>(items: T[], times: number): T[] {
+  return Array.from({ length: times }, () => items).flat();
+}
@@ -7,14 +7,48 @@
 
 export { GrammarEvolutionEngine } from './evolution-engine.js';
 export { GrammarFitnessEvaluator } from './fitness-evaluator.js';
+export { GrammarParser } from './grammar-parser.js';
+export {
+  ParetoArchive,
+  objectiveVector,
+  dominates,
+  fastNonDominatedSort,
+  crowdingDistance,
+  crowdedCompare,
+  rankGenomes,
+  selectByNonDomination
+} from './nsga2.js';
+export type { GrammarParserOptions } from './grammar-parser.js';
 export { MOSESPipeline } from './moses-pipeline.js';
+export { IslandModel, LocalIsland, RemoteIsland, serveIsland, spawnWorkerIsland } from './island-model.js';
+export type {
+  Island,
+  IslandInit,
+  IslandStatus,
+  IslandSpawner,
+  IslandModelOptions
+} from './island-model.js';
+export {
+  CHECKPOINT_FORMAT_VERSION,
+  encodeCheckpoint,
+  decodeCheckpoint,
+  writeCheckpoint,
+  readCheckpoint,
+  listCheckpoints
+} from './checkpoint.js';
 export { EvolutionaryResultsReporter } from './results-reporter.js';
 
 export type {
   GrammarFitnessMetrics,
   GrammarEvolutionParams,
   GrammarGenome,
+  GrammarObjectives,
   EvolutionStats,
   MOSESConfig,
-  EvolutionaryResult
+  EvolutionaryResult,
+  EvolutionEngineState,
+  FitnessEvaluatorState,
+  MOSESCheckpoint,
+  GrammarTestCase,
+  GrammarParseResult
 } from './types.js';
\ No newline at end of file
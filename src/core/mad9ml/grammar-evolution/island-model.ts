@@ -0,0 +1,390 @@
+/**
+ * Island Model - Parallel populations with periodic migration
+ *
+ * Several GrammarEvolutionEngine populations ("islands") evolve
+ * independently. Every migrationInterval generations, each island sends copies
+ * of its best genomes to its neighbours, which replace their worst genomes
+ * with them. Islands run in-process (LocalIsland) or behind a structured-clone
+ * channel (RemoteIsland), normally a worker thread started by
+ * spawnWorkerIsland.
+ *
+ * Each island has its own seeded generator and migrations happen at fixed
+ * generations, so a run gives the same result however its islands are
+ * scheduled.
+ */
+
+import { Worker } from 'worker_threads';
+import {
+  GrammarGenome,
+  GrammarEvolutionParams,
+  GrammarTestCase,
+  EvolutionEngineState
+} from './types.js';
+import { GrammarEvolutionEngine } from './evolution-engine.js';
+import { GrammarFitnessEvaluator } from './fitness-evaluator.js';
+import { ParetoArchive } from './nsga2.js';
+import { AgenticPrimitive } from '../agentic-grammar/types.js';
+import { SeededRandom } from '../random/seeded-random.js';
+import {
+  ChannelClient,
+  ChannelRequest,
+  ChannelResult,
+  StructuredCloneChannel,
+  serveChannel
+} from '../channel/channel-rpc.js';
+
+/**
+ * Everything needed to create an island, in structured-clone form
+ */
+export interface IslandInit {
+  index: number;
+  params: GrammarEvolutionParams;
+  seed: number;
+  testCorpus: GrammarTestCase[] | null;
+}
+
+/**
+ * Island progress after an evolution epoch
+ */
+export interface IslandStatus {
+  index: number;
+  generation: number;
+  bestFitness: number;
+  terminated: boolean;
+}
+
+/**
+ * One population of the island model
+ */
+export interface Island {
+  initialize(seedPrimitives: AgenticPrimitive[]): Promise<void>;
+  restore(state: EvolutionEngineState): Promise<void>;
+  /** Evolves up to `generations` more generations, stopping early on termination */
+  evolve(generations: number): Promise<IslandStatus>;
+  emigrate(count: number): Promise<GrammarGenome[]>;
+  immigrate(genomes: GrammarGenome[]): Promise<void>;
+  exportState(): Promise<EvolutionEngineState>;
+  close(): Promise<void>;
+}
+
+/**
+ * Creates an island, e.g. in a worker thread
+ */
+export type IslandSpawner = (init: IslandInit) => Island;
+
+/**
+ * Island model options
+ */
+export interface IslandModelOptions {
+  count: number;
+  migrationInterval: number;
+  migrationSize: number;
+  topology: 'ring' | 'fully_connected';
+  /** Creates each island; islands run in-process when omitted */
+  spawn?: IslandSpawner;
+}
+
+/**
+ * Island evolving in the current thread
+ */
+export class LocalIsland implements Island {
+  private index: number;
+  private engine: GrammarEvolutionEngine;
+
+  constructor(init: IslandInit) {
+    const random = new SeededRandom(init.seed);
+    const evaluator = new GrammarFitnessEvaluator(undefined, undefined, random);
+    evaluator.setTestCorpus(init.testCorpus);
+
+    this.index = init.index;
+    this.engine = new GrammarEvolutionEngine(init.params, evaluator, random, `island${init.index}_`);
+  }
+
+  async initialize(seedPrimitives: AgenticPrimitive[]): Promise<void> {
+    await this.engine.initialize(seedPrimitives);
+  }
+
+  async restore(state: EvolutionEngineState): Promise<void> {
+    this.engine.importState(state);
+  }
+
+  async evolve(generations: number): Promise<IslandStatus> {
+    if (!this.engine.isTerminated()) {
+      await this.engine.evolve(generations);
+    }
+
+    return {
+      index: this.index,
+      generation: this.engine.getCurrentGeneration(),
+      bestFitness: this.engine.getBestGenome()?.fitness ?? 0,
+      terminated: this.engine.isTerminated()
+    };
+  }
+
+  async emigrate(count: number): Promise<GrammarGenome[]> {
+    return this.engine.selectEmigrants(count);
+  }
+
+  async immigrate(genomes: GrammarGenome[]): Promise<void> {
+    this.engine.acceptImmigrants(genomes);
+  }
+
+  async exportState(): Promise<EvolutionEngineState> {
+    return this.engine.exportState();
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
+
+/**
+ * Arguments and result of each island method
+ */
+type IslandMethods = {
+  [M in keyof Island]: { args: Parameters<Island[M]>; result: Awaited<ReturnType<Island[M]>> };
+};
+
+/**
+ * Island served on the other side of a channel (see serveIsland)
+ */
+export class RemoteIsland implements Island {
+  private client: ChannelClient<IslandMethods>;
+  private release: () => void | Promise<unknown>;
+
+  /**
+   * @param release Frees the channel (e.g. terminates the worker) after close()
+   */
+  constructor(channel: StructuredCloneChannel, release: () => void | Promise<unknown> = () => {}) {
+    this.client = new ChannelClient(channel);
+    this.release = release;
+  }
+
+  initialize(seedPrimitives: AgenticPrimitive[]): Promise<void> {
+    return this.client.call('initialize', seedPrimitives);
+  }
+
+  restore(state: EvolutionEngineState): Promise<void> {
+    return this.client.call('restore', state);
+  }
+
+  evolve(generations: number): Promise<IslandStatus> {
+    return this.client.call('evolve', generations);
+  }
+
+  emigrate(count: number): Promise<GrammarGenome[]> {
+    return this.client.call('emigrate', count);
+  }
+
+  immigrate(genomes: GrammarGenome[]): Promise<void> {
+    return this.client.call('immigrate', genomes);
+  }
+
+  exportState(): Promise<EvolutionEngineState> {
+    return this.client.call('exportState');
+  }
+
+  async close(): Promise<void> {
+    if (!this.client.getFailure()) {
+      await this.client.call('close');
+    }
+    this.client.detach();
+    await this.release();
+  }
+
+  /**
+   * Rejects pending and future calls, e.g. when the worker crashes
+   */
+  fail(error: Error): void {
+    this.client.fail(error);
+  }
+}
+
+/**
+ * Hosts a LocalIsland behind a channel; requests are handled one at a time
+ * in arrival order. Stops listening after `close`.
+ */
+export function serveIsland(channel: StructuredCloneChannel, init: IslandInit): LocalIsland {
+  const island = new LocalIsland(init);
+  const stop = serveChannel<IslandMethods>(channel, request => {
+    if (request.method === 'close') {
+      stop();
+    }
+    return dispatchIslandRequest(island, request);
+  }, { sequential: true });
+  return island;
+}
+
+/**
+ * Invokes the island method named by a request
+ */
+function dispatchIslandRequest(
+  island: Island,
+  request: ChannelRequest<IslandMethods>
+): Promise<ChannelResult<IslandMethods>> {
+  switch (request.method) {
+    case 'initialize': return island.initialize(...request.args);
+    case 'restore': return island.restore(...request.args);
+    case 'evolve': return island.evolve(...request.args);
+    case 'emigrate': return island.emigrate(...request.args);
+    case 'immigrate': return island.immigrate(...request.args);
+    case 'exportState': return island.exportState(...request.args);
+    case 'close': return island.close(...request.args);
+  }
+}
+
+/**
+ * Spawns an island in a worker thread running island-worker
+ *
+ * @param workerUrl Worker entry point; defaults to island-worker next to this module
+ */
+export function spawnWorkerIsland(init: IslandInit, workerUrl?: URL | string): RemoteIsland {
+  const worker = new Worker(workerUrl ?? new URL('./island-worker.js', import.meta.url), { workerData: init });
+  const island = new RemoteIsland(worker, () => worker.terminate());
+
+  worker.on('error', error => island.fail(error));
+  worker.on('exit', code => {
+    if (code !== 0) island.fail(new Error(`Island ${init.index} worker exited with code ${code}`));
+  });
+
+  return island;
+}
+
+/**
+ * Coordinates islands, migrations and the combined result
+ */
+export class IslandModel {
+  private options: IslandModelOptions;
+  private params: GrammarEvolutionParams;
+  private testCorpus: GrammarTestCase[] | null;
+  private random: SeededRandom;
+  private islands: Island[] = [];
+
+  constructor(
+    options: IslandModelOptions,
+    params: GrammarEvolutionParams,
+    testCorpus: GrammarTestCase[] | null,
+    random: SeededRandom
+  ) {
+    if (!Number.isInteger(options.count) || options.count < 1) {
+      throw new Error(`Island count must be a positive integer, got ${options.count}`);
+    }
+    if (!Number.isInteger(options.migrationInterval) || options.migrationInterval < 1) {
+      throw new Error(`Migration interval must be a positive integer, got ${options.migrationInterval}`);
+    }
+
+    this.options = options;
+    this.params = params;
+    this.testCorpus = testCorpus;
+    this.random = random;
+  }
+
+  /**
+   * Creates the islands and their initial populations
+   */
+  async initialize(seedPrimitives: AgenticPrimitive[]): Promise<void> {
+    this.createIslands();
+    await Promise.all(this.islands.map(island => island.initialize(seedPrimitives)));
+  }
+
+  /**
+   * Creates the islands from states captured with exportStates()
+   */
+  async restore(states: EvolutionEngineState[]): Promise<void> {
+    if (states.length !== this.options.count) {
+      throw new Error(`Expected ${this.options.count} island states, got ${states.length}`);
+    }
+
+    this.createIslands();
+    await Promise.all(this.islands.map((island, i) => island.restore(states[i])));
+  }
+
+  /**
+   * Evolves all islands until every one has terminated. Each epoch is
+   * migrationInterval generations followed by a migration, so the populations
+   * after an epoch do not depend on when the run stops.
+   *
+   * @param onEpoch Awaited after each epoch with the furthest island generation
+   */
+  async evolve(onEpoch?: (generation: number) => void | Promise<void>): Promise<IslandStatus[]> {
+    for (;;) {
+      const statuses = await Promise.all(this.islands.map(island => island.evolve(this.options.migrationInterval)));
+      await this.migrate();
+      await onEpoch?.(Math.max(...statuses.map(status => status.generation)));
+
+      if (statuses.every(status => status.terminated)) {
+        return statuses;
+      }
+    }
+  }
+
+  /**
+   * Sends each island's best genomes to its neighbours
+   */
+  async migrate(): Promise<void> {
+    if (this.islands.length < 2 || this.options.migrationSize < 1) return;
+
+    const emigrants = await Promise.all(this.islands.map(island => island.emigrate(this.options.migrationSize)));
+
+    await Promise.all(this.islands.map((island, i) => {
+      const arrivals = this.options.topology === 'fully_connected'
+        ? emigrants.filter((_, j) => j !== i).flat()
+        : emigrants[(i - 1 + this.islands.length) % this.islands.length];
+      return island.immigrate(arrivals);
+    }));
+  }
+
+  /**
+   * Captures every island's state, in island order
+   */
+  exportStates(): Promise<EvolutionEngineState[]> {
+    return Promise.all(this.islands.map(island => island.exportState()));
+  }
+
+  /**
+   * Combines the islands into one engine state: all populations (migrant
+   * copies counted once), the best genome and history of the best island, and
+   * the merged Pareto front
+   */
+  async mergedState(): Promise<EvolutionEngineState> {
+    const states = await this.exportStates();
+    const population = new Map<string, GrammarGenome>();
+    states.forEach(state => state.population.forEach(genome => {
+      if (!population.has(genome.id)) population.set(genome.id, genome);
+    }));
+    const best = states.reduce((a, b) => ((b.bestGenome?.fitness ?? -Infinity) > (a.bestGenome?.fitness ?? -Infinity) ? b : a));
+
+    const archive = new ParetoArchive(this.params.selection.archiveSize);
+    states.forEach(state => archive.update(state.paretoFront));
+
+    return {
+      ...best,
+      generation: Math.max(...states.map(state => state.generation)),
+      population: Array.from(population.values()),
+      paretoFront: archive.getFront(),
+      randomState: this.random.getState()
+    };
+  }
+
+  /**
+   * Shuts down every island
+   */
+  async close(): Promise<void> {
+    const islands = this.islands;
+    this.islands = [];
+    await Promise.all(islands.map(island => island.close()));
+  }
+
+  // Private methods
+
+  private createIslands(): void {
+    const spawn: IslandSpawner = this.options.spawn ?? (init => new LocalIsland(init));
+
+    this.islands = Array.from({ length: this.options.count }, (_, index) => spawn({
+      index,
+      params: structuredClone(this.params),
+      seed: this.random.nextInt(0x100000000),
+      testCorpus: this.testCorpus
+    }));
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Island Worker - Worker thread entry point hosting one island of the island model
+ *
+ * Started by spawnWorkerIsland with an IslandInit as workerData.
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { serveIsland, IslandInit } from './island-model.js';
+
+if (!parentPort) {
+  throw new Error('island-worker must run in a worker thread');
+}
+
+serveIsland(parentPort, workerData as IslandInit);
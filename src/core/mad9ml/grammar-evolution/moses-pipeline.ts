@@ -10,12 +10,17 @@ import {
   GrammarEvolutionParams, 
   MOSESConfig, 
   EvolutionaryResult,
-  EvolutionStats
+  EvolutionStats,
+  EvolutionEngineState,
+  GrammarTestCase
 } from './types.js';
 import { GrammarEvolutionEngine } from './evolution-engine.js';
 import { GrammarFitnessEvaluator } from './fitness-evaluator.js';
 import { EvolutionaryResultsReporter } from './results-reporter.js';
+import { IslandModel, spawnWorkerIsland } from './island-model.js';
+import { CHECKPOINT_FORMAT_VERSION, readCheckpoint, writeCheckpoint } from './checkpoint.js';
 import { AgenticPrimitive } from '../agentic-grammar/types.js';
+import { SeededRandom } from '../random/seeded-random.js';
 
 /**
  * Complete MOSES pipeline for grammar evolution
@@ -27,11 +32,17 @@ export class MOSESPipeline {
   private isRunning: boolean = false;
   private startTime?: number;
   private config: MOSESConfig;
+  private evolutionParams: GrammarEvolutionParams;
+  private random: SeededRandom;
+  private testCorpus: GrammarTestCase[] | null = null;
+  private lastCheckpointGeneration: number = 0;
 
   constructor(
-    private evolutionParams: GrammarEvolutionParams,
+    evolutionParams: GrammarEvolutionParams,
     mosesConfig?: Partial<MOSESConfig>
   ) {
+    // Copied so the defaults filled in below don't leak into the caller's params
+    this.evolutionParams = { ...evolutionParams, selection: { ...evolutionParams.selection } };
     this.config = {
       objective: 'multi',
       metaOptimization: true,
@@ -58,6 +69,12 @@ export class MOSESPipeline {
       ...this.evolutionParams.transparency,
       ...this.config.transparency
     };
+
+    if (this.evolutionParams.selection.archiveSize === undefined) {
+      this.evolutionParams.selection.archiveSize = this.config.memoryManagement.archiveSize;
+    }
+
+    this.random = new SeededRandom(this.config.seed ?? this.evolutionParams.seed);
   }
 
   /**
@@ -67,10 +84,11 @@ export class MOSESPipeline {
     console.log('🧬 Initializing MOSES Grammar Evolution Pipeline...');
     
     // Initialize fitness evaluator
-    this.fitnessEvaluator = new GrammarFitnessEvaluator();
+    this.fitnessEvaluator = new GrammarFitnessEvaluator(undefined, undefined, this.random);
+    this.fitnessEvaluator.setTestCorpus(this.testCorpus);
     
     // Initialize evolution engine
-    this.engine = new GrammarEvolutionEngine(this.evolutionParams, this.fitnessEvaluator);
+    this.engine = new GrammarEvolutionEngine(this.evolutionParams, this.fitnessEvaluator, this.random);
     
     // Initialize results reporter
     this.reporter = new EvolutionaryResultsReporter(this.config);
@@ -79,6 +97,14 @@ export class MOSESPipeline {
     this.logConfiguration();
   }
 
+  /**
+   * Sets the corpus of primitive sequences grammars are evaluated against
+   */
+  setTestCorpus(corpus: GrammarTestCase[] | null): void {
+    this.testCorpus = corpus;
+    this.fitnessEvaluator?.setTestCorpus(corpus);
+  }
+
   /**
    * Runs the complete MOSES evolution pipeline
    */
@@ -92,12 +118,51 @@ export class MOSESPipeline {
     console.log(`🎯 Max Generations: ${this.evolutionParams.termination.maxGenerations}`);
     console.log(`🧬 Seed Primitives: ${seedPrimitives.length}`);
 
+    this.lastCheckpointGeneration = 0;
+    return this.execute(async islands => {
+      if (islands) {
+        await islands.initialize(seedPrimitives);
+      } else {
+        await this.engine!.initialize(seedPrimitives);
+      }
+    });
+  }
+
+  /**
+   * Continues a run from a checkpoint file, or from the latest checkpoint in a
+   * directory; configuration, test corpus and random state are restored with it
+   */
+  async resume(checkpointPath: string): Promise<EvolutionaryResult> {
+    const checkpoint = await readCheckpoint(checkpointPath);
+
+    this.config = checkpoint.config;
+    this.evolutionParams = checkpoint.evolutionParams;
+    this.testCorpus = checkpoint.testCorpus;
+    this.random.setState(checkpoint.randomState);
+    await this.initialize();
+
+    console.log(`\n♻️ Resuming MOSES Grammar Evolution from generation ${checkpoint.generation}...`);
+
+    this.lastCheckpointGeneration = checkpoint.generation;
+    return this.execute(async islands => {
+      if (islands) {
+        await islands.restore(checkpoint.islands);
+      } else {
+        this.engine!.importState(checkpoint.islands[0]);
+      }
+    });
+  }
+
+  /**
+   * Prepares the population(s), evolves them and reports the result
+   */
+  private async execute(prepare: (islands: IslandModel | null) => Promise<void>): Promise<EvolutionaryResult> {
     this.isRunning = true;
     this.startTime = Date.now();
+    const islands = this.createIslandModel();
 
     try {
-      // Initialize evolution
-      await this.engine!.initialize(seedPrimitives);
+      await prepare(islands);
       
       // Start monitoring if configured
       if (this.config.transparency.logLevel !== 'minimal') {
@@ -105,7 +170,11 @@ export class MOSESPipeline {
       }
 
       // Run evolution
-      const bestGenome = await this.engine!.evolve();
+      const bestGenome = islands
+        ? await this.evolveIslands(islands)
+        : await this.engine!.evolve(undefined, stats =>
+          this.checkpointIfDue(stats.generation, async () => [this.engine!.exportState()])
+        );
       
       // Generate comprehensive results
       const result = await this.generateEvolutionaryResult(bestGenome);
@@ -123,6 +192,69 @@ export class MOSESPipeline {
       throw error;
     } finally {
       this.isRunning = false;
+      await islands?.close();
+    }
+  }
+
+  /**
+   * Island model for the configured island count, or null for a single population.
+   * Islands run in worker threads when parallelization is enabled.
+   */
+  private createIslandModel(): IslandModel | null {
+    const islands = this.config.islands;
+    if (!islands || islands.count <= 1) {
+      return null;
+    }
+
+    return new IslandModel(
+      {
+        count: islands.count,
+        migrationInterval: islands.migrationInterval,
+        migrationSize: islands.migrationSize,
+        topology: islands.topology ?? 'ring',
+        spawn: this.config.parallelization.enabled ? init => spawnWorkerIsland(init) : undefined
+      },
+      this.evolutionParams,
+      this.testCorpus,
+      this.random
+    );
+  }
+
+  /**
+   * Evolves all islands, then loads their combined state into the pipeline engine
+   */
+  private async evolveIslands(islands: IslandModel): Promise<GrammarGenome> {
+    console.log(`🏝️ Evolving ${this.config.islands!.count} islands, migrating every ${this.config.islands!.migrationInterval} generations`);
+
+    await islands.evolve(generation => this.checkpointIfDue(generation, () => islands.exportStates()));
+
+    this.engine!.importState(await islands.mergedState());
+    return this.engine!.getBestGenome()!;
+  }
+
+  /**
+   * Writes a checkpoint once checkpoint.interval generations have passed since the last one
+   */
+  private async checkpointIfDue(generation: number, states: () => Promise<EvolutionEngineState[]>): Promise<void> {
+    const checkpoint = this.config.checkpoint;
+    if (!checkpoint || generation - this.lastCheckpointGeneration < checkpoint.interval) {
+      return;
+    }
+
+    const filePath = await writeCheckpoint(checkpoint.directory, {
+      version: CHECKPOINT_FORMAT_VERSION,
+      createdAt: Date.now(),
+      generation,
+      config: this.config,
+      evolutionParams: this.evolutionParams,
+      testCorpus: this.testCorpus,
+      randomState: this.random.getState(),
+      islands: await states()
+    }, checkpoint.keep);
+
+    this.lastCheckpointGeneration = generation;
+    if (this.config.transparency.logLevel !== 'minimal') {
+      console.log(`💾 Checkpoint written: ${filePath}`);
     }
   }
 
@@ -246,7 +378,11 @@ export class MOSESPipeline {
         console.log(`  Testing parameter variant ${i + 1}/${paramVariants.length}`);
         
         // Test this parameter set
-        const testPipeline = new MOSESPipeline(paramVariants[i], this.config);
+        const testPipeline = new MOSESPipeline(paramVariants[i], {
+          ...this.config,
+          seed: this.random.nextInt(0x100000000)
+        });
+        testPipeline.setTestCorpus(this.testCorpus);
         await testPipeline.initialize();
         
         const result = await testPipeline.run(seedPrimitives);
@@ -462,10 +598,10 @@ export class MOSESPipeline {
       const variant = JSON.parse(JSON.stringify(baseParams)); // Deep clone
       
       // Mutate parameters
-      variant.mutation.structuralRate *= (0.8 + Math.random() * 0.4); // ±20% variation
-      variant.mutation.parametricRate *= (0.8 + Math.random() * 0.4);
-      variant.crossover.rate *= (0.8 + Math.random() * 0.4);
-      variant.population.diversityThreshold *= (0.8 + Math.random() * 0.4);
+      variant.mutation.structuralRate *= this.random.nextRange(0.8, 1.2); // ±20% variation
+      variant.mutation.parametricRate *= this.random.nextRange(0.8, 1.2);
+      variant.crossover.rate *= this.random.nextRange(0.8, 1.2);
+      variant.population.diversityThreshold *= this.random.nextRange(0.8, 1.2);
       
       // Ensure bounds
       variant.mutation.structuralRate = Math.max(0.01, Math.min(0.5, variant.mutation.structuralRate));
@@ -580,6 +716,7 @@ export class MOSESPipeline {
     console.log(`  Best Fitness: ${result.bestGenome.fitness.toFixed(4)}`);
     console.log(`  Final Generation: ${result.finalStats.generation}`);
     console.log(`  Structure: ${result.bestGenome.structure.nodes.length} nodes, ${result.bestGenome.structure.edges.length} edges`);
+    console.log(`  Pareto Front: ${result.paretoFront?.length || 0} genomes`);
     console.log(`  Discoveries: ${result.insights.discoveries.length}`);
     console.log(`  Recommendations: ${result.insights.recommendations.length}`);
   }
@@ -0,0 +1,196 @@
+/**
+ * NSGA-II - Non-dominated sorting and crowding for multi-objective grammar evolution
+ *
+ * Implements the selection machinery of NSGA-II (Deb et al., 2002): fast
+ * non-dominated sorting, crowding distance and crowded comparison. A Pareto
+ * archive keeps the non-dominated genomes found over a whole run. The generic
+ * functions work on objective vectors whose components are all maximized;
+ * objectiveVector orients genome objectives that way.
+ */
+
+import { GrammarGenome, GrammarObjectives } from './types.js';
+
+/**
+ * Orients genome objectives so that every component is maximized
+ */
+export function objectiveVector(objectives: GrammarObjectives): number[] {
+  return [objectives.performance, -objectives.complexity, objectives.expressiveness, objectives.novelty];
+}
+
+/**
+ * Whether a is at least as good as b everywhere and strictly better somewhere
+ */
+export function dominates(a: number[], b: number[]): boolean {
+  let strictlyBetter = false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] < b[i]) return false;
+    if (a[i] > b[i]) strictlyBetter = true;
+  }
+  return strictlyBetter;
+}
+
+/**
+ * Sorts points into fronts of indices, best front first
+ */
+export function fastNonDominatedSort(points: number[][]): number[][] {
+  const dominated: number[][] = points.map(() => []);
+  const dominationCount = new Array<number>(points.length).fill(0);
+
+  for (let p = 0; p < points.length; p++) {
+    for (let q = p + 1; q < points.length; q++) {
+      if (dominates(points[p], points[q])) {
+        dominated[p].push(q);
+        dominationCount[q]++;
+      } else if (dominates(points[q], points[p])) {
+        dominated[q].push(p);
+        dominationCount[p]++;
+      }
+    }
+  }
+
+  const fronts: number[][] = [];
+  let front = points.map((_, i) => i).filter(i => dominationCount[i] === 0);
+  while (front.length > 0) {
+    fronts.push(front);
+    const next: number[] = [];
+    for (const p of front) {
+      for (const q of dominated[p]) {
+        if (--dominationCount[q] === 0) next.push(q);
+      }
+    }
+    front = next.sort((a, b) => a - b);
+  }
+
+  return fronts;
+}
+
+/**
+ * Crowding distance of each point within one front; boundary points are infinite
+ */
+export function crowdingDistance(points: number[][]): number[] {
+  const distances = new Array<number>(points.length).fill(0);
+  if (points.length <= 2) return distances.fill(Infinity);
+
+  for (let m = 0; m < points[0].length; m++) {
+    const order = points.map((_, i) => i).sort((a, b) => points[a][m] - points[b][m] || a - b);
+    const min = points[order[0]][m];
+    const max = points[order[order.length - 1]][m];
+    // An objective on which the front does not vary has no boundary points
+    if (max === min) continue;
+    distances[order[0]] = Infinity;
+    distances[order[order.length - 1]] = Infinity;
+
+    for (let k = 1; k < order.length - 1; k++) {
+      distances[order[k]] += (points[order[k + 1]][m] - points[order[k - 1]][m]) / (max - min);
+    }
+  }
+
+  return distances;
+}
+
+/**
+ * Crowded-comparison order: lower rank first, then larger crowding distance
+ */
+export function crowdedCompare(a: GrammarGenome, b: GrammarGenome): number {
+  const rankA = a.paretoRank ?? Infinity;
+  const rankB = b.paretoRank ?? Infinity;
+  if (rankA !== rankB) return rankA < rankB ? -1 : 1;
+  const distanceA = a.crowdingDistance ?? 0;
+  const distanceB = b.crowdingDistance ?? 0;
+  return distanceA === distanceB ? 0 : distanceA > distanceB ? -1 : 1;
+}
+
+/**
+ * Assigns paretoRank and crowdingDistance to each genome and returns its fronts
+ */
+export function rankGenomes(genomes: GrammarGenome[]): GrammarGenome[][] {
+  const points = genomes.map(genomeVector);
+
+  return fastNonDominatedSort(points).map((indices, rank) => {
+    const distances = crowdingDistance(indices.map(i => points[i]));
+    return indices.map((index, i) => {
+      genomes[index].paretoRank = rank;
+      genomes[index].crowdingDistance = distances[i];
+      return genomes[index];
+    });
+  });
+}
+
+/**
+ * NSGA-II environmental selection: whole fronts in rank order, with the front
+ * that does not fit truncated by crowding distance
+ */
+export function selectByNonDomination(genomes: GrammarGenome[], count: number): GrammarGenome[] {
+  const selected: GrammarGenome[] = [];
+
+  for (const front of rankGenomes(genomes)) {
+    if (selected.length >= count) break;
+    const ordered = [...front].sort(crowdedCompare);
+    selected.push(...ordered.slice(0, count - selected.length));
+  }
+
+  return selected;
+}
+
+/**
+ * Bounded archive of the non-dominated genomes seen so far
+ */
+export class ParetoArchive {
+  private members: GrammarGenome[] = [];
+  private capacity: number;
+
+  constructor(capacity: number = 100) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error(`Pareto archive capacity must be a positive integer, got ${capacity}`);
+    }
+    this.capacity = capacity;
+  }
+
+  /**
+   * Adds the candidates no member dominates and drops members they dominate.
+   * Over capacity, the most crowded members are removed one at a time.
+   */
+  update(candidates: GrammarGenome[]): void {
+    for (const candidate of candidates) {
+      if (this.members.some(member => member.id === candidate.id)) continue;
+      const vector = genomeVector(candidate);
+
+      const covered = this.members.some(member => {
+        const memberVector = genomeVector(member);
+        return dominates(memberVector, vector) || memberVector.every((value, i) => value === vector[i]);
+      });
+      if (covered) continue;
+
+      this.members = this.members.filter(member => !dominates(vector, genomeVector(member)));
+      this.members.push(candidate);
+    }
+
+    while (this.members.length > this.capacity) {
+      const distances = crowdingDistance(this.members.map(genomeVector));
+      let mostCrowded = 0;
+      for (let i = 1; i < distances.length; i++) {
+        if (distances[i] < distances[mostCrowded]) mostCrowded = i;
+      }
+      this.members.splice(mostCrowded, 1);
+    }
+  }
+
+  getFront(): GrammarGenome[] {
+    return [...this.members];
+  }
+
+  get size(): number {
+    return this.members.length;
+  }
+
+  clear(): void {
+    this.members = [];
+  }
+}
+
+function genomeVector(genome: GrammarGenome): number[] {
+  if (!genome.objectives) {
+    throw new Error(`Genome ${genome.id} has no objective scores`);
+  }
+  return objectiveVector(genome.objectives);
+}
@@ -369,6 +369,7 @@ ${phases.map((phase, i) =>
   private extractParetoData(result: EvolutionaryResult): any {
     return result.paretoFront?.map(genome => ({
       fitness: genome.fitness,
+      objectives: genome.objectives,
       complexity: genome.structure.nodes.length + genome.structure.edges.length,
       patterns: genome.structure.patterns.length
     })) || [];
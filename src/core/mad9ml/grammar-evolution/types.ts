@@ -18,6 +18,12 @@ export interface GrammarGenome {
   };
   parameters: GrammarParameters;
   fitness: number;
+  /** Objective scores, set alongside fitness */
+  objectives?: GrammarObjectives;
+  /** Non-domination rank (0 = Pareto-optimal) in multi-objective runs */
+  paretoRank?: number;
+  /** Crowding distance within the genome's front in multi-objective runs */
+  crowdingDistance?: number;
   generation: number;
   lineage: string[];
 }
@@ -97,6 +103,16 @@ export interface GrammarFitnessMetrics {
   };
 }
 
+/**
+ * Objectives traded off by multi-objective (NSGA-II) selection
+ */
+export interface GrammarObjectives {
+  performance: number;         // Maximized
+  complexity: number;          // Minimized
+  expressiveness: number;      // Maximized
+  novelty: number;             // Maximized
+}
+
 /**
  * Evolution parameters for MOSES algorithm
  */
@@ -119,6 +135,7 @@ export interface GrammarEvolutionParams {
     method: 'tournament' | 'roulette' | 'rank' | 'pareto';
     pressure: number;
     paretoFronts: boolean;     // Multi-objective optimization
+    archiveSize?: number;      // Pareto archive capacity (default 100)
   };
   termination: {
     maxGenerations: number;
@@ -132,6 +149,7 @@ export interface GrammarEvolutionParams {
     maxDepth: number;
     minPerformance: number;
   };
+  seed?: number;               // PRNG seed for reproducible runs
 }
 
 /**
@@ -156,6 +174,59 @@ export interface MOSESConfig {
     compressionThreshold: number;
     garbageCollectionInterval: number;
   };
+  checkpoint?: {
+    directory: string;         // Where checkpoint files are written
+    interval: number;          // Generations between checkpoints
+    keep?: number;             // Most recent checkpoints to keep (default 3)
+  };
+  islands?: {
+    count: number;             // Independent populations (island model when > 1)
+    migrationInterval: number; // Generations between migrations
+    migrationSize: number;     // Genomes each island sends per migration
+    topology?: 'ring' | 'fully_connected';
+  };
+  seed?: number;               // PRNG seed; overrides the evolution params seed
+}
+
+/**
+ * Restorable state of a GrammarFitnessEvaluator
+ */
+export interface FitnessEvaluatorState {
+  evaluationHistory: Array<[string, GrammarFitnessMetrics]>;
+}
+
+/**
+ * Restorable state of a GrammarEvolutionEngine
+ */
+export interface EvolutionEngineState {
+  generation: number;
+  params: GrammarEvolutionParams;
+  population: GrammarGenome[];
+  bestGenome?: GrammarGenome;
+  paretoFront: GrammarGenome[];
+  evolutionHistory: EvolutionStats[];
+  mutationEffectiveness: Record<string, number>;
+  idCounter: number;
+  randomState: number[];
+  evaluator: FitnessEvaluatorState;
+}
+
+/**
+ * Checkpoint of a MOSES run, written periodically and read by resume()
+ */
+export interface MOSESCheckpoint {
+  /** Checkpoint format version */
+  version: number;
+  /** When the checkpoint was written (epoch ms) */
+  createdAt: number;
+  generation: number;
+  config: MOSESConfig;
+  evolutionParams: GrammarEvolutionParams;
+  testCorpus: GrammarTestCase[] | null;
+  /** Pipeline random state; island seeds are drawn from it */
+  randomState: number[];
+  /** One engine state per island, or a single state without the island model */
+  islands: EvolutionEngineState[];
 }
 
 /**
@@ -198,6 +269,7 @@ export interface EvolutionStats {
  */
 export interface EvolutionaryResult {
   bestGenome: GrammarGenome;
+  /** Non-dominated genomes found over the whole run */
   paretoFront?: GrammarGenome[];
   finalStats: EvolutionStats;
   convergenceHistory: EvolutionStats[];
@@ -235,4 +307,33 @@ export interface GrammarCrossover {
   parentB: string;
   offspring: string[];
   novelty: number;
-}
\ No newline at end of file
+}
+
+/**
+ * Sequence of agentic primitives a grammar is tested against
+ */
+export interface GrammarTestCase {
+  id?: string;
+  /** Primitives (or just their types) in the order they occur */
+  sequence: Array<AgenticPrimitive | AgenticPrimitiveType>;
+  /** Whether the sequence belongs to the target language (default true) */
+  valid?: boolean;
+}
+
+/**
+ * Outcome of parsing one sequence with a grammar genome
+ */
+export interface GrammarParseResult {
+  accepted: boolean;
+  /** Tokens covered by the longest parse found (the full length when accepted) */
+  consumed: number;
+  length: number;
+  /** Node IDs matched by the best parse, one per covered token */
+  path: string[];
+  /** IDs of the patterns applied by the best parse */
+  patternsApplied: string[];
+  /** Geometric mean of the edge weights and pattern applicabilities used */
+  confidence: number;
+  /** Transitions examined; the deterministic latency measure of the parse */
+  steps: number;
+}
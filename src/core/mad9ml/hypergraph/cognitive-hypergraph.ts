@@ -5,8 +5,18 @@
  * between concepts, memories, patterns, and goals in the Marduk cognitive architecture.
  */
 
-import { CognitiveHypergraph, CognitiveNode, CognitiveEdge, Tensor } from '../types.js';
+import { CognitiveHypergraph, CognitiveNode, CognitiveEdge, Tensor, TensorState } from '../types.js';
 import { makeTensor, randomTensor, addTensors, scaleTensor, cosineSimilarity } from '../tensor/operations.js';
+import { SeededRandom, defaultRandom } from '../random/seeded-random.js';
+
+/**
+ * JSON-serializable hypergraph, as produced by CognitiveHypergraphImpl.toJSON()
+ */
+export interface HypergraphState {
+  nodes: Array<Omit<CognitiveNode, 'state'> & { state: TensorState }>;
+  edges: CognitiveEdge[];
+  clusters: Array<{ id: string; nodeIds: string[] }>;
+}
 
 /**
  * Core hypergraph implementation for cognitive relationships
@@ -15,8 +25,10 @@ export class CognitiveHypergraphImpl implements CognitiveHypergraph {
   public nodes: Map<string, CognitiveNode>;
   public edges: Map<string, CognitiveEdge>;
   public clusters: Map<string, string[]>;
+  private random: SeededRandom;
   
-  constructor() {
+  constructor(random: SeededRandom = defaultRandom) {
+    this.random = random;
     this.nodes = new Map();
     this.edges = new Map();
     this.clusters = new Map();
@@ -38,7 +50,7 @@ export class CognitiveHypergraphImpl implements CognitiveHypergraph {
     stateShape: number[],
     metadata: Record<string, any> = {}
   ): CognitiveNode {
-    const state = randomTensor(stateShape, 0.1); // Small random initialization
+    const state = randomTensor(stateShape, 0.1, this.random); // Small random initialization
     const node: CognitiveNode = {
       id,
       type,
@@ -341,7 +353,7 @@ export class CognitiveHypergraphImpl implements CognitiveHypergraph {
   /**
    * Exports the hypergraph to a JSON-serializable format
    */
-  toJSON(): any {
+  toJSON(): HypergraphState {
     return {
       nodes: Array.from(this.nodes.entries()).map(([id, node]) => ({
         id,
@@ -363,8 +375,8 @@ export class CognitiveHypergraphImpl implements CognitiveHypergraph {
   /**
    * Imports a hypergraph from a JSON format
    */
-  static fromJSON(data: any): CognitiveHypergraphImpl {
-    const hypergraph = new CognitiveHypergraphImpl();
+  static fromJSON(data: HypergraphState, random: SeededRandom = defaultRandom): CognitiveHypergraphImpl {
+    const hypergraph = new CognitiveHypergraphImpl(random);
     
     // Import nodes
     for (const nodeData of data.nodes) {
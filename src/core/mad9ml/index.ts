@@ -6,12 +6,14 @@
 export { Mad9mlSystem } from './mad9ml-core.js';
 // Import for internal use
 import { Mad9mlSystem } from './mad9ml-core.js';
+import type { Mad9mlConfig } from './types.js';
 
 // Types
 export type {
   Tensor,
   TensorShape,
   TensorData,
+  TensorType,
   CognitiveNode,
   CognitiveEdge,
   CognitiveHypergraph,
@@ -32,9 +34,13 @@ export {
   zeroTensor,
   onesTensor,
   addTensors,
+  subtractTensors,
   multiplyTensors,
+  divideTensors,
+  mapTensor,
   scaleTensor,
   matmul,
+  batchMatmul,
   softmax,
   relu,
   tanh,
@@ -42,28 +48,109 @@ export {
   norm,
   normalize,
   cosineSimilarity,
-  cloneTensor
+  cloneTensor,
+  broadcastShapes,
+  broadcastTo,
+  sumToShape,
+  reduceSum,
+  reduceMean,
+  reduceMax,
+  permute,
+  transpose,
+  slice,
+  concat,
+  promoteTypes,
+  castTensor,
+  float32ToFloat16Bits,
+  float16BitsToFloat32,
+  toFloat16Array,
+  fromFloat16Array
 } from './tensor/operations.js';
 
+// Automatic differentiation
+export {
+  GradientTape,
+  SGDOptimizer,
+  AdamOptimizer,
+  minimize
+} from './tensor/autodiff.js';
+export type { Variable, Optimizer } from './tensor/autodiff.js';
+
+// Random number generation
+export { SeededRandom, defaultRandom } from './random/seeded-random.js';
+
+// Channel RPC
+export { ChannelClient, serveChannel } from './channel/channel-rpc.js';
+export type {
+  StructuredCloneChannel,
+  ChannelMethods,
+  ChannelRequest,
+  ChannelResult,
+  ChannelClientOptions,
+  ServeChannelOptions
+} from './channel/channel-rpc.js';
+
+// Snapshots
+export {
+  SNAPSHOT_FORMAT_VERSION,
+  encodeSnapshot,
+  decodeSnapshot,
+  packTensorData
+} from './persistence/snapshot.js';
+export type { Mad9mlSnapshot } from './persistence/snapshot.js';
+
+// GGUF tensor files
+export {
+  GGUF_VERSION,
+  GGUF_DEFAULT_ALIGNMENT,
+  GGUFValueType,
+  GgmlType,
+  encodeGGUF,
+  decodeGGUF,
+  encodeCognitiveState,
+  decodeCognitiveState,
+  encodeKernelWeights,
+  decodeKernelWeights
+} from './persistence/gguf.js';
+export type {
+  GGUFValue,
+  GGUFTypedValue,
+  GGUFFile,
+  CognitiveTensorGroups
+} from './persistence/gguf.js';
+
 // Hypergraph
 export { CognitiveHypergraphImpl } from './hypergraph/cognitive-hypergraph.js';
 
 // Persona evolution
 export { PersonaEvolution } from './persona/evolution.js';
+export type { PersonaEvolutionState } from './persona/evolution.js';
 
 // Attention allocation
 export { ECANAttentionAllocator } from './attention/ecan-allocator.js';
+export type { AttentionStrategy } from './attention/ecan-allocator.js';
 
 // Meta-cognitive engine
 export { MetaCognitiveEngine } from './meta-cognitive/reflection-engine.js';
-export type { ReflectionResult, SelfModification } from './meta-cognitive/reflection-engine.js';
+export type { ReflectionResult, SelfModification, MetaCognitiveHistory } from './meta-cognitive/reflection-engine.js';
+export { ModificationJournal } from './meta-cognitive/modification-journal.js';
+export type {
+  ModificationJournalEntry,
+  ModificationInverse,
+  ModificationJournalState,
+  ModificationStatus
+} from './meta-cognitive/modification-journal.js';
 
 // Agentic Grammar System
 export { 
   DistributedAgenticGrammarSystem, 
   createDefaultAgenticGrammarConfig,
   AgenticGrammarExtractor,
+  AstPrimitiveExtractor,
   CognitiveKernelRegistry,
+  KernelRuntime,
+  compileKernel,
+  dependencyEdges,
   DistributedOrchestrationMesh
 } from './agentic-grammar/index.js';
 export type {
@@ -73,6 +160,8 @@ export type {
   GgmlKernel,
   KernelPort,
   KernelRegistryEntry,
+  KernelEdge,
+  KernelExecutionReport,
   TensorMessage,
   KernelCluster,
   DistributedAttentionState,
@@ -82,7 +171,7 @@ export type {
 /**
  * Creates a default Mad9ml configuration
  */
-export function createDefaultConfig() {
+export function createDefaultConfig(): Mad9mlConfig {
   return {
     tensorPrecision: 'f32',
     memoryCapacity: 1000,
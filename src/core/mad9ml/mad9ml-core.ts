@@ -13,14 +13,53 @@ import {
   PersonaTensor, 
   MetaCognitiveTensor,
   EvolutionParams,
-  AttentionParams
+  AttentionParams,
+  Tensor,
+  CognitiveNode,
+  CognitiveEdge
 } from './types.js';
 
-import { makeTensor, randomTensor, addTensors, scaleTensor } from './tensor/operations.js';
+import { makeTensor, randomTensor, addTensors, scaleTensor, norm } from './tensor/operations.js';
 import { CognitiveHypergraphImpl } from './hypergraph/cognitive-hypergraph.js';
+import { SeededRandom } from './random/seeded-random.js';
 import { PersonaEvolution } from './persona/evolution.js';
-import { ECANAttentionAllocator } from './attention/ecan-allocator.js';
-import { MetaCognitiveEngine, ReflectionResult } from './meta-cognitive/reflection-engine.js';
+import { ECANAttentionAllocator, AttentionStrategy } from './attention/ecan-allocator.js';
+import { MetaCognitiveEngine, ReflectionResult, SelfModification } from './meta-cognitive/reflection-engine.js';
+import {
+  ModificationJournal,
+  ModificationJournalEntry,
+  ModificationInverse,
+  ModificationStatus
+} from './meta-cognitive/modification-journal.js';
+import {
+  Mad9mlSnapshot,
+  SNAPSHOT_FORMAT_VERSION,
+  encodeSnapshot,
+  decodeSnapshot,
+  packTensorData
+} from './persistence/snapshot.js';
+import { encodeCognitiveState, decodeCognitiveState } from './persistence/gguf.js';
+
+/**
+ * Effect of an applied self-modification and the data that reverses it
+ */
+interface AppliedModification {
+  description: string;
+  inverse: ModificationInverse;
+}
+
+/**
+ * Valid ranges for self-tunable parameters
+ */
+const PARAMETER_BOUNDS: Record<string, [number, number]> = {
+  mutationRate: [0.001, 0.5],
+  driftFactor: [0.001, 0.1],
+  fitnessThreshold: [0, 1],
+  adaptationSpeed: [0, 1],
+  totalResources: [1, Number.MAX_VALUE],
+  decayRate: [0, 1],
+  spreadingFactor: [0, 1]
+};
 
 /**
  * Main Mad9ml cognitive system orchestrator
@@ -32,15 +71,18 @@ export class Mad9mlSystem {
   private personaEvolution: PersonaEvolution;
   private attentionAllocator: ECANAttentionAllocator;
   private metaCognitiveEngine: MetaCognitiveEngine;
+  private modificationJournal: ModificationJournal = new ModificationJournal(entry => this.revertModification(entry));
+  private random: SeededRandom;
   private isInitialized: boolean = false;
   private cycleCount: number = 0;
 
   constructor(config: Mad9mlConfig) {
     this.config = config;
+    this.random = new SeededRandom(config.seed);
     
     // Initialize subsystem components
-    this.hypergraph = new CognitiveHypergraphImpl();
-    this.personaEvolution = new PersonaEvolution(config.evolutionParams);
+    this.hypergraph = new CognitiveHypergraphImpl(this.random);
+    this.personaEvolution = new PersonaEvolution(config.evolutionParams, this.random);
     this.attentionAllocator = new ECANAttentionAllocator(config.attentionParams);
     this.metaCognitiveEngine = new MetaCognitiveEngine(config);
   }
@@ -193,6 +235,12 @@ export class Mad9mlSystem {
     const reflection = this.metaCognitiveEngine.performSelfReflection(this.cognitiveState);
     console.log(`🪞 Self-reflection complete - Confidence: ${(reflection.confidenceLevel * 100).toFixed(1)}%`);
 
+    // Keep or roll back the previous cycle's modifications depending on how performance moved
+    const { rolledBack } = this.modificationJournal.evaluatePending(reflection.performanceAssessment.overall);
+    if (rolledBack.length > 0) {
+      console.log(`↩️ Rolled back ${rolledBack.length} modification(s) after performance dropped`);
+    }
+
     // 2. Update attention allocation based on task demands
     const taskPerformance = Object.values(reflection.performanceAssessment.bySubsystem);
     const attentionAllocation = this.attentionAllocator.updateAttentionAllocation(
@@ -258,9 +306,9 @@ export class Mad9mlSystem {
     const stimuli = new Array(numStimuli);
     
     for (let i = 0; i < numStimuli; i++) {
-      // Mix of random and periodic stimuli
-      const random = Math.random() * 0.5;
-      const periodic = Math.sin(Date.now() / 1000 + i) * 0.3 + 0.3;
+      // Mix of random and periodic stimuli, periodic over cycles so runs replay exactly
+      const random = this.random.next() * 0.5;
+      const periodic = Math.sin(this.cycleCount + i) * 0.3 + 0.3;
       stimuli[i] = random + periodic;
     }
     
@@ -290,55 +338,282 @@ export class Mad9mlSystem {
     const modifications = this.metaCognitiveEngine.generateSelfModifications(reflection);
     
     for (const modification of modifications) {
-      console.log(`🔧 Applying modification: ${modification.type} -> ${modification.target}`);
-      
-      switch (modification.type) {
-        case 'parameter_adjustment':
-          await this.adjustParameters(modification);
-          break;
-        case 'structure_change':
-          await this.modifyStructure(modification);
-          break;
-        case 'strategy_change':
-          await this.changeStrategy(modification);
-          break;
-        case 'goal_modification':
-          await this.modifyGoals(modification);
-          break;
-      }
+      await this.applyModification(modification, reflection.performanceAssessment.overall);
+    }
+  }
+
+  /**
+   * Applies a single self-modification and journals it for possible rollback.
+   * Returns null if the modification had no effect.
+   */
+  async applyModification(
+    modification: SelfModification,
+    baselinePerformance: number
+  ): Promise<ModificationJournalEntry | null> {
+    if (!this.isInitialized) {
+      throw new Error('Mad9ml system not initialized');
+    }
+
+    console.log(`🔧 Applying modification: ${modification.type} -> ${modification.target}`);
+
+    let applied: AppliedModification | null = null;
+    switch (modification.type) {
+      case 'parameter_adjustment':
+        applied = await this.adjustParameters(modification);
+        break;
+      case 'structure_change':
+        applied = await this.modifyStructure(modification);
+        break;
+      case 'strategy_change':
+        applied = await this.changeStrategy(modification);
+        break;
+      case 'goal_modification':
+        applied = await this.modifyGoals(modification);
+        break;
     }
+
+    if (!applied) return null;
+
+    return this.modificationJournal.record(
+      this.cycleCount,
+      modification,
+      applied.description,
+      baselinePerformance,
+      applied.inverse
+    );
   }
 
   /**
-   * Adjusts system parameters
+   * Rolls back all modifications that have not yet been evaluated
    */
-  private async adjustParameters(modification: any): Promise<void> {
-    // Implement parameter adjustment logic
-    console.log(`⚙️ Parameter adjustment: ${modification.target}`);
+  rollbackModifications(): ModificationJournalEntry[] {
+    const rolledBack = this.modificationJournal.rollbackPending();
+    if (rolledBack.length > 0) {
+      console.log(`↩️ Rolled back ${rolledBack.length} modification(s)`);
+    }
+    return rolledBack;
   }
 
   /**
-   * Modifies cognitive structure
+   * Gets the self-modification journal, optionally filtered by status
    */
-  private async modifyStructure(modification: any): Promise<void> {
-    // Implement structure modification logic
-    console.log(`🏗️ Structure modification: ${modification.target}`);
+  getModificationJournal(status?: ModificationStatus): ModificationJournalEntry[] {
+    return this.modificationJournal.getEntries(status);
   }
 
   /**
-   * Changes cognitive strategies
+   * Adjusts evolution or attention parameters.
+   * Targets are 'persona.<param>' or 'attention.<param>'; the modification
+   * holds `set` (absolute), `increase` (relative) or `adjust` (additive).
    */
-  private async changeStrategy(modification: any): Promise<void> {
-    // Implement strategy change logic
-    console.log(`🎭 Strategy change: ${modification.target}`);
+  private async adjustParameters(modification: SelfModification): Promise<AppliedModification | null> {
+    const [group, key] = modification.target.split('.');
+    const params: Record<string, any> | undefined =
+      group === 'persona' ? this.config.evolutionParams :
+      group === 'attention' ? this.config.attentionParams :
+      undefined;
+
+    if (!params || typeof params[key] !== 'number') {
+      console.warn(`⚠️ Unknown parameter target: ${modification.target}`);
+      return null;
+    }
+
+    const { set, increase, adjust } = modification.modification || {};
+    const previous: number = params[key];
+    let next = typeof set === 'number' ? set
+      : typeof increase === 'number' ? previous * (1 + increase)
+      : typeof adjust === 'number' ? previous + adjust
+      : previous;
+
+    const [min, max] = PARAMETER_BOUNDS[key] || [-Number.MAX_VALUE, Number.MAX_VALUE];
+    next = Math.max(min, Math.min(max, next));
+    if (next === previous) return null;
+
+    params[key] = next;
+    console.log(`⚙️ Parameter adjustment: ${modification.target} ${previous.toFixed(4)} -> ${next.toFixed(4)}`);
+
+    return {
+      description: `${modification.target}: ${previous} -> ${next}`,
+      inverse: { type: 'parameter_adjustment', group: group === 'persona' ? 'persona' : 'attention', key, previous }
+    };
   }
 
   /**
-   * Modifies goals and objectives
+   * Modifies the cognitive hypergraph structure. Supports `addNodes`
+   * (specs connected to an existing node), `pruneBelow` (removes non-core
+   * memory nodes whose state norm falls below the threshold) and
+   * `enhanceConsolidation` (clusters the remaining non-core memories).
    */
-  private async modifyGoals(modification: any): Promise<void> {
-    // Implement goal modification logic
+  private async modifyStructure(modification: SelfModification): Promise<AppliedModification | null> {
+    const spec = modification.modification || {};
+    const hypergraph = this.hypergraph;
+    const previousClusters = Array.from(hypergraph.clusters.entries())
+      .map(([id, nodeIds]): [string, string[]] => [id, [...nodeIds]]);
+    const addedNodes: string[] = [];
+    const removedNodes: CognitiveNode[] = [];
+    const removedEdges: CognitiveEdge[] = [];
+    let clusterId: string | null = null;
+
+    for (const nodeSpec of spec.addNodes || []) {
+      if (hypergraph.nodes.has(nodeSpec.id)) continue;
+      hypergraph.createNode(nodeSpec.id, nodeSpec.type, nodeSpec.shape, { created: Date.now(), selfModified: true });
+      addedNodes.push(nodeSpec.id);
+      if (nodeSpec.connectTo && hypergraph.nodes.has(nodeSpec.connectTo)) {
+        hypergraph.createEdge(
+          `${nodeSpec.id}_to_${nodeSpec.connectTo}`,
+          'associative',
+          nodeSpec.id,
+          nodeSpec.connectTo,
+          nodeSpec.weight ?? 0.5
+        );
+      }
+    }
+
+    if (typeof spec.pruneBelow === 'number') {
+      for (const node of this.getConsolidatableMemories()) {
+        if (norm(node.state) < spec.pruneBelow) {
+          removedEdges.push(...hypergraph.getNodeEdges(node.id));
+          removedNodes.push(node);
+          hypergraph.removeNode(node.id);
+        }
+      }
+    }
+
+    if (spec.enhanceConsolidation) {
+      const memories = this.getConsolidatableMemories().map(node => node.id);
+      if (memories.length > 1) {
+        clusterId = `memory_consolidation_${this.cycleCount}`;
+        for (let suffix = 1; hypergraph.clusters.has(clusterId); suffix++) {
+          clusterId = `memory_consolidation_${this.cycleCount}_${suffix}`;
+        }
+        hypergraph.createCluster(clusterId, memories);
+      }
+    }
+
+    if (addedNodes.length === 0 && removedNodes.length === 0 && !clusterId) {
+      return null;
+    }
+
+    const description = [
+      addedNodes.length > 0 ? `added ${addedNodes.length} node(s)` : null,
+      removedNodes.length > 0 ? `pruned ${removedNodes.length} memory node(s)` : null,
+      clusterId ? `created cluster ${clusterId}` : null
+    ].filter(Boolean).join(', ');
+    console.log(`🏗️ Structure modification: ${modification.target} (${description})`);
+
+    return {
+      description,
+      inverse: { type: 'structure_change', addedNodes, removedNodes, removedEdges, previousClusters }
+    };
+  }
+
+  /**
+   * Changes cognitive strategies; currently the attention allocation strategy
+   */
+  private async changeStrategy(modification: SelfModification): Promise<AppliedModification | null> {
+    if (modification.target !== 'attention.strategy') {
+      console.warn(`⚠️ Unknown strategy target: ${modification.target}`);
+      return null;
+    }
+
+    const allocator = this.attentionAllocator;
+    const previous = allocator.getStrategy();
+    const next = modification.modification?.strategy as AttentionStrategy;
+    if (next === previous) return null;
+
+    try {
+      allocator.setStrategy(next);
+    } catch (error) {
+      console.warn(`⚠️ Strategy change rejected: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+    console.log(`🎭 Strategy change: ${modification.target} ${previous} -> ${next}`);
+
+    return {
+      description: `${modification.target}: ${previous} -> ${next}`,
+      inverse: { type: 'strategy_change', previous }
+    };
+  }
+
+  /**
+   * Re-weights task goals in the active task tensor, either with explicit
+   * per-task `weights` or by shifting weight toward attended tasks by `focus`
+   */
+  private async modifyGoals(modification: SelfModification): Promise<AppliedModification | null> {
+    const spec = modification.modification || {};
+    const active = this.cognitiveState.task.active;
+    const data = active.data as Float32Array;
+    const numTasks = active.shape[0];
+    const rowSize = active.size / numTasks;
+    const attention = this.cognitiveState.task.attention.data;
+
+    const weights: number[] = Array.isArray(spec.weights)
+      ? spec.weights
+      : Array.from({ length: numTasks }, (_, i) =>
+          1 + (spec.focus || 0) * ((attention[i] ?? 1 / numTasks) * numTasks - 1));
+
+    const previous = new Float32Array(data);
+    let changed = false;
+    for (let i = 0; i < numTasks; i++) {
+      const weight = Math.max(0, weights[i] ?? 1);
+      for (let j = i * rowSize; j < (i + 1) * rowSize; j++) {
+        const value = data[j] * weight;
+        if (value !== data[j]) changed = true;
+        data[j] = value;
+      }
+    }
+
+    if (!changed) return null;
     console.log(`🎯 Goal modification: ${modification.target}`);
+
+    return {
+      description: `${modification.target}: re-weighted ${numTasks} task goals`,
+      inverse: { type: 'goal_modification', previous }
+    };
+  }
+
+  /**
+   * Reverts a journaled modification from its inverse data
+   */
+  private revertModification(entry: ModificationJournalEntry): void {
+    const inverse = entry.inverse;
+    console.log(`↩️ Reverting modification: ${entry.modification.type} -> ${entry.modification.target}`);
+
+    switch (inverse.type) {
+      case 'parameter_adjustment': {
+        const params: Record<string, any> = inverse.group === 'persona'
+          ? this.config.evolutionParams
+          : this.config.attentionParams;
+        params[inverse.key] = inverse.previous;
+        break;
+      }
+      case 'structure_change': {
+        const hypergraph = this.hypergraph;
+        inverse.addedNodes.forEach(nodeId => hypergraph.removeNode(nodeId));
+        inverse.removedNodes.forEach(node => hypergraph.addNode(node));
+        inverse.removedEdges.forEach(edge => {
+          if (!hypergraph.edges.has(edge.id)) hypergraph.addEdge(edge);
+        });
+        hypergraph.clusters = new Map(
+          inverse.previousClusters.map(([id, nodeIds]) => [id, [...nodeIds]])
+        );
+        break;
+      }
+      case 'strategy_change':
+        this.attentionAllocator.setStrategy(inverse.previous);
+        break;
+      case 'goal_modification':
+        (this.cognitiveState.task.active.data as Float32Array).set(inverse.previous);
+        break;
+    }
+  }
+
+  /**
+   * Memory nodes that self-modification may consolidate or prune
+   */
+  private getConsolidatableMemories(): CognitiveNode[] {
+    return Array.from(this.hypergraph.nodes.values())
+      .filter(node => node.type === 'memory' && !node.metadata.core);
   }
 
   /**
@@ -348,7 +623,7 @@ export class Mad9mlSystem {
     console.log(`💾 Adding ${type} memory:`, content);
     
     // Create memory node in hypergraph
-    const memoryId = `memory_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const memoryId = this.createNodeId('memory');
     this.hypergraph.createNode(
       memoryId,
       'memory',
@@ -373,12 +648,13 @@ export class Mad9mlSystem {
     console.log(`📝 Adding task: ${description} (Priority: ${priority})`);
     
     // Create task node in hypergraph
-    const taskId = `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const taskId = this.createNodeId('task');
+    const slot = this.assignTaskSlot(priority);
     this.hypergraph.createNode(
       taskId,
       'action',
       [4], // Simple 4D task encoding
-      { description, priority, dependencies, created: Date.now() }
+      { description, priority, dependencies, slot, created: Date.now() }
     );
     
     // Connect to action planner
@@ -391,6 +667,39 @@ export class Mad9mlSystem {
     );
   }
 
+  /**
+   * Draws an unused node ID from the seeded generator, so seeded runs replay
+   * with the same IDs
+   */
+  private createNodeId(prefix: string): string {
+    let id: string;
+    do {
+      id = `${prefix}_${this.random.nextInt(0x100000000).toString(36)}`;
+    } while (this.hypergraph.nodes.has(id));
+    return id;
+  }
+
+  /**
+   * Writes a task's priority into the first free row of the active task
+   * tensor, returning the row index or null when all rows are occupied
+   */
+  private assignTaskSlot(priority: number): number | null {
+    if (!this.cognitiveState) return null;
+
+    const active = this.cognitiveState.task.active;
+    const data = active.data as Float32Array;
+    const rowSize = active.size / active.shape[0];
+
+    for (let slot = 0; slot < active.shape[0]; slot++) {
+      const row = data.subarray(slot * rowSize, (slot + 1) * rowSize);
+      if (row.every(value => value === 0)) {
+        row.fill(priority);
+        return slot;
+      }
+    }
+    return null;
+  }
+
   /**
    * Gets current system statistics
    */
@@ -518,6 +827,154 @@ export class Mad9mlSystem {
     return serialized;
   }
 
+  /**
+   * Captures a versioned snapshot of the complete system state
+   */
+  createSnapshot(): Mad9mlSnapshot {
+    if (!this.isInitialized) {
+      throw new Error('Mad9ml system not initialized');
+    }
+
+    return {
+      version: SNAPSHOT_FORMAT_VERSION,
+      createdAt: Date.now(),
+      config: JSON.parse(JSON.stringify(this.config)),
+      cycleCount: this.cycleCount,
+      cognitiveState: {
+        memory: this.copyTensorGroup(this.cognitiveState.memory),
+        task: this.copyTensorGroup(this.cognitiveState.task),
+        persona: this.copyTensorGroup(this.cognitiveState.persona),
+        metaCognitive: this.copyTensorGroup(this.cognitiveState.metaCognitive),
+        timestamp: this.cognitiveState.timestamp
+      },
+      hypergraph: packTensorData(this.hypergraph.toJSON()),
+      attentionState: packTensorData(this.attentionAllocator.exportState()),
+      personaEvolution: this.personaEvolution.exportState(),
+      metaCognitive: this.metaCognitiveEngine.exportState(),
+      modificationJournal: this.modificationJournal.exportState(),
+      randomState: this.random.getState()
+    };
+  }
+
+  /**
+   * Encodes a snapshot of the complete system state in binary form
+   */
+  saveSnapshot(): Buffer {
+    return encodeSnapshot(this.createSnapshot());
+  }
+
+  /**
+   * Restores the complete system state from a snapshot, replacing the current state
+   */
+  importState(snapshot: Mad9mlSnapshot | Uint8Array): void {
+    const data = snapshot instanceof Uint8Array ? decodeSnapshot(snapshot) : snapshot;
+    if (data.version > SNAPSHOT_FORMAT_VERSION) {
+      throw new Error(`Unsupported snapshot version ${data.version} (latest supported is ${SNAPSHOT_FORMAT_VERSION})`);
+    }
+
+    // Subsystems share the config's parameter objects, so rebuild them together
+    this.config = JSON.parse(JSON.stringify(data.config));
+    this.random = new SeededRandom(this.config.seed);
+    if (data.randomState) {
+      this.random.setState(data.randomState);
+    }
+    this.hypergraph = CognitiveHypergraphImpl.fromJSON(data.hypergraph, this.random);
+    this.personaEvolution = new PersonaEvolution(this.config.evolutionParams, this.random);
+    this.attentionAllocator = new ECANAttentionAllocator(this.config.attentionParams);
+    this.metaCognitiveEngine = new MetaCognitiveEngine(this.config);
+
+    const state = data.cognitiveState;
+    this.cognitiveState = {
+      memory: this.copyTensorGroup(state.memory),
+      task: this.copyTensorGroup(state.task),
+      persona: this.copyTensorGroup(state.persona),
+      metaCognitive: this.copyTensorGroup(state.metaCognitive),
+      hypergraph: this.hypergraph,
+      timestamp: state.timestamp
+    };
+
+    if (data.attentionState) {
+      this.attentionAllocator.importState(data.attentionState);
+    }
+    this.personaEvolution.importState(data.personaEvolution);
+    this.metaCognitiveEngine.importState(data.metaCognitive, this.cognitiveState.metaCognitive);
+
+    this.modificationJournal = new ModificationJournal(entry => this.revertModification(entry));
+    if (data.modificationJournal) {
+      this.modificationJournal.importState(data.modificationJournal);
+    }
+    this.cycleCount = data.cycleCount;
+    this.isInitialized = true;
+    console.log(`💾 Mad9ml state restored at cycle ${this.cycleCount}`);
+  }
+
+  /**
+   * Exports the cognitive state tensors as a GGUF file for ggml tooling
+   */
+  exportGGUF(): Buffer {
+    if (!this.isInitialized) {
+      throw new Error('Mad9ml system not initialized');
+    }
+
+    return encodeCognitiveState(this.cognitiveState, {
+      'mad9ml.cycle_count': this.cycleCount
+    });
+  }
+
+  /**
+   * Loads cognitive state tensor values from a GGUF file. Tensors are updated
+   * in place (subsystems hold references to them), so shapes must match; the
+   * hypergraph and subsystem state are kept.
+   */
+  importGGUF(data: Uint8Array): void {
+    if (!this.isInitialized) {
+      throw new Error('Mad9ml system not initialized');
+    }
+
+    const groups = decodeCognitiveState(data);
+    const updates: Array<[Tensor, Tensor]> = [];
+
+    for (const group of Object.keys(groups) as Array<keyof typeof groups>) {
+      const current: Record<string, Tensor> = { ...this.cognitiveState[group] };
+      for (const [name, loaded] of Object.entries<Tensor>({ ...groups[group] })) {
+        const target = current[name];
+        if (target.shape.join(',') !== loaded.shape.join(',')) {
+          throw new Error(`GGUF tensor ${group}.${name} has shape [${loaded.shape}], expected [${target.shape}]`);
+        }
+        updates.push([target, loaded]);
+      }
+    }
+
+    for (const [target, loaded] of updates) {
+      (target.data as Float32Array).set(loaded.data);
+    }
+    console.log('💾 Mad9ml cognitive tensors loaded from GGUF');
+  }
+
+  /**
+   * Creates a ready-to-run system from a snapshot
+   */
+  static fromSnapshot(snapshot: Mad9mlSnapshot | Uint8Array): Mad9mlSystem {
+    const data = snapshot instanceof Uint8Array ? decodeSnapshot(snapshot) : snapshot;
+    const system = new Mad9mlSystem(data.config);
+    system.importState(data);
+    return system;
+  }
+
+  /**
+   * Deep-copies a group of tensors, keeping Float32 data
+   */
+  private copyTensorGroup<T extends { [K in keyof T]: Tensor }>(tensorGroup: T): T {
+    const copied = { ...tensorGroup };
+
+    for (const key of Object.keys(tensorGroup) as Array<keyof T>) {
+      const tensor = tensorGroup[key];
+      copied[key] = makeTensor(tensor.shape, new Float32Array(tensor.data), tensor.type) as T[keyof T];
+    }
+
+    return copied;
+  }
+
   /**
    * Demonstrates the mad9ml system capabilities
    */
@@ -531,7 +988,7 @@ export class Mad9mlSystem {
       
       // Add some dynamic content
       this.addMemory('episodic', `Mad experiment ${i + 1} - Eureka moment detected!`);
-      this.addTask(`Execute brilliant scheme ${i + 1}`, Math.random() * 0.8 + 0.2);
+      this.addTask(`Execute brilliant scheme ${i + 1}`, this.random.next() * 0.8 + 0.2);
       
       // Run cognitive cycle
       const results = await this.cognitiveCycle();
@@ -0,0 +1,96 @@
+/**
+ * Graph Analytics Tests
+ *
+ * Tests for centrality, clustering, diameter and Louvain community detection
+ * on small graphs with known values
+ */
+
+import {
+  AdjacencyGraph,
+  buildUndirectedGraph,
+  betweennessCentrality,
+  closenessCentrality,
+  degreeCentrality,
+  diameter,
+  eigenvectorCentrality,
+  globalClustering,
+  localClustering,
+  louvainCommunities,
+  modularity
+} from '../graph-analytics.js';
+
+function graphOf(edges: Array<[string, string]>, isolated: string[] = []): AdjacencyGraph {
+  const adjacency = new Map<string, string[]>(isolated.map(node => [node, []]));
+  for (const [a, b] of edges) {
+    adjacency.set(a, [...(adjacency.get(a) || []), b]);
+  }
+  return buildUndirectedGraph(adjacency);
+}
+
+describe('Graph Analytics', () => {
+  const path = graphOf([['a', 'b'], ['b', 'c']]);
+  const triangleWithTail = graphOf([['a', 'b'], ['b', 'c'], ['c', 'a'], ['c', 'd']]);
+
+  test('should symmetrize one-sided adjacency lists', () => {
+    expect(Array.from(path.get('c')!)).toEqual(['b']);
+    expect(degreeCentrality(path).get('b')).toBe(1);
+  });
+
+  test('should compute betweenness and closeness centrality', () => {
+    const betweenness = betweennessCentrality(path);
+    expect(betweenness.get('b')).toBeCloseTo(1);
+    expect(betweenness.get('a')).toBe(0);
+
+    const closeness = closenessCentrality(path);
+    expect(closeness.get('b')).toBeCloseTo(1);
+    expect(closeness.get('a')).toBeCloseTo(2 / 3);
+
+    // Unreachable nodes lower closeness instead of breaking it
+    const disconnected = closenessCentrality(graphOf([['a', 'b']], ['c']));
+    expect(disconnected.get('a')).toBeCloseTo(0.5);
+    expect(disconnected.get('c')).toBe(0);
+  });
+
+  test('should rank hubs highest by eigenvector centrality', () => {
+    const star = eigenvectorCentrality(graphOf([['hub', 'x'], ['hub', 'y'], ['hub', 'z']]));
+    const norm = Math.sqrt(Array.from(star.values()).reduce((sum, value) => sum + value * value, 0));
+
+    expect(norm).toBeCloseTo(1);
+    expect(star.get('hub')!).toBeGreaterThan(star.get('x')!);
+    expect(star.get('x')).toBeCloseTo(star.get('y')!);
+  });
+
+  test('should compute local and global clustering', () => {
+    const local = localClustering(triangleWithTail);
+
+    expect(local.get('a')).toBe(1);
+    expect(local.get('c')).toBeCloseTo(1 / 3);
+    expect(local.get('d')).toBe(0);
+    expect(globalClustering(triangleWithTail)).toBeCloseTo(0.6);
+    expect(globalClustering(path)).toBe(0);
+  });
+
+  test('should measure the diameter with breadth-first search', () => {
+    expect(diameter(graphOf([['a', 'b'], ['b', 'c'], ['c', 'd']], ['e']))).toBe(3);
+    expect(diameter(graphOf([], ['a']))).toBe(0);
+  });
+
+  test('should detect communities joined by a bridge', () => {
+    const graph = graphOf([
+      ['a1', 'a2'], ['a2', 'a3'], ['a3', 'a1'],
+      ['b1', 'b2'], ['b2', 'b3'], ['b3', 'b1'],
+      ['a3', 'b1']
+    ]);
+
+    const communities = louvainCommunities(graph).map(community => community.sort()).sort();
+
+    expect(communities).toEqual([['a1', 'a2', 'a3'], ['b1', 'b2', 'b3']]);
+    expect(modularity(graph, communities)).toBeCloseTo(2 * (3 / 7 - 0.25));
+    expect(modularity(graph, [Array.from(graph.keys())])).toBeCloseTo(0);
+  });
+
+  test('should keep isolated nodes in their own communities', () => {
+    const communities = louvainCommunities(graphOf([], ['a', 'b']));
+    expect(communities).toEqual([['a'], ['b']]);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Message Router Tests
+ *
+ * Tests for QoS enforcement, deadlines, retry with backoff, failover onto
+ * alternative paths, deadline-aware queuing and the dead-letter queue
+ */
+
+import { PSystem, PSystemFactory, PSystemAction } from '../p-system.js';
+import { Membrane } from '../membrane-abstraction.js';
+import { PortMessage } from '../port-channel.js';
+import { MessageRouter, MessageRouterConfig, QoSParameters, RoutingContext } from '../message-router.js';
+
+function createMembraneState(kernelId: string) {
+  return { tensorData: new Float32Array(4), shape: [2, 2], kernelId, stateType: 'region' };
+}
+
+function createRouter(overrides: Partial<MessageRouterConfig> = {}): MessageRouter {
+  return new MessageRouter({
+    id: 'test_router',
+    name: 'Test Router',
+    defaultStrategy: 'shortest-path',
+    enableCache: false,
+    cacheSize: 100,
+    routingTableSize: 1000,
+    maxHops: 10,
+    timeoutMs: 1000,
+    retryAttempts: 2,
+    enablePriorityQueuing: true,
+    enableLoadBalancing: false,
+    enableFailover: true,
+    compressionThreshold: 1024,
+    retryBackoffMs: 5,
+    ...overrides
+  });
+}
+
+function createMessage(id: string, payload: any = { value: 1 }): PortMessage {
+  return {
+    id,
+    sourceId: 'source',
+    targetId: 'target',
+    type: 'data',
+    timestamp: Date.now(),
+    payload,
+    priority: 'normal',
+    portId: 'port',
+    dataType: 'data',
+    contentSize: 0,
+    validationResults: [],
+    transformationHistory: [],
+    routingMetadata: { hopCount: 0, route: [], latency: 0, bandwidth: 0 }
+  };
+}
+
+function createContext(source: string, destination: string, overrides: Partial<RoutingContext> = {}, qos: Partial<QoSParameters> = {}): RoutingContext {
+  return {
+    messageId: 'msg',
+    sourceMembraneId: source,
+    destinationMembraneId: destination,
+    qos: {
+      priority: 'normal',
+      maxLatency: 1000,
+      minReliability: 0.5,
+      maxBandwidth: 1000,
+      encryptionRequired: false,
+      compressionAllowed: true,
+      multicastEnabled: false,
+      ...qos
+    },
+    ...overrides
+  };
+}
+
+describe('MessageRouter', () => {
+  let pSystem: PSystem;
+  let leftId: string;
+  let rightId: string;
+  let leafId: string;
+
+  beforeEach(async () => {
+    // root -> left -> leaf, root -> right, plus a lateral leaf <-> right link
+    pSystem = PSystemFactory.createHierarchicalPSystem('router_test', 'Router Test', 5, 100);
+    pSystem.addRootMembrane(new Membrane('root', 'Root', createMembraneState('root_kernel')));
+    leftId = pSystem.createChildMembrane('root', createMembraneState('left_kernel'), 'Left')!;
+    rightId = pSystem.createChildMembrane('root', createMembraneState('right_kernel'), 'Right')!;
+    leafId = pSystem.createChildMembrane(leftId, createMembraneState('leaf_kernel'), 'Leaf')!;
+
+    const connect: PSystemAction = { type: 'establish_connection', parameters: { sourceId: leafId, targetId: rightId } };
+    pSystem.addRule({
+      id: 'connect', name: 'connect', type: 'transformation', conditions: [], actions: [connect],
+      priority: 10, enabled: true, executionCount: 0, maxExecutions: 1
+    });
+    await pSystem.executeEvolutionCycle();
+  });
+
+  test('should deliver hop by hop and record the route', async () => {
+    const router = createRouter();
+    router.attachToPSystem(pSystem);
+    const message = createMessage('m1');
+
+    expect(await router.routeMessage(message, createContext(leafId, 'root'))).toBe(true);
+
+    expect(message.routingMetadata.route).toEqual([leftId, 'root']);
+    expect(message.routingMetadata.hopCount).toBe(2);
+    expect(router.getStatistics().messagesDelivered).toBe(1);
+  });
+
+  test('should offer alternative paths through lateral links', async () => {
+    const router = createRouter();
+    router.attachToPSystem(pSystem);
+
+    const route = await router.findRoute(leafId, 'root', 'shortest-path', createContext(leafId, 'root').qos);
+
+    expect(route!.path).toEqual([leafId, leftId, 'root']);
+    expect(route!.alternativePaths!.map(alternative => alternative.path)).toContainEqual([leafId, rightId, 'root']);
+  });
+
+  test('should fail over when a membrane on the primary path is down', async () => {
+    const router = createRouter();
+    router.attachToPSystem(pSystem);
+    pSystem.getMembrane(leftId)!.deactivate();
+    const message = createMessage('m1');
+
+    expect(await router.routeMessage(message, createContext(leafId, 'root'))).toBe(true);
+
+    expect(message.routingMetadata.route).toEqual([rightId, 'root']);
+    expect(router.getStatistics().failovers).toBe(1);
+  });
+
+  test('should retry transient failures with backoff', async () => {
+    const router = createRouter({ enableFailover: false });
+    router.attachToPSystem(pSystem);
+    let calls = 0;
+    router.setHopTransmitter(async () => ++calls > 1);
+
+    expect(await router.routeMessage(createMessage('m1'), createContext(leftId, 'root'))).toBe(true);
+    expect(calls).toBe(2);
+    expect(router.getStatistics().messagesRetried).toBe(1);
+  });
+
+  test('should dead-letter after exhausting retries and replay on request', async () => {
+    const router = createRouter({ enableFailover: false });
+    router.attachToPSystem(pSystem);
+    let calls = 0;
+    router.setHopTransmitter(async () => {
+      calls++;
+      throw new Error('link down');
+    });
+
+    expect(await router.routeMessage(createMessage('m1'), createContext(leftId, 'root'))).toBe(false);
+
+    expect(calls).toBe(3);
+    const [letter] = router.getDeadLetters({ reason: 'retries_exhausted' });
+    expect(letter).toMatchObject({ attempts: 3, error: 'link down', strategy: 'shortest-path' });
+    expect(letter.message.id).toBe('m1');
+
+    router.setHopTransmitter(null);
+    expect(await router.replayDeadLetter('m1')).toBe(true);
+    expect(router.getDeadLetters()).toHaveLength(0);
+    expect(await router.replayDeadLetter('m1')).toBe(false);
+  });
+
+  test('should stop at the deadline', async () => {
+    const router = createRouter({ enableFailover: false, retryBackoffMs: 50 });
+    router.attachToPSystem(pSystem);
+    router.setHopTransmitter(() => new Promise(resolve => setTimeout(() => resolve(true), 100)));
+
+    const delivered = await router.routeMessage(createMessage('slow'), createContext(leftId, 'root', { deadline: Date.now() + 20 }));
+    const expired = await router.routeMessage(createMessage('late'), createContext(leftId, 'root', { deadline: Date.now() - 1 }));
+
+    expect(delivered).toBe(false);
+    expect(expired).toBe(false);
+    expect(router.getDeadLetters({ reason: 'deadline_exceeded' }).map(letter => letter.message.id)).toEqual(['slow', 'late']);
+    expect(router.getDeadLetters()[0].error).toContain('timed out');
+    expect(router.getStatistics().deadlineMisses).toBe(2);
+    await new Promise(resolve => setTimeout(resolve, 100));
+  });
+
+  test('should enforce QoS bounds and encryption', async () => {
+    const router = createRouter();
+    router.attachToPSystem(pSystem);
+
+    expect(await router.routeMessage(createMessage('unreliable'), createContext(leafId, 'root', {}, { minReliability: 0.95 }))).toBe(false);
+    expect(await router.routeMessage(createMessage('plain'), createContext(leftId, 'root', {}, { encryptionRequired: true }))).toBe(false);
+    expect(await router.routeMessage(
+      createMessage('sealed', { encoding: 'aes-256-gcm', data: 'AAAA', iv: 'AA', authTag: 'AA' }),
+      createContext(leftId, 'root', {}, { encryptionRequired: true })
+    )).toBe(true);
+
+    expect(router.getDeadLetters().map(letter => letter.reason)).toEqual(['qos_unsatisfiable', 'encryption_required']);
+    expect(router.purgeDeadLetters({ reason: 'qos_unsatisfiable' })).toBe(1);
+    expect(router.getDeadLetters()).toHaveLength(1);
+  });
+
+  test('should process queues by priority and earliest deadline', async () => {
+    const router = createRouter();
+    router.attachToPSystem(pSystem);
+    const order: string[] = [];
+    router.setHopTransmitter(async message => {
+      order.push(message.id);
+      return true;
+    });
+
+    const now = Date.now();
+    router.enqueueMessage(createMessage('low'), createContext(leftId, 'root', {}, { priority: 'low' }));
+    router.enqueueMessage(createMessage('normal_late'), createContext(leftId, 'root', { deadline: now + 5000 }));
+    router.enqueueMessage(createMessage('normal_none'), createContext(leftId, 'root'));
+    router.enqueueMessage(createMessage('normal_soon'), createContext(leftId, 'root', { deadline: now + 1000 }));
+    router.enqueueMessage(createMessage('critical'), createContext(leftId, 'root', {}, { priority: 'critical' }));
+
+    expect(await router.processMessageQueues()).toBe(5);
+    expect(order).toEqual(['critical', 'normal_soon', 'normal_late', 'normal_none', 'low']);
+    expect(await router.processMessageQueues()).toBe(0);
+  });
+});
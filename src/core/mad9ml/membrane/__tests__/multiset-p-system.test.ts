@@ -0,0 +1,144 @@
+/**
+ * Multiset P-System Tests
+ *
+ * Tests for multiset rewriting with here/in/out targets, priorities,
+ * maximal parallelism, dissolution and halting
+ */
+
+import { PSystem, PSystemFactory } from '../p-system.js';
+import { Membrane } from '../membrane-abstraction.js';
+import { MultisetPSystem, parseMultiset, formatMultiset } from '../multiset-p-system.js';
+
+function createMembraneState(kernelId: string) {
+  return { tensorData: new Float32Array(4), shape: [2, 2], kernelId, stateType: 'region' };
+}
+
+describe('Multiset P-System', () => {
+  let pSystem: PSystem;
+  let innerId: string;
+
+  beforeEach(() => {
+    pSystem = PSystemFactory.createHierarchicalPSystem('multiset_test', 'Multiset Test', 5, 100);
+    pSystem.addRootMembrane(new Membrane('skin', 'Skin', createMembraneState('skin_kernel')));
+    innerId = pSystem.createChildMembrane('skin', createMembraneState('inner_kernel'), 'Inner')!;
+  });
+
+  describe('Multiset notation', () => {
+    test('should parse and format multisets', () => {
+      const multiset = parseMultiset('a^2 b a c^3');
+      expect(multiset.get('a')).toBe(3);
+      expect(multiset.get('c')).toBe(3);
+      expect(formatMultiset(multiset)).toBe('a^3 b c^3');
+      expect(formatMultiset(parseMultiset('λ'))).toBe('λ');
+      expect(formatMultiset(parseMultiset({ x: 2, y: 0 }))).toBe('x^2');
+    });
+
+    test('should reject malformed elements', () => {
+      expect(() => parseMultiset('a^')).toThrow('Invalid multiset element');
+    });
+  });
+
+  describe('Execution', () => {
+    test('should apply rules in a maximally parallel way', () => {
+      const system = new MultisetPSystem(pSystem, { seed: 1 });
+      system.setObjects(innerId, 'a^3 z');
+      system.addRule(innerId, { id: 'a_to_b', consume: 'a', produce: [{ objects: 'b^2' }] });
+
+      const result = system.step();
+
+      expect(result.applications).toEqual([{ membraneId: innerId, ruleId: 'a_to_b', count: 3 }]);
+      expect(formatMultiset(system.getObjects(innerId))).toBe('b^6 z');
+    });
+
+    test('should only use the highest priority applicable rules', () => {
+      const system = new MultisetPSystem(pSystem, { seed: 1 });
+      system.setObjects(innerId, 'a^5');
+      system.addRule(innerId, { id: 'pair', consume: 'a^2', produce: [{ objects: 'c' }], priority: 2 });
+      system.addRule(innerId, { id: 'single', consume: 'a', produce: [{ objects: 'd' }], priority: 1 });
+
+      system.step();
+      expect(formatMultiset(system.getObjects(innerId))).toBe('a c^2');
+
+      system.step();
+      expect(formatMultiset(system.getObjects(innerId))).toBe('c^2 d');
+    });
+
+    test('should send objects out, in and to the environment', () => {
+      const system = new MultisetPSystem(pSystem, { seed: 1 });
+      system.setObjects('skin', 'a');
+      system.addRule('skin', { id: 'send', consume: 'a', produce: [{ objects: 'b', target: 'in' }, { objects: 'e', target: 'out' }] });
+      system.addRule(innerId, { id: 'return', consume: 'b', produce: [{ objects: 'c', target: 'out' }] });
+
+      system.step();
+      expect(formatMultiset(system.getObjects(innerId))).toBe('b');
+      expect(formatMultiset(system.getEnvironment())).toBe('e');
+
+      system.step();
+      expect(formatMultiset(system.getObjects('skin'))).toBe('c');
+      expect(formatMultiset(system.getObjects(innerId))).toBe('λ');
+    });
+
+    test('should not apply in-rules without a matching child', () => {
+      const system = new MultisetPSystem(pSystem, { seed: 1 });
+      system.setObjects(innerId, 'a');
+      system.addRule(innerId, { id: 'down', consume: 'a', produce: [{ objects: 'a', target: 'in' }] });
+
+      expect(system.step().halted).toBe(true);
+    });
+
+    test('should dissolve membranes and release their objects', () => {
+      const system = new MultisetPSystem(pSystem, { seed: 1 });
+      system.setObjects(innerId, 'a^2');
+      system.addRule(innerId, { id: 'dissolve', consume: 'a', produce: [{ objects: 'b' }], dissolve: true });
+
+      const result = system.step();
+
+      expect(result.dissolved).toEqual([innerId]);
+      expect(pSystem.getMembrane(innerId)).toBeUndefined();
+      expect(formatMultiset(system.getObjects('skin'))).toBe('b^2');
+      expect(system.run().halted).toBe(true);
+    });
+
+    test('should run until halting', () => {
+      const system = new MultisetPSystem(pSystem, { seed: 1 });
+      system.setObjects(innerId, 'a^8');
+      system.addRule(innerId, { id: 'halve', consume: 'a^2', produce: [{ objects: 'a' }] });
+
+      const result = system.run();
+
+      expect(result.halted).toBe(true);
+      expect(result.steps).toBe(3);
+      expect(formatMultiset(result.configuration.get(innerId)!)).toBe('a');
+      expect(system.isHalted()).toBe(true);
+    });
+
+    test('should stop at the step limit', () => {
+      const system = new MultisetPSystem(pSystem, { seed: 1 });
+      system.setObjects(innerId, 'a');
+      system.addRule(innerId, { id: 'loop', consume: 'a', produce: [{ objects: 'a' }] });
+
+      const result = system.run(5);
+
+      expect(result.steps).toBe(5);
+      expect(result.halted).toBe(false);
+    });
+
+    test('should be reproducible with a seed', () => {
+      const runWithSeed = (seed: number) => {
+        const system = new MultisetPSystem(pSystem, { seed });
+        system.setObjects(innerId, 'a^20');
+        system.addRule(innerId, { id: 'to_b', consume: 'a', produce: [{ objects: 'b' }] });
+        system.addRule(innerId, { id: 'to_c', consume: 'a', produce: [{ objects: 'c' }] });
+        return system.run();
+      };
+
+      const first = runWithSeed(42);
+      const second = runWithSeed(42);
+      const objects = first.configuration.get(innerId)!;
+
+      expect(formatMultiset(objects)).toBe(formatMultiset(second.configuration.get(innerId)!));
+      expect((objects.get('b') || 0) + (objects.get('c') || 0)).toBe(20);
+      expect(first.history).toEqual(second.history);
+    });
+  });
+});
@@ -5,7 +5,7 @@
  * hierarchy management, and evolution cycles
  */
 
-import { PSystem, PSystemFactory, PSystemConfig } from '../p-system.js';
+import { PSystem, PSystemFactory, PSystemConfig, PSystemAction } from '../p-system.js';
 import { Membrane } from '../membrane-abstraction.js';
 
 describe('P-System Implementation', () => {
@@ -417,6 +417,25 @@ describe('P-System Implementation', () => {
       expect(topology.averageBranchingFactor).toBeGreaterThan(0);
     });
 
+    test('should compute graph metrics on the membrane tree', () => {
+      const topology = pSystem.analyzeTopology();
+
+      // Grandchild -> child -> root -> child is the longest path; trees have no triangles
+      expect(topology.networkDiameter).toBe(3);
+      expect(topology.clusteringCoefficient).toBe(0);
+      expect(topology.betweennessCentrality.get('root_membrane')).toBeGreaterThan(0);
+      expect(topology.closenessCentrality.get('root_membrane')).toBeGreaterThan(0);
+      expect(topology.eigenvectorCentrality.size).toBe(4);
+
+      const clustered = topology.communityStructure.flatMap(cluster => cluster.membranes).sort();
+      expect(clustered).toEqual(pSystem.getAllMembranes().map(m => m.getId()).sort());
+      topology.communityStructure.forEach(cluster => {
+        expect(cluster.membranes).toContain(cluster.centralMembrane);
+        expect(cluster.isolation).toBeGreaterThanOrEqual(0);
+        expect(cluster.isolation).toBeLessThanOrEqual(1);
+      });
+    });
+
     test('should get membranes at specific depth', () => {
       const depthZero = pSystem.getMembranesAtDepth(0);
       expect(depthZero).toHaveLength(1);
@@ -455,6 +474,117 @@ describe('P-System Implementation', () => {
     });
   });
 
+  describe('Rule Actions', () => {
+    let childId: string;
+
+    const addRule = (id: string, actions: PSystemAction[]) => {
+      pSystem.addRule({
+        id,
+        name: id,
+        type: 'transformation',
+        conditions: [],
+        actions,
+        priority: 10,
+        enabled: true,
+        executionCount: 0,
+        maxExecutions: 1
+      });
+    };
+
+    beforeEach(() => {
+      pSystem.addRootMembrane(rootMembrane);
+      childId = pSystem.createChildMembrane(
+        'root_membrane',
+        {
+          tensorData: new Float32Array([10, 20, 30, 40]),
+          shape: [2, 2],
+          kernelId: 'child_kernel',
+          stateType: 'child'
+        },
+        'Test Child'
+      )!;
+    });
+
+    test('should create membranes under the selected parents', async () => {
+      addRule('create', [{ type: 'create_membrane', parameters: { count: 2, stateType: 'worker' }, targetSelector: childId }]);
+
+      await pSystem.executeEvolutionCycle();
+
+      const child = pSystem.getMembrane(childId)!;
+      expect(child.getChildren()).toHaveLength(2);
+      expect(child.getChildren()[0].getState('self')!.shape).toEqual([2, 2]);
+      expect(pSystem.getMembranesAtDepth(2)).toHaveLength(2);
+
+      const history = pSystem.getEvolutionHistory();
+      expect(history.filter(event => event.type === 'membrane_creation')).toHaveLength(3);
+      expect(history[history.length - 1]).toMatchObject({
+        type: 'rule_execution',
+        details: { ruleId: 'create', success: true }
+      });
+    });
+
+    test('should dissolve selected membranes but keep roots', async () => {
+      addRule('dissolve', [{ type: 'dissolve_membrane', parameters: {}, targetSelector: 'all' }]);
+
+      await pSystem.executeEvolutionCycle();
+
+      expect(pSystem.getAllMembranes().map(m => m.getId())).toEqual(['root_membrane']);
+      expect(pSystem.getEvolutionHistory().some(event =>
+        event.type === 'membrane_dissolution' && event.details.membraneId === childId
+      )).toBe(true);
+    });
+
+    test('should divide a membrane into a sibling replica', async () => {
+      addRule('divide', [{ type: 'replicate_membrane', parameters: {}, targetSelector: childId }]);
+
+      await pSystem.executeEvolutionCycle();
+
+      const siblings = pSystem.getMembranesAtDepth(1);
+      expect(siblings).toHaveLength(2);
+      const replica = siblings.find(m => m.getId() !== childId)!;
+      expect(replica.getParent()).toBe(rootMembrane);
+      expect(Array.from(replica.getState('self')!.tensorData)).toEqual([10, 20, 30, 40]);
+    });
+
+    test('should migrate state to the parent', async () => {
+      addRule('migrate', [{ type: 'migrate_state', parameters: { mode: 'move' }, targetSelector: childId }]);
+
+      await pSystem.executeEvolutionCycle();
+
+      expect(Array.from(rootMembrane.getState('self')!.tensorData)).toEqual([10, 20, 30, 40]);
+      expect(Array.from(pSystem.getMembrane(childId)!.getState('self')!.tensorData)).toEqual([0, 0, 0, 0]);
+      expect(pSystem.getEvolutionHistory().some(event => event.type === 'state_migration')).toBe(true);
+    });
+
+    test('should connect membrane ports', async () => {
+      const siblingId = pSystem.createChildMembrane(
+        'root_membrane',
+        { tensorData: new Float32Array(4), shape: [2, 2], kernelId: 'sibling_kernel', stateType: 'child' }
+      )!;
+      addRule('connect', [{ type: 'establish_connection', parameters: { sourceId: childId, targetId: siblingId } }]);
+
+      await pSystem.executeEvolutionCycle();
+
+      const event = pSystem.getEvolutionHistory().find(e => e.type === 'connection_establishment')!;
+      expect(event.details).toMatchObject({ sourceId: childId, targetId: siblingId, bidirectional: true });
+      expect(event.details.portConnections).toHaveLength(2);
+      expect(pSystem.analyzeTopology().centralityMeasures.get(childId)).toBe(2);
+
+      // Dissolving one end removes the connection
+      pSystem.dissolveMembrane(siblingId);
+      expect(pSystem.analyzeTopology().centralityMeasures.get(childId)).toBe(1);
+    });
+
+    test('should report failure when an action has nothing to act on', async () => {
+      addRule('noop', [{ type: 'dissolve_membrane', parameters: { membraneId: 'missing' } }]);
+
+      await pSystem.executeEvolutionCycle();
+
+      expect(pSystem.getStatistics().rulesExecuted).toBe(0);
+      expect(pSystem.getAllMembranes()).toHaveLength(2);
+    });
+  });
+
   describe('P-System Lifecycle', () => {
     test('should start and stop P-System', () => {
       expect(pSystem.isActive()).toBe(true);
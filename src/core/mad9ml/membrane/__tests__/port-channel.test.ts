@@ -0,0 +1,202 @@
+/**
+ * Port Channel Tests
+ *
+ * Tests for payload validation and transformations: scaling, normalization,
+ * filtering, compression and authenticated encryption
+ */
+
+import { jest } from '@jest/globals';
+import { randomBytes } from 'crypto';
+import {
+  PortChannel,
+  PortChannelConfig,
+  PortChannelFactory,
+  PortMessage,
+  PortTransformationRule,
+  PortValidationRule
+} from '../port-channel.js';
+
+function createPort(overrides: Partial<PortChannelConfig>): PortChannel {
+  return new PortChannel({
+    id: `port_${Math.random().toString(36).slice(2)}`,
+    name: 'Test Port',
+    direction: 'input',
+    dataType: 'tensor',
+    membraneId: 'membrane',
+    maxConnections: 10,
+    bufferSize: 10,
+    compressionEnabled: false,
+    encryptionEnabled: false,
+    validationRules: [],
+    transformationRules: [],
+    ...overrides
+  });
+}
+
+function createMessage(payload: any, overrides: Partial<PortMessage> = {}): PortMessage {
+  return {
+    id: 'msg_1',
+    sourceId: 'source',
+    targetId: 'target',
+    type: 'tensor_update',
+    timestamp: Date.now(),
+    payload,
+    priority: 'normal',
+    portId: 'port',
+    dataType: 'tensor',
+    contentSize: 0,
+    validationResults: [],
+    transformationHistory: [],
+    routingMetadata: { hopCount: 0, route: [], latency: 0, bandwidth: 0 },
+    ...overrides
+  };
+}
+
+function transformation(type: PortTransformationRule['type'], parameters: Record<string, any>, priority: number = 1): PortTransformationRule {
+  return { id: `${type}_${priority}`, name: type, type, parameters, priority, enabled: true };
+}
+
+function validation(type: PortValidationRule['type'], parameters: Record<string, any>): PortValidationRule {
+  return { id: type, name: type, type, parameters, errorMessage: `Invalid ${type}`, enabled: true };
+}
+
+async function receive(port: PortChannel, message: PortMessage): Promise<PortMessage | undefined> {
+  const accepted = await port.receiveMessage(message);
+  return accepted ? port.processBufferedMessages()[0] : undefined;
+}
+
+/**
+ * Send through an output port connected to a sink, capturing the routed message
+ */
+async function send(port: PortChannel, payload: any): Promise<PortMessage | undefined> {
+  port.connectToPort(createPort({ direction: 'input' }));
+  let routed: PortMessage | undefined;
+  jest.spyOn(port as any, 'sendMessageThroughConnection').mockImplementation(async (message: any) => {
+    routed = message;
+    return true;
+  });
+
+  const { id, timestamp, portId, validationResults, transformationHistory, routingMetadata, ...message } = createMessage(payload);
+  return await port.sendMessage(message) ? routed : undefined;
+}
+
+describe('PortChannel', () => {
+  describe('Validation', () => {
+    test('should check tensor shape against the payload', async () => {
+      const port = createPort({ validationRules: [validation('shape', { expectedShape: [2, 2] })] });
+
+      expect(await receive(port, createMessage({ tensorData: new Float32Array(4), shape: [2, 2] }))).toBeDefined();
+      expect(await receive(port, createMessage({ tensorData: new Float32Array(6), shape: [2, 3] }))).toBeUndefined();
+      expect(await receive(port, createMessage({ tensorData: new Float32Array(3), shape: [2, 2] }))).toBeUndefined();
+      expect(await receive(port, createMessage('not a tensor'))).toBeUndefined();
+      expect(port.getStatistics().validationFailures).toBe(3);
+    });
+
+    test('should check value ranges', async () => {
+      const port = createPort({ validationRules: [validation('range', { min: 0, max: 1 })] });
+
+      expect(await receive(port, createMessage([0, 0.5, 1]))).toBeDefined();
+      expect(await receive(port, createMessage([0, 1.5]))).toBeUndefined();
+      expect(await receive(port, createMessage([NaN]))).toBeUndefined();
+    });
+
+    test('should apply security checks to the message', async () => {
+      const port = createPort({
+        dataType: 'control',
+        validationRules: [validation('security', {
+          requireAuth: true,
+          allowedSources: ['trusted'],
+          maxPayloadSize: 64,
+          blockedPatterns: ['<script']
+        })]
+      });
+
+      expect(await receive(port, createMessage({ command: 'run' }, { sourceId: 'trusted' }))).toBeDefined();
+      expect(await receive(port, createMessage({ command: 'run' }, { sourceId: 'other' }))).toBeUndefined();
+      expect(await receive(port, createMessage({ command: '<script>' }, { sourceId: 'trusted' }))).toBeUndefined();
+      expect(await receive(port, createMessage({ command: 'x'.repeat(100) }, { sourceId: 'trusted' }))).toBeUndefined();
+    });
+  });
+
+  describe('Transformations', () => {
+    test('should scale tensor payloads', async () => {
+      const port = createPort({ transformationRules: [transformation('scale', { factor: 2, offset: 1 })] });
+
+      const message = await receive(port, createMessage({ tensorData: new Float32Array([1, 2]), shape: [2] }));
+
+      expect(Array.from(message!.payload.tensorData)).toEqual([3, 5]);
+      expect(message!.payload.shape).toEqual([2]);
+      expect(message!.transformationHistory).toHaveLength(1);
+    });
+
+    test('should normalize with L2 and min-max', async () => {
+      const l2 = createPort({ transformationRules: [transformation('normalize', { method: 'l2' })] });
+      const minmax = createPort({ transformationRules: [transformation('normalize', { method: 'minmax', min: -1, max: 1 })] });
+
+      const unit = await receive(l2, createMessage([3, 4]));
+      expect(unit!.payload[0]).toBeCloseTo(0.6);
+      expect(unit!.payload[1]).toBeCloseTo(0.8);
+
+      const ranged = await receive(minmax, createMessage(new Float32Array([2, 4, 6])));
+      expect(Array.from(ranged!.payload as Float32Array)).toEqual([-1, 0, 1]);
+    });
+
+    test('should filter elements with bounds and predicates', async () => {
+      const port = createPort({
+        transformationRules: [transformation('filter', { max: 10, predicate: (_: number, i: number) => i !== 0, replacement: -1 })]
+      });
+
+      const message = await receive(port, createMessage([1, 2, 20]));
+
+      expect(message!.payload).toEqual([-1, 2, -1]);
+    });
+
+    test('should reject transformations of non-tensor payloads', async () => {
+      const port = createPort({ transformationRules: [transformation('scale', { factor: 2 })] });
+
+      expect(await receive(port, createMessage('text'))).toBeUndefined();
+      expect(port.getStatistics().transformationFailures).toBe(1);
+    });
+
+    test('should compress outgoing payloads and decompress them on receipt', async () => {
+      const output = PortChannelFactory.createTensorOutputPort('source', 'Out', [64]);
+      const tensor = { tensorData: new Float32Array(64).fill(0.5), shape: [64] };
+
+      const sent = await send(output, tensor);
+
+      expect(sent!.payload.encoding).toBe('deflate');
+      expect(sent!.contentSize).toBeLessThan(256);
+      expect(sent!.compressionRatio).toBeLessThan(1);
+
+      const input = createPort({ validationRules: [validation('shape', { expectedShape: [64] })] });
+      const received = await receive(input, sent!);
+      expect(received!.payload.tensorData).toEqual(tensor.tensorData);
+    });
+
+    test('should encrypt with authentication and reject tampered messages', async () => {
+      const key = randomBytes(32);
+      const encrypt = transformation('encrypt', { key: key.toString('hex') });
+      const output = createPort({ direction: 'output', dataType: 'control', transformationRules: [encrypt] });
+      const input = createPort({ dataType: 'control', transformationRules: [encrypt] });
+
+      const sent = await send(output, { command: 'dissolve' });
+      expect(sent!.payload.encoding).toBe('aes-256-gcm');
+      expect(JSON.stringify(sent!.payload)).not.toContain('dissolve');
+
+      const received = await receive(input, sent!);
+      expect(received!.payload).toEqual({ command: 'dissolve' });
+
+      // Changing the authenticated header or using another key fails authentication
+      expect(await receive(input, { ...sent!, sourceId: 'intruder' })).toBeUndefined();
+      const otherKey = createPort({ dataType: 'control', transformationRules: [transformation('encrypt', { key: randomBytes(32) })] });
+      expect(await receive(otherKey, sent!)).toBeUndefined();
+    });
+
+    test('should fail sending when encryption has no valid key', async () => {
+      const output = createPort({ direction: 'output', dataType: 'control', transformationRules: [transformation('encrypt', {})] });
+
+      expect(await send(output, { command: 'noop' })).toBeUndefined();
+      expect(output.getStatistics().transformationFailures).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Transport Tests
+ *
+ * Tests for delivering port messages through in-memory and worker_threads
+ * transports and for discovering membranes advertised by other endpoints
+ */
+
+import { randomBytes } from 'crypto';
+import { jest } from '@jest/globals';
+import { MessageChannel, MessagePort } from 'worker_threads';
+import { Membrane } from '../membrane-abstraction.js';
+import { PortChannel, PortChannelConfig, PortChannelFactory, PortMessage } from '../port-channel.js';
+import { MembraneRegistry, MembraneRegistryFactory } from '../membrane-registry.js';
+import { InMemoryTransport, InMemoryTransportHub, MessagePortTransport } from '../transport.js';
+
+function createPort(id: string, membraneId: string, overrides: Partial<PortChannelConfig> = {}): PortChannel {
+  return new PortChannel({
+    id,
+    name: id,
+    direction: 'input',
+    dataType: 'tensor',
+    membraneId,
+    maxConnections: 10,
+    bufferSize: 10,
+    compressionEnabled: false,
+    encryptionEnabled: false,
+    validationRules: [],
+    transformationRules: [],
+    ...overrides
+  });
+}
+
+function outgoing(payload: any): Omit<PortMessage, 'id' | 'timestamp' | 'portId' | 'validationResults' | 'transformationHistory' | 'routingMetadata'> {
+  return {
+    sourceId: 'source',
+    targetId: 'target',
+    type: 'tensor_update',
+    payload,
+    priority: 'normal',
+    dataType: 'tensor',
+    contentSize: 0
+  };
+}
+
+function createMembrane(id: string): Membrane {
+  return new Membrane(id, id, { tensorData: new Float32Array(4), shape: [2, 2], kernelId: `${id}_kernel`, stateType: 'region' });
+}
+
+/**
+ * Let queued MessagePort frames be delivered
+ */
+function flush(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 20));
+}
+
+describe('Membrane transports', () => {
+  describe('InMemoryTransport', () => {
+    test('should deliver messages between endpoints sharing a hub', async () => {
+      const hub = new InMemoryTransportHub();
+      const sender = createPort('out', 'a', { direction: 'output' });
+      const receiver = createPort('in', 'b');
+      sender.setTransport(new InMemoryTransport('one', hub));
+      receiver.setTransport(new InMemoryTransport('two', hub));
+
+      expect(sender.connectToRemotePort('in', 'b')).toBe('out->in');
+      expect(await sender.sendMessage(outgoing({ tensorData: [1, 2] }))).toBe(true);
+
+      const [message] = receiver.processBufferedMessages();
+      expect(message.payload.tensorData).toEqual([1, 2]);
+      expect(sender.getConnection('out->in')!.messageCount).toBe(1);
+    });
+
+    test('should deliver encrypted control messages between control ports sharing a key', async () => {
+      const hub = new InMemoryTransportHub();
+      const key = randomBytes(32);
+      const sender = PortChannelFactory.createControlPort('a', 'Control', 'bidirectional', { encryptionKey: key });
+      const receiver = PortChannelFactory.createControlPort('b', 'Control', 'bidirectional', { encryptionKey: key });
+      sender.setTransport(new InMemoryTransport('one', hub));
+      receiver.setTransport(new InMemoryTransport('two', hub));
+
+      expect(sender.connectToRemotePort(receiver.getId(), 'b')).not.toBeNull();
+      const command = { ...outgoing({ command: 'dissolve', depth: 2 }), type: 'control', dataType: 'control' as const };
+      expect(await sender.sendMessage(command)).toBe(true);
+
+      const [message] = receiver.processBufferedMessages();
+      expect(message.payload).toEqual({ command: 'dissolve', depth: 2 });
+
+      // A control port with another key cannot read the messages
+      const outsider = PortChannelFactory.createControlPort('c', 'Control', 'bidirectional', { encryptionKey: randomBytes(32) });
+      outsider.setTransport(new InMemoryTransport('three', hub));
+      sender.connectToRemotePort(outsider.getId(), 'c');
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      expect(await sender.sendMessage(command)).toBe(false);
+      warn.mockRestore();
+      expect(outsider.processBufferedMessages()).toHaveLength(0);
+
+      expect(() => PortChannelFactory.createControlPort('d', 'Control', 'bidirectional', { encryptionKey: '' }))
+        .toThrow('Control ports require a shared encryptionKey');
+    });
+
+    test('should refuse remote connections to unknown ports', () => {
+      const sender = createPort('out', 'a', { direction: 'output' });
+      expect(sender.connectToRemotePort('in', 'b')).toBeNull();
+
+      sender.setTransport(new InMemoryTransport('one'));
+      expect(sender.connectToRemotePort('missing', 'b')).toBeNull();
+    });
+
+    test('should let registries discover membranes of other endpoints', () => {
+      const hub = new InMemoryTransportHub();
+      const local = MembraneRegistryFactory.createTestRegistry('local', 'Local');
+      const remote = MembraneRegistryFactory.createTestRegistry('remote', 'Remote');
+      local.attachTransport(new InMemoryTransport('one', hub));
+      remote.attachTransport(new InMemoryTransport('two', hub));
+
+      remote.registerMembrane(createMembrane('worker_membrane'), undefined, ['gpu']);
+      remote.registerPort(createPort('worker_in', 'worker_membrane'));
+      remote.registerMembrane(createMembrane('other_membrane'));
+
+      const [discovered] = local.discoverRemoteMembranes({ tags: ['gpu'] });
+      expect(discovered).toMatchObject({ membraneId: 'worker_membrane', endpointId: 'two', portIds: ['worker_in'] });
+      expect(local.discoverRemoteMembranes()).toHaveLength(2);
+      expect(remote.discoverRemoteMembranes()).toHaveLength(0);
+
+      remote.unregisterMembrane('other_membrane');
+      expect(local.discoverRemoteMembranes().map(descriptor => descriptor.membraneId)).toEqual(['worker_membrane']);
+
+      local.stop();
+      remote.stop();
+    });
+  });
+
+  describe('MessagePortTransport', () => {
+    let channel: MessageChannel;
+    let main: MessagePortTransport;
+    let worker: MessagePortTransport;
+
+    beforeEach(() => {
+      channel = new MessageChannel();
+      main = new MessagePortTransport('main', { requestTimeoutMs: 500 });
+      worker = new MessagePortTransport('worker', { requestTimeoutMs: 500 });
+      main.addPeer(channel.port1);
+      worker.addPeer(channel.port2);
+    });
+
+    afterEach(() => {
+      main.close();
+      worker.close();
+      channel.port1.close();
+      channel.port2.close();
+    });
+
+    test('should deliver structured-cloned messages across the channel', async () => {
+      const sender = createPort('out', 'a', { direction: 'output' });
+      const receiver = createPort('in', 'b');
+      sender.setTransport(main);
+      receiver.setTransport(worker);
+      await flush();
+
+      expect(main.getPeers()).toEqual(['worker']);
+      expect(sender.connectToRemotePort('in', 'b')).not.toBeNull();
+      expect(await sender.sendMessage(outgoing({ tensorData: new Float32Array([0.5, 1.5]), shape: [2] }))).toBe(true);
+
+      const [message] = receiver.processBufferedMessages();
+      expect(message.payload.tensorData.constructor.name).toBe('Float32Array');
+      expect(Array.from(message.payload.tensorData as Float32Array)).toEqual([0.5, 1.5]);
+    });
+
+    test('should report rejections and unbound ports to the sender', async () => {
+      const sender = createPort('out', 'a', { direction: 'output' });
+      const strict = createPort('strict', 'b', {
+        validationRules: [{ id: 'shape', name: 'shape', type: 'shape', parameters: { expectedShape: [3] }, errorMessage: 'bad shape', enabled: true }]
+      });
+      sender.setTransport(main);
+      strict.setTransport(worker);
+      await flush();
+
+      sender.connectToRemotePort('strict', 'b');
+      expect(await sender.sendMessage(outgoing({ tensorData: [1, 2], shape: [2] }))).toBe(false);
+
+      strict.setTransport(null);
+      await flush();
+      expect(main.hasPort('strict')).toBe(false);
+      expect(await main.send('strict', { id: 'x' } as PortMessage)).toBe(false);
+    });
+
+    test('should share membrane advertisements with registries', async () => {
+      const registry: MembraneRegistry = MembraneRegistryFactory.createTestRegistry('worker_registry', 'Worker Registry');
+      registry.registerMembrane(createMembrane('early'));
+      registry.attachTransport(worker);
+      registry.registerMembrane(createMembrane('late'), undefined, [], { type: 'memory' });
+
+      const observer = MembraneRegistryFactory.createTestRegistry('main_registry', 'Main Registry');
+      observer.attachTransport(main);
+      await flush();
+
+      expect(observer.discoverRemoteMembranes().map(descriptor => descriptor.membraneId).sort()).toEqual(['early', 'late']);
+      expect(observer.discoverRemoteMembranes({ membraneType: 'memory' })).toHaveLength(1);
+
+      worker.removePeer(channel.port2 as MessagePort);
+      await flush();
+      expect(observer.discoverRemoteMembranes()).toHaveLength(0);
+
+      registry.stop();
+      observer.stop();
+    });
+  });
+});
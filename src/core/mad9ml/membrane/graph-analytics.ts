@@ -0,0 +1,340 @@
+/**
+ * Graph Analytics for Membrane Topologies
+ *
+ * Metrics over undirected, unweighted membrane connection graphs: shortest
+ * paths, centrality (degree, betweenness, closeness, eigenvector), clustering,
+ * diameter and Louvain community detection with modularity.
+ */
+
+/**
+ * Undirected graph: node -> neighbours
+ */
+export type AdjacencyGraph = Map<string, Set<string>>;
+
+/**
+ * Build an undirected graph from (possibly one-sided) adjacency lists.
+ * Self-loops are ignored.
+ */
+export function buildUndirectedGraph(adjacency: Map<string, string[]>): AdjacencyGraph {
+  const graph: AdjacencyGraph = new Map();
+  const ensure = (node: string) => {
+    if (!graph.has(node)) graph.set(node, new Set());
+    return graph.get(node)!;
+  };
+
+  for (const [node, neighbours] of adjacency) {
+    ensure(node);
+    for (const neighbour of neighbours) {
+      if (neighbour === node) continue;
+      ensure(node).add(neighbour);
+      ensure(neighbour).add(node);
+    }
+  }
+  return graph;
+}
+
+/**
+ * Breadth-first hop distances from a source to every reachable node
+ */
+export function shortestPathLengths(graph: AdjacencyGraph, source: string): Map<string, number> {
+  const distances = new Map<string, number>([[source, 0]]);
+  const queue = [source];
+
+  for (let head = 0; head < queue.length; head++) {
+    const node = queue[head];
+    for (const neighbour of graph.get(node) || []) {
+      if (!distances.has(neighbour)) {
+        distances.set(neighbour, distances.get(node)! + 1);
+        queue.push(neighbour);
+      }
+    }
+  }
+  return distances;
+}
+
+/**
+ * Degree centrality normalized by n - 1
+ */
+export function degreeCentrality(graph: AdjacencyGraph): Map<string, number> {
+  const scale = graph.size > 1 ? 1 / (graph.size - 1) : 0;
+  return new Map(Array.from(graph.entries()).map(([node, neighbours]) => [node, neighbours.size * scale]));
+}
+
+/**
+ * Betweenness centrality (Brandes), normalized by the number of node pairs
+ * excluding the node itself
+ */
+export function betweennessCentrality(graph: AdjacencyGraph): Map<string, number> {
+  const betweenness = new Map<string, number>(Array.from(graph.keys()).map(node => [node, 0]));
+
+  for (const source of graph.keys()) {
+    const stack: string[] = [];
+    const predecessors = new Map<string, string[]>();
+    const paths = new Map<string, number>([[source, 1]]);
+    const distances = new Map<string, number>([[source, 0]]);
+    const queue = [source];
+
+    for (let head = 0; head < queue.length; head++) {
+      const node = queue[head];
+      stack.push(node);
+      for (const neighbour of graph.get(node)!) {
+        if (!distances.has(neighbour)) {
+          distances.set(neighbour, distances.get(node)! + 1);
+          queue.push(neighbour);
+        }
+        if (distances.get(neighbour) === distances.get(node)! + 1) {
+          paths.set(neighbour, (paths.get(neighbour) || 0) + paths.get(node)!);
+          predecessors.set(neighbour, [...(predecessors.get(neighbour) || []), node]);
+        }
+      }
+    }
+
+    const dependency = new Map<string, number>();
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      for (const predecessor of predecessors.get(node) || []) {
+        const share = (paths.get(predecessor)! / paths.get(node)!) * (1 + (dependency.get(node) || 0));
+        dependency.set(predecessor, (dependency.get(predecessor) || 0) + share);
+      }
+      if (node !== source) {
+        betweenness.set(node, betweenness.get(node)! + (dependency.get(node) || 0));
+      }
+    }
+  }
+
+  // Each undirected path was counted from both ends
+  const n = graph.size;
+  const scale = n > 2 ? 1 / ((n - 1) * (n - 2)) : 0;
+  betweenness.forEach((value, node) => betweenness.set(node, value * scale));
+  return betweenness;
+}
+
+/**
+ * Closeness centrality, scaled by the reachable fraction of the graph
+ * (Wasserman-Faust) so disconnected graphs are handled
+ */
+export function closenessCentrality(graph: AdjacencyGraph): Map<string, number> {
+  const closeness = new Map<string, number>();
+  const n = graph.size;
+
+  for (const node of graph.keys()) {
+    const distances = shortestPathLengths(graph, node);
+    const reachable = distances.size - 1;
+    const total = Array.from(distances.values()).reduce((sum, distance) => sum + distance, 0);
+    closeness.set(node, reachable > 0 && n > 1 ? (reachable / total) * (reachable / (n - 1)) : 0);
+  }
+  return closeness;
+}
+
+/**
+ * Eigenvector centrality by power iteration on A + I (which converges on
+ * bipartite graphs such as trees), normalized to unit length
+ */
+export function eigenvectorCentrality(
+  graph: AdjacencyGraph,
+  maxIterations: number = 200,
+  tolerance: number = 1e-8
+): Map<string, number> {
+  const nodes = Array.from(graph.keys());
+  const hasEdges = nodes.some(node => graph.get(node)!.size > 0);
+  if (!hasEdges) {
+    return new Map(nodes.map(node => [node, 0]));
+  }
+
+  let scores = new Map<string, number>(nodes.map(node => [node, 1 / Math.sqrt(nodes.length)]));
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const next = new Map<string, number>();
+    for (const node of nodes) {
+      let sum = scores.get(node)!;
+      graph.get(node)!.forEach(neighbour => sum += scores.get(neighbour)!);
+      next.set(node, sum);
+    }
+
+    const norm = Math.sqrt(Array.from(next.values()).reduce((sum, value) => sum + value * value, 0));
+    let change = 0;
+    for (const node of nodes) {
+      const value = next.get(node)! / norm;
+      change = Math.max(change, Math.abs(value - scores.get(node)!));
+      next.set(node, value);
+    }
+    scores = next;
+    if (change < tolerance) break;
+  }
+  return scores;
+}
+
+/**
+ * Local clustering coefficient: fraction of a node's neighbour pairs that are connected
+ */
+export function localClustering(graph: AdjacencyGraph): Map<string, number> {
+  const clustering = new Map<string, number>();
+
+  for (const [node, neighbours] of graph) {
+    const k = neighbours.size;
+    if (k < 2) {
+      clustering.set(node, 0);
+      continue;
+    }
+    clustering.set(node, (2 * countNeighbourLinks(graph, node)) / (k * (k - 1)));
+  }
+  return clustering;
+}
+
+/**
+ * Global clustering coefficient (transitivity): 3 × triangles / connected triples
+ */
+export function globalClustering(graph: AdjacencyGraph): number {
+  let closedTriples = 0;
+  let triples = 0;
+
+  for (const [node, neighbours] of graph) {
+    const k = neighbours.size;
+    triples += (k * (k - 1)) / 2;
+    closedTriples += countNeighbourLinks(graph, node);
+  }
+  return triples > 0 ? closedTriples / triples : 0;
+}
+
+/**
+ * Longest shortest path between any two connected nodes
+ */
+export function diameter(graph: AdjacencyGraph): number {
+  let longest = 0;
+  for (const node of graph.keys()) {
+    for (const distance of shortestPathLengths(graph, node).values()) {
+      longest = Math.max(longest, distance);
+    }
+  }
+  return longest;
+}
+
+/**
+ * Newman modularity of a partition
+ */
+export function modularity(graph: AdjacencyGraph, communities: string[][]): number {
+  const edges = Array.from(graph.values()).reduce((sum, neighbours) => sum + neighbours.size, 0) / 2;
+  if (edges === 0) return 0;
+
+  let q = 0;
+  for (const community of communities) {
+    const members = new Set(community);
+    let internal = 0;
+    let degree = 0;
+    for (const node of community) {
+      const neighbours = graph.get(node) || new Set<string>();
+      degree += neighbours.size;
+      neighbours.forEach(neighbour => {
+        if (members.has(neighbour)) internal++;
+      });
+    }
+    q += internal / 2 / edges - Math.pow(degree / (2 * edges), 2);
+  }
+  return q;
+}
+
+/**
+ * Louvain community detection: greedy local moves maximizing modularity,
+ * then aggregation of communities into nodes, repeated until no move helps.
+ * Nodes are visited in sorted order so results are deterministic.
+ */
+export function louvainCommunities(graph: AdjacencyGraph): string[][] {
+  const nodes = Array.from(graph.keys()).sort();
+  const index = new Map(nodes.map((node, i) => [node, i]));
+
+  // Weighted adjacency; w[i][j] holds both directions, self-loops hold internal weight twice
+  let weights: Array<Map<number, number>> = nodes.map(node => {
+    const row = new Map<number, number>();
+    graph.get(node)!.forEach(neighbour => row.set(index.get(neighbour)!, 1));
+    return row;
+  });
+  let membership = nodes.map((_, i) => i);
+
+  for (;;) {
+    const { communities, moved } = louvainLocalMoves(weights);
+    if (!moved) break;
+
+    // Renumber communities densely and aggregate them into nodes
+    const renumber = new Map<number, number>();
+    communities.forEach(community => {
+      if (!renumber.has(community)) renumber.set(community, renumber.size);
+    });
+    const aggregated: Array<Map<number, number>> = Array.from({ length: renumber.size }, () => new Map());
+    weights.forEach((row, i) => {
+      const from = renumber.get(communities[i])!;
+      row.forEach((weight, j) => {
+        const to = renumber.get(communities[j])!;
+        aggregated[from].set(to, (aggregated[from].get(to) || 0) + weight);
+      });
+    });
+
+    membership = membership.map(node => renumber.get(communities[node])!);
+    weights = aggregated;
+  }
+
+  const grouped = new Map<number, string[]>();
+  membership.forEach((community, i) => {
+    if (!grouped.has(community)) grouped.set(community, []);
+    grouped.get(community)!.push(nodes[i]);
+  });
+  return Array.from(grouped.values());
+}
+
+function louvainLocalMoves(weights: Array<Map<number, number>>): { communities: number[]; moved: boolean } {
+  const n = weights.length;
+  const communities = Array.from({ length: n }, (_, i) => i);
+  const degrees = weights.map(row => Array.from(row.values()).reduce((sum, weight) => sum + weight, 0));
+  const totals = [...degrees];
+  const twoM = degrees.reduce((sum, degree) => sum + degree, 0);
+  let moved = false;
+
+  if (twoM === 0) {
+    return { communities, moved };
+  }
+
+  for (let improved = true; improved;) {
+    improved = false;
+
+    for (let i = 0; i < n; i++) {
+      const current = communities[i];
+      totals[current] -= degrees[i];
+
+      const links = new Map<number, number>();
+      weights[i].forEach((weight, j) => {
+        if (j !== i) links.set(communities[j], (links.get(communities[j]) || 0) + weight);
+      });
+
+      let best = current;
+      let bestGain = (links.get(current) || 0) - (totals[current] * degrees[i]) / twoM;
+      links.forEach((weight, community) => {
+        const gain = weight - (totals[community] * degrees[i]) / twoM;
+        if (gain > bestGain + 1e-12) {
+          best = community;
+          bestGain = gain;
+        }
+      });
+
+      totals[best] += degrees[i];
+      if (best !== current) {
+        communities[i] = best;
+        improved = true;
+        moved = true;
+      }
+    }
+  }
+
+  return { communities, moved };
+}
+
+/**
+ * Number of links among a node's neighbours
+ */
+function countNeighbourLinks(graph: AdjacencyGraph, node: string): number {
+  const neighbours = Array.from(graph.get(node)!);
+  let links = 0;
+  for (let i = 0; i < neighbours.length; i++) {
+    for (let j = i + 1; j < neighbours.length; j++) {
+      if (graph.get(neighbours[i])!.has(neighbours[j])) links++;
+    }
+  }
+  return links;
+}
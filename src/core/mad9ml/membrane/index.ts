@@ -8,8 +8,11 @@
  * - Membrane abstraction for kernel state encapsulation
  * - Port channels for controlled message passing
  * - P-System implementation for recursive membrane nesting
+ * - Multiset rewriting with maximally parallel rule application
+ * - Topology analytics: centrality, clustering and community detection
  * - Message routing with boundary respect
  * - Centralized membrane registry and management
+ * - Pluggable transports for membranes across threads and processes
  * - Meta-cognitive self-reporting capabilities
  */
 
@@ -42,6 +45,8 @@ export {
   PortTransformationRule,
   PortValidationResult,
   PortTransformationResult,
+  PortTensorPayload,
+  PortEncodedPayload,
   PortDirection,
   PortDataType,
   MessagePriority,
@@ -62,6 +67,38 @@ export {
   MembraneCluster
 } from './p-system.js';
 
+// Multiset P-System execution
+export {
+  MultisetPSystem,
+  MultisetPSystemOptions,
+  Multiset,
+  MultisetSpec,
+  MultisetTarget,
+  MultisetProduct,
+  MultisetRule,
+  MultisetRuleApplication,
+  MultisetStepResult,
+  MultisetRunResult,
+  parseMultiset,
+  formatMultiset
+} from './multiset-p-system.js';
+
+// Topology graph analytics
+export {
+  AdjacencyGraph,
+  buildUndirectedGraph,
+  shortestPathLengths,
+  degreeCentrality,
+  betweennessCentrality,
+  closenessCentrality,
+  eigenvectorCentrality,
+  localClustering,
+  globalClustering,
+  diameter,
+  modularity,
+  louvainCommunities
+} from './graph-analytics.js';
+
 // Message routing
 export {
   MessageRouter,
@@ -72,7 +109,11 @@ export {
   RoutingStatistics,
   RoutingContext,
   QoSParameters,
-  RoutingStrategy
+  RoutingStrategy,
+  HopTransmitter,
+  DeadLetter,
+  DeadLetterReason,
+  DeadLetterFilter
 } from './message-router.js';
 
 // Registry and management
@@ -88,6 +129,16 @@ export {
   MembraneLifecycleEvent
 } from './membrane-registry.js';
 
+// Cross-thread and in-process transports
+export {
+  MembraneTransport,
+  MembraneDescriptor,
+  InMemoryTransport,
+  InMemoryTransportHub,
+  MessagePortTransport,
+  MessagePortTransportOptions
+} from './transport.js';
+
 // Import the needed types for the factories
 import { Membrane } from './membrane-abstraction.js';
 import { PortChannel, PortMessage } from './port-channel.js';
@@ -9,6 +9,7 @@ import { Membrane, MembraneState, MembraneBoundary } from './membrane-abstractio
 import { PortChannel } from './port-channel.js';
 import { PSystem } from './p-system.js';
 import { MessageRouter } from './message-router.js';
+import { MembraneTransport, MembraneDescriptor } from './transport.js';
 import { TensorShape } from '../types.js';
 
 /**
@@ -120,6 +121,7 @@ export class MembraneRegistry {
   private pSystems: Map<string, PSystemRegistration> = new Map();
   private ports: Map<string, PortChannel> = new Map();
   private routers: Map<string, MessageRouter> = new Map();
+  private transport: MembraneTransport | null = null;
   private lifecycleEvents: MembraneLifecycleEvent[] = [];
   private statistics: RegistryStatistics;
   private creationTime: number;
@@ -221,6 +223,8 @@ export class MembraneRegistry {
       }
     });
 
+    this.advertiseMembrane(membrane.getId());
+
     console.log(`Registered membrane ${membrane.getId()} in registry ${this.config.id}`);
     return true;
   }
@@ -254,6 +258,7 @@ export class MembraneRegistry {
 
     // Remove from registry
     this.membranes.delete(membraneId);
+    this.transport?.withdraw(membraneId);
 
     // Update statistics
     this.statistics.totalMembranes--;
@@ -362,6 +367,7 @@ export class MembraneRegistry {
     if (membraneReg) {
       membraneReg.ports.push(port.getId());
       membraneReg.lastActivity = Date.now();
+      this.advertiseMembrane(port.getMembraneId());
     }
 
     // Update statistics
@@ -387,6 +393,7 @@ export class MembraneRegistry {
     if (membraneReg) {
       membraneReg.ports = membraneReg.ports.filter(id => id !== portId);
       membraneReg.lastActivity = Date.now();
+      this.advertiseMembrane(port.getMembraneId());
     }
 
     // Detach port
@@ -512,6 +519,62 @@ export class MembraneRegistry {
     };
   }
 
+  /**
+   * Discover membranes advertised by other endpoints of the attached transport
+   */
+  discoverRemoteMembranes(query: RegistryQuery = {}): MembraneDescriptor[] {
+    let descriptors = this.transport ? this.transport.getRemoteMembranes() : [];
+
+    if (query.pSystemId) {
+      descriptors = descriptors.filter(descriptor => descriptor.pSystemId === query.pSystemId);
+    }
+
+    if (query.tags && query.tags.length > 0) {
+      descriptors = descriptors.filter(descriptor =>
+        query.tags!.some(tag => descriptor.tags.includes(tag))
+      );
+    }
+
+    if (query.depthRange) {
+      const [minDepth, maxDepth] = query.depthRange;
+      descriptors = descriptors.filter(descriptor => descriptor.depth >= minDepth && descriptor.depth <= maxDepth);
+    }
+
+    if (query.membraneType) {
+      descriptors = descriptors.filter(descriptor => descriptor.metadata.type === query.membraneType);
+    }
+
+    const offset = query.offset || 0;
+    return descriptors.slice(offset, query.limit ? offset + query.limit : undefined);
+  }
+
+  /**
+   * Advertise registered membranes over a transport so other endpoints can discover them
+   */
+  attachTransport(transport: MembraneTransport): void {
+    this.detachTransport();
+    this.transport = transport;
+
+    for (const membraneId of this.membranes.keys()) {
+      this.advertiseMembrane(membraneId);
+    }
+    console.log(`Registry ${this.config.id} attached to transport ${transport.endpointId}`);
+  }
+
+  /**
+   * Withdraw all advertisements and detach from the transport
+   */
+  detachTransport(): void {
+    if (!this.transport) {
+      return;
+    }
+
+    for (const membraneId of this.membranes.keys()) {
+      this.transport.withdraw(membraneId);
+    }
+    this.transport = null;
+  }
+
   /**
    * Get membrane by ID
    */
@@ -635,6 +698,7 @@ export class MembraneRegistry {
 
     registration.tags = [...tags];
     registration.lastActivity = Date.now();
+    this.advertiseMembrane(membraneId);
     return true;
   }
 
@@ -649,6 +713,7 @@ export class MembraneRegistry {
 
     registration.metadata = { ...registration.metadata, ...metadata };
     registration.lastActivity = Date.now();
+    this.advertiseMembrane(membraneId);
     return true;
   }
 
@@ -790,6 +855,24 @@ export class MembraneRegistry {
     };
   }
 
+  private advertiseMembrane(membraneId: string): void {
+    const registration = this.membranes.get(membraneId);
+    if (!this.transport || !registration) {
+      return;
+    }
+
+    this.transport.advertise({
+      membraneId,
+      name: registration.membrane.getName(),
+      endpointId: this.transport.endpointId,
+      pSystemId: registration.pSystemId,
+      depth: registration.membrane.getDepth(),
+      tags: [...registration.tags],
+      portIds: [...registration.ports],
+      metadata: { ...registration.metadata }
+    });
+  }
+
   private logLifecycleEvent(event: MembraneLifecycleEvent): void {
     this.lifecycleEvents.push(event);
 
@@ -31,6 +31,12 @@ export interface MessageRouterConfig {
   enableLoadBalancing: boolean;
   enableFailover: boolean;
   compressionThreshold: number;
+  /** Delay before the first retry; doubles with each further retry (default 50ms) */
+  retryBackoffMs?: number;
+  /** Upper bound for the retry delay (default 2000ms) */
+  maxRetryBackoffMs?: number;
+  /** Dead letters kept before the oldest are dropped (default 1000) */
+  deadLetterQueueSize?: number;
 }
 
 /**
@@ -76,6 +82,10 @@ export interface RoutingStatistics {
   routingTableUpdates: number;
   totalBandwidthUsed: number;
   networkTopologyChanges: number;
+  messagesRetried: number;
+  failovers: number;
+  deadlineMisses: number;
+  deadLettered: number;
   uptime: number;
 }
 
@@ -102,9 +112,63 @@ export interface RoutingContext {
   qos: QoSParameters;
   userContext?: string;
   routingHints?: Record<string, any>;
+  /** Absolute delivery deadline (epoch milliseconds) */
   deadline?: number;
 }
 
+/**
+ * Transmits a message over one hop; resolve false or throw to fail the hop
+ */
+export type HopTransmitter = (message: PortMessage, from: string, to: string) => Promise<boolean>;
+
+/**
+ * Why a message ended up in the dead-letter queue
+ */
+export type DeadLetterReason =
+  | 'no_route'
+  | 'qos_unsatisfiable'
+  | 'encryption_required'
+  | 'deadline_exceeded'
+  | 'retries_exhausted'
+  | 'routing_error';
+
+/**
+ * Undeliverable message kept for inspection and replay
+ */
+export interface DeadLetter {
+  message: PortMessage;
+  context: RoutingContext;
+  strategy: RoutingStrategy;
+  reason: DeadLetterReason;
+  error?: string;
+  /** Delivery attempts made before giving up */
+  attempts: number;
+  deadLetteredAt: number;
+}
+
+/**
+ * Dead-letter selection criteria
+ */
+export interface DeadLetterFilter {
+  reason?: DeadLetterReason;
+  sourceMembraneId?: string;
+  destinationMembraneId?: string;
+}
+
+interface QueuedMessage {
+  message: PortMessage;
+  context: RoutingContext;
+  strategy?: RoutingStrategy;
+  enqueuedAt: number;
+}
+
+interface RouteAttemptResult {
+  delivered: boolean;
+  error?: string;
+}
+
+const MAX_ALTERNATIVE_PATHS = 3;
+
 /**
  * Message router implementation
  */
@@ -112,7 +176,9 @@ export class MessageRouter {
   private config: MessageRouterConfig;
   private routingTable: Map<string, RoutingTableEntry[]> = new Map();
   private routeCache: Map<string, MessageRoute> = new Map();
-  private messageQueues: Map<MessagePriority, PortMessage[]> = new Map();
+  private messageQueues: Map<MessagePriority, QueuedMessage[]> = new Map();
+  private deadLetters: DeadLetter[] = [];
+  private hopTransmitter: HopTransmitter;
   private activeRoutes: Map<string, MessageRoute> = new Map();
   private statistics: RoutingStatistics;
   private membranes: Map<string, Membrane> = new Map();
@@ -126,6 +192,7 @@ export class MessageRouter {
     this.config = { ...config };
     this.creationTime = Date.now();
     this.lastTableUpdate = Date.now();
+    this.hopTransmitter = (_message, from, to) => this.transmitLocally(from, to);
 
     // Initialize message queues by priority
     this.messageQueues.set('critical', []);
@@ -146,6 +213,10 @@ export class MessageRouter {
       routingTableUpdates: 0,
       totalBandwidthUsed: 0,
       networkTopologyChanges: 0,
+      messagesRetried: 0,
+      failovers: 0,
+      deadlineMisses: 0,
+      deadLettered: 0,
       uptime: 0
     };
   }
@@ -196,7 +267,10 @@ export class MessageRouter {
   }
 
   /**
-   * Route message between membranes
+   * Route message between membranes. QoS bounds, encryption requirements and
+   * the deadline are enforced; failed deliveries are retried with exponential
+   * backoff, fail over onto alternative paths and finally go to the
+   * dead-letter queue.
    */
   async routeMessage(
     message: PortMessage,
@@ -209,9 +283,16 @@ export class MessageRouter {
     }
 
     const routingStrategy = strategy || this.config.defaultStrategy;
-    const routeId = this.generateRouteId(context);
 
     try {
+      if (context.qos.encryptionRequired && message.payload?.encoding !== 'aes-256-gcm') {
+        return this.deadLetter(message, context, routingStrategy, 'encryption_required', 0, 'Payload is not encrypted');
+      }
+
+      if (this.isPastDeadline(context)) {
+        return this.deadLetter(message, context, routingStrategy, 'deadline_exceeded', 0);
+      }
+
       // Find optimal route
       const route = await this.findRoute(
         context.sourceMembraneId,
@@ -222,34 +303,49 @@ export class MessageRouter {
 
       if (!route) {
         console.warn(`No route found from ${context.sourceMembraneId} to ${context.destinationMembraneId}`);
-        this.statistics.messagesFailed++;
-        return false;
+        return this.deadLetter(message, context, routingStrategy, 'no_route', 0);
       }
 
-      // Add message to appropriate queue
-      if (this.config.enablePriorityQueuing) {
-        this.addToQueue(message, context.qos.priority);
+      const candidates = [route, ...(this.config.enableFailover ? route.alternativePaths || [] : [])]
+        .filter(candidate => this.satisfiesQoS(candidate, context.qos));
+
+      if (candidates.length === 0) {
+        return this.deadLetter(
+          message,
+          context,
+          routingStrategy,
+          'qos_unsatisfiable',
+          0,
+          `Route latency ${route.estimatedLatency}ms and reliability ${route.reliability.toFixed(3)} violate QoS bounds`
+        );
       }
 
-      // Execute routing
-      const success = await this.executeRoute(message, route, context);
-      
-      if (success) {
-        this.statistics.messagesRouted++;
-        this.statistics.messagesDelivered++;
-        this.updateRouteStatistics(route, true);
-      } else {
-        this.statistics.messagesFailed++;
-        this.updateRouteStatistics(route, false);
-      }
-
-      return success;
+      return await this.deliver(message, candidates, context, routingStrategy);
 
     } catch (error) {
       console.error(`Error routing message ${message.id}:`, error);
-      this.statistics.messagesFailed++;
+      return this.deadLetter(
+        message,
+        context,
+        routingStrategy,
+        'routing_error',
+        0,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  /**
+   * Queue message for deadline-aware delivery by processMessageQueues
+   */
+  enqueueMessage(message: PortMessage, context: RoutingContext, strategy?: RoutingStrategy): boolean {
+    if (!this.config.enablePriorityQueuing) {
+      console.warn(`Priority queuing is disabled on router ${this.config.id}`);
       return false;
     }
+
+    this.addToQueue({ message, context, strategy, enqueuedAt: Date.now() });
+    return true;
   }
 
   /**
@@ -293,7 +389,7 @@ export class MessageRouter {
         destinationMembraneId: destination
       };
 
-      const success = await this.executeRoute(message, route, multicastContext);
+      const success = await this.deliver(message, [route], multicastContext, 'multicast');
       results.set(destination, success);
     }
 
@@ -367,30 +463,19 @@ export class MessageRouter {
       // Add direct connections (parent and children)
       const parent = membrane.getParent();
       if (parent && this.membranes.has(parent.getId())) {
-        entries.push({
-          destination: parent.getId(),
-          nextHop: parent.getId(),
-          hopCount: 1,
-          cost: 1.0,
-          timestamp: Date.now(),
-          reliability: 0.95,
-          bandwidth: 1000,
-          latency: 10
-        });
+        entries.push(this.createDirectEntry(parent.getId()));
       }
 
       for (const child of membrane.getChildren()) {
         if (this.membranes.has(child.getId())) {
-          entries.push({
-            destination: child.getId(),
-            nextHop: child.getId(),
-            hopCount: 1,
-            cost: 1.0,
-            timestamp: Date.now(),
-            reliability: 0.95,
-            bandwidth: 1000,
-            latency: 10
-          });
+          entries.push(this.createDirectEntry(child.getId()));
+        }
+      }
+
+      // Add lateral connections established in the P-System
+      for (const peerId of this.pSystem?.getConnectedMembranes(membraneId) || []) {
+        if (this.membranes.has(peerId) && !entries.some(entry => entry.destination === peerId)) {
+          entries.push(this.createDirectEntry(peerId));
         }
       }
 
@@ -432,24 +517,77 @@ export class MessageRouter {
   }
 
   /**
-   * Process message queues
+   * Deliver queued messages in priority order, earliest deadline first within
+   * a priority. Returns the number of messages delivered.
    */
-  async processMessageQueues(): Promise<void> {
+  async processMessageQueues(): Promise<number> {
     if (!this.config.enablePriorityQueuing) {
-      return;
+      return 0;
     }
 
-    // Process queues in priority order
     const priorities: MessagePriority[] = ['critical', 'urgent', 'high', 'normal', 'low'];
+    let delivered = 0;
 
     for (const priority of priorities) {
-      const queue = this.messageQueues.get(priority) || [];
-      while (queue.length > 0) {
-        const message = queue.shift()!;
-        // Process message (simplified - would need full routing context)
-        console.log(`Processing ${priority} priority message ${message.id}`);
+      const batch = (this.messageQueues.get(priority) || []).splice(0).sort(compareDeadlines);
+      for (const entry of batch) {
+        if (await this.routeMessage(entry.message, entry.context, entry.strategy)) {
+          delivered++;
+        }
       }
     }
+
+    return delivered;
+  }
+
+  /**
+   * Replace hop transmission (e.g. with a network transport); null restores
+   * in-process delivery between registered membranes
+   */
+  setHopTransmitter(transmitter: HopTransmitter | null): void {
+    this.hopTransmitter = transmitter || ((_message, from, to) => this.transmitLocally(from, to));
+  }
+
+  /**
+   * Get dead-lettered messages, oldest first
+   */
+  getDeadLetters(filter?: DeadLetterFilter): DeadLetter[] {
+    return this.deadLetters.filter(letter => matchesDeadLetter(letter, filter));
+  }
+
+  /**
+   * Re-route a dead-lettered message. Context overrides (such as a new
+   * deadline) are applied; the message is dead-lettered again if it fails.
+   */
+  async replayDeadLetter(messageId: string, overrides?: Partial<RoutingContext>): Promise<boolean> {
+    const index = this.deadLetters.findIndex(letter => letter.message.id === messageId);
+    if (index === -1) {
+      console.warn(`No dead letter found for message ${messageId}`);
+      return false;
+    }
+
+    const [letter] = this.deadLetters.splice(index, 1);
+    return await this.routeMessage(letter.message, { ...letter.context, ...overrides }, letter.strategy);
+  }
+
+  /**
+   * Re-route all matching dead letters
+   */
+  async replayDeadLetters(filter?: DeadLetterFilter, overrides?: Partial<RoutingContext>): Promise<Map<string, boolean>> {
+    const results = new Map<string, boolean>();
+    for (const letter of this.getDeadLetters(filter)) {
+      results.set(letter.message.id, await this.replayDeadLetter(letter.message.id, overrides));
+    }
+    return results;
+  }
+
+  /**
+   * Drop matching dead letters, returning how many were removed
+   */
+  purgeDeadLetters(filter?: DeadLetterFilter): number {
+    const before = this.deadLetters.length;
+    this.deadLetters = this.deadLetters.filter(letter => !matchesDeadLetter(letter, filter));
+    return before - this.deadLetters.length;
   }
 
   /**
@@ -506,13 +644,36 @@ export class MessageRouter {
     destination: string,
     qos: QoSParameters
   ): Promise<MessageRoute | null> {
-    // Implement Dijkstra's algorithm for shortest path
+    const shortest = this.findPathAvoiding(source, destination, new Set(), new Set());
+    if (!shortest) {
+      return null;
+    }
+
+    const route = this.buildRoute(shortest.path, shortest.cost, 'shortest-path');
+    if (this.config.enableFailover) {
+      route.alternativePaths = this.findAlternativePaths(shortest.path).map((alternative, index) => ({
+        ...this.buildRoute(alternative.path, alternative.cost, 'shortest-path'),
+        id: `${route.id}_alt${index + 1}`
+      }));
+    }
+    return route;
+  }
+
+  /**
+   * Dijkstra's algorithm over direct links, skipping excluded membranes and links
+   */
+  private findPathAvoiding(
+    source: string,
+    destination: string,
+    excludedMembranes: Set<string>,
+    excludedLinks: Set<string>
+  ): { path: string[]; cost: number } | null {
     const distances = new Map<string, number>();
     const previous = new Map<string, string>();
-    const unvisited = new Set(this.membranes.keys());
+    const unvisited = new Set(Array.from(this.membranes.keys()).filter(id => !excludedMembranes.has(id)));
 
     // Initialize distances
-    for (const membraneId of this.membranes.keys()) {
+    for (const membraneId of unvisited) {
       distances.set(membraneId, membraneId === source ? 0 : Infinity);
     }
 
@@ -521,7 +682,7 @@ export class MessageRouter {
       let current = '';
       let minDistance = Infinity;
       for (const membraneId of unvisited) {
-        const distance = distances.get(membraneId) || Infinity;
+        const distance = distances.get(membraneId) ?? Infinity;
         if (distance < minDistance) {
           minDistance = distance;
           current = membraneId;
@@ -535,11 +696,10 @@ export class MessageRouter {
       unvisited.delete(current);
 
       // Update distances to neighbors
-      const entries = this.routingTable.get(current) || [];
-      for (const entry of entries) {
-        if (unvisited.has(entry.destination)) {
+      for (const entry of this.getDirectLinks(current)) {
+        if (unvisited.has(entry.destination) && !excludedLinks.has(linkKey(current, entry.destination))) {
           const alt = minDistance + entry.cost;
-          if (alt < (distances.get(entry.destination) || Infinity)) {
+          if (alt < (distances.get(entry.destination) ?? Infinity)) {
             distances.set(entry.destination, alt);
             previous.set(entry.destination, current);
           }
@@ -547,6 +707,10 @@ export class MessageRouter {
       }
     }
 
+    if (!distances.has(source) || !distances.has(destination)) {
+      return null;
+    }
+
     // Reconstruct path
     const path: string[] = [];
     let current = destination;
@@ -560,15 +724,48 @@ export class MessageRouter {
     }
     path.unshift(source);
 
+    return { path, cost: distances.get(destination)! };
+  }
+
+  /**
+   * Shortest paths that avoid each intermediate membrane or link of the primary path
+   */
+  private findAlternativePaths(primary: string[]): Array<{ path: string[]; cost: number }> {
+    const source = primary[0];
+    const destination = primary[primary.length - 1];
+    const primaryKey = primary.join('>');
+    const alternatives = new Map<string, { path: string[]; cost: number }>();
+
+    const exclusions = [
+      ...primary.slice(1, -1).map(membraneId => ({ membranes: new Set([membraneId]), links: new Set<string>() })),
+      ...primary.slice(0, -1).map((membraneId, i) => ({
+        membranes: new Set<string>(),
+        links: new Set([linkKey(membraneId, primary[i + 1])])
+      }))
+    ];
+
+    for (const exclusion of exclusions) {
+      const alternative = this.findPathAvoiding(source, destination, exclusion.membranes, exclusion.links);
+      if (alternative && alternative.path.join('>') !== primaryKey) {
+        alternatives.set(alternative.path.join('>'), alternative);
+      }
+    }
+
+    return Array.from(alternatives.values())
+      .sort((a, b) => a.cost - b.cost)
+      .slice(0, MAX_ALTERNATIVE_PATHS);
+  }
+
+  private buildRoute(path: string[], cost: number, strategy: RoutingStrategy): MessageRoute {
     return {
-      id: this.generateRouteId({ sourceMembraneId: source, destinationMembraneId: destination } as RoutingContext),
-      source,
-      destination,
+      id: this.generateRouteId({ sourceMembraneId: path[0], destinationMembraneId: path[path.length - 1] } as RoutingContext),
+      source: path[0],
+      destination: path[path.length - 1],
       path,
-      totalCost: distances.get(destination) || Infinity,
+      totalCost: cost,
       estimatedLatency: path.length * 10,
       reliability: Math.pow(0.95, path.length - 1),
-      strategy: 'shortest-path'
+      strategy
     };
   }
 
@@ -618,45 +815,176 @@ export class MessageRouter {
     return await this.findShortestPath(source, destination, qos);
   }
 
+  /**
+   * Deliver over candidate routes (primary first), retrying with exponential
+   * backoff until delivered, out of attempts or past the deadline
+   */
+  private async deliver(
+    message: PortMessage,
+    routes: MessageRoute[],
+    context: RoutingContext,
+    strategy: RoutingStrategy
+  ): Promise<boolean> {
+    const maxAttempts = 1 + Math.max(0, this.config.retryAttempts);
+    let lastError: string | undefined;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      if (attempt > 1) {
+        const delay = this.calculateRetryDelay(attempt - 1);
+        if (context.deadline !== undefined && Date.now() + delay >= context.deadline) {
+          return this.deadLetter(message, context, strategy, 'deadline_exceeded', attempt - 1, lastError);
+        }
+        this.statistics.messagesRetried++;
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+
+      for (let i = 0; i < routes.length; i++) {
+        if (this.isPastDeadline(context)) {
+          return this.deadLetter(message, context, strategy, 'deadline_exceeded', attempt, lastError);
+        }
+
+        if (i > 0) {
+          this.statistics.failovers++;
+          console.log(`Failing over message ${message.id} to ${routes[i].path.join(' -> ')}`);
+        }
+
+        const result = await this.executeRoute(message, routes[i], context);
+        this.updateRouteStatistics(routes[i], result.delivered);
+
+        if (result.delivered) {
+          this.statistics.messagesRouted++;
+          this.statistics.messagesDelivered++;
+          return true;
+        }
+        lastError = result.error;
+      }
+    }
+
+    return this.deadLetter(message, context, strategy, 'retries_exhausted', maxAttempts, lastError);
+  }
+
   private async executeRoute(
     message: PortMessage,
     route: MessageRoute,
     context: RoutingContext
-  ): Promise<boolean> {
+  ): Promise<RouteAttemptResult> {
     const startTime = Date.now();
-    
-    try {
-      // Simulate message transmission along the route
-      for (let i = 0; i < route.path.length - 1; i++) {
-        const currentNode = route.path[i];
-        const nextNode = route.path[i + 1];
-        
-        // Update route metadata
-        message.routingMetadata.hopCount++;
-        message.routingMetadata.route.push(nextNode);
-        
-        // Simulate transmission delay
-        await this.simulateTransmissionDelay(currentNode, nextNode);
+
+    for (let i = 0; i < route.path.length - 1; i++) {
+      const currentNode = route.path[i];
+      const nextNode = route.path[i + 1];
+
+      try {
+        const transmitted = await this.transmitHop(message, currentNode, nextNode, context);
+        if (!transmitted) {
+          return { delivered: false, error: `Hop ${currentNode} -> ${nextNode} rejected message` };
+        }
+      } catch (error) {
+        return { delivered: false, error: error instanceof Error ? error.message : String(error) };
       }
+    }
 
-      const latency = Date.now() - startTime;
-      message.routingMetadata.latency = latency;
-      
-      // Update statistics
-      this.statistics.averageLatency = 
-        (this.statistics.averageLatency * this.statistics.messagesDelivered + latency) / 
-        (this.statistics.messagesDelivered + 1);
-      
-      this.statistics.averageHopCount = 
-        (this.statistics.averageHopCount * this.statistics.messagesDelivered + message.routingMetadata.hopCount) / 
-        (this.statistics.messagesDelivered + 1);
+    // Update route metadata
+    const latency = Date.now() - startTime;
+    message.routingMetadata.hopCount += route.path.length - 1;
+    message.routingMetadata.route.push(...route.path.slice(1));
+    message.routingMetadata.latency = latency;
 
-      return true;
+    // Update statistics
+    this.statistics.averageLatency =
+      (this.statistics.averageLatency * this.statistics.messagesDelivered + latency) /
+      (this.statistics.messagesDelivered + 1);
 
-    } catch (error) {
-      console.error(`Error executing route ${route.id}:`, error);
-      return false;
+    this.statistics.averageHopCount =
+      (this.statistics.averageHopCount * this.statistics.messagesDelivered + message.routingMetadata.hopCount) /
+      (this.statistics.messagesDelivered + 1);
+
+    return { delivered: true };
+  }
+
+  /**
+   * Transmit over one hop, bounded by the router timeout and the deadline
+   */
+  private async transmitHop(message: PortMessage, from: string, to: string, context: RoutingContext): Promise<boolean> {
+    const remaining = context.deadline !== undefined ? context.deadline - Date.now() : Infinity;
+    const timeout = Math.min(this.config.timeoutMs, remaining);
+    if (timeout <= 0) {
+      throw new Error(`Deadline passed before hop ${from} -> ${to}`);
+    }
+
+    const transmission = this.hopTransmitter(message, from, to);
+    if (!Number.isFinite(timeout)) {
+      return await transmission;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      return await Promise.race([
+        transmission,
+        new Promise<boolean>((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`Hop ${from} -> ${to} timed out after ${timeout}ms`)), timeout);
+        })
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * In-process hop: the target must be registered and active, and both
+   * boundaries must let messages through
+   */
+  private async transmitLocally(from: string, to: string): Promise<boolean> {
+    const sourceMembrane = this.membranes.get(from);
+    const targetMembrane = this.membranes.get(to);
+
+    if (!sourceMembrane || !targetMembrane) {
+      throw new Error(`Membrane ${sourceMembrane ? to : from} is not registered with router`);
+    }
+    if (!targetMembrane.getIsActive()) {
+      throw new Error(`Membrane ${to} is inactive`);
+    }
+    if (sourceMembrane.getBoundary().permeability.outbound <= 0 || targetMembrane.getBoundary().permeability.inbound <= 0) {
+      throw new Error(`Boundary between ${from} and ${to} is closed`);
     }
+    return true;
+  }
+
+  private satisfiesQoS(route: MessageRoute, qos: QoSParameters): boolean {
+    return route.estimatedLatency <= qos.maxLatency && route.reliability >= qos.minReliability;
+  }
+
+  private isPastDeadline(context: RoutingContext): boolean {
+    return context.deadline !== undefined && Date.now() >= context.deadline;
+  }
+
+  private calculateRetryDelay(retry: number): number {
+    const base = this.config.retryBackoffMs ?? 50;
+    return Math.min(base * Math.pow(2, retry - 1), this.config.maxRetryBackoffMs ?? 2000);
+  }
+
+  private deadLetter(
+    message: PortMessage,
+    context: RoutingContext,
+    strategy: RoutingStrategy,
+    reason: DeadLetterReason,
+    attempts: number,
+    error?: string
+  ): boolean {
+    this.statistics.messagesFailed++;
+    this.statistics.deadLettered++;
+    if (reason === 'deadline_exceeded') {
+      this.statistics.deadlineMisses++;
+    }
+
+    this.deadLetters.push({ message, context: { ...context }, strategy, reason, error, attempts, deadLetteredAt: Date.now() });
+    const maxSize = this.config.deadLetterQueueSize ?? 1000;
+    if (this.deadLetters.length > maxSize) {
+      this.deadLetters.splice(0, this.deadLetters.length - maxSize);
+    }
+
+    console.warn(`Dead-lettered message ${message.id} (${reason})${error ? `: ${error}` : ''}`);
+    return false;
   }
 
   private async optimizeMulticastRoutes(
@@ -758,21 +1086,28 @@ export class MessageRouter {
   }
 
   private areDirectlyConnected(source: string, destination: string): boolean {
-    const sourceMembrane = this.membranes.get(source);
-    const destinationMembrane = this.membranes.get(destination);
-
-    if (!sourceMembrane || !destinationMembrane) {
+    if (!this.membranes.has(source) || !this.membranes.has(destination)) {
       return false;
     }
 
-    // Check parent-child relationships
-    const parent = sourceMembrane.getParent();
-    if (parent && parent.getId() === destination) {
-      return true;
-    }
+    return this.getDirectLinks(source).some(entry => entry.destination === destination);
+  }
 
-    const children = sourceMembrane.getChildren();
-    return children.some(child => child.getId() === destination);
+  private getDirectLinks(membraneId: string): RoutingTableEntry[] {
+    return (this.routingTable.get(membraneId) || []).filter(entry => entry.hopCount === 1 && entry.nextHop === entry.destination);
+  }
+
+  private createDirectEntry(destination: string): RoutingTableEntry {
+    return {
+      destination,
+      nextHop: destination,
+      hopCount: 1,
+      cost: 1.0,
+      timestamp: Date.now(),
+      reliability: 0.95,
+      bandwidth: 1000,
+      latency: 10
+    };
   }
 
   private updateTopology(): void {
@@ -813,9 +1148,10 @@ export class MessageRouter {
     }
   }
 
-  private addToQueue(message: PortMessage, priority: MessagePriority): void {
+  private addToQueue(entry: QueuedMessage): void {
+    const priority = entry.context.qos.priority;
     const queue = this.messageQueues.get(priority) || [];
-    queue.push(message);
+    queue.push(entry);
     this.messageQueues.set(priority, queue);
   }
 
@@ -824,32 +1160,38 @@ export class MessageRouter {
     // This could include success rates, latency measurements, etc.
   }
 
-  private async simulateTransmissionDelay(from: string, to: string): Promise<void> {
-    // Simulate network delay based on membrane boundary policies
-    const sourceMembrane = this.membranes.get(from);
-    const targetMembrane = this.membranes.get(to);
-    
-    if (sourceMembrane && targetMembrane) {
-      const sourceBoundary = sourceMembrane.getBoundary();
-      const targetBoundary = targetMembrane.getBoundary();
-      
-      // Calculate delay based on boundary permeability
-      const delay = Math.max(
-        (1 - sourceBoundary.permeability.outbound) * 50,
-        (1 - targetBoundary.permeability.inbound) * 50
-      );
-      
-      if (delay > 0) {
-        await new Promise(resolve => setTimeout(resolve, delay));
-      }
-    }
-  }
-
   private generateRouteId(context: RoutingContext): string {
     return `route_${context.sourceMembraneId}_${context.destinationMembraneId}_${Date.now()}`;
   }
 }
 
+/**
+ * Identifier of an undirected link
+ */
+function linkKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/**
+ * Earliest deadline first; messages without a deadline keep arrival order after them
+ */
+function compareDeadlines(a: QueuedMessage, b: QueuedMessage): number {
+  const deadlineA = a.context.deadline ?? Infinity;
+  const deadlineB = b.context.deadline ?? Infinity;
+  if (deadlineA !== deadlineB) {
+    return deadlineA < deadlineB ? -1 : 1;
+  }
+  return a.enqueuedAt - b.enqueuedAt;
+}
+
+function matchesDeadLetter(letter: DeadLetter, filter?: DeadLetterFilter): boolean {
+  return !filter || (
+    (filter.reason === undefined || letter.reason === filter.reason) &&
+    (filter.sourceMembraneId === undefined || letter.context.sourceMembraneId === filter.sourceMembraneId) &&
+    (filter.destinationMembraneId === undefined || letter.context.destinationMembraneId === filter.destinationMembraneId)
+  );
+}
+
 /**
  * Message router factory
  */
@@ -0,0 +1,389 @@
+/**
+ * Multiset P-System Execution
+ *
+ * Classic P-system semantics on top of a PSystem's membrane structure: each
+ * membrane holds a multiset of objects, evolution rules of the form u → v
+ * rewrite them with here/out/in targets, and every step applies rules in a
+ * maximally parallel, non-deterministic way until the system halts.
+ */
+
+import { PSystem } from './p-system.js';
+import { SeededRandom } from '../random/seeded-random.js';
+
+/**
+ * Multiset of objects: object -> multiplicity
+ */
+export type Multiset = Map<string, number>;
+
+/**
+ * Multiset notation: a string such as 'a^2 b c' (empty or 'λ' for none) or object counts
+ */
+export type MultisetSpec = string | Record<string, number>;
+
+/**
+ * Destination of produced objects: the rule's own membrane, its parent
+ * (the environment for the skin membrane), any child, or a specific child
+ */
+export type MultisetTarget = 'here' | 'out' | 'in' | { in: string };
+
+/**
+ * Objects produced by a rule and where they go
+ */
+export interface MultisetProduct {
+  objects: MultisetSpec;
+  target?: MultisetTarget;
+}
+
+/**
+ * Evolution rule u → v, optionally dissolving its membrane (δ)
+ */
+export interface MultisetRule {
+  id: string;
+  /** Objects consumed (u) */
+  consume: MultisetSpec;
+  /** Objects produced (v) */
+  produce: MultisetProduct[];
+  /** Rules are only used while no applicable rule of higher priority exists in the membrane */
+  priority?: number;
+  /** Dissolve the membrane after the step, releasing its objects to the parent */
+  dissolve?: boolean;
+}
+
+/**
+ * Multiset execution options
+ */
+export interface MultisetPSystemOptions {
+  /** Seed for non-deterministic rule choice; a random seed is drawn when omitted */
+  seed?: number;
+  /** Step limit for `run` */
+  maxSteps: number;
+}
+
+/**
+ * Rule applications in one membrane during a step
+ */
+export interface MultisetRuleApplication {
+  membraneId: string;
+  ruleId: string;
+  count: number;
+}
+
+/**
+ * Result of one maximally parallel step
+ */
+export interface MultisetStepResult {
+  step: number;
+  applications: MultisetRuleApplication[];
+  dissolved: string[];
+  /** No rule was applicable */
+  halted: boolean;
+}
+
+/**
+ * Result of running to halting or the step limit
+ */
+export interface MultisetRunResult {
+  steps: number;
+  halted: boolean;
+  /** Membrane ID -> objects */
+  configuration: Map<string, Multiset>;
+  /** Objects sent out of the skin membranes */
+  environment: Multiset;
+  history: MultisetStepResult[];
+}
+
+interface ParsedRule {
+  rule: MultisetRule;
+  consume: Multiset;
+  produce: Array<{ objects: Multiset; target: MultisetTarget }>;
+  priority: number;
+}
+
+/**
+ * Parse multiset notation into a multiset
+ */
+export function parseMultiset(spec: MultisetSpec): Multiset {
+  const multiset: Multiset = new Map();
+
+  if (typeof spec !== 'string') {
+    for (const [object, count] of Object.entries(spec)) {
+      if (count > 0) {
+        multiset.set(object, count);
+      }
+    }
+    return multiset;
+  }
+
+  for (const token of spec.trim().split(/\s+/)) {
+    if (!token || token === 'λ') continue;
+    const match = token.match(/^([^\s^]+)(?:\^(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid multiset element: ${token}`);
+    }
+    const count = match[2] !== undefined ? Number(match[2]) : 1;
+    multiset.set(match[1], (multiset.get(match[1]) || 0) + count);
+  }
+  return multiset;
+}
+
+/**
+ * Format a multiset in 'a^2 b' notation, objects sorted
+ */
+export function formatMultiset(multiset: Multiset): string {
+  const elements = Array.from(multiset.entries())
+    .filter(([, count]) => count > 0)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([object, count]) => count === 1 ? object : `${object}^${count}`);
+  return elements.length > 0 ? elements.join(' ') : 'λ';
+}
+
+/**
+ * Multiset rewriting over the membranes of a PSystem
+ */
+export class MultisetPSystem {
+  private pSystem: PSystem;
+  private options: MultisetPSystemOptions;
+  private objects: Map<string, Multiset> = new Map();
+  private rules: Map<string, ParsedRule[]> = new Map();
+  private environment: Multiset = new Map();
+  private random: SeededRandom;
+  private stepCount: number = 0;
+  private halted: boolean = false;
+
+  constructor(pSystem: PSystem, options?: Partial<MultisetPSystemOptions>) {
+    this.pSystem = pSystem;
+    this.options = {
+      maxSteps: 1000,
+      ...options
+    };
+    this.random = new SeededRandom(this.options.seed);
+  }
+
+  /**
+   * Replace a membrane's objects
+   */
+  setObjects(membraneId: string, objects: MultisetSpec): void {
+    this.requireMembrane(membraneId);
+    this.objects.set(membraneId, parseMultiset(objects));
+    this.halted = false;
+  }
+
+  /**
+   * Add objects to a membrane
+   */
+  addObjects(membraneId: string, objects: MultisetSpec): void {
+    this.requireMembrane(membraneId);
+    addInto(this.objectsOf(membraneId), parseMultiset(objects));
+    this.halted = false;
+  }
+
+  /**
+   * Get a copy of a membrane's objects
+   */
+  getObjects(membraneId: string): Multiset {
+    return new Map(this.objectsOf(membraneId));
+  }
+
+  /**
+   * Get a copy of the objects sent to the environment
+   */
+  getEnvironment(): Multiset {
+    return new Map(this.environment);
+  }
+
+  /**
+   * Add an evolution rule to a membrane
+   */
+  addRule(membraneId: string, rule: MultisetRule): void {
+    this.requireMembrane(membraneId);
+    const parsed: ParsedRule = {
+      rule,
+      consume: parseMultiset(rule.consume),
+      produce: rule.produce.map(product => ({ objects: parseMultiset(product.objects), target: product.target ?? 'here' })),
+      priority: rule.priority ?? 0
+    };
+    if (parsed.consume.size === 0) {
+      throw new Error(`Rule ${rule.id} must consume at least one object`);
+    }
+
+    const rules = this.rules.get(membraneId) || [];
+    rules.push(parsed);
+    this.rules.set(membraneId, rules);
+    this.halted = false;
+  }
+
+  /**
+   * Execute one maximally parallel step. Rules are chosen non-deterministically
+   * until no rule can consume the remaining objects; products become available
+   * in the next step.
+   */
+  step(): MultisetStepResult {
+    const membranes = this.pSystem.getAllMembranes();
+    const applications: MultisetRuleApplication[] = [];
+    const deliveries: Array<{ membraneId: string | null; objects: Multiset }> = [];
+    const toDissolve: string[] = [];
+
+    for (const membrane of membranes) {
+      const membraneId = membrane.getId();
+      const rules = this.rules.get(membraneId) || [];
+      const available = this.objectsOf(membraneId);
+      const children = membrane.getChildren().map(child => child.getId());
+
+      const applicable = rules.filter(parsed => this.isApplicable(parsed, available, children, membrane.isRoot()));
+      if (applicable.length === 0) continue;
+
+      const topPriority = Math.max(...applicable.map(parsed => parsed.priority));
+      const usable = applicable.filter(parsed => parsed.priority === topPriority);
+      const counts = new Map<string, number>();
+
+      let candidates = usable;
+      while (candidates.length > 0) {
+        const parsed = candidates[this.random.nextInt(candidates.length)];
+        subtractFrom(available, parsed.consume);
+        counts.set(parsed.rule.id, (counts.get(parsed.rule.id) || 0) + 1);
+
+        for (const product of parsed.produce) {
+          deliveries.push({
+            membraneId: this.resolveTarget(product.target, membraneId, children),
+            objects: product.objects
+          });
+        }
+        if (parsed.rule.dissolve && !toDissolve.includes(membraneId)) {
+          toDissolve.push(membraneId);
+        }
+
+        candidates = usable.filter(candidate => containsAll(available, candidate.consume));
+      }
+
+      counts.forEach((count, ruleId) => applications.push({ membraneId, ruleId, count }));
+    }
+
+    for (const delivery of deliveries) {
+      addInto(delivery.membraneId === null ? this.environment : this.objectsOf(delivery.membraneId), delivery.objects);
+    }
+
+    const dissolved = toDissolve.filter(membraneId => this.dissolve(membraneId));
+
+    this.stepCount++;
+    this.halted = applications.length === 0;
+    return { step: this.stepCount, applications, dissolved, halted: this.halted };
+  }
+
+  /**
+   * Run until no rule is applicable or the step limit is reached
+   */
+  run(maxSteps: number = this.options.maxSteps): MultisetRunResult {
+    const history: MultisetStepResult[] = [];
+
+    for (let i = 0; i < maxSteps; i++) {
+      const result = this.step();
+      if (result.halted) break;
+      history.push(result);
+    }
+
+    return {
+      steps: history.length,
+      halted: this.halted,
+      configuration: this.getConfiguration(),
+      environment: this.getEnvironment(),
+      history
+    };
+  }
+
+  /**
+   * Whether the last step applied no rule
+   */
+  isHalted(): boolean {
+    return this.halted;
+  }
+
+  /**
+   * Objects of every membrane
+   */
+  getConfiguration(): Map<string, Multiset> {
+    const configuration = new Map<string, Multiset>();
+    for (const membrane of this.pSystem.getAllMembranes()) {
+      configuration.set(membrane.getId(), this.getObjects(membrane.getId()));
+    }
+    return configuration;
+  }
+
+  // Private methods
+
+  private isApplicable(parsed: ParsedRule, available: Multiset, children: string[], isRoot: boolean): boolean {
+    if (!containsAll(available, parsed.consume)) {
+      return false;
+    }
+    // The skin membrane cannot be dissolved
+    if (parsed.rule.dissolve && isRoot) {
+      return false;
+    }
+    return parsed.produce.every(product => {
+      if (product.target === 'in') return children.length > 0;
+      if (typeof product.target === 'object') return children.includes(product.target.in);
+      return true;
+    });
+  }
+
+  /**
+   * Membrane receiving produced objects; null for the environment
+   */
+  private resolveTarget(target: MultisetTarget, membraneId: string, children: string[]): string | null {
+    if (target === 'here') return membraneId;
+    if (target === 'out') return this.pSystem.getMembrane(membraneId)?.getParent()?.getId() ?? null;
+    if (target === 'in') return children[this.random.nextInt(children.length)];
+    return target.in;
+  }
+
+  /**
+   * Dissolve a membrane, releasing its objects to the parent; its rules are lost
+   */
+  private dissolve(membraneId: string): boolean {
+    const parentId = this.pSystem.getMembrane(membraneId)?.getParent()?.getId();
+    if (!parentId || !this.pSystem.dissolveMembrane(membraneId, true)) {
+      return false;
+    }
+
+    addInto(this.objectsOf(parentId), this.objectsOf(membraneId));
+    this.objects.delete(membraneId);
+    this.rules.delete(membraneId);
+    return true;
+  }
+
+  private objectsOf(membraneId: string): Multiset {
+    if (!this.objects.has(membraneId)) {
+      this.objects.set(membraneId, new Map());
+    }
+    return this.objects.get(membraneId)!;
+  }
+
+  private requireMembrane(membraneId: string): void {
+    if (!this.pSystem.getMembrane(membraneId)) {
+      throw new Error(`Membrane ${membraneId} not found`);
+    }
+  }
+}
+
+function containsAll(available: Multiset, required: Multiset): boolean {
+  for (const [object, count] of required) {
+    if ((available.get(object) || 0) < count) return false;
+  }
+  return true;
+}
+
+function subtractFrom(available: Multiset, consumed: Multiset): void {
+  for (const [object, count] of consumed) {
+    const remaining = (available.get(object) || 0) - count;
+    if (remaining > 0) {
+      available.set(object, remaining);
+    } else {
+      available.delete(object);
+    }
+  }
+}
+
+function addInto(target: Multiset, added: Multiset): void {
+  for (const [object, count] of added) {
+    target.set(object, (target.get(object) || 0) + count);
+  }
+}
@@ -5,9 +5,22 @@
  * nesting with multi-level encapsulation and distributed computation.
  */
 
+import { randomBytes } from 'crypto';
 import { Membrane, MembraneState, MembraneBoundary } from './membrane-abstraction.js';
 import { PortChannel, PortChannelFactory, PortMessage } from './port-channel.js';
 import { TensorShape } from '../types.js';
+import {
+  AdjacencyGraph,
+  buildUndirectedGraph,
+  betweennessCentrality,
+  closenessCentrality,
+  eigenvectorCentrality,
+  localClustering,
+  globalClustering,
+  diameter,
+  louvainCommunities,
+  modularity
+} from './graph-analytics.js';
 
 /**
  * P-System configuration
@@ -22,6 +35,12 @@ export interface PSystemConfig {
   enableFailover: boolean;
   enableLoadBalancing: boolean;
   membraneCreationPolicy: 'eager' | 'lazy' | 'on-demand';
+  /**
+   * Key shared by the membranes' control ports (32 bytes, Buffer or hex);
+   * generated per P-System when omitted. Systems exchanging control messages
+   * over a transport must be configured with the same key.
+   */
+  encryptionKey?: Buffer | string;
 }
 
 /**
@@ -54,7 +73,19 @@ export interface PSystemCondition {
  */
 export interface PSystemAction {
   type: 'create_membrane' | 'dissolve_membrane' | 'replicate_membrane' | 'migrate_state' | 'establish_connection';
+  /**
+   * Action parameters:
+   * - create_membrane: parentId, count, name, shape, tensorData, kernelId, stateType, boundary
+   * - dissolve_membrane: membraneId, redistributeChildren (default true), includeRoot
+   * - replicate_membrane: sourceId, targetParentId (default: the source's parent), replicateChildren (default true)
+   * - migrate_state: sourceId, targetId ('parent' (default), 'children' or a selector), mode ('copy' | 'move' | 'merge')
+   * - establish_connection: sourceId, targetId (a selector), bidirectional (default true)
+   */
   parameters: Record<string, any>;
+  /**
+   * Membranes the action applies to, overriding the ID parameter: 'all', 'root', 'leaf',
+   * 'depth:<n>', 'name:<name>', 'type:<stateType>' or a membrane ID
+   */
   targetSelector?: string;
 }
 
@@ -85,10 +116,24 @@ export interface PSystemTopology {
   leafMembranes: string[];
   maxDepth: number;
   averageBranchingFactor: number;
+  /** Global clustering coefficient (transitivity) of the connection graph */
   clusteringCoefficient: number;
+  /** Local clustering coefficient per membrane */
+  localClustering: Map<string, number>;
+  /** Longest shortest path (in hops) between connected membranes */
   networkDiameter: number;
+  /** Degree centrality: number of connections per membrane */
   centralityMeasures: Map<string, number>;
+  /** Normalized betweenness centrality per membrane */
+  betweennessCentrality: Map<string, number>;
+  /** Closeness centrality per membrane, scaled by the reachable fraction */
+  closenessCentrality: Map<string, number>;
+  /** Eigenvector centrality per membrane, unit length */
+  eigenvectorCentrality: Map<string, number>;
+  /** Louvain communities of the connection graph */
   communityStructure: MembraneCluster[];
+  /** Modularity of the community structure */
+  modularity: number;
 }
 
 /**
@@ -97,9 +142,13 @@ export interface PSystemTopology {
 export interface MembraneCluster {
   id: string;
   membranes: string[];
+  /** Member with the most links inside the cluster, ties broken by betweenness */
   centralMembrane: string;
+  /** Internal edge density: internal links / possible member pairs */
   cohesion: number;
+  /** Fraction of the members' links that stay inside the cluster */
   isolation: number;
+  /** Share of all links in the system that are internal to the cluster */
   communicationDensity: number;
 }
 
@@ -117,9 +166,11 @@ export class PSystem {
   private creationTime: number;
   private lastEvolution: number;
   private isActive: boolean = true;
+  private controlKey: Buffer | string;
 
   constructor(config: PSystemConfig) {
     this.config = { ...config };
+    this.controlKey = config.encryptionKey ?? randomBytes(32);
     this.creationTime = Date.now();
     this.lastEvolution = Date.now();
 
@@ -293,6 +344,11 @@ export class PSystem {
     // Remove from P-System
     this.membranes.delete(membraneId);
     this.connections.delete(membraneId);
+    for (const [id, connections] of this.connections) {
+      if (connections.includes(membraneId)) {
+        this.connections.set(id, connections.filter(connectedId => connectedId !== membraneId));
+      }
+    }
 
     // Remove associated ports
     this.removeMembranesPorts(membraneId);
@@ -464,8 +520,9 @@ export class PSystem {
     }
 
     const averageBranchingFactor = branchingNodes > 0 ? totalBranches / branchingNodes : 0;
-    const centralityMeasures = this.calculateCentralityMeasures();
-    const communityStructure = this.detectCommunityStructure();
+    const graph = this.buildConnectionGraph();
+    const betweenness = betweennessCentrality(graph);
+    const communities = louvainCommunities(graph);
 
     return {
       systemId: this.config.id,
@@ -473,10 +530,15 @@ export class PSystem {
       leafMembranes,
       maxDepth,
       averageBranchingFactor,
-      clusteringCoefficient: this.calculateClusteringCoefficient(),
-      networkDiameter: this.calculateNetworkDiameter(),
-      centralityMeasures,
-      communityStructure
+      clusteringCoefficient: globalClustering(graph),
+      localClustering: localClustering(graph),
+      networkDiameter: diameter(graph),
+      centralityMeasures: this.calculateCentralityMeasures(graph),
+      betweennessCentrality: betweenness,
+      closenessCentrality: closenessCentrality(graph),
+      eigenvectorCentrality: eigenvectorCentrality(graph),
+      communityStructure: this.describeCommunities(graph, communities, betweenness),
+      modularity: modularity(graph, communities)
     };
   }
 
@@ -494,6 +556,13 @@ export class PSystem {
     return Array.from(this.membranes.values());
   }
 
+  /**
+   * Get membranes connected to a membrane (parent, children and lateral links)
+   */
+  getConnectedMembranes(membraneId: string): string[] {
+    return [...(this.connections.get(membraneId) || [])];
+  }
+
   /**
    * Get membranes at specific depth
    */
@@ -639,7 +708,9 @@ export class PSystem {
     // Create control port
     const controlPort = PortChannelFactory.createControlPort(
       membraneId,
-      'Control Port'
+      'Control Port',
+      'bidirectional',
+      { encryptionKey: this.controlKey }
     );
     controlPort.attachToMembrane(membrane);
     this.ports.set(controlPort.getId(), controlPort);
@@ -652,6 +723,13 @@ export class PSystem {
       if (port.getMembraneId() === membraneId) {
         port.detachFromMembrane();
         portsToRemove.push(portId);
+      } else {
+        // Drop peer connections into the removed membrane's ports
+        for (const connection of port.getConnections()) {
+          if (connection.sourceMembraneId === membraneId || connection.targetMembraneId === membraneId) {
+            port.disconnectPort(connection.id);
+          }
+        }
       }
     }
 
@@ -745,14 +823,27 @@ export class PSystem {
 
   private async executeRuleActions(rule: PSystemRule): Promise<boolean> {
     let success = true;
+    const results: Array<{ type: PSystemAction['type']; success: boolean }> = [];
 
     for (const action of rule.actions) {
       const actionSuccess = await this.executeAction(action);
+      results.push({ type: action.type, success: actionSuccess });
       if (!actionSuccess) {
         success = false;
       }
     }
 
+    this.logEvolutionEvent({
+      type: 'rule_execution',
+      timestamp: Date.now(),
+      details: {
+        ruleId: rule.id,
+        ruleName: rule.name,
+        actions: results,
+        success
+      }
+    });
+
     return success;
   }
 
@@ -780,28 +871,260 @@ export class PSystem {
   }
 
   private async executeCreateMembraneAction(action: PSystemAction): Promise<boolean> {
-    // Implementation for creating membranes based on action parameters
-    return true;
+    const { parameters } = action;
+    // Without a target, place the new membrane where the hierarchy is least loaded
+    const parents = this.resolveActionTargets(action, 'parentId') ?? this.selectPlacementParent();
+    const count = parameters.count ?? 1;
+    let created = 0;
+
+    for (const parent of parents) {
+      const shape: TensorShape = parameters.shape ?? parent.getState('self')?.shape ?? [8, 8];
+      const size = shape.reduce((a, b) => a * b, 1);
+
+      for (let i = 0; i < count; i++) {
+        const childId = this.createChildMembrane(
+          parent.getId(),
+          {
+            tensorData: parameters.tensorData ? new Float32Array(parameters.tensorData) : new Float32Array(size),
+            shape,
+            kernelId: parameters.kernelId ?? `${parent.getId()}_kernel_${this.statistics.membraneCreations}`,
+            stateType: parameters.stateType ?? 'rule_created'
+          },
+          parameters.name,
+          parameters.boundary
+        );
+        if (childId) {
+          created++;
+        }
+      }
+    }
+
+    return created > 0;
   }
 
   private async executeDissolveMembraneAction(action: PSystemAction): Promise<boolean> {
-    // Implementation for dissolving membranes based on action parameters
-    return true;
+    const { parameters } = action;
+    const targets = (this.resolveActionTargets(action, 'membraneId') ?? [])
+      .filter(membrane => parameters.includeRoot || !membrane.isRoot());
+    let dissolved = 0;
+
+    for (const membrane of targets) {
+      // An earlier dissolution may already have removed this membrane with its parent
+      if (!this.membranes.has(membrane.getId())) {
+        continue;
+      }
+      if (this.dissolveMembrane(membrane.getId(), parameters.redistributeChildren ?? true)) {
+        dissolved++;
+      }
+    }
+
+    return dissolved > 0;
   }
 
   private async executeReplicateMembraneAction(action: PSystemAction): Promise<boolean> {
-    // Implementation for replicating membranes based on action parameters
-    return true;
+    const { parameters } = action;
+    // Without a target, replicate the least connected membrane for redundancy
+    const sources = this.resolveActionTargets(action, 'sourceId') ?? this.selectLeastConnected();
+    let replicated = 0;
+
+    for (const source of sources) {
+      // Division: the replica becomes a sibling unless a target parent is given
+      const targetParentId = parameters.targetParentId ?? source.getParent()?.getId();
+      if (!targetParentId) {
+        console.warn(`Cannot divide root membrane ${source.getId()} without a target parent`);
+        continue;
+      }
+
+      if (this.replicateMembrane(source.getId(), targetParentId, parameters.replicateChildren ?? true)) {
+        replicated++;
+      }
+    }
+
+    return replicated > 0;
   }
 
   private async executeMigrateStateAction(action: PSystemAction): Promise<boolean> {
-    // Implementation for migrating state between membranes
-    return true;
+    const { parameters } = action;
+    const mode: 'copy' | 'move' | 'merge' = parameters.mode ?? 'copy';
+    const sources = this.resolveActionTargets(action, 'sourceId') ?? [];
+    let migrated = 0;
+
+    for (const source of sources) {
+      const sourceState = source.getState('self');
+      if (!sourceState) {
+        continue;
+      }
+
+      const targetId = parameters.targetId ?? 'parent';
+      const targets = targetId === 'parent'
+        ? (source.getParent() ? [source.getParent()!] : [])
+        : targetId === 'children'
+          ? source.getChildren()
+          : this.selectMembranes(targetId);
+
+      let moved = false;
+      for (const target of targets) {
+        const targetState = target.getState('self');
+        if (target === source || !targetState) {
+          continue;
+        }
+        if (targetState.tensorData.length !== sourceState.tensorData.length) {
+          console.warn(`Cannot migrate state from ${source.getId()} to ${target.getId()}: tensor sizes differ`);
+          continue;
+        }
+
+        const data = mode === 'merge'
+          ? targetState.tensorData.map((value, i) => (value + sourceState.tensorData[i]) / 2)
+          : sourceState.tensorData;
+        if (!target.updateState(data, 'self')) {
+          continue;
+        }
+
+        moved = true;
+        migrated++;
+        this.logEvolutionEvent({
+          type: 'state_migration',
+          timestamp: Date.now(),
+          details: {
+            sourceId: source.getId(),
+            targetId: target.getId(),
+            mode,
+            size: data.length
+          }
+        });
+      }
+
+      if (moved && mode === 'move') {
+        source.updateState(new Float32Array(sourceState.tensorData.length), 'self');
+      }
+    }
+
+    return migrated > 0;
   }
 
   private async executeEstablishConnectionAction(action: PSystemAction): Promise<boolean> {
-    // Implementation for establishing connections between membranes
-    return true;
+    const { parameters } = action;
+    const sources = this.resolveActionTargets(action, 'sourceId') ?? [];
+    const targets = parameters.targetId ? this.selectMembranes(parameters.targetId) : [];
+    const bidirectional = parameters.bidirectional ?? true;
+    let established = 0;
+
+    for (const source of sources) {
+      for (const target of targets) {
+        if (source === target) {
+          continue;
+        }
+
+        const connectionIds = [this.connectMembranePorts(source, target)];
+        if (bidirectional) {
+          connectionIds.push(this.connectMembranePorts(target, source));
+        }
+        const portConnections = connectionIds.filter((id): id is string => id !== null);
+        if (portConnections.length === 0) {
+          continue;
+        }
+
+        this.addConnection(source.getId(), target.getId());
+        established++;
+        this.logEvolutionEvent({
+          type: 'connection_establishment',
+          timestamp: Date.now(),
+          details: {
+            sourceId: source.getId(),
+            targetId: target.getId(),
+            bidirectional,
+            portConnections
+          }
+        });
+      }
+    }
+
+    return established > 0;
+  }
+
+  /**
+   * Membranes an action targets, from its selector or ID parameter; null when neither is given
+   */
+  private resolveActionTargets(action: PSystemAction, idParameter: string): Membrane[] | null {
+    const selector = action.targetSelector ?? action.parameters[idParameter];
+    return selector ? this.selectMembranes(selector) : null;
+  }
+
+  private selectMembranes(selector: string): Membrane[] {
+    const membranes = Array.from(this.membranes.values());
+    const [kind, ...rest] = selector.split(':');
+    const argument = rest.join(':');
+
+    switch (kind) {
+      case 'all':
+        return membranes;
+      case 'root':
+        return membranes.filter(membrane => membrane.isRoot());
+      case 'leaf':
+        return membranes.filter(membrane => membrane.isLeaf());
+      case 'depth':
+        return membranes.filter(membrane => membrane.getDepth() === Number(argument));
+      case 'name':
+        return membranes.filter(membrane => membrane.getName() === argument);
+      case 'type':
+        return membranes.filter(membrane => membrane.getState('self')?.metadata.stateType === argument);
+      default: {
+        const membrane = this.membranes.get(selector);
+        return membrane ? [membrane] : [];
+      }
+    }
+  }
+
+  /**
+   * Membrane with the fewest children that can still nest another level
+   */
+  private selectPlacementParent(): Membrane[] {
+    const candidates = Array.from(this.membranes.values())
+      .filter(membrane => membrane.getDepth() + 1 < this.config.maxDepth)
+      .sort((a, b) => a.getChildren().length - b.getChildren().length || a.getDepth() - b.getDepth());
+    return candidates.slice(0, 1);
+  }
+
+  /**
+   * Non-root membrane with the fewest connections
+   */
+  private selectLeastConnected(): Membrane[] {
+    const candidates = Array.from(this.membranes.values())
+      .filter(membrane => !membrane.isRoot())
+      .sort((a, b) => (this.connections.get(a.getId())?.length ?? 0) - (this.connections.get(b.getId())?.length ?? 0));
+    return candidates.slice(0, 1);
+  }
+
+  /**
+   * Connect the source membrane's tensor output port to the target's tensor input port
+   */
+  private connectMembranePorts(source: Membrane, target: Membrane): string | null {
+    const output = this.findPort(source, 'output');
+    const input = this.findPort(target, 'input');
+    return output && input ? output.connectToPort(input) : null;
+  }
+
+  private findPort(membrane: Membrane, direction: 'input' | 'output'): PortChannel | undefined {
+    const matches = () => Array.from(this.ports.values()).find(port =>
+      port.getMembraneId() === membrane.getId() &&
+      port.getDirection() === direction &&
+      port.getConfig().dataType === 'tensor'
+    );
+
+    if (!matches()) {
+      this.createDefaultPorts(membrane);
+    }
+    return matches();
+  }
+
+  private addConnection(sourceId: string, targetId: string): void {
+    for (const [from, to] of [[sourceId, targetId], [targetId, sourceId]]) {
+      const connections = this.connections.get(from) || [];
+      if (!connections.includes(to)) {
+        connections.push(to);
+        this.connections.set(from, connections);
+      }
+    }
   }
 
   private calculateAverageDepth(): number {
@@ -856,56 +1179,70 @@ export class PSystem {
     }
   }
 
-  private calculateCentralityMeasures(): Map<string, number> {
-    const centrality = new Map<string, number>();
-    
-    for (const [membraneId, connections] of this.connections) {
-      // Simple degree centrality
-      centrality.set(membraneId, connections.length);
+  /**
+   * Undirected graph of parent-child and lateral connections over all membranes
+   */
+  private buildConnectionGraph(): AdjacencyGraph {
+    const graph = buildUndirectedGraph(this.connections);
+    for (const membraneId of this.membranes.keys()) {
+      if (!graph.has(membraneId)) {
+        graph.set(membraneId, new Set());
+      }
     }
-    
-    return centrality;
-  }
-
-  private calculateClusteringCoefficient(): number {
-    // Simplified clustering coefficient calculation
-    return 0.5; // Placeholder
+    for (const membraneId of Array.from(graph.keys())) {
+      if (!this.membranes.has(membraneId)) {
+        graph.get(membraneId)!.forEach(neighbour => graph.get(neighbour)?.delete(membraneId));
+        graph.delete(membraneId);
+      }
+    }
+    return graph;
   }
 
-  private calculateNetworkDiameter(): number {
-    // Simplified network diameter calculation
-    return this.statistics.maxDepthReached * 2; // Approximate
+  private calculateCentralityMeasures(graph: AdjacencyGraph): Map<string, number> {
+    const centrality = new Map<string, number>();
+    graph.forEach((neighbours, membraneId) => centrality.set(membraneId, neighbours.size));
+    return centrality;
   }
 
-  private detectCommunityStructure(): MembraneCluster[] {
-    // Simplified community detection
-    const clusters: MembraneCluster[] = [];
-    
-    // Group by depth as a simple clustering method
-    const depthGroups = new Map<number, string[]>();
-    
-    for (const membrane of this.membranes.values()) {
-      const depth = membrane.getDepth();
-      if (!depthGroups.has(depth)) {
-        depthGroups.set(depth, []);
+  private describeCommunities(
+    graph: AdjacencyGraph,
+    communities: string[][],
+    betweenness: Map<string, number>
+  ): MembraneCluster[] {
+    const totalLinks = Array.from(graph.values()).reduce((sum, neighbours) => sum + neighbours.size, 0) / 2;
+
+    return communities.map((membranes, index) => {
+      const members = new Set(membranes);
+      const internalDegree = new Map<string, number>();
+      let internalEndpoints = 0;
+      let totalEndpoints = 0;
+
+      for (const membraneId of membranes) {
+        const neighbours = Array.from(graph.get(membraneId)!);
+        const internal = neighbours.filter(neighbour => members.has(neighbour)).length;
+        internalDegree.set(membraneId, internal);
+        internalEndpoints += internal;
+        totalEndpoints += neighbours.length;
       }
-      depthGroups.get(depth)!.push(membrane.getId());
-    }
-
-    for (const [depth, membraneIds] of depthGroups) {
-      if (membraneIds.length > 1) {
-        clusters.push({
-          id: `cluster_depth_${depth}`,
-          membranes: membraneIds,
-          centralMembrane: membraneIds[0], // Simplified
-          cohesion: 0.7,
-          isolation: 0.3,
-          communicationDensity: 0.5
-        });
-      }
-    }
 
-    return clusters;
+      const centralMembrane = membranes.reduce((best, membraneId) => {
+        const difference = internalDegree.get(membraneId)! - internalDegree.get(best)!;
+        return difference > 0 || (difference === 0 && betweenness.get(membraneId)! > betweenness.get(best)!)
+          ? membraneId
+          : best;
+      });
+      const internalLinks = internalEndpoints / 2;
+      const possibleLinks = (membranes.length * (membranes.length - 1)) / 2;
+
+      return {
+        id: `cluster_${index}`,
+        membranes,
+        centralMembrane,
+        cohesion: possibleLinks > 0 ? internalLinks / possibleLinks : 0,
+        isolation: totalEndpoints > 0 ? internalEndpoints / totalEndpoints : 1,
+        communicationDensity: totalLinks > 0 ? internalLinks / totalLinks : 0
+      };
+    });
   }
 
   private logEvolutionEvent(event: PSystemEvolutionEvent): void {
@@ -923,7 +1260,7 @@ export class PSystem {
  * P-System evolution event
  */
 export interface PSystemEvolutionEvent {
-  type: 'membrane_creation' | 'membrane_dissolution' | 'membrane_replication' | 'rule_execution' | 'load_balance' | 'failover';
+  type: 'membrane_creation' | 'membrane_dissolution' | 'membrane_replication' | 'state_migration' | 'connection_establishment' | 'rule_execution' | 'load_balance' | 'failover';
   timestamp: number;
   details: Record<string, any>;
 }
@@ -5,8 +5,11 @@
  * between membranes while respecting boundary conditions and access control.
  */
 
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { deflateSync, inflateSync } from 'zlib';
 import { TensorShape } from '../types.js';
 import { Membrane, MembraneMessage, BoundaryPolicy } from './membrane-abstraction.js';
+import type { MembraneTransport } from './transport.js';
 
 /**
  * Port channel direction types
@@ -44,6 +47,11 @@ export interface PortChannelConfig {
   encryptionEnabled: boolean;
   validationRules: PortValidationRule[];
   transformationRules: PortTransformationRule[];
+  /**
+   * AES-256-GCM key (32 bytes, Buffer or hex) for encrypt rules without a key
+   * of their own; ports exchanging encrypted messages must share it
+   */
+  encryptionKey?: Buffer | string;
 }
 
 /**
@@ -89,6 +97,27 @@ export interface PortMessage extends MembraneMessage {
   };
 }
 
+/**
+ * Tensor message payload
+ */
+export interface PortTensorPayload {
+  tensorData: Float32Array | number[];
+  shape?: TensorShape;
+  [key: string]: any;
+}
+
+/**
+ * Compressed or encrypted message payload, decoded by the receiving port
+ */
+export interface PortEncodedPayload {
+  encoding: 'deflate' | 'aes-256-gcm';
+  /** Encoded bytes, base64 */
+  data: string;
+  /** Initialization vector and authentication tag (aes-256-gcm), base64 */
+  iv?: string;
+  authTag?: string;
+}
+
 /**
  * Port validation result
  */
@@ -139,6 +168,7 @@ export class PortChannel {
   private status: PortStatus = 'active';
   private statistics: PortChannelStatistics;
   private membrane: Membrane | null = null;
+  private transport: MembraneTransport | null = null;
   private creationTime: number;
   private lastActivity: number;
 
@@ -285,6 +315,75 @@ export class PortChannel {
     return true;
   }
 
+  /**
+   * Connect to a port reachable through the transport, possibly in another
+   * thread or process
+   */
+  connectToRemotePort(
+    targetPortId: string,
+    targetMembraneId: string,
+    connectionType: 'direct' | 'routed' | 'broadcast' | 'multicast' = 'routed'
+  ): string | null {
+    if (!this.transport) {
+      console.warn(`Port ${this.config.id} has no transport for remote connections`);
+      return null;
+    }
+
+    const connectionId = `${this.config.id}->${targetPortId}`;
+    if (this.config.direction === 'input' || this.connections.has(connectionId)) {
+      console.warn(`Cannot connect port ${this.config.id} to remote port ${targetPortId}`);
+      return null;
+    }
+
+    if (!this.transport.hasPort(targetPortId)) {
+      console.warn(`Remote port ${targetPortId} is not reachable through transport ${this.transport.endpointId}`);
+      return null;
+    }
+
+    if (this.connections.size >= this.config.maxConnections) {
+      console.warn(`Port ${this.config.id} has reached maximum connections`);
+      return null;
+    }
+
+    this.connections.set(connectionId, {
+      id: connectionId,
+      sourcePortId: this.config.id,
+      targetPortId,
+      sourceMembraneId: this.config.membraneId,
+      targetMembraneId,
+      connectionType,
+      established: Date.now(),
+      lastActivity: Date.now(),
+      messageCount: 0,
+      totalBytes: 0,
+      errorCount: 0,
+      isActive: true
+    });
+    this.statistics.connectionsActive++;
+    this.statistics.connectionsTotal++;
+    this.lastActivity = Date.now();
+
+    console.log(`Established remote connection: ${connectionId}`);
+    return connectionId;
+  }
+
+  /**
+   * Deliver messages through a transport; the port becomes reachable by its
+   * ID on that transport. Without a transport, sending is only simulated.
+   */
+  setTransport(transport: MembraneTransport | null): void {
+    this.transport?.unbindPort(this.config.id);
+    this.transport = transport;
+    transport?.bindPort(this);
+  }
+
+  /**
+   * Get the transport carrying this port's messages
+   */
+  getTransport(): MembraneTransport | null {
+    return this.transport;
+  }
+
   /**
    * Disconnect from a port
    */
@@ -348,7 +447,7 @@ export class PortChannel {
     }
 
     // Apply transformations
-    const transformedMessage = await this.applyTransformations(fullMessage);
+    const transformedMessage = await this.applyTransformations(fullMessage, 'send');
     if (!transformedMessage) {
       this.statistics.transformationFailures++;
       console.warn(`Message transformation failed for port ${this.config.id}`);
@@ -386,6 +485,15 @@ export class PortChannel {
       return false;
     }
 
+    // Decode compressed or encrypted payloads; a failed authentication rejects the message
+    try {
+      message = this.decodeMessage(message);
+    } catch (error) {
+      this.statistics.validationFailures++;
+      console.warn(`Port ${this.config.id} rejected message ${message.id}: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    }
+
     // Validate and transform incoming message
     const validationResults = await this.validateMessage(message);
     message.validationResults.push(...validationResults);
@@ -396,7 +504,7 @@ export class PortChannel {
       return false;
     }
 
-    const transformedMessage = await this.applyTransformations(message);
+    const transformedMessage = await this.applyTransformations(message, 'receive');
     if (!transformedMessage) {
       this.statistics.transformationFailures++;
       return false;
@@ -501,6 +609,25 @@ export class PortChannel {
     return this.connections.get(connectionId);
   }
 
+  /**
+   * Decode a message's compressed and encrypted payload layers, using this
+   * port's encryption key. Throws if authentication fails.
+   */
+  decodeMessage(message: PortMessage): PortMessage {
+    let payload: unknown = message.payload;
+    while (isEncodedPayload(payload)) {
+      const bytes = payload.encoding === 'deflate'
+        ? inflateSync(Buffer.from(payload.data, 'base64'))
+        : this.decrypt(payload, message);
+      payload = deserializePayload(bytes);
+    }
+
+    if (payload === message.payload) {
+      return message;
+    }
+    return { ...message, payload, contentSize: payloadSize(payload) };
+  }
+
   // Private methods
 
   private canConnectTo(targetPort: PortChannel): boolean {
@@ -606,20 +733,50 @@ export class PortChannel {
   }
 
   private validateShape(rule: PortValidationRule, message: PortMessage): PortValidationResult {
-    // Implement tensor shape validation
+    const expectedShape: TensorShape | undefined = rule.parameters.expectedShape;
+    const tensor = readTensor(message.payload);
+    if (!tensor) {
+      return { ruleId: rule.id, passed: false, message: rule.errorMessage || 'Payload is not a tensor' };
+    }
+
+    const size = tensor.shape.reduce((a, b) => a * b, 1);
+    const shapeMatches = !expectedShape ||
+      (expectedShape.length === tensor.shape.length && expectedShape.every((dim, i) => dim === tensor.shape[i]));
+    const passed = size === tensor.data.length && shapeMatches;
+
     return {
       ruleId: rule.id,
-      passed: true,
-      message: 'Shape validation passed'
+      passed,
+      message: passed
+        ? 'Shape validation passed'
+        : `${rule.errorMessage}: expected [${(expectedShape || tensor.shape).join(', ')}] with ${size} elements, got [${tensor.shape.join(', ')}] with ${tensor.data.length}`,
+      details: { shape: tensor.shape, elements: tensor.data.length }
     };
   }
 
   private validateRange(rule: PortValidationRule, message: PortMessage): PortValidationResult {
-    // Implement range validation
+    const { min = -Infinity, max = Infinity } = rule.parameters;
+    const values = typeof message.payload === 'number' ? [message.payload] : readTensor(message.payload)?.data;
+    if (!values) {
+      return { ruleId: rule.id, passed: false, message: rule.errorMessage || 'Payload is not numeric' };
+    }
+
+    let violations = 0;
+    let firstViolation = -1;
+    for (let i = 0; i < values.length; i++) {
+      if (!Number.isFinite(values[i]) || values[i] < min || values[i] > max) {
+        violations++;
+        if (firstViolation < 0) firstViolation = i;
+      }
+    }
+
     return {
       ruleId: rule.id,
-      passed: true,
-      message: 'Range validation passed'
+      passed: violations === 0,
+      message: violations === 0
+        ? 'Range validation passed'
+        : `${rule.errorMessage}: ${violations} value(s) outside [${min}, ${max}], first at index ${firstViolation}`,
+      details: { min, max, violations }
     };
   }
 
@@ -635,16 +792,46 @@ export class PortChannel {
   }
 
   private validateContent(rule: PortValidationRule, message: PortMessage): PortValidationResult {
-    // Implement content validation
+    const requiredFields: string[] = rule.parameters.requiredFields || [];
+    if (message.payload === undefined || message.payload === null) {
+      return { ruleId: rule.id, passed: false, message: `${rule.errorMessage}: payload is empty` };
+    }
+
+    const missing = requiredFields.filter(field =>
+      typeof message.payload !== 'object' || !(field in message.payload)
+    );
     return {
       ruleId: rule.id,
-      passed: true,
-      message: 'Content validation passed'
+      passed: missing.length === 0,
+      message: missing.length === 0 ? 'Content validation passed' : `${rule.errorMessage}: missing ${missing.join(', ')}`
     };
   }
 
   private validateSecurity(rule: PortValidationRule, message: PortMessage): PortValidationResult {
-    // Implement security validation
+    const { requireAuth, allowedSources, maxPayloadSize, blockedPatterns } = rule.parameters;
+    const fail = (reason: string): PortValidationResult => ({
+      ruleId: rule.id,
+      passed: false,
+      message: `${rule.errorMessage}: ${reason}`
+    });
+
+    if (requireAuth && !message.sourceId) {
+      return fail('message has no source');
+    }
+    if (Array.isArray(allowedSources) && !allowedSources.includes(message.sourceId)) {
+      return fail(`source ${message.sourceId} is not allowed`);
+    }
+    if (maxPayloadSize !== undefined && payloadSize(message.payload) > maxPayloadSize) {
+      return fail(`payload exceeds ${maxPayloadSize} bytes`);
+    }
+    if (Array.isArray(blockedPatterns) && blockedPatterns.length > 0 && !isEncodedPayload(message.payload)) {
+      const text = typeof message.payload === 'string' ? message.payload : JSON.stringify(message.payload ?? null);
+      const blocked = blockedPatterns.find((pattern: string | RegExp) => new RegExp(pattern).test(text));
+      if (blocked) {
+        return fail(`payload matches blocked pattern ${blocked}`);
+      }
+    }
+
     return {
       ruleId: rule.id,
       passed: true,
@@ -652,19 +839,21 @@ export class PortChannel {
     };
   }
 
-  private async applyTransformations(message: PortMessage): Promise<PortMessage | null> {
-    let transformedMessage = { ...message };
+  private async applyTransformations(message: PortMessage, direction: 'send' | 'receive'): Promise<PortMessage | null> {
+    let transformedMessage = { ...message, transformationHistory: [...message.transformationHistory] };
 
-    // Sort transformations by priority
+    // Sort transformations by priority; compression and encryption encode outgoing messages only
     const sortedRules = [...this.config.transformationRules]
       .filter(rule => rule.enabled)
+      .filter(rule => direction === 'send' || (rule.type !== 'compress' && rule.type !== 'encrypt'))
       .sort((a, b) => a.priority - b.priority);
 
     for (const rule of sortedRules) {
       const result = await this.executeTransformationRule(rule, transformedMessage);
-      if (result) {
-        transformedMessage = result;
+      if (!result) {
+        return null;
       }
+      transformedMessage = result;
     }
 
     return transformedMessage;
@@ -723,34 +912,136 @@ export class PortChannel {
     }
   }
 
-  // Transformation implementations (simplified)
+  // Transformation implementations
+
+  /**
+   * Affine scaling x * factor + offset
+   */
   private async applyScaling(rule: PortTransformationRule, message: PortMessage): Promise<PortMessage> {
-    // Implement scaling transformation
-    return message;
+    const { factor = 1, offset = 0 } = rule.parameters;
+    return this.mapTensor(message, data => data.map(value => value * factor + offset));
   }
 
+  /**
+   * L2 (unit norm) or min-max normalization into [min, max]
+   */
   private async applyNormalization(rule: PortTransformationRule, message: PortMessage): Promise<PortMessage> {
-    // Implement normalization transformation
-    return message;
+    const { method = 'l2', min = 0, max = 1 } = rule.parameters;
+
+    return this.mapTensor(message, data => {
+      if (method === 'l2') {
+        const norm = Math.sqrt(data.reduce((sum, value) => sum + value * value, 0));
+        return norm > 0 ? data.map(value => value / norm) : data;
+      }
+      if (method === 'minmax') {
+        let low = Infinity;
+        let high = -Infinity;
+        data.forEach(value => {
+          low = Math.min(low, value);
+          high = Math.max(high, value);
+        });
+        const range = high - low;
+        return data.map(value => range > 0 ? min + ((value - low) / range) * (max - min) : min);
+      }
+      throw new Error(`Unknown normalization method: ${method}`);
+    });
   }
 
+  /**
+   * Deflate the serialized payload
+   */
   private async applyCompression(rule: PortTransformationRule, message: PortMessage): Promise<PortMessage> {
-    // Implement compression transformation
-    const compressionRatio = rule.parameters.ratio || 0.5;
-    const compressedMessage = { ...message };
-    compressedMessage.contentSize = Math.floor(message.contentSize * compressionRatio);
-    compressedMessage.compressionRatio = compressionRatio;
-    return compressedMessage;
+    const bytes = serializePayload(message.payload);
+    const compressed = deflateSync(bytes, { level: rule.parameters.level ?? 6 });
+    const payload: PortEncodedPayload = { encoding: 'deflate', data: compressed.toString('base64') };
+
+    return {
+      ...message,
+      payload,
+      contentSize: compressed.length,
+      compressionRatio: bytes.length > 0 ? compressed.length / bytes.length : 1
+    };
   }
 
+  /**
+   * AES-256-GCM encryption, authenticating the message's source, target and type
+   */
   private async applyEncryption(rule: PortTransformationRule, message: PortMessage): Promise<PortMessage> {
-    // Implement encryption transformation
-    return message;
+    const key = resolveEncryptionKey(rule.parameters.key ?? this.config.encryptionKey);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(Buffer.from(associatedData(message)));
+
+    const encrypted = Buffer.concat([cipher.update(serializePayload(message.payload)), cipher.final()]);
+    const payload: PortEncodedPayload = {
+      encoding: 'aes-256-gcm',
+      data: encrypted.toString('base64'),
+      iv: iv.toString('base64'),
+      authTag: cipher.getAuthTag().toString('base64')
+    };
+
+    return { ...message, payload, contentSize: encrypted.length };
   }
 
+  /**
+   * Replace elements failing the predicate or [min, max] bounds with `replacement`
+   */
   private async applyFilter(rule: PortTransformationRule, message: PortMessage): Promise<PortMessage> {
-    // Implement filter transformation
-    return message;
+    const { predicate, min = -Infinity, max = Infinity, replacement = 0 } = rule.parameters;
+    const keep = (value: number, index: number) =>
+      value >= min && value <= max && (typeof predicate !== 'function' || predicate(value, index));
+
+    return this.mapTensor(message, data => data.map((value, index) => keep(value, index) ? value : replacement));
+  }
+
+  /**
+   * Apply an element-wise transformation to a tensor payload, preserving its form
+   */
+  private mapTensor(message: PortMessage, transform: (data: Float32Array) => Float32Array): PortMessage {
+    const tensor = readTensor(message.payload);
+    if (!tensor) {
+      throw new Error(isEncodedPayload(message.payload)
+        ? 'Cannot transform an encoded payload'
+        : 'Payload is not a tensor');
+    }
+
+    const data = transform(tensor.data);
+    const original: unknown = message.payload;
+    let payload: Float32Array | number[] | PortTensorPayload;
+    if (original instanceof Float32Array) {
+      payload = data;
+    } else if (Array.isArray(original)) {
+      payload = Array.from(data);
+    } else {
+      const tensorPayload = original as PortTensorPayload;
+      payload = {
+        ...tensorPayload,
+        tensorData: tensorPayload.tensorData instanceof Float32Array ? data : Array.from(data)
+      };
+    }
+
+    return { ...message, payload, contentSize: payloadSize(payload) };
+  }
+
+  private decrypt(payload: PortEncodedPayload, message: PortMessage): Buffer {
+    const rule = this.config.transformationRules.find(candidate => candidate.type === 'encrypt');
+    if (!rule) {
+      throw new Error('no decryption key configured');
+    }
+
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      resolveEncryptionKey(rule.parameters.key ?? this.config.encryptionKey),
+      Buffer.from(payload.iv || '', 'base64')
+    );
+    decipher.setAAD(Buffer.from(associatedData(message)));
+    decipher.setAuthTag(Buffer.from(payload.authTag || '', 'base64'));
+
+    try {
+      return Buffer.concat([decipher.update(Buffer.from(payload.data, 'base64')), decipher.final()]);
+    } catch {
+      throw new Error('payload authentication failed');
+    }
   }
 
   private async routeMessage(message: PortMessage, targetConnectionId?: string): Promise<boolean> {
@@ -790,8 +1081,11 @@ export class PortChannel {
     message: PortMessage,
     connection: PortConnection
   ): Promise<boolean> {
-    // In a real implementation, this would send the message to the target port
-    // For now, we simulate successful sending
+    if (this.transport) {
+      return await this.transport.send(connection.targetPortId, message);
+    }
+
+    // Without a transport, sending is simulated
     console.log(`Sending message ${message.id} through connection ${connection.id}`);
     return true;
   }
@@ -898,7 +1192,7 @@ export class PortChannelFactory {
           id: 'compression',
           name: 'Tensor Compression',
           type: 'compress',
-          parameters: { ratio: 0.7 },
+          parameters: { level: 6 },
           priority: 1,
           enabled: true
         }
@@ -910,14 +1204,25 @@ export class PortChannelFactory {
   }
 
   /**
-   * Create a control message port
+   * Create a control message port. Control messages are encrypted with
+   * `options.encryptionKey`, which every control port exchanging messages
+   * with this one must share.
+   *
+   * Breaking change: the direction and the key are now required. Control
+   * ports used to be created without a key and sent control messages in the
+   * clear; callers must now pass the key they share with their peers, as
+   * PSystem does with its `encryptionKey`.
    */
   static createControlPort(
     membraneId: string,
     name: string,
-    direction: PortDirection = 'bidirectional',
-    options?: Partial<PortChannelConfig>
+    direction: PortDirection,
+    options: Partial<PortChannelConfig> & { encryptionKey: Buffer | string }
   ): PortChannel {
+    if (!options.encryptionKey) {
+      throw new Error('Control ports require a shared encryptionKey');
+    }
+
     const config: PortChannelConfig = {
       id: `${membraneId}_control_${Date.now()}`,
       name,
@@ -943,7 +1248,7 @@ export class PortChannelFactory {
           id: 'encryption',
           name: 'Message Encryption',
           type: 'encrypt',
-          parameters: { algorithm: 'AES-256' },
+          parameters: { algorithm: 'aes-256-gcm' },
           priority: 1,
           enabled: true
         }
@@ -953,4 +1258,76 @@ export class PortChannelFactory {
 
     return new PortChannel(config);
   }
-}
\ No newline at end of file
+}
+/**
+ * Tensor view of a payload: a Float32Array, a number array or a PortTensorPayload
+ */
+function readTensor(payload: unknown): { data: Float32Array; shape: TensorShape } | null {
+  if (payload instanceof Float32Array) {
+    return { data: payload, shape: [payload.length] };
+  }
+  if (Array.isArray(payload) && payload.every(value => typeof value === 'number')) {
+    return { data: Float32Array.from(payload), shape: [payload.length] };
+  }
+  if (isTensorPayload(payload)) {
+    const data = payload.tensorData instanceof Float32Array ? payload.tensorData : Float32Array.from(payload.tensorData);
+    return { data, shape: payload.shape || [data.length] };
+  }
+  return null;
+}
+
+function isTensorPayload(payload: unknown): payload is PortTensorPayload {
+  if (!payload || typeof payload !== 'object') return false;
+  const { tensorData } = payload as { tensorData?: unknown };
+  return tensorData instanceof Float32Array || Array.isArray(tensorData);
+}
+
+function isEncodedPayload(payload: unknown): payload is PortEncodedPayload {
+  if (!payload || typeof payload !== 'object') return false;
+  const { encoding, data } = payload as { encoding?: unknown; data?: unknown };
+  return (encoding === 'deflate' || encoding === 'aes-256-gcm') && typeof data === 'string';
+}
+
+/**
+ * Serialize a payload to bytes as JSON, with Float32Arrays kept as base64 bytes
+ */
+function serializePayload(payload: unknown): Buffer {
+  const json = JSON.stringify(payload === undefined ? null : payload, (_, value: unknown) =>
+    value instanceof Float32Array
+      ? { $float32: Buffer.from(value.buffer, value.byteOffset, value.byteLength).toString('base64') }
+      : value
+  );
+  return Buffer.from(json, 'utf8');
+}
+
+function deserializePayload(bytes: Buffer): unknown {
+  return JSON.parse(bytes.toString('utf8'), (_, value: unknown) => {
+    const encoded = value && typeof value === 'object' ? (value as { $float32?: unknown }).$float32 : undefined;
+    if (typeof encoded === 'string') {
+      const buffer = Buffer.from(encoded, 'base64');
+      return new Float32Array(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength));
+    }
+    return value;
+  });
+}
+
+/**
+ * Payload size in bytes
+ */
+function payloadSize(payload: unknown): number {
+  if (payload instanceof Float32Array) return payload.byteLength;
+  if (isEncodedPayload(payload)) return Buffer.from(payload.data, 'base64').length;
+  return serializePayload(payload).length;
+}
+
+function resolveEncryptionKey(key: Buffer | string | undefined): Buffer {
+  const bytes = typeof key === 'string' ? Buffer.from(key, 'hex') : key;
+  if (!bytes || bytes.length !== 32) {
+    throw new Error('Encryption requires a 32-byte key (Buffer or hex string)');
+  }
+  return bytes;
+}
+
+function associatedData(message: PortMessage): string {
+  return `${message.sourceId}->${message.targetId}:${message.type}`;
+}
@@ -0,0 +1,397 @@
+/**
+ * Membrane Transport
+ *
+ * Carries port messages between PortChannels that may live in different
+ * threads or processes, and shares which membranes and ports each endpoint
+ * hosts so registries can discover remote membranes.
+ *
+ * Two implementations are provided:
+ * - InMemoryTransport: endpoints in one process sharing an InMemoryTransportHub
+ * - MessagePortTransport: endpoints linked by worker_threads channels
+ *   (a Worker, `parentPort` or either side of a MessageChannel)
+ */
+
+import type { PortChannel, PortMessage } from './port-channel.js';
+import { ChannelClient, StructuredCloneChannel, serveChannel } from '../channel/channel-rpc.js';
+
+/**
+ * Membrane advertised by an endpoint
+ */
+export interface MembraneDescriptor {
+  membraneId: string;
+  name: string;
+  endpointId: string;
+  pSystemId: string | null;
+  depth: number;
+  tags: string[];
+  portIds: string[];
+  metadata: Record<string, any>;
+}
+
+/**
+ * Message transport between endpoints
+ */
+export interface MembraneTransport {
+  /** Endpoint (thread or process) this transport belongs to */
+  readonly endpointId: string;
+
+  /** Make a local port reachable by its ID */
+  bindPort(port: PortChannel): void;
+
+  /** Stop receiving messages for a local port */
+  unbindPort(portId: string): void;
+
+  /** Whether a port is reachable, locally or on a connected endpoint */
+  hasPort(portId: string): boolean;
+
+  /** Deliver a message to a port; resolves whether the target port accepted it */
+  send(targetPortId: string, message: PortMessage): Promise<boolean>;
+
+  /** Announce a local membrane to other endpoints */
+  advertise(descriptor: MembraneDescriptor): void;
+
+  /** Retract a membrane announcement */
+  withdraw(membraneId: string): void;
+
+  /** Membranes advertised by other endpoints */
+  getRemoteMembranes(): MembraneDescriptor[];
+
+  /** Release the transport; pending deliveries fail */
+  close(): void;
+}
+
+/**
+ * Shared state of in-memory endpoints
+ */
+export class InMemoryTransportHub {
+  private ports: Map<string, PortChannel> = new Map();
+  private membranes: Map<string, MembraneDescriptor> = new Map();
+
+  bindPort(port: PortChannel): void {
+    this.ports.set(port.getId(), port);
+  }
+
+  unbindPort(portId: string): void {
+    this.ports.delete(portId);
+  }
+
+  getPort(portId: string): PortChannel | undefined {
+    return this.ports.get(portId);
+  }
+
+  advertise(descriptor: MembraneDescriptor): void {
+    this.membranes.set(descriptor.membraneId, { ...descriptor });
+  }
+
+  withdraw(membraneId: string, endpointId: string): void {
+    if (this.membranes.get(membraneId)?.endpointId === endpointId) {
+      this.membranes.delete(membraneId);
+    }
+  }
+
+  getMembranes(): MembraneDescriptor[] {
+    return Array.from(this.membranes.values());
+  }
+}
+
+/**
+ * Transport between endpoints in the same process
+ */
+export class InMemoryTransport implements MembraneTransport {
+  readonly endpointId: string;
+  private hub: InMemoryTransportHub;
+  private boundPorts: Set<string> = new Set();
+  private advertised: Set<string> = new Set();
+  private closed: boolean = false;
+
+  constructor(endpointId: string, hub: InMemoryTransportHub = new InMemoryTransportHub()) {
+    this.endpointId = endpointId;
+    this.hub = hub;
+  }
+
+  bindPort(port: PortChannel): void {
+    this.hub.bindPort(port);
+    this.boundPorts.add(port.getId());
+  }
+
+  unbindPort(portId: string): void {
+    if (this.boundPorts.delete(portId)) {
+      this.hub.unbindPort(portId);
+    }
+  }
+
+  hasPort(portId: string): boolean {
+    return !!this.hub.getPort(portId);
+  }
+
+  async send(targetPortId: string, message: PortMessage): Promise<boolean> {
+    const port = this.closed ? undefined : this.hub.getPort(targetPortId);
+    if (!port) {
+      console.warn(`Transport ${this.endpointId}: port ${targetPortId} is unreachable`);
+      return false;
+    }
+    return await port.receiveMessage(message);
+  }
+
+  advertise(descriptor: MembraneDescriptor): void {
+    this.hub.advertise({ ...descriptor, endpointId: this.endpointId });
+    this.advertised.add(descriptor.membraneId);
+  }
+
+  withdraw(membraneId: string): void {
+    this.hub.withdraw(membraneId, this.endpointId);
+    this.advertised.delete(membraneId);
+  }
+
+  getRemoteMembranes(): MembraneDescriptor[] {
+    return this.hub.getMembranes().filter(descriptor => descriptor.endpointId !== this.endpointId);
+  }
+
+  close(): void {
+    this.boundPorts.forEach(portId => this.hub.unbindPort(portId));
+    this.advertised.forEach(membraneId => this.hub.withdraw(membraneId, this.endpointId));
+    this.boundPorts.clear();
+    this.advertised.clear();
+    this.closed = true;
+  }
+}
+
+/**
+ * Message port transport options
+ */
+export interface MessagePortTransportOptions {
+  /** Time to wait for a remote port to acknowledge a delivery */
+  requestTimeoutMs: number;
+}
+
+type TransportFrame =
+  | { type: 'hello'; endpointId: string; portIds: string[]; membranes: MembraneDescriptor[] }
+  | { type: 'port'; portId: string; bound: boolean }
+  | { type: 'membrane'; membraneId: string; descriptor?: MembraneDescriptor }
+  | { type: 'bye' };
+
+/**
+ * Calls a peer answers
+ */
+interface TransportMethods {
+  /** Delivers a message to a port bound on the peer; resolves whether the port accepted it */
+  deliver: { args: [targetPortId: string, message: PortMessage]; result: boolean };
+}
+
+interface PeerState {
+  endpointId: string | null;
+  portIds: Set<string>;
+  membranes: Map<string, MembraneDescriptor>;
+  client: ChannelClient<TransportMethods>;
+  stopServing: () => void;
+}
+
+/**
+ * Transport between worker threads over structured-clone channels.
+ *
+ * Each side adds the channel to the other as a peer, e.g. the main thread
+ * calls `transport.addPeer(worker)` and the worker calls
+ * `transport.addPeer(parentPort)`. Only directly connected peers are
+ * reachable; messages are not relayed.
+ */
+export class MessagePortTransport implements MembraneTransport {
+  readonly endpointId: string;
+  private options: MessagePortTransportOptions;
+  private localPorts: Map<string, PortChannel> = new Map();
+  private localMembranes: Map<string, MembraneDescriptor> = new Map();
+  private peers: Map<StructuredCloneChannel, PeerState> = new Map();
+
+  constructor(endpointId: string, options?: Partial<MessagePortTransportOptions>) {
+    this.endpointId = endpointId;
+    this.options = {
+      requestTimeoutMs: 5000,
+      ...options
+    };
+  }
+
+  /**
+   * Connect a peer endpoint and exchange ports and membranes with it
+   */
+  addPeer(channel: StructuredCloneChannel): void {
+    if (this.peers.has(channel)) {
+      return;
+    }
+
+    this.peers.set(channel, {
+      endpointId: null,
+      portIds: new Set(),
+      membranes: new Map(),
+      client: new ChannelClient(channel, {
+        onMessage: value => this.handleFrame(channel, value as TransportFrame),
+        timeoutMs: this.options.requestTimeoutMs
+      }),
+      stopServing: serveChannel<TransportMethods>(channel, request => this.deliverLocally(...request.args))
+    });
+
+    this.post(channel, {
+      type: 'hello',
+      endpointId: this.endpointId,
+      portIds: Array.from(this.localPorts.keys()),
+      membranes: Array.from(this.localMembranes.values())
+    });
+  }
+
+  /**
+   * Disconnect a peer; its ports and membranes are forgotten
+   */
+  removePeer(channel: StructuredCloneChannel): void {
+    if (this.peers.has(channel)) {
+      this.post(channel, { type: 'bye' });
+      this.disconnect(channel);
+    }
+  }
+
+  /**
+   * Endpoint IDs of connected peers that completed the handshake
+   */
+  getPeers(): string[] {
+    return Array.from(this.peers.values())
+      .map(peer => peer.endpointId)
+      .filter((endpointId): endpointId is string => endpointId !== null);
+  }
+
+  bindPort(port: PortChannel): void {
+    this.localPorts.set(port.getId(), port);
+    this.broadcast({ type: 'port', portId: port.getId(), bound: true });
+  }
+
+  unbindPort(portId: string): void {
+    if (this.localPorts.delete(portId)) {
+      this.broadcast({ type: 'port', portId, bound: false });
+    }
+  }
+
+  hasPort(portId: string): boolean {
+    return this.localPorts.has(portId) || !!this.findPeerWithPort(portId);
+  }
+
+  async send(targetPortId: string, message: PortMessage): Promise<boolean> {
+    const localPort = this.localPorts.get(targetPortId);
+    if (localPort) {
+      return await localPort.receiveMessage(message);
+    }
+
+    const peer = this.findPeerWithPort(targetPortId);
+    if (!peer) {
+      console.warn(`Transport ${this.endpointId}: port ${targetPortId} is unreachable`);
+      return false;
+    }
+
+    try {
+      return await peer.client.call('deliver', targetPortId, message);
+    } catch (error) {
+      console.warn(`Transport ${this.endpointId}: delivery to ${targetPortId} failed:`, error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  advertise(descriptor: MembraneDescriptor): void {
+    const advertised = { ...descriptor, endpointId: this.endpointId };
+    this.localMembranes.set(descriptor.membraneId, advertised);
+    this.broadcast({ type: 'membrane', membraneId: descriptor.membraneId, descriptor: advertised });
+  }
+
+  withdraw(membraneId: string): void {
+    if (this.localMembranes.delete(membraneId)) {
+      this.broadcast({ type: 'membrane', membraneId });
+    }
+  }
+
+  getRemoteMembranes(): MembraneDescriptor[] {
+    return Array.from(this.peers.values()).flatMap(peer => Array.from(peer.membranes.values()));
+  }
+
+  close(): void {
+    for (const channel of Array.from(this.peers.keys())) {
+      this.removePeer(channel);
+    }
+    this.localPorts.clear();
+    this.localMembranes.clear();
+  }
+
+  // Private methods
+
+  private handleFrame(channel: StructuredCloneChannel, frame: TransportFrame): void {
+    const peer = this.peers.get(channel);
+    if (!peer || !frame || typeof frame !== 'object') {
+      return;
+    }
+
+    switch (frame.type) {
+      case 'hello':
+        peer.endpointId = frame.endpointId;
+        peer.portIds = new Set(frame.portIds);
+        peer.membranes = new Map(frame.membranes.map(descriptor => [descriptor.membraneId, descriptor]));
+        break;
+      case 'port':
+        if (frame.bound) {
+          peer.portIds.add(frame.portId);
+        } else {
+          peer.portIds.delete(frame.portId);
+        }
+        break;
+      case 'membrane':
+        if (frame.descriptor) {
+          peer.membranes.set(frame.membraneId, frame.descriptor);
+        } else {
+          peer.membranes.delete(frame.membraneId);
+        }
+        break;
+      case 'bye':
+        this.disconnect(channel);
+        break;
+    }
+  }
+
+  private async deliverLocally(targetPortId: string, message: PortMessage): Promise<boolean> {
+    const port = this.localPorts.get(targetPortId);
+    if (!port) {
+      throw new Error(`Port ${targetPortId} not bound on ${this.endpointId}`);
+    }
+    return await port.receiveMessage(message);
+  }
+
+  /**
+   * Forget a peer; its unanswered deliveries fail
+   */
+  private disconnect(channel: StructuredCloneChannel): void {
+    const peer = this.peers.get(channel);
+    if (!peer) {
+      return;
+    }
+
+    peer.client.fail(new Error(`Peer ${peer.endpointId ?? 'endpoint'} disconnected`));
+    peer.client.detach();
+    peer.stopServing();
+    this.peers.delete(channel);
+  }
+
+  private findPeerWithPort(portId: string): PeerState | undefined {
+    for (const peer of this.peers.values()) {
+      if (peer.portIds.has(portId)) {
+        return peer;
+      }
+    }
+    return undefined;
+  }
+
+  private broadcast(frame: TransportFrame): void {
+    this.peers.forEach((_, channel) => this.post(channel, frame));
+  }
+
+  /**
+   * Post a frame; payloads that cannot be cloned (e.g. functions) fail the post
+   */
+  private post(channel: StructuredCloneChannel, frame: TransportFrame): void {
+    try {
+      channel.postMessage(frame);
+    } catch (error) {
+      console.error(`Transport ${this.endpointId}: failed to post ${frame.type} frame:`, error);
+    }
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * Modification Journal - Reversible record of applied self-modifications
+ *
+ * Every applied SelfModification is journaled with the data needed to revert
+ * it and the performance score it was applied against. Pending modifications
+ * are judged at the next reflection: kept if performance held up, rolled back
+ * otherwise. Entries hold plain data only, so the journal can be checkpointed.
+ */
+
+import { SelfModification } from './reflection-engine.js';
+import { CognitiveEdge, CognitiveNode } from '../types.js';
+import type { AttentionStrategy } from '../attention/ecan-allocator.js';
+
+/**
+ * Lifecycle of a journaled modification
+ */
+export type ModificationStatus = 'pending' | 'committed' | 'rolled_back';
+
+/**
+ * Data that reverses a modification, tagged with the modification type
+ */
+export type ModificationInverse =
+  | {
+      type: 'parameter_adjustment';
+      group: 'persona' | 'attention';
+      key: string;
+      previous: number;
+    }
+  | {
+      type: 'structure_change';
+      addedNodes: string[];
+      removedNodes: CognitiveNode[];
+      removedEdges: CognitiveEdge[];
+      /** Cluster membership before the change */
+      previousClusters: Array<[string, string[]]>;
+    }
+  | { type: 'strategy_change'; previous: AttentionStrategy }
+  | { type: 'goal_modification'; previous: Float32Array };
+
+/**
+ * Journal entry for an applied self-modification
+ */
+export interface ModificationJournalEntry {
+  id: number;
+  /** Cognitive cycle the modification was applied in */
+  cycle: number;
+  modification: SelfModification;
+  /** What the modification changed */
+  description: string;
+  /** Overall performance when the modification was applied */
+  baselinePerformance: number;
+  /** Data needed to revert the modification */
+  inverse: ModificationInverse;
+  status: ModificationStatus;
+  appliedAt: number;
+  /** Overall performance the modification was judged against */
+  outcomePerformance?: number;
+  resolvedAt?: number;
+}
+
+/**
+ * Persistable journal state
+ */
+export interface ModificationJournalState {
+  entries: ModificationJournalEntry[];
+  nextId: number;
+}
+
+/**
+ * Journal of self-modifications with rollback support
+ */
+export class ModificationJournal {
+  private records: ModificationJournalEntry[] = [];
+  private nextId = 1;
+  private revert: (entry: ModificationJournalEntry) => void;
+  private maxEntries: number;
+  private rollbackTolerance: number;
+
+  /**
+   * @param revert Reverses a modification using its journaled inverse data
+   * @param rollbackTolerance Performance drop tolerated before rolling back
+   */
+  constructor(
+    revert: (entry: ModificationJournalEntry) => void,
+    maxEntries: number = 500,
+    rollbackTolerance: number = 0
+  ) {
+    this.revert = revert;
+    this.maxEntries = maxEntries;
+    this.rollbackTolerance = rollbackTolerance;
+  }
+
+  /**
+   * Records an applied modification together with the data that reverses it
+   */
+  record(
+    cycle: number,
+    modification: SelfModification,
+    description: string,
+    baselinePerformance: number,
+    inverse: ModificationInverse
+  ): ModificationJournalEntry {
+    const record: ModificationJournalEntry = {
+      id: this.nextId++,
+      cycle,
+      modification,
+      description,
+      baselinePerformance,
+      inverse,
+      status: 'pending',
+      appliedAt: Date.now()
+    };
+    this.records.push(record);
+    this.trim();
+    return { ...record };
+  }
+
+  /**
+   * Judges pending modifications against the latest performance score,
+   * rolling back (newest first) those that made performance worse
+   */
+  evaluatePending(performance: number): {
+    committed: ModificationJournalEntry[];
+    rolledBack: ModificationJournalEntry[];
+  } {
+    const committed: ModificationJournalEntry[] = [];
+    const rolledBack: ModificationJournalEntry[] = [];
+
+    for (const record of this.pendingRecords().reverse()) {
+      record.outcomePerformance = performance;
+      if (performance < record.baselinePerformance - this.rollbackTolerance) {
+        this.undoRecord(record);
+        rolledBack.push({ ...record });
+      } else {
+        record.status = 'committed';
+        record.resolvedAt = Date.now();
+        committed.push({ ...record });
+      }
+    }
+
+    return { committed: committed.reverse(), rolledBack };
+  }
+
+  /**
+   * Rolls back every pending modification, newest first
+   */
+  rollbackPending(): ModificationJournalEntry[] {
+    return this.pendingRecords().reverse().map(record => {
+      this.undoRecord(record);
+      return { ...record };
+    });
+  }
+
+  /**
+   * Gets journal entries, optionally filtered by status
+   */
+  getEntries(status?: ModificationStatus): ModificationJournalEntry[] {
+    return this.records
+      .filter(record => !status || record.status === status)
+      .map(record => ({ ...record }));
+  }
+
+  /**
+   * Gets the number of modifications awaiting evaluation
+   */
+  getPendingCount(): number {
+    return this.pendingRecords().length;
+  }
+
+  /**
+   * Exports the journal for persistence
+   */
+  exportState(): ModificationJournalState {
+    return {
+      entries: this.records.map(record => ({ ...record })),
+      nextId: this.nextId
+    };
+  }
+
+  /**
+   * Imports a previously exported journal, including pending modifications
+   */
+  importState(data: ModificationJournalState): void {
+    this.records = data.entries.map(entry => ({ ...entry }));
+    this.nextId = data.nextId;
+  }
+
+  // Private methods
+
+  private pendingRecords(): ModificationJournalEntry[] {
+    return this.records.filter(record => record.status === 'pending');
+  }
+
+  private undoRecord(record: ModificationJournalEntry): void {
+    this.revert(record);
+    record.status = 'rolled_back';
+    record.resolvedAt = Date.now();
+  }
+
+  /**
+   * Drops the oldest resolved entries beyond capacity; pending entries are kept
+   */
+  private trim(): void {
+    let excess = this.records.length - this.maxEntries;
+    if (excess <= 0) return;
+
+    this.records = this.records.filter(record => {
+      if (excess > 0 && record.status !== 'pending') {
+        excess--;
+        return false;
+      }
+      return true;
+    });
+  }
+}
@@ -49,6 +49,15 @@ export interface SelfModification {
   riskLevel: number;
 }
 
+/**
+ * Persistable meta-cognitive history
+ */
+export interface MetaCognitiveHistory {
+  reflectionDepth: number;
+  performanceHistory: Array<{ timestamp: number; metrics: Record<string, number> }>;
+  modificationHistory: SelfModification[];
+}
+
 /**
  * Meta-cognitive engine for self-awareness and adaptation
  */
@@ -540,13 +549,38 @@ export class MetaCognitiveEngine {
       modifications.push({
         type: 'structure_change',
         target: 'memory.consolidation',
-        modification: { enhanceConsolidation: true },
+        modification: { enhanceConsolidation: true, pruneBelow: 0.01 },
         justification: 'Memory performance below threshold',
         priority: 0.7,
         riskLevel: 0.4
       });
     }
 
+    if (reflection.suggestedModifications.parameters) {
+      modifications.push({
+        type: 'strategy_change',
+        target: 'attention.strategy',
+        modification: { strategy: reflection.suggestedModifications.attention ? 'short_term' : 'long_term' },
+        justification: 'Overall performance below threshold calls for a different attention strategy',
+        priority: 0.6,
+        riskLevel: 0.5
+      });
+
+      modifications.push({
+        type: 'goal_modification',
+        target: 'task.goals',
+        modification: { focus: 0.2 },
+        justification: 'Concentrate task goals on the tasks receiving attention',
+        priority: 0.5,
+        riskLevel: 0.4
+      });
+    }
+
+    this.modificationHistory.push(...modifications);
+    if (this.modificationHistory.length > 1000) {
+      this.modificationHistory = this.modificationHistory.slice(-500);
+    }
+
     return modifications;
   }
 
@@ -585,6 +619,33 @@ export class MetaCognitiveEngine {
     };
   }
 
+  /**
+   * Exports reflection history for persistence
+   */
+  exportState(): MetaCognitiveHistory {
+    return {
+      reflectionDepth: this.reflectionDepth,
+      performanceHistory: this.performanceHistory.map(entry => ({
+        timestamp: entry.timestamp,
+        metrics: { ...entry.metrics }
+      })),
+      modificationHistory: this.modificationHistory.map(modification => ({ ...modification }))
+    };
+  }
+
+  /**
+   * Imports reflection history and adopts an existing meta-cognitive state
+   */
+  importState(data: MetaCognitiveHistory, metaState: MetaCognitiveTensor): void {
+    this.metaState = metaState;
+    this.reflectionDepth = data.reflectionDepth;
+    this.performanceHistory = data.performanceHistory.map(entry => ({
+      timestamp: entry.timestamp,
+      metrics: { ...entry.metrics }
+    }));
+    this.modificationHistory = data.modificationHistory.map(modification => ({ ...modification }));
+  }
+
   /**
    * Calculates variance in performance metrics
    */
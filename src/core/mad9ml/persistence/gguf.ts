@@ -0,0 +1,572 @@
+/**
+ * GGUF - Reader and writer for the ggml GGUF tensor file format
+ *
+ * Files follow GGUF version 3 as written by ggml and llama.cpp:
+ *
+ *   "GGUF" | u32 version | u64 tensor count | u64 metadata count
+ *   | metadata key-values | tensor infos | pad to alignment | tensor data
+ *
+ * Tensor dimensions are stored innermost-first (ggml `ne` order), so a
+ * mad9ml tensor of shape [rows, cols] is written with dims [cols, rows].
+ * Each tensor's data starts on an alignment boundary (`general.alignment`,
+ * 32 bytes by default). f32, f16 and i32 tensors map to the ggml types
+ * F32, F16 and I32; quantized ggml types are rejected on read. Names and
+ * ranks are held to ggml's limits (63 bytes, 4 dimensions). All values are
+ * little-endian.
+ */
+
+import { Tensor, TensorShape, TensorType, CognitiveState } from '../types.js';
+import type { GgmlKernel } from '../agentic-grammar/types.js';
+import { makeTensor, toFloat16Array, fromFloat16Array } from '../tensor/operations.js';
+
+/**
+ * GGUF version written by encodeGGUF
+ */
+export const GGUF_VERSION = 3;
+
+/**
+ * Default tensor data alignment in bytes
+ */
+export const GGUF_DEFAULT_ALIGNMENT = 32;
+
+const GGUF_MAGIC = 'GGUF';
+const GGML_MAX_NAME_BYTES = 63;
+const GGML_MAX_DIMS = 4;
+
+/**
+ * Metadata value types
+ */
+export enum GGUFValueType {
+  UINT8 = 0,
+  INT8 = 1,
+  UINT16 = 2,
+  INT16 = 3,
+  UINT32 = 4,
+  INT32 = 5,
+  FLOAT32 = 6,
+  BOOL = 7,
+  STRING = 8,
+  ARRAY = 9,
+  UINT64 = 10,
+  INT64 = 11,
+  FLOAT64 = 12
+}
+
+/**
+ * ggml tensor element types supported by mad9ml
+ */
+export enum GgmlType {
+  F32 = 0,
+  F16 = 1,
+  I32 = 26
+}
+
+/**
+ * Metadata value; 64-bit integers beyond the safe range are bigints
+ */
+export type GGUFValue = number | bigint | boolean | string | GGUFValue[];
+
+/**
+ * Metadata value with an explicit GGUF type, for when inference would pick
+ * the wrong one (e.g. a float that must be stored as FLOAT32)
+ */
+export interface GGUFTypedValue {
+  type: GGUFValueType;
+  value: GGUFValue;
+  /** Element type when type is ARRAY */
+  elementType?: GGUFValueType;
+}
+
+/**
+ * Decoded or to-be-encoded GGUF file
+ */
+export interface GGUFFile {
+  version: number;
+  /** Metadata in file order */
+  metadata: Record<string, GGUFValue>;
+  /** Tensors in file order, keyed by name */
+  tensors: Record<string, Tensor>;
+  /** Data alignment in bytes */
+  alignment: number;
+}
+
+/**
+ * Tensor groups of a cognitive state (everything but the hypergraph)
+ */
+export type CognitiveTensorGroups = Pick<CognitiveState, 'memory' | 'task' | 'persona' | 'metaCognitive'>;
+
+const COGNITIVE_TENSOR_GROUPS: Record<keyof CognitiveTensorGroups, string[]> = {
+  memory: ['episodic', 'semantic', 'procedural', 'working'],
+  task: ['active', 'queue', 'attention'],
+  persona: ['traits', 'parameters', 'mutationCoeffs'],
+  metaCognitive: ['selfEval', 'adjustment', 'history']
+};
+
+const GGML_TYPES: Record<TensorType, GgmlType> = {
+  f32: GgmlType.F32,
+  f16: GgmlType.F16,
+  i32: GgmlType.I32
+};
+
+/**
+ * Encodes tensors and metadata as a GGUF file
+ */
+export function encodeGGUF(
+  tensors: Record<string, Tensor>,
+  metadata: Record<string, GGUFValue | GGUFTypedValue> = {},
+  alignment: number = GGUF_DEFAULT_ALIGNMENT
+): Buffer {
+  if (!Number.isInteger(alignment) || alignment < 4 || (alignment & (alignment - 1)) !== 0) {
+    throw new Error(`GGUF alignment must be a power of two of at least 4, got ${alignment}`);
+  }
+
+  const entries = Object.entries(metadata).filter(([key]) => key !== 'general.alignment');
+  if (alignment !== GGUF_DEFAULT_ALIGNMENT) {
+    entries.push(['general.alignment', { type: GGUFValueType.UINT32, value: alignment }]);
+  }
+
+  const writer = new ByteWriter();
+  writer.raw(Buffer.from(GGUF_MAGIC, 'ascii'));
+  writer.u32(GGUF_VERSION);
+  writer.u64(Object.keys(tensors).length);
+  writer.u64(entries.length);
+
+  for (const [key, value] of entries) {
+    writer.string(key);
+    writeValue(writer, value);
+  }
+
+  // Tensor infos carry data offsets relative to the aligned data section
+  const blobs: Uint8Array[] = [];
+  let dataOffset = 0;
+  for (const [name, tensor] of Object.entries(tensors)) {
+    if (Buffer.byteLength(name, 'utf8') > GGML_MAX_NAME_BYTES) {
+      throw new Error(`Tensor name ${name} exceeds ggml's ${GGML_MAX_NAME_BYTES}-byte limit`);
+    }
+    if (tensor.shape.length > GGML_MAX_DIMS) {
+      throw new Error(`Tensor ${name} has ${tensor.shape.length} dimensions; ggml supports at most ${GGML_MAX_DIMS}`);
+    }
+
+    // Scalars are stored as one-element vectors
+    const dims = tensor.shape.length === 0 ? [1] : [...tensor.shape].reverse();
+    const blob = tensorBytes(tensor);
+    writer.string(name);
+    writer.u32(dims.length);
+    dims.forEach(dim => writer.u64(dim));
+    writer.u32(GGML_TYPES[tensor.type]);
+    writer.u64(dataOffset);
+    blobs.push(blob);
+    dataOffset = alignTo(dataOffset + blob.byteLength, alignment);
+  }
+
+  writer.pad(alignment);
+  const dataStart = writer.length;
+  for (const blob of blobs) {
+    writer.raw(blob);
+    writer.pad(alignment, dataStart);
+  }
+
+  return writer.toBuffer();
+}
+
+/**
+ * Decodes a GGUF file (versions 2 and 3) into metadata and tensors
+ */
+export function decodeGGUF(data: Uint8Array): GGUFFile {
+  const reader = new ByteReader(data);
+
+  if (data.byteLength < 4 || reader.ascii(4) !== GGUF_MAGIC) {
+    throw new Error('Not a GGUF file');
+  }
+
+  const version = reader.u32();
+  if (version < 2 || version > GGUF_VERSION) {
+    throw new Error(`Unsupported GGUF version ${version} (supported: 2-${GGUF_VERSION})`);
+  }
+
+  const tensorCount = reader.count();
+  const metadataCount = reader.count();
+
+  const metadata: Record<string, GGUFValue> = {};
+  for (let i = 0; i < metadataCount; i++) {
+    const key = reader.string();
+    metadata[key] = readValue(reader, reader.u32());
+  }
+
+  const alignment = metadata['general.alignment'] === undefined
+    ? GGUF_DEFAULT_ALIGNMENT
+    : Number(metadata['general.alignment']);
+
+  const infos: Array<{ name: string; shape: TensorShape; type: number; offset: number }> = [];
+  for (let i = 0; i < tensorCount; i++) {
+    const name = reader.string();
+    const dims = reader.u32();
+    const shape: number[] = [];
+    for (let d = 0; d < dims; d++) {
+      shape.unshift(reader.count());
+    }
+    infos.push({ name, shape, type: reader.u32(), offset: reader.count() });
+  }
+
+  const dataStart = alignTo(reader.position, alignment);
+  const tensors: Record<string, Tensor> = {};
+  for (const info of infos) {
+    tensors[info.name] = readTensor(data, dataStart + info.offset, info);
+  }
+
+  return { version, metadata, tensors, alignment };
+}
+
+/**
+ * Encodes the tensor groups of a cognitive state as GGUF, with tensors named
+ * `<group>.<tensor>` (e.g. `memory.episodic`)
+ */
+export function encodeCognitiveState(
+  state: CognitiveTensorGroups & { timestamp?: number },
+  metadata: Record<string, GGUFValue | GGUFTypedValue> = {}
+): Buffer {
+  const tensors: Record<string, Tensor> = {};
+  for (const [group, names] of Object.entries(COGNITIVE_TENSOR_GROUPS)) {
+    const tensorGroup = state[group as keyof CognitiveTensorGroups] as unknown as Record<string, Tensor>;
+    for (const name of names) {
+      tensors[`${group}.${name}`] = tensorGroup[name];
+    }
+  }
+
+  return encodeGGUF(tensors, {
+    'general.architecture': 'mad9ml',
+    'general.type': 'cognitive_state',
+    ...(state.timestamp !== undefined ? { 'mad9ml.timestamp': state.timestamp } : {}),
+    ...metadata
+  });
+}
+
+/**
+ * Loads cognitive state tensor groups from a GGUF file
+ */
+export function decodeCognitiveState(data: Uint8Array): CognitiveTensorGroups {
+  const { tensors } = decodeGGUF(data);
+  const groups: Record<string, Record<string, Tensor>> = {};
+
+  for (const [group, names] of Object.entries(COGNITIVE_TENSOR_GROUPS)) {
+    groups[group] = {};
+    for (const name of names) {
+      const tensor = tensors[`${group}.${name}`];
+      if (!tensor) {
+        throw new Error(`GGUF file is missing cognitive tensor ${group}.${name}`);
+      }
+      groups[group][name] = tensor;
+    }
+  }
+
+  return groups as unknown as CognitiveTensorGroups;
+}
+
+/**
+ * Encodes the weights of kernels that have them as GGUF tensors named
+ * `kernel.<n>.weights`; kernel IDs, which may exceed ggml's name limit,
+ * are recorded in metadata as `mad9ml.kernel.<n>.id`
+ */
+export function encodeKernelWeights(kernels: GgmlKernel[]): Buffer {
+  const tensors: Record<string, Tensor> = {};
+  const metadata: Record<string, GGUFValue> = {
+    'general.architecture': 'mad9ml',
+    'general.type': 'kernel_weights'
+  };
+
+  kernels.filter(kernel => kernel.weights).forEach((kernel, index) => {
+    tensors[`kernel.${index}.weights`] = kernel.weights!;
+    metadata[`mad9ml.kernel.${index}.id`] = kernel.id;
+    metadata[`mad9ml.kernel.${index}.name`] = kernel.name;
+  });
+
+  return encodeGGUF(tensors, metadata);
+}
+
+/**
+ * Reads kernel weights from a GGUF file, keyed by kernel ID
+ */
+export function decodeKernelWeights(data: Uint8Array): Record<string, Tensor> {
+  const { metadata, tensors } = decodeGGUF(data);
+  const weights: Record<string, Tensor> = {};
+
+  for (const [name, tensor] of Object.entries(tensors)) {
+    const match = /^kernel\.(\d+)\.weights$/.exec(name);
+    const id = match && metadata[`mad9ml.kernel.${match[1]}.id`];
+    if (typeof id === 'string') {
+      weights[id] = tensor;
+    }
+  }
+
+  return weights;
+}
+
+// Internal helpers
+
+function alignTo(offset: number, alignment: number): number {
+  return Math.ceil(offset / alignment) * alignment;
+}
+
+/**
+ * Raw little-endian element bytes of a tensor
+ */
+function tensorBytes(tensor: Tensor): Uint8Array {
+  if (tensor.type === 'f16') {
+    const bits = toFloat16Array(tensor);
+    const bytes = Buffer.alloc(bits.length * 2);
+    bits.forEach((value, i) => bytes.writeUInt16LE(value, i * 2));
+    return bytes;
+  }
+
+  const bytes = Buffer.alloc(tensor.size * 4);
+  for (let i = 0; i < tensor.size; i++) {
+    if (tensor.type === 'i32') {
+      bytes.writeInt32LE(tensor.data[i], i * 4);
+    } else {
+      bytes.writeFloatLE(tensor.data[i], i * 4);
+    }
+  }
+  return bytes;
+}
+
+function readTensor(
+  data: Uint8Array,
+  start: number,
+  info: { name: string; shape: TensorShape; type: number }
+): Tensor {
+  const size = info.shape.reduce((acc, dim) => acc * dim, 1);
+  const elementBytes = info.type === GgmlType.F16 ? 2 : 4;
+  if (info.type !== GgmlType.F32 && info.type !== GgmlType.F16 && info.type !== GgmlType.I32) {
+    throw new Error(`Unsupported ggml tensor type ${info.type} for tensor ${info.name}`);
+  }
+  if (start + size * elementBytes > data.byteLength) {
+    throw new Error(`Truncated GGUF tensor data for tensor ${info.name}`);
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset + start, size * elementBytes);
+  if (info.type === GgmlType.F16) {
+    const bits = new Uint16Array(size);
+    for (let i = 0; i < size; i++) bits[i] = view.getUint16(i * 2, true);
+    return fromFloat16Array(info.shape, bits);
+  }
+
+  const values = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    values[i] = info.type === GgmlType.I32 ? view.getInt32(i * 4, true) : view.getFloat32(i * 4, true);
+  }
+  return makeTensor(info.shape, values, info.type === GgmlType.I32 ? 'i32' : 'f32');
+}
+
+/**
+ * Picks a GGUF type for a plain JavaScript value
+ */
+function inferType(value: GGUFValue): GGUFValueType {
+  if (typeof value === 'boolean') return GGUFValueType.BOOL;
+  if (typeof value === 'string') return GGUFValueType.STRING;
+  if (typeof value === 'bigint') return value < BigInt(0) ? GGUFValueType.INT64 : GGUFValueType.UINT64;
+  if (Array.isArray(value)) return GGUFValueType.ARRAY;
+  if (!Number.isInteger(value)) return GGUFValueType.FLOAT64;
+  if (value >= 0 && value <= 0xffffffff) return GGUFValueType.UINT32;
+  if (value >= -0x80000000 && value < 0) return GGUFValueType.INT32;
+  return GGUFValueType.INT64;
+}
+
+/**
+ * Picks one element type for an array: any float makes it FLOAT64, any
+ * negative integer makes an integer array signed
+ */
+function inferElementType(values: GGUFValue[]): GGUFValueType {
+  if (values.length === 0) return GGUFValueType.UINT32;
+
+  const types = new Set(values.map(inferType));
+  if (types.size === 1) return types.values().next().value as GGUFValueType;
+
+  const numeric = [GGUFValueType.UINT32, GGUFValueType.INT32, GGUFValueType.INT64, GGUFValueType.FLOAT64];
+  if (![...types].every(type => numeric.includes(type))) {
+    throw new Error('GGUF arrays must hold values of a single type');
+  }
+  if (types.has(GGUFValueType.FLOAT64)) return GGUFValueType.FLOAT64;
+  if (types.has(GGUFValueType.INT64)) return GGUFValueType.INT64;
+  return values.some(value => (value as number) > 0x7fffffff) ? GGUFValueType.INT64 : GGUFValueType.INT32;
+}
+
+function isTypedValue(value: GGUFValue | GGUFTypedValue): value is GGUFTypedValue {
+  return typeof value === 'object' && !Array.isArray(value) && value !== null;
+}
+
+function writeValue(writer: ByteWriter, entry: GGUFValue | GGUFTypedValue): void {
+  const { type, value, elementType } = isTypedValue(entry)
+    ? entry
+    : { type: inferType(entry), value: entry, elementType: undefined };
+
+  writer.u32(type);
+  if (type === GGUFValueType.ARRAY) {
+    if (!Array.isArray(value)) {
+      throw new Error('GGUF ARRAY metadata requires an array value');
+    }
+    const itemType = elementType ?? inferElementType(value);
+    writer.u32(itemType);
+    writer.u64(value.length);
+    value.forEach(item => writeScalar(writer, itemType, item));
+  } else {
+    writeScalar(writer, type, value);
+  }
+}
+
+function writeScalar(writer: ByteWriter, type: GGUFValueType, value: GGUFValue): void {
+  switch (type) {
+    case GGUFValueType.UINT8: writer.u8(Number(value)); break;
+    case GGUFValueType.INT8: writer.i8(Number(value)); break;
+    case GGUFValueType.UINT16: writer.u16(Number(value)); break;
+    case GGUFValueType.INT16: writer.i16(Number(value)); break;
+    case GGUFValueType.UINT32: writer.u32(Number(value)); break;
+    case GGUFValueType.INT32: writer.i32(Number(value)); break;
+    case GGUFValueType.FLOAT32: writer.f32(Number(value)); break;
+    case GGUFValueType.BOOL: writer.u8(value ? 1 : 0); break;
+    case GGUFValueType.STRING: writer.string(String(value)); break;
+    case GGUFValueType.UINT64: writer.u64(value as number | bigint); break;
+    case GGUFValueType.INT64: writer.i64(value as number | bigint); break;
+    case GGUFValueType.FLOAT64: writer.f64(Number(value)); break;
+    default:
+      throw new Error(`Unsupported GGUF metadata type ${type}`);
+  }
+}
+
+function readValue(reader: ByteReader, type: number): GGUFValue {
+  switch (type) {
+    case GGUFValueType.UINT8: return reader.u8();
+    case GGUFValueType.INT8: return reader.i8();
+    case GGUFValueType.UINT16: return reader.u16();
+    case GGUFValueType.INT16: return reader.i16();
+    case GGUFValueType.UINT32: return reader.u32();
+    case GGUFValueType.INT32: return reader.i32();
+    case GGUFValueType.FLOAT32: return reader.f32();
+    case GGUFValueType.BOOL: return reader.u8() !== 0;
+    case GGUFValueType.STRING: return reader.string();
+    case GGUFValueType.UINT64: return toSafeNumber(reader.u64());
+    case GGUFValueType.INT64: return toSafeNumber(reader.i64());
+    case GGUFValueType.FLOAT64: return reader.f64();
+    case GGUFValueType.ARRAY: {
+      const itemType = reader.u32();
+      const length = reader.count();
+      const items: GGUFValue[] = [];
+      for (let i = 0; i < length; i++) {
+        items.push(readValue(reader, itemType));
+      }
+      return items;
+    }
+    default:
+      throw new Error(`Unsupported GGUF metadata type ${type}`);
+  }
+}
+
+function toSafeNumber(value: bigint): number | bigint {
+  const asNumber = Number(value);
+  return Number.isSafeInteger(asNumber) ? asNumber : value;
+}
+
+/**
+ * Growable little-endian byte writer
+ */
+class ByteWriter {
+  private chunks: Buffer[] = [];
+  length = 0;
+
+  raw(bytes: Uint8Array): void {
+    this.chunks.push(Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength));
+    this.length += bytes.byteLength;
+  }
+
+  u8(value: number): void { this.fixed(1, b => b.writeUInt8(value)); }
+  i8(value: number): void { this.fixed(1, b => b.writeInt8(value)); }
+  u16(value: number): void { this.fixed(2, b => b.writeUInt16LE(value)); }
+  i16(value: number): void { this.fixed(2, b => b.writeInt16LE(value)); }
+  u32(value: number): void { this.fixed(4, b => b.writeUInt32LE(value)); }
+  i32(value: number): void { this.fixed(4, b => b.writeInt32LE(value)); }
+  f32(value: number): void { this.fixed(4, b => b.writeFloatLE(value)); }
+  f64(value: number): void { this.fixed(8, b => b.writeDoubleLE(value)); }
+  u64(value: number | bigint): void { this.fixed(8, b => b.writeBigUInt64LE(BigInt(value))); }
+  i64(value: number | bigint): void { this.fixed(8, b => b.writeBigInt64LE(BigInt(value))); }
+
+  string(value: string): void {
+    const bytes = Buffer.from(value, 'utf8');
+    this.u64(bytes.length);
+    this.raw(bytes);
+  }
+
+  /**
+   * Zero-pads so the position (relative to `from`) is a multiple of alignment
+   */
+  pad(alignment: number, from: number = 0): void {
+    const padding = alignTo(this.length - from, alignment) - (this.length - from);
+    if (padding > 0) {
+      this.raw(Buffer.alloc(padding));
+    }
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.concat(this.chunks, this.length);
+  }
+
+  private fixed(bytes: number, write: (buffer: Buffer) => void): void {
+    const buffer = Buffer.alloc(bytes);
+    write(buffer);
+    this.raw(buffer);
+  }
+}
+
+/**
+ * Bounds-checked little-endian byte reader
+ */
+class ByteReader {
+  private view: DataView;
+  private bytes: Uint8Array;
+  position = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  u8(): number { return this.view.getUint8(this.advance(1)); }
+  i8(): number { return this.view.getInt8(this.advance(1)); }
+  u16(): number { return this.view.getUint16(this.advance(2), true); }
+  i16(): number { return this.view.getInt16(this.advance(2), true); }
+  u32(): number { return this.view.getUint32(this.advance(4), true); }
+  i32(): number { return this.view.getInt32(this.advance(4), true); }
+  f32(): number { return this.view.getFloat32(this.advance(4), true); }
+  f64(): number { return this.view.getFloat64(this.advance(8), true); }
+  u64(): bigint { return this.view.getBigUint64(this.advance(8), true); }
+  i64(): bigint { return this.view.getBigInt64(this.advance(8), true); }
+
+  /**
+   * Reads a u64 count or size, which must fit in a safe integer
+   */
+  count(): number {
+    const value = this.u64();
+    if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new Error(`GGUF value ${value} exceeds the supported range`);
+    }
+    return Number(value);
+  }
+
+  ascii(length: number): string {
+    const start = this.advance(length);
+    return Buffer.from(this.bytes.buffer, this.bytes.byteOffset + start, length).toString('ascii');
+  }
+
+  string(): string {
+    const length = this.count();
+    const start = this.advance(length);
+    return Buffer.from(this.bytes.buffer, this.bytes.byteOffset + start, length).toString('utf8');
+  }
+
+  private advance(bytes: number): number {
+    const start = this.position;
+    if (start + bytes > this.bytes.byteLength) {
+      throw new Error('Truncated GGUF file');
+    }
+    this.position += bytes;
+    return start;
+  }
+}
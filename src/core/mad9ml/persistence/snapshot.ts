@@ -0,0 +1,161 @@
+/**
+ * System Snapshots - Versioned binary checkpoints of the mad9ml cognitive state
+ *
+ * A snapshot is encoded as a JSON header followed by the raw Float32 data of
+ * every tensor, so tensors cost 4 bytes per element instead of a JSON number
+ * array. Layout:
+ *
+ *   "MAD9" | u32 format version | u32 header length | header JSON | pad to 4 | f32 data
+ *
+ * Integers are little-endian; tensor data is stored in host byte order, which
+ * is little-endian on every platform Node supports.
+ */
+
+import { Mad9mlConfig, MemoryTensor, TaskTensor, PersonaTensor, MetaCognitiveTensor } from '../types.js';
+import type { PersonaEvolutionState } from '../persona/evolution.js';
+import type { MetaCognitiveHistory } from '../meta-cognitive/reflection-engine.js';
+import type { ModificationJournalState } from '../meta-cognitive/modification-journal.js';
+import type { HypergraphState } from '../hypergraph/cognitive-hypergraph.js';
+import type { AttentionAllocatorState } from '../attention/ecan-allocator.js';
+
+/**
+ * Current snapshot format version
+ */
+export const SNAPSHOT_FORMAT_VERSION = 4;
+
+const SNAPSHOT_MAGIC = 'MAD9';
+const PREAMBLE_BYTES = 12;
+
+/**
+ * Complete, restorable state of a Mad9mlSystem
+ */
+export interface Mad9mlSnapshot {
+  /** Snapshot format version */
+  version: number;
+  /** When the snapshot was taken (epoch ms) */
+  createdAt: number;
+  config: Mad9mlConfig;
+  cycleCount: number;
+  cognitiveState: {
+    memory: MemoryTensor;
+    task: TaskTensor;
+    persona: PersonaTensor;
+    metaCognitive: MetaCognitiveTensor;
+    timestamp: number;
+  };
+  /** Hypergraph in CognitiveHypergraphImpl.toJSON() form */
+  hypergraph: HypergraphState;
+  /** Attention state in ECANAttentionAllocator.exportState() form, or null */
+  attentionState: AttentionAllocatorState | null;
+  personaEvolution: PersonaEvolutionState;
+  metaCognitive: MetaCognitiveHistory;
+  /** Self-modification journal, including modifications still awaiting evaluation */
+  modificationJournal?: ModificationJournalState;
+  /** Random generator state, so a resumed run continues the same sequence */
+  randomState?: number[];
+}
+
+/**
+ * Encodes a snapshot into its binary form
+ */
+export function encodeSnapshot(snapshot: Mad9mlSnapshot): Buffer {
+  const blobs: Float32Array[] = [];
+  let floatOffset = 0;
+
+  const header = JSON.stringify(snapshot, (_key, value) => {
+    if (value instanceof Float32Array) {
+      blobs.push(value);
+      const ref = { $f32: [floatOffset, value.length] };
+      floatOffset += value.length;
+      return ref;
+    }
+    return value;
+  });
+
+  const headerBytes = Buffer.from(header, 'utf8');
+  const dataStart = align4(PREAMBLE_BYTES + headerBytes.length);
+  const buffer = Buffer.alloc(dataStart + floatOffset * 4);
+
+  buffer.write(SNAPSHOT_MAGIC, 0, 'ascii');
+  buffer.writeUInt32LE(snapshot.version, 4);
+  buffer.writeUInt32LE(headerBytes.length, 8);
+  headerBytes.copy(buffer, PREAMBLE_BYTES);
+
+  let position = dataStart;
+  for (const blob of blobs) {
+    const bytes = new Uint8Array(blob.buffer, blob.byteOffset, blob.byteLength);
+    buffer.set(bytes, position);
+    position += blob.byteLength;
+  }
+
+  return buffer;
+}
+
+/**
+ * Decodes a binary snapshot, rejecting foreign data and unsupported versions
+ */
+export function decodeSnapshot(data: Uint8Array): Mad9mlSnapshot {
+  const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+
+  if (buffer.length < PREAMBLE_BYTES || buffer.toString('ascii', 0, 4) !== SNAPSHOT_MAGIC) {
+    throw new Error('Not a mad9ml snapshot');
+  }
+
+  const version = buffer.readUInt32LE(4);
+  if (version > SNAPSHOT_FORMAT_VERSION) {
+    throw new Error(`Unsupported snapshot version ${version} (latest supported is ${SNAPSHOT_FORMAT_VERSION})`);
+  }
+
+  const headerLength = buffer.readUInt32LE(8);
+  const dataStart = align4(PREAMBLE_BYTES + headerLength);
+  if (dataStart > buffer.length) {
+    throw new Error('Truncated mad9ml snapshot header');
+  }
+
+  const floatCount = (buffer.length - dataStart) / 4;
+  // Copy into an aligned buffer; the input may start at any byte offset
+  const floats = new Float32Array(floatCount);
+  new Uint8Array(floats.buffer).set(buffer.subarray(dataStart, dataStart + floatCount * 4));
+
+  const header = buffer.toString('utf8', PREAMBLE_BYTES, PREAMBLE_BYTES + headerLength);
+  return JSON.parse(header, (_key, value) => {
+    if (value && typeof value === 'object' && Array.isArray(value.$f32)) {
+      const [offset, length] = value.$f32;
+      if (offset + length > floatCount) {
+        throw new Error('Truncated mad9ml snapshot tensor data');
+      }
+      return floats.slice(offset, offset + length);
+    }
+    return value;
+  });
+}
+
+/**
+ * Replaces number-array tensor data ({ shape, data }) with Float32Arrays
+ * throughout a structure so it is stored in binary form
+ */
+export function packTensorData<T>(value: T): T {
+  return packValue(value) as T;
+}
+
+function packValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(packValue);
+  }
+  if (!value || typeof value !== 'object' || ArrayBuffer.isView(value)) {
+    return value;
+  }
+
+  const isTensor = Array.isArray((value as { shape?: unknown }).shape);
+  const packed: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    packed[key] = isTensor && key === 'data' && Array.isArray(entry)
+      ? new Float32Array(entry)
+      : packValue(entry);
+  }
+  return packed;
+}
+
+function align4(bytes: number): number {
+  return (bytes + 3) & ~3;
+}
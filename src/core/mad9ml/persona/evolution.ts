@@ -16,6 +16,17 @@ import {
   cloneTensor,
   norm
 } from '../tensor/operations.js';
+import { SeededRandom, defaultRandom } from '../random/seeded-random.js';
+import { GradientTape, Variable, Optimizer, SGDOptimizer, minimize } from '../tensor/autodiff.js';
+
+/**
+ * Persistable evolution engine state
+ */
+export interface PersonaEvolutionState {
+  generation: number;
+  fitnessHistory: number[];
+  params: EvolutionParams;
+}
 
 /**
  * Core persona evolution engine
@@ -24,9 +35,11 @@ export class PersonaEvolution {
   private params: EvolutionParams;
   private generation: number = 0;
   private fitnessHistory: number[] = [];
+  private random: SeededRandom;
 
-  constructor(params: EvolutionParams) {
+  constructor(params: EvolutionParams, random: SeededRandom = defaultRandom) {
     this.params = params;
+    this.random = random;
   }
 
   /**
@@ -38,9 +51,9 @@ export class PersonaEvolution {
     mutationDim: number
   ): PersonaTensor {
     return {
-      traits: randomTensor([traitsDim], 0.5),           // Moderate random traits
-      parameters: randomTensor([paramsDim], 0.3),       // Conservative params
-      mutationCoeffs: randomTensor([mutationDim], 0.1)  // Low initial mutation
+      traits: randomTensor([traitsDim], 0.5, this.random),           // Moderate random traits
+      parameters: randomTensor([paramsDim], 0.3, this.random),       // Conservative params
+      mutationCoeffs: randomTensor([mutationDim], 0.1, this.random)  // Low initial mutation
     };
   }
 
@@ -74,6 +87,37 @@ export class PersonaEvolution {
     return evolved;
   }
 
+  /**
+   * Trains persona traits and parameters by gradient descent on a loss built
+   * with the tape, as a directed alternative to mutation. Returns the trained
+   * persona (constraints applied) and the loss before each step.
+   */
+  trainPersona(
+    persona: PersonaTensor,
+    loss: (tape: GradientTape, traits: Variable, parameters: Variable) => Variable,
+    optimizer: Optimizer = new SGDOptimizer(this.params.adaptationSpeed),
+    steps: number = 1
+  ): { persona: PersonaTensor; lossHistory: number[] } {
+    const traits = cloneTensor(persona.traits);
+    const parameters = cloneTensor(persona.parameters);
+
+    const lossHistory = minimize(
+      [traits, parameters],
+      (tape, [traitsVar, parametersVar]) => loss(tape, traitsVar, parametersVar),
+      optimizer,
+      steps
+    );
+
+    return {
+      persona: {
+        traits: this.applyConstraints(traits),
+        parameters: this.applyConstraints(parameters),
+        mutationCoeffs: cloneTensor(persona.mutationCoeffs)
+      },
+      lossHistory
+    };
+  }
+
   /**
    * Calculates adaptive mutation rate based on fitness history
    */
@@ -103,12 +147,12 @@ export class PersonaEvolution {
    * Mutates personality traits using Gaussian noise
    */
   private mutateTraits(traits: Tensor, mutationRate: number): Tensor {
-    const mutationNoise = randomTensor(traits.shape, mutationRate);
+    const mutationNoise = randomTensor(traits.shape, mutationRate, this.random);
     const mutated = addTensors(traits, mutationNoise);
     
     // Apply personality drift - gradual changes in core traits
     const driftFactor = this.params.driftFactor * 0.001; // Very small drift
-    const drift = randomTensor(traits.shape, driftFactor);
+    const drift = randomTensor(traits.shape, driftFactor, this.random);
     
     return addTensors(mutated, drift);
   }
@@ -131,7 +175,7 @@ export class PersonaEvolution {
           break;
           
         case 1: // Uniform mutation
-          const uniform = (Math.random() - 0.5) * 2 * mutationRate;
+          const uniform = (this.random.next() - 0.5) * 2 * mutationRate;
           mutated[i] = data[i] + uniform;
           break;
           
@@ -196,17 +240,14 @@ export class PersonaEvolution {
    * Generates Gaussian noise using Box-Muller transform
    */
   private generateGaussianNoise(): number {
-    const u1 = Math.random();
-    const u2 = Math.random();
-    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+    return this.random.nextGaussian();
   }
 
   /**
    * Generates Cauchy noise for heavy-tailed mutations
    */
   private generateCauchyNoise(): number {
-    const u = Math.random();
-    return Math.tan(Math.PI * (u - 0.5));
+    return this.random.nextCauchy();
   }
 
   /**
@@ -241,7 +282,7 @@ export class PersonaEvolution {
       const lower = min - alpha * range;
       const upper = max + alpha * range;
       
-      result[i] = lower + Math.random() * (upper - lower);
+      result[i] = this.random.nextRange(lower, upper);
     }
     
     return makeTensor(tensorA.shape, result);
@@ -371,4 +412,24 @@ export class PersonaEvolution {
       fitnessHistory: [...this.fitnessHistory]
     };
   }
+
+  /**
+   * Exports evolution state for persistence
+   */
+  exportState(): PersonaEvolutionState {
+    return {
+      generation: this.generation,
+      fitnessHistory: [...this.fitnessHistory],
+      params: { ...this.params }
+    };
+  }
+
+  /**
+   * Imports evolution state, updating the shared parameter object in place
+   */
+  importState(data: PersonaEvolutionState): void {
+    this.generation = data.generation;
+    this.fitnessHistory = [...data.fitnessHistory];
+    Object.assign(this.params, data.params);
+  }
 }
\ No newline at end of file
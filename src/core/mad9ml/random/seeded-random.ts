@@ -0,0 +1,139 @@
+/**
+ * Seeded Random - Deterministic pseudo-random number generation for mad9ml
+ *
+ * xoshiro128** generator seeded through splitmix32. Every stochastic component
+ * (tensor initialization, persona mutation, grammar evolution, fitness
+ * simulation) draws from an instance of this class, so an experiment started
+ * from the same seed replays bit-for-bit. The generator state can be captured
+ * and restored to resume a checkpointed run on the same sequence.
+ */
+
+/**
+ * Seedable pseudo-random number generator
+ */
+export class SeededRandom {
+  private readonly seed: number;
+  private state: Uint32Array;
+
+  /**
+   * @param seed 32-bit unsigned seed; a random seed is drawn when omitted
+   */
+  constructor(seed?: number) {
+    this.seed = seed === undefined
+      ? Math.floor(Math.random() * 0x100000000)
+      : Math.trunc(seed) >>> 0;
+    this.state = expandSeed(this.seed);
+  }
+
+  /**
+   * Gets the seed this generator was created with
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Uniform float in [0, 1)
+   */
+  next(): number {
+    const s = this.state;
+    const result = Math.imul(rotl(Math.imul(s[1], 5), 7), 9) >>> 0;
+    const t = s[1] << 9;
+
+    s[2] ^= s[0];
+    s[3] ^= s[1];
+    s[1] ^= s[2];
+    s[0] ^= s[3];
+    s[2] ^= t;
+    s[3] = rotl(s[3], 11);
+
+    return result / 0x100000000;
+  }
+
+  /**
+   * Uniform integer in [0, maxExclusive)
+   */
+  nextInt(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  /**
+   * Uniform float in [min, max)
+   */
+  nextRange(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Standard normal sample (Box-Muller transform)
+   */
+  nextGaussian(): number {
+    const u1 = 1 - this.next(); // (0, 1] keeps the logarithm finite
+    const u2 = this.next();
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  }
+
+  /**
+   * Standard Cauchy sample for heavy-tailed noise
+   */
+  nextCauchy(): number {
+    return Math.tan(Math.PI * (this.next() - 0.5));
+  }
+
+  /**
+   * Uniformly chosen element of a non-empty array
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[this.nextInt(items.length)];
+  }
+
+  /**
+   * Creates an independent generator seeded from this one's sequence
+   */
+  fork(): SeededRandom {
+    return new SeededRandom(Math.floor(this.next() * 0x100000000));
+  }
+
+  /**
+   * Captures the generator state for checkpointing
+   */
+  getState(): number[] {
+    return Array.from(this.state);
+  }
+
+  /**
+   * Restores a state captured with getState()
+   */
+  setState(state: number[]): void {
+    if (state.length !== 4 || state.every(word => word === 0)) {
+      throw new Error('Invalid random generator state');
+    }
+    this.state = Uint32Array.from(state);
+  }
+}
+
+/**
+ * Shared unseeded generator used when no generator is supplied
+ */
+export const defaultRandom = new SeededRandom();
+
+function rotl(value: number, shift: number): number {
+  return (value << shift) | (value >>> (32 - shift));
+}
+
+/**
+ * Expands a 32-bit seed into the 128-bit generator state with splitmix32
+ */
+function expandSeed(seed: number): Uint32Array {
+  const state = new Uint32Array(4);
+  let x = seed;
+
+  for (let i = 0; i < 4; i++) {
+    x = (x + 0x9e3779b9) | 0;
+    let z = x;
+    z = Math.imul(z ^ (z >>> 16), 0x21f0aaad);
+    z = Math.imul(z ^ (z >>> 15), 0x735a2d97);
+    state[i] = z ^ (z >>> 15);
+  }
+  return state;
+}
@@ -0,0 +1,423 @@
+/**
+ * Autodiff - Reverse-mode automatic differentiation over mad9ml tensors
+ *
+ * A GradientTape records each operation performed through it. backward()
+ * replays the tape in reverse and accumulates a gradient for every variable
+ * the output depends on. Binary operations broadcast like their tensor
+ * counterparts, and their gradients are summed back to the operand shapes.
+ * Optimizers apply the gradients in place to trainable tensors such as
+ * persona traits or attention weights.
+ */
+
+import { Tensor, TensorShape } from '../types.js';
+import {
+  makeTensor,
+  onesTensor,
+  addTensors,
+  subtractTensors,
+  multiplyTensors,
+  divideTensors,
+  scaleTensor,
+  mapTensor,
+  batchMatmul,
+  transpose,
+  permute,
+  reshape,
+  broadcastTo,
+  sumToShape,
+  reduceSum,
+  reduceMean,
+  reduceMax
+} from './operations.js';
+
+/**
+ * Tensor recorded on a gradient tape
+ */
+export interface Variable {
+  readonly id: number;
+  readonly value: Tensor;
+  /** Whether gradients flow back to this variable */
+  readonly requiresGrad: boolean;
+}
+
+/**
+ * Recorded operation: maps the output gradient to one gradient per input
+ */
+interface TapeEntry {
+  output: Variable;
+  inputs: Variable[];
+  backward: (gradient: Tensor) => Tensor[];
+}
+
+/**
+ * Records tensor operations for reverse-mode differentiation
+ */
+export class GradientTape {
+  private entries: TapeEntry[] = [];
+  private gradients: Map<number, Tensor> = new Map();
+  private nextId = 1;
+
+  /**
+   * Watches a tensor as a trainable variable
+   */
+  variable(value: Tensor): Variable {
+    return this.createVariable(value, true);
+  }
+
+  /**
+   * Wraps a tensor that receives no gradient
+   */
+  constant(value: Tensor): Variable {
+    return this.createVariable(value, false);
+  }
+
+  add(a: Variable, b: Variable): Variable {
+    return this.record(addTensors(a.value, b.value), [a, b], gradient => [
+      sumToShape(gradient, a.value.shape),
+      sumToShape(gradient, b.value.shape)
+    ]);
+  }
+
+  sub(a: Variable, b: Variable): Variable {
+    return this.record(subtractTensors(a.value, b.value), [a, b], gradient => [
+      sumToShape(gradient, a.value.shape),
+      sumToShape(scaleTensor(gradient, -1), b.value.shape)
+    ]);
+  }
+
+  mul(a: Variable, b: Variable): Variable {
+    return this.record(multiplyTensors(a.value, b.value), [a, b], gradient => [
+      sumToShape(multiplyTensors(gradient, b.value), a.value.shape),
+      sumToShape(multiplyTensors(gradient, a.value), b.value.shape)
+    ]);
+  }
+
+  div(a: Variable, b: Variable): Variable {
+    const output = divideTensors(a.value, b.value);
+    return this.record(output, [a, b], gradient => [
+      sumToShape(divideTensors(gradient, b.value), a.value.shape),
+      sumToShape(scaleTensor(multiplyTensors(gradient, divideTensors(output, b.value)), -1), b.value.shape)
+    ]);
+  }
+
+  /**
+   * Multiplies by a constant scalar
+   */
+  scale(a: Variable, scalar: number): Variable {
+    return this.record(scaleTensor(a.value, scalar), [a], gradient => [scaleTensor(gradient, scalar)]);
+  }
+
+  /**
+   * Matrix product of rank >= 2 tensors with broadcast batch dimensions
+   */
+  matmul(a: Variable, b: Variable): Variable {
+    return this.record(batchMatmul(a.value, b.value), [a, b], gradient => [
+      sumToShape(batchMatmul(gradient, transpose(b.value)), a.value.shape),
+      sumToShape(batchMatmul(transpose(a.value), gradient), b.value.shape)
+    ]);
+  }
+
+  sum(a: Variable, axis?: number, keepDims: boolean = false): Variable {
+    const output = reduceSum(a.value, axis, keepDims);
+    return this.record(output, [a], gradient => [expandReduced(gradient, a.value.shape, axis)]);
+  }
+
+  mean(a: Variable, axis?: number, keepDims: boolean = false): Variable {
+    const count = axis === undefined ? a.value.size : a.value.shape[axis < 0 ? axis + a.value.shape.length : axis];
+    const output = reduceMean(a.value, axis, keepDims);
+    return this.record(output, [a], gradient => [
+      scaleTensor(expandReduced(gradient, a.value.shape, axis), 1 / count)
+    ]);
+  }
+
+  /**
+   * Maximum over an axis; tied maxima each receive the full gradient
+   */
+  max(a: Variable, axis?: number, keepDims: boolean = false): Variable {
+    const output = reduceMax(a.value, axis, keepDims);
+    return this.record(output, [a], gradient => {
+      const maxima = expandReduced(output, a.value.shape, axis);
+      const mask = mapTensor(a.value, (value, i) => (value === maxima.data[i] ? 1 : 0));
+      return [multiplyTensors(expandReduced(gradient, a.value.shape, axis), mask)];
+    });
+  }
+
+  tanh(a: Variable): Variable {
+    const output = mapTensor(a.value, Math.tanh);
+    return this.record(output, [a], gradient => [
+      multiplyTensors(gradient, mapTensor(output, y => 1 - y * y))
+    ]);
+  }
+
+  relu(a: Variable): Variable {
+    return this.record(mapTensor(a.value, x => Math.max(0, x)), [a], gradient => [
+      multiplyTensors(gradient, mapTensor(a.value, x => (x > 0 ? 1 : 0)))
+    ]);
+  }
+
+  sigmoid(a: Variable): Variable {
+    const output = mapTensor(a.value, x => 1 / (1 + Math.exp(-x)));
+    return this.record(output, [a], gradient => [
+      multiplyTensors(gradient, mapTensor(output, y => y * (1 - y)))
+    ]);
+  }
+
+  exp(a: Variable): Variable {
+    const output = mapTensor(a.value, Math.exp);
+    return this.record(output, [a], gradient => [multiplyTensors(gradient, output)]);
+  }
+
+  log(a: Variable): Variable {
+    return this.record(mapTensor(a.value, Math.log), [a], gradient => [divideTensors(gradient, a.value)]);
+  }
+
+  square(a: Variable): Variable {
+    return this.record(mapTensor(a.value, x => x * x), [a], gradient => [
+      multiplyTensors(gradient, scaleTensor(a.value, 2))
+    ]);
+  }
+
+  /**
+   * Softmax along an axis (the last by default)
+   */
+  softmax(a: Variable, axis: number = -1): Variable {
+    const shifted = subtractTensors(a.value, reduceMax(a.value, axis, true));
+    const exponentials = mapTensor(shifted, Math.exp);
+    const output = divideTensors(exponentials, reduceSum(exponentials, axis, true));
+
+    return this.record(output, [a], gradient => {
+      const weighted = reduceSum(multiplyTensors(gradient, output), axis, true);
+      return [multiplyTensors(output, subtractTensors(gradient, weighted))];
+    });
+  }
+
+  reshape(a: Variable, shape: TensorShape): Variable {
+    return this.record(reshape(a.value, shape), [a], gradient => [reshape(gradient, a.value.shape)]);
+  }
+
+  transpose(a: Variable): Variable {
+    return this.record(transpose(a.value), [a], gradient => [transpose(gradient)]);
+  }
+
+  permute(a: Variable, axes: number[]): Variable {
+    const rank = a.value.shape.length;
+    const inverse = new Array(rank);
+    axes.forEach((axis, i) => {
+      inverse[axis < 0 ? axis + rank : axis] = i;
+    });
+    return this.record(permute(a.value, axes), [a], gradient => [permute(gradient, inverse)]);
+  }
+
+  /**
+   * Mean squared error between a prediction and a target
+   */
+  mse(prediction: Variable, target: Variable): Variable {
+    return this.mean(this.square(this.sub(prediction, target)));
+  }
+
+  /**
+   * Back-propagates from an output, seeding it with ones (so a non-scalar
+   * output is differentiated as the sum of its elements). Gradients
+   * accumulate across calls until reset().
+   */
+  backward(output: Variable): void {
+    if (!output.requiresGrad) {
+      throw new Error('Output does not depend on any trainable variable');
+    }
+
+    const pending = new Map<number, Tensor>([[output.id, onesTensor(output.value.shape)]]);
+
+    for (let i = this.entries.length - 1; i >= 0; i--) {
+      const entry = this.entries[i];
+      const gradient = pending.get(entry.output.id);
+      if (!gradient) continue;
+      pending.delete(entry.output.id);
+
+      const inputGradients = entry.backward(gradient);
+      entry.inputs.forEach((input, index) => {
+        if (!input.requiresGrad) return;
+        const existing = pending.get(input.id);
+        pending.set(input.id, existing ? addTensors(existing, inputGradients[index]) : inputGradients[index]);
+      });
+    }
+
+    // Whatever remains has no producing entry: these are the watched leaves
+    for (const [id, gradient] of pending) {
+      const existing = this.gradients.get(id);
+      this.gradients.set(id, existing ? addTensors(existing, gradient) : gradient);
+    }
+  }
+
+  /**
+   * Gets the accumulated gradient of a variable (zeros if it received none)
+   */
+  gradient(variable: Variable): Tensor {
+    return this.gradients.get(variable.id) ?? makeTensor(variable.value.shape);
+  }
+
+  /**
+   * Clears recorded operations and accumulated gradients
+   */
+  reset(): void {
+    this.entries = [];
+    this.gradients.clear();
+  }
+
+  // Private methods
+
+  private createVariable(value: Tensor, requiresGrad: boolean): Variable {
+    return { id: this.nextId++, value, requiresGrad };
+  }
+
+  /**
+   * Records an operation if any input is trainable; otherwise returns a constant
+   */
+  private record(value: Tensor, inputs: Variable[], backward: (gradient: Tensor) => Tensor[]): Variable {
+    const requiresGrad = inputs.some(input => input.requiresGrad);
+    const output = this.createVariable(value, requiresGrad);
+    if (requiresGrad) {
+      this.entries.push({ output, inputs, backward });
+    }
+    return output;
+  }
+}
+
+/**
+ * Gradient-based parameter updater
+ */
+export interface Optimizer {
+  /**
+   * Updates each parameter tensor in place from its gradient
+   */
+  step(parameters: Tensor[], gradients: Tensor[]): void;
+}
+
+/**
+ * Stochastic gradient descent with optional momentum
+ */
+export class SGDOptimizer implements Optimizer {
+  private velocities: WeakMap<Tensor, Float32Array> = new WeakMap();
+  private learningRate: number;
+  private momentum: number;
+
+  constructor(learningRate: number = 0.01, momentum: number = 0) {
+    this.learningRate = learningRate;
+    this.momentum = momentum;
+  }
+
+  step(parameters: Tensor[], gradients: Tensor[]): void {
+    parameters.forEach((parameter, index) => {
+      const gradient = checkGradient(parameter, gradients[index]);
+      let velocity = this.velocities.get(parameter);
+      if (!velocity) {
+        velocity = new Float32Array(parameter.size);
+        this.velocities.set(parameter, velocity);
+      }
+
+      const data = parameter.data as Float32Array;
+      for (let i = 0; i < parameter.size; i++) {
+        velocity[i] = this.momentum * velocity[i] + gradient.data[i];
+        data[i] -= this.learningRate * velocity[i];
+      }
+      requantize(parameter);
+    });
+  }
+}
+
+/**
+ * Adam optimizer with bias-corrected moment estimates
+ */
+export class AdamOptimizer implements Optimizer {
+  private moments: WeakMap<Tensor, { m: Float32Array; v: Float32Array; t: number }> = new WeakMap();
+  private learningRate: number;
+  private beta1: number;
+  private beta2: number;
+  private epsilon: number;
+
+  constructor(learningRate: number = 0.001, beta1: number = 0.9, beta2: number = 0.999, epsilon: number = 1e-8) {
+    this.learningRate = learningRate;
+    this.beta1 = beta1;
+    this.beta2 = beta2;
+    this.epsilon = epsilon;
+  }
+
+  step(parameters: Tensor[], gradients: Tensor[]): void {
+    parameters.forEach((parameter, index) => {
+      const gradient = checkGradient(parameter, gradients[index]);
+      let state = this.moments.get(parameter);
+      if (!state) {
+        state = { m: new Float32Array(parameter.size), v: new Float32Array(parameter.size), t: 0 };
+        this.moments.set(parameter, state);
+      }
+      state.t++;
+
+      const correction1 = 1 - Math.pow(this.beta1, state.t);
+      const correction2 = 1 - Math.pow(this.beta2, state.t);
+      const data = parameter.data as Float32Array;
+
+      for (let i = 0; i < parameter.size; i++) {
+        const g = gradient.data[i];
+        state.m[i] = this.beta1 * state.m[i] + (1 - this.beta1) * g;
+        state.v[i] = this.beta2 * state.v[i] + (1 - this.beta2) * g * g;
+        const mHat = state.m[i] / correction1;
+        const vHat = state.v[i] / correction2;
+        data[i] -= this.learningRate * mHat / (Math.sqrt(vHat) + this.epsilon);
+      }
+      requantize(parameter);
+    });
+  }
+}
+
+/**
+ * Trains tensors in place by gradient descent on a scalar loss built with the
+ * tape; returns the loss before each step
+ */
+export function minimize(
+  parameters: Tensor[],
+  loss: (tape: GradientTape, variables: Variable[]) => Variable,
+  optimizer: Optimizer,
+  steps: number = 1
+): number[] {
+  const history: number[] = [];
+  const tape = new GradientTape();
+
+  for (let step = 0; step < steps; step++) {
+    tape.reset();
+    const variables = parameters.map(parameter => tape.variable(parameter));
+    const output = loss(tape, variables);
+    if (output.value.size !== 1) {
+      throw new Error(`Loss must be a scalar, got shape [${output.value.shape}]`);
+    }
+
+    history.push(output.value.data[0]);
+    tape.backward(output);
+    optimizer.step(parameters, variables.map(variable => tape.gradient(variable)));
+  }
+
+  return history;
+}
+
+/**
+ * Broadcasts a reduced gradient back over the reduced axis
+ */
+function expandReduced(gradient: Tensor, shape: TensorShape, axis?: number): Tensor {
+  const keptShape = axis === undefined
+    ? shape.map(() => 1)
+    : shape.map((dim, i) => (i === (axis < 0 ? axis + shape.length : axis) ? 1 : dim));
+  return broadcastTo(reshape(gradient, keptShape), shape);
+}
+
+function checkGradient(parameter: Tensor, gradient: Tensor | undefined): Tensor {
+  if (!gradient || gradient.size !== parameter.size) {
+    throw new Error(`Missing or mismatched gradient for parameter of shape [${parameter.shape}]`);
+  }
+  return gradient;
+}
+
+/**
+ * Keeps updated f16/i32 parameters representable in their element type
+ */
+function requantize(parameter: Tensor): void {
+  if (parameter.type === 'f32') return;
+  (parameter.data as Float32Array).set(makeTensor(parameter.shape, parameter.data, parameter.type).data);
+}
@@ -2,15 +2,18 @@
  * Tensor Operations - Core ggml-inspired tensor operations for cognitive encoding
  * 
  * Provides tensor creation, manipulation, and mathematical operations
- * for encoding cognitive states and their evolution.
+ * for encoding cognitive states and their evolution. Element-wise binary
+ * operations broadcast NumPy-style: shapes are aligned from the trailing
+ * dimension and size-1 dimensions stretch to match.
  */
 
-import { Tensor, TensorShape, TensorData } from '../types.js';
+import { Tensor, TensorShape, TensorData, TensorType } from '../types.js';
+import { SeededRandom, defaultRandom } from '../random/seeded-random.js';
 
 /**
  * Creates a new tensor with specified shape and initial data
  */
-export function makeTensor(shape: TensorShape, data?: TensorData, type: 'f32' | 'f16' | 'i32' = 'f32'): Tensor {
+export function makeTensor(shape: TensorShape, data?: TensorData, type: TensorType = 'f32'): Tensor {
   const size = shape.reduce((acc, dim) => acc * dim, 1);
   
   let tensorData: TensorData;
@@ -18,11 +21,16 @@ export function makeTensor(shape: TensorShape, data?: TensorData, type: 'f32' |
     if (data.length !== size) {
       throw new Error(`Data length ${data.length} doesn't match tensor size ${size}`);
     }
-    tensorData = data instanceof Float32Array ? data : new Float32Array(data);
+    // Non-f32 data is copied so quantization never touches the caller's array
+    tensorData = data instanceof Float32Array && type === 'f32' ? data : new Float32Array(data);
   } else {
     tensorData = new Float32Array(size).fill(0);
   }
 
+  if (type !== 'f32') {
+    quantize(tensorData as Float32Array, type);
+  }
+
   return {
     shape: [...shape],
     data: tensorData,
@@ -32,18 +40,18 @@ export function makeTensor(shape: TensorShape, data?: TensorData, type: 'f32' |
 }
 
 /**
- * Creates a tensor filled with random values
+ * Creates a tensor filled with Gaussian random values
  */
-export function randomTensor(shape: TensorShape, scale: number = 1.0): Tensor {
+export function randomTensor(
+  shape: TensorShape,
+  scale: number = 1.0,
+  random: SeededRandom = defaultRandom
+): Tensor {
   const size = shape.reduce((acc, dim) => acc * dim, 1);
   const data = new Float32Array(size);
   
   for (let i = 0; i < size; i++) {
-    // Box-Muller transform for Gaussian distribution
-    const u1 = Math.random();
-    const u2 = Math.random();
-    const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
-    data[i] = z * scale;
+    data[i] = random.nextGaussian() * scale;
   }
   
   return makeTensor(shape, data);
@@ -66,41 +74,47 @@ export function onesTensor(shape: TensorShape): Tensor {
 }
 
 /**
- * Element-wise addition of two tensors
+ * Element-wise addition of two tensors (broadcasting)
  */
 export function addTensors(a: Tensor, b: Tensor): Tensor {
-  if (!shapesEqual(a.shape, b.shape)) {
-    throw new Error(`Shape mismatch: ${a.shape} vs ${b.shape}`);
-  }
-  
-  const result = new Float32Array(a.size);
-  const aData = a.data as Float32Array;
-  const bData = b.data as Float32Array;
-  
-  for (let i = 0; i < a.size; i++) {
-    result[i] = aData[i] + bData[i];
-  }
-  
-  return makeTensor(a.shape, result);
+  return broadcastBinary(a, b, (x, y) => x + y, promoteTypes(a.type, b.type));
 }
 
 /**
- * Element-wise multiplication of two tensors
+ * Element-wise subtraction of two tensors (broadcasting)
+ */
+export function subtractTensors(a: Tensor, b: Tensor): Tensor {
+  return broadcastBinary(a, b, (x, y) => x - y, promoteTypes(a.type, b.type));
+}
+
+/**
+ * Element-wise multiplication of two tensors (broadcasting)
  */
 export function multiplyTensors(a: Tensor, b: Tensor): Tensor {
-  if (!shapesEqual(a.shape, b.shape)) {
-    throw new Error(`Shape mismatch: ${a.shape} vs ${b.shape}`);
-  }
-  
-  const result = new Float32Array(a.size);
-  const aData = a.data as Float32Array;
-  const bData = b.data as Float32Array;
-  
-  for (let i = 0; i < a.size; i++) {
-    result[i] = aData[i] * bData[i];
+  return broadcastBinary(a, b, (x, y) => x * y, promoteTypes(a.type, b.type));
+}
+
+/**
+ * Element-wise true division of two tensors (broadcasting); integer
+ * operands produce an f32 result
+ */
+export function divideTensors(a: Tensor, b: Tensor): Tensor {
+  const type = promoteTypes(a.type, b.type);
+  return broadcastBinary(a, b, (x, y) => x / y, type === 'i32' ? 'f32' : type);
+}
+
+/**
+ * Applies a function to every element of a tensor
+ */
+export function mapTensor(tensor: Tensor, fn: (value: number, index: number) => number): Tensor {
+  const data = tensor.data;
+  const result = new Float32Array(tensor.size);
+
+  for (let i = 0; i < tensor.size; i++) {
+    result[i] = fn(data[i], i);
   }
-  
-  return makeTensor(a.shape, result);
+
+  return makeTensor(tensor.shape, result);
 }
 
 /**
@@ -215,7 +229,7 @@ export function reshape(tensor: Tensor, newShape: TensorShape): Tensor {
     throw new Error(`Cannot reshape tensor of size ${tensor.size} to shape with size ${newSize}`);
   }
   
-  return makeTensor(newShape, tensor.data);
+  return makeTensor(newShape, tensor.data, tensor.type);
 }
 
 /**
@@ -314,4 +328,494 @@ function shapesEqual(a: TensorShape, b: TensorShape): boolean {
 export function cloneTensor(tensor: Tensor): Tensor {
   const data = new Float32Array(tensor.data as Float32Array);
   return makeTensor(tensor.shape, data, tensor.type);
-}
\ No newline at end of file
+}
+
+// Element types
+
+/**
+ * Result type of a binary operation: matching types are kept, mixed types widen to f32
+ */
+export function promoteTypes(a: TensorType, b: TensorType): TensorType {
+  return a === b ? a : 'f32';
+}
+
+/**
+ * Converts a tensor to another element type, rounding or truncating values
+ */
+export function castTensor(tensor: Tensor, type: TensorType): Tensor {
+  return makeTensor(tensor.shape, new Float32Array(tensor.data), type);
+}
+
+/**
+ * Encodes a number as IEEE 754 half-precision bits (round to nearest even)
+ */
+export function float32ToFloat16Bits(value: number): number {
+  float32View.setFloat32(0, value);
+  const bits = float32View.getUint32(0);
+  const sign = (bits >>> 16) & 0x8000;
+  const exponent = (bits >>> 23) & 0xff;
+  let mantissa = bits & 0x7fffff;
+
+  if (exponent === 0xff) {
+    return sign | 0x7c00 | (mantissa ? 0x200 : 0); // Infinity or NaN
+  }
+
+  const halfExponent = exponent - 127 + 15;
+  if (halfExponent >= 0x1f) {
+    return sign | 0x7c00; // Overflow to infinity
+  }
+
+  if (halfExponent <= 0) {
+    if (halfExponent < -10) {
+      return sign; // Underflow to signed zero
+    }
+    // Subnormal: shift the mantissa, including its implicit bit, into place
+    mantissa |= 0x800000;
+    const shift = 14 - halfExponent;
+    const remainder = mantissa & ((1 << shift) - 1);
+    const halfway = 1 << (shift - 1);
+    let half = mantissa >>> shift;
+    if (remainder > halfway || (remainder === halfway && (half & 1))) half++;
+    return sign | half;
+  }
+
+  // A rounding carry propagates into the exponent, up to infinity
+  let half = (halfExponent << 10) | (mantissa >>> 13);
+  const remainder = mantissa & 0x1fff;
+  if (remainder > 0x1000 || (remainder === 0x1000 && (half & 1))) half++;
+  return sign | half;
+}
+
+/**
+ * Decodes IEEE 754 half-precision bits
+ */
+export function float16BitsToFloat32(bits: number): number {
+  const sign = bits & 0x8000 ? -1 : 1;
+  const exponent = (bits >>> 10) & 0x1f;
+  const fraction = bits & 0x3ff;
+
+  if (exponent === 0) {
+    return sign * fraction * 2 ** -24;
+  }
+  if (exponent === 0x1f) {
+    return fraction ? NaN : sign * Infinity;
+  }
+  return sign * (1 + fraction / 1024) * 2 ** (exponent - 15);
+}
+
+/**
+ * Packs a tensor into half-precision bits for compact storage
+ */
+export function toFloat16Array(tensor: Tensor): Uint16Array {
+  const bits = new Uint16Array(tensor.size);
+  for (let i = 0; i < tensor.size; i++) {
+    bits[i] = float32ToFloat16Bits(tensor.data[i]);
+  }
+  return bits;
+}
+
+/**
+ * Creates an f16 tensor from half-precision bits
+ */
+export function fromFloat16Array(shape: TensorShape, bits: Uint16Array): Tensor {
+  const data = new Float32Array(bits.length);
+  for (let i = 0; i < bits.length; i++) {
+    data[i] = float16BitsToFloat32(bits[i]);
+  }
+  return makeTensor(shape, data, 'f16');
+}
+
+// Broadcasting
+
+/**
+ * Computes the shape two tensors broadcast to
+ */
+export function broadcastShapes(a: TensorShape, b: TensorShape): TensorShape {
+  const rank = Math.max(a.length, b.length);
+  const shape: number[] = new Array(rank);
+
+  for (let i = 1; i <= rank; i++) {
+    const aDim = i <= a.length ? a[a.length - i] : 1;
+    const bDim = i <= b.length ? b[b.length - i] : 1;
+    if (aDim !== bDim && aDim !== 1 && bDim !== 1) {
+      throw new Error(`Cannot broadcast shapes [${a}] and [${b}]`);
+    }
+    shape[rank - i] = aDim === 1 ? bDim : aDim;
+  }
+
+  return shape;
+}
+
+/**
+ * Expands a tensor to a larger shape it broadcasts to
+ */
+export function broadcastTo(tensor: Tensor, shape: TensorShape): Tensor {
+  if (!shapesEqual(broadcastShapes(tensor.shape, shape), shape)) {
+    throw new Error(`Cannot broadcast shape [${tensor.shape}] to [${shape}]`);
+  }
+  return broadcastBinary(tensor, makeTensor(shape), x => x, tensor.type);
+}
+
+/**
+ * Sums a broadcast result back down to one of its operand shapes
+ */
+export function sumToShape(tensor: Tensor, shape: TensorShape): Tensor {
+  let result = tensor;
+
+  while (result.shape.length > shape.length) {
+    result = reduceSum(result, 0);
+  }
+  for (let axis = 0; axis < shape.length; axis++) {
+    if (shape[axis] === 1 && result.shape[axis] !== 1) {
+      result = reduceSum(result, axis, true);
+    }
+  }
+
+  if (!shapesEqual(result.shape, shape)) {
+    throw new Error(`Cannot reduce shape [${tensor.shape}] to [${shape}]`);
+  }
+  return result;
+}
+
+// Reductions
+
+/**
+ * Sums over an axis, or over all elements when no axis is given
+ */
+export function reduceSum(tensor: Tensor, axis?: number, keepDims: boolean = false): Tensor {
+  return reduce(tensor, axis, keepDims, 0, (acc, value) => acc + value, tensor.type);
+}
+
+/**
+ * Averages over an axis, or over all elements when no axis is given
+ */
+export function reduceMean(tensor: Tensor, axis?: number, keepDims: boolean = false): Tensor {
+  const count = axis === undefined ? tensor.size : tensor.shape[normalizeAxis(axis, tensor.shape.length)];
+  const sum = reduce(tensor, axis, keepDims, 0, (acc, value) => acc + value, 'f32');
+  return makeTensor(sum.shape, (sum.data as Float32Array).map(value => value / count),
+    tensor.type === 'i32' ? 'f32' : tensor.type);
+}
+
+/**
+ * Takes the maximum over an axis, or over all elements when no axis is given
+ */
+export function reduceMax(tensor: Tensor, axis?: number, keepDims: boolean = false): Tensor {
+  return reduce(tensor, axis, keepDims, -Infinity, (acc, value) => Math.max(acc, value), tensor.type);
+}
+
+// Shape manipulation
+
+/**
+ * Reorders the axes of a tensor; axes[i] is the input axis that becomes axis i
+ */
+export function permute(tensor: Tensor, axes: number[]): Tensor {
+  const rank = tensor.shape.length;
+  const normalized = axes.map(axis => normalizeAxis(axis, rank));
+  if (normalized.length !== rank || new Set(normalized).size !== rank) {
+    throw new Error(`Invalid permutation [${axes}] for tensor of rank ${rank}`);
+  }
+
+  const inputStrides = computeStrides(tensor.shape);
+  const shape = normalized.map(axis => tensor.shape[axis]);
+  const strides = normalized.map(axis => inputStrides[axis]);
+
+  return makeTensor(shape, gather(tensor.data, shape, strides, 0), tensor.type);
+}
+
+/**
+ * Swaps the last two axes of a tensor (matrix transpose, batched for rank > 2)
+ */
+export function transpose(tensor: Tensor): Tensor {
+  const rank = tensor.shape.length;
+  if (rank < 2) {
+    throw new Error('Transpose requires a tensor of rank 2 or more');
+  }
+
+  const axes = tensor.shape.map((_, axis) => axis);
+  [axes[rank - 2], axes[rank - 1]] = [axes[rank - 1], axes[rank - 2]];
+  return permute(tensor, axes);
+}
+
+/**
+ * Extracts a block starting at `begin`; a size of -1 (or omitted) takes
+ * the rest of that axis
+ */
+export function slice(tensor: Tensor, begin: number[], size?: number[]): Tensor {
+  const rank = tensor.shape.length;
+  if (begin.length !== rank || (size && size.length !== rank)) {
+    throw new Error(`Slice bounds must have one entry per axis (rank ${rank})`);
+  }
+
+  const shape = begin.map((start, axis) => {
+    const length = !size || size[axis] === -1 ? tensor.shape[axis] - start : size[axis];
+    if (start < 0 || length < 0 || start + length > tensor.shape[axis]) {
+      throw new Error(`Slice [${begin}] of size [${size ?? []}] exceeds tensor shape [${tensor.shape}]`);
+    }
+    return length;
+  });
+
+  const strides = computeStrides(tensor.shape);
+  const offset = begin.reduce((acc, start, axis) => acc + start * strides[axis], 0);
+
+  return makeTensor(shape, gather(tensor.data, shape, strides, offset), tensor.type);
+}
+
+/**
+ * Joins tensors along an existing axis
+ */
+export function concat(tensors: Tensor[], axis: number = 0): Tensor {
+  if (tensors.length === 0) {
+    throw new Error('Cannot concatenate an empty list of tensors');
+  }
+
+  const first = tensors[0];
+  const rank = first.shape.length;
+  const ax = normalizeAxis(axis, rank);
+
+  for (const tensor of tensors) {
+    const compatible = tensor.shape.length === rank &&
+      tensor.shape.every((dim, i) => i === ax || dim === first.shape[i]);
+    if (!compatible) {
+      throw new Error(`Cannot concatenate shapes [${first.shape}] and [${tensor.shape}] along axis ${ax}`);
+    }
+  }
+
+  const shape = [...first.shape];
+  shape[ax] = tensors.reduce((acc, tensor) => acc + tensor.shape[ax], 0);
+  const outer = first.shape.slice(0, ax).reduce((acc, dim) => acc * dim, 1);
+  const inner = first.shape.slice(ax + 1).reduce((acc, dim) => acc * dim, 1);
+
+  const result = new Float32Array(shapeSize(shape));
+  let position = 0;
+  for (let o = 0; o < outer; o++) {
+    for (const tensor of tensors) {
+      const chunk = tensor.shape[ax] * inner;
+      for (let i = 0; i < chunk; i++) {
+        result[position++] = tensor.data[o * chunk + i];
+      }
+    }
+  }
+
+  const type = tensors.reduce<TensorType>((acc, tensor) => promoteTypes(acc, tensor.type), first.type);
+  return makeTensor(shape, result, type);
+}
+
+/**
+ * Batched matrix multiplication: [..., m, k] x [..., k, n] -> [..., m, n],
+ * with the leading batch dimensions broadcast
+ */
+export function batchMatmul(a: Tensor, b: Tensor): Tensor {
+  if (a.shape.length < 2 || b.shape.length < 2) {
+    throw new Error('Batched matrix multiplication requires tensors of rank 2 or more');
+  }
+
+  const [m, k] = a.shape.slice(-2);
+  const [bRows, n] = b.shape.slice(-2);
+  if (k !== bRows) {
+    throw new Error(`Cannot multiply matrices: ${a.shape} x ${b.shape}`);
+  }
+
+  const aBatch = a.shape.slice(0, -2);
+  const bBatch = b.shape.slice(0, -2);
+  const batchShape = broadcastShapes(aBatch, bBatch);
+  const aStrides = broadcastStrides(aBatch, batchShape);
+  const bStrides = broadcastStrides(bBatch, batchShape);
+  const batches = shapeSize(batchShape);
+
+  const aData = a.data;
+  const bData = b.data;
+  const result = new Float32Array(batches * m * n);
+
+  for (let batch = 0; batch < batches; batch++) {
+    // Locate this batch's matrices in each operand
+    let remaining = batch;
+    let aMatrix = 0;
+    let bMatrix = 0;
+    for (let d = batchShape.length - 1; d >= 0; d--) {
+      const index = remaining % batchShape[d];
+      remaining = Math.floor(remaining / batchShape[d]);
+      aMatrix += index * aStrides[d];
+      bMatrix += index * bStrides[d];
+    }
+
+    const aOffset = aMatrix * m * k;
+    const bOffset = bMatrix * k * n;
+    const outOffset = batch * m * n;
+    for (let i = 0; i < m; i++) {
+      for (let j = 0; j < n; j++) {
+        let sum = 0;
+        for (let p = 0; p < k; p++) {
+          sum += aData[aOffset + i * k + p] * bData[bOffset + p * n + j];
+        }
+        result[outOffset + i * n + j] = sum;
+      }
+    }
+  }
+
+  return makeTensor([...batchShape, m, n], result, promoteTypes(a.type, b.type));
+}
+
+// Internal helpers
+
+const float32View = new DataView(new ArrayBuffer(4));
+
+/**
+ * Rounds values in place to what the element type can represent
+ */
+function quantize(data: Float32Array, type: TensorType): void {
+  for (let i = 0; i < data.length; i++) {
+    data[i] = type === 'f16'
+      ? float16BitsToFloat32(float32ToFloat16Bits(data[i]))
+      : data[i] | 0;
+  }
+}
+
+function shapeSize(shape: TensorShape): number {
+  return shape.reduce((acc, dim) => acc * dim, 1);
+}
+
+/**
+ * Row-major strides of a shape
+ */
+function computeStrides(shape: TensorShape): number[] {
+  const strides = new Array(shape.length);
+  let stride = 1;
+  for (let i = shape.length - 1; i >= 0; i--) {
+    strides[i] = stride;
+    stride *= shape[i];
+  }
+  return strides;
+}
+
+/**
+ * Strides of a shape aligned to a broadcast target; stretched axes get stride 0
+ */
+function broadcastStrides(shape: TensorShape, target: TensorShape): number[] {
+  const strides = computeStrides(shape);
+  const offset = target.length - shape.length;
+  return target.map((_, axis) => {
+    const source = axis - offset;
+    return source < 0 || shape[source] === 1 ? 0 : strides[source];
+  });
+}
+
+function normalizeAxis(axis: number, rank: number): number {
+  const normalized = axis < 0 ? axis + rank : axis;
+  if (!Number.isInteger(normalized) || normalized < 0 || normalized >= rank) {
+    throw new Error(`Axis ${axis} out of range for tensor of rank ${rank}`);
+  }
+  return normalized;
+}
+
+/**
+ * Walks a strided view in row-major order, copying it into a dense array
+ */
+function gather(data: TensorData, shape: TensorShape, strides: number[], offset: number): Float32Array {
+  const size = shapeSize(shape);
+  const result = new Float32Array(size);
+  const index = new Array(shape.length).fill(0);
+  let source = offset;
+
+  for (let i = 0; i < size; i++) {
+    result[i] = data[source];
+    for (let d = shape.length - 1; d >= 0; d--) {
+      source += strides[d];
+      if (++index[d] < shape[d]) break;
+      source -= strides[d] * shape[d];
+      index[d] = 0;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Applies a binary function element-wise over the broadcast shape of a and b
+ */
+function broadcastBinary(
+  a: Tensor,
+  b: Tensor,
+  op: (x: number, y: number) => number,
+  type: TensorType
+): Tensor {
+  const aData = a.data;
+  const bData = b.data;
+
+  if (shapesEqual(a.shape, b.shape)) {
+    const result = new Float32Array(a.size);
+    for (let i = 0; i < a.size; i++) {
+      result[i] = op(aData[i], bData[i]);
+    }
+    return makeTensor(a.shape, result, type);
+  }
+
+  const shape = broadcastShapes(a.shape, b.shape);
+  const aStrides = broadcastStrides(a.shape, shape);
+  const bStrides = broadcastStrides(b.shape, shape);
+  const size = shapeSize(shape);
+  const result = new Float32Array(size);
+  const index = new Array(shape.length).fill(0);
+  let ai = 0;
+  let bi = 0;
+
+  for (let i = 0; i < size; i++) {
+    result[i] = op(aData[ai], bData[bi]);
+    for (let d = shape.length - 1; d >= 0; d--) {
+      ai += aStrides[d];
+      bi += bStrides[d];
+      if (++index[d] < shape[d]) break;
+      ai -= aStrides[d] * shape[d];
+      bi -= bStrides[d] * shape[d];
+      index[d] = 0;
+    }
+  }
+
+  return makeTensor(shape, result, type);
+}
+
+/**
+ * Folds values along one axis (or all of them) with an accumulator
+ */
+function reduce(
+  tensor: Tensor,
+  axis: number | undefined,
+  keepDims: boolean,
+  initial: number,
+  combine: (acc: number, value: number) => number,
+  type: TensorType
+): Tensor {
+  const data = tensor.data;
+
+  if (axis === undefined) {
+    let acc = initial;
+    for (let i = 0; i < tensor.size; i++) {
+      acc = combine(acc, data[i]);
+    }
+    const shape = keepDims ? tensor.shape.map(() => 1) : [];
+    return makeTensor(shape, new Float32Array([acc]), type);
+  }
+
+  const ax = normalizeAxis(axis, tensor.shape.length);
+  const dim = tensor.shape[ax];
+  const outer = shapeSize(tensor.shape.slice(0, ax));
+  const inner = shapeSize(tensor.shape.slice(ax + 1));
+  const result = new Float32Array(outer * inner);
+
+  for (let o = 0; o < outer; o++) {
+    for (let i = 0; i < inner; i++) {
+      let acc = initial;
+      for (let k = 0; k < dim; k++) {
+        acc = combine(acc, data[(o * dim + k) * inner + i]);
+      }
+      result[o * inner + i] = acc;
+    }
+  }
+
+  const shape = [...tensor.shape];
+  if (keepDims) {
+    shape[ax] = 1;
+  } else {
+    shape.splice(ax, 1);
+  }
+  return makeTensor(shape, result, type);
+}
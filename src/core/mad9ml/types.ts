@@ -8,16 +8,30 @@
 export type TensorShape = number[];
 export type TensorData = Float32Array | number[];
 
+/**
+ * Element types: f16 and i32 tensors are stored as Float32Array with values
+ * rounded to half precision or truncated to 32-bit integers
+ */
+export type TensorType = 'f32' | 'f16' | 'i32';
+
 /**
  * Core tensor interface for ggml-style operations
  */
 export interface Tensor {
   readonly shape: TensorShape;
   readonly data: TensorData;
-  readonly type: 'f32' | 'f16' | 'i32';
+  readonly type: TensorType;
   readonly size: number;
 }
 
+/**
+ * Persisted tensor contents: number arrays in JSON, Float32Arrays in binary snapshots
+ */
+export interface TensorState {
+  shape: TensorShape;
+  data: TensorData;
+}
+
 /**
  * Hypergraph node representing cognitive elements
  */
@@ -137,4 +151,5 @@ export interface Mad9mlConfig {
   attentionParams: AttentionParams;
   enableMetaCognition: boolean;
   debugMode: boolean;
+  seed?: number;  // PRNG seed for reproducible runs; random when omitted
 }
\ No newline at end of file
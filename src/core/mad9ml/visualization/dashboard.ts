@@ -28,6 +28,7 @@ import { TimeTravelEngine } from './time-travel-engine.js';
 import { ExportManager } from './export-manager.js';
 import { RealTimeUpdater } from './real-time-updater.js';
 import { MetaCognitiveDisplay } from './meta-cognitive-display.js';
+import { VisualizationUtils } from './utils.js';
 
 /**
  * Main Visualization Dashboard
@@ -82,7 +83,7 @@ export class VisualizationDashboard {
     // Create interactive controllers
     this.drillDownController = new DrillDownController();
     this.timeTravelEngine = new TimeTravelEngine();
-    this.exportManager = new ExportManager();
+    this.exportManager = new ExportManager(this.config);
     
     if (this.config.enableRealTime) {
       this.realTimeUpdater = new RealTimeUpdater(this.config.refreshRate);
@@ -591,41 +592,7 @@ export class VisualizationDashboard {
   // ========== Private Helper Methods ==========
 
   private mergeWithDefaults(config: Partial<VisualizationConfig>): VisualizationConfig {
-    return {
-      theme: 'dark',
-      colorScheme: {
-        memoryNode: '#4CAF50',
-        conceptNode: '#2196F3',
-        agentNode: '#FF9800',
-        kernelNode: '#9C27B0',
-        semanticEdge: '#81C784',
-        causalEdge: '#64B5F6',
-        temporalEdge: '#FFB74D',
-        hierarchicalEdge: '#BA68C8',
-        membrane: '#37474F',
-        membraneBoundary: '#546E7A',
-        activePort: '#4CAF50',
-        inactivePort: '#757575',
-        healthy: '#4CAF50',
-        warning: '#FF9800',
-        critical: '#F44336',
-        unknown: '#9E9E9E'
-      },
-      layout: {
-        algorithm: 'force-directed',
-        spacing: 100,
-        clustering: true,
-        layering: false
-      },
-      maxNodes: 1000,
-      maxEdges: 2000,
-      refreshRate: 60,
-      enableDrillDown: true,
-      enableTimeTravel: true,
-      enableExport: true,
-      enableRealTime: true,
-      ...config
-    };
+    return VisualizationUtils.createDefaultConfig(config);
   }
 
   private render(): void {
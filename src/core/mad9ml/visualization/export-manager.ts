@@ -2,14 +2,20 @@
  * Export Manager - Handles export functionality for visualizations
  * 
  * Provides capabilities to export visualizations in various formats
- * including images, data, and interactive formats.
+ * including images, data, and interactive formats. Scenes can also be
+ * exported without a browser, as vector graphics or graph formats.
  */
 
-import { ExportOptions, ExportResult } from './types.js';
+import { ExportOptions, ExportResult, VisualizationConfig, VisualizationScene } from './types.js';
+import { HeadlessRenderer } from './headless-renderer.js';
+import { sceneToDOT, sceneToGEXF, sceneToGraphML } from './graph-formats.js';
 
 export class ExportManager {
+  private headlessRenderer: HeadlessRenderer;
   
-  constructor() {}
+  constructor(config: Partial<VisualizationConfig> = {}) {
+    this.headlessRenderer = new HeadlessRenderer(config);
+  }
 
   /**
    * Export visualization from canvas
@@ -44,6 +50,55 @@ export class ExportManager {
     }
   }
 
+  /**
+   * Export visualization data directly, without a canvas
+   */
+  public async exportScene(scene: VisualizationScene, options: ExportOptions): Promise<ExportResult> {
+    try {
+      const counts = {
+        nodes: scene.nodes.length,
+        edges: scene.edges.length,
+        membranes: scene.membranes.length
+      };
+
+      switch (options.format) {
+        case 'svg':
+          return this.sceneResult(this.headlessRenderer.renderSVG(scene), 'image/svg+xml', 'svg', { ...counts, vectorized: true });
+        case 'pdf':
+          return this.sceneResult(this.headlessRenderer.renderPDF(scene), 'application/pdf', 'pdf', { ...counts, pages: 1 });
+        case 'json': {
+          const data = {
+            timestamp: new Date().toISOString(),
+            scene,
+            metadata: {
+              exportOptions: options,
+              generator: 'MAD9ML Visualization Dashboard',
+              version: '1.0.0'
+            }
+          };
+          return this.sceneResult(JSON.stringify(data, null, 2), 'application/json', 'json', counts);
+        }
+        case 'graphml':
+          return this.sceneResult(sceneToGraphML(scene), 'application/graphml+xml', 'graphml', counts);
+        case 'gexf':
+          return this.sceneResult(sceneToGEXF(scene), 'application/gexf+xml', 'gexf', counts);
+        case 'dot':
+          return this.sceneResult(sceneToDOT(scene), 'text/vnd.graphviz', 'dot', counts);
+        default:
+          throw new Error(`Unsupported scene export format: ${options.format}`);
+      }
+    } catch (error) {
+      return {
+        success: false,
+        data: '',
+        mimeType: 'text/plain',
+        filename: 'error.txt',
+        size: 0,
+        metadata: { error: (error as Error).message }
+      };
+    }
+  }
+
   /**
    * Export as PNG image
    */
@@ -201,6 +256,22 @@ export class ExportManager {
 
   // ========== Helper Methods ==========
 
+  /**
+   * Wrap rendered scene content in an export result
+   */
+  private sceneResult(content: string, mimeType: string, extension: string, metadata: Record<string, any>): ExportResult {
+    const blob = new Blob([content], { type: mimeType });
+    
+    return {
+      success: true,
+      data: content,
+      mimeType,
+      filename: this.generateFilename('visualization', extension),
+      size: blob.size,
+      metadata
+    };
+  }
+
   /**
    * Create high-resolution canvas
    */
@@ -561,6 +632,13 @@ startxref
     return ['png', 'svg', 'pdf', 'json', 'csv', 'html'];
   }
 
+  /**
+   * Get formats supported by scene export
+   */
+  public getSceneFormats(): string[] {
+    return ['svg', 'pdf', 'json', 'graphml', 'gexf', 'dot'];
+  }
+
   /**
    * Get format-specific options
    */
@@ -0,0 +1,320 @@
+/**
+ * Graph Formats - Serializes visualization scenes for graph tools
+ *
+ * Writes nodes, edges and membranes as GraphML, GEXF or Graphviz DOT.
+ * Membranes become nested graphs (GraphML), parent nodes (GEXF) or clusters
+ * (DOT) around their contents, so the membrane hierarchy survives the
+ * export. Edges whose endpoints are not in the scene are left out, as the
+ * renderers leave them out.
+ */
+
+import {
+  MembraneVisualization,
+  VisualizationEdge,
+  VisualizationNode,
+  VisualizationScene
+} from './types.js';
+import { VisualizationUtils } from './utils.js';
+
+interface GraphKey {
+  id: string;
+  type: 'string' | 'double';
+}
+
+const NODE_KEYS: GraphKey[] = [
+  { id: 'label', type: 'string' },
+  { id: 'kind', type: 'string' },
+  { id: 'type', type: 'string' },
+  { id: 'x', type: 'double' },
+  { id: 'y', type: 'double' },
+  { id: 'z', type: 'double' },
+  { id: 'size', type: 'double' },
+  { id: 'width', type: 'double' },
+  { id: 'height', type: 'double' },
+  { id: 'color', type: 'string' },
+  { id: 'activation', type: 'double' }
+];
+
+const EDGE_KEYS: GraphKey[] = [
+  { id: 'label', type: 'string' },
+  { id: 'type', type: 'string' },
+  { id: 'weight', type: 'double' },
+  { id: 'flow', type: 'double' },
+  { id: 'strength', type: 'double' },
+  { id: 'color', type: 'string' }
+];
+
+/**
+ * Serialize a scene as GraphML, with membranes as nodes holding nested graphs
+ */
+export function sceneToGraphML(scene: VisualizationScene): string {
+  const hierarchy = collectNodes(scene);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" ' +
+      'xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">'
+  ];
+  NODE_KEYS.forEach(key => lines.push(`  <key id="n_${key.id}" for="node" attr.name="${key.id}" attr.type="${key.type}"/>`));
+  EDGE_KEYS.forEach(key => lines.push(`  <key id="e_${key.id}" for="edge" attr.name="${key.id}" attr.type="${key.type}"/>`));
+  lines.push(`  <graph id="${attribute(scene.title ?? 'scene')}" edgedefault="directed">`);
+
+  const data = (prefix: string, values: Record<string, string | number | undefined>, indent: string): void => {
+    Object.entries(values)
+      .filter(([, value]) => value !== undefined && value !== '')
+      .forEach(([key, value]) => lines.push(`${indent}<data key="${prefix}_${key}">${VisualizationUtils.escapeXml(String(value))}</data>`));
+  };
+
+  const writeNode = (node: VisualizationNode, indent: string): void => {
+    lines.push(`${indent}<node id="${attribute(node.id)}">`);
+    data('n', {
+      label: node.label,
+      kind: 'node',
+      type: node.type,
+      x: node.position.x,
+      y: node.position.y,
+      z: node.position.z,
+      size: node.size,
+      color: node.color,
+      activation: node.activation
+    }, indent + '  ');
+    lines.push(`${indent}</node>`);
+  };
+
+  const writeMembrane = (membrane: MembraneVisualization, indent: string): void => {
+    lines.push(`${indent}<node id="${attribute(membrane.id)}">`);
+    data('n', {
+      label: membrane.type,
+      kind: 'membrane',
+      type: membrane.type,
+      x: membrane.position.x,
+      y: membrane.position.y,
+      z: membrane.position.z,
+      width: membrane.size.x,
+      height: membrane.size.y,
+      color: membrane.color,
+      activation: membrane.activity
+    }, indent + '  ');
+    lines.push(`${indent}  <graph id="${attribute(membrane.id)}:" edgedefault="directed">`);
+    membrane.contents
+      .filter(node => hierarchy.parents.get(node.id) === membrane.id && hierarchy.nodes.get(node.id) === node)
+      .forEach(node => writeNode(node, indent + '    '));
+    membrane.nestedMembranes.forEach(nested => writeMembrane(nested, indent + '    '));
+    lines.push(`${indent}  </graph>`, `${indent}</node>`);
+  };
+
+  hierarchy.nodes.forEach((node, id) => {
+    if (!hierarchy.parents.has(id)) writeNode(node, '    ');
+  });
+  scene.membranes.forEach(membrane => writeMembrane(membrane, '    '));
+
+  connectedEdges(scene.edges, hierarchy.nodes).forEach(edge => {
+    lines.push(`    <edge id="${attribute(edge.id)}" source="${attribute(edge.source)}" target="${attribute(edge.target)}">`);
+    data('e', {
+      label: edge.label,
+      type: edge.type,
+      weight: edge.weight,
+      flow: edge.flow,
+      strength: edge.strength,
+      color: edge.color
+    }, '      ');
+    lines.push('    </edge>');
+  });
+
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Serialize a scene as GEXF 1.3, with membranes as parent nodes of their contents
+ */
+export function sceneToGEXF(scene: VisualizationScene): string {
+  const hierarchy = collectNodes(scene);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+    '  <meta>',
+    '    <creator>MAD9ML Visualization</creator>',
+    `    <description>${VisualizationUtils.escapeXml(scene.title ?? 'MAD9ML Visualization')}</description>`,
+    '  </meta>',
+    '  <graph defaultedgetype="directed" mode="static">',
+    '    <attributes class="node">',
+    '      <attribute id="kind" title="kind" type="string"/>',
+    '      <attribute id="type" title="type" type="string"/>',
+    '      <attribute id="activation" title="activation" type="double"/>',
+    '    </attributes>',
+    '    <attributes class="edge">',
+    '      <attribute id="type" title="type" type="string"/>',
+    '      <attribute id="flow" title="flow" type="double"/>',
+    '      <attribute id="strength" title="strength" type="double"/>',
+    '    </attributes>',
+    '    <nodes>'
+  ];
+
+  const writeNode = (
+    id: string,
+    label: string,
+    parent: string | undefined,
+    values: { kind: string; type: string; activation: number },
+    color: string,
+    position: { x: number; y: number; z: number },
+    size: number
+  ): void => {
+    const pid = parent !== undefined ? ` pid="${attribute(parent)}"` : '';
+    lines.push(`      <node id="${attribute(id)}" label="${attribute(label)}"${pid}>`, '        <attvalues>');
+    Object.entries(values).forEach(([key, value]) => lines.push(`          <attvalue for="${key}" value="${attribute(String(value))}"/>`));
+    lines.push('        </attvalues>');
+    const rgba = VisualizationUtils.parseColor(color);
+    if (rgba) {
+      lines.push(`        <viz:color r="${rgba.r}" g="${rgba.g}" b="${rgba.b}" a="${rgba.a}"/>`);
+    }
+    lines.push(
+      `        <viz:position x="${position.x}" y="${position.y}" z="${position.z}"/>`,
+      `        <viz:size value="${size}"/>`,
+      '      </node>'
+    );
+  };
+
+  const writeMembrane = (membrane: MembraneVisualization, parent: string | undefined): void => {
+    writeNode(
+      membrane.id, membrane.type, parent,
+      { kind: 'membrane', type: membrane.type, activation: membrane.activity },
+      membrane.color,
+      {
+        x: membrane.position.x + membrane.size.x / 2,
+        y: membrane.position.y + membrane.size.y / 2,
+        z: membrane.position.z
+      },
+      Math.max(membrane.size.x, membrane.size.y) / 2
+    );
+    membrane.nestedMembranes.forEach(nested => writeMembrane(nested, membrane.id));
+  };
+
+  scene.membranes.forEach(membrane => writeMembrane(membrane, undefined));
+  hierarchy.nodes.forEach((node, id) => writeNode(
+    id, node.label || id, hierarchy.parents.get(id),
+    { kind: 'node', type: node.type, activation: node.activation },
+    node.color, node.position, node.size
+  ));
+  lines.push('    </nodes>', '    <edges>');
+
+  connectedEdges(scene.edges, hierarchy.nodes).forEach(edge => {
+    const label = edge.label ? ` label="${attribute(edge.label)}"` : '';
+    lines.push(
+      `      <edge id="${attribute(edge.id)}" source="${attribute(edge.source)}" target="${attribute(edge.target)}" weight="${edge.weight}"${label}>`,
+      '        <attvalues>',
+      `          <attvalue for="type" value="${attribute(edge.type)}"/>`,
+      `          <attvalue for="flow" value="${edge.flow}"/>`,
+      `          <attvalue for="strength" value="${edge.strength}"/>`,
+      '        </attvalues>'
+    );
+    const rgba = VisualizationUtils.parseColor(edge.color);
+    if (rgba) {
+      lines.push(`        <viz:color r="${rgba.r}" g="${rgba.g}" b="${rgba.b}" a="${rgba.a}"/>`);
+    }
+    lines.push(`        <viz:thickness value="${Math.max(1, edge.weight * 3)}"/>`, '      </edge>');
+  });
+
+  lines.push('    </edges>', '  </graph>', '</gexf>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Serialize a scene as a Graphviz digraph, with membranes as clusters.
+ * Node positions are pinned (for neato/fdp) with y pointing up as Graphviz expects.
+ */
+export function sceneToDOT(scene: VisualizationScene): string {
+  const hierarchy = collectNodes(scene);
+  const lines = [
+    `digraph ${quote(scene.title ?? 'scene')} {`,
+    '  node [shape=circle, style=filled, fixedsize=true];'
+  ];
+
+  const writeNode = (node: VisualizationNode, indent: string): void => {
+    const size = Number(((node.size * 2) / 72).toFixed(3));
+    const fill = dotColor(node.color);
+    lines.push(
+      `${indent}${quote(node.id)} [label=${quote(node.label || node.id)}, pos="${node.position.x},${-node.position.y}!", ` +
+        `width=${size}${fill ? `, fillcolor=${quote(fill)}` : ''}];`
+    );
+  };
+
+  const writeMembrane = (membrane: MembraneVisualization, indent: string): void => {
+    lines.push(`${indent}subgraph ${quote(`cluster_${membrane.id}`)} {`, `${indent}  label=${quote(membrane.type)};`);
+    const fill = dotColor(membrane.boundary.color || membrane.color);
+    if (fill) {
+      lines.push(`${indent}  color=${quote(fill)};`);
+    }
+    membrane.contents
+      .filter(node => hierarchy.parents.get(node.id) === membrane.id && hierarchy.nodes.get(node.id) === node)
+      .forEach(node => writeNode(node, indent + '  '));
+    membrane.nestedMembranes.forEach(nested => writeMembrane(nested, indent + '  '));
+    lines.push(`${indent}}`);
+  };
+
+  scene.membranes.forEach(membrane => writeMembrane(membrane, '  '));
+  hierarchy.nodes.forEach((node, id) => {
+    if (!hierarchy.parents.has(id)) writeNode(node, '  ');
+  });
+
+  connectedEdges(scene.edges, hierarchy.nodes).forEach(edge => {
+    const attributes = [`penwidth=${Math.max(1, edge.weight * 3)}`];
+    const color = dotColor(edge.color);
+    if (color) attributes.push(`color=${quote(color)}`);
+    if (edge.label) attributes.push(`label=${quote(edge.label)}`);
+    if (edge.flow > 0) attributes.push('style=dashed');
+    lines.push(`  ${quote(edge.source)} -> ${quote(edge.target)} [${attributes.join(', ')}];`);
+  });
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+// ========== Helpers ==========
+
+/**
+ * Every node of the scene by id, with the membrane each one sits in.
+ * Top-level nodes come first; a node listed twice keeps its first occurrence.
+ */
+function collectNodes(scene: VisualizationScene): { nodes: Map<string, VisualizationNode>; parents: Map<string, string> } {
+  const nodes = new Map<string, VisualizationNode>();
+  const parents = new Map<string, string>();
+
+  scene.nodes.forEach(node => {
+    if (!nodes.has(node.id)) nodes.set(node.id, node);
+  });
+
+  const visit = (membrane: MembraneVisualization): void => {
+    membrane.contents.forEach(node => {
+      if (!nodes.has(node.id)) {
+        nodes.set(node.id, node);
+        parents.set(node.id, membrane.id);
+      }
+    });
+    membrane.nestedMembranes.forEach(visit);
+  };
+  scene.membranes.forEach(visit);
+
+  return { nodes, parents };
+}
+
+function connectedEdges(edges: VisualizationEdge[], nodes: Map<string, VisualizationNode>): VisualizationEdge[] {
+  return edges.filter(edge => nodes.has(edge.source) && nodes.has(edge.target));
+}
+
+function attribute(value: string): string {
+  return VisualizationUtils.escapeXml(value);
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+/**
+ * Hex color for Graphviz, which has no rgb()/hsl() syntax
+ */
+function dotColor(color: string): string | null {
+  const rgba = VisualizationUtils.parseColor(color);
+  if (!rgba) return null;
+  const hex = [rgba.r, rgba.g, rgba.b].map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('');
+  return rgba.a < 1 ? `#${hex}${Math.round(rgba.a * 255).toString(16).padStart(2, '0')}` : `#${hex}`;
+}
@@ -0,0 +1,612 @@
+/**
+ * Headless Renderer - Vector rendering of visualization data without a browser
+ *
+ * Draws nodes, edges and membranes the way the canvas renderers do, as a
+ * still frame without hover, selection or animation. The result is a list of
+ * vector shapes, which is written out as SVG or as a single-page PDF.
+ * Positions come from the data (z is ignored) and the page is sized to fit
+ * the scene. The PDF uses the standard Helvetica font, so no fonts are
+ * embedded; the width of centered labels is estimated.
+ */
+
+import {
+  MembraneVisualization,
+  PortVisualization,
+  VisualizationConfig,
+  VisualizationEdge,
+  VisualizationNode,
+  VisualizationScene
+} from './types.js';
+import { VisualizationUtils } from './utils.js';
+
+type PathCommand =
+  | ['M', number, number]
+  | ['L', number, number]
+  | ['Q', number, number, number, number]
+  | ['Z'];
+
+interface ShapeStyle {
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+  dash?: number[];
+  opacity?: number;
+}
+
+type Shape =
+  | { kind: 'circle'; cx: number; cy: number; r: number; style: ShapeStyle }
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; style: ShapeStyle }
+  | { kind: 'path'; commands: PathCommand[]; style: ShapeStyle }
+  | { kind: 'text'; x: number; y: number; text: string; size: number; anchor: 'start' | 'middle'; style: ShapeStyle };
+
+interface ShapeGroup {
+  role: 'background' | 'membrane' | 'edge' | 'node';
+  id?: string;
+  items: Array<Shape | ShapeGroup>;
+}
+
+interface Drawing {
+  width: number;
+  height: number;
+  origin: { x: number; y: number }; // scene coordinates of the page's top-left corner
+  groups: ShapeGroup[];
+}
+
+const PADDING = 40;
+const NODE_LABEL_OFFSET = 20;
+const ARROW_SIZE = 8;
+const TYPE_INDICATOR_SIZE = 6;
+const DEFAULT_TITLE = 'MAD9ML Visualization';
+
+/** Average Helvetica glyph width relative to the font size */
+const GLYPH_WIDTH = 0.55;
+
+/** Control point distance for drawing a quarter circle as a cubic Bézier curve */
+const KAPPA = 0.5522847498;
+
+export class HeadlessRenderer {
+  private config: VisualizationConfig;
+
+  constructor(config: Partial<VisualizationConfig> = {}) {
+    this.config = VisualizationUtils.createDefaultConfig(config);
+  }
+
+  /**
+   * Render a scene as a standalone SVG document
+   */
+  public renderSVG(scene: VisualizationScene): string {
+    const drawing = this.draw(scene);
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${drawing.width}" height="${drawing.height}" viewBox="0 0 ${drawing.width} ${drawing.height}">`,
+      `  <title>${VisualizationUtils.escapeXml(scene.title ?? DEFAULT_TITLE)}</title>`,
+      `  <g transform="translate(${formatNumber(-drawing.origin.x)} ${formatNumber(-drawing.origin.y)})">`
+    ];
+
+    drawing.groups.forEach(group => this.writeSVGGroup(group, lines, '    '));
+    lines.push('  </g>', '</svg>');
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Render a scene as a single-page PDF document; the document is plain ASCII
+   */
+  public renderPDF(scene: VisualizationScene): string {
+    const drawing = this.draw(scene);
+    const graphicsStates = new Map<string, string>();
+
+    // Flip the y axis so scene coordinates grow downwards as on screen
+    const content = [
+      `1 0 0 -1 0 ${drawing.height} cm`,
+      `1 0 0 1 ${formatNumber(-drawing.origin.x)} ${formatNumber(-drawing.origin.y)} cm`
+    ];
+    const writeGroup = (group: ShapeGroup): void => {
+      group.items.forEach(item => 'role' in item ? writeGroup(item) : content.push(...this.pdfOperators(item, graphicsStates)));
+    };
+    drawing.groups.forEach(writeGroup);
+    const stream = content.join('\n');
+
+    const stateObjects = Array.from(graphicsStates.keys()).map(key => {
+      const [fillAlpha, strokeAlpha] = key.split(' ');
+      return `<< /Type /ExtGState /ca ${fillAlpha} /CA ${strokeAlpha} >>`;
+    });
+    const firstStateObject = 6;
+    const stateResources = Array.from(graphicsStates.values())
+      .map((name, index) => `/${name} ${firstStateObject + index} 0 R`)
+      .join(' ');
+
+    const objects = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${drawing.width} ${drawing.height}] ` +
+        `/Resources << /Font << /F1 5 0 R >> /ExtGState << ${stateResources} >> >> /Contents 4 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      ...stateObjects,
+      `<< /Title (${pdfString(scene.title ?? DEFAULT_TITLE)}) /Producer (MAD9ML Visualization) >>`
+    ];
+
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((body, index) => {
+      offsets.push(pdf.length);
+      pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xrefOffset = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\n`;
+    pdf += `startxref\n${xrefOffset}\n%%EOF\n`;
+    return pdf;
+  }
+
+  // ========== Drawing ==========
+
+  private draw(scene: VisualizationScene): Drawing {
+    const bounds = this.measure(scene);
+    const origin = { x: Math.floor(bounds.minX - PADDING), y: Math.floor(bounds.minY - PADDING) };
+    const width = Math.ceil(bounds.maxX + PADDING) - origin.x;
+    const height = Math.ceil(bounds.maxY + PADDING) - origin.y;
+
+    const groups: ShapeGroup[] = [{
+      role: 'background',
+      items: [{ kind: 'rect', x: origin.x, y: origin.y, width, height, style: { fill: this.isDark() ? '#1a1a1a' : '#ffffff' } }]
+    }];
+
+    const ports = new Map<string, { x: number; y: number }>();
+    const collectPorts = (membrane: MembraneVisualization): void => {
+      membrane.ports.forEach(port => ports.set(port.id, this.portPosition(port, membrane)));
+      membrane.nestedMembranes.forEach(collectPorts);
+    };
+    scene.membranes.forEach(collectPorts);
+
+    scene.membranes.forEach(membrane => groups.push(this.drawMembrane(membrane, ports)));
+
+    const nodes = new Map(scene.nodes.map(node => [node.id, node]));
+    scene.edges.forEach(edge => {
+      const source = nodes.get(edge.source);
+      const target = nodes.get(edge.target);
+      if (source && target) {
+        groups.push(this.drawEdge(edge, source, target));
+      }
+    });
+
+    scene.nodes.forEach(node => groups.push(this.drawNode(node)));
+
+    return { width, height, origin, groups };
+  }
+
+  private drawMembrane(membrane: MembraneVisualization, ports: Map<string, { x: number; y: number }>): ShapeGroup {
+    const { position, size, boundary } = membrane;
+    const items: Array<Shape | ShapeGroup> = [];
+    const boundaryColor = boundary.color || this.config.colorScheme.membraneBoundary;
+
+    items.push({
+      kind: 'rect', x: position.x, y: position.y, width: size.x, height: size.y,
+      style: { fill: membrane.color || this.config.colorScheme.membrane, opacity: membrane.opacity * 0.3 }
+    });
+
+    const dash = boundary.pattern === 'dashed' ? [10, 5] : boundary.pattern === 'dotted' ? [2, 3] : undefined;
+    items.push({
+      kind: 'rect', x: position.x, y: position.y, width: size.x, height: size.y,
+      style: { stroke: boundaryColor, strokeWidth: boundary.thickness, dash }
+    });
+
+    boundary.activeRegions.forEach(region => {
+      const color = region.type === 'input' ? this.config.colorScheme.healthy
+        : region.type === 'output' ? this.config.colorScheme.warning
+        : this.config.colorScheme.critical;
+      const cx = position.x + region.position.x * size.x;
+      const cy = position.y + region.position.y * size.y;
+      items.push({ kind: 'circle', cx, cy, r: region.size * 5, style: { fill: color, opacity: 0.5 } });
+      items.push({ kind: 'circle', cx, cy, r: region.size * 8, style: { stroke: color, strokeWidth: 2, opacity: 0.5 } });
+    });
+
+    // Permeability marks along the boundary, clockwise from the top-left corner
+    const marks = Math.floor(boundary.permeability * 20);
+    for (let i = 0; i < marks; i++) {
+      const t = i / marks;
+      const style = { fill: 'rgba(255, 255, 255, 0.6)' };
+      items.push({ kind: 'rect', x: position.x + t * size.x, y: position.y - 2, width: 3, height: 4, style });
+      items.push({ kind: 'rect', x: position.x + size.x - 2, y: position.y + t * size.y, width: 4, height: 3, style });
+      items.push({ kind: 'rect', x: position.x + size.x - t * size.x, y: position.y + size.y - 2, width: 3, height: 4, style });
+      items.push({ kind: 'rect', x: position.x - 2, y: position.y + size.y - t * size.y, width: 4, height: 3, style });
+    }
+
+    membrane.ports.forEach(port => items.push(...this.drawPort(port, membrane, ports)));
+
+    membrane.contents.forEach(node => {
+      items.push({
+        kind: 'circle', cx: node.position.x, cy: node.position.y, r: node.size || 8,
+        style: { fill: this.nodeColor(node.type), opacity: 0.8 }
+      });
+      if (node.label) {
+        items.push(this.text(node.label, node.position.x, node.position.y + 15, 10, 'middle', this.foreground(), 0.8));
+      }
+    });
+
+    membrane.nestedMembranes.forEach(nested => items.push(this.drawMembrane(nested, ports)));
+
+    const labelX = position.x + 8;
+    const labelY = position.y + 20;
+    const statusColor = this.isDark() ? '#cccccc' : '#666666';
+    items.push({
+      kind: 'rect', x: labelX - 4, y: labelY - 16, width: membrane.type.length * 8 + 8, height: 20,
+      style: { fill: 'rgba(0, 0, 0, 0.7)' }
+    });
+    items.push(this.text(membrane.type.toUpperCase(), labelX, labelY, 12, 'start', '#ffffff'));
+    items.push(this.text(`Activity: ${(membrane.activity * 100).toFixed(0)}%`, labelX, labelY + 25, 10, 'start', statusColor));
+    items.push(this.text(`Messages: ${membrane.messageCount}`, labelX, labelY + 40, 10, 'start', statusColor));
+
+    return { role: 'membrane', id: membrane.id, items };
+  }
+
+  private drawPort(port: PortVisualization, membrane: MembraneVisualization, ports: Map<string, { x: number; y: number }>): Shape[] {
+    const { x, y } = this.portPosition(port, membrane);
+    const size = port.size || 8;
+    const fill = port.color || (port.status === 'active' ? this.config.colorScheme.activePort
+      : port.status === 'blocked' ? this.config.colorScheme.critical
+      : this.config.colorScheme.inactivePort);
+    const style = { fill, stroke: this.foreground(), strokeWidth: 1 };
+
+    const shapes: Shape[] = port.connections
+      .filter(connection => ports.has(connection.targetPortId))
+      .map(connection => {
+        const target = ports.get(connection.targetPortId)!;
+        return {
+          kind: 'path',
+          commands: [['M', x, y], ['L', target.x, target.y]],
+          style: { stroke: this.config.colorScheme.activePort, strokeWidth: 1, dash: [4, 4], opacity: 0.6 }
+        };
+      });
+
+    switch (port.direction) {
+      case 'input':
+        shapes.push({ kind: 'path', commands: [['M', x - size, y - size / 2], ['L', x - size, y + size / 2], ['L', x, y], ['Z']], style });
+        break;
+      case 'output':
+        shapes.push({ kind: 'path', commands: [['M', x, y - size / 2], ['L', x, y + size / 2], ['L', x + size, y], ['Z']], style });
+        break;
+      default:
+        shapes.push({ kind: 'path', commands: [['M', x, y - size], ['L', x + size, y], ['L', x, y + size], ['L', x - size, y], ['Z']], style });
+    }
+
+    return shapes;
+  }
+
+  private drawEdge(edge: VisualizationEdge, source: VisualizationNode, target: VisualizationNode): ShapeGroup {
+    const from = source.position;
+    const to = target.position;
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    const items: Shape[] = [];
+    if (distance === 0) {
+      return { role: 'edge', id: edge.id, items };
+    }
+
+    const color = edge.color || this.edgeColor(edge.type);
+    const commands: PathCommand[] = edge.type === 'hierarchical'
+      ? [['M', from.x, from.y], ['Q', (from.x + to.x) / 2 + dy * 0.2, (from.y + to.y) / 2 - dx * 0.2, to.x, to.y]]
+      : [['M', from.x, from.y], ['L', to.x, to.y]];
+    items.push({
+      kind: 'path',
+      commands,
+      style: {
+        stroke: color,
+        strokeWidth: Math.max(1, edge.weight * 3),
+        dash: edge.flow > 0 ? [10, 10] : undefined,
+        opacity: VisualizationUtils.clamp(0.6 + edge.weight * 0.4, 0, 1)
+      }
+    });
+
+    // Arrowhead at the rim of the target node
+    const unitX = dx / distance;
+    const unitY = dy / distance;
+    const tipX = to.x - unitX * (target.size || 20);
+    const tipY = to.y - unitY * (target.size || 20);
+    items.push({
+      kind: 'path',
+      commands: [
+        ['M', tipX, tipY],
+        ['L', tipX - unitX * ARROW_SIZE - unitY * ARROW_SIZE * 0.5, tipY - unitY * ARROW_SIZE + unitX * ARROW_SIZE * 0.5],
+        ['L', tipX - unitX * ARROW_SIZE + unitY * ARROW_SIZE * 0.5, tipY - unitY * ARROW_SIZE - unitX * ARROW_SIZE * 0.5],
+        ['Z']
+      ],
+      style: { fill: color }
+    });
+
+    if (edge.label) {
+      items.push(this.text(edge.label, (from.x + to.x) / 2, (from.y + to.y) / 2, 10, 'middle', this.foreground()));
+    }
+
+    return { role: 'edge', id: edge.id, items };
+  }
+
+  private drawNode(node: VisualizationNode): ShapeGroup {
+    const { x, y } = node.position;
+    const radius = node.size || 20;
+    const color = this.nodeColor(node.type);
+    const items: Shape[] = [{
+      kind: 'circle', cx: x, cy: y, r: radius,
+      style: { fill: node.color || color, stroke: this.isDark() ? '#555555' : '#cccccc', strokeWidth: 1 }
+    }];
+
+    if (node.activation > 0) {
+      items.push({
+        kind: 'circle', cx: x, cy: y, r: radius * Math.min(node.activation, 1) * 0.7,
+        style: { fill: 'rgba(255, 255, 255, 0.8)' }
+      });
+    }
+
+    items.push(this.text(node.label || node.id, x, y + radius + NODE_LABEL_OFFSET, 12, 'middle', this.foreground()));
+
+    // Type indicator in the top-right of the node
+    const ix = x + radius - TYPE_INDICATOR_SIZE;
+    const iy = y - radius + TYPE_INDICATOR_SIZE;
+    const half = TYPE_INDICATOR_SIZE / 2;
+    switch (node.type) {
+      case 'memory':
+        items.push({ kind: 'rect', x: ix - half, y: iy - half, width: TYPE_INDICATOR_SIZE, height: TYPE_INDICATOR_SIZE, style: { fill: color } });
+        break;
+      case 'concept':
+        items.push({ kind: 'path', commands: [['M', ix, iy - half], ['L', ix - half, iy + half], ['L', ix + half, iy + half], ['Z']], style: { fill: color } });
+        break;
+      case 'agent':
+        items.push({ kind: 'path', commands: [['M', ix, iy - half], ['L', ix + half, iy], ['L', ix, iy + half], ['L', ix - half, iy], ['Z']], style: { fill: color } });
+        break;
+      default:
+        items.push({ kind: 'circle', cx: ix, cy: iy, r: half, style: { fill: color } });
+    }
+
+    return { role: 'node', id: node.id, items };
+  }
+
+  /**
+   * Scene extent, including node labels and membrane contents
+   */
+  private measure(scene: VisualizationScene): { minX: number; minY: number; maxX: number; maxY: number } {
+    const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+    const include = (x: number, y: number): void => {
+      bounds.minX = Math.min(bounds.minX, x);
+      bounds.minY = Math.min(bounds.minY, y);
+      bounds.maxX = Math.max(bounds.maxX, x);
+      bounds.maxY = Math.max(bounds.maxY, y);
+    };
+
+    scene.nodes.forEach(node => {
+      const { x, y } = node.position;
+      const radius = node.size || 20;
+      const labelHalfWidth = estimateTextWidth(node.label || node.id, 12) / 2;
+      include(x - Math.max(radius, labelHalfWidth), y - radius);
+      include(x + Math.max(radius, labelHalfWidth), y + radius + NODE_LABEL_OFFSET);
+    });
+
+    const includeMembrane = (membrane: MembraneVisualization): void => {
+      include(membrane.position.x, membrane.position.y);
+      include(membrane.position.x + membrane.size.x, membrane.position.y + membrane.size.y);
+      membrane.ports.forEach(port => {
+        const { x, y } = this.portPosition(port, membrane);
+        const size = port.size || 8;
+        include(x - size, y - size);
+        include(x + size, y + size);
+      });
+      membrane.contents.forEach(node => {
+        include(node.position.x - (node.size || 8), node.position.y - (node.size || 8));
+        include(node.position.x + (node.size || 8), node.position.y + 15);
+      });
+      membrane.nestedMembranes.forEach(includeMembrane);
+    };
+    scene.membranes.forEach(includeMembrane);
+
+    return bounds.minX <= bounds.maxX ? bounds : { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  }
+
+  private portPosition(port: PortVisualization, membrane: MembraneVisualization): { x: number; y: number } {
+    return { x: membrane.position.x + port.position.x, y: membrane.position.y + port.position.y };
+  }
+
+  private text(text: string, x: number, y: number, size: number, anchor: 'start' | 'middle', fill: string, opacity?: number): Shape {
+    return { kind: 'text', x, y, text, size, anchor, style: { fill, opacity } };
+  }
+
+  private isDark(): boolean {
+    return this.config.theme === 'dark';
+  }
+
+  private foreground(): string {
+    return this.isDark() ? '#ffffff' : '#000000';
+  }
+
+  private nodeColor(type: string): string {
+    switch (type) {
+      case 'concept': return this.config.colorScheme.conceptNode;
+      case 'agent': return this.config.colorScheme.agentNode;
+      case 'kernel': return this.config.colorScheme.kernelNode;
+      default: return this.config.colorScheme.memoryNode;
+    }
+  }
+
+  private edgeColor(type: string): string {
+    switch (type) {
+      case 'causal': return this.config.colorScheme.causalEdge;
+      case 'temporal': return this.config.colorScheme.temporalEdge;
+      case 'hierarchical': return this.config.colorScheme.hierarchicalEdge;
+      default: return this.config.colorScheme.semanticEdge;
+    }
+  }
+
+  // ========== SVG Output ==========
+
+  private writeSVGGroup(group: ShapeGroup, lines: string[], indent: string): void {
+    const id = group.id !== undefined ? ` data-id="${VisualizationUtils.escapeXml(group.id)}"` : '';
+    lines.push(`${indent}<g class="${group.role}"${id}>`);
+    group.items.forEach(item => {
+      if ('role' in item) {
+        this.writeSVGGroup(item, lines, indent + '  ');
+      } else {
+        lines.push(indent + '  ' + this.svgElement(item));
+      }
+    });
+    lines.push(`${indent}</g>`);
+  }
+
+  private svgElement(shape: Shape): string {
+    const { fill, stroke, strokeWidth, dash, opacity } = shape.style;
+    const paint = [
+      `fill="${fill ? VisualizationUtils.escapeXml(fill) : 'none'}"`,
+      stroke ? `stroke="${VisualizationUtils.escapeXml(stroke)}" stroke-width="${formatNumber(strokeWidth ?? 1)}"` : '',
+      stroke && dash ? `stroke-dasharray="${dash.map(formatNumber).join(' ')}"` : '',
+      opacity !== undefined && opacity < 1 ? `opacity="${formatNumber(opacity)}"` : ''
+    ].filter(attribute => attribute.length > 0).join(' ');
+
+    switch (shape.kind) {
+      case 'circle':
+        return `<circle cx="${formatNumber(shape.cx)}" cy="${formatNumber(shape.cy)}" r="${formatNumber(shape.r)}" ${paint}/>`;
+      case 'rect':
+        return `<rect x="${formatNumber(shape.x)}" y="${formatNumber(shape.y)}" width="${formatNumber(shape.width)}" height="${formatNumber(shape.height)}" ${paint}/>`;
+      case 'path': {
+        const d = shape.commands.map(([command, ...values]) => [command, ...values.map(formatNumber)].join(' ')).join(' ');
+        return `<path d="${d}" ${paint}/>`;
+      }
+      case 'text':
+        return `<text x="${formatNumber(shape.x)}" y="${formatNumber(shape.y)}" font-family="sans-serif" font-size="${shape.size}"` +
+          `${shape.anchor === 'middle' ? ' text-anchor="middle"' : ''} ${paint}>${VisualizationUtils.escapeXml(shape.text)}</text>`;
+    }
+  }
+
+  // ========== PDF Output ==========
+
+  /**
+   * Content stream operators for a shape; transparency goes through shared
+   * ExtGState resources, registered in `graphicsStates` by alpha pair
+   */
+  private pdfOperators(shape: Shape, graphicsStates: Map<string, string>): string[] {
+    const { strokeWidth, dash, opacity = 1 } = shape.style;
+    const fill = shape.style.fill ? pdfColor(shape.style.fill) : null;
+    const stroke = shape.style.stroke ? pdfColor(shape.style.stroke) : null;
+    if (!fill && !stroke) return [];
+
+    const operators = ['q'];
+    const fillAlpha = formatNumber((fill?.a ?? 1) * opacity);
+    const strokeAlpha = formatNumber((stroke?.a ?? 1) * opacity);
+    if (fillAlpha !== '1' || strokeAlpha !== '1') {
+      const key = `${fillAlpha} ${strokeAlpha}`;
+      if (!graphicsStates.has(key)) {
+        graphicsStates.set(key, `GS${graphicsStates.size}`);
+      }
+      operators.push(`/${graphicsStates.get(key)} gs`);
+    }
+    if (fill) {
+      operators.push(`${fill.rgb} rg`);
+    }
+    if (stroke) {
+      operators.push(`${stroke.rgb} RG`, `${formatNumber(strokeWidth ?? 1)} w`);
+      if (dash) operators.push(`[${dash.map(formatNumber).join(' ')}] 0 d`);
+    }
+
+    switch (shape.kind) {
+      case 'circle': {
+        const { cx, cy, r } = shape;
+        const k = r * KAPPA;
+        operators.push(
+          `${formatNumber(cx + r)} ${formatNumber(cy)} m`,
+          bezier(cx + r, cy + k, cx + k, cy + r, cx, cy + r),
+          bezier(cx - k, cy + r, cx - r, cy + k, cx - r, cy),
+          bezier(cx - r, cy - k, cx - k, cy - r, cx, cy - r),
+          bezier(cx + k, cy - r, cx + r, cy - k, cx + r, cy),
+          'h'
+        );
+        break;
+      }
+      case 'rect':
+        operators.push(`${formatNumber(shape.x)} ${formatNumber(shape.y)} ${formatNumber(shape.width)} ${formatNumber(shape.height)} re`);
+        break;
+      case 'path': {
+        let current = { x: 0, y: 0 };
+        for (const command of shape.commands) {
+          switch (command[0]) {
+            case 'M':
+            case 'L':
+              operators.push(`${formatNumber(command[1])} ${formatNumber(command[2])} ${command[0] === 'M' ? 'm' : 'l'}`);
+              current = { x: command[1], y: command[2] };
+              break;
+            case 'Q': {
+              // Quadratic curves become cubic ones with control points 2/3 of the way to the quadratic control point
+              const [, qx, qy, x, y] = command;
+              operators.push(bezier(
+                current.x + (qx - current.x) * 2 / 3, current.y + (qy - current.y) * 2 / 3,
+                x + (qx - x) * 2 / 3, y + (qy - y) * 2 / 3,
+                x, y
+              ));
+              current = { x, y };
+              break;
+            }
+            case 'Z':
+              operators.push('h');
+              break;
+          }
+        }
+        break;
+      }
+      case 'text': {
+        const x = shape.anchor === 'middle' ? shape.x - estimateTextWidth(shape.text, shape.size) / 2 : shape.x;
+        // The text matrix flips glyphs back upright
+        operators.push(
+          'BT',
+          `/F1 ${formatNumber(shape.size)} Tf`,
+          `1 0 0 -1 ${formatNumber(x)} ${formatNumber(shape.y)} Tm`,
+          `(${pdfString(shape.text)}) Tj`,
+          'ET',
+          'Q'
+        );
+        return operators;
+      }
+    }
+
+    operators.push(fill && stroke ? 'B' : fill ? 'f' : 'S', 'Q');
+    return operators;
+  }
+}
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(3)) || 0);
+}
+
+function estimateTextWidth(text: string, size: number): number {
+  return text.length * size * GLYPH_WIDTH;
+}
+
+function bezier(x1: number, y1: number, x2: number, y2: number, x: number, y: number): string {
+  return `${[x1, y1, x2, y2, x, y].map(formatNumber).join(' ')} c`;
+}
+
+/**
+ * PDF color operands and alpha of a CSS color; unknown colors are black
+ */
+function pdfColor(color: string): { rgb: string; a: number } {
+  const parsed = VisualizationUtils.parseColor(color) ?? { r: 0, g: 0, b: 0, a: 1 };
+  return { rgb: [parsed.r, parsed.g, parsed.b].map(channel => formatNumber(channel / 255)).join(' '), a: parsed.a };
+}
+
+/**
+ * Literal string contents in the WinAnsi encoding of the standard fonts,
+ * escaped to plain ASCII; characters outside Latin-1 become '?'
+ */
+function pdfString(text: string): string {
+  let escaped = '';
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (char === '(' || char === ')' || char === '\\') {
+      escaped += '\\' + char;
+    } else if (code >= 0x20 && code < 0x7f) {
+      escaped += char;
+    } else if (code >= 0xa0 && code <= 0xff) {
+      escaped += '\\' + code.toString(8).padStart(3, '0');
+    } else {
+      escaped += '?';
+    }
+  }
+  return escaped;
+}
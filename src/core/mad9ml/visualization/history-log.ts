@@ -0,0 +1,525 @@
+/**
+ * History Log - Compact on-disk record of a time-travel session
+ *
+ * The log is an append-only text file with one record per line:
+ *
+ *   <kind> TAB <ISO timestamp> TAB <JSON payload>
+ *
+ * after a `mad9-history TAB <format version>` header line. Every
+ * `keyframeInterval`-th system snapshot is stored in full (`keyframe`), the
+ * others as a patch against the snapshot recorded before them (`delta`).
+ * Timeline events (`event`) and node, edge and membrane history (`nodes`,
+ * `edges`, `membranes`) are stored as recorded.
+ *
+ * Only an index of record offsets, kept in time order for snapshots and
+ * events, stays in memory. Events are read when queried, and a snapshot is
+ * rebuilt on demand from the nearest keyframe or cached snapshot before it;
+ * a bounded cache keeps the most recently read snapshots. File I/O is
+ * synchronous so that TimeTravelEngine queries stay synchronous.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  HistoryKind,
+  HistoryLogOptions,
+  SnapshotChange,
+  SystemStateSnapshot,
+  TimelineEvent
+} from './types.js';
+
+/**
+ * Current history log format version
+ */
+export const HISTORY_LOG_FORMAT_VERSION = 1;
+
+const HISTORY_LOG_MAGIC = 'mad9-history';
+const READ_CHUNK_BYTES = 64 * 1024;
+const TAB = 0x09;
+const NEWLINE = 0x0a;
+
+/**
+ * Patch key listing the keys a delta removes
+ */
+const DELETED_KEYS = '$deleted';
+
+type RecordKind = 'keyframe' | 'delta' | 'event' | HistoryKind;
+
+interface RecordEntry {
+  timestamp: string;
+  time: number;
+  offset: number; // byte offset of the JSON payload
+  length: number; // byte length of the JSON payload
+}
+
+interface SnapshotEntry extends RecordEntry {
+  keyframe: boolean;
+}
+
+export class HistoryLog {
+  public readonly filePath: string;
+  private fd: number;
+  private size: number = 0;
+  private keyframeInterval: number;
+  private cacheSize: number;
+  private snapshots: SnapshotEntry[] = []; // in file order
+  private snapshotsByTime: number[] = []; // indices into snapshots, in time order
+  private events: RecordEntry[] = []; // in file order
+  private eventsByTime: number[] = []; // indices into events, in time order
+  private history: Record<HistoryKind, RecordEntry[]> = { nodes: [], edges: [], membranes: [] };
+  private cache: Map<number, Record<string, unknown>> = new Map();
+  private lastSnapshot: Record<string, unknown> | null = null;
+  private snapshotsSinceKeyframe: number = 0;
+
+  private constructor(filePath: string, fd: number, options: HistoryLogOptions) {
+    this.filePath = filePath;
+    this.fd = fd;
+    this.keyframeInterval = Math.max(1, options.keyframeInterval ?? 30);
+    this.cacheSize = Math.max(1, options.cacheSize ?? 64);
+  }
+
+  /**
+   * Create an empty log, replacing any file at the path
+   */
+  public static create(filePath: string, options: HistoryLogOptions = {}): HistoryLog {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, `${HISTORY_LOG_MAGIC}\t${HISTORY_LOG_FORMAT_VERSION}\n`);
+    return HistoryLog.open(filePath, options);
+  }
+
+  /**
+   * Open an existing log for replay and further recording
+   */
+  public static open(filePath: string, options: HistoryLogOptions = {}): HistoryLog {
+    const fd = fs.openSync(filePath, 'r+');
+    try {
+      const log = new HistoryLog(filePath, fd, options);
+      log.scan();
+      return log;
+    } catch (error) {
+      fs.closeSync(fd);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a system state snapshot
+   */
+  public appendSnapshot(snapshot: SystemStateSnapshot): void {
+    const current: Record<string, unknown> = JSON.parse(JSON.stringify(snapshot));
+    const keyframe = this.snapshots.length === 0 || this.snapshotsSinceKeyframe >= this.keyframeInterval;
+    const previous = keyframe ? null : this.lastSnapshot ?? this.reconstruct(this.snapshots.length - 1);
+    const payload = previous ? createPatch(previous, current) : current;
+
+    this.append(keyframe ? 'keyframe' : 'delta', snapshot.timestamp, JSON.stringify(payload));
+    this.lastSnapshot = current;
+  }
+
+  /**
+   * Record a timeline event
+   */
+  public appendEvent(event: TimelineEvent): void {
+    this.append('event', event.timestamp, JSON.stringify(event));
+  }
+
+  /**
+   * Record node, edge or membrane states at a time
+   */
+  public appendHistory<T extends { id: string }>(kind: HistoryKind, timestamp: string, items: T[]): void {
+    this.append(kind, timestamp, JSON.stringify(items));
+  }
+
+  /**
+   * Timestamps of all recorded snapshots, in time order
+   */
+  public getSnapshotTimestamps(): string[] {
+    return this.snapshotsByTime.map(index => this.snapshots[index].timestamp);
+  }
+
+  /**
+   * Snapshot recorded closest to a time; the earlier one on a tie
+   */
+  public getSnapshotNear(timestamp: string): SystemStateSnapshot | null {
+    const time = new Date(timestamp).getTime();
+    if (isNaN(time) || this.snapshotsByTime.length === 0) {
+      return null;
+    }
+
+    const snapshots = this.snapshotsByTime;
+    let position = this.firstAtOrAfter(snapshots, this.snapshots, time);
+    if (position === snapshots.length ||
+        (position > 0 && time - this.snapshots[snapshots[position - 1]].time <= this.snapshots[snapshots[position]].time - time)) {
+      position--;
+    }
+    return this.readSnapshot(snapshots[position]);
+  }
+
+  /**
+   * Snapshots recorded between two times (inclusive, unbounded if omitted),
+   * in time order. Each snapshot is read when the iteration reaches it.
+   */
+  public *snapshotsBetween(startTime?: string, endTime?: string): Generator<SystemStateSnapshot> {
+    const start = startTime === undefined ? -Infinity : new Date(startTime).getTime();
+    const end = endTime === undefined ? Infinity : new Date(endTime).getTime();
+
+    for (let position = this.firstAtOrAfter(this.snapshotsByTime, this.snapshots, start); position < this.snapshotsByTime.length; position++) {
+      const index = this.snapshotsByTime[position];
+      if (this.snapshots[index].time > end) break;
+      yield this.readSnapshot(index);
+    }
+  }
+
+  /**
+   * All recorded events, in recording order
+   */
+  public readEvents(): TimelineEvent[] {
+    return this.events.map(entry => this.readPayload(entry) as TimelineEvent);
+  }
+
+  /**
+   * Events recorded between two times (inclusive, unbounded if omitted), in
+   * time order or latest first if `reverse`. Each event is read when the
+   * iteration reaches it.
+   */
+  public *eventsBetween(startTime?: string, endTime?: string, reverse: boolean = false): Generator<TimelineEvent> {
+    const start = startTime === undefined ? -Infinity : new Date(startTime).getTime();
+    const end = endTime === undefined ? Infinity : new Date(endTime).getTime();
+    const first = this.firstAtOrAfter(this.eventsByTime, this.events, start);
+    const last = this.firstAtOrAfter(this.eventsByTime, this.events, end, true) - 1;
+
+    for (let i = 0; i <= last - first; i++) {
+      const index = this.eventsByTime[reverse ? last - i : first + i];
+      yield this.readPayload(this.events[index]) as TimelineEvent;
+    }
+  }
+
+  /**
+   * Number of recorded events
+   */
+  public getEventCount(): number {
+    return this.events.length;
+  }
+
+  /**
+   * Earliest and latest time of any recorded snapshot or event, or null if
+   * there are none
+   */
+  public getTimeRange(): { start: number; end: number } | null {
+    const times = [
+      this.snapshots[this.snapshotsByTime[0]]?.time,
+      this.snapshots[this.snapshotsByTime[this.snapshotsByTime.length - 1]]?.time,
+      this.events[this.eventsByTime[0]]?.time,
+      this.events[this.eventsByTime[this.eventsByTime.length - 1]]?.time
+    ].filter((time): time is number => time !== undefined && !isNaN(time));
+
+    return times.length > 0 ? { start: Math.min(...times), end: Math.max(...times) } : null;
+  }
+
+  /**
+   * Items recorded at the time closest to a timestamp, by id
+   */
+  public getHistoryNear<T extends { id: string }>(kind: HistoryKind, timestamp: string): Map<string, T> | null {
+    const time = new Date(timestamp).getTime();
+    let closest: RecordEntry | null = null;
+    let closestDistance = Infinity;
+
+    for (const entry of this.history[kind]) {
+      const distance = Math.abs(entry.time - time);
+      if (distance < closestDistance) {
+        closestDistance = distance;
+        closest = entry;
+      }
+    }
+
+    if (!closest) return null;
+    const items = new Map<string, T>();
+    for (const entry of this.history[kind]) {
+      if (entry.timestamp === closest.timestamp) {
+        (this.readPayload(entry) as T[]).forEach(item => items.set(item.id, item));
+      }
+    }
+    return items;
+  }
+
+  /**
+   * Every recorded item of a kind, by timestamp and id
+   */
+  public readHistory<T extends { id: string }>(kind: HistoryKind): Map<string, Map<string, T>> {
+    const history = new Map<string, Map<string, T>>();
+    for (const entry of this.history[kind]) {
+      const items = history.get(entry.timestamp) ?? new Map<string, T>();
+      (this.readPayload(entry) as T[]).forEach(item => items.set(item.id, item));
+      history.set(entry.timestamp, items);
+    }
+    return history;
+  }
+
+  /**
+   * Record counts, file size and cache usage
+   */
+  public getStatistics(): { snapshots: number; keyframes: number; events: number; bytes: number; cachedSnapshots: number } {
+    return {
+      snapshots: this.snapshots.length,
+      keyframes: this.snapshots.filter(entry => entry.keyframe).length,
+      events: this.events.length,
+      bytes: this.size,
+      cachedSnapshots: this.cache.size
+    };
+  }
+
+  public close(): void {
+    fs.closeSync(this.fd);
+    this.cache.clear();
+    this.lastSnapshot = null;
+  }
+
+  // ========== Private Methods ==========
+
+  /**
+   * Index every record of an opened file. A record cut off by a crash
+   * mid-write is truncated away, so new records start on a fresh line.
+   */
+  private scan(): void {
+    const chunk = Buffer.alloc(READ_CHUNK_BYTES);
+    let pending = Buffer.alloc(0);
+    let position = 0; // file offset of pending
+    let lineNumber = 0;
+    let bytesRead: number;
+
+    while ((bytesRead = fs.readSync(this.fd, chunk, 0, chunk.length, position + pending.length)) > 0) {
+      const buffer = Buffer.concat([pending, chunk.subarray(0, bytesRead)]);
+      let start = 0;
+      let newline: number;
+      while ((newline = buffer.indexOf(NEWLINE, start)) !== -1) {
+        this.indexLine(buffer.subarray(start, newline), position + start, lineNumber++);
+        start = newline + 1;
+      }
+      position += start;
+      pending = buffer.subarray(start);
+    }
+
+    if (lineNumber === 0) {
+      throw new Error('Not a history log');
+    }
+    if (pending.length > 0) {
+      fs.ftruncateSync(this.fd, position);
+    }
+    this.size = position;
+  }
+
+  private indexLine(line: Buffer, offset: number, lineNumber: number): void {
+    if (lineNumber === 0) {
+      const [magic, version] = line.toString('utf8').split('\t');
+      if (magic !== HISTORY_LOG_MAGIC) {
+        throw new Error('Not a history log');
+      }
+      if (Number(version) > HISTORY_LOG_FORMAT_VERSION) {
+        throw new Error(`Unsupported history log version ${version} (latest supported is ${HISTORY_LOG_FORMAT_VERSION})`);
+      }
+      return;
+    }
+
+    const kindEnd = line.indexOf(TAB);
+    const timestampEnd = kindEnd === -1 ? -1 : line.indexOf(TAB, kindEnd + 1);
+    if (timestampEnd === -1) {
+      throw new Error(`Malformed history log record at byte ${offset}`);
+    }
+
+    this.index(
+      line.toString('utf8', 0, kindEnd) as RecordKind,
+      line.toString('utf8', kindEnd + 1, timestampEnd),
+      offset + timestampEnd + 1,
+      line.length - timestampEnd - 1
+    );
+  }
+
+  private index(kind: RecordKind, timestamp: string, offset: number, length: number): void {
+    const entry: RecordEntry = { timestamp, time: new Date(timestamp).getTime(), offset, length };
+
+    switch (kind) {
+      case 'keyframe':
+      case 'delta': {
+        const keyframe = kind === 'keyframe';
+        this.snapshots.push({ ...entry, keyframe });
+        this.snapshotsSinceKeyframe = keyframe ? 1 : this.snapshotsSinceKeyframe + 1;
+        this.insertByTime(this.snapshotsByTime, this.snapshots);
+        break;
+      }
+      case 'event':
+        this.events.push(entry);
+        this.insertByTime(this.eventsByTime, this.events);
+        break;
+      case 'nodes':
+      case 'edges':
+      case 'membranes':
+        this.history[kind].push(entry);
+        break;
+      default:
+        throw new Error(`Unknown history log record kind ${kind}`);
+    }
+  }
+
+  private append(kind: RecordKind, timestamp: string, payload: string): void {
+    if (/[\t\n]/.test(timestamp)) {
+      throw new Error(`Invalid timestamp ${JSON.stringify(timestamp)}`);
+    }
+
+    const prefix = `${kind}\t${timestamp}\t`;
+    const line = Buffer.from(`${prefix}${payload}\n`, 'utf8');
+    fs.writeSync(this.fd, line, 0, line.length, this.size);
+
+    const prefixLength = Buffer.byteLength(prefix);
+    this.index(kind, timestamp, this.size + prefixLength, line.length - prefixLength - 1);
+    this.size += line.length;
+  }
+
+  /**
+   * Add the last entry to a time order index, after entries with the same
+   * time so recording order is kept among them. Entries usually arrive in
+   * time order and are then appended.
+   */
+  private insertByTime(order: number[], entries: RecordEntry[]): void {
+    const index = entries.length - 1;
+    const time = entries[index].time;
+    if (order.length === 0 || entries[order[order.length - 1]].time <= time) {
+      order.push(index);
+    } else {
+      order.splice(this.firstAtOrAfter(order, entries, time, true), 0, index);
+    }
+  }
+
+  /**
+   * First position in a time order index whose entry is at or after `time`
+   * (strictly after if `after`)
+   */
+  private firstAtOrAfter(order: number[], entries: RecordEntry[], time: number, after: boolean = false): number {
+    let low = 0;
+    let high = order.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      const middleTime = entries[order[middle]].time;
+      if (middleTime < time || (after && middleTime === time)) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+
+  private readSnapshot(index: number): SystemStateSnapshot {
+    // Reconstructed from a snapshot recorded by appendSnapshot
+    return structuredClone(this.reconstruct(index)) as unknown as SystemStateSnapshot;
+  }
+
+  /**
+   * Rebuild a snapshot by applying the deltas after the closest keyframe or
+   * cached snapshot before it
+   */
+  private reconstruct(index: number): Record<string, unknown> {
+    const chain: number[] = [];
+    let snapshot: Record<string, unknown> | undefined;
+
+    for (let cursor = index; ; cursor--) {
+      snapshot = this.cache.get(cursor);
+      if (snapshot) break;
+      chain.push(cursor);
+      if (this.snapshots[cursor].keyframe) break;
+    }
+
+    for (let i = chain.length - 1; i >= 0; i--) {
+      const entry = this.snapshots[chain[i]];
+      const payload = this.readPayload(entry) as Record<string, unknown>;
+      snapshot = entry.keyframe ? payload : applyPatch(snapshot!, payload);
+    }
+
+    this.cache.delete(index);
+    this.cache.set(index, snapshot!);
+    if (this.cache.size > this.cacheSize) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return snapshot!;
+  }
+
+  private readPayload(entry: RecordEntry): unknown {
+    const buffer = Buffer.alloc(entry.length);
+    fs.readSync(this.fd, buffer, 0, entry.length, entry.offset);
+    return JSON.parse(buffer.toString('utf8'));
+  }
+}
+
+/**
+ * Values that differ between two snapshots, by dotted path; arrays are
+ * compared as a whole
+ */
+export function diffSnapshots(before: SystemStateSnapshot, after: SystemStateSnapshot): SnapshotChange[] {
+  const changes: SnapshotChange[] = [];
+
+  const walk = (a: unknown, b: unknown, keyPath: string[]): void => {
+    if (isPlainObject(a) && isPlainObject(b)) {
+      for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+        walk(a[key], b[key], [...keyPath, key]);
+      }
+    } else if (!isEqual(a, b)) {
+      changes.push({ path: keyPath.join('.'), before: a, after: b });
+    }
+  };
+
+  walk(before, after, []);
+  // Every snapshot has its own timestamp and id
+  return changes.filter(change => change.path !== 'timestamp' && change.path !== 'id');
+}
+
+/**
+ * Patch turning one JSON object into another: changed keys map to their new
+ * value, or to a nested patch if both values are objects, and removed keys
+ * are listed under DELETED_KEYS
+ */
+function createPatch(from: Record<string, unknown>, to: Record<string, unknown>): Record<string, unknown> {
+  const patch: Record<string, unknown> = {};
+  const deleted = Object.keys(from).filter(key => !(key in to));
+  if (deleted.length > 0) {
+    patch[DELETED_KEYS] = deleted;
+  }
+
+  for (const [key, value] of Object.entries(to)) {
+    const previous = from[key];
+    if (isEqual(previous, value)) continue;
+    patch[key] = isPlainObject(previous) && isPlainObject(value) ? createPatch(previous, value) : value;
+  }
+
+  return patch;
+}
+
+function applyPatch(target: Record<string, unknown>, patch: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...target };
+  const deleted = patch[DELETED_KEYS];
+  if (Array.isArray(deleted)) {
+    deleted.forEach(key => delete result[String(key)]);
+  }
+
+  for (const [key, value] of Object.entries(patch)) {
+    if (key === DELETED_KEYS) continue;
+    const previous = result[key];
+    result[key] = isPlainObject(value) ? applyPatch(isPlainObject(previous) ? previous : {}, value) : value;
+  }
+
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object' || Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+
+  // Arrays compare like objects keyed by index
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = Object.keys(left);
+  return keys.length === Object.keys(right).length && keys.every(key => key in right && isEqual(left[key], right[key]));
+}
@@ -19,7 +19,10 @@ export { MembraneRenderer } from './membrane-renderer.js';
 // Interactive components
 export { DrillDownController } from './drill-down-controller.js';
 export { TimeTravelEngine } from './time-travel-engine.js';
+export { HistoryLog, HISTORY_LOG_FORMAT_VERSION, diffSnapshots } from './history-log.js';
 export { ExportManager } from './export-manager.js';
+export { HeadlessRenderer } from './headless-renderer.js';
+export { sceneToGraphML, sceneToGEXF, sceneToDOT } from './graph-formats.js';
 
 // Real-time capabilities
 export { RealTimeUpdater } from './real-time-updater.js';
@@ -3,16 +3,22 @@
  * 
  * Provides capabilities to navigate through historical system states,
  * replay events, and analyze temporal patterns in system behavior.
+ *
+ * History is kept in memory unless a HistoryLog is attached; the engine then
+ * records to the log and reads snapshots, events and node/edge/membrane
+ * history back from disk on demand, keeping only the log's index in memory.
  */
 
 import {
   SystemStateSnapshot,
+  SnapshotDiff,
   TimeTravelState,
   TimelineEvent,
   VisualizationNode,
   VisualizationEdge,
   MembraneVisualization
 } from './types.js';
+import { HistoryLog, diffSnapshots } from './history-log.js';
 
 interface TemporalData {
   snapshots: Map<string, SystemStateSnapshot>;
@@ -27,6 +33,9 @@ export class TimeTravelEngine {
   private state: TimeTravelState;
   private eventListeners: Map<string, Function[]> = new Map();
   private playbackTimer: NodeJS.Timeout | null = null;
+  private log: HistoryLog | null = null;
+  private minTime: number = Infinity; // earliest snapshot or event time
+  private maxTime: number = -Infinity; // latest snapshot or event time
   
   constructor() {
     this.temporalData = {
@@ -49,13 +58,63 @@ export class TimeTravelEngine {
     };
   }
 
+  /**
+   * Record to a history log from now on. Snapshots and history held in
+   * memory are moved into the log, and events already in the log are
+   * loaded, so attaching an opened log replays its session.
+   */
+  public attachLog(log: HistoryLog): void {
+    this.log?.close();
+
+    Array.from(this.temporalData.snapshots.values())
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+      .forEach(snapshot => log.appendSnapshot(snapshot));
+    for (const [timestamp, nodeMap] of this.temporalData.nodeHistory) {
+      log.appendHistory('nodes', timestamp, Array.from(nodeMap.values()));
+    }
+    for (const [timestamp, edgeMap] of this.temporalData.edgeHistory) {
+      log.appendHistory('edges', timestamp, Array.from(edgeMap.values()));
+    }
+    for (const [timestamp, membraneMap] of this.temporalData.membraneHistory) {
+      log.appendHistory('membranes', timestamp, Array.from(membraneMap.values()));
+    }
+    this.temporalData.events.forEach(event => log.appendEvent(event));
+
+    this.temporalData.snapshots.clear();
+    this.temporalData.nodeHistory.clear();
+    this.temporalData.edgeHistory.clear();
+    this.temporalData.membraneHistory.clear();
+    this.temporalData.events = [];
+
+    this.log = log;
+    this.state.availableSnapshots = log.getSnapshotTimestamps();
+    this.resetTimeRange();
+
+    this.emit('logAttached', { log });
+  }
+
+  /**
+   * Get the attached history log, if any
+   */
+  public getLog(): HistoryLog | null {
+    return this.log;
+  }
+
   /**
    * Add a new system state snapshot
    */
   public addSnapshot(snapshot: SystemStateSnapshot): void {
-    this.temporalData.snapshots.set(snapshot.timestamp, snapshot);
-    this.updateAvailableSnapshots();
-    this.updateTimeRange();
+    // The log keeps every snapshot; in memory a snapshot replaces one with the same timestamp
+    const isNew = this.log !== null || !this.temporalData.snapshots.has(snapshot.timestamp);
+    if (this.log) {
+      this.log.appendSnapshot(snapshot);
+    } else {
+      this.temporalData.snapshots.set(snapshot.timestamp, snapshot);
+    }
+    if (isNew) {
+      insertInTimeOrder(this.state.availableSnapshots, snapshot.timestamp, timestamp => timestamp);
+    }
+    this.extendTimeRange(new Date(snapshot.timestamp).getTime());
     
     // Record as an event
     this.addEvent({
@@ -74,6 +133,11 @@ export class TimeTravelEngine {
    * Add historical data for nodes
    */
   public addNodeHistory(timestamp: string, nodes: VisualizationNode[]): void {
+    if (this.log) {
+      this.log.appendHistory('nodes', timestamp, nodes);
+      return;
+    }
+
     if (!this.temporalData.nodeHistory.has(timestamp)) {
       this.temporalData.nodeHistory.set(timestamp, new Map());
     }
@@ -88,6 +152,11 @@ export class TimeTravelEngine {
    * Add historical data for edges
    */
   public addEdgeHistory(timestamp: string, edges: VisualizationEdge[]): void {
+    if (this.log) {
+      this.log.appendHistory('edges', timestamp, edges);
+      return;
+    }
+
     if (!this.temporalData.edgeHistory.has(timestamp)) {
       this.temporalData.edgeHistory.set(timestamp, new Map());
     }
@@ -102,6 +171,11 @@ export class TimeTravelEngine {
    * Add historical data for membranes
    */
   public addMembraneHistory(timestamp: string, membranes: MembraneVisualization[]): void {
+    if (this.log) {
+      this.log.appendHistory('membranes', timestamp, membranes);
+      return;
+    }
+
     if (!this.temporalData.membraneHistory.has(timestamp)) {
       this.temporalData.membraneHistory.set(timestamp, new Map());
     }
@@ -116,8 +190,12 @@ export class TimeTravelEngine {
    * Add a timeline event
    */
   public addEvent(event: TimelineEvent): void {
-    this.temporalData.events.push(event);
-    this.temporalData.events.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    if (this.log) {
+      this.log.appendEvent(event);
+    } else {
+      insertInTimeOrder(this.temporalData.events, event, event => event.timestamp);
+    }
+    this.extendTimeRange(new Date(event.timestamp).getTime());
     
     this.emit('eventAdded', { event });
   }
@@ -146,6 +224,10 @@ export class TimeTravelEngine {
    * Get snapshot at specific time (or closest available)
    */
   public getSnapshotAtTime(timestamp: string): SystemStateSnapshot | null {
+    if (this.log) {
+      return this.log.getSnapshotNear(timestamp);
+    }
+
     // Try exact match first
     const exactSnapshot = this.temporalData.snapshots.get(timestamp);
     if (exactSnapshot) {
@@ -172,7 +254,9 @@ export class TimeTravelEngine {
    * Get nodes at specific time
    */
   public getNodesAtTime(timestamp: string): VisualizationNode[] {
-    const nodeMap = this.findClosestHistoricalData(timestamp, this.temporalData.nodeHistory);
+    const nodeMap = this.log
+      ? this.log.getHistoryNear<VisualizationNode>('nodes', timestamp)
+      : this.findClosestHistoricalData(timestamp, this.temporalData.nodeHistory);
     return nodeMap ? Array.from(nodeMap.values()) : [];
   }
 
@@ -180,7 +264,9 @@ export class TimeTravelEngine {
    * Get edges at specific time
    */
   public getEdgesAtTime(timestamp: string): VisualizationEdge[] {
-    const edgeMap = this.findClosestHistoricalData(timestamp, this.temporalData.edgeHistory);
+    const edgeMap = this.log
+      ? this.log.getHistoryNear<VisualizationEdge>('edges', timestamp)
+      : this.findClosestHistoricalData(timestamp, this.temporalData.edgeHistory);
     return edgeMap ? Array.from(edgeMap.values()) : [];
   }
 
@@ -188,7 +274,9 @@ export class TimeTravelEngine {
    * Get membranes at specific time
    */
   public getMembranesAtTime(timestamp: string): MembraneVisualization[] {
-    const membraneMap = this.findClosestHistoricalData(timestamp, this.temporalData.membraneHistory);
+    const membraneMap = this.log
+      ? this.log.getHistoryNear<MembraneVisualization>('membranes', timestamp)
+      : this.findClosestHistoricalData(timestamp, this.temporalData.membraneHistory);
     return membraneMap ? Array.from(membraneMap.values()) : [];
   }
 
@@ -196,13 +284,27 @@ export class TimeTravelEngine {
    * Get events in a time range
    */
   public getEventsInRange(startTime: string, endTime: string): TimelineEvent[] {
-    const start = new Date(startTime).getTime();
-    const end = new Date(endTime).getTime();
-    
-    return this.temporalData.events.filter(event => {
-      const eventTime = new Date(event.timestamp).getTime();
-      return eventTime >= start && eventTime <= end;
-    });
+    return Array.from(this.eventsInRange(startTime, endTime));
+  }
+
+  /**
+   * Get snapshots in a time range, in time order
+   */
+  public getSnapshotsInRange(startTime: string, endTime: string): SystemStateSnapshot[] {
+    return Array.from(this.snapshotsInRange(startTime, endTime));
+  }
+
+  /**
+   * Compare the snapshots closest to two times
+   */
+  public compareSnapshots(fromTime: string, toTime: string): SnapshotDiff | null {
+    const from = this.getSnapshotAtTime(fromTime);
+    const to = this.getSnapshotAtTime(toTime);
+    if (!from || !to) {
+      return null;
+    }
+
+    return { from: from.timestamp, to: to.timestamp, changes: diffSnapshots(from, to) };
   }
 
   /**
@@ -265,12 +367,11 @@ export class TimeTravelEngine {
    */
   public stepForward(): void {
     const currentTime = new Date(this.state.currentTime).getTime();
-    const nextEvent = this.temporalData.events.find(event => 
-      new Date(event.timestamp).getTime() > currentTime
-    );
-    
-    if (nextEvent) {
-      this.seekTo(nextEvent.timestamp);
+    for (const event of this.eventsInRange(this.state.currentTime)) {
+      if (new Date(event.timestamp).getTime() > currentTime) {
+        this.seekTo(event.timestamp);
+        return;
+      }
     }
   }
 
@@ -279,12 +380,11 @@ export class TimeTravelEngine {
    */
   public stepBackward(): void {
     const currentTime = new Date(this.state.currentTime).getTime();
-    const previousEvent = [...this.temporalData.events]
-      .reverse()
-      .find(event => new Date(event.timestamp).getTime() < currentTime);
-    
-    if (previousEvent) {
-      this.seekTo(previousEvent.timestamp);
+    for (const event of this.eventsInRange(undefined, this.state.currentTime, true)) {
+      if (new Date(event.timestamp).getTime() < currentTime) {
+        this.seekTo(event.timestamp);
+        return;
+      }
     }
   }
 
@@ -303,10 +403,11 @@ export class TimeTravelEngine {
   }
 
   /**
-   * Get timeline events for visualization
+   * Get timeline events and snapshots between two times (inclusive, the
+   * whole timeline if omitted) for visualization
    */
-  public getTimelineVisualization(): any {
-    const events = this.temporalData.events.map(event => ({
+  public getTimelineVisualization(startTime?: string, endTime?: string): any {
+    const events = Array.from(this.eventsInRange(startTime, endTime), event => ({
       timestamp: event.timestamp,
       type: event.type,
       importance: event.importance,
@@ -314,7 +415,12 @@ export class TimeTravelEngine {
       affected: event.affected
     }));
     
-    const snapshots = Array.from(this.temporalData.snapshots.keys()).map(timestamp => ({
+    const start = startTime === undefined ? -Infinity : new Date(startTime).getTime();
+    const end = endTime === undefined ? Infinity : new Date(endTime).getTime();
+    const snapshots = this.state.availableSnapshots.filter(timestamp => {
+      const time = new Date(timestamp).getTime();
+      return time >= start && time <= end;
+    }).map(timestamp => ({
       timestamp,
       type: 'snapshot',
       importance: 0.7
@@ -330,15 +436,17 @@ export class TimeTravelEngine {
   }
 
   /**
-   * Analyze temporal patterns
+   * Analyze temporal patterns. Each pass streams the events, so the log is
+   * never loaded as a whole.
    */
   public analyzeTemporalPatterns(): any {
+    const eventFrequency = this.analyzeEventFrequency();
     const analysis = {
-      eventFrequency: this.analyzeEventFrequency(),
+      eventFrequency,
       stateChanges: this.analyzeStateChanges(),
-      cyclic: this.detectCyclicPatterns(),
+      cyclic: this.detectCyclicPatterns(eventFrequency.totalEvents),
       trends: this.analyzeTrends(),
-      anomalies: this.detectAnomalies()
+      anomalies: this.detectAnomalies(eventFrequency.totalEvents)
     };
     
     return analysis;
@@ -348,12 +456,14 @@ export class TimeTravelEngine {
    * Export temporal data
    */
   public exportTemporalData(): any {
+    const snapshots = Array.from(this.snapshotsInRange(), snapshot => [snapshot.timestamp, snapshot]);
+
     return {
-      snapshots: Object.fromEntries(this.temporalData.snapshots),
-      events: this.temporalData.events,
-      nodeHistory: this.exportHistoryMap(this.temporalData.nodeHistory),
-      edgeHistory: this.exportHistoryMap(this.temporalData.edgeHistory),
-      membraneHistory: this.exportHistoryMap(this.temporalData.membraneHistory),
+      snapshots: Object.fromEntries(snapshots),
+      events: Array.from(this.eventsInRange()),
+      nodeHistory: this.exportHistoryMap(this.log?.readHistory('nodes') ?? this.temporalData.nodeHistory),
+      edgeHistory: this.exportHistoryMap(this.log?.readHistory('edges') ?? this.temporalData.edgeHistory),
+      membraneHistory: this.exportHistoryMap(this.log?.readHistory('membranes') ?? this.temporalData.membraneHistory),
       timeRange: this.state.timeRange,
       totalDuration: this.getTimeRangeMs()
     };
@@ -363,12 +473,17 @@ export class TimeTravelEngine {
    * Import temporal data
    */
   public importTemporalData(data: any): void {
+    if (this.log) {
+      throw new Error('Cannot import temporal data while recording to a history log');
+    }
+
     if (data.snapshots) {
       this.temporalData.snapshots = new Map(Object.entries(data.snapshots));
     }
     
     if (data.events) {
-      this.temporalData.events = data.events;
+      this.temporalData.events = [...data.events]
+        .sort((a: TimelineEvent, b: TimelineEvent) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
     }
     
     if (data.nodeHistory) {
@@ -383,34 +498,51 @@ export class TimeTravelEngine {
       this.temporalData.membraneHistory = this.importHistoryMap(data.membraneHistory);
     }
     
-    this.updateAvailableSnapshots();
-    this.updateTimeRange();
+    this.state.availableSnapshots = Array.from(this.temporalData.snapshots.keys())
+      .sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+    this.resetTimeRange();
     
     this.emit('dataImported', { data });
   }
 
   // ========== Private Methods ==========
 
-  private updateAvailableSnapshots(): void {
-    this.state.availableSnapshots = Array.from(this.temporalData.snapshots.keys())
-      .sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+  /**
+   * Recompute the time range from the first and last snapshot and event
+   */
+  private resetTimeRange(): void {
+    this.minTime = Infinity;
+    this.maxTime = -Infinity;
+
+    if (this.log) {
+      const range = this.log.getTimeRange();
+      if (range) {
+        this.extendTimeRange(range.start);
+        this.extendTimeRange(range.end);
+      }
+      return;
+    }
+
+    const snapshots = this.state.availableSnapshots;
+    const events = this.temporalData.events;
+    [snapshots[0], snapshots[snapshots.length - 1], events[0]?.timestamp, events[events.length - 1]?.timestamp]
+      .forEach(timestamp => timestamp !== undefined && this.extendTimeRange(new Date(timestamp).getTime()));
   }
 
-  private updateTimeRange(): void {
-    const timestamps = [
-      ...Array.from(this.temporalData.snapshots.keys()),
-      ...this.temporalData.events.map(e => e.timestamp)
-    ].map(t => new Date(t).getTime()).filter(t => !isNaN(t));
-    
-    if (timestamps.length > 0) {
-      const minTime = Math.min(...timestamps);
-      const maxTime = Math.max(...timestamps);
-      
-      this.state.timeRange = {
-        start: new Date(minTime).toISOString(),
-        end: new Date(maxTime).toISOString()
-      };
+  /**
+   * Widen the time range to include a time (epoch ms)
+   */
+  private extendTimeRange(time: number): void {
+    if (isNaN(time) || (time >= this.minTime && time <= this.maxTime)) {
+      return;
     }
+
+    this.minTime = Math.min(this.minTime, time);
+    this.maxTime = Math.max(this.maxTime, time);
+    this.state.timeRange = {
+      start: new Date(this.minTime).toISOString(),
+      end: new Date(this.maxTime).toISOString()
+    };
   }
 
   private getTimeRangeMs(): number {
@@ -426,6 +558,48 @@ export class TimeTravelEngine {
     return !isNaN(time) && time >= startTime && time <= endTime;
   }
 
+  /**
+   * Events between two times (inclusive, unbounded if omitted) in time
+   * order, or latest first if `reverse`; read lazily from the log when one
+   * is attached
+   */
+  private *eventsInRange(startTime?: string, endTime?: string, reverse: boolean = false): Generator<TimelineEvent> {
+    if (this.log) {
+      yield* this.log.eventsBetween(startTime, endTime, reverse);
+      return;
+    }
+
+    const start = startTime === undefined ? -Infinity : new Date(startTime).getTime();
+    const end = endTime === undefined ? Infinity : new Date(endTime).getTime();
+    const events = this.temporalData.events;
+    for (let i = 0; i < events.length; i++) {
+      const event = events[reverse ? events.length - 1 - i : i];
+      const time = new Date(event.timestamp).getTime();
+      if (time >= start && time <= end) {
+        yield event;
+      }
+    }
+  }
+
+  /**
+   * Snapshots in time order, read lazily from the log when one is attached
+   */
+  private *snapshotsInRange(startTime?: string, endTime?: string): Generator<SystemStateSnapshot> {
+    if (this.log) {
+      yield* this.log.snapshotsBetween(startTime, endTime);
+      return;
+    }
+
+    const start = startTime === undefined ? -Infinity : new Date(startTime).getTime();
+    const end = endTime === undefined ? Infinity : new Date(endTime).getTime();
+    for (const timestamp of this.state.availableSnapshots) {
+      const time = new Date(timestamp).getTime();
+      if (time >= start && time <= end) {
+        yield this.temporalData.snapshots.get(timestamp)!;
+      }
+    }
+  }
+
   private findClosestHistoricalData<T>(timestamp: string, historyMap: Map<string, Map<string, T>>): Map<string, T> | null {
     const targetTime = new Date(timestamp).getTime();
     let closestTime: string | null = null;
@@ -462,8 +636,11 @@ export class TimeTravelEngine {
   private analyzeEventFrequency(): any {
     const eventCounts: Record<string, number> = {};
     const hourlyFrequency: Record<string, number> = {};
+    let totalEvents = 0;
     
-    this.temporalData.events.forEach(event => {
+    for (const event of this.eventsInRange()) {
+      totalEvents++;
+
       // Count by type
       eventCounts[event.type] = (eventCounts[event.type] || 0) + 1;
       
@@ -471,25 +648,25 @@ export class TimeTravelEngine {
       const hour = new Date(event.timestamp).getHours();
       const hourKey = `${hour}:00`;
       hourlyFrequency[hourKey] = (hourlyFrequency[hourKey] || 0) + 1;
-    });
+    }
     
     return {
       byType: eventCounts,
       byHour: hourlyFrequency,
-      totalEvents: this.temporalData.events.length,
-      averagePerHour: this.temporalData.events.length / 24
+      totalEvents,
+      averagePerHour: totalEvents / 24
     };
   }
 
   private analyzeStateChanges(): any {
-    const snapshots = Array.from(this.temporalData.snapshots.values())
-      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-    
     const changes = [];
+    let prev: SystemStateSnapshot | null = null;
     
-    for (let i = 1; i < snapshots.length; i++) {
-      const prev = snapshots[i - 1];
-      const curr = snapshots[i];
+    for (const curr of this.snapshotsInRange()) {
+      if (!prev) {
+        prev = curr;
+        continue;
+      }
       
       changes.push({
         timestamp: curr.timestamp,
@@ -497,6 +674,7 @@ export class TimeTravelEngine {
         taskChange: curr.taskExecution.completedTasks - prev.taskExecution.completedTasks,
         aiChange: curr.aiActivity.tokenUsage - prev.aiActivity.tokenUsage
       });
+      prev = curr;
     }
     
     return {
@@ -506,16 +684,23 @@ export class TimeTravelEngine {
     };
   }
 
-  private detectCyclicPatterns(): any {
+  private detectCyclicPatterns(totalEvents: number): any {
     // Simple cyclic pattern detection
-    const eventTypes = this.temporalData.events.map(e => e.type);
+    const maxLength = 5;
+    const recentTypes: string[] = [];
     const patterns: Record<string, number> = {};
     
-    // Look for repeating sequences
-    for (let length = 2; length <= 5; length++) {
-      for (let i = 0; i <= eventTypes.length - length * 2; i++) {
-        const pattern = eventTypes.slice(i, i + length).join(',');
-        const nextPattern = eventTypes.slice(i + length, i + length * 2).join(',');
+    // Look for sequences repeated right before each event
+    for (const event of this.eventsInRange()) {
+      recentTypes.push(event.type);
+      if (recentTypes.length > maxLength * 2) {
+        recentTypes.shift();
+      }
+
+      for (let length = 2; length <= maxLength && length * 2 <= recentTypes.length; length++) {
+        const end = recentTypes.length;
+        const pattern = recentTypes.slice(end - length * 2, end - length).join(',');
+        const nextPattern = recentTypes.slice(end - length, end).join(',');
         
         if (pattern === nextPattern) {
           patterns[pattern] = (patterns[pattern] || 0) + 1;
@@ -525,21 +710,27 @@ export class TimeTravelEngine {
     
     return {
       repeatingPatterns: patterns,
-      cyclicityScore: Object.keys(patterns).length / eventTypes.length
+      cyclicityScore: Object.keys(patterns).length / totalEvents
     };
   }
 
   private analyzeTrends(): any {
-    const snapshots = Array.from(this.temporalData.snapshots.values())
-      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    const memory: number[] = [];
+    const tasks: number[] = [];
+    const ai: number[] = [];
+    for (const snapshot of this.snapshotsInRange()) {
+      memory.push(snapshot.memoryUsage.totalItems);
+      tasks.push(snapshot.taskExecution.completedTasks);
+      ai.push(snapshot.aiActivity.tokenUsage);
+    }
     
-    if (snapshots.length < 2) {
+    if (memory.length < 2) {
       return { insufficient_data: true };
     }
     
-    const memoryTrend = this.calculateTrend(snapshots.map(s => s.memoryUsage.totalItems));
-    const taskTrend = this.calculateTrend(snapshots.map(s => s.taskExecution.completedTasks));
-    const aiTrend = this.calculateTrend(snapshots.map(s => s.aiActivity.tokenUsage));
+    const memoryTrend = this.calculateTrend(memory);
+    const taskTrend = this.calculateTrend(tasks);
+    const aiTrend = this.calculateTrend(ai);
     
     return {
       memory: { trend: memoryTrend > 0.1 ? 'increasing' : memoryTrend < -0.1 ? 'decreasing' : 'stable', value: memoryTrend },
@@ -561,19 +752,21 @@ export class TimeTravelEngine {
     return slope;
   }
 
-  private detectAnomalies(): any {
-    const events = this.temporalData.events;
+  private detectAnomalies(totalEvents: number): any {
     const anomalies = [];
+    const averageGap = this.getTimeRangeMs() / totalEvents;
     
     // Detect time gaps larger than normal
-    for (let i = 1; i < events.length; i++) {
-      const timeDiff = new Date(events[i].timestamp).getTime() - new Date(events[i - 1].timestamp).getTime();
-      const averageGap = this.getTimeRangeMs() / events.length;
+    let previousTime: number | null = null;
+    for (const event of this.eventsInRange()) {
+      const time = new Date(event.timestamp).getTime();
+      const timeDiff = previousTime === null ? 0 : time - previousTime;
+      previousTime = time;
       
       if (timeDiff > averageGap * 3) {
         anomalies.push({
           type: 'time_gap',
-          timestamp: events[i].timestamp,
+          timestamp: event.timestamp,
           description: `Unusually large time gap: ${timeDiff}ms`,
           severity: timeDiff > averageGap * 5 ? 'high' : 'medium'
         });
@@ -596,37 +789,41 @@ export class TimeTravelEngine {
     return {
       anomalies,
       totalAnomalies: anomalies.length,
-      anomalyRate: anomalies.length / events.length
+      anomalyRate: anomalies.length / totalEvents
     };
   }
 
   private findEventClusters(): any[] {
-    const clusters = [];
+    const clusters: any[] = [];
     const windowSize = 60000; // 1 minute window
-    
-    let windowStart = 0;
-    while (windowStart < this.temporalData.events.length) {
-      const windowTime = new Date(this.temporalData.events[windowStart].timestamp).getTime();
-      let windowEnd = windowStart;
-      
-      while (windowEnd < this.temporalData.events.length) {
-        const eventTime = new Date(this.temporalData.events[windowEnd].timestamp).getTime();
-        if (eventTime - windowTime > windowSize) break;
-        windowEnd++;
-      }
-      
-      const eventsInWindow = windowEnd - windowStart;
-      if (eventsInWindow > 1) {
+
+    // One window opens at each event and closes at the first event more than
+    // windowSize later, so only the last minute of events is held at a time
+    const openWindows: Array<{ startTime: string; time: number; endTime: string; eventCount: number }> = [];
+    const closeWindow = (window: { startTime: string; endTime: string; eventCount: number }) => {
+      if (window.eventCount > 1) {
         clusters.push({
-          startTime: this.temporalData.events[windowStart].timestamp,
-          endTime: this.temporalData.events[windowEnd - 1].timestamp,
-          eventCount: eventsInWindow,
-          density: eventsInWindow / (windowSize / 1000) // events per second
+          startTime: window.startTime,
+          endTime: window.endTime,
+          eventCount: window.eventCount,
+          density: window.eventCount / (windowSize / 1000) // events per second
         });
       }
-      
-      windowStart++;
+    };
+    
+    for (const event of this.eventsInRange()) {
+      const eventTime = new Date(event.timestamp).getTime();
+      while (openWindows.length > 0 && eventTime - openWindows[0].time > windowSize) {
+        closeWindow(openWindows.shift()!);
+      }
+
+      openWindows.push({ startTime: event.timestamp, time: eventTime, endTime: event.timestamp, eventCount: 0 });
+      for (const window of openWindows) {
+        window.eventCount++;
+        window.endTime = event.timestamp;
+      }
     }
+    openWindows.forEach(closeWindow);
     
     return clusters;
   }
@@ -703,6 +900,8 @@ export class TimeTravelEngine {
 
   public destroy(): void {
     this.stopPlayback();
+    this.log?.close();
+    this.log = null;
     this.eventListeners.clear();
     this.temporalData.snapshots.clear();
     this.temporalData.events = [];
@@ -710,4 +909,17 @@ export class TimeTravelEngine {
     this.temporalData.edgeHistory.clear();
     this.temporalData.membraneHistory.clear();
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Insert an item into an array kept in time order, after items with the same
+ * time. Items usually arrive in time order, so the scan from the end is short.
+ */
+function insertInTimeOrder<T>(items: T[], item: T, timestampOf: (item: T) => string): void {
+  const time = new Date(timestampOf(item)).getTime();
+  let position = items.length;
+  while (position > 0 && new Date(timestampOf(items[position - 1])).getTime() > time) {
+    position--;
+  }
+  items.splice(position, 0, item);
+}
@@ -281,6 +281,25 @@ export interface TimeTravelState {
   isPlaying: boolean;
 }
 
+export type HistoryKind = 'nodes' | 'edges' | 'membranes';
+
+export interface HistoryLogOptions {
+  keyframeInterval?: number; // snapshots per keyframe; the rest are stored as deltas
+  cacheSize?: number; // reconstructed snapshots kept in memory
+}
+
+export interface SnapshotChange {
+  path: string; // dotted path of the changed value, e.g. 'memoryUsage.totalItems'
+  before: any; // undefined if the value was added
+  after: any; // undefined if the value was removed
+}
+
+export interface SnapshotDiff {
+  from: string; // timestamp of the earlier snapshot
+  to: string; // timestamp of the later snapshot
+  changes: SnapshotChange[];
+}
+
 // ========== Drill-Down & Navigation ==========
 
 export interface DrillDownContext {
@@ -307,7 +326,7 @@ export interface NavigationAction {
 // ========== Export & Sharing ==========
 
 export interface ExportOptions {
-  format: 'png' | 'svg' | 'pdf' | 'json' | 'csv' | 'html';
+  format: 'png' | 'svg' | 'pdf' | 'json' | 'csv' | 'html' | 'graphml' | 'gexf' | 'dot';
   quality: number; // 0-1 scale
   includeData: boolean;
   includeMetadata: boolean;
@@ -319,6 +338,13 @@ export interface ExportOptions {
   embedFonts?: boolean;
 }
 
+export interface VisualizationScene {
+  nodes: VisualizationNode[];
+  edges: VisualizationEdge[];
+  membranes: MembraneVisualization[];
+  title?: string;
+}
+
 export interface ExportResult {
   success: boolean;
   data: string | ArrayBuffer;
@@ -10,11 +10,54 @@ import {
   VisualizationNode,
   VisualizationEdge,
   MembraneVisualization,
-  SystemStateSnapshot
+  SystemStateSnapshot,
+  VisualizationConfig
 } from './types.js';
 
 export class VisualizationUtils {
-  
+  // ========== Configuration ==========
+
+  /**
+   * Default visualization configuration, with overrides applied
+   */
+  public static createDefaultConfig(overrides: Partial<VisualizationConfig> = {}): VisualizationConfig {
+    return {
+      theme: 'dark',
+      colorScheme: {
+        memoryNode: '#4CAF50',
+        conceptNode: '#2196F3',
+        agentNode: '#FF9800',
+        kernelNode: '#9C27B0',
+        semanticEdge: '#81C784',
+        causalEdge: '#64B5F6',
+        temporalEdge: '#FFB74D',
+        hierarchicalEdge: '#BA68C8',
+        membrane: '#37474F',
+        membraneBoundary: '#546E7A',
+        activePort: '#4CAF50',
+        inactivePort: '#757575',
+        healthy: '#4CAF50',
+        warning: '#FF9800',
+        critical: '#F44336',
+        unknown: '#9E9E9E'
+      },
+      layout: {
+        algorithm: 'force-directed',
+        spacing: 100,
+        clustering: true,
+        layering: false
+      },
+      maxNodes: 1000,
+      maxEdges: 2000,
+      refreshRate: 60,
+      enableDrillDown: true,
+      enableTimeTravel: true,
+      enableExport: true,
+      enableRealTime: true,
+      ...overrides
+    };
+  }
+
   // ========== Mathematical Utilities ==========
 
   /**
@@ -175,6 +218,33 @@ export class VisualizationUtils {
     return this.rgbToHex(r, g, b);
   }
 
+  /**
+   * Parse a hex, rgb(a) or hsl(a) CSS color into 0-255 channels and a 0-1 alpha
+   */
+  public static parseColor(color: string): { r: number, g: number, b: number, a: number } | null {
+    const value = color.trim().toLowerCase();
+
+    const hex = value.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+    if (hex) {
+      const digits = hex[1].length <= 4 ? hex[1].split('').map(digit => digit + digit).join('') : hex[1];
+      const channel = (index: number) => parseInt(digits.slice(index * 2, index * 2 + 2), 16);
+      return { r: channel(0), g: channel(1), b: channel(2), a: digits.length === 8 ? channel(3) / 255 : 1 };
+    }
+
+    const functional = value.match(/^(rgba?|hsla?)\(([^)]*)\)$/);
+    if (!functional) return null;
+
+    const parts = functional[2].split(/[\s,\/]+/).filter(part => part.length > 0).map(part => parseFloat(part));
+    if (parts.length < 3 || parts.some(part => isNaN(part))) return null;
+
+    const alpha = parts.length > 3 ? this.clamp(parts[3], 0, 1) : 1;
+    if (functional[1].startsWith('hsl')) {
+      return { ...this.hslToRgb(parts[0], parts[1], parts[2]), a: alpha };
+    }
+    const [r, g, b] = parts.map(part => Math.round(this.clamp(part, 0, 255)));
+    return { r, g, b, a: alpha };
+  }
+
   // ========== Data Processing Utilities ==========
 
   /**
@@ -542,6 +612,13 @@ export class VisualizationUtils {
     return `${(ms / 3600000).toFixed(1)}h`;
   }
 
+  /**
+   * Escape text for XML content and attribute values
+   */
+  public static escapeXml(text: string): string {
+    return text.replace(/[&<>"']/g, char => `&${{ '&': 'amp', '<': 'lt', '>': 'gt', '"': 'quot', "'": 'apos' }[char]};`);
+  }
+
   /**
    * Truncate text with ellipsis
    */
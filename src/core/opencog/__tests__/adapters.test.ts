@@ -6,8 +6,10 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
-import { AtomSpaceAdapter, AtomSpace, Atom, TruthValue } from '../atomspace-adapter.js';
+import { AtomSpaceAdapter, AtomSpace, Atom, Link, AtomType, TruthValue } from '../atomspace-adapter.js';
 import { PLNAdapter, PLNQuery, TruthValueOperations } from '../pln-adapter.js';
+import { PLNRuleRegistry, DEFAULT_PLN_RULES } from '../pln-rules.js';
+import { PLNRevision } from '../pln-revision.js';
 import { KernelStateConverter } from '../kernel-state-converter.js';
 import { CognitiveState, CognitiveNode, CognitiveEdge, Tensor } from '../../mad9ml/types.js';
 
@@ -265,9 +267,51 @@ describe('AtomSpaceAdapter', () => {
       expect(atomSpace.links.size).toBe(0);
       expect(atomSpace.typeIndex.size).toBe(0);
     });
+
+    it('should not reuse IDs of a shared AtomSpace with gaps', () => {
+      adapter.convertCognitiveState(mockState);
+      const atomSpace = adapter.getAtomSpace();
+      const indexOf = (id: string) => Number(/^atom_(\d+)_/.exec(id)![1]);
+      const existing = [...atomSpace.atoms.keys(), ...atomSpace.links.keys()];
+      const highest = Math.max(...existing.map(indexOf));
+      existing.slice(0, 3).forEach(id => atomSpace.atoms.delete(id));
+
+      const shared = new AtomSpaceAdapter(atomSpace);
+      const before = new Set([...atomSpace.atoms.keys(), ...atomSpace.links.keys()]);
+      shared.convertCognitiveState(mockState);
+
+      const added = [...atomSpace.atoms.keys(), ...atomSpace.links.keys()].filter(id => !before.has(id));
+      expect(added.length).toBeGreaterThan(0);
+      added.forEach(id => expect(indexOf(id)).toBeGreaterThan(highest));
+    });
   });
 });
 
+function createConcept(name: string, strength: number = 0.9): Atom {
+  return {
+    id: name,
+    type: 'ConceptNode',
+    name,
+    truthValue: { strength, confidence: 0.9 },
+    attentionValue: { sti: 0.5, lti: 0.3, vlti: 0.1 },
+    metadata: {},
+    source: { kernelId: 'test' }
+  };
+}
+
+function createTestLink(type: AtomType, outgoing: string[], strength: number = 0.9): Link {
+  return {
+    id: `${type}_${outgoing.join('_')}`,
+    type,
+    name: `${type}_${outgoing.join('_')}`,
+    truthValue: { strength, confidence: 0.9 },
+    attentionValue: { sti: 0.5, lti: 0.3, vlti: 0.1 },
+    metadata: {},
+    source: { kernelId: 'test' },
+    outgoing
+  };
+}
+
 describe('TruthValueOperations', () => {
   let truthValue1: TruthValue;
   let truthValue2: TruthValue;
@@ -325,6 +369,43 @@ describe('TruthValueOperations', () => {
     const disjResult = TruthValueOperations.disjunction(zeroTruth, oneTruth);
     expect(disjResult.strength).toBe(1);
   });
+
+  it('should perform modus ponens correctly', () => {
+    const result = TruthValueOperations.modusPonens(truthValue1, truthValue2);
+
+    expect(result.strength).toBeCloseTo(0.8 * 0.6 + 0.2 * 0.2, 5);
+    expect(result.confidence).toBeLessThanOrEqual(Math.min(0.9, 0.7));
+  });
+
+  it('should weaken analogy relative to deduction', () => {
+    const deduction = TruthValueOperations.deduction(truthValue1, truthValue2);
+    const analogy = TruthValueOperations.analogy(truthValue1, truthValue2);
+
+    expect(analogy.strength).toBe(deduction.strength);
+    expect(analogy.confidence).toBeLessThan(deduction.confidence);
+  });
+
+  it('should compute extensional and intensional inheritance from evidence pairs', () => {
+    const pairs: Array<[TruthValue, TruthValue]> = [
+      [{ strength: 1, confidence: 0.9 }, { strength: 1, confidence: 0.9 }],
+      [{ strength: 1, confidence: 0.9 }, { strength: 0, confidence: 0.9 }]
+    ];
+
+    expect(TruthValueOperations.extensionalInheritance(pairs).strength).toBeCloseTo(0.5, 5);
+    expect(TruthValueOperations.intensionalInheritance(pairs).strength).toBeCloseTo(1, 5);
+    expect(TruthValueOperations.extensionalInheritance([]).confidence).toBe(0);
+  });
+
+  it('should weight revision by evidence', () => {
+    const weak: TruthValue = { strength: 0.2, confidence: 0.5 };
+    const strong: TruthValue = { strength: 0.9, confidence: 0.9 };
+    const result = TruthValueOperations.revision(weak, strong);
+
+    // n = k * c / (1 - c): 10 and 90 pieces of evidence
+    expect(result.strength).toBeCloseTo((10 * 0.2 + 90 * 0.9) / 100, 5);
+    expect(result.confidence).toBeCloseTo(100 / 110, 5);
+    expect(result.confidence).toBeGreaterThan(strong.confidence);
+  });
 });
 
 describe('PLNAdapter', () => {
@@ -576,6 +657,225 @@ describe('PLNAdapter', () => {
   });
 });
 
+describe('PLN Chaining', () => {
+  let atomSpaceAdapter: AtomSpaceAdapter;
+  let plnAdapter: PLNAdapter;
+
+  beforeEach(() => {
+    atomSpaceAdapter = new AtomSpaceAdapter();
+    ['cat', 'mammal', 'vertebrate', 'animal', 'rain', 'wet'].forEach(name =>
+      atomSpaceAdapter.putAtom(createConcept(name))
+    );
+    atomSpaceAdapter.putAtom(createTestLink('InheritanceLink', ['cat', 'mammal']));
+    atomSpaceAdapter.putAtom(createTestLink('InheritanceLink', ['mammal', 'vertebrate']));
+    atomSpaceAdapter.putAtom(createTestLink('InheritanceLink', ['vertebrate', 'animal']));
+    atomSpaceAdapter.putAtom(createTestLink('ImplicationLink', ['rain', 'wet']));
+    plnAdapter = new PLNAdapter(atomSpaceAdapter.getAtomSpace());
+  });
+
+  describe('Rule Registry', () => {
+    it('should provide the default rule set', () => {
+      const registry = plnAdapter.getRuleRegistry();
+
+      expect(registry.getRules().length).toBe(DEFAULT_PLN_RULES.length);
+      expect(registry.has('ModusPonensRule')).toBe(true);
+      expect(registry.get('DeductionRule')?.formula).toBe('TruthValueOperations.deduction');
+    });
+
+    it('should register, unregister and weight rules', () => {
+      const registry = new PLNRuleRegistry();
+      registry.register(DEFAULT_PLN_RULES[0]);
+      registry.register(DEFAULT_PLN_RULES[1]);
+
+      const ordered = registry.getRules(new Map([[DEFAULT_PLN_RULES[1].name, 2.0]]));
+      expect(ordered[0].name).toBe(DEFAULT_PLN_RULES[1].name);
+
+      const disabled = registry.getRules(new Map([[DEFAULT_PLN_RULES[0].name, 0]]));
+      expect(disabled.map(rule => rule.name)).not.toContain(DEFAULT_PLN_RULES[0].name);
+
+      expect(registry.unregister(DEFAULT_PLN_RULES[0].name)).toBe(true);
+      expect(registry.has(DEFAULT_PLN_RULES[0].name)).toBe(false);
+    });
+
+    it('should select rules concluding a goal', () => {
+      const registry = PLNRuleRegistry.createDefault();
+      const rules = registry.getRulesConcluding({ kind: 'term', term: 'wet' });
+
+      expect(rules.map(rule => rule.name)).toEqual(expect.arrayContaining(['ModusPonensRule', 'AbductionRule']));
+      expect(rules.every(rule => rule.conclusion.kind === 'term')).toBe(true);
+    });
+  });
+
+  describe('Forward Chaining', () => {
+    it('should derive transitive inheritance up to the depth limit', async () => {
+      const result = await plnAdapter.processQuery({
+        type: 'inheritance',
+        targets: ['cat'],
+        parameters: {},
+        chaining: 'forward',
+        maxDepth: 2
+      });
+
+      expect(result.success).toBe(true);
+      const names = result.conclusions.map(atom => atom.name);
+      expect(names).toContain('inheritance_cat_vertebrate');
+      expect(names).toContain('inheritance_cat_animal');
+
+      const transitive = result.steps.find(step => step.rule === 'InheritanceRule');
+      expect(transitive?.formula).toBe('TruthValueOperations.inheritanceTransitivity');
+      expect(result.steps.every(step => (step.depth ?? 0) <= 2)).toBe(true);
+      expect(result.steps.map(step => step.stepIndex)).toEqual(result.steps.map((_, index) => index));
+    });
+
+    it('should skip rules weighted zero', async () => {
+      plnAdapter.updateContext({ ruleWeights: new Map([['InheritanceRule', 0]]) });
+
+      const result = await plnAdapter.processQuery({
+        type: 'inheritance',
+        targets: ['cat'],
+        parameters: {},
+        chaining: 'forward',
+        maxDepth: 2
+      });
+
+      expect(result.steps.some(step => step.rule === 'InheritanceRule')).toBe(false);
+    });
+  });
+
+  describe('Backward Chaining', () => {
+    it('should prove an inheritance goal through a chain of rules', async () => {
+      const result = await plnAdapter.processQuery({
+        type: 'inheritance',
+        targets: ['cat', 'animal'],
+        parameters: {},
+        chaining: 'backward'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.conclusions).toHaveLength(1);
+
+      const proof = result.conclusions[0] as Link;
+      expect(proof.type).toBe('InheritanceLink');
+      expect(proof.outgoing).toEqual(['cat', 'animal']);
+      expect(proof.metadata.inferred).toBe(true);
+
+      // Premises are proven before the conclusion that uses them
+      const lastStep = result.steps[result.steps.length - 1];
+      expect(lastStep.output).toBe(proof.id);
+      expect(result.steps.length).toBeGreaterThanOrEqual(2);
+      result.steps.forEach(step => expect(step.formula).toBeTruthy());
+    });
+
+    it('should prove a term goal with modus ponens', async () => {
+      // Weak direct evidence, so the derived proof is the best-supported one
+      atomSpaceAdapter.putAtom({ ...createConcept('wet'), truthValue: { strength: 0.5, confidence: 0.1 } });
+
+      const result = await plnAdapter.processQuery({
+        type: 'custom',
+        targets: ['wet'],
+        parameters: {},
+        chaining: 'backward'
+      });
+
+      const steps = result.steps.filter(step => step.rule === 'ModusPonensRule');
+      expect(steps.length).toBeGreaterThan(0);
+      expect(steps[0].inputs).toEqual(['rain', 'ImplicationLink_rain_wet']);
+    });
+
+    it('should not prove goals beyond the depth limit', async () => {
+      const result = await plnAdapter.processQuery({
+        type: 'inheritance',
+        targets: ['cat', 'animal'],
+        parameters: {},
+        chaining: 'backward',
+        maxDepth: 1
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.steps).toHaveLength(0);
+    });
+  });
+});
+
+describe('PLN Revision', () => {
+  let atomSpaceAdapter: AtomSpaceAdapter;
+
+  beforeEach(() => {
+    atomSpaceAdapter = new AtomSpaceAdapter();
+    ['cat', 'mammal', 'animal'].forEach(name => atomSpaceAdapter.putAtom(createConcept(name)));
+    atomSpaceAdapter.putAtom(createTestLink('NotLink', ['animal']));
+    atomSpaceAdapter.putAtom(createTestLink('InheritanceLink', ['cat', 'mammal']));
+    atomSpaceAdapter.putAtom(createTestLink('InheritanceLink', ['mammal', 'animal']));
+  });
+
+  it('should detect a relationship held alongside its negation', () => {
+    atomSpaceAdapter.putAtom(createTestLink('InheritanceLink', ['cat', 'animal'], 0.9));
+    atomSpaceAdapter.putAtom(createTestLink('InheritanceLink', ['cat', 'NotLink_animal'], 0.9));
+
+    const report = new PLNRevision(atomSpaceAdapter.getAtomSpace()).analyze();
+
+    expect(report.contradictions).toHaveLength(1);
+    expect(report.contradictions[0].kind).toBe('negation');
+    expect(report.contradictions[0].atoms).toEqual(['InheritanceLink_cat_animal', 'InheritanceLink_cat_NotLink_animal']);
+    expect(report.contradictions[0].severity).toBeCloseTo(0.8, 5);
+    expect(report.coherence).toBeLessThan(1);
+  });
+
+  it('should tolerate a weak negation', () => {
+    atomSpaceAdapter.putAtom(createTestLink('InheritanceLink', ['cat', 'animal'], 0.9));
+    atomSpaceAdapter.putAtom(createTestLink('InheritanceLink', ['cat', 'NotLink_animal'], 0.2));
+
+    expect(new PLNRevision(atomSpaceAdapter.getAtomSpace()).analyze().contradictions).toHaveLength(0);
+  });
+
+  it('should report duplicates with conflicting evidence', () => {
+    atomSpaceAdapter.putAtom({ ...createTestLink('InheritanceLink', ['cat', 'mammal'], 0.1), id: 'duplicate' });
+
+    const report = new PLNRevision(atomSpaceAdapter.getAtomSpace()).analyze();
+
+    expect(report.duplicates.get('InheritanceLink(cat,mammal)')).toEqual(['InheritanceLink_cat_mammal', 'duplicate']);
+    expect(report.contradictions.map(contradiction => contradiction.kind)).toEqual(['conflicting-evidence']);
+  });
+
+  it('should merge conclusions into the atom holding the relationship', () => {
+    const revision = new PLNRevision(atomSpaceAdapter.getAtomSpace());
+    const derived = [
+      { ...createTestLink('InheritanceLink', ['cat', 'mammal'], 0.5), id: 'derived_1' },
+      { ...createTestLink('InheritanceLink', ['cat', 'mammal'], 0.7), id: 'derived_2' }
+    ];
+
+    const result = revision.revise(derived);
+
+    expect(result.merged).toBe(2);
+    expect(result.atoms).toHaveLength(1);
+    expect(result.atoms[0].id).toBe('InheritanceLink_cat_mammal');
+    expect(result.atoms[0].metadata.revised).toBe(true);
+    expect(result.atoms[0].metadata.revisedFrom).toEqual(['derived_1', 'derived_2']);
+    expect(result.atoms[0].truthValue.strength).toBeCloseTo(0.7, 5);
+    expect(result.mergedInto.get('derived_2')).toBe('InheritanceLink_cat_mammal');
+  });
+
+  it('should revise chained conclusions and flag contradictions in query results', async () => {
+    atomSpaceAdapter.putAtom(createTestLink('InheritanceLink', ['cat', 'animal'], 0.5));
+    atomSpaceAdapter.putAtom(createTestLink('InheritanceLink', ['cat', 'NotLink_animal'], 0.9));
+    const plnAdapter = new PLNAdapter(atomSpaceAdapter.getAtomSpace());
+
+    const result = await plnAdapter.processQuery({
+      type: 'inheritance',
+      targets: ['cat'],
+      parameters: {},
+      chaining: 'forward',
+      maxDepth: 1
+    });
+
+    const revised = result.conclusions.find(atom => atom.id === 'InheritanceLink_cat_animal');
+    expect(revised?.metadata.revised).toBe(true);
+    expect(revised!.truthValue.strength).toBeGreaterThan(0.5);
+    expect(result.steps.some(step => step.output === 'InheritanceLink_cat_animal')).toBe(true);
+    expect(result.metaInsights.some(insight => insight.startsWith('Contradiction (negation'))).toBe(true);
+  });
+});
+
 describe('KernelStateConverter', () => {
   let converter: KernelStateConverter;
   let mockState: CognitiveState;
@@ -721,6 +1021,128 @@ describe('KernelStateConverter', () => {
       expect(consistencyResult.inconsistenciesFound).toBeGreaterThan(0);
       expect(consistencyResult.issues.length).toBeGreaterThan(0);
     });
+
+    it('should report contradictory knowledge', async () => {
+      await converter.convertToAtomSpace(mockState, 'test_state');
+      const adapter = new AtomSpaceAdapter(converter.getConversionState('test_state')!.atomSpace);
+      adapter.putAtom(createConcept('animal'));
+      adapter.putAtom(createTestLink('NotLink', ['animal']));
+      adapter.putAtom(createTestLink('InheritanceLink', ['node1', 'animal'], 0.9));
+      adapter.putAtom(createTestLink('InheritanceLink', ['node1', 'NotLink_animal'], 0.9));
+
+      const consistencyResult = await converter.checkConsistency('test_state');
+
+      expect(consistencyResult.revisionReport!.contradictions).toHaveLength(1);
+      expect(consistencyResult.issues.some(issue => issue.startsWith('Contradiction between'))).toBe(true);
+      expect(consistencyResult.recommendations).toContain('Revise or retract contradictory atoms before further inference');
+    });
+  });
+
+  describe('Synchronization', () => {
+    it('should report no changes right after conversion', async () => {
+      await converter.convertToAtomSpace(mockState, 'test_state');
+
+      const result = await converter.synchronize('test_state');
+
+      expect(result.success).toBe(true);
+      expect(result.atomsSynced).toBe(0);
+      expect(result.conflicts).toHaveLength(0);
+    });
+
+    it('should propagate kernel node, edge and tensor changes to the AtomSpace', async () => {
+      await converter.convertToAtomSpace(mockState, 'test_state');
+      const atomSpace = converter.getConversionState('test_state')!.atomSpace;
+
+      mockState.hypergraph.nodes.get('node1')!.metadata.sti = 0.9;
+      mockState.hypergraph.nodes.set('node4', createMockCognitiveNode('node4', 'concept'));
+      mockState.hypergraph.edges.delete('edge2');
+      (mockState.memory.semantic.data as Float32Array)[0] = 0.25;
+
+      const result = await converter.synchronize('test_state');
+
+      expect(result.success).toBe(true);
+      expect(result.atomsCreated).toBe(1);
+      expect(result.atomsUpdated).toBe(2);
+      expect(result.atomsRemoved).toBe(1);
+
+      const node1Atom = [...atomSpace.atoms.values()].find(atom => atom.source.nodeId === 'node1')!;
+      expect(node1Atom.attentionValue.sti).toBe(0.9);
+      expect([...atomSpace.atoms.values()].some(atom => atom.source.nodeId === 'node4')).toBe(true);
+      expect([...atomSpace.links.values()].some(link => link.source.edgeId === 'edge2')).toBe(false);
+
+      const concept = [...atomSpace.atoms.values()].find(atom => atom.name === 'semantic_concept_0')!;
+      expect(concept.truthValue.strength).toBe(0.25);
+    });
+
+    it('should write AtomSpace truth value changes back to the kernel', async () => {
+      await converter.convertToAtomSpace(mockState, 'test_state');
+      const atomSpace = converter.getConversionState('test_state')!.atomSpace;
+
+      const node2Atom = [...atomSpace.atoms.values()].find(atom => atom.source.nodeId === 'node2')!;
+      node2Atom.truthValue = { strength: 0.4, confidence: 0.95 };
+      const concept = [...atomSpace.atoms.values()].find(atom => atom.name === 'semantic_concept_1')!;
+      concept.truthValue = { strength: 0.125, confidence: 0.5 };
+
+      const result = await converter.synchronize('test_state');
+
+      expect(result.kernelUpdates).toBe(2);
+      expect(mockState.hypergraph.nodes.get('node2')!.metadata.confidence).toBe(0.95);
+      expect(mockState.hypergraph.nodes.get('node2')!.metadata.strength).toBe(0.4);
+
+      const semantic = mockState.memory.semantic;
+      const rowStart = semantic.shape[1] * semantic.shape[2];
+      expect(semantic.data[rowStart]).toBe(0.125);
+      expect(semantic.data[rowStart + 2]).toBe(0.5);
+    });
+
+    it('should flow inferred conclusions back into the hypergraph', async () => {
+      await converter.convertToAtomSpace(mockState, 'test_state');
+      const adapter = converter.getAtomSpaceAdapter();
+      adapter.putAtom({
+        id: 'inferred_inheritance',
+        type: 'InheritanceLink',
+        name: 'inheritance_node1_node3',
+        truthValue: { strength: 0.6, confidence: 0.7 },
+        attentionValue: { sti: 0.3, lti: 0.2, vlti: 0.1 },
+        metadata: { inferred: true, inferenceType: 'inheritance', sourceAtoms: ['node1', 'node3'] },
+        source: { kernelId: 'pln_adapter', tensorComponent: 'inheritance_inference' }
+      });
+
+      const result = await converter.synchronize('test_state');
+
+      const edge = mockState.hypergraph.edges.get('inferred_inferred_inheritance');
+      expect(result.kernelUpdates).toBe(1);
+      expect(edge).toMatchObject({ type: 'hierarchical', source: 'node1', target: 'node3', weight: 0.6 });
+
+      const followUp = await converter.synchronize('test_state');
+      expect(followUp.atomsSynced).toBe(0);
+    });
+
+    it('should resolve conflicting changes according to the policy', async () => {
+      const policies = [
+        { policy: 'kernel-wins' as const, expected: 0.6 },
+        { policy: 'atomspace-wins' as const, expected: 0.9 },
+        { policy: 'highest-confidence-wins' as const, expected: 0.9 }
+      ];
+
+      for (const { policy, expected } of policies) {
+        const state = createMockCognitiveState();
+        const policyConverter = new KernelStateConverter({ conflictResolution: policy });
+        await policyConverter.convertToAtomSpace(state, 'conflict_state');
+        const atomSpace = policyConverter.getConversionState('conflict_state')!.atomSpace;
+
+        state.hypergraph.nodes.get('node1')!.metadata.confidence = 0.6;
+        const atom = [...atomSpace.atoms.values()].find(candidate => candidate.source.nodeId === 'node1')!;
+        atom.truthValue = { strength: 0.9, confidence: 0.9 };
+
+        const result = await policyConverter.synchronize('conflict_state');
+
+        expect(result.conflicts).toHaveLength(1);
+        expect(state.hypergraph.nodes.get('node1')!.metadata.confidence).toBe(expected);
+        const synced = [...atomSpace.atoms.values()].find(candidate => candidate.source.nodeId === 'node1')!;
+        expect(synced.truthValue.confidence).toBe(expected);
+      }
+    });
   });
 
   describe('Reasoning Traceability', () => {
@@ -0,0 +1,99 @@
+/**
+ * Tests for Atomese import and export
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { AtomSpaceAdapter, Link } from '../atomspace-adapter.js';
+import { parseAtomese, printAtomese } from '../atomese.js';
+
+const fixture = readFileSync(fileURLToPath(new URL('./fixtures/animals.scm', import.meta.url)), 'utf8');
+
+describe('Atomese', () => {
+  describe('Parsing', () => {
+    it('should parse nodes, links and values', () => {
+      const atoms = parseAtomese('(InheritanceLink (stv 0.8 0.9) (ConceptNode "a") (ConceptNode "b" (av 1 2 3)))');
+
+      expect(atoms).toHaveLength(1);
+      expect(atoms[0].type).toBe('InheritanceLink');
+      expect(atoms[0].truthValue).toEqual({ strength: 0.8, confidence: 0.9 });
+      expect(atoms[0].outgoing!.map(atom => atom.name)).toEqual(['a', 'b']);
+      expect(atoms[0].outgoing![1].attentionValue).toEqual({ sti: 1, lti: 2, vlti: 3 });
+    });
+
+    it('should handle comments, escapes and count truth values', () => {
+      const atoms = parseAtomese('; comment\n(ConceptNode "say \\"hi\\"" (ctv 0.5 0.4 7)) ; trailing');
+
+      expect(atoms[0].name).toBe('say "hi"');
+      expect(atoms[0].truthValue).toEqual({ strength: 0.5, confidence: 0.4, count: 7 });
+    });
+
+    it('should report syntax errors with their position', () => {
+      expect(() => parseAtomese('(ConceptNode "a"')).toThrow(/line 1, column 1: unbalanced/);
+      expect(() => parseAtomese('(ConceptNode "a")\n(FooLink)')).toThrow(/line 2, column 2: unsupported atom type "FooLink"/);
+      expect(() => parseAtomese('(ConceptNode "a" (stv 0.5))')).toThrow(/takes 2 numbers/);
+      expect(() => parseAtomese('(ConceptNode)')).toThrow(/requires a name/);
+    });
+
+    it('should print what it parses', () => {
+      const atoms = parseAtomese(fixture);
+      expect(parseAtomese(printAtomese(atoms))).toEqual(atoms);
+    });
+  });
+
+  describe('AtomSpaceAdapter', () => {
+    let adapter: AtomSpaceAdapter;
+
+    beforeEach(() => {
+      adapter = new AtomSpaceAdapter();
+    });
+
+    it('should import a knowledge base from Atomese', () => {
+      const result = adapter.importAtomese(fixture);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.atomsCreated).toBe(4);
+      expect(result.linksCreated).toBe(4);
+
+      const [cat] = adapter.queryByName('cat');
+      expect(cat.truthValue).toEqual({ strength: 0.9, confidence: 0.8 });
+      expect(cat.attentionValue).toEqual({ sti: 0.5, lti: 0.3, vlti: 0.1 });
+
+      const inheritance = Array.from(adapter.getAtomSpace().links.values())
+        .filter(link => link.type === 'InheritanceLink');
+      expect(inheritance).toHaveLength(2);
+      expect(inheritance[0].outgoing).toEqual([cat.id, adapter.queryByName('mammal')[0].id]);
+    });
+
+    it('should merge repeated atoms instead of duplicating them', () => {
+      adapter.importAtomese(fixture);
+      const result = adapter.importAtomese('(InheritanceLink (stv 0.5 0.5) (ConceptNode "cat") (ConceptNode "mammal"))');
+
+      expect(result.atomsCreated).toBe(0);
+      expect(result.linksCreated).toBe(0);
+      const links = Array.from(adapter.getAtomSpace().links.values()) as Link[];
+      expect(links.filter(link => link.type === 'InheritanceLink')).toHaveLength(2);
+      expect(links.find(link => link.name === 'inheritance_cat_mammal')!.truthValue.strength).toBe(0.5);
+      // Bare references keep the values already held
+      expect(adapter.queryByName('cat')[0].truthValue.strength).toBe(0.9);
+    });
+
+    it('should leave the AtomSpace untouched on syntax errors', () => {
+      const result = adapter.importAtomese('(ConceptNode "a")\n(ConceptNode "b"');
+
+      expect(result.errors[0]).toMatch(/Atomese import error/);
+      expect(adapter.getAtomSpace().atoms.size).toBe(0);
+    });
+
+    it('should round-trip through export and import', () => {
+      adapter.importAtomese(fixture);
+      const exported = adapter.exportAtomese();
+
+      const copy = new AtomSpaceAdapter();
+      expect(copy.importAtomese(exported).errors).toHaveLength(0);
+      expect(copy.exportAtomese()).toBe(exported);
+      expect(exported).toContain('(EvaluationLink (ctv 0.8 0.7 12) (av 0 0 0)\n  (PredicateNode "has_fur")\n  (ListLink');
+    });
+  });
+});
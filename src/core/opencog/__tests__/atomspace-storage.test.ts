@@ -0,0 +1,217 @@
+/**
+ * Tests for persistent AtomSpace storage
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AtomSpaceAdapter } from '../atomspace-adapter.js';
+import { FileAtomSpaceStorage } from '../atomspace-storage.js';
+import { KernelStateConverter } from '../kernel-state-converter.js';
+import { CognitiveState, CognitiveNode, Tensor } from '../../mad9ml/types.js';
+
+function createTensor(shape: number[]): Tensor {
+  const size = shape.reduce((a, b) => a * b, 1);
+  return { shape, data: new Float32Array(size).map((_, i) => i / size), type: 'f32', size };
+}
+
+function createNode(id: string, type: CognitiveNode['type']): CognitiveNode {
+  return { id, type, state: createTensor([2, 2]), metadata: { confidence: 0.8, strength: 0.7, sti: 0.5, lti: 0.3, vlti: 0.2 } };
+}
+
+function createKernelState(): CognitiveState {
+  return {
+    memory: {
+      semantic: createTensor([2, 4]),
+      episodic: createTensor([2, 4]),
+      procedural: createTensor([2, 4]),
+      working: createTensor([2, 4])
+    },
+    task: { active: createTensor([2, 2]), queue: createTensor([2, 2]), attention: createTensor([2, 2]) },
+    persona: { traits: createTensor([2, 2]), parameters: createTensor([2, 2]), mutationCoeffs: createTensor([2, 2]) },
+    metaCognitive: { selfEval: createTensor([2, 2]), adjustment: createTensor([2, 2]), history: createTensor([2, 2]) },
+    hypergraph: {
+      nodes: new Map([['node1', createNode('node1', 'concept')], ['node2', createNode('node2', 'memory')]]),
+      edges: new Map([['edge1', { id: 'edge1', type: 'semantic', source: 'node1', target: 'node2', weight: 0.7, properties: { confidence: 0.8 } }]]),
+      clusters: new Map([['cluster1', ['node1', 'node2']]])
+    },
+    timestamp: 1000
+  };
+}
+
+const ANIMALS = `
+(InheritanceLink (stv 0.9 0.9) (ConceptNode "cat") (ConceptNode "mammal"))
+(InheritanceLink (stv 0.95 0.9) (ConceptNode "mammal") (ConceptNode "animal"))
+`;
+
+describe('FileAtomSpaceStorage', () => {
+  let directory: string;
+  let adapter: AtomSpaceAdapter;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'atomspace-storage-'));
+    adapter = new AtomSpaceAdapter();
+    adapter.importAtomese(ANIMALS);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should reload atoms, links and indices after a restart', async () => {
+    await new FileAtomSpaceStorage(directory).save('animals', adapter.getAtomSpace(), { note: 'zoo' });
+
+    const stored = await new FileAtomSpaceStorage(directory).load('animals');
+    const original = adapter.getAtomSpace();
+
+    expect(stored).not.toBeNull();
+    expect(stored!.metadata).toEqual({ note: 'zoo' });
+    expect(Array.from(stored!.atomSpace.atoms.keys()).sort()).toEqual(Array.from(original.atoms.keys()).sort());
+    expect(Array.from(stored!.atomSpace.links.values())).toEqual(Array.from(original.links.values()));
+    expect(stored!.atomSpace.typeIndex.get('InheritanceLink')!.size).toBe(2);
+    expect(stored!.atomSpace.nameIndex.get('cat')!.size).toBe(1);
+    expect(stored!.atomSpace.attentionIndex).toEqual(original.attentionIndex);
+  });
+
+  it('should append only changed and removed atoms to the log', async () => {
+    const storage = new FileAtomSpaceStorage(directory);
+    const first = await storage.save('animals', adapter.getAtomSpace());
+    expect(first).toEqual({ written: 5, removed: 0, compacted: false });
+
+    const [cat] = adapter.queryByName('cat');
+    adapter.putAtom({ ...cat, truthValue: { strength: 0.5, confidence: 0.5 } });
+    const [animal] = adapter.queryByName('animal');
+    adapter.removeAtom(animal.id);
+
+    const second = await storage.save('animals', adapter.getAtomSpace());
+    expect(second).toEqual({ written: 1, removed: 1, compacted: false });
+
+    const log = await fs.readFile(join(directory, 'animals', 'log.jsonl'), 'utf8');
+    expect(log.trim().split('\n')).toHaveLength(7);
+
+    const stored = await new FileAtomSpaceStorage(directory).load('animals');
+    expect(stored!.atomSpace.atoms.get(cat.id)!.truthValue.strength).toBe(0.5);
+    expect(stored!.atomSpace.atoms.has(animal.id)).toBe(false);
+    expect(stored!.atomSpace.nameIndex.has('animal')).toBe(false);
+  });
+
+  it('should compact the log into a snapshot', async () => {
+    const storage = new FileAtomSpaceStorage(directory, { compactionThreshold: 5 });
+    const result = await storage.save('animals', adapter.getAtomSpace());
+
+    expect(result.compacted).toBe(true);
+    expect(await fs.readFile(join(directory, 'animals', 'log.jsonl'), 'utf8')).toBe('');
+
+    adapter.importAtomese('(ConceptNode "dog")');
+    expect(await storage.save('animals', adapter.getAtomSpace())).toEqual({ written: 1, removed: 0, compacted: false });
+
+    const stored = await new FileAtomSpaceStorage(directory).load('animals');
+    expect(stored!.atomSpace.atoms.size).toBe(4);
+    expect(stored!.atomSpace.nameIndex.has('dog')).toBe(true);
+  });
+
+  it('should ignore a torn final log entry', async () => {
+    const storage = new FileAtomSpaceStorage(directory);
+    await storage.save('animals', adapter.getAtomSpace());
+    await fs.appendFile(join(directory, 'animals', 'log.jsonl'), '{"op":"put","kind":"at');
+
+    const stored = await new FileAtomSpaceStorage(directory).load('animals');
+    expect(stored!.atomSpace.atoms.size).toBe(3);
+    expect(stored!.atomSpace.links.size).toBe(2);
+  });
+
+  it('should list and delete stored AtomSpaces', async () => {
+    const storage = new FileAtomSpaceStorage(directory);
+    await storage.save('b/2', adapter.getAtomSpace());
+    await storage.save('a', adapter.getAtomSpace());
+
+    expect(await storage.list()).toEqual(['a', 'b/2']);
+    expect(await storage.delete('a')).toBe(true);
+    expect(await storage.delete('a')).toBe(false);
+    expect(await storage.load('a')).toBeNull();
+    expect(await storage.list()).toEqual(['b/2']);
+  });
+
+  it('should store records incrementally and keep them through compaction', async () => {
+    const storage = new FileAtomSpaceStorage(directory, { compactionThreshold: 9 });
+    const records = new Map<string, unknown>([['a', { value: 1 }], ['b', [1, 2]]]);
+    expect(await storage.save('animals', adapter.getAtomSpace(), undefined, records)).toEqual({ written: 7, removed: 0, compacted: false });
+
+    records.set('a', { value: 2 });
+    records.delete('b');
+    expect(await storage.save('animals', adapter.getAtomSpace(), undefined, records)).toEqual({ written: 1, removed: 1, compacted: true });
+    // Saving without records keeps the stored ones
+    expect(await storage.save('animals', adapter.getAtomSpace())).toEqual({ written: 0, removed: 0, compacted: false });
+
+    const stored = await new FileAtomSpaceStorage(directory).load('animals');
+    expect(stored!.records).toEqual(new Map([['a', { value: 2 }]]));
+  });
+});
+
+describe('KernelStateConverter persistence', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'converter-storage-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should resume a named conversion state in a new converter', async () => {
+    const kernelState = createKernelState();
+    const converter = new KernelStateConverter({ enableConsistencyCheck: false }, new FileAtomSpaceStorage(directory));
+    await converter.convertToAtomSpace(kernelState, 'session');
+    await converter.saveState('session');
+
+    const restarted = new KernelStateConverter({ enableConsistencyCheck: false }, new FileAtomSpaceStorage(directory));
+    expect(await restarted.listStoredStates()).toEqual(['session']);
+
+    const resumed = await restarted.resumeState('session');
+    const original = converter.getConversionState('session')!;
+
+    expect(resumed.atomSpace.atoms.size).toBe(original.atomSpace.atoms.size);
+    expect(resumed.conversionMetadata.kernelToAtomMapping).toEqual(original.conversionMetadata.kernelToAtomMapping);
+    expect(resumed.kernelState.hypergraph.nodes.get('node1')!.state.data).toEqual(kernelState.hypergraph.nodes.get('node1')!.state.data);
+    expect(resumed.kernelState.hypergraph.clusters.get('cluster1')).toEqual(['node1', 'node2']);
+    expect(resumed.kernelState.memory.semantic.data).toBeInstanceOf(Float32Array);
+    expect(restarted.listConversionStates()).toContain('session');
+
+    // A resumed state synchronizes without spurious changes
+    const sync = await restarted.synchronize('session');
+    expect(sync.success).toBe(true);
+    expect(sync.atomsCreated + sync.atomsUpdated + sync.atomsRemoved + sync.kernelUpdates).toBe(0);
+  });
+
+  it('should save only the tensors and hypergraph elements that changed', async () => {
+    const kernelState = createKernelState();
+    const converter = new KernelStateConverter({ enableConsistencyCheck: false }, new FileAtomSpaceStorage(directory));
+    await converter.convertToAtomSpace(kernelState, 'session');
+    await converter.saveState('session');
+
+    const logPath = join(directory, 'session', 'log.jsonl');
+    const before = (await fs.readFile(logPath, 'utf8')).length;
+    const kernel = converter.getConversionState('session')!.kernelState;
+    (kernel.memory.semantic.data as Float32Array)[0] = 0.25;
+    kernel.hypergraph.edges.get('edge1')!.weight = 0.1;
+
+    expect(await converter.saveState('session')).toEqual({ written: 2, removed: 0, compacted: false });
+    const appended = (await fs.readFile(logPath, 'utf8')).slice(before).trim().split('\n').map(line => JSON.parse(line));
+    expect(appended.map(entry => entry.key)).toEqual(['tensor:memory.semantic', 'edge:edge1']);
+    expect(typeof appended[0].value.data).toBe('string');
+    expect(JSON.parse(await fs.readFile(join(directory, 'session', 'metadata.json'), 'utf8'))).not.toHaveProperty('kernelState');
+
+    const resumed = await new KernelStateConverter({}, new FileAtomSpaceStorage(directory)).resumeState('session');
+    expect(resumed.kernelState.memory.semantic.data[0]).toBe(0.25);
+    expect(resumed.kernelState.hypergraph.edges.get('edge1')!.weight).toBe(0.1);
+  });
+
+  it('should reject resuming without storage or an unknown state', async () => {
+    await expect(new KernelStateConverter().resumeState('missing')).rejects.toThrow('No AtomSpace storage configured');
+
+    const converter = new KernelStateConverter({}, new FileAtomSpaceStorage(directory));
+    await expect(converter.resumeState('missing')).rejects.toThrow('No stored conversion state found');
+  });
+});
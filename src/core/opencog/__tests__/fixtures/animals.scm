@@ -0,0 +1,19 @@
+; Small taxonomy used by the Atomese import/export tests
+
+(ConceptNode "cat" (stv 0.9 0.8) (av 0.5 0.3 0.1))
+(ConceptNode "mammal" (stv 0.8 0.9))
+(ConceptNode "animal")
+(PredicateNode "has_fur" (stv 0.7 0.6))
+
+(InheritanceLink (stv 0.95 0.9)
+  (ConceptNode "cat")
+  (ConceptNode "mammal"))
+
+(InheritanceLink (stv 0.9 0.85) (av 0.2 0.1 0)
+  (ConceptNode "mammal")
+  (ConceptNode "animal"))
+
+(EvaluationLink (ctv 0.8 0.7 12)
+  (PredicateNode "has_fur")
+  (ListLink
+    (ConceptNode "cat")))
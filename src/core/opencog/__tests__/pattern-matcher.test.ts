@@ -0,0 +1,170 @@
+/**
+ * Tests for the AtomSpace pattern matcher
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { AtomSpaceAdapter, Link } from '../atomspace-adapter.js';
+import { PatternMatcher, variable, node, link } from '../pattern-matcher.js';
+import { PLNAdapter } from '../pln-adapter.js';
+
+const fixture = readFileSync(fileURLToPath(new URL('./fixtures/animals.scm', import.meta.url)), 'utf8');
+
+describe('PatternMatcher', () => {
+  let adapter: AtomSpaceAdapter;
+  let matcher: PatternMatcher;
+
+  beforeEach(() => {
+    adapter = new AtomSpaceAdapter();
+    adapter.importAtomese(fixture);
+    adapter.importAtomese('(SimilarityLink (stv 0.6 0.5) (ConceptNode "cat") (ConceptNode "dog"))');
+    matcher = new PatternMatcher(adapter.getAtomSpace());
+  });
+
+  describe('Grounding', () => {
+    it('should ground variables in a link pattern', () => {
+      const groundings = matcher.match({
+        clauses: [link('InheritanceLink', variable('$X'), node('ConceptNode', 'mammal'))]
+      });
+
+      expect(groundings).toHaveLength(1);
+      expect(groundings[0].bindings.get('$X')!.name).toBe('cat');
+      expect((groundings[0].atoms[0] as Link).type).toBe('InheritanceLink');
+    });
+
+    it('should join variables across clauses', () => {
+      const groundings = matcher.match({
+        clauses: [
+          link('InheritanceLink', variable('$X'), variable('$Y')),
+          link('InheritanceLink', variable('$Y'), variable('$Z'))
+        ]
+      });
+
+      expect(groundings).toHaveLength(1);
+      const names = ['$X', '$Y', '$Z'].map(name => groundings[0].bindings.get(name)!.name);
+      expect(names).toEqual(['cat', 'mammal', 'animal']);
+    });
+
+    it('should match nested links and typed variables', () => {
+      const query = {
+        variables: { $P: { types: ['PredicateNode' as const] } },
+        clauses: [link('EvaluationLink', variable('$P'), link('ListLink', variable('$X')))]
+      };
+
+      const groundings = matcher.match(query);
+      expect(groundings).toHaveLength(1);
+      expect(groundings[0].bindings.get('$P')!.name).toBe('has_fur');
+      expect(groundings[0].bindings.get('$X')!.name).toBe('cat');
+
+      expect(matcher.match({ ...query, variables: { $P: { types: ['ConceptNode'] } } })).toHaveLength(0);
+    });
+
+    it('should match unordered links in either order', () => {
+      const groundings = matcher.match({
+        clauses: [link('SimilarityLink', node('ConceptNode', 'dog'), variable('$X'))]
+      });
+
+      expect(groundings.map(grounding => grounding.bindings.get('$X')!.name)).toEqual(['cat']);
+    });
+
+    it('should match node names by regular expression', () => {
+      const atoms = matcher.matchVariables({
+        clauses: [link('InheritanceLink', variable('$X'), node('ConceptNode', /^ani/))]
+      });
+
+      expect(atoms.map(atom => atom.name)).toEqual(['mammal']);
+    });
+  });
+
+  describe('Constraints', () => {
+    it('should filter by truth value', () => {
+      const groundings = matcher.match({
+        clauses: [{
+          kind: 'link',
+          type: 'InheritanceLink',
+          outgoing: [variable('$X'), variable('$Y')],
+          where: { minStrength: 0.92 }
+        }]
+      });
+
+      expect(groundings).toHaveLength(1);
+      expect(groundings[0].bindings.get('$X')!.name).toBe('cat');
+    });
+
+    it('should filter variables by attention', () => {
+      const groundings = matcher.match({
+        variables: { $X: { where: { minSti: 0.4 } } },
+        clauses: [link('InheritanceLink', variable('$X'), variable('$Y'))]
+      });
+
+      expect(groundings.map(grounding => grounding.bindings.get('$X')!.name)).toEqual(['cat']);
+    });
+
+    it('should reject groundings with an absent clause', () => {
+      const groundings = matcher.match({
+        clauses: [link('InheritanceLink', variable('$X'), variable('$Y'))],
+        absent: [link('InheritanceLink', variable('$Y'), variable('$Z'))]
+      });
+
+      expect(groundings).toHaveLength(1);
+      expect(groundings[0].bindings.get('$Y')!.name).toBe('animal');
+    });
+
+    it('should stop at the grounding limit', () => {
+      const groundings = matcher.match({
+        clauses: [link('InheritanceLink', variable('$X'), variable('$Y'))],
+        limit: 1
+      });
+
+      expect(groundings).toHaveLength(1);
+    });
+  });
+
+  describe('Binding', () => {
+    it('should instantiate a template once per grounding', () => {
+      const query = {
+        clauses: [
+          link('InheritanceLink', variable('$X'), variable('$Y')),
+          link('InheritanceLink', variable('$Y'), variable('$Z'))
+        ]
+      };
+      const template = link('InheritanceLink', variable('$X'), variable('$Z'));
+
+      const [created] = adapter.bind(query, template) as Link[];
+      expect(created.type).toBe('InheritanceLink');
+      expect(created.outgoing).toEqual([adapter.queryByName('cat')[0].id, adapter.queryByName('animal')[0].id]);
+
+      const linkCount = adapter.getAtomSpace().links.size;
+      expect(adapter.bind(query, template)[0].id).toBe(created.id);
+      expect(adapter.getAtomSpace().links.size).toBe(linkCount);
+    });
+
+    it('should reject templates with unbound variables', () => {
+      expect(() => adapter.bind(
+        { clauses: [link('InheritanceLink', variable('$X'), variable('$Y'))] },
+        link('InheritanceLink', variable('$X'), variable('$W'))
+      )).toThrow(/\$W is not bound/);
+    });
+  });
+
+  describe('PLN targets', () => {
+    it('should select PLN query targets by pattern', async () => {
+      const plnAdapter = new PLNAdapter(adapter.getAtomSpace());
+      const result = await plnAdapter.processQuery({
+        type: 'conjunction',
+        targets: [],
+        parameters: {},
+        pattern: {
+          variables: { $X: { types: ['ConceptNode'] } },
+          clauses: [link('InheritanceLink', variable('$X'), variable('$Y'))]
+        },
+        minConfidence: 0
+      });
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.steps.length).toBeGreaterThan(0);
+      expect(result.steps[0].inputs).toContain(adapter.queryByName('cat')[0].id);
+    });
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Atomese Serialization
+ *
+ * Reader and printer for the OpenCog Scheme (Atomese) s-expression form, e.g.
+ * `(InheritanceLink (stv 0.8 0.9) (ConceptNode "a") (ConceptNode "b"))`,
+ * used to exchange AtomSpace contents with OpenCog tooling.
+ */
+
+import type { AtomType, TruthValue, AtomAttentionValue } from './atomspace-adapter.js';
+
+/**
+ * Atom as written in Atomese: a node with a name or a link with outgoing atoms
+ */
+export interface AtomeseAtom {
+  /** OpenCog atom type */
+  type: AtomType;
+  /** Node name (nodes only) */
+  name?: string;
+  /** Outgoing atoms (links only) */
+  outgoing?: AtomeseAtom[];
+  /** Truth value, if given with `stv` or `ctv` */
+  truthValue?: TruthValue;
+  /** Attention value, if given with `av` */
+  attentionValue?: AtomAttentionValue;
+}
+
+/**
+ * Atom types understood by the reader
+ */
+export const ATOMESE_NODE_TYPES: ReadonlySet<AtomType> = new Set<AtomType>([
+  'ConceptNode',
+  'PredicateNode',
+  'NumberNode'
+]);
+
+export const ATOMESE_LINK_TYPES: ReadonlySet<AtomType> = new Set<AtomType>([
+  'InheritanceLink',
+  'SimilarityLink',
+  'EvaluationLink',
+  'ImplicationLink',
+  'AndLink',
+  'OrLink',
+  'NotLink',
+  'ListLink',
+  'ExecutionLink'
+]);
+
+/**
+ * S-expression element with its source position
+ */
+type SExpression =
+  | { kind: 'string'; value: string; line: number; column: number }
+  | { kind: 'symbol'; value: string; line: number; column: number }
+  | { kind: 'list'; items: SExpression[]; line: number; column: number };
+
+/**
+ * Parse Atomese text into atom trees. Throws on syntax errors and unknown
+ * atom types, reporting the line and column.
+ */
+export function parseAtomese(text: string): AtomeseAtom[] {
+  return readExpressions(text).map(expression => toAtom(expression));
+}
+
+/**
+ * Print atom trees as Atomese, one top-level expression per line
+ */
+export function printAtomese(atoms: AtomeseAtom[]): string {
+  return atoms.map(atom => printAtom(atom, 0)).join('\n') + (atoms.length > 0 ? '\n' : '');
+}
+
+function readExpressions(text: string): SExpression[] {
+  const expressions: SExpression[] = [];
+  const stack: Array<Extract<SExpression, { kind: 'list' }>> = [];
+  let line = 1;
+  let column = 1;
+  let i = 0;
+
+  const fail = (message: string, atLine: number = line, atColumn: number = column): never => {
+    throw new Error(`Atomese parse error at line ${atLine}, column ${atColumn}: ${message}`);
+  };
+  const emit = (expression: SExpression) => {
+    if (stack.length > 0) {
+      stack[stack.length - 1].items.push(expression);
+    } else {
+      expressions.push(expression);
+    }
+  };
+  const advance = () => {
+    if (text[i] === '\n') {
+      line++;
+      column = 1;
+    } else {
+      column++;
+    }
+    i++;
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (/\s/.test(char)) {
+      advance();
+    } else if (char === ';') {
+      while (i < text.length && text[i] !== '\n') advance();
+    } else if (char === '(') {
+      stack.push({ kind: 'list', items: [], line, column });
+      advance();
+    } else if (char === ')') {
+      const list = stack.pop() ?? fail('unexpected ")"');
+      emit(list);
+      advance();
+    } else if (char === '"') {
+      const startLine = line;
+      const startColumn = column;
+      let value = '';
+      advance();
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\') {
+          advance();
+          if (i >= text.length) break;
+          value += text[i] === 'n' ? '\n' : text[i];
+        } else {
+          value += text[i];
+        }
+        advance();
+      }
+      if (i >= text.length) fail('unterminated string', startLine, startColumn);
+      advance();
+      emit({ kind: 'string', value, line: startLine, column: startColumn });
+    } else {
+      const startColumn = column;
+      let value = '';
+      while (i < text.length && !/[\s()";]/.test(text[i])) {
+        value += text[i];
+        advance();
+      }
+      emit({ kind: 'symbol', value, line, column: startColumn });
+    }
+  }
+
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1];
+    fail('unbalanced "("', open.line, open.column);
+  }
+  return expressions;
+}
+
+function toAtom(expression: SExpression): AtomeseAtom {
+  const fail = (message: string, at: SExpression = expression): never => {
+    throw new Error(`Atomese parse error at line ${at.line}, column ${at.column}: ${message}`);
+  };
+
+  if (expression.kind !== 'list' || expression.items.length === 0) {
+    return fail('expected an atom expression');
+  }
+
+  const [head, ...rest] = expression.items as [SExpression, ...SExpression[]];
+  if (head.kind !== 'symbol') {
+    return fail('expected an atom type', head);
+  }
+
+  const type = head.value as AtomType;
+  const atom: AtomeseAtom = { type };
+  const isNode = ATOMESE_NODE_TYPES.has(type);
+  if (!isNode && !ATOMESE_LINK_TYPES.has(type)) {
+    return fail(`unsupported atom type "${head.value}"`, head);
+  }
+
+  for (const item of rest) {
+    if (item.kind === 'list' && item.items[0]?.kind === 'symbol' && isValueHead(item.items[0].value)) {
+      readValue(item, atom, fail);
+    } else if (isNode) {
+      if (item.kind === 'list' || atom.name !== undefined) {
+        return fail(`${type} takes a single name`, item);
+      }
+      atom.name = item.value;
+    } else {
+      atom.outgoing = atom.outgoing ?? [];
+      atom.outgoing.push(toAtom(item));
+    }
+  }
+
+  if (isNode && atom.name === undefined) {
+    return fail(`${type} requires a name`);
+  }
+  if (!isNode) {
+    atom.outgoing = atom.outgoing ?? [];
+  }
+  return atom;
+}
+
+function isValueHead(symbol: string): boolean {
+  return symbol === 'stv' || symbol === 'ctv' || symbol === 'av';
+}
+
+function readValue(
+  expression: Extract<SExpression, { kind: 'list' }>,
+  atom: AtomeseAtom,
+  fail: (message: string, at?: SExpression) => never
+): void {
+  const head = (expression.items[0] as Extract<SExpression, { kind: 'symbol' }>).value;
+  const numbers = expression.items.slice(1).map(item => {
+    const value = item.kind === 'symbol' ? Number(item.value) : NaN;
+    return Number.isFinite(value) ? value : fail(`expected a number in (${head} ...)`, item);
+  });
+
+  const arity = head === 'stv' ? 2 : 3;
+  if (numbers.length !== arity) {
+    fail(`(${head} ...) takes ${arity} numbers`, expression);
+  }
+
+  if (head === 'stv') {
+    atom.truthValue = { strength: numbers[0], confidence: numbers[1] };
+  } else if (head === 'ctv') {
+    atom.truthValue = { strength: numbers[0], confidence: numbers[1], count: numbers[2] };
+  } else {
+    atom.attentionValue = { sti: numbers[0], lti: numbers[1], vlti: numbers[2] };
+  }
+}
+
+function printAtom(atom: AtomeseAtom, depth: number): string {
+  const values: string[] = [];
+  if (atom.truthValue) {
+    const { strength, confidence, count } = atom.truthValue;
+    values.push(count !== undefined
+      ? `(ctv ${formatNumber(strength)} ${formatNumber(confidence)} ${formatNumber(count)})`
+      : `(stv ${formatNumber(strength)} ${formatNumber(confidence)})`);
+  }
+  if (atom.attentionValue) {
+    const { sti, lti, vlti } = atom.attentionValue;
+    values.push(`(av ${formatNumber(sti)} ${formatNumber(lti)} ${formatNumber(vlti)})`);
+  }
+
+  if (atom.outgoing === undefined) {
+    return `(${[atom.type, quote(atom.name ?? ''), ...values].join(' ')})`;
+  }
+
+  const indent = '  '.repeat(depth + 1);
+  const children = atom.outgoing.map(child => `\n${indent}${printAtom(child, depth + 1)}`).join('');
+  return `(${[atom.type, ...values].join(' ')}${children})`;
+}
+
+function quote(name: string): string {
+  return `"${name.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(6)));
+}
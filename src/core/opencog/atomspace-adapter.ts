@@ -7,6 +7,8 @@
 
 import { CognitiveNode, CognitiveEdge, CognitiveHypergraph, CognitiveState, Tensor } from '../mad9ml/types.js';
 import { AttentionValue } from '../attention/ecan-attention-kernel.js';
+import { AtomeseAtom, ATOMESE_NODE_TYPES, parseAtomese, printAtomese } from './atomese.js';
+import { AtomPattern, PatternGrounding, PatternMatcher, PatternQuery } from './pattern-matcher.js';
 
 /**
  * OpenCog Atom types mapping to cognitive elements
@@ -120,6 +122,30 @@ export interface ConversionResult {
   warnings: string[];
 }
 
+/**
+ * Tensor groups of a cognitive state that produce tensor-backed atoms
+ */
+type TensorGroup = 'memory' | 'task' | 'persona' | 'metaCognitive';
+
+/**
+ * Tensor-backed atom sources, keyed by the `source.tensorComponent` of the atoms they produce
+ */
+const TENSOR_ATOM_SOURCES: Record<string, { group: TensorGroup; key: string; rowLimit: number }> = {
+  concepts: { group: 'memory', key: 'semantic', rowLimit: 1000 },
+  episodes: { group: 'memory', key: 'episodic', rowLimit: 500 },
+  skills: { group: 'memory', key: 'procedural', rowLimit: 300 },
+  active_items: { group: 'memory', key: 'working', rowLimit: 100 },
+  active: { group: 'task', key: 'active', rowLimit: 50 },
+  queued: { group: 'task', key: 'queue', rowLimit: 100 },
+  focus_weights: { group: 'task', key: 'attention', rowLimit: 20 },
+  traits: { group: 'persona', key: 'traits', rowLimit: 50 },
+  parameters: { group: 'persona', key: 'parameters', rowLimit: 30 },
+  mutation_coeffs: { group: 'persona', key: 'mutationCoeffs', rowLimit: 20 },
+  self_eval: { group: 'metaCognitive', key: 'selfEval', rowLimit: 15 },
+  adjustment: { group: 'metaCognitive', key: 'adjustment', rowLimit: 25 },
+  history: { group: 'metaCognitive', key: 'history', rowLimit: 100 }
+};
+
 /**
  * AtomSpace Adapter for converting kernel state to OpenCog format
  */
@@ -127,14 +153,19 @@ export class AtomSpaceAdapter {
   private atomSpace: AtomSpace;
   private idCounter: number = 0;
 
-  constructor() {
-    this.atomSpace = {
+  /**
+   * @param atomSpace Existing AtomSpace to operate on; a fresh one is created when omitted
+   */
+  constructor(atomSpace?: AtomSpace) {
+    this.atomSpace = atomSpace ?? {
       atoms: new Map(),
       links: new Map(),
       typeIndex: new Map(),
       nameIndex: new Map(),
       attentionIndex: new Map()
     };
+    // Keep generated IDs clear of the ones already present in a shared AtomSpace
+    this.idCounter = this.nextFreeIndex();
   }
 
   /**
@@ -221,7 +252,7 @@ export class AtomSpaceAdapter {
   /**
    * Convert CognitiveNode to Atom
    */
-  private convertNodeToAtom(node: CognitiveNode): Atom {
+  public convertNodeToAtom(node: CognitiveNode): Atom {
     const atomType = this.mapNodeTypeToAtomType(node.type);
     const truthValue = this.extractTruthValue(node);
     const attentionValue = this.extractAttentionValue(node);
@@ -248,7 +279,7 @@ export class AtomSpaceAdapter {
   /**
    * Convert CognitiveEdge to Link
    */
-  private convertEdgeToLink(edge: CognitiveEdge): Link {
+  public convertEdgeToLink(edge: CognitiveEdge): Link {
     const linkType = this.mapEdgeTypeToLinkType(edge.type);
     const truthValue = this.extractTruthValueFromEdge(edge);
     const attentionValue = this.createAttentionValueFromWeight(edge.weight);
@@ -848,7 +879,7 @@ export class AtomSpaceAdapter {
     // Extract truth value from metadata or tensor data
     const metadata = node.metadata;
     return {
-      strength: metadata.confidence || 0.8,
+      strength: metadata.strength ?? (metadata.confidence || 0.8),
       confidence: metadata.confidence || 0.8,
       count: metadata.count || 1
     };
@@ -902,6 +933,371 @@ export class AtomSpaceAdapter {
     this.updateIndices(link);
   }
 
+  /**
+   * Insert an atom or link, replacing any existing entry with the same ID
+   */
+  public putAtom(atom: Atom | Link): void {
+    this.removeAtom(atom.id);
+    if ('outgoing' in atom) {
+      this.addLink(atom);
+    } else {
+      this.addAtom(atom);
+    }
+  }
+
+  /**
+   * Remove an atom or link and its index entries
+   */
+  public removeAtom(atomId: string): boolean {
+    const atom = this.atomSpace.atoms.get(atomId) ?? this.atomSpace.links.get(atomId);
+    if (!atom) return false;
+
+    this.atomSpace.atoms.delete(atomId);
+    this.atomSpace.links.delete(atomId);
+    this.removeFromIndex(this.atomSpace.typeIndex, atom.type, atomId);
+    this.removeFromIndex(this.atomSpace.nameIndex, atom.name, atomId);
+    this.atomSpace.attentionIndex.delete(atomId);
+    return true;
+  }
+
+  private removeFromIndex<K>(index: Map<K, Set<string>>, key: K, atomId: string): void {
+    const ids = index.get(key);
+    if (!ids) return;
+    ids.delete(atomId);
+    if (ids.size === 0) {
+      index.delete(key);
+    }
+  }
+
+  /**
+   * List the tensor components that produce tensor-backed atoms
+   */
+  public getTensorComponents(): string[] {
+    return Object.keys(TENSOR_ATOM_SOURCES);
+  }
+
+  /**
+   * Number of rows of a tensor component that are represented as atoms
+   */
+  public countTensorRows(component: string, state: CognitiveState): number {
+    const tensor = this.resolveTensor(component, state);
+    if (!tensor) return 0;
+    return Math.min(tensor.shape[0], TENSOR_ATOM_SOURCES[component].rowLimit);
+  }
+
+  /**
+   * Derive the atom for one tensor row without adding it to the AtomSpace
+   */
+  public deriveTensorAtom(component: string, state: CognitiveState, index: number): Atom | null {
+    const tensor = this.resolveTensor(component, state);
+    if (!tensor || index < 0 || index >= this.countTensorRows(component, state)) return null;
+
+    const dim = tensor.shape[1];
+    const channel = tensor.shape[2] > 2 ? 2 : 0;
+
+    switch (component) {
+      case 'concepts': return this.createConceptFromTensor(tensor, index, dim, channel);
+      case 'episodes': return this.createEpisodeFromTensor(tensor, index, dim, channel);
+      case 'skills': return this.createSkillFromTensor(tensor, index, dim, channel);
+      case 'active_items': return this.createWorkingItemFromTensor(tensor, index, dim, channel);
+      case 'active':
+      case 'queued': return this.createTaskFromTensor(tensor, index, dim, channel, component);
+      case 'focus_weights': return this.createAttentionFromTensor(tensor, index, dim, channel);
+      case 'traits': return this.createTraitFromTensor(tensor, index, dim);
+      case 'parameters': return this.createParameterFromTensor(tensor, index, dim);
+      case 'mutation_coeffs': return this.createMutationFromTensor(tensor, index, dim);
+      case 'self_eval': return this.createSelfEvalFromTensor(tensor, index, dim);
+      case 'adjustment': return this.createAdjustmentFromTensor(tensor, index, dim);
+      case 'history': return this.createHistoryFromTensor(tensor, index, dim);
+      default: return null;
+    }
+  }
+
+  /**
+   * Write a tensor-backed atom's truth value back into its source tensor row.
+   * This is the inverse of the tensor-to-atom mapping used during conversion.
+   */
+  public writeAtomToTensor(atom: Atom, state: CognitiveState): boolean {
+    const component = atom.source.tensorComponent;
+    const index = atom.metadata.tensorIndex;
+    if (!component || typeof index !== 'number') return false;
+
+    const tensor = this.resolveTensor(component, state);
+    if (!tensor || index < 0 || index >= tensor.shape[0]) return false;
+
+    const data = tensor.data;
+    const baseIdx = index * tensor.shape[1] * tensor.shape[2];
+    const channel = tensor.shape[2] > 2 ? 2 : 0;
+    const { strength, confidence } = atom.truthValue;
+
+    switch (component) {
+      case 'concepts':
+      case 'focus_weights':
+        data[baseIdx] = strength;
+        if (channel > 0) data[baseIdx + channel] = confidence;
+        break;
+      case 'episodes':
+      case 'skills':
+      case 'active':
+      case 'queued':
+        if (channel > 0) data[baseIdx + channel] = strength;
+        break;
+      case 'active_items':
+        data[baseIdx] = strength;
+        if (channel > 0) data[baseIdx + channel] = 1.0 - confidence;
+        break;
+      case 'adjustment':
+        // Strength is the delta magnitude, so keep the existing sign
+        data[baseIdx] = (data[baseIdx] < 0 ? -1 : 1) * strength;
+        break;
+      default:
+        data[baseIdx] = strength;
+    }
+
+    return true;
+  }
+
+  private resolveTensor(component: string, state: CognitiveState): Tensor | undefined {
+    const source = TENSOR_ATOM_SOURCES[component];
+    if (!source) return undefined;
+    const group = state[source.group] as unknown as Record<string, Tensor | undefined> | undefined;
+    const tensor = group?.[source.key];
+    return tensor && tensor.shape.length >= 3 ? tensor : undefined;
+  }
+
+  /**
+   * Import Atomese s-expressions. Nodes are matched by type and name and links
+   * by type and outgoing set; matches take any truth or attention values given
+   * in the text. A syntax error aborts the import before any atom is added.
+   */
+  public importAtomese(text: string): ConversionResult {
+    const startTime = Date.now();
+    const result: ConversionResult = {
+      nodesConverted: 0,
+      edgesConverted: 0,
+      atomsCreated: 0,
+      linksCreated: 0,
+      duration: 0,
+      errors: [],
+      warnings: []
+    };
+
+    try {
+      const expressions = parseAtomese(text);
+      const linkIndex = new Map<string, string>();
+      this.atomSpace.links.forEach(link => {
+        linkIndex.set(this.linkKey(link.type, link.outgoing.map(ref => this.resolveAtomRef(ref)?.id ?? ref)), link.id);
+      });
+
+      expressions.forEach(expression => this.importAtomeseAtom(expression, linkIndex, result));
+    } catch (error) {
+      result.errors.push(`Atomese import error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    result.duration = Date.now() - startTime;
+    return result;
+  }
+
+  /**
+   * Export the AtomSpace as Atomese: node declarations carrying their truth and
+   * attention values, followed by every link not nested in another link.
+   * Link-typed atoms without an outgoing set have no Atomese form and are skipped.
+   */
+  public exportAtomese(): string {
+    const nodes: AtomeseAtom[] = Array.from(this.atomSpace.atoms.values())
+      .filter(atom => ATOMESE_NODE_TYPES.has(atom.type))
+      .map(atom => ({
+        type: atom.type,
+        name: atom.name,
+        truthValue: atom.truthValue,
+        attentionValue: atom.attentionValue
+      }));
+
+    const nested = new Set<string>();
+    this.atomSpace.links.forEach(link => {
+      link.outgoing.forEach(ref => {
+        if (this.atomSpace.links.has(ref)) nested.add(ref);
+      });
+    });
+
+    const links = Array.from(this.atomSpace.links.values())
+      .filter(link => !nested.has(link.id))
+      .map(link => this.toAtomeseLink(link, new Set()));
+
+    return printAtomese([...nodes, ...links]);
+  }
+
+  /**
+   * Enumerate the groundings of a pattern query (GetLink)
+   */
+  public match(query: PatternQuery): PatternGrounding[] {
+    return new PatternMatcher(this.atomSpace).match(query);
+  }
+
+  /**
+   * Instantiate a template for every grounding of a pattern query (BindLink).
+   * Template nodes and links already in the AtomSpace are reused; the rest are
+   * added. Returns the instantiated atoms, one per grounding.
+   */
+  public bind(query: PatternQuery, template: AtomPattern): Atom[] {
+    return this.match(query).map(grounding => this.instantiate(template, grounding.bindings));
+  }
+
+  private instantiate(template: AtomPattern, bindings: Map<string, Atom>): Atom {
+    if (template.kind === 'variable') {
+      const bound = bindings.get(template.name);
+      if (!bound) {
+        throw new Error(`Template variable ${template.name} is not bound by the query`);
+      }
+      return bound;
+    }
+
+    if (template.kind === 'node') {
+      if (!template.type || typeof template.name !== 'string') {
+        throw new Error('Template nodes need a type and a literal name');
+      }
+      const type = template.type;
+      const existing = Array.from(this.atomSpace.nameIndex.get(template.name) || [])
+        .map(id => this.atomSpace.atoms.get(id))
+        .find(atom => atom?.type === type);
+      if (existing) return existing;
+
+      const atom: Atom = {
+        id: this.generateId(),
+        type,
+        name: template.name,
+        truthValue: { strength: 1.0, confidence: 0 },
+        attentionValue: { sti: 0, lti: 0, vlti: 0 },
+        metadata: {},
+        source: { kernelId: 'pattern_matcher' }
+      };
+      this.addAtom(atom);
+      return atom;
+    }
+
+    if (!template.type) {
+      throw new Error('Template links need a type');
+    }
+    const outgoing = template.outgoing.map(child => this.instantiate(child, bindings));
+    const key = this.linkKey(template.type, outgoing.map(atom => atom.id));
+    const existing = this.queryLinksByType(template.type).find(candidate =>
+      this.linkKey(candidate.type, candidate.outgoing.map(ref => this.resolveAtomRef(ref)?.id ?? ref)) === key
+    );
+    if (existing) return existing;
+
+    const link: Link = {
+      id: this.generateId(),
+      type: template.type,
+      name: `${template.type.replace(/Link$/, '').toLowerCase()}_${outgoing.map(atom => atom.name).join('_')}`,
+      truthValue: { strength: 1.0, confidence: 0 },
+      attentionValue: { sti: 0, lti: 0, vlti: 0 },
+      metadata: {},
+      source: { kernelId: 'pattern_matcher' },
+      outgoing: outgoing.map(atom => atom.id)
+    };
+    this.addLink(link);
+    return link;
+  }
+
+  private queryLinksByType(type: AtomType): Link[] {
+    return Array.from(this.atomSpace.typeIndex.get(type) || [])
+      .map(id => this.atomSpace.links.get(id))
+      .filter((link): link is Link => !!link);
+  }
+
+  private importAtomeseAtom(expression: AtomeseAtom, linkIndex: Map<string, string>, result: ConversionResult): string {
+    if (expression.outgoing === undefined) {
+      const name = expression.name!;
+      const existing = Array.from(this.atomSpace.nameIndex.get(name) || [])
+        .map(id => this.atomSpace.atoms.get(id))
+        .find(atom => atom?.type === expression.type);
+
+      if (existing) {
+        this.putAtom({
+          ...existing,
+          truthValue: expression.truthValue ?? existing.truthValue,
+          attentionValue: expression.attentionValue ?? existing.attentionValue
+        });
+        return existing.id;
+      }
+
+      const atom: Atom = {
+        id: this.generateId(),
+        type: expression.type,
+        name,
+        truthValue: expression.truthValue ?? { strength: 1.0, confidence: 0 },
+        attentionValue: expression.attentionValue ?? { sti: 0, lti: 0, vlti: 0 },
+        metadata: {},
+        source: { kernelId: 'atomese' }
+      };
+      this.addAtom(atom);
+      result.atomsCreated++;
+      return atom.id;
+    }
+
+    const outgoing = expression.outgoing.map(child => this.importAtomeseAtom(child, linkIndex, result));
+    const key = this.linkKey(expression.type, outgoing);
+    const existing = this.atomSpace.links.get(linkIndex.get(key) ?? '');
+
+    if (existing) {
+      this.putAtom({
+        ...existing,
+        truthValue: expression.truthValue ?? existing.truthValue,
+        attentionValue: expression.attentionValue ?? existing.attentionValue
+      });
+      return existing.id;
+    }
+
+    const names = outgoing.map(id => (this.atomSpace.atoms.get(id) ?? this.atomSpace.links.get(id))?.name ?? id);
+    const link: Link = {
+      id: this.generateId(),
+      type: expression.type,
+      name: `${expression.type.replace(/Link$/, '').toLowerCase()}_${names.join('_')}`,
+      truthValue: expression.truthValue ?? { strength: 1.0, confidence: 0 },
+      attentionValue: expression.attentionValue ?? { sti: 0, lti: 0, vlti: 0 },
+      metadata: {},
+      source: { kernelId: 'atomese' },
+      outgoing
+    };
+    this.addLink(link);
+    linkIndex.set(key, link.id);
+    result.linksCreated++;
+    return link.id;
+  }
+
+  private toAtomeseLink(link: Link, visiting: Set<string>): AtomeseAtom {
+    visiting.add(link.id);
+    const outgoing = link.outgoing.map(ref => {
+      const child = this.atomSpace.links.get(ref);
+      if (child && !visiting.has(child.id)) {
+        return this.toAtomeseLink(child, visiting);
+      }
+      const atom = this.resolveAtomRef(ref);
+      return atom && ATOMESE_NODE_TYPES.has(atom.type)
+        ? { type: atom.type, name: atom.name }
+        : { type: 'ConceptNode' as AtomType, name: atom?.name ?? ref };
+    });
+    visiting.delete(link.id);
+
+    return {
+      type: link.type,
+      truthValue: link.truthValue,
+      attentionValue: link.attentionValue,
+      outgoing
+    };
+  }
+
+  /**
+   * Resolve an outgoing reference, which may be an atom ID or a node name
+   */
+  private resolveAtomRef(ref: string): Atom | undefined {
+    return new PatternMatcher(this.atomSpace).resolve(ref);
+  }
+
+  private linkKey(type: AtomType, outgoing: string[]): string {
+    return `${type}(${outgoing.join(',')})`;
+  }
+
   private updateIndices(atom: Atom): void {
     // Update type index
     if (!this.atomSpace.typeIndex.has(atom.type)) {
@@ -921,7 +1317,25 @@ export class AtomSpaceAdapter {
   }
 
   private generateId(): string {
-    return `atom_${this.idCounter++}_${Date.now()}`;
+    let id: string;
+    do {
+      id = `atom_${this.idCounter++}_${Date.now()}`;
+    } while (this.atomSpace.atoms.has(id) || this.atomSpace.links.has(id));
+    return id;
+  }
+
+  /**
+   * Index after the highest one among generated IDs already in the AtomSpace
+   */
+  private nextFreeIndex(): number {
+    let next = 0;
+    for (const id of [...this.atomSpace.atoms.keys(), ...this.atomSpace.links.keys()]) {
+      const match = /^atom_(\d+)_/.exec(id);
+      if (match) {
+        next = Math.max(next, Number(match[1]) + 1);
+      }
+    }
+    return next;
   }
 
   /**
@@ -0,0 +1,403 @@
+/**
+ * AtomSpace Storage
+ *
+ * Storage abstraction for named AtomSpaces and a file-based backend. Each
+ * AtomSpace is kept as a snapshot of atoms, links and indices plus an
+ * append-only log of changes since the snapshot; saves append only the atoms
+ * that changed and the log is compacted into a new snapshot once it grows.
+ * Callers can keep further state alongside the AtomSpace as keyed records,
+ * which are stored incrementally through the same log.
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import type { AtomSpace, Atom, AtomType, Link } from './atomspace-adapter.js';
+
+/**
+ * Stored AtomSpace with the caller's metadata
+ */
+export interface StoredAtomSpace {
+  atomSpace: AtomSpace;
+  /** Metadata saved alongside the AtomSpace, if any */
+  metadata?: Record<string, any>;
+  /** Keyed records saved alongside the AtomSpace */
+  records: Map<string, unknown>;
+}
+
+/**
+ * Outcome of an incremental save
+ */
+export interface StorageSaveResult {
+  /** Atoms, links and records written (added or changed) */
+  written: number;
+  /** Atoms, links and records removed */
+  removed: number;
+  /** Whether the log was compacted into a new snapshot */
+  compacted: boolean;
+}
+
+/**
+ * Storage backend for named AtomSpaces
+ */
+export interface AtomSpaceStorage {
+  /** Load an AtomSpace, or null if none is stored under the name */
+  load(name: string): Promise<StoredAtomSpace | null>;
+  /**
+   * Save the changes since the last load or save. `records` is the full set
+   * of records to keep; records left out are removed. When omitted the stored
+   * records stay as they are.
+   */
+  save(name: string, atomSpace: AtomSpace, metadata?: Record<string, any>, records?: Map<string, unknown>): Promise<StorageSaveResult>;
+  /** Names of the stored AtomSpaces */
+  list(): Promise<string[]>;
+  /** Delete a stored AtomSpace */
+  delete(name: string): Promise<boolean>;
+}
+
+/**
+ * File storage options
+ */
+export interface FileAtomSpaceStorageOptions {
+  /** Log entries after which the log is compacted into a snapshot */
+  compactionThreshold: number;
+}
+
+/**
+ * Log entry: an atom or link written, an ID removed, or a record written or removed
+ */
+type LogEntry =
+  | { op: 'put'; kind: 'atom' | 'link'; atom: Atom }
+  | { op: 'remove'; id: string }
+  | { op: 'record'; key: string; value: unknown }
+  | { op: 'drop'; key: string };
+
+/**
+ * Snapshot file contents
+ */
+interface Snapshot {
+  version: 1;
+  atoms: Atom[];
+  links: Link[];
+  typeIndex: Array<[AtomType, string[]]>;
+  nameIndex: Array<[string, string[]]>;
+  attentionIndex: Array<[string, number]>;
+  /** Missing in snapshots written before records were stored */
+  records?: Array<[string, unknown]>;
+}
+
+const SNAPSHOT_FILE = 'snapshot.json';
+const LOG_FILE = 'log.jsonl';
+const METADATA_FILE = 'metadata.json';
+
+/**
+ * File-based AtomSpace storage: `<directory>/<name>/` holds `snapshot.json`,
+ * `log.jsonl` and `metadata.json`
+ */
+export class FileAtomSpaceStorage implements AtomSpaceStorage {
+  private options: FileAtomSpaceStorageOptions;
+  /** Per name: atom ID -> serialized form last persisted */
+  private persisted: Map<string, Map<string, string>> = new Map();
+  /** Per name: record key -> serialized form last persisted */
+  private persistedRecords: Map<string, Map<string, string>> = new Map();
+  /** Per name: entries in the log since the last snapshot */
+  private logLength: Map<string, number> = new Map();
+
+  constructor(private directory: string, options?: Partial<FileAtomSpaceStorageOptions>) {
+    this.options = {
+      compactionThreshold: 1000,
+      ...options
+    };
+  }
+
+  public async load(name: string): Promise<StoredAtomSpace | null> {
+    const dir = this.pathFor(name);
+    const snapshot = await this.readJson<Snapshot>(join(dir, SNAPSHOT_FILE));
+    const logText = await this.readText(join(dir, LOG_FILE));
+    if (!snapshot && logText === null) {
+      return null;
+    }
+
+    const atomSpace = createEmptyAtomSpace();
+    const records = new Map<string, unknown>(snapshot?.records ?? []);
+    if (snapshot) {
+      snapshot.atoms.forEach(atom => atomSpace.atoms.set(atom.id, atom));
+      snapshot.links.forEach(link => atomSpace.links.set(link.id, link));
+      snapshot.typeIndex.forEach(([type, ids]) => atomSpace.typeIndex.set(type, new Set(ids)));
+      snapshot.nameIndex.forEach(([atomName, ids]) => atomSpace.nameIndex.set(atomName, new Set(ids)));
+      snapshot.attentionIndex.forEach(([id, value]) => atomSpace.attentionIndex.set(id, value));
+    }
+
+    const entries = this.parseLog(logText ?? '');
+    entries.forEach(entry => {
+      if (entry.op === 'record') {
+        records.set(entry.key, entry.value);
+      } else if (entry.op === 'drop') {
+        records.delete(entry.key);
+      } else {
+        applyLogEntry(atomSpace, entry);
+      }
+    });
+
+    this.persisted.set(name, serializeAll(atomSpace));
+    this.persistedRecords.set(name, serializeRecords(records));
+    this.logLength.set(name, entries.length);
+
+    const metadata = await this.readJson<Record<string, any>>(join(dir, METADATA_FILE));
+    return { atomSpace, metadata: metadata ?? undefined, records };
+  }
+
+  public async save(
+    name: string,
+    atomSpace: AtomSpace,
+    metadata?: Record<string, any>,
+    records?: Map<string, unknown>
+  ): Promise<StorageSaveResult> {
+    const dir = this.pathFor(name);
+    await fs.mkdir(dir, { recursive: true });
+
+    if (!this.persisted.has(name)) {
+      const stored = await this.load(name);
+      if (!stored) {
+        this.persisted.set(name, new Map());
+        this.persistedRecords.set(name, new Map());
+        this.logLength.set(name, 0);
+      }
+    }
+
+    const previous = this.persisted.get(name)!;
+    const current = serializeAll(atomSpace);
+    const entries: string[] = [];
+    let written = 0;
+    let removed = 0;
+
+    current.forEach((serialized, id) => {
+      if (previous.get(id) !== serialized) {
+        entries.push(serialized);
+        written++;
+      }
+    });
+    previous.forEach((_, id) => {
+      if (!current.has(id)) {
+        entries.push(JSON.stringify({ op: 'remove', id }));
+        removed++;
+      }
+    });
+
+    const previousRecords = this.persistedRecords.get(name)!;
+    const currentRecords = records ? serializeRecords(records) : previousRecords;
+    currentRecords.forEach((serialized, key) => {
+      if (previousRecords.get(key) !== serialized) {
+        entries.push(serialized);
+        written++;
+      }
+    });
+    previousRecords.forEach((_, key) => {
+      if (!currentRecords.has(key)) {
+        entries.push(JSON.stringify({ op: 'drop', key }));
+        removed++;
+      }
+    });
+
+    if (entries.length > 0) {
+      await fs.appendFile(join(dir, LOG_FILE), entries.join('\n') + '\n');
+    }
+    if (metadata !== undefined) {
+      await this.writeAtomically(join(dir, METADATA_FILE), JSON.stringify(metadata));
+    }
+
+    this.persisted.set(name, current);
+    this.persistedRecords.set(name, currentRecords);
+    const logLength = (this.logLength.get(name) || 0) + entries.length;
+    this.logLength.set(name, logLength);
+
+    let compacted = false;
+    if (logLength >= this.options.compactionThreshold) {
+      await this.compact(name, atomSpace, records);
+      compacted = true;
+    }
+
+    return { written, removed, compacted };
+  }
+
+  /**
+   * Write a snapshot of the AtomSpace and records and truncate the log;
+   * without `records` the records last loaded or saved are kept
+   */
+  public async compact(name: string, atomSpace: AtomSpace, records?: Map<string, unknown>): Promise<void> {
+    const dir = this.pathFor(name);
+    await fs.mkdir(dir, { recursive: true });
+
+    const persistedRecords = records ? serializeRecords(records) : this.persistedRecords.get(name) ?? new Map<string, string>();
+    const snapshotRecords = Array.from(persistedRecords.values()).map(serialized => {
+      const entry = JSON.parse(serialized) as { key: string; value: unknown };
+      return [entry.key, entry.value] as [string, unknown];
+    });
+
+    const snapshot: Snapshot = {
+      version: 1,
+      atoms: Array.from(atomSpace.atoms.values()),
+      links: Array.from(atomSpace.links.values()),
+      typeIndex: Array.from(atomSpace.typeIndex.entries()).map(([type, ids]) => [type, Array.from(ids)]),
+      nameIndex: Array.from(atomSpace.nameIndex.entries()).map(([atomName, ids]) => [atomName, Array.from(ids)]),
+      attentionIndex: Array.from(atomSpace.attentionIndex.entries()),
+      records: snapshotRecords
+    };
+
+    // The snapshot is in place before the log it replaces is truncated
+    await this.writeAtomically(join(dir, SNAPSHOT_FILE), JSON.stringify(snapshot));
+    await fs.writeFile(join(dir, LOG_FILE), '');
+
+    this.persisted.set(name, serializeAll(atomSpace));
+    this.persistedRecords.set(name, persistedRecords);
+    this.logLength.set(name, 0);
+  }
+
+  public async list(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.directory, { withFileTypes: true });
+      return entries
+        .filter(entry => entry.isDirectory())
+        .map(entry => decodeURIComponent(entry.name))
+        .sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  public async delete(name: string): Promise<boolean> {
+    this.persisted.delete(name);
+    this.persistedRecords.delete(name);
+    this.logLength.delete(name);
+    try {
+      await fs.access(this.pathFor(name));
+    } catch {
+      return false;
+    }
+    await fs.rm(this.pathFor(name), { recursive: true, force: true });
+    return true;
+  }
+
+  private pathFor(name: string): string {
+    return join(this.directory, encodeURIComponent(name));
+  }
+
+  /**
+   * Parse log lines, ignoring a torn final line left by an interrupted append
+   */
+  private parseLog(text: string): LogEntry[] {
+    const lines = text.split('\n').filter(line => line.trim().length > 0);
+    const entries: LogEntry[] = [];
+
+    lines.forEach((line, index) => {
+      try {
+        entries.push(JSON.parse(line));
+      } catch (error) {
+        if (index !== lines.length - 1) {
+          throw new Error(`Corrupt AtomSpace log entry at line ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    });
+    return entries;
+  }
+
+  private async readText(path: string): Promise<string | null> {
+    try {
+      return await fs.readFile(path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async readJson<T>(path: string): Promise<T | null> {
+    const text = await this.readText(path);
+    return text === null ? null : JSON.parse(text);
+  }
+
+  private async writeAtomically(path: string, contents: string): Promise<void> {
+    const temporary = `${path}.tmp`;
+    await fs.writeFile(temporary, contents);
+    await fs.rename(temporary, path);
+  }
+}
+
+/**
+ * Create an empty AtomSpace
+ */
+export function createEmptyAtomSpace(): AtomSpace {
+  return {
+    atoms: new Map(),
+    links: new Map(),
+    typeIndex: new Map(),
+    nameIndex: new Map(),
+    attentionIndex: new Map()
+  };
+}
+
+/**
+ * Serialized `put` entries keyed by atom ID
+ */
+function serializeAll(atomSpace: AtomSpace): Map<string, string> {
+  const serialized = new Map<string, string>();
+  atomSpace.atoms.forEach((atom, id) => serialized.set(id, JSON.stringify({ op: 'put', kind: 'atom', atom })));
+  atomSpace.links.forEach((link, id) => serialized.set(id, JSON.stringify({ op: 'put', kind: 'link', atom: link })));
+  return serialized;
+}
+
+/**
+ * Serialized `record` entries keyed by record key
+ */
+function serializeRecords(records: Map<string, unknown>): Map<string, string> {
+  const serialized = new Map<string, string>();
+  records.forEach((value, key) => serialized.set(key, JSON.stringify({ op: 'record', key, value })));
+  return serialized;
+}
+
+/**
+ * Apply an atom log entry to an AtomSpace, maintaining its indices
+ */
+function applyLogEntry(atomSpace: AtomSpace, entry: Extract<LogEntry, { op: 'put' | 'remove' }>): void {
+  const existing = atomSpace.atoms.get(entry.op === 'put' ? entry.atom.id : entry.id) ??
+    atomSpace.links.get(entry.op === 'put' ? entry.atom.id : entry.id);
+
+  if (existing) {
+    atomSpace.atoms.delete(existing.id);
+    atomSpace.links.delete(existing.id);
+    removeFromIndex(atomSpace.typeIndex, existing.type, existing.id);
+    removeFromIndex(atomSpace.nameIndex, existing.name, existing.id);
+    atomSpace.attentionIndex.delete(existing.id);
+  }
+
+  if (entry.op === 'remove') return;
+
+  const { atom } = entry;
+  if (entry.kind === 'link') {
+    atomSpace.links.set(atom.id, atom as Link);
+  } else {
+    atomSpace.atoms.set(atom.id, atom);
+  }
+  addToIndex(atomSpace.typeIndex, atom.type, atom.id);
+  addToIndex(atomSpace.nameIndex, atom.name, atom.id);
+  atomSpace.attentionIndex.set(atom.id, atom.attentionValue.sti + atom.attentionValue.lti + atom.attentionValue.vlti);
+}
+
+function addToIndex<K>(index: Map<K, Set<string>>, key: K, id: string): void {
+  if (!index.has(key)) {
+    index.set(key, new Set());
+  }
+  index.get(key)!.add(id);
+}
+
+function removeFromIndex<K>(index: Map<K, Set<string>>, key: K, id: string): void {
+  const ids = index.get(key);
+  if (!ids) return;
+  ids.delete(id);
+  if (ids.size === 0) {
+    index.delete(key);
+  }
+}
@@ -9,6 +9,12 @@
 export { AtomSpaceAdapter } from './atomspace-adapter.js';
 export { PLNAdapter, TruthValueOperations } from './pln-adapter.js';
 export { KernelStateConverter } from './kernel-state-converter.js';
+export { PLNChainer } from './pln-chainer.js';
+export { PLNRuleRegistry, DEFAULT_PLN_RULES } from './pln-rules.js';
+export { PLNRevision } from './pln-revision.js';
+export { parseAtomese, printAtomese } from './atomese.js';
+export { PatternMatcher, variable, node, link, satisfiesConstraint } from './pattern-matcher.js';
+export { FileAtomSpaceStorage, createEmptyAtomSpace } from './atomspace-storage.js';
 
 // Integration examples and demos
 export * from './integration-examples.js';
@@ -25,6 +31,20 @@ export type {
   ConversionResult
 } from './atomspace-adapter.js';
 
+export type {
+  // Atomese types
+  AtomeseAtom
+} from './atomese.js';
+
+export type {
+  // Pattern matcher types
+  AtomPattern,
+  AtomConstraint,
+  VariableDeclaration,
+  PatternQuery,
+  PatternGrounding
+} from './pattern-matcher.js';
+
 export type {
   // PLN types
   PLNQuery,
@@ -34,12 +54,47 @@ export type {
   PLNRuleType
 } from './pln-adapter.js';
 
+export type {
+  // Chaining types
+  PLNRule,
+  PLNPattern,
+  PLNRuleContext,
+  PLNKnowledgeView
+} from './pln-rules.js';
+
+export type {
+  PLNGoal,
+  PLNChainResult
+} from './pln-chainer.js';
+
+export type {
+  // Revision types
+  PLNRevisionOptions,
+  PLNRevisionReport,
+  PLNRevisionResult,
+  PLNContradiction
+} from './pln-revision.js';
+
+export type {
+  // Storage types
+  AtomSpaceStorage,
+  StoredAtomSpace,
+  StorageSaveResult,
+  FileAtomSpaceStorageOptions
+} from './atomspace-storage.js';
+
 export type {
   // Converter types
   ConversionOptions,
   ConversionState,
   ConsistencyResult,
-  SyncResult
+  SyncResult,
+  SyncConflict,
+  SyncBaseline,
+  ConflictResolutionPolicy,
+  SerializedTensor,
+  SerializedCognitiveNode,
+  StoredConversionHeader
 } from './kernel-state-converter.js';
 
 /**
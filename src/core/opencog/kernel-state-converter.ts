@@ -5,9 +5,22 @@
  * enabling seamless integration with PLN reasoning while maintaining state consistency.
  */
 
-import { CognitiveState, CognitiveNode, CognitiveEdge, CognitiveHypergraph, Tensor } from '../mad9ml/types.js';
-import { AtomSpaceAdapter, AtomSpace, Atom, Link, ConversionResult } from './atomspace-adapter.js';
+import {
+  CognitiveState,
+  CognitiveNode,
+  CognitiveEdge,
+  CognitiveHypergraph,
+  MemoryTensor,
+  MetaCognitiveTensor,
+  PersonaTensor,
+  TaskTensor,
+  Tensor,
+  TensorType
+} from '../mad9ml/types.js';
+import { AtomSpaceAdapter, AtomSpace, Atom, AtomType, Link, ConversionResult } from './atomspace-adapter.js';
 import { PLNAdapter, PLNQuery, PLNInferenceResult } from './pln-adapter.js';
+import type { PLNRevisionReport } from './pln-revision.js';
+import type { AtomSpaceStorage, StorageSaveResult } from './atomspace-storage.js';
 
 /**
  * Bidirectional conversion options
@@ -25,6 +38,29 @@ export interface ConversionOptions {
   attentionThreshold: number;
   /** Confidence threshold for back-conversion */
   confidenceThreshold: number;
+  /** Policy for elements changed on both sides between synchronizations */
+  conflictResolution: ConflictResolutionPolicy;
+}
+
+/**
+ * Conflict resolution policies for bidirectional synchronization
+ */
+export type ConflictResolutionPolicy = 'kernel-wins' | 'atomspace-wins' | 'highest-confidence-wins';
+
+/**
+ * Conflict detected during synchronization
+ */
+export interface SyncConflict {
+  /** Kernel element key (`node:<id>`, `edge:<id>` or `tensor:<component>:<row>`) */
+  kernelKey: string;
+  /** Atom mapped to the kernel element */
+  atomId: string;
+  /** Confidence of the kernel-side value */
+  kernelConfidence: number;
+  /** Confidence of the AtomSpace-side value */
+  atomSpaceConfidence: number;
+  /** Side whose change was kept */
+  winner: 'kernel' | 'atomspace';
 }
 
 /**
@@ -43,6 +79,8 @@ export interface ConsistencyResult {
   inconsistenciesFound: number;
   /** Consistency check duration */
   duration: number;
+  /** Duplicate and contradictory knowledge found by PLN revision */
+  revisionReport?: PLNRevisionReport;
 }
 
 /**
@@ -57,6 +95,10 @@ export interface SyncResult {
   atomsUpdated: number;
   /** Number of atoms removed */
   atomsRemoved: number;
+  /** Number of kernel elements created, updated or removed from AtomSpace changes */
+  kernelUpdates: number;
+  /** Conflicts resolved during synchronization */
+  conflicts: SyncConflict[];
   /** Synchronization success */
   success: boolean;
   /** Error messages */
@@ -84,6 +126,85 @@ export interface ConversionState {
   lastSync: number;
   /** Conversion options used */
   options: ConversionOptions;
+  /** Signatures of both representations at the last conversion or sync */
+  syncBaseline: SyncBaseline;
+}
+
+/**
+ * Snapshot of kernel and AtomSpace signatures used for change detection
+ */
+export interface SyncBaseline {
+  /** Kernel element key -> value signature */
+  kernel: Map<string, string>;
+  /** Atom ID -> truth/attention signature */
+  atoms: Map<string, string>;
+  /** Atom ID -> kernel element key, for atoms backed by a kernel element */
+  atomKeys: Map<string, string>;
+}
+
+/**
+ * Tensor as stored: elements are little-endian float32 bytes in base64
+ */
+export interface SerializedTensor {
+  shape: number[];
+  type: TensorType;
+  size: number;
+  data: string;
+}
+
+/**
+ * Hypergraph node as stored
+ */
+export interface SerializedCognitiveNode extends Omit<CognitiveNode, 'state'> {
+  state: SerializedTensor;
+}
+
+/**
+ * Storage metadata of a saved conversion state; the kernel state and
+ * mappings are stored as records alongside it
+ */
+export interface StoredConversionHeader {
+  format: typeof STORED_STATE_FORMAT;
+  conversionTime: number;
+  lastSync: number;
+  /** Kernel state timestamp */
+  timestamp: number;
+  options: ConversionOptions;
+}
+
+type StoredTensorMapping = { atomIds: string[], tensorInfo: any };
+
+/**
+ * Value of a stored record: a tensor, node, edge, cluster (node IDs),
+ * kernel-to-atom mapping (atom ID) or tensor mapping
+ */
+type StoredRecord = SerializedTensor | SerializedCognitiveNode | CognitiveEdge | string[] | string | StoredTensorMapping;
+
+type TensorGroup = 'memory' | 'task' | 'persona' | 'metaCognitive';
+
+const TENSOR_GROUPS: TensorGroup[] = ['memory', 'task', 'persona', 'metaCognitive'];
+
+const STORED_STATE_FORMAT = 'kernel-state-records/1';
+
+/**
+ * Change to a single element detected on one side of the synchronization
+ */
+interface ElementChange {
+  kind: 'added' | 'modified' | 'removed';
+  kernelKey: string;
+  atomId?: string;
+}
+
+interface KernelChangeSet {
+  nodesChanged: ElementChange[];
+  edgesChanged: ElementChange[];
+  tensorsChanged: ElementChange[];
+}
+
+interface AtomSpaceChangeSet {
+  atomsChanged: ElementChange[];
+  linksChanged: ElementChange[];
+  inferredAtomsAdded: Atom[];
 }
 
 /**
@@ -94,8 +215,10 @@ export class KernelStateConverter {
   private plnAdapter: PLNAdapter;
   private conversionStates: Map<string, ConversionState> = new Map();
   private defaultOptions: ConversionOptions;
+  private storage?: AtomSpaceStorage;
 
-  constructor(options?: Partial<ConversionOptions>) {
+  constructor(options?: Partial<ConversionOptions>, storage?: AtomSpaceStorage) {
+    this.storage = storage;
     this.atomSpaceAdapter = new AtomSpaceAdapter();
     this.plnAdapter = new PLNAdapter(this.atomSpaceAdapter.getAtomSpace());
     
@@ -106,6 +229,7 @@ export class KernelStateConverter {
       enableConsistencyCheck: true,
       attentionThreshold: 0.1,
       confidenceThreshold: 0.3,
+      conflictResolution: 'highest-confidence-wins',
       ...options
     };
   }
@@ -144,8 +268,10 @@ export class KernelStateConverter {
           tensorMappings: mappings.tensorMappings
         },
         lastSync: Date.now(),
-        options: opts
+        options: opts,
+        syncBaseline: { kernel: new Map(), atoms: new Map(), atomKeys: new Map() }
       };
+      conversionState.syncBaseline = this.captureSyncBaseline(conversionState);
 
       this.conversionStates.set(stateId, conversionState);
 
@@ -182,6 +308,8 @@ export class KernelStateConverter {
 
       // Update conversion state
       conversionState.kernelState = reconstructedState;
+      this.updateMappings(conversionState);
+      conversionState.syncBaseline = this.captureSyncBaseline(conversionState);
       conversionState.lastSync = Date.now();
 
       return reconstructedState;
@@ -192,15 +320,23 @@ export class KernelStateConverter {
   }
 
   /**
-   * Synchronize changes between kernel state and AtomSpace
+   * Synchronize changes between kernel state and AtomSpace.
+   *
+   * Both sides are diffed against the baseline captured at the last conversion or
+   * sync. Elements changed on both sides are resolved with the configured
+   * `conflictResolution` policy; removals take precedence over concurrent
+   * modifications. Pass `kernelState` to diff a replacement state against the
+   * stored one.
    */
-  public async synchronize(stateId: string = 'default'): Promise<SyncResult> {
+  public async synchronize(stateId: string = 'default', kernelState?: CognitiveState): Promise<SyncResult> {
     const startTime = Date.now();
     const result: SyncResult = {
       atomsSynced: 0,
       atomsCreated: 0,
       atomsUpdated: 0,
       atomsRemoved: 0,
+      kernelUpdates: 0,
+      conflicts: [],
       success: false,
       errors: [],
       duration: 0
@@ -213,20 +349,31 @@ export class KernelStateConverter {
         return result;
       }
 
+      if (kernelState) {
+        conversionState.kernelState = kernelState;
+      }
+
+      const adapter = this.getAdapterFor(conversionState);
+
       // Detect changes in kernel state
-      const kernelChanges = this.detectKernelChanges(conversionState);
+      const kernelChanges = this.detectKernelChanges(conversionState, adapter);
       
       // Detect changes in AtomSpace
       const atomSpaceChanges = this.detectAtomSpaceChanges(conversionState);
 
+      // Resolve elements changed on both sides
+      this.resolveConflicts(kernelChanges, atomSpaceChanges, conversionState, adapter, result);
+
       // Apply kernel changes to AtomSpace
-      await this.applyKernelChangesToAtomSpace(kernelChanges, conversionState, result);
+      await this.applyKernelChangesToAtomSpace(kernelChanges, conversionState, adapter, result);
 
       // Apply AtomSpace changes to kernel state
-      await this.applyAtomSpaceChangesToKernel(atomSpaceChanges, conversionState, result);
+      await this.applyAtomSpaceChangesToKernel(atomSpaceChanges, conversionState, adapter, result);
 
-      // Update mappings
+      // Update mappings and baseline
       this.updateMappings(conversionState);
+      conversionState.syncBaseline = this.captureSyncBaseline(conversionState);
+      conversionState.lastSync = Date.now();
 
       result.success = true;
       result.duration = Date.now() - startTime;
@@ -304,6 +451,9 @@ export class KernelStateConverter {
       // Check structural consistency
       await this.checkStructuralConsistency(conversionState, result);
 
+      // Check logical consistency
+      await this.checkLogicalConsistency(conversionState, result);
+
       // Calculate overall score
       result.score = Math.max(0.0, 1.0 - (result.inconsistenciesFound * 0.1));
       result.duration = Date.now() - startTime;
@@ -670,34 +820,425 @@ export class KernelStateConverter {
     };
   }
 
-  private detectKernelChanges(conversionState: ConversionState): any {
-    // Placeholder for detecting changes in kernel state
-    // In a real implementation, this would compare current state with stored state
+  private getAdapterFor(conversionState: ConversionState): AtomSpaceAdapter {
+    return this.atomSpaceAdapter.getAtomSpace() === conversionState.atomSpace
+      ? this.atomSpaceAdapter
+      : new AtomSpaceAdapter(conversionState.atomSpace);
+  }
+
+  private captureSyncBaseline(conversionState: ConversionState): SyncBaseline {
+    const adapter = this.getAdapterFor(conversionState);
+    const atoms = new Map<string, string>();
+    const atomKeys = new Map<string, string>();
+
+    for (const atom of this.allAtoms(conversionState.atomSpace)) {
+      atoms.set(atom.id, this.atomSignature(atom));
+      const key = this.kernelKeyOf(atom);
+      if (key) {
+        atomKeys.set(atom.id, key);
+      }
+    }
+
     return {
-      nodesChanged: [],
-      edgesChanged: [],
-      tensorsChanged: []
+      kernel: this.computeKernelSignatures(conversionState.kernelState, adapter),
+      atoms,
+      atomKeys
     };
   }
 
-  private detectAtomSpaceChanges(conversionState: ConversionState): any {
-    // Placeholder for detecting changes in AtomSpace
-    // In a real implementation, this would compare current AtomSpace with stored mappings
-    return {
-      atomsChanged: [],
-      linksChanged: [],
-      inferredAtomsAdded: []
+  private computeKernelSignatures(kernelState: CognitiveState, adapter: AtomSpaceAdapter): Map<string, string> {
+    const signatures = new Map<string, string>();
+
+    kernelState.hypergraph?.nodes.forEach((node, nodeId) => {
+      const { confidence, strength, sti, lti, vlti } = node.metadata;
+      signatures.set(`node:${nodeId}`, `${node.type}|${strength}|${confidence}|${sti}|${lti}|${vlti}`);
+    });
+
+    kernelState.hypergraph?.edges.forEach((edge, edgeId) => {
+      signatures.set(
+        `edge:${edgeId}`,
+        `${edge.type}|${edge.source}|${edge.target}|${edge.weight}|${edge.properties.confidence}`
+      );
+    });
+
+    for (const component of adapter.getTensorComponents()) {
+      const rows = adapter.countTensorRows(component, kernelState);
+      for (let i = 0; i < rows; i++) {
+        const derived = adapter.deriveTensorAtom(component, kernelState, i);
+        if (derived) {
+          signatures.set(`tensor:${component}:${i}`, this.atomSignature(derived));
+        }
+      }
+    }
+
+    return signatures;
+  }
+
+  private atomSignature(atom: Atom): string {
+    const { strength, confidence } = atom.truthValue;
+    const { sti, lti, vlti } = atom.attentionValue;
+    return `${atom.type}|${strength}|${confidence}|${sti}|${lti}|${vlti}`;
+  }
+
+  /**
+   * Key of the kernel element an atom was converted from, if any
+   */
+  private kernelKeyOf(atom: Atom): string | undefined {
+    if (atom.source.kernelId === 'hypergraph') {
+      if (atom.source.nodeId) return `node:${atom.source.nodeId}`;
+      if (atom.source.edgeId) return `edge:${atom.source.edgeId}`;
+      return undefined;
+    }
+    if (atom.source.tensorComponent && typeof atom.metadata.tensorIndex === 'number') {
+      return `tensor:${atom.source.tensorComponent}:${atom.metadata.tensorIndex}`;
+    }
+    return undefined;
+  }
+
+  private allAtoms(atomSpace: AtomSpace): Atom[] {
+    return [...atomSpace.atoms.values(), ...atomSpace.links.values()];
+  }
+
+  private findAtom(atomSpace: AtomSpace, atomId: string): Atom | undefined {
+    return atomSpace.atoms.get(atomId) ?? atomSpace.links.get(atomId);
+  }
+
+  private detectKernelChanges(conversionState: ConversionState, adapter: AtomSpaceAdapter): KernelChangeSet {
+    const baseline = conversionState.syncBaseline.kernel;
+    const current = this.computeKernelSignatures(conversionState.kernelState, adapter);
+    const atomIdsByKey = new Map<string, string>();
+    for (const atom of this.allAtoms(conversionState.atomSpace)) {
+      const key = this.kernelKeyOf(atom);
+      if (key) atomIdsByKey.set(key, atom.id);
+    }
+
+    const changes: KernelChangeSet = { nodesChanged: [], edgesChanged: [], tensorsChanged: [] };
+    const record = (change: ElementChange) => {
+      if (change.kernelKey.startsWith('node:')) changes.nodesChanged.push(change);
+      else if (change.kernelKey.startsWith('edge:')) changes.edgesChanged.push(change);
+      else changes.tensorsChanged.push(change);
+    };
+
+    for (const [key, signature] of current.entries()) {
+      const atomId = atomIdsByKey.get(key);
+      if (!atomId) {
+        record({ kind: 'added', kernelKey: key });
+      } else if (baseline.get(key) !== signature) {
+        record({ kind: 'modified', kernelKey: key, atomId });
+      }
+    }
+
+    for (const key of baseline.keys()) {
+      if (!current.has(key)) {
+        record({ kind: 'removed', kernelKey: key, atomId: atomIdsByKey.get(key) });
+      }
+    }
+
+    return changes;
+  }
+
+  private detectAtomSpaceChanges(conversionState: ConversionState): AtomSpaceChangeSet {
+    const { atoms: baseline, atomKeys } = conversionState.syncBaseline;
+    const changes: AtomSpaceChangeSet = { atomsChanged: [], linksChanged: [], inferredAtomsAdded: [] };
+
+    for (const atom of this.allAtoms(conversionState.atomSpace)) {
+      const baselineSignature = baseline.get(atom.id);
+      if (baselineSignature === undefined) {
+        if (atom.metadata.inferred) {
+          changes.inferredAtomsAdded.push(atom);
+        }
+        continue;
+      }
+
+      const key = atomKeys.get(atom.id);
+      if (key && baselineSignature !== this.atomSignature(atom)) {
+        const change: ElementChange = { kind: 'modified', kernelKey: key, atomId: atom.id };
+        (conversionState.atomSpace.links.has(atom.id) ? changes.linksChanged : changes.atomsChanged).push(change);
+      }
+    }
+
+    for (const [atomId, key] of atomKeys.entries()) {
+      if (!this.findAtom(conversionState.atomSpace, atomId)) {
+        const change: ElementChange = { kind: 'removed', kernelKey: key, atomId };
+        (key.startsWith('edge:') ? changes.linksChanged : changes.atomsChanged).push(change);
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Drop the losing side of every element modified on both sides
+   */
+  private resolveConflicts(
+    kernelChanges: KernelChangeSet,
+    atomSpaceChanges: AtomSpaceChangeSet,
+    conversionState: ConversionState,
+    adapter: AtomSpaceAdapter,
+    result: SyncResult
+  ): void {
+    const atomSideByKey = new Map<string, ElementChange>();
+    for (const change of [...atomSpaceChanges.atomsChanged, ...atomSpaceChanges.linksChanged]) {
+      atomSideByKey.set(change.kernelKey, change);
+    }
+
+    const droppedKernel = new Set<ElementChange>();
+    const droppedAtomSpace = new Set<ElementChange>();
+    const kernelSide = [...kernelChanges.nodesChanged, ...kernelChanges.edgesChanged, ...kernelChanges.tensorsChanged];
+
+    for (const kernelChange of kernelSide) {
+      const atomChange = atomSideByKey.get(kernelChange.kernelKey);
+      if (!atomChange) continue;
+
+      // Removals take precedence over concurrent modifications
+      if (kernelChange.kind === 'removed' || atomChange.kind === 'removed') {
+        if (kernelChange.kind !== 'removed') droppedKernel.add(kernelChange);
+        if (atomChange.kind !== 'removed') droppedAtomSpace.add(atomChange);
+        continue;
+      }
+
+      const atom = this.findAtom(conversionState.atomSpace, atomChange.atomId!);
+      const kernelAtom = this.deriveKernelAtom(kernelChange.kernelKey, conversionState.kernelState, adapter);
+      const kernelConfidence = kernelAtom?.truthValue.confidence ?? 0;
+      const atomSpaceConfidence = atom?.truthValue.confidence ?? 0;
+
+      let winner: 'kernel' | 'atomspace';
+      switch (conversionState.options.conflictResolution) {
+        case 'atomspace-wins':
+          winner = 'atomspace';
+          break;
+        case 'kernel-wins':
+          winner = 'kernel';
+          break;
+        default:
+          winner = atomSpaceConfidence > kernelConfidence ? 'atomspace' : 'kernel';
+      }
+
+      (winner === 'kernel' ? droppedAtomSpace : droppedKernel).add(winner === 'kernel' ? atomChange : kernelChange);
+      result.conflicts.push({
+        kernelKey: kernelChange.kernelKey,
+        atomId: atomChange.atomId!,
+        kernelConfidence,
+        atomSpaceConfidence,
+        winner
+      });
+    }
+
+    kernelChanges.nodesChanged = kernelChanges.nodesChanged.filter(c => !droppedKernel.has(c));
+    kernelChanges.edgesChanged = kernelChanges.edgesChanged.filter(c => !droppedKernel.has(c));
+    kernelChanges.tensorsChanged = kernelChanges.tensorsChanged.filter(c => !droppedKernel.has(c));
+    atomSpaceChanges.atomsChanged = atomSpaceChanges.atomsChanged.filter(c => !droppedAtomSpace.has(c));
+    atomSpaceChanges.linksChanged = atomSpaceChanges.linksChanged.filter(c => !droppedAtomSpace.has(c));
+  }
+
+  /**
+   * Build the atom the current kernel element would convert to
+   */
+  private deriveKernelAtom(kernelKey: string, kernelState: CognitiveState, adapter: AtomSpaceAdapter): Atom | null {
+    const [kind, ...rest] = kernelKey.split(':');
+    const id = rest.join(':');
+
+    if (kind === 'node') {
+      const node = kernelState.hypergraph?.nodes.get(id);
+      return node ? adapter.convertNodeToAtom(node) : null;
+    }
+    if (kind === 'edge') {
+      const edge = kernelState.hypergraph?.edges.get(id);
+      return edge ? adapter.convertEdgeToLink(edge) : null;
+    }
+
+    const separator = id.lastIndexOf(':');
+    return adapter.deriveTensorAtom(id.slice(0, separator), kernelState, Number(id.slice(separator + 1)));
+  }
+
+  private async applyKernelChangesToAtomSpace(
+    changes: KernelChangeSet,
+    conversionState: ConversionState,
+    adapter: AtomSpaceAdapter,
+    result: SyncResult
+  ): Promise<void> {
+    for (const change of [...changes.nodesChanged, ...changes.edgesChanged, ...changes.tensorsChanged]) {
+      try {
+        if (change.kind === 'removed') {
+          if (change.atomId && adapter.removeAtom(change.atomId)) {
+            result.atomsRemoved++;
+            result.atomsSynced++;
+          }
+          continue;
+        }
+
+        const atom = this.deriveKernelAtom(change.kernelKey, conversionState.kernelState, adapter);
+        if (!atom) continue;
+
+        if (change.kind === 'modified' && change.atomId) {
+          atom.id = change.atomId;
+          result.atomsUpdated++;
+        } else {
+          result.atomsCreated++;
+        }
+        adapter.putAtom(atom);
+        result.atomsSynced++;
+      } catch (error) {
+        result.errors.push(`Failed to apply kernel change ${change.kernelKey}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  private async applyAtomSpaceChangesToKernel(
+    changes: AtomSpaceChangeSet,
+    conversionState: ConversionState,
+    adapter: AtomSpaceAdapter,
+    result: SyncResult
+  ): Promise<void> {
+    const kernelState = conversionState.kernelState;
+    const hypergraph = kernelState.hypergraph;
+
+    for (const change of [...changes.atomsChanged, ...changes.linksChanged]) {
+      const [kind, ...rest] = change.kernelKey.split(':');
+      const id = rest.join(':');
+      const atom = change.kind === 'modified' ? this.findAtom(conversionState.atomSpace, change.atomId!) : undefined;
+
+      if (kind === 'node' && hypergraph) {
+        const node = hypergraph.nodes.get(id);
+        if (!node) continue;
+        if (atom) {
+          node.metadata.strength = atom.truthValue.strength;
+          node.metadata.confidence = atom.truthValue.confidence;
+          node.metadata.sti = atom.attentionValue.sti;
+          node.metadata.lti = atom.attentionValue.lti;
+          node.metadata.vlti = atom.attentionValue.vlti;
+        } else {
+          this.removeHypergraphNode(hypergraph, id);
+        }
+      } else if (kind === 'edge' && hypergraph) {
+        const edge = hypergraph.edges.get(id);
+        if (!edge) continue;
+        if (atom) {
+          edge.weight = atom.truthValue.strength;
+          edge.properties.confidence = atom.truthValue.confidence;
+          atom.metadata.weight = atom.truthValue.strength;
+        } else {
+          hypergraph.edges.delete(id);
+        }
+      } else if (kind === 'tensor') {
+        // Tensor rows cannot be removed, so only value changes flow back
+        if (!atom || !adapter.writeAtomToTensor(atom, kernelState)) continue;
+      } else {
+        continue;
+      }
+
+      result.kernelUpdates++;
+      result.atomsSynced++;
+    }
+
+    for (const inferred of changes.inferredAtomsAdded) {
+      try {
+        if (this.integrateInferredAtom(inferred, conversionState, adapter)) {
+          result.kernelUpdates++;
+          result.atomsSynced++;
+        }
+      } catch (error) {
+        result.errors.push(`Failed to integrate inferred atom ${inferred.id}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  /**
+   * Materialize an inferred relation as a hypergraph edge between the kernel
+   * nodes its source atoms came from
+   */
+  private integrateInferredAtom(atom: Atom, conversionState: ConversionState, adapter: AtomSpaceAdapter): boolean {
+    const sourceAtoms: string[] = (atom as Link).outgoing ?? atom.metadata.sourceAtoms ?? [];
+    const edgeType = this.mapLinkTypeToEdgeType(atom.type);
+    if (!edgeType || sourceAtoms.length < 2) return false;
+
+    const hypergraph = conversionState.kernelState.hypergraph;
+    if (!hypergraph) return false;
+    const endpoints = sourceAtoms.slice(0, 2).map(ref => this.resolveHypergraphNode(ref, conversionState, adapter));
+    if (!endpoints[0] || !endpoints[1] || endpoints[0] === endpoints[1]) return false;
+
+    const edge: CognitiveEdge = {
+      id: `inferred_${atom.id}`,
+      type: edgeType,
+      source: endpoints[0],
+      target: endpoints[1],
+      weight: atom.truthValue.strength,
+      properties: {
+        confidence: atom.truthValue.confidence,
+        inferred: true,
+        inferenceType: atom.metadata.inferenceType,
+        atomId: atom.id
+      }
+    };
+    hypergraph.edges.set(edge.id, edge);
+
+    // Re-home the inferred atom on the new edge so it maps back to the kernel
+    atom.source = { ...atom.source, kernelId: 'hypergraph', edgeId: edge.id };
+    atom.metadata.weight = edge.weight;
+    atom.metadata.originalType = edgeType;
+    if (!('outgoing' in atom)) {
+      adapter.putAtom({ ...atom, outgoing: [edge.source, edge.target] } as Link);
+    }
+    return true;
+  }
+
+  /**
+   * Resolve an atom ID or hypergraph node ID to a hypergraph node, creating a
+   * node for atoms that have no hypergraph counterpart yet
+   */
+  private resolveHypergraphNode(ref: string, conversionState: ConversionState, adapter: AtomSpaceAdapter): string | undefined {
+    const hypergraph = conversionState.kernelState.hypergraph;
+    if (hypergraph.nodes.has(ref)) return ref;
+
+    const atom = this.findAtom(conversionState.atomSpace, ref);
+    if (!atom) return undefined;
+    if (atom.source.nodeId && hypergraph.nodes.has(atom.source.nodeId)) return atom.source.nodeId;
+    if ('outgoing' in atom) return undefined;
+
+    const nodeId = hypergraph.nodes.has(atom.name) ? `${atom.name}_${atom.id}` : atom.name;
+    const node: CognitiveNode = {
+      id: nodeId,
+      type: atom.source.kernelId.endsWith('_memory') ? 'memory' : 'concept',
+      state: this.createTensorFromAtom(atom),
+      metadata: {
+        strength: atom.truthValue.strength,
+        confidence: atom.truthValue.confidence,
+        sti: atom.attentionValue.sti,
+        lti: atom.attentionValue.lti,
+        vlti: atom.attentionValue.vlti,
+        atomId: atom.id,
+        materialized: true
+      }
     };
+    hypergraph.nodes.set(nodeId, node);
+    adapter.putAtom(adapter.convertNodeToAtom(node));
+    return nodeId;
   }
 
-  private async applyKernelChangesToAtomSpace(changes: any, conversionState: ConversionState, result: SyncResult): Promise<void> {
-    // Placeholder for applying kernel changes to AtomSpace
-    // This would update atoms based on kernel state changes
+  private removeHypergraphNode(hypergraph: CognitiveHypergraph, nodeId: string): void {
+    hypergraph.nodes.delete(nodeId);
+    for (const [edgeId, edge] of hypergraph.edges.entries()) {
+      if (edge.source === nodeId || edge.target === nodeId) {
+        hypergraph.edges.delete(edgeId);
+      }
+    }
+    for (const [clusterId, members] of hypergraph.clusters.entries()) {
+      if (members.includes(nodeId)) {
+        hypergraph.clusters.set(clusterId, members.filter(id => id !== nodeId));
+      }
+    }
   }
 
-  private async applyAtomSpaceChangesToKernel(changes: any, conversionState: ConversionState, result: SyncResult): Promise<void> {
-    // Placeholder for applying AtomSpace changes to kernel state
-    // This would update kernel state based on AtomSpace changes
+  private mapLinkTypeToEdgeType(linkType: AtomType): CognitiveEdge['type'] | undefined {
+    switch (linkType) {
+      case 'InheritanceLink': return 'hierarchical';
+      case 'ImplicationLink': return 'causal';
+      case 'SimilarityLink': return 'semantic';
+      case 'EvaluationLink': return 'meta';
+      case 'AndLink':
+      case 'OrLink': return 'associative';
+      default: return undefined;
+    }
   }
 
   private updateMappings(conversionState: ConversionState): void {
@@ -709,24 +1250,12 @@ export class KernelStateConverter {
   }
 
   private async integrateInferenceResults(result: PLNInferenceResult, conversionState: ConversionState): Promise<void> {
-    // Add inferred atoms to AtomSpace
+    // Add inferred atoms to AtomSpace, replacing atoms whose truth value was revised;
+    // they flow back to the kernel on the next sync
+    const adapter = this.getAdapterFor(conversionState);
     for (const conclusion of result.conclusions) {
-      if (!conversionState.atomSpace.atoms.has(conclusion.id)) {
-        conversionState.atomSpace.atoms.set(conclusion.id, conclusion);
-        
-        // Update indices
-        if (!conversionState.atomSpace.typeIndex.has(conclusion.type)) {
-          conversionState.atomSpace.typeIndex.set(conclusion.type, new Set());
-        }
-        conversionState.atomSpace.typeIndex.get(conclusion.type)!.add(conclusion.id);
-        
-        if (!conversionState.atomSpace.nameIndex.has(conclusion.name)) {
-          conversionState.atomSpace.nameIndex.set(conclusion.name, new Set());
-        }
-        conversionState.atomSpace.nameIndex.get(conclusion.name)!.add(conclusion.id);
-        
-        const totalAttention = conclusion.attentionValue.sti + conclusion.attentionValue.lti + conclusion.attentionValue.vlti;
-        conversionState.atomSpace.attentionIndex.set(conclusion.id, totalAttention);
+      if (!this.findAtom(conversionState.atomSpace, conclusion.id) || conclusion.metadata.revised) {
+        adapter.putAtom(conclusion);
       }
     }
   }
@@ -792,6 +1321,23 @@ export class KernelStateConverter {
     }
   }
 
+  private async checkLogicalConsistency(conversionState: ConversionState, result: ConsistencyResult): Promise<void> {
+    const report = new PLNAdapter(conversionState.atomSpace).getInconsistencyReport();
+    result.revisionReport = report;
+
+    for (const contradiction of report.contradictions) {
+      result.issues.push(`Contradiction between ${contradiction.atoms[0]} and ${contradiction.atoms[1]}: ${contradiction.description}`);
+      result.inconsistenciesFound++;
+    }
+
+    if (report.contradictions.length > 0) {
+      result.recommendations.push('Revise or retract contradictory atoms before further inference');
+    }
+    if (report.duplicates.size > 0) {
+      result.recommendations.push(`Merge ${report.duplicates.size} relationships held by duplicate atoms with PLN revision`);
+    }
+  }
+
   private async checkStructuralConsistency(conversionState: ConversionState, result: ConsistencyResult): Promise<void> {
     // Check link structural consistency
     for (const link of conversionState.atomSpace.links.values()) {
@@ -851,6 +1397,179 @@ export class KernelStateConverter {
     };
   }
 
+  /**
+   * Persist a conversion state's AtomSpace, kernel state and mappings to storage.
+   * Tensors, hypergraph elements and mappings are stored as separate records,
+   * so a save only writes the ones that changed.
+   */
+  public async saveState(stateId: string = 'default'): Promise<StorageSaveResult> {
+    const storage = this.requireStorage();
+    const conversionState = this.conversionStates.get(stateId);
+    if (!conversionState) {
+      throw new Error(`No conversion state found for ID: ${stateId}`);
+    }
+
+    try {
+      const header: StoredConversionHeader = {
+        format: STORED_STATE_FORMAT,
+        conversionTime: conversionState.conversionMetadata.conversionTime,
+        lastSync: conversionState.lastSync,
+        timestamp: conversionState.kernelState.timestamp,
+        options: conversionState.options
+      };
+      return await storage.save(stateId, conversionState.atomSpace, header, this.serializeConversionState(conversionState));
+    } catch (error) {
+      throw new Error(`Failed to save conversion state ${stateId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Restore a conversion state saved with `saveState`, e.g. after a restart
+   */
+  public async resumeState(stateId: string = 'default'): Promise<ConversionState> {
+    const storage = this.requireStorage();
+
+    let stored;
+    try {
+      stored = await storage.load(stateId);
+    } catch (error) {
+      throw new Error(`Failed to load conversion state ${stateId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const header = stored?.metadata as StoredConversionHeader | undefined;
+    if (!stored || header?.format !== STORED_STATE_FORMAT) {
+      throw new Error(`No stored conversion state found for ID: ${stateId}`);
+    }
+
+    const { kernelState, kernelToAtomMapping, tensorMappings } = this.deserializeConversionState(stored.records, header.timestamp);
+    const conversionState: ConversionState = {
+      kernelState,
+      atomSpace: stored.atomSpace,
+      conversionMetadata: {
+        conversionTime: header.conversionTime,
+        kernelToAtomMapping,
+        atomToKernelMapping: new Map(Array.from(kernelToAtomMapping.entries()).map(([kernelId, atomId]) => [atomId, kernelId])),
+        tensorMappings
+      },
+      lastSync: header.lastSync,
+      options: { ...this.defaultOptions, ...header.options },
+      syncBaseline: { kernel: new Map(), atoms: new Map(), atomKeys: new Map() }
+    };
+    conversionState.syncBaseline = this.captureSyncBaseline(conversionState);
+
+    this.conversionStates.set(stateId, conversionState);
+    return conversionState;
+  }
+
+  /**
+   * List conversion states held in storage
+   */
+  public async listStoredStates(): Promise<string[]> {
+    return this.requireStorage().list();
+  }
+
+  private requireStorage(): AtomSpaceStorage {
+    if (!this.storage) {
+      throw new Error('No AtomSpace storage configured');
+    }
+    return this.storage;
+  }
+
+  /**
+   * Storage records for a conversion state, keyed `<kind>:<id>`
+   */
+  private serializeConversionState(conversionState: ConversionState): Map<string, StoredRecord> {
+    const { kernelState, conversionMetadata } = conversionState;
+    const records = new Map<string, StoredRecord>();
+
+    for (const group of TENSOR_GROUPS) {
+      for (const [key, tensor] of Object.entries(kernelState[group])) {
+        records.set(`tensor:${group}.${key}`, this.serializeTensor(tensor));
+      }
+    }
+    kernelState.hypergraph.nodes.forEach((node, id) => records.set(`node:${id}`, { ...node, state: this.serializeTensor(node.state) }));
+    kernelState.hypergraph.edges.forEach((edge, id) => records.set(`edge:${id}`, edge));
+    kernelState.hypergraph.clusters.forEach((nodeIds, id) => records.set(`cluster:${id}`, nodeIds));
+    conversionMetadata.kernelToAtomMapping.forEach((atomId, kernelId) => records.set(`mapping:${kernelId}`, atomId));
+    conversionMetadata.tensorMappings.forEach((mapping, key) => records.set(`tensorMapping:${key}`, mapping));
+
+    return records;
+  }
+
+  private deserializeConversionState(records: Map<string, unknown>, timestamp: number): {
+    kernelState: CognitiveState;
+    kernelToAtomMapping: Map<string, string>;
+    tensorMappings: ConversionState['conversionMetadata']['tensorMappings'];
+  } {
+    const groups: Record<TensorGroup, Record<string, Tensor>> = { memory: {}, task: {}, persona: {}, metaCognitive: {} };
+    const hypergraph: CognitiveHypergraph = { nodes: new Map(), edges: new Map(), clusters: new Map() };
+    const kernelToAtomMapping = new Map<string, string>();
+    const tensorMappings: ConversionState['conversionMetadata']['tensorMappings'] = new Map();
+
+    records.forEach((value, recordKey) => {
+      const separator = recordKey.indexOf(':');
+      const kind = recordKey.slice(0, separator);
+      const id = recordKey.slice(separator + 1);
+
+      switch (kind) {
+        case 'tensor': {
+          const dot = id.indexOf('.');
+          groups[id.slice(0, dot) as TensorGroup][id.slice(dot + 1)] = this.deserializeTensor(value as SerializedTensor);
+          break;
+        }
+        case 'node': {
+          const node = value as SerializedCognitiveNode;
+          hypergraph.nodes.set(id, { ...node, state: this.deserializeTensor(node.state) });
+          break;
+        }
+        case 'edge':
+          hypergraph.edges.set(id, value as CognitiveEdge);
+          break;
+        case 'cluster':
+          hypergraph.clusters.set(id, value as string[]);
+          break;
+        case 'mapping':
+          kernelToAtomMapping.set(id, value as string);
+          break;
+        case 'tensorMapping':
+          tensorMappings.set(id, value as StoredTensorMapping);
+          break;
+      }
+    });
+
+    return {
+      kernelState: {
+        memory: groups.memory as unknown as MemoryTensor,
+        task: groups.task as unknown as TaskTensor,
+        persona: groups.persona as unknown as PersonaTensor,
+        metaCognitive: groups.metaCognitive as unknown as MetaCognitiveTensor,
+        hypergraph,
+        timestamp
+      },
+      kernelToAtomMapping,
+      tensorMappings
+    };
+  }
+
+  /**
+   * Tensor with its elements as little-endian float32 bytes in base64
+   */
+  private serializeTensor(tensor: Tensor): SerializedTensor {
+    const bytes = Buffer.alloc(tensor.data.length * 4);
+    for (let i = 0; i < tensor.data.length; i++) {
+      bytes.writeFloatLE(tensor.data[i], i * 4);
+    }
+    return { shape: tensor.shape, type: tensor.type, size: tensor.size, data: bytes.toString('base64') };
+  }
+
+  private deserializeTensor(serialized: SerializedTensor): Tensor {
+    const bytes = Buffer.from(serialized.data, 'base64');
+    const data = new Float32Array(bytes.length / 4);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = bytes.readFloatLE(i * 4);
+    }
+    return { shape: serialized.shape, data, type: serialized.type, size: serialized.size };
+  }
+
   /**
    * Get conversion state
    */
@@ -0,0 +1,299 @@
+/**
+ * AtomSpace Pattern Matcher
+ *
+ * Pattern-matching queries over an AtomSpace in the spirit of OpenCog's
+ * GetLink/BindLink: clauses built from variables, node and nested link
+ * patterns are grounded against the AtomSpace, with typed variable
+ * declarations, truth value and attention predicates, and absent clauses.
+ */
+
+import type { AtomSpace, Atom, AtomType, Link } from './atomspace-adapter.js';
+
+/**
+ * Truth value and attention predicates on a grounded atom
+ */
+export interface AtomConstraint {
+  minStrength?: number;
+  maxStrength?: number;
+  minConfidence?: number;
+  maxConfidence?: number;
+  minSti?: number;
+  maxSti?: number;
+  minLti?: number;
+  maxLti?: number;
+  /** Arbitrary predicate, checked after the numeric bounds */
+  predicate?: (atom: Atom) => boolean;
+}
+
+/**
+ * Pattern over atoms. Variables are grounded to any atom, nodes and links to
+ * atoms of matching type, name and outgoing set.
+ */
+export type AtomPattern =
+  | { kind: 'variable'; name: string }
+  | { kind: 'node'; type?: AtomType; name?: string | RegExp; where?: AtomConstraint }
+  | { kind: 'link'; type?: AtomType; outgoing: AtomPattern[]; unordered?: boolean; where?: AtomConstraint };
+
+/**
+ * Typed variable declaration (TypedVariableLink)
+ */
+export interface VariableDeclaration {
+  /** Atom types the variable may be grounded to */
+  types?: AtomType[];
+  /** Constraint on the grounded atom */
+  where?: AtomConstraint;
+}
+
+/**
+ * Pattern query: all clauses must be grounded together, no absent clause may be
+ */
+export interface PatternQuery {
+  /** Variable declarations; undeclared variables accept any atom */
+  variables?: Record<string, VariableDeclaration>;
+  /** Clauses to ground */
+  clauses: AtomPattern[];
+  /** Clauses that must have no grounding under the found bindings */
+  absent?: AtomPattern[];
+  /** Maximum number of groundings to enumerate */
+  limit?: number;
+}
+
+/**
+ * One grounding of a pattern query
+ */
+export interface PatternGrounding {
+  /** Variable name -> grounded atom */
+  bindings: Map<string, Atom>;
+  /** Atoms grounding each clause, in clause order */
+  atoms: Atom[];
+}
+
+/**
+ * Link types whose outgoing order carries no meaning
+ */
+export const UNORDERED_LINK_TYPES: ReadonlySet<AtomType> = new Set<AtomType>(['SimilarityLink', 'AndLink', 'OrLink']);
+
+/**
+ * Variable pattern
+ */
+export function variable(name: string): AtomPattern {
+  return { kind: 'variable', name };
+}
+
+/**
+ * Node pattern; omitted type or name match any node
+ */
+export function node(type?: AtomType, name?: string | RegExp, where?: AtomConstraint): AtomPattern {
+  return { kind: 'node', type, name, where };
+}
+
+/**
+ * Link pattern over outgoing patterns
+ */
+export function link(type: AtomType | undefined, ...outgoing: AtomPattern[]): AtomPattern {
+  return { kind: 'link', type, outgoing };
+}
+
+/**
+ * Check a constraint against an atom
+ */
+export function satisfiesConstraint(atom: Atom, constraint?: AtomConstraint): boolean {
+  if (!constraint) return true;
+
+  const { truthValue: tv, attentionValue: av } = atom;
+  const within = (value: number, min?: number, max?: number) =>
+    (min === undefined || value >= min) && (max === undefined || value <= max);
+
+  return within(tv.strength, constraint.minStrength, constraint.maxStrength) &&
+    within(tv.confidence, constraint.minConfidence, constraint.maxConfidence) &&
+    within(av.sti, constraint.minSti, constraint.maxSti) &&
+    within(av.lti, constraint.minLti, constraint.maxLti) &&
+    (!constraint.predicate || constraint.predicate(atom));
+}
+
+/**
+ * Pattern matcher over an AtomSpace
+ */
+export class PatternMatcher {
+  constructor(private atomSpace: AtomSpace) {}
+
+  /**
+   * Enumerate groundings of a query (GetLink)
+   */
+  public match(query: PatternQuery): PatternGrounding[] {
+    const declarations = query.variables || {};
+    const limit = query.limit ?? Infinity;
+    const groundings: PatternGrounding[] = [];
+    const seen = new Set<string>();
+
+    for (const grounding of this.groundClauses(query.clauses, 0, new Map(), [], declarations)) {
+      if ((query.absent || []).some(pattern => this.hasGrounding(pattern, grounding.bindings, declarations))) {
+        continue;
+      }
+
+      const key = [
+        ...Array.from(grounding.bindings.entries()).map(([name, atom]) => `${name}=${atom.id}`).sort(),
+        ...grounding.atoms.map(atom => atom.id)
+      ].join('|');
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      groundings.push(grounding);
+      if (groundings.length >= limit) break;
+    }
+
+    return groundings;
+  }
+
+  /**
+   * Atoms grounding the query's variables, in order of first grounding
+   */
+  public matchVariables(query: PatternQuery): Atom[] {
+    const atoms = new Map<string, Atom>();
+    for (const grounding of this.match(query)) {
+      grounding.bindings.forEach(atom => atoms.set(atom.id, atom));
+    }
+    return Array.from(atoms.values());
+  }
+
+  /**
+   * Resolve an outgoing reference, which may be an atom ID or a node name
+   */
+  public resolve(ref: string): Atom | undefined {
+    const byId = this.atomSpace.atoms.get(ref) ?? this.atomSpace.links.get(ref);
+    if (byId) return byId;
+    for (const id of this.atomSpace.nameIndex.get(ref) || []) {
+      const atom = this.atomSpace.atoms.get(id);
+      if (atom) return atom;
+    }
+    return undefined;
+  }
+
+  private *groundClauses(
+    clauses: AtomPattern[],
+    index: number,
+    bindings: Map<string, Atom>,
+    atoms: Atom[],
+    declarations: Record<string, VariableDeclaration>
+  ): Generator<PatternGrounding> {
+    if (index >= clauses.length) {
+      yield { bindings: new Map(bindings), atoms: [...atoms] };
+      return;
+    }
+
+    const clause = clauses[index];
+    for (const candidate of this.candidates(clause, bindings)) {
+      for (const next of this.unify(clause, candidate, bindings, declarations)) {
+        atoms.push(candidate);
+        yield* this.groundClauses(clauses, index + 1, next, atoms, declarations);
+        atoms.pop();
+      }
+    }
+  }
+
+  private hasGrounding(pattern: AtomPattern, bindings: Map<string, Atom>, declarations: Record<string, VariableDeclaration>): boolean {
+    for (const candidate of this.candidates(pattern, bindings)) {
+      if (!this.unify(pattern, candidate, bindings, declarations).next().done) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Atoms a top-level clause could ground to
+   */
+  private candidates(pattern: AtomPattern, bindings: Map<string, Atom>): Atom[] {
+    if (pattern.kind === 'variable') {
+      const bound = bindings.get(pattern.name);
+      return bound ? [bound] : [...this.atomSpace.atoms.values(), ...this.atomSpace.links.values()];
+    }
+
+    if (pattern.kind === 'node') {
+      if (typeof pattern.name === 'string') {
+        return Array.from(this.atomSpace.nameIndex.get(pattern.name) || [])
+          .map(id => this.atomSpace.atoms.get(id))
+          .filter((atom): atom is Atom => !!atom);
+      }
+      return pattern.type ? this.ofType(pattern.type, this.atomSpace.atoms) : [...this.atomSpace.atoms.values()];
+    }
+
+    return pattern.type ? this.ofType(pattern.type, this.atomSpace.links) : [...this.atomSpace.links.values()];
+  }
+
+  private ofType<T extends Atom>(type: AtomType, source: Map<string, T>): T[] {
+    return Array.from(this.atomSpace.typeIndex.get(type) || [])
+      .map(id => source.get(id))
+      .filter((atom): atom is T => !!atom);
+  }
+
+  /**
+   * Unify a pattern with an atom, yielding each extension of the bindings
+   */
+  private *unify(
+    pattern: AtomPattern,
+    atom: Atom,
+    bindings: Map<string, Atom>,
+    declarations: Record<string, VariableDeclaration>
+  ): Generator<Map<string, Atom>> {
+    if (pattern.kind === 'variable') {
+      const bound = bindings.get(pattern.name);
+      if (bound) {
+        if (bound.id === atom.id) yield bindings;
+        return;
+      }
+      const declaration = declarations[pattern.name];
+      if (declaration?.types && !declaration.types.includes(atom.type)) return;
+      if (!satisfiesConstraint(atom, declaration?.where)) return;
+      yield new Map(bindings).set(pattern.name, atom);
+      return;
+    }
+
+    if (pattern.type && atom.type !== pattern.type) return;
+    if (!satisfiesConstraint(atom, pattern.where)) return;
+
+    if (pattern.kind === 'node') {
+      if (this.atomSpace.links.has(atom.id)) return;
+      if (pattern.name instanceof RegExp ? !pattern.name.test(atom.name) : pattern.name !== undefined && pattern.name !== atom.name) {
+        return;
+      }
+      yield bindings;
+      return;
+    }
+
+    const outgoing = (atom as Link).outgoing;
+    if (!outgoing || outgoing.length !== pattern.outgoing.length) return;
+
+    const children = outgoing.map(ref => this.resolve(ref));
+    if (children.some(child => !child)) return;
+
+    const unordered = pattern.unordered ?? (pattern.type !== undefined && UNORDERED_LINK_TYPES.has(pattern.type));
+    const orders = unordered ? permutations(children as Atom[]) : [children as Atom[]];
+    for (const order of orders) {
+      yield* this.unifyOutgoing(pattern.outgoing, order, 0, bindings, declarations);
+    }
+  }
+
+  private *unifyOutgoing(
+    patterns: AtomPattern[],
+    atoms: Atom[],
+    index: number,
+    bindings: Map<string, Atom>,
+    declarations: Record<string, VariableDeclaration>
+  ): Generator<Map<string, Atom>> {
+    if (index >= patterns.length) {
+      yield bindings;
+      return;
+    }
+    for (const next of this.unify(patterns[index], atoms[index], bindings, declarations)) {
+      yield* this.unifyOutgoing(patterns, atoms, index + 1, next, declarations);
+    }
+  }
+}
+
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, index) =>
+    permutations([...items.slice(0, index), ...items.slice(index + 1)]).map(rest => [item, ...rest])
+  );
+}
@@ -6,6 +6,13 @@
  */
 
 import { AtomSpace, Atom, Link, TruthValue, AtomType } from './atomspace-adapter.js';
+import { TruthValueOperations } from './truth-value-operations.js';
+import { PLNChainer, PLNGoal } from './pln-chainer.js';
+import { PLNRuleRegistry } from './pln-rules.js';
+import { PatternMatcher, PatternQuery } from './pattern-matcher.js';
+import { PLNRevision, PLNRevisionReport } from './pln-revision.js';
+
+export { TruthValueOperations } from './truth-value-operations.js';
 
 /**
  * PLN Rule types for different kinds of inference
@@ -64,6 +71,10 @@ export interface PLNInferenceStep {
   reasoning: string;
   /** Step index in inference chain */
   stepIndex: number;
+  /** Truth value formula applied */
+  formula: string;
+  /** Chaining depth at which the step was taken */
+  depth?: number;
 }
 
 /**
@@ -108,108 +119,10 @@ export interface PLNQuery {
   maxDepth?: number;
   /** Enable attention-guided inference */
   useAttention?: boolean;
-}
-
-/**
- * Truth value operations for PLN
- */
-export class TruthValueOperations {
-  
-  /**
-   * Deduction: P(A->C) from P(A->B) and P(B->C)
-   */
-  static deduction(ab: TruthValue, bc: TruthValue): TruthValue {
-    const strength = ab.strength * bc.strength;
-    const confidence = Math.min(ab.confidence, bc.confidence) * 0.9; // slight penalty for inference
-    return { strength, confidence, count: Math.min(ab.count || 1, bc.count || 1) };
-  }
-
-  /**
-   * Induction: P(B->A) from P(A->B) and P(A)
-   */
-  static induction(ab: TruthValue, a: TruthValue): TruthValue {
-    const strength = (ab.strength * a.strength) / Math.max(0.01, a.strength);
-    const confidence = Math.min(ab.confidence, a.confidence) * 0.8; // higher penalty for induction
-    return { strength: Math.min(1.0, strength), confidence, count: Math.min(ab.count || 1, a.count || 1) };
-  }
-
-  /**
-   * Abduction: P(A) from P(A->B) and P(B)
-   */
-  static abduction(ab: TruthValue, b: TruthValue): TruthValue {
-    const strength = (ab.strength * b.strength) / Math.max(0.01, ab.strength);
-    const confidence = Math.min(ab.confidence, b.confidence) * 0.7; // highest penalty for abduction
-    return { strength: Math.min(1.0, strength), confidence, count: Math.min(ab.count || 1, b.count || 1) };
-  }
-
-  /**
-   * Conjunction: P(A ∧ B)
-   */
-  static conjunction(a: TruthValue, b: TruthValue): TruthValue {
-    const strength = a.strength * b.strength;
-    const confidence = Math.min(a.confidence, b.confidence) * 0.95;
-    return { strength, confidence, count: Math.min(a.count || 1, b.count || 1) };
-  }
-
-  /**
-   * Disjunction: P(A ∨ B)
-   */
-  static disjunction(a: TruthValue, b: TruthValue): TruthValue {
-    const strength = a.strength + b.strength - (a.strength * b.strength);
-    const confidence = Math.min(a.confidence, b.confidence) * 0.95;
-    return { strength, confidence, count: Math.min(a.count || 1, b.count || 1) };
-  }
-
-  /**
-   * Negation: P(¬A)
-   */
-  static negation(a: TruthValue): TruthValue {
-    return { 
-      strength: 1.0 - a.strength, 
-      confidence: a.confidence * 0.9,
-      count: a.count 
-    };
-  }
-
-  /**
-   * Bayes rule: P(A|B) from P(B|A), P(A), P(B)
-   */
-  static bayes(ba: TruthValue, a: TruthValue, b: TruthValue): TruthValue {
-    const strength = (ba.strength * a.strength) / Math.max(0.01, b.strength);
-    const confidence = Math.min(ba.confidence, Math.min(a.confidence, b.confidence)) * 0.85;
-    return { strength: Math.min(1.0, strength), confidence, count: Math.min(ba.count || 1, Math.min(a.count || 1, b.count || 1)) };
-  }
-
-  /**
-   * Inheritance transitivity: P(A->C) from P(A->B) and P(B->C)
-   */
-  static inheritanceTransitivity(ab: TruthValue, bc: TruthValue): TruthValue {
-    return this.deduction(ab, bc); // Same as deduction for inheritance chains
-  }
-
-  /**
-   * Similarity symmetry: P(B~A) from P(A~B)
-   */
-  static similaritySymmetry(ab: TruthValue): TruthValue {
-    return { ...ab }; // Similarity is symmetric
-  }
-
-  /**
-   * Attention-weighted combination
-   */
-  static attentionWeighted(tv1: TruthValue, tv2: TruthValue, attention1: number, attention2: number): TruthValue {
-    const totalAttention = attention1 + attention2;
-    if (totalAttention === 0) return tv1;
-    
-    const w1 = attention1 / totalAttention;
-    const w2 = attention2 / totalAttention;
-    
-    return {
-      strength: w1 * tv1.strength + w2 * tv2.strength,
-      confidence: w1 * tv1.confidence + w2 * tv2.confidence,
-      count: Math.max(tv1.count || 1, tv2.count || 1)
-    };
-  }
+  /** Pattern whose variable groundings are added to the targets */
+  pattern?: PatternQuery;
+  /** Run the rule-based chainer instead of the fixed per-type inference */
+  chaining?: 'forward' | 'backward';
 }
 
 /**
@@ -219,6 +132,7 @@ export class PLNAdapter {
   private atomSpace: AtomSpace;
   private context: PLNContext;
   private inferenceHistory: PLNInferenceResult[] = [];
+  private ruleRegistry: PLNRuleRegistry = PLNRuleRegistry.createDefault();
 
   constructor(atomSpace: AtomSpace, context?: Partial<PLNContext>) {
     this.atomSpace = atomSpace;
@@ -264,34 +178,41 @@ export class PLNAdapter {
       result.trace.push(`Starting PLN query: ${query.type} with targets: ${query.targets.join(', ')}`);
 
       // Find target atoms
-      const targetAtoms = this.findTargetAtoms(query.targets);
+      const targetAtoms = this.findTargetAtoms(query.targets, query.pattern);
       if (targetAtoms.length === 0) {
         result.errors.push('No target atoms found for query');
         return result;
       }
 
       // Perform inference based on query type
-      switch (query.type) {
-        case 'inheritance':
-          await this.inferInheritance(targetAtoms, result);
-          break;
-        case 'similarity':
-          await this.inferSimilarity(targetAtoms, result);
-          break;
-        case 'evaluation':
-          await this.inferEvaluation(targetAtoms, result);
-          break;
-        case 'implication':
-          await this.inferImplication(targetAtoms, result);
-          break;
-        case 'conjunction':
-          await this.inferConjunction(targetAtoms, result);
-          break;
-        case 'custom':
-          await this.inferCustom(targetAtoms, result);
-          break;
+      if (query.chaining) {
+        this.runChainer(query, targetAtoms, result);
+      } else {
+        switch (query.type) {
+          case 'inheritance':
+            await this.inferInheritance(targetAtoms, result);
+            break;
+          case 'similarity':
+            await this.inferSimilarity(targetAtoms, result);
+            break;
+          case 'evaluation':
+            await this.inferEvaluation(targetAtoms, result);
+            break;
+          case 'implication':
+            await this.inferImplication(targetAtoms, result);
+            break;
+          case 'conjunction':
+            await this.inferConjunction(targetAtoms, result);
+            break;
+          case 'custom':
+            await this.inferCustom(targetAtoms, result);
+            break;
+        }
       }
 
+      // Merge duplicate conclusions and flag contradictions
+      this.reviseConclusions(result);
+
       // Apply attention-guided filtering if enabled
       if (query.useAttention) {
         this.applyAttentionFiltering(result);
@@ -325,6 +246,73 @@ export class PLNAdapter {
     return result;
   }
 
+  /**
+   * Merge conclusions describing the same relationship by truth value revision,
+   * then record contradictions with existing knowledge in the meta insights
+   */
+  private reviseConclusions(result: PLNInferenceResult): void {
+    const revision = new PLNRevision(this.atomSpace);
+    const revised = revision.revise(result.conclusions);
+
+    if (revised.merged > 0) {
+      result.conclusions = revised.atoms;
+      result.steps = result.steps.map(step => ({
+        ...step,
+        output: revised.mergedInto.get(step.output) ?? step.output
+      }));
+      result.trace.push(`Revised ${revised.merged} duplicate conclusions`);
+    }
+
+    for (const contradiction of revision.findContradictions(result.conclusions)) {
+      result.metaInsights.push(`Contradiction (${contradiction.kind}, severity ${contradiction.severity.toFixed(2)}): ${contradiction.description}`);
+    }
+  }
+
+  /**
+   * Run forward or backward chaining with the registered rules
+   */
+  private runChainer(query: PLNQuery, targetAtoms: Atom[], result: PLNInferenceResult): void {
+    const chainer = new PLNChainer(this.atomSpace, this.ruleRegistry, {
+      ...this.context,
+      maxDepth: query.maxDepth ?? this.context.maxDepth
+    });
+
+    const chained = query.chaining === 'backward'
+      ? chainer.backwardChain(this.buildGoal(query, targetAtoms))
+      : chainer.forwardChain(targetAtoms);
+
+    result.conclusions.push(...chained.conclusions);
+    result.steps.push(...chained.steps);
+    result.trace.push(...chained.trace);
+  }
+
+  /**
+   * Build a backward chaining goal from a query: a link of the query type over
+   * the first two targets, or the single target term
+   */
+  private buildGoal(query: PLNQuery, targetAtoms: Atom[]): PLNGoal {
+    if (query.parameters.goal) {
+      return query.parameters.goal as PLNGoal;
+    }
+    if (targetAtoms.length < 2) {
+      return { kind: 'term', term: targetAtoms[0].name };
+    }
+
+    const goalTypes: Record<PLNQuery['type'], AtomType> = {
+      inheritance: 'InheritanceLink',
+      similarity: 'SimilarityLink',
+      evaluation: 'EvaluationLink',
+      implication: 'ImplicationLink',
+      conjunction: 'AndLink',
+      custom: query.parameters.goalType || 'InheritanceLink'
+    };
+    return {
+      kind: 'link',
+      type: goalTypes[query.type],
+      outgoing: [targetAtoms[0].name, targetAtoms[1].name]
+    };
+  }
+
   /**
    * Infer inheritance relationships
    */
@@ -368,7 +356,8 @@ export class PLNAdapter {
             truthValue: similarity,
             confidence: similarity.confidence,
             reasoning: `Computed similarity between ${targetAtoms[i].name} and ${targetAtoms[j].name}`,
-            stepIndex: result.steps.length
+            stepIndex: result.steps.length,
+            formula: 'PLNAdapter.calculateSimilarity'
           });
         }
       }
@@ -401,7 +390,8 @@ export class PLNAdapter {
             truthValue: evaluation,
             confidence: evaluation.confidence,
             reasoning: `Evaluated ${predicate.name} on ${atom.name}`,
-            stepIndex: result.steps.length
+            stepIndex: result.steps.length,
+            formula: 'PLNAdapter.evaluatePredicate'
           });
         }
       }
@@ -430,7 +420,8 @@ export class PLNAdapter {
             truthValue: implication,
             confidence: implication.confidence,
             reasoning: `Inferred implication from ${targetAtoms[i].name} to ${targetAtoms[j].name}`,
-            stepIndex: result.steps.length
+            stepIndex: result.steps.length,
+            formula: 'PLNAdapter.calculateImplication'
           });
         }
       }
@@ -462,7 +453,8 @@ export class PLNAdapter {
             truthValue: conjunction,
             confidence: conjunction.confidence,
             reasoning: `Conjoined ${targetAtoms[i].name} and ${targetAtoms[j].name}`,
-            stepIndex: result.steps.length
+            stepIndex: result.steps.length,
+            formula: 'TruthValueOperations.conjunction'
           });
         }
       }
@@ -520,7 +512,8 @@ export class PLNAdapter {
           truthValue: newTruthValue,
           confidence: newTruthValue.confidence,
           reasoning: `Transitive inheritance: ${sourceId} -> ${targetId} -> ${finalTargetId}`,
-          stepIndex: result.steps.length
+          stepIndex: result.steps.length,
+          formula: 'TruthValueOperations.inheritanceTransitivity'
         });
       }
     }
@@ -542,11 +535,7 @@ export class PLNAdapter {
     for (const inhLink of inheritanceLinks1) {
       if (inhLink.outgoing[0] === atom1Id) {
         const targetId = inhLink.outgoing[1];
-        const newTruthValue = TruthValueOperations.deduction(
-          link.truthValue,
-          inhLink.truthValue
-        );
-        newTruthValue.confidence *= 0.8; // Reduce confidence for similarity-based inference
+        const newTruthValue = TruthValueOperations.analogy(link.truthValue, inhLink.truthValue);
 
         if (newTruthValue.confidence >= this.context.confidenceThreshold) {
           const inheritanceAtom = this.createInheritanceAtom(atom2Id, targetId, newTruthValue);
@@ -559,7 +548,8 @@ export class PLNAdapter {
             truthValue: newTruthValue,
             confidence: newTruthValue.confidence,
             reasoning: `Analogical inheritance: ${atom1Id}~${atom2Id}, ${atom1Id}->${targetId} => ${atom2Id}->${targetId}`,
-            stepIndex: result.steps.length
+            stepIndex: result.steps.length,
+            formula: 'TruthValueOperations.analogy'
           });
         }
       }
@@ -648,7 +638,7 @@ export class PLNAdapter {
 
   // Helper methods
 
-  private findTargetAtoms(targets: string[]): Atom[] {
+  private findTargetAtoms(targets: string[], pattern?: PatternQuery): Atom[] {
     const atoms: Atom[] = [];
     for (const target of targets) {
       // Try to find by ID first
@@ -662,6 +652,13 @@ export class PLNAdapter {
       const atomsByName = this.queryAtomsByName(target);
       atoms.push(...atomsByName);
     }
+
+    // Add the groundings of the pattern's variables
+    if (pattern) {
+      for (const atom of new PatternMatcher(this.atomSpace).matchVariables(pattern)) {
+        if (!atoms.includes(atom)) atoms.push(atom);
+      }
+    }
     return atoms;
   }
 
@@ -1026,20 +1023,9 @@ export class PLNAdapter {
       }
     });
 
-    // Check for contradictory conclusions
-    const conclusions = steps.map(step => step.output);
-    const contradictions = this.findContradictions(conclusions);
-    errors.push(...contradictions);
-
     return errors;
   }
 
-  private findContradictions(conclusionIds: string[]): string[] {
-    // This would implement contradiction detection logic
-    // For now, return empty array as placeholder
-    return [];
-  }
-
   private suggestAlternativeReasoningPaths(result: PLNInferenceResult): string[] {
     const alternatives: string[] = [];
 
@@ -1065,29 +1051,14 @@ export class PLNAdapter {
   }
 
   private evaluateCoherence(conclusions: Atom[]): number {
-    if (conclusions.length < 2) return 1.0;
-
-    let coherenceSum = 0;
-    let comparisons = 0;
-
-    // Compare each pair of conclusions for coherence
-    for (let i = 0; i < conclusions.length; i++) {
-      for (let j = i + 1; j < conclusions.length; j++) {
-        const coherence = this.calculatePairCoherence(conclusions[i], conclusions[j]);
-        coherenceSum += coherence;
-        comparisons++;
-      }
-    }
-
-    return comparisons > 0 ? coherenceSum / comparisons : 1.0;
+    return new PLNRevision(this.atomSpace).coherence(conclusions);
   }
 
-  private calculatePairCoherence(atom1: Atom, atom2: Atom): number {
-    // Simple coherence measure based on truth value consistency
-    const strengthDiff = Math.abs(atom1.truthValue.strength - atom2.truthValue.strength);
-    const confidenceDiff = Math.abs(atom1.truthValue.confidence - atom2.truthValue.confidence);
-    
-    return 1.0 - ((strengthDiff + confidenceDiff) / 2);
+  /**
+   * Report duplicate and contradictory knowledge across the AtomSpace
+   */
+  public getInconsistencyReport(): PLNRevisionReport {
+    return new PLNRevision(this.atomSpace).analyze();
   }
 
   /**
@@ -1104,6 +1075,13 @@ export class PLNAdapter {
     this.inferenceHistory = [];
   }
 
+  /**
+   * Get the rule registry used for chaining
+   */
+  public getRuleRegistry(): PLNRuleRegistry {
+    return this.ruleRegistry;
+  }
+
   /**
    * Update PLN context
    */
@@ -0,0 +1,522 @@
+/**
+ * PLN Chainer
+ *
+ * Forward and backward chaining over an AtomSpace using the rules of a
+ * PLNRuleRegistry. Forward chaining expands outward from source atoms up to
+ * the context's maximum depth; backward chaining proves a goal by recursively
+ * proving the premises of the rules that conclude it.
+ */
+
+import { AtomSpace, Atom, AtomType, Link } from './atomspace-adapter.js';
+import type { PLNContext, PLNInferenceStep } from './pln-adapter.js';
+import { PLNKnowledgeView, PLNPattern, PLNRule, PLNRuleRegistry } from './pln-rules.js';
+import { UNORDERED_LINK_TYPES } from './pattern-matcher.js';
+
+/**
+ * Goal for backward chaining: a pattern whose strings are term keys
+ * (atom names or IDs) rather than variables
+ */
+export type PLNGoal = PLNPattern;
+
+/**
+ * Result of a chaining run
+ */
+export interface PLNChainResult {
+  /** Derived conclusions (forward) or the best proof of the goal (backward) */
+  conclusions: Atom[];
+  /** Inference steps, premises before the conclusions that use them */
+  steps: PLNInferenceStep[];
+  /** Reasoning trace */
+  trace: string[];
+}
+
+/**
+ * Successful match of a rule's premises
+ */
+interface PremiseMatch {
+  bindings: Map<string, string>;
+  atoms: Atom[];
+}
+
+function isLink(atom: Atom): atom is Link {
+  return Array.isArray((atom as Link).outgoing);
+}
+
+/**
+ * AtomSpace view extended with the conclusions derived during one chaining run
+ */
+class PLNKnowledgeBase implements PLNKnowledgeView {
+  private linkCache: Map<AtomType, Link[]> = new Map();
+  private derivedTerms: Map<string, Atom[]> = new Map();
+
+  constructor(private atomSpace: AtomSpace) {}
+
+  public linksOfType(type: AtomType): Link[] {
+    let links = this.linkCache.get(type);
+    if (!links) {
+      const ids = this.atomSpace.typeIndex.get(type) || new Set<string>();
+      links = Array.from(ids)
+        .map(id => this.atomSpace.links.get(id))
+        .filter((link): link is Link => !!link);
+      this.linkCache.set(type, links);
+    }
+    return links;
+  }
+
+  public term(key: string): Atom | undefined {
+    const candidates: Atom[] = [];
+    const byId = this.atomSpace.atoms.get(key);
+    if (byId) {
+      candidates.push(byId);
+    } else {
+      for (const id of this.atomSpace.nameIndex.get(key) || []) {
+        const atom = this.atomSpace.atoms.get(id);
+        if (atom) candidates.push(atom);
+      }
+    }
+    candidates.push(...(this.derivedTerms.get(key) || []));
+    return this.best(candidates);
+  }
+
+  public canonical(ref: string): string {
+    return this.atomSpace.atoms.get(ref)?.name ?? ref;
+  }
+
+  /**
+   * Best-supported existing atom matching a goal
+   */
+  public find(goal: PLNGoal): Atom | undefined {
+    if (goal.kind === 'term') {
+      return this.term(goal.term);
+    }
+    const signature = this.signature(goal);
+    return this.best(this.linksOfType(goal.type).filter(link =>
+      this.signature({ kind: 'link', type: link.type, outgoing: link.outgoing }) === signature
+    ));
+  }
+
+  public add(atom: Atom): void {
+    if (isLink(atom)) {
+      this.linksOfType(atom.type).push(atom);
+    } else {
+      const terms = this.derivedTerms.get(atom.name) || [];
+      terms.push(atom);
+      this.derivedTerms.set(atom.name, terms);
+    }
+  }
+
+  public signature(goal: PLNGoal): string {
+    if (goal.kind === 'term') {
+      return `term(${this.canonical(goal.term)})`;
+    }
+    return `${goal.type}(${goal.outgoing.map(ref => this.canonical(ref)).join(',')})`;
+  }
+
+  private best(atoms: Atom[]): Atom | undefined {
+    return atoms.reduce<Atom | undefined>(
+      (best, atom) => (!best || atom.truthValue.confidence > best.truthValue.confidence ? atom : best),
+      undefined
+    );
+  }
+}
+
+/**
+ * Forward/backward PLN chainer
+ */
+export class PLNChainer {
+  private knowledge: PLNKnowledgeBase;
+  private steps: Map<string, PLNInferenceStep> = new Map();
+  private derived: Atom[] = [];
+  private trace: string[] = [];
+  private sequence: number = 0;
+
+  constructor(
+    atomSpace: AtomSpace,
+    private registry: PLNRuleRegistry,
+    private context: PLNContext
+  ) {
+    this.knowledge = new PLNKnowledgeBase(atomSpace);
+  }
+
+  /**
+   * Forward chaining from source atoms, bounded by `maxDepth` and `maxResults`.
+   * Each round applies every rule with at least one premise taken from the
+   * conclusions of the previous round.
+   */
+  public forwardChain(sources: Atom[]): PLNChainResult {
+    const rules = this.registry.getRules(this.context.ruleWeights);
+    const termPool = sources.filter(atom => !isLink(atom)).map(atom => atom.name);
+    const sourceKeys = new Set(termPool);
+    const applied = new Set<string>();
+
+    // Links touching the sources seed the first round alongside the sources themselves
+    let frontier: Atom[] = [...sources];
+    for (const type of new Set(rules.flatMap(rule => this.linkTypesOf(rule)))) {
+      for (const link of this.knowledge.linksOfType(type)) {
+        if (!sources.includes(link) && link.outgoing.some(ref => sourceKeys.has(this.knowledge.canonical(ref)))) {
+          frontier.push(link);
+        }
+      }
+    }
+
+    this.trace.push(`Forward chaining from ${sources.length} sources with ${rules.length} rules (max depth ${this.context.maxDepth})`);
+
+    for (let depth = 1; depth <= this.context.maxDepth && frontier.length > 0; depth++) {
+      const next: Atom[] = [];
+
+      for (const focus of frontier) {
+        for (const rule of rules) {
+          for (let slot = 0; slot < rule.premises.length; slot++) {
+            for (const match of this.matchForward(rule, slot, focus, termPool)) {
+              const conclusionKey = `${rule.name}|${this.conclusionKey(rule, match.bindings)}`;
+              if (applied.has(conclusionKey)) continue;
+              applied.add(conclusionKey);
+
+              const conclusion = this.applyRule(rule, match, depth);
+              if (conclusion) next.push(conclusion);
+              if (this.derived.length >= this.context.maxResults) {
+                this.trace.push(`Stopped forward chaining at ${this.derived.length} conclusions (maxResults)`);
+                return this.buildResult(this.derived, this.derivedSteps());
+              }
+            }
+          }
+        }
+      }
+
+      this.trace.push(`Depth ${depth}: derived ${next.length} conclusions`);
+      frontier = next;
+    }
+
+    return this.buildResult(this.derived, this.derivedSteps());
+  }
+
+  /**
+   * Backward chaining towards a goal, bounded by `maxDepth`. Returns the
+   * best-supported proof of the goal and the steps of its proof tree.
+   */
+  public backwardChain(goal: PLNGoal): PLNChainResult {
+    this.trace.push(`Backward chaining towards ${this.knowledge.signature(goal)} (max depth ${this.context.maxDepth})`);
+
+    const proof = this.prove(goal, 0, new Set(), new Map());
+    if (!proof) {
+      this.trace.push('No proof found');
+      return this.buildResult([], []);
+    }
+
+    this.trace.push(`Proved ${this.knowledge.signature(goal)} with confidence ${proof.truthValue.confidence.toFixed(3)}`);
+    return this.buildResult([proof], this.collectProofTree(proof));
+  }
+
+  private prove(goal: PLNGoal, depth: number, stack: Set<string>, memo: Map<string, Atom | undefined>): Atom | undefined {
+    const signature = this.knowledge.signature(goal);
+    const memoKey = `${signature}@${depth}`;
+    if (memo.has(memoKey)) return memo.get(memoKey);
+
+    const direct = this.knowledge.find(goal);
+    if (depth >= this.context.maxDepth || stack.has(signature) || this.derived.length >= this.context.maxResults) {
+      return direct;
+    }
+
+    stack.add(signature);
+    const candidates: Atom[] = direct ? [direct] : [];
+
+    for (const rule of this.registry.getRulesConcluding(goal, this.context.ruleWeights)) {
+      const bindings = this.unify(rule.conclusion, goal);
+      if (!bindings) continue;
+
+      for (const match of this.matchBackward(rule, bindings, depth, stack, memo)) {
+        const conclusion = this.applyRule(rule, match, depth + 1);
+        if (conclusion) candidates.push(conclusion);
+      }
+    }
+
+    stack.delete(signature);
+
+    const best = candidates.reduce<Atom | undefined>(
+      (current, atom) => (!current || atom.truthValue.confidence > current.truthValue.confidence ? atom : current),
+      undefined
+    );
+    memo.set(memoKey, best);
+    return best;
+  }
+
+  /**
+   * Match the premises of a rule with the focus atom pinned to one premise slot
+   */
+  private *matchForward(rule: PLNRule, slot: number, focus: Atom, termPool: string[]): Generator<PremiseMatch> {
+    const premise = rule.premises[slot];
+    const bindings = new Map<string, string>();
+
+    if (premise.kind === 'term') {
+      if (isLink(focus)) return;
+      bindings.set(premise.term, focus.name);
+    } else {
+      if (!isLink(focus) || focus.type !== premise.type || !this.bindOutgoing(premise, focus, bindings)) return;
+    }
+
+    const atoms: Atom[] = new Array(rule.premises.length);
+    atoms[slot] = focus;
+    const remaining = rule.premises.map((_, index) => index).filter(index => index !== slot);
+
+    yield* this.matchRemaining(rule, remaining, bindings, atoms, termPool);
+  }
+
+  private *matchRemaining(
+    rule: PLNRule,
+    remaining: number[],
+    bindings: Map<string, string>,
+    atoms: Atom[],
+    termPool: string[]
+  ): Generator<PremiseMatch> {
+    if (remaining.length === 0) {
+      yield { bindings: new Map(bindings), atoms: [...atoms] };
+      return;
+    }
+
+    const [index, ...rest] = remaining;
+    const premise = rule.premises[index];
+
+    if (premise.kind === 'term') {
+      const bound = bindings.get(premise.term);
+      const keys = bound !== undefined ? [bound] : termPool;
+      for (const key of keys) {
+        if (bound === undefined && this.isBoundValue(bindings, key)) continue;
+        const atom = this.knowledge.term(key);
+        if (!atom) continue;
+        const next = new Map(bindings).set(premise.term, key);
+        atoms[index] = atom;
+        yield* this.matchRemaining(rule, rest, next, atoms, termPool);
+      }
+      return;
+    }
+
+    for (const link of this.knowledge.linksOfType(premise.type)) {
+      const next = new Map(bindings);
+      if (atoms.includes(link) || !this.bindOutgoing(premise, link, next)) continue;
+      atoms[index] = link;
+      yield* this.matchRemaining(rule, rest, next, atoms, termPool);
+    }
+  }
+
+  /**
+   * Match the premises of a rule for backward chaining. Link premises with
+   * unbound variables are matched against known links to bind them; fully
+   * bound premises become subgoals proven recursively.
+   */
+  private *matchBackward(
+    rule: PLNRule,
+    bindings: Map<string, string>,
+    depth: number,
+    stack: Set<string>,
+    memo: Map<string, Atom | undefined>
+  ): Generator<PremiseMatch> {
+    const atoms: Atom[] = new Array(rule.premises.length);
+
+    const solve = function* (this: PLNChainer, pending: number[], current: Map<string, string>): Generator<PremiseMatch> {
+      if (pending.length === 0) {
+        yield { bindings: new Map(current), atoms: [...atoms] };
+        return;
+      }
+
+      // Bind variables through open link premises before proving bound subgoals
+      const open = pending.find(index => {
+        const premise = rule.premises[index];
+        return premise.kind === 'link' && premise.outgoing.some(variable => !current.has(variable));
+      });
+
+      if (open !== undefined) {
+        const premise = rule.premises[open] as Extract<PLNPattern, { kind: 'link' }>;
+        const rest = pending.filter(index => index !== open);
+        for (const link of this.knowledge.linksOfType(premise.type)) {
+          const next = new Map(current);
+          if (!this.bindOutgoing(premise, link, next)) continue;
+          atoms[open] = link;
+          yield* solve.call(this, rest, next);
+        }
+        return;
+      }
+
+      const [index, ...rest] = pending;
+      const premise = rule.premises[index];
+      const subgoal = this.instantiate(premise, current);
+      if (!subgoal) return;
+
+      const proof = this.prove(subgoal, depth + 1, stack, memo);
+      if (!proof) return;
+      atoms[index] = proof;
+      yield* solve.call(this, rest, current);
+    };
+
+    yield* solve.call(this, rule.premises.map((_, index) => index), bindings);
+  }
+
+  /**
+   * Bind a link premise's variables to a link's outgoing terms. Distinct
+   * variables must bind distinct terms.
+   */
+  private bindOutgoing(premise: Extract<PLNPattern, { kind: 'link' }>, link: Link, bindings: Map<string, string>): boolean {
+    if (link.outgoing.length !== premise.outgoing.length) return false;
+
+    for (let i = 0; i < premise.outgoing.length; i++) {
+      const variable = premise.outgoing[i];
+      const key = this.knowledge.canonical(link.outgoing[i]);
+      const bound = bindings.get(variable);
+      if (bound !== undefined) {
+        if (bound !== key) return false;
+      } else {
+        if (this.isBoundValue(bindings, key)) return false;
+        bindings.set(variable, key);
+      }
+    }
+    return true;
+  }
+
+  private isBoundValue(bindings: Map<string, string>, key: string): boolean {
+    for (const value of bindings.values()) {
+      if (value === key) return true;
+    }
+    return false;
+  }
+
+  private unify(pattern: PLNPattern, goal: PLNGoal): Map<string, string> | null {
+    const bindings = new Map<string, string>();
+    if (pattern.kind === 'term' && goal.kind === 'term') {
+      return bindings.set(pattern.term, this.knowledge.canonical(goal.term));
+    }
+    if (pattern.kind === 'link' && goal.kind === 'link' && pattern.outgoing.length === goal.outgoing.length) {
+      for (let i = 0; i < pattern.outgoing.length; i++) {
+        const key = this.knowledge.canonical(goal.outgoing[i]);
+        const bound = bindings.get(pattern.outgoing[i]);
+        if ((bound !== undefined && bound !== key) || (bound === undefined && this.isBoundValue(bindings, key))) {
+          return null;
+        }
+        bindings.set(pattern.outgoing[i], key);
+      }
+      return bindings;
+    }
+    return null;
+  }
+
+  private instantiate(pattern: PLNPattern, bindings: Map<string, string>): PLNGoal | null {
+    if (pattern.kind === 'term') {
+      const key = bindings.get(pattern.term);
+      return key === undefined ? null : { kind: 'term', term: key };
+    }
+    const outgoing = pattern.outgoing.map(variable => bindings.get(variable));
+    if (outgoing.some(key => key === undefined)) return null;
+    return { kind: 'link', type: pattern.type, outgoing: outgoing as string[] };
+  }
+
+  private conclusionKey(rule: PLNRule, bindings: Map<string, string>): string {
+    const goal = this.instantiate(rule.conclusion, bindings);
+    if (!goal) return '';
+    if (goal.kind === 'link' && UNORDERED_LINK_TYPES.has(goal.type)) {
+      return `${goal.type}(${[...goal.outgoing].sort().join(',')})`;
+    }
+    return this.knowledge.signature(goal);
+  }
+
+  private linkTypesOf(rule: PLNRule): AtomType[] {
+    return rule.premises.flatMap(premise => (premise.kind === 'link' ? [premise.type] : []));
+  }
+
+  /**
+   * Compute a rule's conclusion, record the step and add the conclusion to the knowledge base
+   */
+  private applyRule(rule: PLNRule, match: PremiseMatch, depth: number): Atom | undefined {
+    const goal = this.instantiate(rule.conclusion, match.bindings);
+    if (!goal) return undefined;
+
+    const truthValue = rule.compute(match.atoms, { knowledge: this.knowledge, bindings: match.bindings });
+    if (!truthValue || truthValue.confidence < this.context.confidenceThreshold) return undefined;
+
+    const conclusion = this.createConclusion(rule, goal, match.atoms, truthValue, depth);
+    this.knowledge.add(conclusion);
+    this.derived.push(conclusion);
+
+    const bindingText = Array.from(match.bindings.entries()).map(([variable, key]) => `${variable}=${key}`).join(', ');
+    this.steps.set(conclusion.id, {
+      rule: rule.name,
+      inputs: match.atoms.map(atom => atom.id),
+      output: conclusion.id,
+      truthValue,
+      confidence: truthValue.confidence,
+      reasoning: `${rule.description} with ${bindingText}`,
+      stepIndex: this.steps.size,
+      formula: rule.formula,
+      depth
+    });
+    return conclusion;
+  }
+
+  private createConclusion(rule: PLNRule, goal: PLNGoal, premises: Atom[], truthValue: Atom['truthValue'], depth: number): Atom {
+    const attention = (key: 'sti' | 'lti' | 'vlti') =>
+      premises.reduce((sum, atom) => sum + atom.attentionValue[key], 0) / premises.length;
+    const base = {
+      truthValue,
+      attentionValue: { sti: attention('sti'), lti: attention('lti'), vlti: attention('vlti') },
+      metadata: {
+        inferred: true,
+        inferenceType: rule.name,
+        formula: rule.formula,
+        sourceAtoms: premises.map(atom => atom.id),
+        depth
+      },
+      source: {
+        kernelId: 'pln_adapter',
+        tensorComponent: 'chaining_inference'
+      }
+    };
+
+    if (goal.kind === 'term') {
+      const prior = this.knowledge.term(goal.term);
+      return {
+        ...base,
+        id: `pln_${rule.name}_${goal.term}_${this.sequence++}_${Date.now()}`,
+        type: prior?.type ?? 'ConceptNode',
+        name: goal.term
+      };
+    }
+
+    const link: Link = {
+      ...base,
+      id: `pln_${rule.name}_${goal.outgoing.join('_')}_${this.sequence++}_${Date.now()}`,
+      type: goal.type,
+      name: `${goal.type.replace(/Link$/, '').toLowerCase()}_${goal.outgoing.join('_')}`,
+      outgoing: goal.outgoing
+    };
+    return link;
+  }
+
+  /**
+   * Steps of the proof tree rooted at a conclusion, premises first
+   */
+  private collectProofTree(root: Atom): PLNInferenceStep[] {
+    const ordered: PLNInferenceStep[] = [];
+    const visited = new Set<string>();
+
+    const visit = (atomId: string) => {
+      if (visited.has(atomId)) return;
+      visited.add(atomId);
+      const step = this.steps.get(atomId);
+      if (!step) return;
+      step.inputs.forEach(visit);
+      ordered.push(step);
+    };
+    visit(root.id);
+
+    return ordered;
+  }
+
+  private buildResult(conclusions: Atom[], steps: PLNInferenceStep[]): PLNChainResult {
+    return {
+      conclusions: [...conclusions],
+      steps: steps.map((step, index) => ({ ...step, stepIndex: index })),
+      trace: [...this.trace]
+    };
+  }
+
+  private derivedSteps(): PLNInferenceStep[] {
+    return this.derived.map(atom => this.steps.get(atom.id)!);
+  }
+}
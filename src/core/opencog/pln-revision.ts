@@ -0,0 +1,296 @@
+/**
+ * PLN Revision
+ *
+ * Truth value revision and contradiction detection for PLN. Conclusions
+ * describing the same relationship are merged with the revision formula;
+ * contradictory pairs (A->B alongside A->NOT B, or strongly disagreeing
+ * estimates of one relationship) are reported for meta-cognition and
+ * consistency checking.
+ */
+
+import type { AtomSpace, Atom, AtomType, Link } from './atomspace-adapter.js';
+import { PatternMatcher, UNORDERED_LINK_TYPES } from './pattern-matcher.js';
+import { TruthValueOperations } from './truth-value-operations.js';
+
+/**
+ * Revision and contradiction thresholds
+ */
+export interface PLNRevisionOptions {
+  /** Evidence scaling constant of the revision formula */
+  revisionK: number;
+  /** Minimum confidence for an atom to take part in a contradiction */
+  minConfidence: number;
+  /** How far s(A->B) + s(A->NOT B) may exceed 1 before it is a contradiction */
+  incoherenceTolerance: number;
+  /** Strength gap between estimates of one relationship that counts as conflicting */
+  conflictGap: number;
+}
+
+/**
+ * Pair of atoms that cannot both hold
+ */
+export interface PLNContradiction {
+  /** IDs of the contradicting atoms */
+  atoms: [string, string];
+  /** `negation`: A->B against A->NOT B; `conflicting-evidence`: disagreeing estimates of one relationship */
+  kind: 'negation' | 'conflicting-evidence';
+  /** Degree of contradiction [0,1] */
+  severity: number;
+  /** Human-readable description */
+  description: string;
+}
+
+/**
+ * Inconsistency report for an AtomSpace
+ */
+export interface PLNRevisionReport {
+  /** Number of atoms examined */
+  atomsChecked: number;
+  /** Relationships held by more than one atom, by signature -> atom IDs */
+  duplicates: Map<string, string[]>;
+  /** Contradictory pairs */
+  contradictions: PLNContradiction[];
+  /** Coherence score [0,1], 1 when nothing contradicts */
+  coherence: number;
+}
+
+/**
+ * Result of revising a set of conclusions
+ */
+export interface PLNRevisionResult {
+  /** One atom per distinct relationship */
+  atoms: Atom[];
+  /** Original conclusion ID -> ID of the atom it was merged into */
+  mergedInto: Map<string, string>;
+  /** Number of conclusions merged away */
+  merged: number;
+}
+
+/**
+ * Truth value revision and contradiction detection
+ */
+export class PLNRevision {
+  private matcher: PatternMatcher;
+  private options: PLNRevisionOptions;
+
+  constructor(private atomSpace: AtomSpace, options?: Partial<PLNRevisionOptions>) {
+    this.matcher = new PatternMatcher(atomSpace);
+    this.options = {
+      revisionK: 10,
+      minConfidence: 0.5,
+      incoherenceTolerance: 0.3,
+      conflictGap: 0.5,
+      ...options
+    };
+  }
+
+  /**
+   * Merge conclusions describing the same relationship, with each other and
+   * with the atom already holding it in the AtomSpace. A merged atom keeps the
+   * existing atom's ID and is marked `metadata.revised`.
+   */
+  public revise(conclusions: Atom[]): PLNRevisionResult {
+    const existingBySignature = this.indexBySignature(this.allAtoms());
+    const groups = new Map<string, Atom[]>();
+    for (const conclusion of conclusions) {
+      const signature = this.signature(conclusion);
+      const group = groups.get(signature) || [];
+      if (!group.some(atom => atom.id === conclusion.id)) group.push(conclusion);
+      groups.set(signature, group);
+    }
+
+    const result: PLNRevisionResult = { atoms: [], mergedInto: new Map(), merged: 0 };
+
+    groups.forEach((group, signature) => {
+      const existing = (existingBySignature.get(signature) || [])[0] ?? this.findNode(group[0]);
+      const base = existing ?? group[0];
+      const evidence = group.filter(atom => atom.id !== base.id);
+
+      if (evidence.length === 0) {
+        result.atoms.push(base);
+        return;
+      }
+
+      const truthValue = evidence.reduce(
+        (tv, atom) => TruthValueOperations.revision(tv, atom.truthValue, this.options.revisionK),
+        base.truthValue
+      );
+      result.atoms.push({
+        ...base,
+        truthValue,
+        metadata: {
+          ...base.metadata,
+          revised: true,
+          revisionCount: (base.metadata.revisionCount || 0) + evidence.length,
+          revisedFrom: [...(base.metadata.revisedFrom || []), ...evidence.map(atom => atom.id)]
+        }
+      });
+      group.forEach(atom => result.mergedInto.set(atom.id, base.id));
+      result.merged += evidence.length;
+    });
+
+    return result;
+  }
+
+  /**
+   * Find contradictions involving the given atoms, against each other and the AtomSpace
+   */
+  public findContradictions(atoms: Atom[]): PLNContradiction[] {
+    const focus = new Set(atoms.map(atom => atom.id));
+    const pool = new Map<string, Atom>();
+    this.allAtoms().forEach(atom => pool.set(atom.id, atom));
+    atoms.forEach(atom => pool.set(atom.id, atom));
+
+    return this.detect(Array.from(pool.values()))
+      .filter(contradiction => contradiction.atoms.some(id => focus.has(id)));
+  }
+
+  /**
+   * Report duplicates and contradictions across the whole AtomSpace
+   */
+  public analyze(): PLNRevisionReport {
+    const atoms = this.allAtoms();
+    const duplicates = new Map<string, string[]>();
+    this.indexBySignature(atoms).forEach((group, signature) => {
+      if (group.length > 1) duplicates.set(signature, group.map(atom => atom.id));
+    });
+
+    const contradictions = this.detect(atoms);
+    return {
+      atomsChecked: atoms.length,
+      duplicates,
+      contradictions,
+      coherence: this.coherence(atoms, contradictions)
+    };
+  }
+
+  /**
+   * Coherence of a set of atoms: 1 minus the mean contradiction severity per atom
+   */
+  public coherence(atoms: Atom[], contradictions: PLNContradiction[] = this.findContradictions(atoms)): number {
+    if (atoms.length === 0) return 1.0;
+    const severity = contradictions.reduce((sum, contradiction) => sum + contradiction.severity, 0);
+    return Math.max(0.0, 1.0 - severity / atoms.length);
+  }
+
+  private detect(atoms: Atom[]): PLNContradiction[] {
+    const contradictions: PLNContradiction[] = [];
+    const bySignature = this.indexBySignature(atoms);
+    const confident = (atom: Atom) => atom.truthValue.confidence >= this.options.minConfidence;
+
+    // Conflicting estimates of the same relationship
+    bySignature.forEach((group, signature) => {
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) {
+          const [a, b] = [group[i], group[j]];
+          const gap = Math.abs(a.truthValue.strength - b.truthValue.strength);
+          if (confident(a) && confident(b) && gap > this.options.conflictGap) {
+            contradictions.push({
+              atoms: [a.id, b.id],
+              kind: 'conflicting-evidence',
+              severity: gap,
+              description: `${signature} has conflicting strengths ${a.truthValue.strength.toFixed(2)} and ${b.truthValue.strength.toFixed(2)}`
+            });
+          }
+        }
+      }
+    });
+
+    // A relationship held alongside its negation
+    for (const atom of atoms) {
+      const negated = this.negatedSignature(atom);
+      if (!negated || !confident(atom)) continue;
+
+      for (const positive of bySignature.get(negated) || []) {
+        if (!confident(positive)) continue;
+        const excess = positive.truthValue.strength + atom.truthValue.strength - 1.0;
+        if (excess > this.options.incoherenceTolerance) {
+          contradictions.push({
+            atoms: [positive.id, atom.id],
+            kind: 'negation',
+            severity: Math.min(1.0, excess),
+            description: `${negated} (strength ${positive.truthValue.strength.toFixed(2)}) contradicts ${this.signature(atom)} (strength ${atom.truthValue.strength.toFixed(2)})`
+          });
+        }
+      }
+    }
+
+    return contradictions;
+  }
+
+  /**
+   * Signature of the positive form of a negated atom: NOT(L) -> L, R(A, NOT B) -> R(A, B)
+   */
+  private negatedSignature(atom: Atom): string | null {
+    const outgoing = this.outgoingOf(atom);
+    if (!outgoing) return null;
+
+    if (atom.type === 'NotLink' && outgoing.length === 1) {
+      const inner = this.matcher.resolve(outgoing[0]);
+      return inner && this.outgoingOf(inner) ? this.signature(inner) : null;
+    }
+
+    if (outgoing.length === 2) {
+      const target = this.matcher.resolve(outgoing[1]);
+      const targetOutgoing = target ? this.outgoingOf(target) : null;
+      if (target?.type === 'NotLink' && targetOutgoing?.length === 1) {
+        return this.linkSignature(atom.type, [outgoing[0], targetOutgoing[0]]);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Relationship identity: type and canonical outgoing set for links, type and name for nodes
+   */
+  private signature(atom: Atom, depth: number = 0): string {
+    const outgoing = this.outgoingOf(atom);
+    return outgoing ? this.linkSignature(atom.type, outgoing, depth) : `${atom.type}:${atom.name}`;
+  }
+
+  private linkSignature(type: AtomType, outgoing: string[], depth: number = 0): string {
+    const keys = outgoing.map(ref => {
+      const atom = this.matcher.resolve(ref);
+      if (!atom) return ref;
+      return this.outgoingOf(atom) && depth < 8 ? this.signature(atom, depth + 1) : atom.name;
+    });
+    if (UNORDERED_LINK_TYPES.has(type)) keys.sort();
+    return `${type}(${keys.join(',')})`;
+  }
+
+  /**
+   * Outgoing set of a link. Link-typed atoms created without one describe
+   * their arguments in `metadata.sourceAtoms`.
+   */
+  private outgoingOf(atom: Atom): string[] | null {
+    const outgoing = (atom as Link).outgoing;
+    if (Array.isArray(outgoing)) return outgoing;
+    if (atom.type.endsWith('Link') && Array.isArray(atom.metadata.sourceAtoms)) {
+      return atom.metadata.sourceAtoms;
+    }
+    return null;
+  }
+
+  private indexBySignature(atoms: Atom[]): Map<string, Atom[]> {
+    const index = new Map<string, Atom[]>();
+    for (const atom of atoms) {
+      if (!this.outgoingOf(atom)) continue; // nodes are identified by ID, not revised
+      const signature = this.signature(atom);
+      const group = index.get(signature) || [];
+      group.push(atom);
+      index.set(signature, group);
+    }
+    return index;
+  }
+
+  private findNode(atom: Atom): Atom | undefined {
+    if (this.outgoingOf(atom)) return undefined;
+    return Array.from(this.atomSpace.nameIndex.get(atom.name) || [])
+      .map(id => this.atomSpace.atoms.get(id))
+      .find(candidate => candidate?.type === atom.type);
+  }
+
+  private allAtoms(): Atom[] {
+    return [...this.atomSpace.atoms.values(), ...this.atomSpace.links.values()];
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * PLN Rule Registry
+ *
+ * Declarative PLN inference rules and a pluggable registry used by the
+ * forward and backward chainer. Each rule states its premise and conclusion
+ * patterns over term variables and the TruthValueOperations formula it uses.
+ */
+
+import { Atom, AtomType, Link, TruthValue } from './atomspace-adapter.js';
+import type { PLNRuleType } from './pln-adapter.js';
+import { TruthValueOperations } from './truth-value-operations.js';
+
+/**
+ * Pattern matched by a rule premise or produced by a rule conclusion.
+ * Strings in `term`/`outgoing` are variable names bound to term keys.
+ */
+export type PLNPattern =
+  | { kind: 'term'; term: string }
+  | { kind: 'link'; type: AtomType; outgoing: string[] };
+
+/**
+ * Read-only view of the knowledge available to rules
+ */
+export interface PLNKnowledgeView {
+  /** Links of a type, including conclusions derived so far */
+  linksOfType(type: AtomType): Link[];
+  /** Resolve a term key (atom ID or name) to its best-supported atom */
+  term(key: string): Atom | undefined;
+  /** Normalize an atom ID or name to the key used in patterns */
+  canonical(ref: string): string;
+}
+
+/**
+ * Context passed to a rule when computing its conclusion
+ */
+export interface PLNRuleContext {
+  /** Knowledge available to the rule */
+  knowledge: PLNKnowledgeView;
+  /** Variable bindings of this application (variable -> term key) */
+  bindings: Map<string, string>;
+}
+
+/**
+ * PLN inference rule
+ */
+export interface PLNRule {
+  /** Rule identifier */
+  name: PLNRuleType;
+  /** TruthValueOperations formula used to compute the conclusion */
+  formula: string;
+  /** Human-readable rule schema */
+  description: string;
+  /** Premise patterns, in the order passed to `compute` */
+  premises: PLNPattern[];
+  /** Conclusion pattern */
+  conclusion: PLNPattern;
+  /** Compute the conclusion truth value, or null if the premises give no evidence */
+  compute(premises: Atom[], context: PLNRuleContext): TruthValue | null;
+}
+
+const term = (name: string): PLNPattern => ({ kind: 'term', term: name });
+const link = (type: AtomType, ...outgoing: string[]): PLNPattern => ({ kind: 'link', type, outgoing });
+
+/**
+ * Collect [P(x->A), P(x->B)] pairs for members x shared by A and B
+ */
+function sharedMembers(knowledge: PLNKnowledgeView, a: string, b: string): Array<[TruthValue, TruthValue]> {
+  const toA = new Map<string, TruthValue>();
+  const pairs: Array<[TruthValue, TruthValue]> = [];
+  const inheritance = knowledge.linksOfType('InheritanceLink');
+
+  for (const l of inheritance) {
+    if (l.outgoing.length === 2 && knowledge.canonical(l.outgoing[1]) === a) {
+      toA.set(knowledge.canonical(l.outgoing[0]), l.truthValue);
+    }
+  }
+  for (const l of inheritance) {
+    if (l.outgoing.length !== 2 || knowledge.canonical(l.outgoing[1]) !== b) continue;
+    const member = knowledge.canonical(l.outgoing[0]);
+    const memberOfA = toA.get(member);
+    if (memberOfA && member !== a && member !== b) {
+      pairs.push([memberOfA, l.truthValue]);
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Collect [P(A->p), P(B->p)] pairs for properties p of B, with zero strength where A lacks p
+ */
+function sharedProperties(knowledge: PLNKnowledgeView, a: string, b: string): Array<[TruthValue, TruthValue]> {
+  const ofA = new Map<string, TruthValue>();
+  const pairs: Array<[TruthValue, TruthValue]> = [];
+  const inheritance = knowledge.linksOfType('InheritanceLink');
+
+  for (const l of inheritance) {
+    if (l.outgoing.length === 2 && knowledge.canonical(l.outgoing[0]) === a) {
+      ofA.set(knowledge.canonical(l.outgoing[1]), l.truthValue);
+    }
+  }
+  let shared = 0;
+  for (const l of inheritance) {
+    if (l.outgoing.length !== 2 || knowledge.canonical(l.outgoing[0]) !== b) continue;
+    const property = knowledge.canonical(l.outgoing[1]);
+    if (property === a || property === b) continue;
+    const propertyOfA = ofA.get(property);
+    if (propertyOfA) shared++;
+    pairs.push([propertyOfA ?? { strength: 0, confidence: l.truthValue.confidence }, l.truthValue]);
+  }
+  return shared > 0 ? pairs : [];
+}
+
+/**
+ * Default PLN rule set
+ */
+export const DEFAULT_PLN_RULES: PLNRule[] = [
+  {
+    name: 'InheritanceRule',
+    formula: 'TruthValueOperations.inheritanceTransitivity',
+    description: 'Inheritance(A,B), Inheritance(B,C) |- Inheritance(A,C)',
+    premises: [link('InheritanceLink', 'A', 'B'), link('InheritanceLink', 'B', 'C')],
+    conclusion: link('InheritanceLink', 'A', 'C'),
+    compute: ([ab, bc]) => TruthValueOperations.inheritanceTransitivity(ab.truthValue, bc.truthValue)
+  },
+  {
+    name: 'DeductionRule',
+    formula: 'TruthValueOperations.deduction',
+    description: 'Implication(A,B), Implication(B,C) |- Implication(A,C)',
+    premises: [link('ImplicationLink', 'A', 'B'), link('ImplicationLink', 'B', 'C')],
+    conclusion: link('ImplicationLink', 'A', 'C'),
+    compute: ([ab, bc]) => TruthValueOperations.deduction(ab.truthValue, bc.truthValue)
+  },
+  {
+    name: 'ModusPonensRule',
+    formula: 'TruthValueOperations.modusPonens',
+    description: 'A, Implication(A,B) |- B',
+    premises: [term('A'), link('ImplicationLink', 'A', 'B')],
+    conclusion: term('B'),
+    compute: ([a, ab]) => TruthValueOperations.modusPonens(a.truthValue, ab.truthValue)
+  },
+  {
+    name: 'BayesRule',
+    formula: 'TruthValueOperations.bayes',
+    description: 'Implication(A,B), A, B |- Implication(B,A)',
+    premises: [link('ImplicationLink', 'A', 'B'), term('A'), term('B')],
+    conclusion: link('ImplicationLink', 'B', 'A'),
+    compute: ([ab, a, b]) => TruthValueOperations.bayes(ab.truthValue, a.truthValue, b.truthValue)
+  },
+  {
+    name: 'InductionRule',
+    formula: 'TruthValueOperations.induction',
+    description: 'Inheritance(A,B), A |- Inheritance(B,A)',
+    premises: [link('InheritanceLink', 'A', 'B'), term('A')],
+    conclusion: link('InheritanceLink', 'B', 'A'),
+    compute: ([ab, a]) => TruthValueOperations.induction(ab.truthValue, a.truthValue)
+  },
+  {
+    name: 'AbductionRule',
+    formula: 'TruthValueOperations.abduction',
+    description: 'Implication(A,B), B |- A',
+    premises: [link('ImplicationLink', 'A', 'B'), term('B')],
+    conclusion: term('A'),
+    compute: ([ab, b]) => TruthValueOperations.abduction(ab.truthValue, b.truthValue)
+  },
+  {
+    name: 'AnalogicalRule',
+    formula: 'TruthValueOperations.analogy',
+    description: 'Similarity(A,B), Inheritance(A,C) |- Inheritance(B,C)',
+    premises: [link('SimilarityLink', 'A', 'B'), link('InheritanceLink', 'A', 'C')],
+    conclusion: link('InheritanceLink', 'B', 'C'),
+    compute: ([ab, ac]) => TruthValueOperations.analogy(ab.truthValue, ac.truthValue)
+  },
+  {
+    name: 'SimilarityRule',
+    formula: 'TruthValueOperations.similaritySymmetry',
+    description: 'Similarity(A,B) |- Similarity(B,A)',
+    premises: [link('SimilarityLink', 'A', 'B')],
+    conclusion: link('SimilarityLink', 'B', 'A'),
+    compute: ([ab]) => TruthValueOperations.similaritySymmetry(ab.truthValue)
+  },
+  {
+    name: 'ConjunctionRule',
+    formula: 'TruthValueOperations.conjunction',
+    description: 'A, B |- And(A,B)',
+    premises: [term('A'), term('B')],
+    conclusion: link('AndLink', 'A', 'B'),
+    compute: ([a, b]) => TruthValueOperations.conjunction(a.truthValue, b.truthValue)
+  },
+  {
+    name: 'DisjunctionRule',
+    formula: 'TruthValueOperations.disjunction',
+    description: 'A, B |- Or(A,B)',
+    premises: [term('A'), term('B')],
+    conclusion: link('OrLink', 'A', 'B'),
+    compute: ([a, b]) => TruthValueOperations.disjunction(a.truthValue, b.truthValue)
+  },
+  {
+    name: 'NegationRule',
+    formula: 'TruthValueOperations.negation',
+    description: 'A |- Not(A)',
+    premises: [term('A')],
+    conclusion: link('NotLink', 'A'),
+    compute: ([a]) => TruthValueOperations.negation(a.truthValue)
+  },
+  {
+    name: 'ExtensionalInheritanceRule',
+    formula: 'TruthValueOperations.extensionalInheritance',
+    description: 'A, B, shared members of A and B |- Inheritance(A,B)',
+    premises: [term('A'), term('B')],
+    conclusion: link('InheritanceLink', 'A', 'B'),
+    compute: (_premises, { knowledge, bindings }) => {
+      const pairs = sharedMembers(knowledge, bindings.get('A')!, bindings.get('B')!);
+      return pairs.length > 0 ? TruthValueOperations.extensionalInheritance(pairs) : null;
+    }
+  },
+  {
+    name: 'IntensionalInheritanceRule',
+    formula: 'TruthValueOperations.intensionalInheritance',
+    description: 'A, B, shared properties of A and B |- Inheritance(A,B)',
+    premises: [term('A'), term('B')],
+    conclusion: link('InheritanceLink', 'A', 'B'),
+    compute: (_premises, { knowledge, bindings }) => {
+      const pairs = sharedProperties(knowledge, bindings.get('A')!, bindings.get('B')!);
+      return pairs.length > 0 ? TruthValueOperations.intensionalInheritance(pairs) : null;
+    }
+  }
+];
+
+/**
+ * Pluggable registry of PLN rules
+ */
+export class PLNRuleRegistry {
+  private rules: Map<PLNRuleType, PLNRule> = new Map();
+
+  constructor(rules: PLNRule[] = []) {
+    rules.forEach(rule => this.register(rule));
+  }
+
+  /**
+   * Create a registry holding the default PLN rule set
+   */
+  static createDefault(): PLNRuleRegistry {
+    return new PLNRuleRegistry(DEFAULT_PLN_RULES);
+  }
+
+  /**
+   * Register a rule, replacing any rule with the same name
+   */
+  public register(rule: PLNRule): void {
+    this.rules.set(rule.name, rule);
+  }
+
+  /**
+   * Remove a rule
+   */
+  public unregister(name: PLNRuleType): boolean {
+    return this.rules.delete(name);
+  }
+
+  /**
+   * Get a rule by name
+   */
+  public get(name: PLNRuleType): PLNRule | undefined {
+    return this.rules.get(name);
+  }
+
+  /**
+   * Check whether a rule is registered
+   */
+  public has(name: PLNRuleType): boolean {
+    return this.rules.has(name);
+  }
+
+  /**
+   * Get rules ordered by weight (highest first), skipping rules weighted zero
+   */
+  public getRules(weights?: Map<PLNRuleType, number>): PLNRule[] {
+    const weightOf = (rule: PLNRule) => weights?.get(rule.name) ?? 1.0;
+    return Array.from(this.rules.values())
+      .filter(rule => weightOf(rule) > 0)
+      .sort((a, b) => weightOf(b) - weightOf(a));
+  }
+
+  /**
+   * Get rules whose conclusion matches a goal
+   */
+  public getRulesConcluding(goal: PLNPattern, weights?: Map<PLNRuleType, number>): PLNRule[] {
+    return this.getRules(weights).filter(rule =>
+      rule.conclusion.kind === goal.kind &&
+      (goal.kind === 'term' ||
+        (rule.conclusion.kind === 'link' &&
+          rule.conclusion.type === goal.type &&
+          rule.conclusion.outgoing.length === goal.outgoing.length))
+    );
+  }
+}
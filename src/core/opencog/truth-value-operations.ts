@@ -0,0 +1,192 @@
+/**
+ * Truth Value Operations
+ * 
+ * PLN truth value formulas shared by the PLN adapter and its rule set.
+ */
+
+import { TruthValue } from './atomspace-adapter.js';
+
+/**
+ * Truth value operations for PLN
+ */
+export class TruthValueOperations {
+  
+  /**
+   * Deduction: P(A->C) from P(A->B) and P(B->C)
+   */
+  static deduction(ab: TruthValue, bc: TruthValue): TruthValue {
+    const strength = ab.strength * bc.strength;
+    const confidence = Math.min(ab.confidence, bc.confidence) * 0.9; // slight penalty for inference
+    return { strength, confidence, count: Math.min(ab.count || 1, bc.count || 1) };
+  }
+
+  /**
+   * Induction: P(B->A) from P(A->B) and P(A)
+   */
+  static induction(ab: TruthValue, a: TruthValue): TruthValue {
+    const strength = (ab.strength * a.strength) / Math.max(0.01, a.strength);
+    const confidence = Math.min(ab.confidence, a.confidence) * 0.8; // higher penalty for induction
+    return { strength: Math.min(1.0, strength), confidence, count: Math.min(ab.count || 1, a.count || 1) };
+  }
+
+  /**
+   * Abduction: P(A) from P(A->B) and P(B)
+   */
+  static abduction(ab: TruthValue, b: TruthValue): TruthValue {
+    const strength = (ab.strength * b.strength) / Math.max(0.01, ab.strength);
+    const confidence = Math.min(ab.confidence, b.confidence) * 0.7; // highest penalty for abduction
+    return { strength: Math.min(1.0, strength), confidence, count: Math.min(ab.count || 1, b.count || 1) };
+  }
+
+  /**
+   * Conjunction: P(A ∧ B)
+   */
+  static conjunction(a: TruthValue, b: TruthValue): TruthValue {
+    const strength = a.strength * b.strength;
+    const confidence = Math.min(a.confidence, b.confidence) * 0.95;
+    return { strength, confidence, count: Math.min(a.count || 1, b.count || 1) };
+  }
+
+  /**
+   * Disjunction: P(A ∨ B)
+   */
+  static disjunction(a: TruthValue, b: TruthValue): TruthValue {
+    const strength = a.strength + b.strength - (a.strength * b.strength);
+    const confidence = Math.min(a.confidence, b.confidence) * 0.95;
+    return { strength, confidence, count: Math.min(a.count || 1, b.count || 1) };
+  }
+
+  /**
+   * Negation: P(¬A)
+   */
+  static negation(a: TruthValue): TruthValue {
+    return { 
+      strength: 1.0 - a.strength, 
+      confidence: a.confidence * 0.9,
+      count: a.count 
+    };
+  }
+
+  /**
+   * Bayes rule: P(A|B) from P(B|A), P(A), P(B)
+   */
+  static bayes(ba: TruthValue, a: TruthValue, b: TruthValue): TruthValue {
+    const strength = (ba.strength * a.strength) / Math.max(0.01, b.strength);
+    const confidence = Math.min(ba.confidence, Math.min(a.confidence, b.confidence)) * 0.85;
+    return { strength: Math.min(1.0, strength), confidence, count: Math.min(ba.count || 1, Math.min(a.count || 1, b.count || 1)) };
+  }
+
+  /**
+   * Inheritance transitivity: P(A->C) from P(A->B) and P(B->C)
+   */
+  static inheritanceTransitivity(ab: TruthValue, bc: TruthValue): TruthValue {
+    return this.deduction(ab, bc); // Same as deduction for inheritance chains
+  }
+
+  /**
+   * Similarity symmetry: P(B~A) from P(A~B)
+   */
+  static similaritySymmetry(ab: TruthValue): TruthValue {
+    return { ...ab }; // Similarity is symmetric
+  }
+
+  /**
+   * Modus ponens: P(B) from P(A) and P(A->B), assuming P(B|¬A) = background
+   */
+  static modusPonens(a: TruthValue, ab: TruthValue, background: number = 0.2): TruthValue {
+    const strength = a.strength * ab.strength + (1.0 - a.strength) * background;
+    const confidence = Math.min(a.confidence, ab.confidence) * 0.9;
+    return { strength: Math.min(1.0, strength), confidence, count: Math.min(a.count || 1, ab.count || 1) };
+  }
+
+  /**
+   * Analogy: P(B->C) from P(A~B) and P(A->C)
+   */
+  static analogy(ab: TruthValue, ac: TruthValue): TruthValue {
+    const result = this.deduction(ab, ac);
+    return { ...result, confidence: result.confidence * 0.8 }; // similarity is weaker evidence than inheritance
+  }
+
+  /**
+   * Extensional inheritance: P(A->B) from shared members, given as [P(x->A), P(x->B)] pairs
+   */
+  static extensionalInheritance(memberships: Array<[TruthValue, TruthValue]>): TruthValue {
+    return this.fuzzyInclusion(memberships, 0);
+  }
+
+  /**
+   * Intensional inheritance: P(A->B) from shared properties, given as [P(A->p), P(B->p)] pairs.
+   * A inherits from B to the degree that A has B's properties.
+   */
+  static intensionalInheritance(properties: Array<[TruthValue, TruthValue]>): TruthValue {
+    return this.fuzzyInclusion(properties, 1);
+  }
+
+  /**
+   * Fuzzy set inclusion sum(min(a, b)) / sum(side), with confidence growing with evidence count
+   */
+  private static fuzzyInclusion(pairs: Array<[TruthValue, TruthValue]>, side: 0 | 1): TruthValue {
+    let overlap = 0;
+    let total = 0;
+    let confidenceSum = 0;
+
+    for (const pair of pairs) {
+      overlap += Math.min(pair[0].strength, pair[1].strength);
+      total += pair[side].strength;
+      confidenceSum += Math.min(pair[0].confidence, pair[1].confidence);
+    }
+
+    if (pairs.length === 0 || total === 0) {
+      return { strength: 0, confidence: 0, count: 0 };
+    }
+
+    const count = pairs.length;
+    const evidenceConfidence = count / (count + 10); // PLN-style count-to-confidence with k = 10
+    return {
+      strength: Math.min(1.0, overlap / total),
+      confidence: evidenceConfidence * (confidenceSum / count),
+      count
+    };
+  }
+
+  /**
+   * Revision: merge two independent estimates of the same atom, weighting each
+   * strength by its evidence count n = k * c / (1 - c)
+   */
+  static revision(tv1: TruthValue, tv2: TruthValue, k: number = 10): TruthValue {
+    const evidence = (tv: TruthValue) => {
+      const confidence = Math.min(Math.max(tv.confidence, 0), 0.9999); // full confidence would be infinite evidence
+      return (k * confidence) / (1 - confidence);
+    };
+
+    const n1 = evidence(tv1);
+    const n2 = evidence(tv2);
+    const n = n1 + n2;
+    if (n === 0) {
+      return { strength: (tv1.strength + tv2.strength) / 2, confidence: 0, count: 0 };
+    }
+
+    return {
+      strength: (n1 * tv1.strength + n2 * tv2.strength) / n,
+      confidence: n / (n + k),
+      count: (tv1.count || 1) + (tv2.count || 1)
+    };
+  }
+
+  /**
+   * Attention-weighted combination
+   */
+  static attentionWeighted(tv1: TruthValue, tv2: TruthValue, attention1: number, attention2: number): TruthValue {
+    const totalAttention = attention1 + attention2;
+    if (totalAttention === 0) return tv1;
+    
+    const w1 = attention1 / totalAttention;
+    const w2 = attention2 / totalAttention;
+    
+    return {
+      strength: w1 * tv1.strength + w2 * tv2.strength,
+      confidence: w1 * tv1.confidence + w2 * tv2.confidence,
+      count: Math.max(tv1.count || 1, tv2.count || 1)
+    };
+  }
+}